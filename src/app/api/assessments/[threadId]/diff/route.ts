@@ -0,0 +1,107 @@
+/**
+ * Assessment Diff API Route
+ *
+ * GET /api/assessments/:threadId/diff?from=<threadId>
+ *
+ * Compares the assessment with an earlier one: `from`, or by default the
+ * previous version of the same problem. Reports the verdict and confidence
+ * change, each dimension's score, confidence and weight before and after, and
+ * the risks and alternatives added or removed.
+ *
+ * Response:
+ * {
+ *   "from": AssessmentSummary,
+ *   "to": AssessmentSummary,
+ *   "diff": { verdict, confidence, dimensions, risks: { added, removed },
+ *             alternatives: { added, removed }, changed }
+ * }
+ *
+ * Error cases:
+ * - 400: No `from` and the assessment is the first version
+ * - 404: Either assessment not found, or started through /api/v1 by an API key
+ *
+ * @module api/assessments/[threadId]/diff
+ */
+
+import { getAssessmentStore, type Assessment, type AssessmentSummary } from '@/lib/assessments';
+import { diffAnalysisResults } from '@/lib/pipeline';
+import { notFoundResponse, serverErrorResponse } from '../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** The assessment without its full result */
+function toSummary(assessment: Assessment): AssessmentSummary {
+  const summary: AssessmentSummary & { result?: unknown } = { ...assessment };
+  delete summary.result;
+  return summary;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Diff an assessment against an earlier one.
+ */
+export async function GET(request: Request, { params }: RouteContext): Promise<Response> {
+  const { threadId } = await params;
+  const fromParam = new URL(request.url).searchParams.get('from');
+
+  try {
+    const store = await getAssessmentStore();
+    const to = await store.get(threadId);
+    if (!to || to.ownerId) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    let fromId = fromParam;
+    if (!fromId) {
+      const versions = (await store.versions(threadId)) ?? [];
+      const index = versions.findIndex((v) => v.threadId === threadId);
+      fromId = index > 0 ? versions[index - 1].threadId : null;
+      if (!fromId) {
+        return Response.json(
+          {
+            code: 'VALIDATION_ERROR',
+            message: `Assessment ${threadId} is the first version; pass "from" to compare it`
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const from = await store.get(fromId);
+    if (!from || from.ownerId) {
+      return notFoundResponse(`Assessment ${fromId} not found`);
+    }
+
+    return Response.json(
+      {
+        from: toSummary(from),
+        to: toSummary(to),
+        diff: diffAnalysisResults(from.result, to.result)
+      },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    );
+  } catch (error) {
+    console.error('[/api/assessments] Failed to diff assessments:', error);
+    return serverErrorResponse();
+  }
+}
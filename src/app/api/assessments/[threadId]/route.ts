@@ -0,0 +1,124 @@
+/**
+ * Assessment API Route
+ *
+ * GET    /api/assessments/:threadId - Stored assessment with its full AnalysisResult
+ * PATCH  /api/assessments/:threadId - Rename and/or retag: { "title"?: string, "tags"?: string[] }
+ * DELETE /api/assessments/:threadId - Delete the assessment
+ *
+ * Error cases:
+ * - 400: Invalid JSON or update body
+ * - 404: Assessment not found, or started through /api/v1 by an API key
+ *
+ * @module api/assessments/[threadId]
+ */
+
+import { AssessmentUpdateSchema, getAssessmentStore } from '@/lib/assessments';
+import {
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse
+} from '../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get a stored assessment.
+ */
+export async function GET(_request: Request, { params }: RouteContext): Promise<Response> {
+  const { threadId } = await params;
+
+  try {
+    const store = await getAssessmentStore();
+    const assessment = await store.get(threadId);
+    if (!assessment || assessment.ownerId) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    return Response.json(assessment, {
+      headers: { 'Cache-Control': 'no-store, max-age=0' }
+    });
+  } catch (error) {
+    console.error('[/api/assessments] Failed to load assessment:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * Rename and/or retag a stored assessment.
+ */
+export async function PATCH(request: Request, { params }: RouteContext): Promise<Response> {
+  const { threadId } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = AssessmentUpdateSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  try {
+    const store = await getAssessmentStore();
+    if ((await store.get(threadId))?.ownerId) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    const assessment = await store.update(threadId, validated.data);
+    if (!assessment) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    return Response.json(assessment);
+  } catch (error) {
+    console.error('[/api/assessments] Failed to update assessment:', error);
+    return serverErrorResponse();
+  }
+}
+
+/**
+ * Delete a stored assessment.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext): Promise<Response> {
+  const { threadId } = await params;
+
+  try {
+    const store = await getAssessmentStore();
+    if ((await store.get(threadId))?.ownerId) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    const deleted = await store.remove(threadId);
+    if (!deleted) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    return Response.json({ deleted: true });
+  } catch (error) {
+    console.error('[/api/assessments] Failed to delete assessment:', error);
+    return serverErrorResponse();
+  }
+}
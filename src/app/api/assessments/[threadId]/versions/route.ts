@@ -0,0 +1,65 @@
+/**
+ * Assessment Versions API Route
+ *
+ * GET /api/assessments/:threadId/versions
+ *
+ * Lists every version of the assessment's problem, oldest first. A run
+ * started with `parentThreadId` is stored as the next version of that
+ * assessment.
+ *
+ * Response:
+ * {
+ *   "rootThreadId": "uuid - first assessment of the problem",
+ *   "versions": [{ ...AssessmentSummary, "version": 1, "parentThreadId"?: "uuid" }]
+ * }
+ *
+ * Error cases:
+ * - 404: Assessment not found, or started through /api/v1 by an API key
+ *
+ * @module api/assessments/[threadId]/versions
+ */
+
+import { getAssessmentStore } from '@/lib/assessments';
+import { notFoundResponse, serverErrorResponse } from '../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ threadId: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List the versions of an assessment's problem.
+ */
+export async function GET(_request: Request, { params }: RouteContext): Promise<Response> {
+  const { threadId } = await params;
+
+  try {
+    const store = await getAssessmentStore();
+    const versions = await store.versions(threadId);
+    if (!versions || versions.some((v) => v.ownerId)) {
+      return notFoundResponse(`Assessment ${threadId} not found`);
+    }
+
+    return Response.json(
+      { rootThreadId: versions[0]?.rootThreadId ?? threadId, versions },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    );
+  } catch (error) {
+    console.error('[/api/assessments] Failed to list versions:', error);
+    return serverErrorResponse();
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Tests for the /api/assessments routes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InMemoryStore } from '@mastra/core/storage';
+import { createAssessmentStore, type AssessmentStore } from '@/lib/assessments/store';
+import type { AnalysisResult } from '@/lib/pipeline/types';
+import { GET as LIST } from '../route';
+import { GET, PATCH, DELETE } from '../[threadId]/route';
+import { GET as VERSIONS } from '../[threadId]/versions/route';
+import { GET as DIFF } from '../[threadId]/diff/route';
+
+// ============================================================================
+// MOCK STORE
+// ============================================================================
+
+const storeHolder: { store: AssessmentStore | null } = { store: null };
+
+vi.mock('@/lib/assessments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/assessments')>()),
+  getAssessmentStore: async () => storeHolder.store
+}));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const result: AnalysisResult = {
+  threadId: 'run-1',
+  problem: 'Draft replies to routine customer emails',
+  verdict: 'CONDITIONAL',
+  confidence: 0.7,
+  summary: 'Works with review',
+  reasoning: 'Because...',
+  dimensions: [],
+  keyFactors: [],
+  risks: [],
+  alternatives: [],
+  architecture: null,
+  questionsBeforeBuilding: [],
+  answeredQuestions: [],
+  durationMs: 3000
+};
+
+function context(threadId: string) {
+  return { params: Promise.resolve({ threadId }) };
+}
+
+function createRequest(method: string, body?: unknown): Request {
+  return new Request('http://localhost:3000/api/assessments/run-1', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('/api/assessments', () => {
+  beforeEach(async () => {
+    storeHolder.store = createAssessmentStore(new InMemoryStore());
+    await storeHolder.store.save(result);
+  });
+
+  describe('GET /api/assessments', () => {
+    it('lists stored assessments', async () => {
+      const response = await LIST();
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.assessments).toHaveLength(1);
+      expect(data.assessments[0]).toMatchObject({ threadId: 'run-1', verdict: 'CONDITIONAL' });
+    });
+  });
+
+  describe('GET /api/assessments/:threadId', () => {
+    it('returns the assessment with its result', async () => {
+      const response = await GET(createRequest('GET'), context('run-1'));
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.result).toEqual(result);
+    });
+
+    it('returns 404 for unknown assessments', async () => {
+      const response = await GET(createRequest('GET'), context('missing'));
+
+      expect(response.status).toBe(404);
+      expect((await response.json()).code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('PATCH /api/assessments/:threadId', () => {
+    it('renames and retags', async () => {
+      const response = await PATCH(
+        createRequest('PATCH', { title: 'Email drafts', tags: ['support'] }),
+        context('run-1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ title: 'Email drafts', tags: ['support'] });
+    });
+
+    it('returns 400 for invalid bodies', async () => {
+      const invalidJson = await PATCH(createRequest('PATCH', 'not json'), context('run-1'));
+      const emptyUpdate = await PATCH(createRequest('PATCH', {}), context('run-1'));
+
+      expect(invalidJson.status).toBe(400);
+      expect((await invalidJson.json()).code).toBe('INVALID_JSON');
+      expect(emptyUpdate.status).toBe(400);
+      expect((await emptyUpdate.json()).code).toBe('VALIDATION_ERROR');
+    });
+
+    it('returns 404 for unknown assessments', async () => {
+      const response = await PATCH(createRequest('PATCH', { title: 'x' }), context('missing'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/assessments/:threadId', () => {
+    it('deletes the assessment', async () => {
+      const response = await DELETE(createRequest('DELETE'), context('run-1'));
+
+      expect(response.status).toBe(200);
+      expect((await GET(createRequest('GET'), context('run-1'))).status).toBe(404);
+    });
+
+    it('returns 404 for unknown assessments', async () => {
+      const response = await DELETE(createRequest('DELETE'), context('missing'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/assessments/:threadId/versions', () => {
+    it('lists the versions of the problem, oldest first', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await storeHolder.store?.save({ ...result, threadId: 'run-2', parentThreadId: 'run-1' });
+
+      const response = await VERSIONS(createRequest('GET'), context('run-2'));
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.rootThreadId).toBe('run-1');
+      expect(data.versions.map((v: { version: number; threadId: string }) => [v.version, v.threadId])).toEqual([
+        [1, 'run-1'],
+        [2, 'run-2']
+      ]);
+    });
+
+    it('returns 404 for unknown assessments', async () => {
+      const response = await VERSIONS(createRequest('GET'), context('missing'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/assessments/:threadId/diff', () => {
+    beforeEach(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await storeHolder.store?.save({
+        ...result,
+        threadId: 'run-2',
+        parentThreadId: 'run-1',
+        verdict: 'STRONG_FIT',
+        risks: [{ risk: 'Tone drift', severity: 'low', likelihood: 'medium', relatedDimensions: [] }]
+      });
+    });
+
+    it('diffs against the previous version by default', async () => {
+      const response = await DIFF(
+        new Request('http://localhost:3000/api/assessments/run-2/diff'),
+        context('run-2')
+      );
+
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      expect(data.from).toMatchObject({ threadId: 'run-1' });
+      expect(data.from).not.toHaveProperty('result');
+      expect(data.diff.verdict).toEqual({ before: 'CONDITIONAL', after: 'STRONG_FIT', changed: true });
+      expect(data.diff.risks.added).toHaveLength(1);
+    });
+
+    it('diffs against the version given in from', async () => {
+      const response = await DIFF(
+        new Request('http://localhost:3000/api/assessments/run-1/diff?from=run-2'),
+        context('run-1')
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).diff.risks.removed).toHaveLength(1);
+    });
+
+    it('returns 400 for the first version without from', async () => {
+      const response = await DIFF(
+        new Request('http://localhost:3000/api/assessments/run-1/diff'),
+        context('run-1')
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('returns 404 for unknown assessments', async () => {
+      const response = await DIFF(
+        new Request('http://localhost:3000/api/assessments/run-2/diff?from=missing'),
+        context('run-2')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('assessments started with an API key', () => {
+    beforeEach(async () => {
+      await storeHolder.store?.save({ ...result, threadId: 'key-run', ownerId: 'portfolio' });
+    });
+
+    it('returns 404 on every route', async () => {
+      const responses = await Promise.all([
+        GET(createRequest('GET'), context('key-run')),
+        PATCH(createRequest('PATCH', { title: 'Renamed' }), context('key-run')),
+        DELETE(createRequest('DELETE'), context('key-run')),
+        VERSIONS(createRequest('GET'), context('key-run')),
+        DIFF(new Request('http://localhost:3000/api/assessments/key-run/diff?from=run-1'), context('key-run')),
+        DIFF(new Request('http://localhost:3000/api/assessments/run-1/diff?from=key-run'), context('run-1'))
+      ]);
+
+      expect(responses.map((response) => response.status)).toEqual([404, 404, 404, 404, 404, 404]);
+      expect(await storeHolder.store?.get('key-run')).toMatchObject({ title: result.problem });
+    });
+  });
+});
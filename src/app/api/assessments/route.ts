@@ -0,0 +1,60 @@
+/**
+ * Assessment History API Route
+ *
+ * GET /api/assessments
+ *
+ * Lists stored assessments (completed analyses), most recent first.
+ * Assessments are saved automatically when a pipeline run completes.
+ *
+ * Response:
+ * {
+ *   "assessments": [
+ *     {
+ *       "threadId": "uuid",
+ *       "title": "string",
+ *       "tags": ["string"],
+ *       "problem": "string",
+ *       "parentThreadId": "uuid (re-runs only) - assessment this one re-ran",
+ *       "rootThreadId": "uuid - first version of the problem",
+ *       "verdict": "STRONG_FIT" | "CONDITIONAL" | "WEAK_FIT" | "NOT_RECOMMENDED",
+ *       "confidence": 0-1,
+ *       "createdAt": "ISO timestamp",
+ *       "updatedAt": "ISO timestamp"
+ *     }
+ *   ]
+ * }
+ *
+ * @module api/assessments
+ */
+
+import { getAssessmentStore } from '@/lib/assessments';
+import { serverErrorResponse } from '../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List stored assessments.
+ */
+export async function GET(): Promise<Response> {
+  try {
+    const store = await getAssessmentStore();
+    const assessments = await store.list();
+
+    return Response.json(
+      { assessments },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    );
+  } catch (error) {
+    console.error('[/api/assessments] Failed to list assessments:', error);
+    return serverErrorResponse();
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Batch Answers API Route
+ *
+ * POST /api/batch/:id/answers
+ *
+ * Resumes a row that was queued with pending questions.
+ *
+ * Request body:
+ * {
+ *   "row": number - 1-based row number,
+ *   "answers": [{ "questionId": "string", "answer": "string" }] (optional)
+ * }
+ *
+ * Without `answers`, the row's pending questions are answered with their
+ * current assumptions. Responds 202 with the batch; poll GET /api/batch/:id.
+ *
+ * Error cases:
+ * - 400: Invalid body, or an answer to a question that is not pending
+ * - 404: Unknown batch or row
+ * - 409: The row is not waiting for answers
+ *
+ * @module api/batch/[id]/answers
+ */
+
+import { z } from 'zod';
+import { answerBatchRow, getBatch } from '../../_lib/batch-runs';
+import {
+  AnswerSchema,
+  conflictResponse,
+  notFoundResponse,
+  validationErrorResponse
+} from '../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const AnswerBatchRowSchema = z.object({
+  /** 1-based row number */
+  row: z.number().int().min(1),
+  /** Answers to the row's pending questions (default: current assumptions) */
+  answers: z.array(AnswerSchema).min(1, 'At least one answer is required').optional()
+}).strict();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resume a queued row.
+ */
+export async function POST(request: Request, { params }: RouteContext): Promise<Response> {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = AnswerBatchRowSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { row, answers } = validated.data;
+  const item = getBatch(id)?.items.find((i) => i.row === row);
+  if (!item) {
+    return notFoundResponse(`Row ${row} of batch ${id} not found`);
+  }
+  if (item.status !== 'suspended') {
+    return conflictResponse(`Row ${row} is not waiting for answers (current status: ${item.status})`);
+  }
+
+  const pending = new Set(item.pendingQuestions.map((q) => q.id));
+  const unknown = (answers ?? []).map((a) => a.questionId).filter((questionId) => !pending.has(questionId));
+  if (unknown.length > 0) {
+    return Response.json(
+      {
+        code: 'VALIDATION_ERROR',
+        message: 'Request validation failed',
+        details: { answers: unknown.map((questionId) => `Question ${questionId} is not pending`) }
+      },
+      { status: 400 }
+    );
+  }
+
+  return Response.json(answerBatchRow(id, row, answers), { status: 202 });
+}
@@ -0,0 +1,58 @@
+/**
+ * Batch Results API Route
+ *
+ * GET /api/batch/:id/results
+ *
+ * Downloads the results table of a batch as CSV: one row per uploaded row
+ * with its status, verdict, confidence, the score of every dimension, the
+ * assumptions applied and the questions still pending. Rows that are still
+ * running are included with their current status.
+ *
+ * Error cases:
+ * - 404: Unknown batch
+ *
+ * @module api/batch/[id]/results
+ */
+
+import { formatBatchResultsCsv } from '@/lib/batch';
+import { getBatch } from '../../_lib/batch-runs';
+import { notFoundResponse } from '../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Download the results table of a batch.
+ */
+export async function GET(_request: Request, { params }: RouteContext): Promise<Response> {
+  const { id } = await params;
+
+  const batch = getBatch(id);
+  if (!batch) {
+    return notFoundResponse(`Batch ${id} not found`);
+  }
+
+  return new Response(formatBatchResultsCsv(batch), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="batch-${batch.id}.csv"`,
+      'Cache-Control': 'no-store, max-age=0'
+    }
+  });
+}
@@ -0,0 +1,52 @@
+/**
+ * Batch API Route
+ *
+ * GET /api/batch/:id
+ *
+ * Returns a batch with the status, verdict, confidence, dimension scores,
+ * applied assumptions and pending questions of every row. The batch is
+ * `running` until every row has completed, suspended or failed.
+ *
+ * Error cases:
+ * - 404: Unknown batch (batches are kept in process memory)
+ *
+ * @module api/batch/[id]
+ */
+
+import { getBatch } from '../_lib/batch-runs';
+import { notFoundResponse } from '../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get a batch.
+ */
+export async function GET(_request: Request, { params }: RouteContext): Promise<Response> {
+  const { id } = await params;
+
+  const batch = getBatch(id);
+  if (!batch) {
+    return notFoundResponse(`Batch ${id} not found`);
+  }
+
+  return Response.json(batch, {
+    headers: { 'Cache-Control': 'no-store, max-age=0' }
+  });
+}
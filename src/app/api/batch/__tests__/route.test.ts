@@ -0,0 +1,83 @@
+/**
+ * Tests for POST /api/batch
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '../route';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockStartBatch = vi.fn();
+
+vi.mock('../_lib/batch-runs', () => ({
+  startBatch: (...args: unknown[]) => mockStartBatch(...args)
+}));
+
+vi.mock('../../pipeline/_lib/run-sweeper', () => ({
+  startRunSweeper: vi.fn()
+}));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const PROBLEM = 'Classify incoming support tickets by urgency';
+
+function createRequest(body: unknown): Request {
+  return new Request('http://localhost:3000/api/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('POST /api/batch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStartBatch.mockReturnValue({ id: 'batch-1', status: 'running', items: [] });
+  });
+
+  it('starts a batch and returns 202 with its location', async () => {
+    const response = await POST(createRequest({ data: `problem,context\n${PROBLEM},B2B`, policy: 'queue' }));
+
+    expect(response.status).toBe(202);
+    expect(response.headers.get('Location')).toBe('/api/batch/batch-1');
+    expect(mockStartBatch).toHaveBeenCalledWith([{ problem: PROBLEM, context: 'B2B' }], {
+      policy: 'queue',
+      concurrency: 3
+    });
+  });
+
+  it('returns 400 listing every invalid row and starts nothing', async () => {
+    const data = ['{"problem": "short"}', `{"problem": "${PROBLEM}"}`, 'nope'].join('\n');
+
+    const response = await POST(createRequest({ data }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.message).toBe('Row 1: Problem description must be at least 10 characters (and 1 more)');
+    expect(body.details.rows).toEqual([
+      'Row 1: Problem description must be at least 10 characters',
+      'Row 3: Row is not valid JSON'
+    ]);
+    expect(mockStartBatch).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an invalid body', async () => {
+    const response = await POST(createRequest({ data: `problem\n${PROBLEM}`, concurrency: 50 }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 for invalid JSON', async () => {
+    const response = await POST(createRequest('{not json'));
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('INVALID_JSON');
+  });
+});
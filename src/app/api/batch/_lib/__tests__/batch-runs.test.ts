@@ -0,0 +1,196 @@
+/**
+ * Tests for batch runs
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FollowUpQuestion } from '@/lib/pipeline';
+import { answerBatchRow, assumeAnswers, getBatch, resetBatchRuns, startBatch } from '../batch-runs';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockCreateAssessmentRun = vi.fn();
+const mockAnswerAssessmentRun = vi.fn();
+
+vi.mock('../../../v1/_lib/assessment-runs', () => ({
+  createAssessmentRun: (...args: unknown[]) => mockCreateAssessmentRun(...args),
+  answerAssessmentRun: (...args: unknown[]) => mockAnswerAssessmentRun(...args)
+}));
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const PROBLEM = 'Classify incoming support tickets by urgency';
+
+const blockingQuestion: FollowUpQuestion = {
+  id: 'q-volume',
+  question: 'How many tickets a day?',
+  rationale: 'Volume drives cost',
+  priority: 'blocking',
+  source: { stage: 'screening' },
+  currentAssumption: 'About 500'
+};
+
+const optionalQuestion: FollowUpQuestion = {
+  id: 'q-tone',
+  question: 'Any tone guidelines?',
+  rationale: 'Affects drafting',
+  priority: 'optional',
+  source: { stage: 'screening' }
+};
+
+function assessment(status: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'run-1',
+    status,
+    stage: null,
+    progress: 100,
+    questions: [],
+    result: null,
+    errors: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    completedAt: null,
+    ...overrides
+  };
+}
+
+const completed = assessment('completed', {
+  result: {
+    verdict: 'STRONG_FIT',
+    confidence: 0.8,
+    dimensions: [{ id: 'task_determinism', score: 'favorable' }]
+  }
+});
+
+const suspended = assessment('suspended', { questions: [blockingQuestion, optionalQuestion] });
+
+async function settled(id: string) {
+  await vi.waitFor(() => expect(getBatch(id)?.status).toBe('completed'));
+  return getBatch(id)!;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('batch runs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    resetBatchRuns();
+  });
+
+  describe('assumeAnswers', () => {
+    it('answers blocking questions with their current assumptions', () => {
+      expect(assumeAnswers([blockingQuestion, optionalQuestion])).toEqual([
+        { questionId: 'q-volume', question: 'How many tickets a day?', answer: 'About 500' }
+      ]);
+    });
+
+    it('falls back to the first option when there is no assumption', () => {
+      const [answer] = assumeAnswers([
+        { ...optionalQuestion, suggestedOptions: [{ label: 'Formal', value: 'formal' }] }
+      ]);
+      expect(answer.answer).toBe('Formal');
+    });
+  });
+
+  it('runs every row and records verdicts and scores', async () => {
+    mockCreateAssessmentRun.mockResolvedValue(completed);
+
+    const batch = startBatch([{ problem: PROBLEM }, { problem: PROBLEM, context: 'B2B' }], {
+      policy: 'assume',
+      concurrency: 2
+    });
+    expect(batch.status).toBe('running');
+
+    const done = await settled(batch.id);
+    expect(mockCreateAssessmentRun).toHaveBeenCalledWith({ problem: PROBLEM, context: 'B2B' }, true);
+    expect(done.items.map((i) => i.status)).toEqual(['completed', 'completed']);
+    expect(done.items[0]).toMatchObject({
+      verdict: 'STRONG_FIT',
+      confidence: 0.8,
+      dimensionScores: { task_determinism: 'favorable' },
+      assessmentId: 'run-1'
+    });
+    expect(done.completedAt).not.toBeNull();
+  });
+
+  it('never runs more rows at once than its concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    mockCreateAssessmentRun.mockImplementation(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return completed;
+    });
+
+    const batch = startBatch(Array.from({ length: 5 }, () => ({ problem: PROBLEM })), {
+      policy: 'assume',
+      concurrency: 2
+    });
+
+    await settled(batch.id);
+    expect(mockCreateAssessmentRun).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+
+  it('answers blocking questions with assumptions under the assume policy', async () => {
+    mockCreateAssessmentRun.mockResolvedValue(suspended);
+    mockAnswerAssessmentRun.mockResolvedValue(completed);
+
+    const batch = startBatch([{ problem: PROBLEM }], { policy: 'assume', concurrency: 1 });
+
+    const [item] = (await settled(batch.id)).items;
+    expect(mockAnswerAssessmentRun).toHaveBeenCalledWith(
+      'run-1',
+      [{ questionId: 'q-volume', answer: 'About 500' }],
+      true
+    );
+    expect(item.status).toBe('completed');
+    expect(item.assumptions).toHaveLength(1);
+  });
+
+  it('queues questions under the queue policy until the row is answered', async () => {
+    mockCreateAssessmentRun.mockResolvedValue(suspended);
+    mockAnswerAssessmentRun.mockResolvedValue(completed);
+
+    const batch = startBatch([{ problem: PROBLEM }], { policy: 'queue', concurrency: 1 });
+
+    const [item] = (await settled(batch.id)).items;
+    expect(item.status).toBe('suspended');
+    expect(item.pendingQuestions.map((q) => q.id)).toEqual(['q-volume', 'q-tone']);
+    expect(mockAnswerAssessmentRun).not.toHaveBeenCalled();
+
+    const answers = [{ questionId: 'q-volume', answer: '20' }];
+    expect(answerBatchRow(batch.id, 1, answers)?.status).toBe('running');
+
+    const [resumed] = (await settled(batch.id)).items;
+    expect(mockAnswerAssessmentRun).toHaveBeenCalledWith('run-1', answers, true);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.assumptions).toEqual([]);
+  });
+
+  it('marks rows failed without stopping the batch', async () => {
+    mockCreateAssessmentRun
+      .mockRejectedValueOnce(new Error('Model unavailable'))
+      .mockResolvedValueOnce(completed);
+
+    const batch = startBatch([{ problem: PROBLEM }, { problem: PROBLEM }], {
+      policy: 'assume',
+      concurrency: 1
+    });
+
+    const done = await settled(batch.id);
+    expect(done.items[0]).toMatchObject({ status: 'failed', error: 'Model unavailable' });
+    expect(done.items[1].status).toBe('completed');
+  });
+
+  it('returns null for unknown batches and rows', () => {
+    expect(getBatch('missing')).toBeNull();
+    expect(answerBatchRow('missing', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Batch runs.
+ *
+ * Each row of a batch becomes an assessment on the pipeline executor (the
+ * v1 API's assessment runs, so completed rows are also saved to the
+ * assessment history). At most `concurrency` rows run at once. When a row
+ * suspends for blocking questions, the `assume` policy answers each with its
+ * `currentAssumption` and resumes, up to MAX_ASSUMPTION_ROUNDS times; the
+ * `queue` policy leaves the row suspended until `answerBatchRow`.
+ *
+ * Batches are kept in process memory; beyond MAX_BATCHES the oldest
+ * finished batches are dropped.
+ *
+ * @module api/batch/_lib/batch-runs
+ */
+
+import { randomUUID } from 'crypto';
+import { assumedAnswer, type FollowUpQuestion } from '@/lib/pipeline';
+import type {
+  Batch,
+  BatchAssumption,
+  BatchItem,
+  BatchQuestionPolicy,
+  BatchRow
+} from '@/lib/batch';
+import type { Answer } from '../../pipeline/_lib/validation';
+import { answerAssessmentRun, createAssessmentRun } from '../../v1/_lib/assessment-runs';
+import type { ApiAssessment } from '../../v1/_lib/schemas';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Times a row is resumed with assumptions before it is left suspended */
+export const MAX_ASSUMPTION_ROUNDS = 3;
+
+/** Batches kept in memory */
+export const MAX_BATCHES = 20;
+
+const batches = new Map<string, Batch>();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs `worker` over `items`, at most `limit` at a time, in order.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * Answers the blocking questions (or, if none are blocking, every pending
+ * question) with their current assumptions.
+ */
+export function assumeAnswers(questions: FollowUpQuestion[]): BatchAssumption[] {
+  const blocking = questions.filter((q) => q.priority === 'blocking');
+  return (blocking.length > 0 ? blocking : questions).map((q) => ({
+    questionId: q.id,
+    question: q.question,
+    answer: assumedAnswer(q)
+  }));
+}
+
+/**
+ * Answers a suspended assessment and waits for it to settle.
+ */
+async function resumeAssessment(id: string, answers: Answer[]): Promise<ApiAssessment> {
+  const assessment = await answerAssessmentRun(id, answers, true);
+  if (!assessment) {
+    throw new Error(`Assessment ${id} can no longer be resumed`);
+  }
+  return assessment;
+}
+
+function applyAssessment(item: BatchItem, assessment: ApiAssessment): void {
+  item.assessmentId = assessment.id;
+  item.pendingQuestions = [];
+
+  switch (assessment.status) {
+    case 'completed': {
+      const result = assessment.result;
+      item.status = 'completed';
+      item.verdict = result?.verdict ?? null;
+      item.confidence = result?.confidence ?? null;
+      item.dimensionScores = Object.fromEntries(
+        (result?.dimensions ?? []).map((dimension) => [dimension.id, dimension.score])
+      );
+      break;
+    }
+    case 'suspended':
+      item.status = 'suspended';
+      item.pendingQuestions = assessment.questions;
+      break;
+    case 'failed':
+      item.status = 'failed';
+      item.error = assessment.errors.at(-1)?.message ?? 'Assessment failed';
+      break;
+    case 'cancelled':
+      item.status = 'failed';
+      item.error = 'Assessment was cancelled';
+      break;
+    case 'running':
+      item.status = 'running';
+      break;
+  }
+}
+
+/**
+ * Runs (or resumes) one row until it completes, fails or suspends.
+ *
+ * @param resume - Answers to resume the row's suspended assessment with
+ */
+async function runItem(item: BatchItem, policy: BatchQuestionPolicy, resume?: Answer[]): Promise<void> {
+  item.status = 'running';
+  item.error = null;
+
+  try {
+    let assessment =
+      resume && item.assessmentId
+        ? await resumeAssessment(item.assessmentId, resume)
+        : await createAssessmentRun({ problem: item.problem, context: item.context }, true);
+
+    for (
+      let round = 0;
+      assessment.status === 'suspended' && policy === 'assume' && round < MAX_ASSUMPTION_ROUNDS;
+      round++
+    ) {
+      const assumptions = assumeAnswers(assessment.questions);
+      item.assumptions.push(...assumptions);
+      assessment = await resumeAssessment(
+        assessment.id,
+        assumptions.map(({ questionId, answer }) => ({ questionId, answer }))
+      );
+    }
+
+    applyAssessment(item, assessment);
+  } catch (error) {
+    console.error(`[batch] Row ${item.row} failed:`, error);
+    item.status = 'failed';
+    item.error = error instanceof Error ? error.message : 'Assessment failed';
+  }
+}
+
+function settleBatch(batch: Batch): void {
+  if (batch.items.every((item) => item.status !== 'pending' && item.status !== 'running')) {
+    batch.status = 'completed';
+    batch.completedAt = new Date().toISOString();
+  }
+}
+
+function pruneBatches(): void {
+  for (const [id, batch] of batches) {
+    if (batches.size <= MAX_BATCHES) break;
+    if (batch.status === 'completed') batches.delete(id);
+  }
+}
+
+function snapshot(batch: Batch): Batch {
+  return structuredClone(batch);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Starts a batch; its rows run in the background.
+ *
+ * @param rows - Validated rows
+ * @param options - Question policy and concurrency
+ * @returns The new batch
+ */
+export function startBatch(
+  rows: BatchRow[],
+  options: { policy: BatchQuestionPolicy; concurrency: number }
+): Batch {
+  const batch: Batch = {
+    id: randomUUID(),
+    status: 'running',
+    policy: options.policy,
+    concurrency: options.concurrency,
+    items: rows.map((row, index) => ({
+      row: index + 1,
+      problem: row.problem,
+      ...(row.context && { context: row.context }),
+      status: 'pending',
+      assessmentId: null,
+      verdict: null,
+      confidence: null,
+      dimensionScores: {},
+      assumptions: [],
+      pendingQuestions: [],
+      error: null
+    })),
+    createdAt: new Date().toISOString(),
+    completedAt: null
+  };
+
+  batches.set(batch.id, batch);
+  pruneBatches();
+
+  void runWithConcurrency(batch.items, batch.concurrency, (item) => runItem(item, batch.policy)).then(
+    () => settleBatch(batch)
+  );
+
+  return snapshot(batch);
+}
+
+/**
+ * Gets a batch with the progress of every row.
+ *
+ * @returns The batch, or null if unknown
+ */
+export function getBatch(id: string): Batch | null {
+  const batch = batches.get(id);
+  return batch ? snapshot(batch) : null;
+}
+
+/**
+ * Resumes a suspended row in the background, with the given answers or,
+ * without, its current assumptions (which then also answer any further
+ * blocking questions).
+ *
+ * @param id - Batch id
+ * @param row - 1-based row number (must be suspended)
+ * @param answers - Answers to the row's pending questions
+ * @returns The batch, or null if the batch or row is unknown
+ */
+export function answerBatchRow(id: string, row: number, answers?: Answer[]): Batch | null {
+  const batch = batches.get(id);
+  const item = batch?.items.find((i) => i.row === row);
+  if (!batch || !item) {
+    return null;
+  }
+
+  let resume = answers;
+  if (!resume) {
+    const assumptions = assumeAnswers(item.pendingQuestions);
+    item.assumptions.push(...assumptions);
+    resume = assumptions.map(({ questionId, answer }) => ({ questionId, answer }));
+  }
+
+  batch.status = 'running';
+  batch.completedAt = null;
+  void runItem(item, answers ? batch.policy : 'assume', resume).then(() => settleBatch(batch));
+
+  return snapshot(batch);
+}
+
+/**
+ * Forget all batches (for testing).
+ */
+export function resetBatchRuns(): void {
+  batches.clear();
+}
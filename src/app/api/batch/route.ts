@@ -0,0 +1,93 @@
+/**
+ * Batch Assessments API Route
+ *
+ * POST /api/batch
+ *
+ * Uploads a CSV or JSONL file of problems and assesses every row in the
+ * background (see _lib/batch-runs). Poll GET /api/batch/:id for progress
+ * and download the results table from GET /api/batch/:id/results.
+ *
+ * Request body:
+ * {
+ *   "data": "string - file contents: CSV with a header row including
+ *            `problem` (and optionally `context`), or JSONL with one
+ *            { problem, context } object per line",
+ *   "format": "'csv' | 'jsonl' (optional) - detected when omitted",
+ *   "policy": "'assume' | 'queue' (optional, default 'assume') - answer
+ *              blocking questions with their current assumptions, or leave
+ *              those rows suspended",
+ *   "concurrency": "number (optional, 1-5, default 3) - rows assessed at once"
+ * }
+ *
+ * Responds 202 with the batch and its Location.
+ *
+ * Error cases:
+ * - 400: Invalid JSON or body, or invalid rows (every row error is listed in
+ *   `details.rows`; nothing is started)
+ *
+ * @module api/batch
+ */
+
+import { CreateBatchRequestSchema, parseBatchInput } from '@/lib/batch';
+import { startBatch } from './_lib/batch-runs';
+import { startRunSweeper } from '../pipeline/_lib/run-sweeper';
+import { serverErrorResponse, validationErrorResponse } from '../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Start a batch.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = CreateBatchRequestSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { data, format, policy, concurrency } = validated.data;
+  const { rows, errors } = parseBatchInput(data, format);
+  if (errors.length > 0) {
+    const messages = errors.map((e) => (e.row > 0 ? `Row ${e.row}: ${e.message}` : e.message));
+    return Response.json(
+      {
+        code: 'VALIDATION_ERROR',
+        message: errors.length > 1 ? `${messages[0]} (and ${errors.length - 1} more)` : messages[0],
+        details: { rows: messages }
+      },
+      { status: 400 }
+    );
+  }
+
+  // Expire abandoned runs in the background
+  startRunSweeper();
+
+  try {
+    const batch = startBatch(rows, { policy, concurrency });
+    return Response.json(batch, {
+      status: 202,
+      headers: { Location: `/api/batch/${batch.id}` }
+    });
+  } catch (error) {
+    console.error('[/api/batch] Failed to start batch:', error);
+    return serverErrorResponse();
+  }
+}
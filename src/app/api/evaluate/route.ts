@@ -1,5 +1,5 @@
 import { streamObject } from 'ai';
-import { model } from '@/lib/ai';
+import { applyMockConfigFromEnv, getDefaultModelRegistry } from '@/lib/pipeline/models';
 import { EvaluationResultSchema } from '@/lib/schemas';
 import { EVALUATION_PROMPT } from '@/lib/prompts';
 import { EVALUATION_DIMENSIONS } from '@/lib/dimensions';
@@ -22,8 +22,10 @@ export async function POST(req: Request) {
       );
     }
 
+    // The full legacy evaluation uses the verdict stage's model
+    await applyMockConfigFromEnv();
     const result = streamObject({
-      model,
+      model: getDefaultModelRegistry().resolve('verdict'),
       schema: EvaluationResultSchema,
       system: EVALUATION_PROMPT,
       prompt: `
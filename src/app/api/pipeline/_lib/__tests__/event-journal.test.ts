@@ -0,0 +1,195 @@
+/**
+ * Tests for the per-run SSE event journal.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  EventJournalStore,
+  RunJournal,
+  parseLastEventId
+} from '../event-journal';
+import { formatDoneEvent } from '../sse';
+import type { PipelineEvent } from '@/lib/pipeline';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const screeningStart: PipelineEvent = { type: 'screening:start' };
+const stageEvent: PipelineEvent = { type: 'pipeline:stage', stage: 'dimensions' };
+
+// ============================================================================
+// RUN JOURNAL
+// ============================================================================
+
+describe('RunJournal', () => {
+  it('assigns increasing ids and formats frames with them', () => {
+    const journal = new RunJournal();
+
+    expect(journal.append(screeningStart)).toMatch(/^id: 1\nevent: screening:start\n/);
+    expect(journal.append(stageEvent)).toMatch(/^id: 2\n/);
+    expect(journal.lastEventId).toBe(2);
+  });
+
+  it('replays only events after the given id, then the terminal frame', () => {
+    const journal = new RunJournal();
+    journal.append(screeningStart);
+    journal.append(stageEvent);
+    journal.finish(formatDoneEvent());
+
+    const frames = journal.replay(1);
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0]).toMatch(/^id: 2\nevent: pipeline:stage/);
+    expect(frames[1]).toBe(formatDoneEvent());
+    expect(journal.isFinished).toBe(true);
+  });
+
+  it('keeps at most maxEvents events', () => {
+    const journal = new RunJournal({ maxEvents: 2 });
+    journal.append(screeningStart);
+    journal.append(stageEvent);
+    journal.append(screeningStart);
+
+    const frames = journal.replay();
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0]).toMatch(/^id: 2\n/);
+  });
+
+  it('detects ids whose following events were dropped', () => {
+    const journal = new RunJournal({ maxEvents: 2 });
+    journal.append(screeningStart);
+    journal.append(stageEvent);
+    journal.append(screeningStart);
+
+    expect(journal.canReplayFrom(0)).toBe(false);
+    expect(journal.canReplayFrom(1)).toBe(true);
+    expect(journal.canReplayFrom(3)).toBe(true);
+  });
+
+  it('cannot replay events from before startAfter', () => {
+    const journal = new RunJournal({ startAfter: 41 });
+
+    expect(journal.canReplayFrom(41)).toBe(true);
+    expect(journal.canReplayFrom(40)).toBe(false);
+  });
+
+  it('continues ids after startAfter', () => {
+    const journal = new RunJournal({ startAfter: 41 });
+
+    expect(journal.append(screeningStart)).toMatch(/^id: 42\n/);
+  });
+
+  it('forwards live frames to subscribers until finished', () => {
+    const journal = new RunJournal();
+    const listener = vi.fn();
+    journal.subscribe(listener);
+
+    journal.append(screeningStart);
+    journal.finish(formatDoneEvent());
+    journal.reopen();
+    journal.append(stageEvent);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenNthCalledWith(1, expect.stringContaining('id: 1'), false);
+    expect(listener).toHaveBeenNthCalledWith(2, formatDoneEvent(), true);
+  });
+
+  it('stops forwarding after unsubscribe', () => {
+    const journal = new RunJournal();
+    const listener = vi.fn();
+    const unsubscribe = journal.subscribe(listener);
+
+    unsubscribe();
+    journal.append(screeningStart);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// JOURNAL STORE
+// ============================================================================
+
+describe('EventJournalStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns registered journals', () => {
+    const store = new EventJournalStore();
+    const journal = new RunJournal();
+    store.register('run-1', journal);
+
+    expect(store.get('run-1')).toBe(journal);
+    expect(store.get('run-2')).toBeUndefined();
+  });
+
+  it('drops finished journals after the retention period', () => {
+    vi.useFakeTimers();
+    const store = new EventJournalStore(1000);
+    const finished = new RunJournal();
+    const running = new RunJournal();
+    store.register('finished', finished);
+    store.register('running', running);
+    finished.finish(formatDoneEvent());
+
+    vi.advanceTimersByTime(1001);
+
+    expect(store.get('finished')).toBeUndefined();
+    expect(store.get('running')).toBe(running);
+  });
+
+  it('reopens a retained journal on resume', () => {
+    const store = new EventJournalStore();
+    const journal = new RunJournal();
+    store.register('run-1', journal);
+    journal.append(screeningStart);
+    journal.finish(formatDoneEvent());
+
+    const opened = store.open('run-1', 99);
+
+    expect(opened).toBe(journal);
+    expect(opened.isFinished).toBe(false);
+    expect(opened.append(stageEvent)).toMatch(/^id: 2\n/);
+  });
+
+  it('creates a journal continuing after the client id when none is retained', () => {
+    const store = new EventJournalStore();
+
+    const opened = store.open('run-1', 10);
+
+    expect(store.get('run-1')).toBe(opened);
+    expect(opened.append(stageEvent)).toMatch(/^id: 11\n/);
+  });
+});
+
+// ============================================================================
+// LAST EVENT ID
+// ============================================================================
+
+describe('parseLastEventId', () => {
+  it('reads the Last-Event-ID header', () => {
+    const request = new Request('http://localhost/api/pipeline/stream', {
+      headers: { 'Last-Event-ID': '12' }
+    });
+
+    expect(parseLastEventId(request)).toBe(12);
+  });
+
+  it('falls back to the lastEventId query parameter', () => {
+    const request = new Request('http://localhost/api/pipeline/stream?lastEventId=5');
+
+    expect(parseLastEventId(request)).toBe(5);
+  });
+
+  it('ignores missing and malformed ids', () => {
+    expect(parseLastEventId(new Request('http://localhost/api/pipeline/stream'))).toBeUndefined();
+    expect(
+      parseLastEventId(
+        new Request('http://localhost/api/pipeline/stream', { headers: { 'Last-Event-ID': '-3' } })
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for the run TTL configuration.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DEFAULT_RUN_TTLS } from '@/lib/pipeline';
+import {
+  DEFAULT_SWEEP_INTERVAL_MS,
+  getRunTtlSettings,
+  resetRunTtlSettings,
+  resolveRunTtls,
+  resolveSweepInterval
+} from '../run-ttls';
+
+describe('resolveRunTtls', () => {
+  it('uses the defaults without configuration', () => {
+    expect(resolveRunTtls({})).toEqual(DEFAULT_RUN_TTLS);
+  });
+
+  it('reads per-status TTLs in seconds', () => {
+    const ttls = resolveRunTtls({ RUN_TTL_SUSPENDED: '3600', RUN_TTL_CANCELLED: '0' });
+
+    expect(ttls.suspended).toBe(3_600_000);
+    expect(ttls.cancelled).toBe(0);
+    expect(ttls.completed).toBe(DEFAULT_RUN_TTLS.completed);
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => resolveRunTtls({ RUN_TTL_FAILED: 'soon' })).toThrow('Invalid RUN_TTL_FAILED "soon"');
+    expect(() => resolveRunTtls({ RUN_TTL_RUNNING: '-1' })).toThrow('expected a number of seconds');
+  });
+});
+
+describe('resolveSweepInterval', () => {
+  it('defaults to five minutes and reads seconds', () => {
+    expect(resolveSweepInterval({})).toBe(DEFAULT_SWEEP_INTERVAL_MS);
+    expect(resolveSweepInterval({ RUN_SWEEP_INTERVAL: '60' })).toBe(60_000);
+    expect(resolveSweepInterval({ RUN_SWEEP_INTERVAL: '0' })).toBe(0);
+  });
+});
+
+describe('getRunTtlSettings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    resetRunTtlSettings();
+  });
+
+  it('falls back to the defaults and logs an invalid configuration', () => {
+    vi.stubEnv('RUN_TTL_SUSPENDED', 'tomorrow');
+    vi.stubEnv('RUN_SWEEP_INTERVAL', '120');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(getRunTtlSettings()).toEqual({ ttls: DEFAULT_RUN_TTLS, sweepInterval: 120_000 });
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Invalid RUN_TTL_SUSPENDED "tomorrow"'));
+  });
+
+  it('validates the environment once', () => {
+    vi.stubEnv('RUN_TTL_FAILED', 'never');
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    getRunTtlSettings();
+    getRunTtlSettings();
+
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
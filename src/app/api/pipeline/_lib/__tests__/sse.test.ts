@@ -81,6 +81,21 @@ describe('formatSSEEvent', () => {
     expect(dataLine).toContain('\\n');
     expect(dataLine).toContain('\\t');
   });
+
+  it('prefixes the event id when given', () => {
+    const event: PipelineEvent = {
+      type: 'screening:start'
+    };
+
+    const result = formatSSEEvent(event, 7);
+
+    expect(result).toBe(
+      'id: 7\n' +
+      'event: screening:start\n' +
+      'data: {"type":"screening:start"}\n' +
+      '\n'
+    );
+  });
 });
 
 // ============================================================================
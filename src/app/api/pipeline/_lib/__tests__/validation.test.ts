@@ -2,7 +2,7 @@
  * Tests for request validation schemas.
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   StartRequestSchema,
   ResumeRequestSchema,
@@ -60,9 +60,131 @@ describe('StartRequestSchema', () => {
 
       expect(result.success).toBe(true);
     });
+
+    it('accepts a verdict mode', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Automate invoice processing',
+        verdictMode: 'compare'
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.verdictMode).toBe('compare');
+      }
+    });
+
+    it('accepts a usage profile', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Automate invoice processing',
+        usage: {
+          requestsPerDay: 500,
+          inputTokensPerRequest: 1200,
+          outputTokensPerRequest: 300,
+          reviewRate: 0.2,
+          model: 'openai/gpt-5-mini'
+        }
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('accepts an industry preset', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Summarize discharge notes',
+        industry: 'healthcare'
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.industry).toBe('healthcare');
+      }
+    });
+
+    it('accepts a callback URL', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Summarize discharge notes',
+        callbackUrl: 'https://example.com/hooks/assessments'
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('accepts a question policy with a timeout', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Summarize discharge notes',
+        questionPolicy: 'ask-with-timeout',
+        questionTimeoutMs: 60_000
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('accepts the assessment a run re-runs', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Summarize discharge notes',
+        parentThreadId: '123e4567-e89b-12d3-a456-426614174000'
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('accepts dimension sampling', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Summarize discharge notes',
+        sampling: { samples: 5, temperatures: [0.2, 0.7, 1] }
+      });
+
+      expect(result.success).toBe(true);
+    });
   });
 
   describe('invalid inputs', () => {
+    it('rejects out-of-range dimension sampling', () => {
+      expect(
+        StartRequestSchema.safeParse({ problem: 'Valid problem description', sampling: { samples: 10 } }).success
+      ).toBe(false);
+      expect(
+        StartRequestSchema.safeParse({
+          problem: 'Valid problem description',
+          sampling: { samples: 3, temperatures: [3] }
+        }).success
+      ).toBe(false);
+    });
+
+    it('rejects a parent thread id that is not a UUID', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        parentThreadId: 'run-1'
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Parent thread ID must be a valid UUID');
+      }
+    });
+
+    it('rejects unknown question policy', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        questionPolicy: 'guess'
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a question timeout under one second', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        questionPolicy: 'ask-with-timeout',
+        questionTimeoutMs: 10
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('Question timeout must be at least 1000 ms');
+      }
+    });
+
     it('rejects empty problem', () => {
       const result = StartRequestSchema.safeParse({
         problem: ''
@@ -102,6 +224,79 @@ describe('StartRequestSchema', () => {
       expect(result.success).toBe(false);
     });
 
+    it('rejects unknown verdict mode', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        verdictMode: 'vibes'
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects unknown industry preset', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        industry: 'aerospace'
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a callback URL that is not http(s)', () => {
+      for (const callbackUrl of ['not a url', 'ftp://example.com/hooks']) {
+        const result = StartRequestSchema.safeParse({
+          problem: 'Valid problem description',
+          callbackUrl
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe('Callback URL must be an http(s) URL');
+        }
+      }
+    });
+
+    it('rejects a callback URL on a private or local address', () => {
+      const callbackUrls = ['http://localhost:3000/hooks', 'http://169.254.169.254/latest', 'http://[::1]/hooks'];
+      for (const callbackUrl of callbackUrls) {
+        const result = StartRequestSchema.safeParse({
+          problem: 'Valid problem description',
+          callbackUrl
+        });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error.issues[0].message).toBe('Callback URL must not target a private or local address');
+        }
+      }
+    });
+
+    it('accepts a local callback URL when private URLs are allowed', () => {
+      vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+
+      const result = StartRequestSchema.safeParse({
+        problem: 'Valid problem description',
+        callbackUrl: 'http://localhost:3000/hooks'
+      });
+      vi.unstubAllEnvs();
+
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects a review rate above 1', () => {
+      const result = StartRequestSchema.safeParse({
+        problem: 'Automate invoice processing',
+        usage: {
+          requestsPerDay: 500,
+          inputTokensPerRequest: 1200,
+          outputTokensPerRequest: 300,
+          reviewRate: 20
+        }
+      });
+
+      expect(result.success).toBe(false);
+    });
+
     it('rejects missing problem field', () => {
       const result = StartRequestSchema.safeParse({});
 
@@ -0,0 +1,356 @@
+/**
+ * Tests for webhook signing, delivery and notification, against an MSW
+ * stand-in for the caller's endpoint.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import type { AnalysisResult, FollowUpQuestion } from '@/lib/pipeline';
+import { server } from '@/test/mocks/server';
+import {
+  WebhookDeliveryLog,
+  createWebhookDispatcher,
+  createWebhookNotifier,
+  getWebhookDeliveryLog,
+  getWebhookRegistry,
+  isPrivateAddress,
+  isPrivateCallbackUrl,
+  resetWebhooks,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type WebhookPayload
+} from '../webhooks';
+
+// ============================================================================
+// HTTP STAND-IN
+// ============================================================================
+
+const baseUrl = 'https://hooks.example.com';
+
+interface ReceivedRequest {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+const received: ReceivedRequest[] = [];
+/** Status codes to answer with, in order; 200 once exhausted */
+let responses: number[] = [];
+
+beforeEach(() => {
+  received.length = 0;
+  responses = [];
+  server.use(
+    http.post(`${baseUrl}/*`, async ({ request }) => {
+      received.push({
+        path: new URL(request.url).pathname,
+        headers: request.headers,
+        body: await request.text()
+      });
+      return new HttpResponse(null, { status: responses.shift() ?? 200 });
+    })
+  );
+});
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const SECRET = 'whsec-test-secret';
+const RUN_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+function payload(overrides: Partial<WebhookPayload> = {}): WebhookPayload {
+  return {
+    id: 'delivery-1',
+    event: 'assessment.completed',
+    runId: RUN_ID,
+    status: 'completed',
+    result: null,
+    questions: [],
+    error: null,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function question(id: string, priority: FollowUpQuestion['priority']): FollowUpQuestion {
+  return {
+    id,
+    question: 'How many tickets per day?',
+    rationale: 'Affects cost',
+    priority,
+    source: { stage: 'screening' }
+  };
+}
+
+const noSleep = async () => {};
+
+/** The stand-in host is not in DNS; resolve it to a public address */
+const publicLookup = async () => ['93.184.215.14'];
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+describe('webhook signatures', () => {
+  it('verifies a signature made with the same secret', () => {
+    const now = 1_700_000_000_000;
+    const timestamp = now / 1000;
+    const signature = signWebhookPayload(SECRET, timestamp, '{"a":1}');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(SECRET, signature, String(timestamp), '{"a":1}', now)).toBe(true);
+    expect(verifyWebhookSignature('other', signature, String(timestamp), '{"a":1}', now)).toBe(false);
+    expect(verifyWebhookSignature(SECRET, signature, String(timestamp), '{"a":2}', now)).toBe(false);
+  });
+
+  it('rejects stale timestamps', () => {
+    const timestamp = 1_700_000_000;
+    const signature = signWebhookPayload(SECRET, timestamp, '{}');
+
+    expect(verifyWebhookSignature(SECRET, signature, String(timestamp), '{}', (timestamp + 301) * 1000)).toBe(false);
+  });
+});
+
+// ============================================================================
+// DISPATCHER
+// ============================================================================
+
+describe('createWebhookDispatcher', () => {
+  it('POSTs a signed payload', async () => {
+    const log = new WebhookDeliveryLog();
+    const dispatcher = createWebhookDispatcher({ secret: SECRET, lookup: publicLookup, log, sleep: noSleep });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('delivered');
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(JSON.parse(body)).toEqual(payload());
+    expect(headers.get('x-webhook-id')).toBe('delivery-1');
+    expect(headers.get('x-webhook-event')).toBe('assessment.completed');
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        headers.get('x-webhook-signature') ?? '',
+        headers.get('x-webhook-timestamp') ?? '',
+        body
+      )
+    ).toBe(true);
+    expect(log.list(RUN_ID)).toEqual([delivery]);
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    responses = [503, 500];
+    const sleep = vi.fn(noSleep);
+    const dispatcher = createWebhookDispatcher({ secret: SECRET, lookup: publicLookup, sleep, baseDelayMs: 100 });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 500, 200]);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(new Set(received.map((r) => r.headers.get('x-webhook-id')))).toEqual(new Set(['delivery-1']));
+  });
+
+  it('does not retry client errors', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    responses = [400];
+    const dispatcher = createWebhookDispatcher({ secret: SECRET, lookup: publicLookup, sleep: noSleep });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+  });
+
+  it('gives up after the last attempt on network errors', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchFn = vi.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const dispatcher = createWebhookDispatcher({
+      secret: SECRET,
+      lookup: publicLookup,
+      sleep: noSleep,
+      fetch: fetchFn,
+      maxAttempts: 3
+    });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts.map((attempt) => attempt.error)).toEqual(Array(3).fill('connect ECONNREFUSED'));
+    expect(delivery.completedAt).not.toBeNull();
+  });
+});
+
+describe('callback targets', () => {
+  it('recognizes private, loopback and link-local addresses', () => {
+    const addresses = ['10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.1'];
+    for (const address of [...addresses, '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.215.14', '172.32.0.1', '2606:4700::1111', 'hooks.example.com']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('recognizes URLs naming a private host outright', () => {
+    expect(isPrivateCallbackUrl('http://localhost:3000/hooks')).toBe(true);
+    expect(isPrivateCallbackUrl('http://[::1]/hooks')).toBe(true);
+    expect(isPrivateCallbackUrl('http://169.254.169.254/latest/meta-data')).toBe(true);
+    expect(isPrivateCallbackUrl(`${baseUrl}/hooks`)).toBe(false);
+  });
+
+  it('refuses hosts that resolve to a private address without retrying', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchFn = vi.fn();
+    const dispatcher = createWebhookDispatcher({
+      secret: SECRET,
+      sleep: noSleep,
+      fetch: fetchFn,
+      lookup: async () => ['93.184.215.14', '10.0.0.5']
+    });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+    expect(delivery.attempts[0].error).toBe(
+      'Callback host hooks.example.com resolves to a private address (10.0.0.5)'
+    );
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('does not follow redirects', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchFn = vi.fn().mockResolvedValue(new Response(null, { status: 302 }));
+    const dispatcher = createWebhookDispatcher({
+      secret: SECRET,
+      lookup: publicLookup,
+      sleep: noSleep,
+      fetch: fetchFn
+    });
+
+    const delivery = await dispatcher.deliver(`${baseUrl}/hooks`, payload());
+
+    expect(delivery.status).toBe('failed');
+    expect(fetchFn.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it('delivers to private addresses when allowed', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    const dispatcher = createWebhookDispatcher({
+      secret: SECRET,
+      sleep: noSleep,
+      fetch: fetchFn,
+      allowPrivateTargets: true
+    });
+
+    const delivery = await dispatcher.deliver('http://localhost:4000/hooks', payload());
+
+    expect(delivery.status).toBe('delivered');
+  });
+});
+
+describe('WebhookDeliveryLog', () => {
+  it('keeps the most recent deliveries', async () => {
+    const log = new WebhookDeliveryLog(2);
+    const dispatcher = createWebhookDispatcher({ secret: SECRET, lookup: publicLookup, log, sleep: noSleep });
+
+    for (const id of ['a', 'b', 'c']) {
+      await dispatcher.deliver(`${baseUrl}/hooks`, payload({ id }));
+    }
+
+    expect(log.list().map((delivery) => delivery.id)).toEqual(['b', 'c']);
+  });
+});
+
+// ============================================================================
+// NOTIFIER
+// ============================================================================
+
+describe('createWebhookNotifier', () => {
+  beforeEach(() => {
+    resetWebhooks();
+    vi.stubEnv('WEBHOOK_SECRET', SECRET);
+    // The stand-in host is not in DNS
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetWebhooks();
+  });
+
+  it('sends the result of a completed run and drops the registration', async () => {
+    const result = { threadId: RUN_ID, verdict: 'STRONG_FIT' } as AnalysisResult;
+    getWebhookRegistry().register(RUN_ID, `${baseUrl}/done`);
+    const notifier = createWebhookNotifier();
+
+    notifier.observe({ type: 'pipeline:complete', result });
+    notifier.settle(RUN_ID, { status: 'success' });
+    await notifier.flush();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/done');
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: 'assessment.completed',
+      runId: RUN_ID,
+      status: 'completed',
+      result
+    });
+    expect(getWebhookRegistry().get(RUN_ID)).toBeUndefined();
+    expect(getWebhookDeliveryLog().list(RUN_ID)[0].status).toBe('delivered');
+  });
+
+  it('notifies a suspend only for blocking questions and keeps the registration', async () => {
+    getWebhookRegistry().register(RUN_ID, `${baseUrl}/suspended`);
+
+    const helpful = createWebhookNotifier();
+    helpful.observe({ type: 'screening:question', question: question('q1', 'helpful') });
+    helpful.settle(RUN_ID, { status: 'suspended' });
+    await helpful.flush();
+    expect(received).toHaveLength(0);
+
+    const blocking = createWebhookNotifier();
+    blocking.observe({ type: 'dimension:question', question: question('q2', 'blocking') });
+    blocking.settle(RUN_ID, { status: 'suspended' });
+    await blocking.flush();
+
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: 'assessment.suspended',
+      status: 'suspended',
+      questions: [{ id: 'q2' }]
+    });
+    expect(getWebhookRegistry().get(RUN_ID)).toBe(`${baseUrl}/suspended`);
+  });
+
+  it('sends the error of a failed run', async () => {
+    getWebhookRegistry().register(RUN_ID, `${baseUrl}/failed`);
+    const notifier = createWebhookNotifier();
+
+    notifier.observe({
+      type: 'pipeline:error',
+      error: { code: 'TIMEOUT', message: 'Pipeline timed out', recoverable: false }
+    });
+    notifier.settle(RUN_ID, { status: 'failed' });
+    await notifier.flush();
+
+    expect(JSON.parse(received[0].body)).toMatchObject({
+      event: 'assessment.failed',
+      error: { code: 'TIMEOUT', message: 'Pipeline timed out' }
+    });
+  });
+
+  it('sends nothing for cancelled or unregistered runs', async () => {
+    getWebhookRegistry().register(RUN_ID, `${baseUrl}/cancelled`);
+    const notifier = createWebhookNotifier();
+
+    notifier.settle(RUN_ID, { status: 'cancelled' });
+    notifier.settle('other-run', { status: 'success' });
+    await notifier.flush();
+
+    expect(received).toHaveLength(0);
+    expect(getWebhookRegistry().get(RUN_ID)).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Admin endpoint authorization.
+ *
+ * Admin endpoints (run cleanup, the webhook delivery log) are disabled until
+ * `ADMIN_API_TOKEN` is set, and then require it as a bearer token.
+ *
+ * @module api/pipeline/_lib/admin-auth
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Checks the bearer token against ADMIN_API_TOKEN.
+ *
+ * @returns An error response, or null if the request is authorized
+ */
+export function authorizeAdmin(request: Request): Response | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return Response.json(
+      { code: 'FORBIDDEN', message: 'Admin endpoints are disabled (ADMIN_API_TOKEN is not set)' },
+      { status: 403 }
+    );
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const secret = Buffer.from(expected);
+  if (token.length !== secret.length || !timingSafeEqual(token, secret)) {
+    return Response.json(
+      { code: 'UNAUTHORIZED', message: 'A valid admin token is required' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
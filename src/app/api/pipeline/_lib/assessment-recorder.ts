@@ -0,0 +1,44 @@
+/**
+ * Stores completed runs in the assessment history.
+ *
+ * Route handlers pass every pipeline event through `observe`; the
+ * `pipeline:complete` result is saved in the background and `flush` is
+ * awaited before the SSE stream closes, so the save finishes within the
+ * request (serverless functions may be frozen once the response ends).
+ *
+ * @module api/pipeline/_lib/assessment-recorder
+ */
+
+import type { PipelineEvent, PipelineInput } from '@/lib/pipeline';
+import { recordAssessment } from '@/lib/assessments';
+
+/**
+ * Per-request assessment recorder.
+ */
+export interface AssessmentRecorder {
+  /** Inspect a pipeline event and start saving the result on completion */
+  observe(event: PipelineEvent): void;
+  /** Wait for any pending save */
+  flush(): Promise<void>;
+}
+
+/**
+ * Create a recorder for one route invocation.
+ *
+ * @param input - Input of a run being started, stored with its result so
+ *   the assessment can be revised later; resumed runs keep the stored one
+ */
+export function createAssessmentRecorder(input?: PipelineInput): AssessmentRecorder {
+  const pending: Promise<void>[] = [];
+
+  return {
+    observe: (event) => {
+      if (event.type === 'pipeline:complete') {
+        pending.push(recordAssessment(event.result, input));
+      }
+    },
+    flush: async () => {
+      await Promise.all(pending);
+    }
+  };
+}
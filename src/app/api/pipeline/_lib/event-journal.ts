@@ -0,0 +1,288 @@
+/**
+ * Per-run event journal for resumable SSE streams.
+ *
+ * Every pipeline event streamed for a run is assigned a monotonically
+ * increasing id and kept in a bounded journal. A client that loses its
+ * connection reconnects to `GET /api/pipeline/stream?runId=` with the last
+ * id it saw (`Last-Event-ID`), gets the missed events replayed and then
+ * follows the live stream.
+ *
+ * Journals live in process memory: a reconnect must reach the process that
+ * runs the pipeline. A client that missed more events than the journal
+ * keeps cannot be caught up by replay; the stream route answers it with
+ * 410 Gone so it reloads the run instead of continuing with a gap. Finished journals are kept for a retention period so
+ * late reconnects still receive the final events.
+ *
+ * @module api/pipeline/_lib/event-journal
+ */
+
+import type { PipelineEvent } from '@/lib/pipeline';
+import { formatSSEEvent } from './sse';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Events kept per run; older events are dropped from the journal */
+export const MAX_JOURNAL_EVENTS = 1000;
+
+/** How long a finished journal stays available for reconnects (10 minutes) */
+export const JOURNAL_RETENTION_MS = 600_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A journaled event.
+ */
+export interface JournalEntry {
+  id: number;
+  event: PipelineEvent;
+}
+
+/**
+ * Receives formatted SSE frames; `final` is true for the terminal frame.
+ */
+export type JournalListener = (frame: string, final: boolean) => void;
+
+/**
+ * Options for a run journal.
+ */
+export interface RunJournalOptions {
+  /** Ids start after this one, so they keep increasing across resumes (default: 0) */
+  startAfter?: number;
+  /** Maximum events kept (default: MAX_JOURNAL_EVENTS) */
+  maxEvents?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUN JOURNAL
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Bounded event log of one run's stream.
+ */
+export class RunJournal {
+  private entries: JournalEntry[] = [];
+  private listeners: Set<JournalListener> = new Set();
+  private nextId: number;
+  private readonly maxEvents: number;
+  private finalFrame: string | null = null;
+  private finishedAt: number | null = null;
+
+  constructor(options: RunJournalOptions = {}) {
+    this.nextId = (options.startAfter ?? 0) + 1;
+    this.maxEvents = options.maxEvents ?? MAX_JOURNAL_EVENTS;
+  }
+
+  /**
+   * Id of the last journaled event (0 if none).
+   */
+  get lastEventId(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Whether the stream has ended (until the run is resumed).
+   */
+  get isFinished(): boolean {
+    return this.finalFrame !== null;
+  }
+
+  /**
+   * Records an event and forwards it to live listeners.
+   *
+   * @returns The event formatted as an SSE frame with its id
+   */
+  append(event: PipelineEvent): string {
+    const entry = { id: this.nextId++, event };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEvents) {
+      this.entries.shift();
+    }
+
+    const frame = formatSSEEvent(event, entry.id);
+    this.notify(frame, false);
+    return frame;
+  }
+
+  /**
+   * Ends the stream with a terminal frame (done or error).
+   *
+   * @returns The terminal frame
+   */
+  finish(frame: string): string {
+    this.finalFrame = frame;
+    this.finishedAt = Date.now();
+    this.notify(frame, true);
+    this.listeners.clear();
+    return frame;
+  }
+
+  /**
+   * Reopens a finished journal when its run is resumed; ids continue.
+   */
+  reopen(): void {
+    this.finalFrame = null;
+    this.finishedAt = null;
+  }
+
+  /**
+   * Whether every event after an id is still in the journal. False when
+   * older events were dropped (see `maxEvents`) or predate the journal
+   * (a journal opened with `startAfter`).
+   *
+   * @param lastEventId - Last id the client received (default: replay all)
+   */
+  canReplayFrom(lastEventId: number = 0): boolean {
+    const oldestId = this.entries[0]?.id ?? this.nextId;
+    return lastEventId >= oldestId - 1;
+  }
+
+  /**
+   * Frames after an event id: the retained events, then the terminal frame
+   * if the stream has ended. Check `canReplayFrom` first; events no longer
+   * retained are not included.
+   *
+   * @param lastEventId - Last id the client received (default: replay all)
+   */
+  replay(lastEventId: number = 0): string[] {
+    const frames = this.entries
+      .filter((entry) => entry.id > lastEventId)
+      .map((entry) => formatSSEEvent(entry.event, entry.id));
+    if (this.finalFrame) {
+      frames.push(this.finalFrame);
+    }
+    return frames;
+  }
+
+  /**
+   * Follows the live stream.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: JournalListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether a finished journal is past its retention period.
+   */
+  isExpired(now: number, retentionMs: number): boolean {
+    return this.finishedAt !== null && now - this.finishedAt > retentionMs;
+  }
+
+  private notify(frame: string, final: boolean): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(frame, final);
+      } catch (error) {
+        console.error('[EventJournal] Listener error:', error);
+      }
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JOURNAL STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Journals by run id. Expired journals are pruned on access.
+ */
+export class EventJournalStore {
+  private journals: Map<string, RunJournal> = new Map();
+
+  constructor(private readonly retentionMs: number = JOURNAL_RETENTION_MS) {}
+
+  /**
+   * Registers the journal of a run.
+   */
+  register(runId: string, journal: RunJournal): void {
+    this.prune();
+    this.journals.set(runId, journal);
+  }
+
+  /**
+   * Opens the journal of a resumed run: the retained journal reopened, or a
+   * new one whose ids continue after `lastEventId`.
+   *
+   * @param runId - Run identifier
+   * @param lastEventId - Last id the client received, if known
+   */
+  open(runId: string, lastEventId?: number): RunJournal {
+    const existing = this.get(runId);
+    if (existing) {
+      existing.reopen();
+      return existing;
+    }
+
+    const journal = new RunJournal({ startAfter: lastEventId });
+    this.register(runId, journal);
+    return journal;
+  }
+
+  /**
+   * Gets the journal of a run, if it is still retained.
+   */
+  get(runId: string): RunJournal | undefined {
+    this.prune();
+    return this.journals.get(runId);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [runId, journal] of this.journals) {
+      if (journal.isExpired(now, this.retentionMs)) {
+        this.journals.delete(runId);
+      }
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads the last event id a client received, from the `Last-Event-ID`
+ * header (set by reconnecting clients) or the `lastEventId` query parameter
+ * (for `EventSource`, which cannot set headers on its first connection).
+ *
+ * @returns The id, or undefined if absent or not a non-negative integer
+ */
+export function parseLastEventId(request: Request): number | undefined {
+  const raw =
+    request.headers.get('last-event-id') ?? new URL(request.url).searchParams.get('lastEventId');
+  if (raw === null || !/^\d+$/.test(raw.trim())) {
+    return undefined;
+  }
+  return Number(raw.trim());
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════
+
+let journalStoreInstance: EventJournalStore | null = null;
+
+/**
+ * Get the event journal store singleton.
+ */
+export function getEventJournalStore(): EventJournalStore {
+  if (!journalStoreInstance) {
+    journalStoreInstance = new EventJournalStore();
+  }
+  return journalStoreInstance;
+}
+
+/**
+ * Reset the event journal store (for testing).
+ */
+export function resetEventJournalStore(): void {
+  journalStoreInstance = null;
+}
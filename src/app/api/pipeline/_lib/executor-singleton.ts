@@ -3,21 +3,40 @@
  *
  * Wraps the PipelineExecutor to provide:
  * - Single executor instance (preserving run state for suspend/resume)
+ * - Run checkpoints in the configured checkpoint store
  * - Per-run event subscriptions for SSE streaming
  * - Event routing based on runId or execution context
+ * - Continuing ask-with-timeout runs with assumptions once their deadline
+ *   passes (an in-process timer; the result is saved to the assessment
+ *   history and the run's webhook is notified)
+ * - Revising answers of completed runs, saved and notified the same way;
+ *   runs the executor no longer tracks (workflow runs, expired runs) are
+ *   rebuilt from the assessment history
  *
  * @module api/pipeline/_lib/executor-singleton
  */
 
 import {
   createPipelineExecutor,
+  restoreStateFromResult,
   type PipelineExecutor,
   type PipelineEvent,
   type PipelineInput,
   type ResumeInput,
   type ExecutorHandle,
-  type PipelineStatus
+  type ExecutorResult,
+  type ExpiredRun,
+  type FollowUpQuestion,
+  type PipelineStatus,
+  type RevisableQuestion,
+  type UserAnswer
 } from '@/lib/pipeline';
+import { applyOfflineModelConfigFromEnv } from '@/lib/pipeline/models/fixture-file';
+import { getCheckpointStorage } from '@/lib/pipeline/checkpoint';
+import { getAssessmentStore } from '@/lib/assessments';
+import { getRunTtlSettings } from './run-ttls';
+import { createAssessmentRecorder } from './assessment-recorder';
+import { createWebhookNotifier } from './webhooks';
 
 /**
  * Event callback for per-run subscriptions.
@@ -39,13 +58,19 @@ class ExecutorManager {
   private subscribers: Map<string, Set<EventCallback>> = new Map();
   private activeRunId: string | null = null;
   private runIdStack: string[] = []; // For nested execution contexts
+  private assumptionTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
   /**
    * Get or create the executor instance.
    */
-  private getExecutor(): PipelineExecutor {
+  private async getExecutor(): Promise<PipelineExecutor> {
+    // Honour AI_MODEL_PROVIDER=mock|record|replay before the executor builds its registry
+    await applyOfflineModelConfigFromEnv();
+    const { checkpointer } = await getCheckpointStorage();
     if (!this.executor) {
       this.executor = createPipelineExecutor({
+        checkpointer,
+        runTtls: getRunTtlSettings().ttls,
         onEvent: (event) => this.dispatchEvent(event)
       });
     }
@@ -106,11 +131,11 @@ class ExecutorManager {
    * @param onEvent - Callback for pipeline events
    * @returns Handle for managing the execution and unsubscribe function
    */
-  startPipeline(
+  async startPipeline(
     input: PipelineInput,
     onEvent: EventCallback
-  ): { handle: ExecutorHandle; unsubscribe: () => void } {
-    const executor = this.getExecutor();
+  ): Promise<{ handle: ExecutorHandle; unsubscribe: () => void }> {
+    const executor = await this.getExecutor();
 
     // IMPORTANT: Generate runId and subscribe BEFORE starting the pipeline
     // to avoid race condition where early events (pipeline:start) are lost.
@@ -128,9 +153,11 @@ class ExecutorManager {
 
     // Wrap result promise to clean up active run tracking
     const originalResult = handle.result;
-    handle.result = originalResult.finally(() => {
-      this.popActiveRun(runId);
-    });
+    handle.result = originalResult
+      .then((result) => this.scheduleAssumptions(result))
+      .finally(() => {
+        this.popActiveRun(runId);
+      });
 
     return { handle, unsubscribe };
   }
@@ -142,23 +169,117 @@ class ExecutorManager {
    * @param onEvent - Callback for pipeline events
    * @returns Handle for managing the execution and unsubscribe function
    */
-  resumePipeline(
+  async resumePipeline(
     resumeInput: ResumeInput,
     onEvent: EventCallback
-  ): { handle: ExecutorHandle; unsubscribe: () => void } {
-    const executor = this.getExecutor();
+  ): Promise<{ handle: ExecutorHandle; unsubscribe: () => void }> {
+    const executor = await this.getExecutor();
+
+    // The run may have been suspended by another process
+    await executor.restoreRun(resumeInput.runId);
     const handle = executor.resumePipeline(resumeInput);
+    this.cancelAssumptions(handle.runId);
 
     // Subscribe to events for this run
     const unsubscribe = this.subscribe(handle.runId, onEvent);
 
     // Track active run for event routing
     const originalResult = handle.result;
-    handle.result = this.wrapResultPromise(handle.runId, originalResult);
+    handle.result = this.wrapResultPromise(
+      handle.runId,
+      originalResult.then((result) => this.scheduleAssumptions(result))
+    );
 
     return { handle, unsubscribe };
   }
 
+  /**
+   * Cancel the pending continuation of an ask-with-timeout run (for example
+   * when a stateless restart takes the run over).
+   */
+  cancelAssumptions(runId: string): void {
+    const timer = this.assumptionTimers.get(runId);
+    if (timer) {
+      clearTimeout(timer);
+      this.assumptionTimers.delete(runId);
+    }
+  }
+
+  /**
+   * Continue a suspended ask-with-timeout run with assumptions once its
+   * deadline passes. The timer does not keep the process alive.
+   *
+   * @returns The result, unchanged
+   */
+  private scheduleAssumptions(result: ExecutorResult): ExecutorResult {
+    if (result.status !== 'suspended' || result.assumeAt === undefined) {
+      return result;
+    }
+
+    const { runId, assumeAt } = result;
+    this.cancelAssumptions(runId);
+    const timer = setTimeout(() => {
+      this.assumptionTimers.delete(runId);
+      this.continueWithAssumptions(runId).catch((error) =>
+        console.error(`[ExecutorManager] Failed to continue run ${runId} with assumptions:`, error)
+      );
+    }, Math.max(0, assumeAt - Date.now()));
+    timer.unref?.();
+    this.assumptionTimers.set(runId, timer);
+    return result;
+  }
+
+  /**
+   * Resume a run that is still suspended with assumptions for its blocking
+   * questions, saving the result and notifying its webhook.
+   */
+  async continueWithAssumptions(runId: string): Promise<ExecutorResult | undefined> {
+    const status = await this.getRunStatus(runId);
+    if (status?.status !== 'suspended') {
+      return undefined;
+    }
+
+    return this.resumeRecorded({ runId, answers: [], assume: true });
+  }
+
+  /**
+   * Revise answers of a completed run and wait for the re-analysis. The
+   * revision runs under a new id and is saved to the assessment history as
+   * a new version of the run's assessment, with the run's stored input.
+   *
+   * @returns The result; on success, `previousResult` holds the result
+   *   before the revision
+   */
+  async reviseRun(runId: string, answers: UserAnswer[]): Promise<ExecutorResult> {
+    const stored = await (await getAssessmentStore()).get(runId);
+    const input = stored?.input && { ...stored.input, parentThreadId: runId };
+    return this.resumeRecorded({ runId, answers, revisionId: crypto.randomUUID() }, input);
+  }
+
+  /**
+   * Resume a run without a client stream: wait for it to settle, save its
+   * result and notify its webhook.
+   */
+  private async resumeRecorded(resumeInput: ResumeInput, input?: PipelineInput): Promise<ExecutorResult> {
+    const recorder = createAssessmentRecorder(input);
+    const notifier = createWebhookNotifier();
+    const { handle, unsubscribe } = await this.resumePipeline(resumeInput, (event) => {
+      recorder.observe(event);
+      notifier.observe(event);
+    });
+
+    try {
+      const result = await handle.result;
+      await recorder.flush();
+      notifier.settle(handle.runId, result);
+      await notifier.flush();
+      return result;
+    } finally {
+      unsubscribe();
+      this.cleanupRun(handle.runId);
+    }
+  }
+
   /**
    * Wrap the result promise to track active runId during execution.
    */
@@ -218,17 +339,74 @@ class ExecutorManager {
   }
 
   /**
-   * Get the status of a run.
+   * Get the status of a run, restoring it from its checkpoint if needed.
+   */
+  async getRunStatus(runId: string): Promise<PipelineStatus | undefined> {
+    const executor = await this.getExecutor();
+    if (!executor.getRunStatus(runId)) {
+      await executor.restoreRun(runId);
+    }
+    return executor.getRunStatus(runId);
+  }
+
+  /**
+   * Get the status of a run to revise. A completed run the executor does not
+   * know (a workflow run, or one that expired) is rebuilt from its stored
+   * assessment.
+   */
+  async getRevisableRunStatus(runId: string): Promise<PipelineStatus | undefined> {
+    const status = await this.getRunStatus(runId);
+    if (status) {
+      return status;
+    }
+
+    const stored = await (await getAssessmentStore()).get(runId);
+    if (!stored) {
+      return undefined;
+    }
+
+    const executor = await this.getExecutor();
+    executor.restoreCompletedRun(runId, restoreStateFromResult(stored.result, stored.input));
+    return executor.getRunStatus(runId);
+  }
+
+  /**
+   * Get the unanswered questions of a run, restoring it if needed.
+   */
+  async getPendingQuestions(runId: string): Promise<FollowUpQuestion[] | undefined> {
+    const executor = await this.getExecutor();
+    await executor.restoreRun(runId);
+    return executor.getPendingQuestions(runId);
+  }
+
+  /**
+   * Get the answered and assumed questions of a completed run, restoring it
+   * if needed.
    */
-  getRunStatus(runId: string): PipelineStatus | undefined {
-    return this.getExecutor().getRunStatus(runId);
+  async getRevisableQuestions(runId: string): Promise<RevisableQuestion[] | undefined> {
+    const executor = await this.getExecutor();
+    await executor.restoreRun(runId);
+    return executor.getRevisableQuestions(runId);
   }
 
   /**
    * Cancel a running pipeline.
    */
   cancelRun(runId: string): boolean {
-    return this.getExecutor().cancelRun(runId);
+    // Without an executor there are no in-memory runs to cancel
+    return this.executor?.cancelRun(runId) ?? false;
+  }
+
+  /**
+   * Remove runs past the TTL of their status, with their subscriptions.
+   */
+  async sweepExpiredRuns(now?: number): Promise<ExpiredRun[]> {
+    const executor = await this.getExecutor();
+    const expired = await executor.sweepExpiredRuns(now);
+    for (const run of expired) {
+      this.cleanupRun(run.runId);
+    }
+    return expired;
   }
 
   /**
@@ -258,9 +436,9 @@ class ExecutorManager {
  * 1. Preserve run state across requests (for suspend/resume)
  * 2. Share the executor instance (avoid creating multiple)
  *
- * Note: In serverless/edge environments, this state won't persist
- * between function invocations. For production, consider using
- * Redis/Vercel KV for run state persistence.
+ * Note: In serverless/edge environments, in-memory state won't persist
+ * between function invocations; runs are restored from the checkpoint
+ * store (see `CHECKPOINT_STORE`) when they are resumed or queried.
  */
 let executorManagerInstance: ExecutorManager | null = null;
 
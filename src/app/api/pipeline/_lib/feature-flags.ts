@@ -3,7 +3,7 @@
  *
  * Controls which execution path is used:
  * - Custom executor (legacy): In-memory state, manual orchestration
- * - Mastra native (new): PostgreSQL snapshots, native workflow execution
+ * - Mastra native (new): checkpointed workflow snapshots, native workflow execution
  *
  * @module api/pipeline/_lib/feature-flags
  */
@@ -16,7 +16,7 @@
  * - 'true' or unset: Use Mastra native workflow execution (default)
  *
  * Mastra native is now the default, providing:
- * - PostgreSQL snapshot persistence for true suspend/resume
+ * - Checkpointed snapshot persistence for true suspend/resume
  * - Native Mastra state management
  * - Simplified resume API (no need to resend problem/context)
  */
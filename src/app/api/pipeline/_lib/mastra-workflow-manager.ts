@@ -6,7 +6,7 @@
  *
  * - Direct workflow execution via Mastra's API
  * - Event extraction from Mastra's stream (workflow-step-output)
- * - True suspend/resume using PostgreSQL snapshots
+ * - True suspend/resume using snapshots in the configured checkpoint store
  * - Simplified API for the route handlers
  *
  * @module api/pipeline/_lib/mastra-workflow-manager
@@ -32,6 +32,7 @@ import {
   isPipelineEventEnvelope
 } from '@/lib/pipeline';
 import { events as pipelineEvents } from '@/lib/pipeline/events';
+import { applyOfflineModelConfigFromEnv } from '@/lib/pipeline/models/fixture-file';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -126,6 +127,10 @@ export class MastraWorkflowManager {
   ): Promise<StartPipelineResult> {
     debug('startPipeline', 'Starting pipeline', { input });
 
+    // Workflow steps resolve models from the default registry; install
+    // AI_MODEL_PROVIDER=mock|record|replay before the first run.
+    await applyOfflineModelConfigFromEnv();
+
     const workflow = mastra.getWorkflow('ai-suitability-analysis');
     debug('startPipeline', 'Got workflow reference');
 
@@ -156,7 +161,7 @@ export class MastraWorkflowManager {
    * Resume a suspended pipeline with answers.
    *
    * Uses Mastra's true snapshot-based resume - the workflow state is loaded
-   * from PostgreSQL, no need to resend problem/context.
+   * from the checkpoint store, no need to resend problem/context.
    *
    * @param runId - The run ID of the suspended pipeline
    * @param stepId - The step to resume from (e.g., 'screener')
@@ -170,9 +175,10 @@ export class MastraWorkflowManager {
     answers: UserAnswer[],
     onEvent: EventCallback
   ): Promise<ResumePipelineResult> {
+    await applyOfflineModelConfigFromEnv();
     const workflow = mastra.getWorkflow('ai-suitability-analysis');
 
-    // Create run with existing ID to load snapshot from PostgreSQL
+    // Create run with existing ID to load snapshot from the checkpoint store
     const run = await workflow.createRunAsync({ runId });
 
     // Emit pipeline:resumed event
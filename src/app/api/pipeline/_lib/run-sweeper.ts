@@ -0,0 +1,178 @@
+/**
+ * Expiry of abandoned pipeline runs.
+ *
+ * Runs that are never resumed (an unanswered question prompt, a closed tab)
+ * would otherwise stay in the executor's memory, in the executor
+ * checkpoints and in the Mastra workflow snapshots forever. Each run has a
+ * time to live per status, measured from its last status change; the
+ * sweeper removes runs past their TTL from all three places, along with
+ * their webhook registrations.
+ *
+ * The background sweep runs every `RUN_SWEEP_INTERVAL` seconds (see
+ * `run-ttls`); `DELETE /api/pipeline/runs` runs it on demand.
+ *
+ * @module api/pipeline/_lib/run-sweeper
+ */
+
+import {
+  DEFAULT_RUN_TTLS,
+  type ExecutionStatus,
+  type ExpiredRun,
+  type RunTtlConfig
+} from '@/lib/pipeline';
+import {
+  deleteWorkflowSnapshots,
+  getCheckpointStorage,
+  listWorkflowSnapshots
+} from '@/lib/pipeline/checkpoint';
+import { getExecutorManager } from './executor-singleton';
+import { getRunTtlSettings } from './run-ttls';
+import { getWebhookRegistry } from './webhooks';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Name the Mastra workflow's snapshots are stored under */
+const WORKFLOW_NAME = 'ai-suitability-analysis';
+
+/**
+ * Execution status of a Mastra workflow run status.
+ */
+const WORKFLOW_STATUS: Record<string, ExecutionStatus> = {
+  running: 'running',
+  pending: 'running',
+  waiting: 'suspended',
+  suspended: 'suspended',
+  success: 'completed',
+  failed: 'failed',
+  bailed: 'cancelled',
+  canceled: 'cancelled'
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A run removed by a sweep.
+ */
+export interface SweptRun {
+  runId: string;
+  /** `executor` (legacy executor run) or `workflow` (Mastra snapshot) */
+  source: 'executor' | 'workflow';
+  status: ExecutionStatus;
+  /** When the run last changed status (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * What a sweep removed.
+ */
+export interface SweepReport {
+  /** When the sweep ran (ISO 8601) */
+  sweptAt: string;
+  /** Number of runs removed */
+  removed: number;
+  /** Removed runs per status */
+  byStatus: Partial<Record<ExecutionStatus, number>>;
+  runs: SweptRun[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SWEEP
+// ═══════════════════════════════════════════════════════════════════════════
+
+function workflowStatus(snapshot: unknown): ExecutionStatus {
+  const parsed = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  return WORKFLOW_STATUS[(parsed as { status?: string } | null)?.status ?? ''] ?? 'running';
+}
+
+/**
+ * Removes expired Mastra workflow snapshots.
+ */
+async function sweepWorkflowSnapshots(ttls: RunTtlConfig, now: number): Promise<SweptRun[]> {
+  const { storage } = await getCheckpointStorage();
+  const swept: SweptRun[] = [];
+
+  for (const run of await listWorkflowSnapshots(storage, WORKFLOW_NAME)) {
+    const status = workflowStatus(run.snapshot);
+    const updatedAt = new Date(run.updatedAt).getTime();
+    if (now - updatedAt > (ttls[status] ?? DEFAULT_RUN_TTLS[status])) {
+      swept.push({ runId: run.runId, source: 'workflow', status, updatedAt: new Date(updatedAt).toISOString() });
+    }
+  }
+
+  await deleteWorkflowSnapshots(storage, WORKFLOW_NAME, swept.map((run) => run.runId));
+  return swept;
+}
+
+function fromExpiredRun(run: ExpiredRun): SweptRun {
+  return {
+    runId: run.runId,
+    source: 'executor',
+    status: run.status,
+    updatedAt: new Date(run.updatedAt).toISOString()
+  };
+}
+
+/**
+ * Removes every run past the TTL of its status: legacy executor runs (memory
+ * and checkpoints) and Mastra workflow snapshots.
+ *
+ * @param now - Reference time in ms (default: Date.now())
+ * @returns What was removed
+ */
+export async function sweepExpiredRuns(now: number = Date.now()): Promise<SweepReport> {
+  const { ttls } = getRunTtlSettings();
+  const executorRuns = await getExecutorManager().sweepExpiredRuns(now);
+  const workflowRuns = await sweepWorkflowSnapshots(ttls, now);
+
+  const runs = [...executorRuns.map(fromExpiredRun), ...workflowRuns];
+  const byStatus: SweepReport['byStatus'] = {};
+  for (const run of runs) {
+    byStatus[run.status] = (byStatus[run.status] ?? 0) + 1;
+    getWebhookRegistry().remove(run.runId);
+  }
+
+  return { sweptAt: new Date(now).toISOString(), removed: runs.length, byStatus, runs };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BACKGROUND SWEEPER
+// ═══════════════════════════════════════════════════════════════════════════
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the background sweep if it is enabled and not running yet.
+ * The timer does not keep the process alive. The TTL settings are
+ * validated here, so a misconfiguration is reported on the first request.
+ */
+export function startRunSweeper(): void {
+  const { sweepInterval: interval } = getRunTtlSettings();
+  if (sweepTimer || interval === 0) {
+    return;
+  }
+
+  sweepTimer = setInterval(() => {
+    sweepExpiredRuns()
+      .then((report) => {
+        if (report.removed > 0) {
+          console.log(`[run-sweeper] Removed ${report.removed} expired runs`, report.byStatus);
+        }
+      })
+      .catch((error) => console.error('[run-sweeper] Sweep failed:', error));
+  }, interval);
+  sweepTimer.unref?.();
+}
+
+/**
+ * Stops the background sweep (useful for testing).
+ */
+export function stopRunSweeper(): void {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Run TTL configuration.
+ *
+ * TTLs are configured in seconds with `RUN_TTL_RUNNING`, `RUN_TTL_SUSPENDED`,
+ * `RUN_TTL_COMPLETED`, `RUN_TTL_FAILED` and `RUN_TTL_CANCELLED`, measured
+ * from a run's last status change. `RUN_SWEEP_INTERVAL` sets how often the
+ * background sweep runs (0 disables it).
+ *
+ * The server reads them once through `getRunTtlSettings()`; an invalid value
+ * is logged and replaced by its default rather than failing requests.
+ *
+ * @module api/pipeline/_lib/run-ttls
+ */
+
+import { DEFAULT_RUN_TTLS, type ExecutionStatus } from '@/lib/pipeline';
+
+/** Default background sweep interval (5 minutes) */
+export const DEFAULT_SWEEP_INTERVAL_MS = 300_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function readSeconds(env: Record<string, string | undefined>, name: string): number | undefined {
+  const raw = env[name]?.trim();
+  if (!raw) {
+    return undefined;
+  }
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new Error(`Invalid ${name} "${raw}" (expected a number of seconds)`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Reads the run TTLs from environment variables, falling back to
+ * `DEFAULT_RUN_TTLS`.
+ *
+ * @param env - Environment (default: process.env)
+ * @returns TTL per status in milliseconds
+ * @throws If a TTL is not a non-negative number
+ */
+export function resolveRunTtls(
+  env: Record<string, string | undefined> = process.env
+): Record<ExecutionStatus, number> {
+  const ttls = { ...DEFAULT_RUN_TTLS };
+  for (const status of Object.keys(ttls) as ExecutionStatus[]) {
+    ttls[status] = readSeconds(env, `RUN_TTL_${status.toUpperCase()}`) ?? ttls[status];
+  }
+  return ttls;
+}
+
+/**
+ * Reads the background sweep interval from `RUN_SWEEP_INTERVAL`.
+ *
+ * @param env - Environment (default: process.env)
+ * @returns Interval in milliseconds; 0 disables the background sweep
+ */
+export function resolveSweepInterval(env: Record<string, string | undefined> = process.env): number {
+  return readSeconds(env, 'RUN_SWEEP_INTERVAL') ?? DEFAULT_SWEEP_INTERVAL_MS;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATED SETTINGS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Run TTLs and sweep interval in effect for this process.
+ */
+export interface RunTtlSettings {
+  /** TTL per status in milliseconds */
+  ttls: Record<ExecutionStatus, number>;
+  /** Background sweep interval in milliseconds (0: disabled) */
+  sweepInterval: number;
+}
+
+let settings: RunTtlSettings | null = null;
+
+function orDefault<T>(read: () => T, fallback: T, what: string): T {
+  try {
+    return read();
+  } catch (error) {
+    console.error(`[run-ttls] ${error instanceof Error ? error.message : error}; using the default ${what}`);
+    return fallback;
+  }
+}
+
+/**
+ * Gets the run TTLs and sweep interval, validating the environment on first
+ * use. Invalid TTLs fall back to `DEFAULT_RUN_TTLS` and an invalid interval
+ * to `DEFAULT_SWEEP_INTERVAL_MS`, with the problem logged once.
+ *
+ * @returns Settings shared by the executor and the sweeper
+ */
+export function getRunTtlSettings(): RunTtlSettings {
+  if (!settings) {
+    settings = {
+      ttls: orDefault(() => resolveRunTtls(), { ...DEFAULT_RUN_TTLS }, 'run TTLs'),
+      sweepInterval: orDefault(() => resolveSweepInterval(), DEFAULT_SWEEP_INTERVAL_MS, 'sweep interval')
+    };
+  }
+  return settings;
+}
+
+/**
+ * Forget the validated settings (useful for testing).
+ */
+export function resetRunTtlSettings(): void {
+  settings = null;
+}
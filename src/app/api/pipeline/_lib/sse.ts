@@ -37,19 +37,23 @@ export function createSSEResponse(stream: ReadableStream): Response {
  *
  * SSE format:
  * ```
+ * id: <id>
  * event: <type>
  * data: <json>
  *
  * ```
  *
  * The named `event:` field allows clients to use `EventSource.addEventListener()`
- * for type-specific event handling.
+ * for type-specific event handling. The optional `id:` field is echoed back
+ * by reconnecting clients as `Last-Event-ID` (see the event journal).
  *
  * @param event - The pipeline event to format
+ * @param id - Event id assigned by the run's event journal
  * @returns Formatted SSE event string
  */
-export function formatSSEEvent(event: PipelineEvent): string {
-  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+export function formatSSEEvent(event: PipelineEvent, id?: number): string {
+  const idLine = id === undefined ? '' : `id: ${id}\n`;
+  return `${idLine}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
 }
 
 /**
@@ -8,18 +8,52 @@
  */
 
 import { z } from 'zod';
-import { PipelineInputSchema } from '@/lib/pipeline';
+import {
+  IndustryPresetIdSchema,
+  PipelineInputSchema,
+  QuestionPolicySchema,
+  SamplingConfigSchema,
+  UsageProfileSchema,
+  VerdictModeSchema
+} from '@/lib/pipeline';
+import { allowsPrivateCallbackUrls, isPrivateCallbackUrl } from './webhooks';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // START PIPELINE REQUEST
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * How long an ask-with-timeout run waits for answers: 1 second to 24 hours
+ * (the default TTL of a suspended run).
+ */
+const QuestionTimeoutSchema = z
+  .number()
+  .int()
+  .min(1000, 'Question timeout must be at least 1000 ms')
+  .max(86_400_000, 'Question timeout must not exceed 24 hours');
+
+/**
+ * Thread id of a stored assessment (a run id).
+ */
+const ParentThreadIdSchema = z.string().uuid('Parent thread ID must be a valid UUID');
+
 /**
  * Schema for POST /api/pipeline/start request body.
  *
  * Extends PipelineInputSchema with additional validation:
  * - problem: 10-5000 characters (reasonable bounds for AI analysis)
  * - context: optional, max 10000 characters
+ * - verdictMode: optional, 'ai' (default), 'compare' or 'rules'
+ * - usage: optional expected usage, enables the cost estimate
+ * - industry: optional industry preset for the dimension rubrics
+ * - questionPolicy: optional, 'ask' (default), 'assume' or 'ask-with-timeout'
+ * - questionTimeoutMs: optional wait for answers under 'ask-with-timeout'
+ * - callbackUrl: optional http(s) URL notified when the run completes, fails
+ *   or suspends for blocking questions (requires WEBHOOK_SECRET); private
+ *   and local addresses are refused unless WEBHOOK_ALLOW_PRIVATE_URLS=true
+ * - parentThreadId: optional assessment this run re-runs, stored as its next
+ *   version
+ * - sampling: optional self-consistency sampling for dimension scoring
  */
 export const StartRequestSchema = z.object({
   /** Problem description to analyze (10-5000 chars) */
@@ -31,7 +65,28 @@ export const StartRequestSchema = z.object({
   context: z
     .string()
     .max(10000, 'Context must not exceed 10000 characters')
-    .optional()
+    .optional(),
+  /** How the verdict is produced (default: 'ai') */
+  verdictMode: VerdictModeSchema.optional(),
+  /** Expected usage for the operating cost estimate */
+  usage: UsageProfileSchema.strict().optional(),
+  /** Industry preset applied to the dimension rubrics and weights */
+  industry: IndustryPresetIdSchema.optional(),
+  /** What to do with unanswered blocking questions (default: 'ask') */
+  questionPolicy: QuestionPolicySchema.optional(),
+  /** Wait for answers under 'ask-with-timeout' (default: 5 minutes) */
+  questionTimeoutMs: QuestionTimeoutSchema.optional(),
+  /** Webhook notified when the run settles (see _lib/webhooks) */
+  callbackUrl: z
+    .url({ protocol: /^https?$/, error: 'Callback URL must be an http(s) URL' })
+    .refine((url) => allowsPrivateCallbackUrls() || !isPrivateCallbackUrl(url), {
+      error: 'Callback URL must not target a private or local address'
+    })
+    .optional(),
+  /** Assessment this run re-runs (see /api/assessments/:threadId/versions) */
+  parentThreadId: ParentThreadIdSchema.optional(),
+  /** Analyze each dimension several times and take the majority score */
+  sampling: SamplingConfigSchema.strict().optional()
 }).strict();
 
 export type StartRequest = z.infer<typeof StartRequestSchema>;
@@ -50,7 +105,9 @@ export const AnswerSchema = z.object({
   /** ID of the question being answered */
   questionId: z.string().min(1, 'Question ID is required'),
   /** The user's answer text */
-  answer: z.string().min(1, 'Answer is required')
+  answer: z.string().min(1, 'Answer is required'),
+  /** Text of the question, kept so the answer can be listed and revised later */
+  question: z.string().max(1000, 'Question must not exceed 1000 characters').optional()
 }).strict();
 
 export type Answer = z.infer<typeof AnswerSchema>;
@@ -77,6 +134,20 @@ export const ResumeRequestSchema = z.object({
     .string()
     .max(10000, 'Context must not exceed 10000 characters')
     .optional(),
+  /** Verdict mode of the original run */
+  verdictMode: VerdictModeSchema.optional(),
+  /** Usage profile of the original run */
+  usage: UsageProfileSchema.strict().optional(),
+  /** Industry preset of the original run */
+  industry: IndustryPresetIdSchema.optional(),
+  /** Question policy of the original run */
+  questionPolicy: QuestionPolicySchema.optional(),
+  /** Question timeout of the original run */
+  questionTimeoutMs: QuestionTimeoutSchema.optional(),
+  /** Assessment the original run re-runs */
+  parentThreadId: ParentThreadIdSchema.optional(),
+  /** Dimension sampling of the original run */
+  sampling: SamplingConfigSchema.strict().optional(),
   /** Answers to pending questions (at least one) */
   answers: z
     .array(AnswerSchema)
@@ -85,6 +156,38 @@ export const ResumeRequestSchema = z.object({
 
 export type ResumeRequest = z.infer<typeof ResumeRequestSchema>;
 
+// ═══════════════════════════════════════════════════════════════════════════
+// REVISE ANSWERS REQUEST
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schema for POST /api/pipeline/revise request body.
+ */
+export const ReviseRequestSchema = z.object({
+  /** Run ID of the completed pipeline (UUID format) */
+  runId: z
+    .string()
+    .uuid('Run ID must be a valid UUID'),
+  /** New answers to questions the run answered or assumed (at least one) */
+  answers: z
+    .array(AnswerSchema)
+    .min(1, 'At least one answer is required')
+}).strict();
+
+export type ReviseRequest = z.infer<typeof ReviseRequestSchema>;
+
+/**
+ * Schema for GET /api/pipeline/revise query parameters.
+ */
+export const ReviseQuerySchema = z.object({
+  /** Run ID whose revisable questions to list (UUID format) */
+  runId: z
+    .string()
+    .uuid('Run ID must be a valid UUID')
+});
+
+export type ReviseQuery = z.infer<typeof ReviseQuerySchema>;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // CANCEL PIPELINE REQUEST
 // ═══════════════════════════════════════════════════════════════════════════
@@ -117,6 +220,38 @@ export const StatusQuerySchema = z.object({
 
 export type StatusQuery = z.infer<typeof StatusQuerySchema>;
 
+// ═══════════════════════════════════════════════════════════════════════════
+// STREAM QUERY PARAMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schema for GET /api/pipeline/stream query parameters.
+ */
+export const StreamQuerySchema = z.object({
+  /** Run ID whose stream to reconnect to (UUID format) */
+  runId: z
+    .string()
+    .uuid('Run ID must be a valid UUID')
+});
+
+export type StreamQuery = z.infer<typeof StreamQuerySchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WEBHOOKS QUERY PARAMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schema for GET /api/pipeline/webhooks query parameters.
+ */
+export const WebhooksQuerySchema = z.object({
+  /** Run ID whose deliveries to list (UUID format) */
+  runId: z
+    .string()
+    .uuid('Run ID must be a valid UUID')
+});
+
+export type WebhooksQuery = z.infer<typeof WebhooksQuerySchema>;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ERROR RESPONSE HELPERS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -185,6 +320,57 @@ export function conflictResponse(message: string): Response {
   );
 }
 
+/**
+ * Create a gone error response, for state that existed but is no longer kept.
+ *
+ * @param message - Error message
+ * @returns Response with 410 status
+ */
+export function goneResponse(message: string): Response {
+  return Response.json(
+    { code: 'GONE', message },
+    { status: 410 }
+  );
+}
+
+/**
+ * Create the response for a callback URL when webhooks are disabled
+ * (WEBHOOK_SECRET unset).
+ *
+ * @returns Response with 400 status, shaped like a validation error
+ */
+export function webhooksDisabledResponse(): Response {
+  return Response.json(
+    {
+      code: 'VALIDATION_ERROR',
+      message: 'Request validation failed',
+      details: { callbackUrl: ['Webhooks are not enabled on this server'] }
+    },
+    { status: 400 }
+  );
+}
+
+/**
+ * Create the response for the 'ask-with-timeout' question policy on the
+ * Mastra workflow path, which has no timer to continue the run.
+ *
+ * @returns Response with 400 status, shaped like a validation error
+ */
+export function questionTimeoutUnsupportedResponse(): Response {
+  return Response.json(
+    {
+      code: 'VALIDATION_ERROR',
+      message: 'Request validation failed',
+      details: {
+        questionPolicy: [
+          "'ask-with-timeout' requires the pipeline executor (USE_MASTRA_NATIVE=false) or /api/v1/assessments"
+        ]
+      }
+    },
+    { status: 400 }
+  );
+}
+
 /**
  * Create an internal server error response.
  *
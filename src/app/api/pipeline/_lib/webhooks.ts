@@ -0,0 +1,619 @@
+/**
+ * Webhook notifications for pipeline runs.
+ *
+ * Callers that cannot hold an SSE stream open pass a `callbackUrl` when they
+ * start a run. When the run completes, fails or suspends for blocking
+ * questions, the server POSTs a JSON `WebhookPayload` to that URL, signed
+ * with HMAC-SHA256 over `<timestamp>.<body>` using `WEBHOOK_SECRET`:
+ *
+ *   X-Webhook-Id: <delivery id, the same on every retry>
+ *   X-Webhook-Event: assessment.completed | assessment.suspended | assessment.failed
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex digest>
+ *
+ * Network errors, timeouts, 408, 429 and 5xx responses are retried with
+ * exponential backoff. Every delivery and its attempts are kept in an
+ * in-memory log (see /api/pipeline/webhooks).
+ *
+ * Callbacks may not target loopback, private, link-local or other
+ * non-public addresses: such URLs are rejected when a run starts, host
+ * names are resolved and checked before every attempt, and redirects are
+ * not followed. `WEBHOOK_ALLOW_PRIVATE_URLS=true` lifts this for local
+ * receivers.
+ *
+ * Route handlers pass every pipeline event through a notifier's `observe`
+ * and call `settle` with the run's final status, like the assessment
+ * recorder. Callback URLs are registered by run id so a resumed run notifies
+ * the same URL.
+ *
+ * @module api/pipeline/_lib/webhooks
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { AnalysisResult, FollowUpQuestion, PipelineEvent } from '@/lib/pipeline';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Attempts per delivery, including the first */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+
+/** Delay before the first retry; doubles on each further retry */
+export const WEBHOOK_BASE_DELAY_MS = 1000;
+
+/** Time allowed for the callback to respond */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Deliveries kept in the log; the oldest are dropped first */
+export const MAX_LOGGED_DELIVERIES = 500;
+
+/** Signatures older than this are rejected by `verifyWebhookSignature` */
+export const WEBHOOK_TOLERANCE_SEC = 300;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type WebhookEventType = 'assessment.completed' | 'assessment.suspended' | 'assessment.failed';
+
+/**
+ * Body POSTed to the callback URL.
+ */
+export interface WebhookPayload {
+  /** Delivery id (also sent as X-Webhook-Id) */
+  id: string;
+  event: WebhookEventType;
+  runId: string;
+  status: 'completed' | 'suspended' | 'failed';
+  /** The analysis result, when completed */
+  result: AnalysisResult | null;
+  /** Questions raised before the run suspended */
+  questions: FollowUpQuestion[];
+  /** What went wrong, when failed */
+  error: { code: string; message: string } | null;
+  /** ISO timestamp of the status change */
+  timestamp: string;
+}
+
+/**
+ * One POST to the callback URL.
+ */
+export interface WebhookAttempt {
+  attempt: number;
+  /** ISO timestamp the attempt was sent */
+  at: string;
+  /** HTTP status of the response, or null if none was received */
+  statusCode: number | null;
+  /** Network or timeout error, if any */
+  error: string | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * A payload and its delivery attempts.
+ */
+export interface WebhookDelivery {
+  id: string;
+  runId: string;
+  event: WebhookEventType;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * How a run settled, as reported by either execution path.
+ */
+export interface RunOutcome {
+  status: 'success' | 'suspended' | 'failed' | 'cancelled';
+  error?: { code: string; message: string };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads the signing secret; webhooks are disabled without one.
+ *
+ * @param env - Environment variables (default: process.env)
+ * @returns The secret, or null if `WEBHOOK_SECRET` is unset
+ */
+export function resolveWebhookSecret(
+  env: Record<string, string | undefined> = process.env
+): string | null {
+  const secret = env.WEBHOOK_SECRET?.trim();
+  return secret ? secret : null;
+}
+
+/**
+ * Whether callbacks may target private addresses (for local receivers).
+ *
+ * @param env - Environment variables (default: process.env)
+ */
+export function allowsPrivateCallbackUrls(
+  env: Record<string, string | undefined> = process.env
+): boolean {
+  return env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TARGETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Address ranges callbacks may not reach */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * publicly routable. IPv4-mapped IPv6 addresses are checked as IPv4.
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns False for public addresses and anything that is not an address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Whether a callback URL names a private address or localhost outright.
+ * Host names are only resolved at delivery.
+ *
+ * @param url - Absolute http(s) URL
+ */
+export function isPrivateCallbackUrl(url: string): boolean {
+  if (!URL.canParse(url)) {
+    return false;
+  }
+  const host = hostOf(url).toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+/** Thrown before an attempt on a host that is or resolves to a private address */
+class PrivateTargetError extends Error {
+  constructor(host: string, address?: string) {
+    super(
+      address
+        ? `Callback host ${host} resolves to a private address (${address})`
+        : `Callback host ${host} is a private address`
+    );
+    this.name = 'PrivateTargetError';
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIGNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Signs a payload body.
+ *
+ * @param secret - Shared signing secret
+ * @param timestamp - Unix seconds, sent as X-Webhook-Timestamp
+ * @param body - Exact request body
+ * @returns The X-Webhook-Signature value (`sha256=<hex>`)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifies a received webhook, as a receiver would.
+ *
+ * @param secret - Shared signing secret
+ * @param signature - X-Webhook-Signature header
+ * @param timestamp - X-Webhook-Timestamp header
+ * @param body - Raw request body
+ * @param now - Reference time in ms (default: Date.now())
+ * @returns Whether the signature matches and is recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  body: string,
+  now: number = Date.now()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds) || Math.abs(now / 1000 - seconds) > WEBHOOK_TOLERANCE_SEC) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DELIVERY LOG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recent deliveries, oldest first.
+ */
+export class WebhookDeliveryLog {
+  private deliveries: WebhookDelivery[] = [];
+
+  constructor(private readonly maxDeliveries: number = MAX_LOGGED_DELIVERIES) {}
+
+  /**
+   * Adds a delivery; it is updated in place as attempts are made.
+   */
+  add(delivery: WebhookDelivery): void {
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > this.maxDeliveries) {
+      this.deliveries.splice(0, this.deliveries.length - this.maxDeliveries);
+    }
+  }
+
+  /**
+   * Lists deliveries, optionally for one run.
+   */
+  list(runId?: string): WebhookDelivery[] {
+    return this.deliveries
+      .filter((delivery) => runId === undefined || delivery.runId === runId)
+      .map((delivery) => ({ ...delivery, attempts: [...delivery.attempts] }));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DISPATCHER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface WebhookDispatcherOptions {
+  /** Signing secret */
+  secret: string;
+  /** Log to record deliveries in */
+  log?: WebhookDeliveryLog;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+  /** Waits between attempts (default: setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Resolves a host name to its addresses (default: DNS) */
+  lookup?: (host: string) => Promise<string[]>;
+  /** Deliver to private addresses too (default: WEBHOOK_ALLOW_PRIVATE_URLS) */
+  allowPrivateTargets?: boolean;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Delivers payloads with retries.
+ */
+export interface WebhookDispatcher {
+  /**
+   * POSTs a payload until it is accepted or the attempts run out. Never
+   * throws; the outcome is in the returned (and logged) delivery.
+   */
+  deliver(url: string, payload: WebhookPayload): Promise<WebhookDelivery>;
+}
+
+function isRetryable(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Create a webhook dispatcher.
+ */
+export function createWebhookDispatcher(options: WebhookDispatcherOptions): WebhookDispatcher {
+  const {
+    secret,
+    log,
+    fetch: fetchFn = fetch,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    lookup = async (host) => (await dnsLookup(host, { all: true })).map((entry) => entry.address),
+    allowPrivateTargets = allowsPrivateCallbackUrls(),
+    maxAttempts = WEBHOOK_MAX_ATTEMPTS,
+    baseDelayMs = WEBHOOK_BASE_DELAY_MS,
+    timeoutMs = WEBHOOK_TIMEOUT_MS
+  } = options;
+
+  // Checked on every attempt, since what a name resolves to can change
+  const checkTarget = async (url: string) => {
+    if (allowPrivateTargets) {
+      return;
+    }
+    const host = hostOf(url);
+    if (isPrivateCallbackUrl(url)) {
+      throw new PrivateTargetError(host);
+    }
+    const blocked = isIP(host) ? undefined : (await lookup(host)).find(isPrivateAddress);
+    if (blocked) {
+      throw new PrivateTargetError(host, blocked);
+    }
+  };
+
+  return {
+    async deliver(url, payload) {
+      const body = JSON.stringify(payload);
+      const delivery: WebhookDelivery = {
+        id: payload.id,
+        runId: payload.runId,
+        event: payload.event,
+        url,
+        status: 'pending',
+        attempts: [],
+        createdAt: new Date().toISOString(),
+        completedAt: null
+      };
+      log?.add(delivery);
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const record: WebhookAttempt = {
+          attempt,
+          at: new Date().toISOString(),
+          statusCode: null,
+          error: null
+        };
+        delivery.attempts.push(record);
+
+        let retryable = true;
+        try {
+          await checkTarget(url);
+          const response = await fetchFn(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Webhook-Id': payload.id,
+              'X-Webhook-Event': payload.event,
+              'X-Webhook-Timestamp': String(timestamp),
+              'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body)
+            },
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(timeoutMs)
+          });
+          record.statusCode = response.status;
+          if (response.ok) {
+            delivery.status = 'delivered';
+            break;
+          }
+          retryable = isRetryable(response.status);
+        } catch (error) {
+          record.error = error instanceof Error ? error.message : String(error);
+          retryable = !(error instanceof PrivateTargetError);
+        }
+
+        if (!retryable || attempt === maxAttempts) {
+          delivery.status = 'failed';
+          break;
+        }
+        await sleep(baseDelayMs * 2 ** (attempt - 1));
+      }
+
+      delivery.completedAt = new Date().toISOString();
+      if (delivery.status === 'failed') {
+        console.warn(
+          `[webhooks] Delivery ${delivery.id} to ${url} failed after ${delivery.attempts.length} attempts`
+        );
+      }
+      return delivery;
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Callback URLs by run id. Registrations are removed when a run completes,
+ * fails or is cancelled, and by the run sweeper when a run expires.
+ */
+export class WebhookRegistry {
+  private urls: Map<string, string> = new Map();
+
+  register(runId: string, url: string): void {
+    this.urls.set(runId, url);
+  }
+
+  get(runId: string): string | undefined {
+    return this.urls.get(runId);
+  }
+
+  remove(runId: string): void {
+    this.urls.delete(runId);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// NOTIFIER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Per-request webhook notifier.
+ */
+export interface WebhookNotifier {
+  /** Inspect a pipeline event for the result, questions and errors */
+  observe(event: PipelineEvent): void;
+  /** Notify the run's callback URL, if any, of how the run settled */
+  settle(runId: string, outcome: RunOutcome): void;
+  /** Wait for any pending delivery, including its retries */
+  flush(): Promise<void>;
+}
+
+function buildPayload(
+  runId: string,
+  outcome: RunOutcome,
+  result: AnalysisResult | null,
+  questions: FollowUpQuestion[],
+  error: { code: string; message: string } | null
+): WebhookPayload | null {
+  const base = { id: randomUUID(), runId, timestamp: new Date().toISOString() };
+
+  switch (outcome.status) {
+    case 'success':
+      return { ...base, event: 'assessment.completed', status: 'completed', result, questions: [], error: null };
+
+    case 'suspended':
+      // Only blocking questions need the caller before the run can continue
+      if (!questions.some((question) => question.priority === 'blocking')) {
+        return null;
+      }
+      return { ...base, event: 'assessment.suspended', status: 'suspended', result: null, questions, error: null };
+
+    case 'failed':
+      return {
+        ...base,
+        event: 'assessment.failed',
+        status: 'failed',
+        result: null,
+        questions: [],
+        error: outcome.error ?? error ?? { code: 'PIPELINE_FAILED', message: 'Pipeline execution failed' }
+      };
+
+    case 'cancelled':
+      return null;
+  }
+}
+
+/**
+ * Create a notifier for one route invocation.
+ */
+export function createWebhookNotifier(): WebhookNotifier {
+  const pending: Promise<unknown>[] = [];
+  const questions: FollowUpQuestion[] = [];
+  let result: AnalysisResult | null = null;
+  let error: { code: string; message: string } | null = null;
+
+  return {
+    observe: (event) => {
+      switch (event.type) {
+        case 'screening:question':
+        case 'dimension:question':
+          questions.push(event.question);
+          break;
+        case 'pipeline:complete':
+          result = event.result;
+          break;
+        case 'pipeline:error':
+          error = { code: event.error.code, message: event.error.message };
+          break;
+      }
+    },
+    settle: (runId, outcome) => {
+      const registry = getWebhookRegistry();
+      const url = registry.get(runId);
+      if (outcome.status !== 'suspended') {
+        registry.remove(runId);
+      }
+      if (!url) {
+        return;
+      }
+
+      const payload = buildPayload(runId, outcome, result, questions, error);
+      if (!payload) {
+        return;
+      }
+
+      const dispatcher = getWebhookDispatcher();
+      if (!dispatcher) {
+        console.warn(`[webhooks] WEBHOOK_SECRET is not set; skipping ${payload.event} for run ${runId}`);
+        return;
+      }
+      pending.push(dispatcher.deliver(url, payload));
+    },
+    flush: async () => {
+      await Promise.all(pending);
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCES
+// ═══════════════════════════════════════════════════════════════════════════
+
+let registryInstance: WebhookRegistry | null = null;
+let deliveryLogInstance: WebhookDeliveryLog | null = null;
+let dispatcherInstance: WebhookDispatcher | null = null;
+
+/**
+ * Get the webhook registry singleton.
+ */
+export function getWebhookRegistry(): WebhookRegistry {
+  if (!registryInstance) {
+    registryInstance = new WebhookRegistry();
+  }
+  return registryInstance;
+}
+
+/**
+ * Get the webhook delivery log singleton.
+ */
+export function getWebhookDeliveryLog(): WebhookDeliveryLog {
+  if (!deliveryLogInstance) {
+    deliveryLogInstance = new WebhookDeliveryLog();
+  }
+  return deliveryLogInstance;
+}
+
+/**
+ * Get the webhook dispatcher singleton.
+ *
+ * @returns The dispatcher, or null if `WEBHOOK_SECRET` is unset
+ */
+export function getWebhookDispatcher(): WebhookDispatcher | null {
+  if (!dispatcherInstance) {
+    const secret = resolveWebhookSecret();
+    if (!secret) {
+      return null;
+    }
+    dispatcherInstance = createWebhookDispatcher({ secret, log: getWebhookDeliveryLog() });
+  }
+  return dispatcherInstance;
+}
+
+/**
+ * Reset the webhook registry, delivery log and dispatcher (for testing).
+ */
+export function resetWebhooks(): void {
+  registryInstance = null;
+  deliveryLogInstance = null;
+  dispatcherInstance = null;
+}
@@ -68,7 +68,7 @@ export async function POST(request: Request): Promise<Response> {
   const manager = getExecutorManager();
 
   // Check if run exists
-  const status = manager.getRunStatus(runId);
+  const status = await manager.getRunStatus(runId);
   if (!status) {
     return notFoundResponse(`Run ${runId} not found`);
   }
@@ -11,13 +11,21 @@
  * Legacy (stateless restart):
  * - In serverless environments, run state is not preserved between invocations
  * - Restarts pipeline from scratch with answers pre-applied
- * - Requires: runId, problem, context, answers
+ * - Requires: runId, problem, context, answers (plus verdictMode, usage, industry,
+ *   the question policy, parentThreadId and sampling if set at start)
  *
  * Mastra Native (true resume):
- * - Uses PostgreSQL snapshots for true suspend/resume
+ * - Uses checkpointed workflow snapshots for true suspend/resume
  * - Loads workflow state from database
  * - Requires: runId, stepId, answers (no need for problem/context)
  *
+ * Completed results are stored in the assessment history (see /api/assessments).
+ * A callback URL registered at start is notified again when the resumed run
+ * settles (see _lib/webhooks).
+ *
+ * Event ids continue from the run's previous stream; send the last id seen as
+ * `Last-Event-ID` so ids stay monotonic when the original journal has expired.
+ *
  * @module api/pipeline/resume
  */
 
@@ -26,13 +34,15 @@ import { z } from 'zod';
 import type { UserAnswer } from '@/lib/pipeline';
 import {
   createSSEResponse,
-  formatSSEEvent,
   formatSSEError,
   formatDoneEvent
 } from '../_lib/sse';
+import { RunJournal, getEventJournalStore, parseLastEventId } from '../_lib/event-journal';
 import { getExecutorManager } from '../_lib/executor-singleton';
 import { getMastraWorkflowManager } from '../_lib/mastra-workflow-manager';
 import { isMastraNativeEnabled } from '../_lib/feature-flags';
+import { createAssessmentRecorder } from '../_lib/assessment-recorder';
+import { createWebhookNotifier, getWebhookRegistry } from '../_lib/webhooks';
 import {
   ResumeRequestSchema,
   AnswerSchema,
@@ -54,7 +64,7 @@ export const dynamic = 'force-dynamic';
 /**
  * Schema for Mastra native resume (simplified - no problem/context needed).
  *
- * With PostgreSQL snapshots, the workflow state is persisted and loaded
+ * With checkpointed workflow snapshots, the workflow state is persisted and loaded
  * automatically, so we only need the runId, stepId, and answers.
  */
 const MastraNativeResumeSchema = z.object({
@@ -74,7 +84,7 @@ const MastraNativeResumeSchema = z.object({
  * Resume a suspended pipeline with answers.
  *
  * Routes to appropriate handler based on feature flag:
- * - Mastra Native: True resume using PostgreSQL snapshots
+ * - Mastra Native: True resume using checkpointed workflow snapshots
  * - Legacy: Stateless restart with pre-applied answers
  */
 export async function POST(request: NextRequest): Promise<Response> {
@@ -110,7 +120,7 @@ export async function POST(request: NextRequest): Promise<Response> {
 /**
  * Handle resume using Mastra native workflow execution.
  *
- * This uses true suspend/resume with PostgreSQL snapshots.
+ * This uses true suspend/resume with checkpointed workflow snapshots.
  * The workflow state is loaded from the database, so no need
  * to resend the original problem/context.
  */
@@ -121,12 +131,17 @@ async function handleMastraNativeResume(
   const { runId, stepId, answers } = data;
   const encoder = new TextEncoder();
   const manager = getMastraWorkflowManager();
+  const recorder = createAssessmentRecorder();
+  const notifier = createWebhookNotifier();
+  // Mastra resumes the same run, so its journal continues
+  const journal = getEventJournalStore().open(runId, parseLastEventId(request));
 
   // Convert API answers to UserAnswer format
   const now = Date.now();
   const userAnswers: UserAnswer[] = answers.map((a) => ({
     questionId: a.questionId,
     answer: a.answer,
+    ...(a.question && { question: a.question }),
     source: stepId === 'screener' ? 'screening' as const : 'dimension' as const,
     timestamp: now
   }));
@@ -134,6 +149,15 @@ async function handleMastraNativeResume(
   try {
     const stream = new ReadableStream({
       async start(controller) {
+        // The client may have disconnected; the run and its journal continue
+        const send = (frame: string) => {
+          try {
+            controller.enqueue(encoder.encode(frame));
+          } catch {
+            // Stream closed by the client
+          }
+        };
+
         try {
           // Resume the pipeline with answers
           const { result } = await manager.resumePipeline(
@@ -141,24 +165,28 @@ async function handleMastraNativeResume(
             stepId,
             userAnswers,
             (event) => {
-              controller.enqueue(encoder.encode(formatSSEEvent(event)));
+              send(journal.append(event));
+              recorder.observe(event);
+              notifier.observe(event);
             }
           );
 
-          // Wait for completion
+          // Wait for completion (and the assessment history save)
           const finalResult = await result;
+          await recorder.flush();
+          notifier.settle(runId, finalResult);
 
           // Send final status
           switch (finalResult.status) {
             case 'success':
             case 'suspended':
             case 'cancelled':
-              controller.enqueue(encoder.encode(formatDoneEvent()));
+              send(journal.finish(formatDoneEvent()));
               break;
 
             case 'failed':
               if (finalResult.error) {
-                controller.enqueue(encoder.encode(formatSSEError({
+                send(journal.finish(formatSSEError({
                   message: finalResult.error.message,
                   code: finalResult.error.code
                 })));
@@ -168,9 +196,19 @@ async function handleMastraNativeResume(
         } catch (error) {
           console.error('[/api/pipeline/resume] Mastra native error:', error);
           const message = error instanceof Error ? error.message : 'Pipeline resume failed';
-          controller.enqueue(encoder.encode(formatSSEError(message)));
+          send(journal.finish(formatSSEError(message)));
+          notifier.settle(runId, { status: 'failed', error: { code: 'PIPELINE_ERROR', message } });
         } finally {
-          controller.close();
+          if (!journal.isFinished) {
+            journal.finish(formatDoneEvent());
+          }
+          // Keep the invocation alive until webhook deliveries finish
+          await notifier.flush();
+          try {
+            controller.close();
+          } catch {
+            // Stream closed by the client
+          }
         }
       }
     });
@@ -193,9 +231,18 @@ async function handleLegacyResume(
   request: NextRequest,
   data: z.infer<typeof ResumeRequestSchema>
 ): Promise<Response> {
-  const { runId, problem, context, answers } = data;
+  const { runId, answers, ...runInput } = data;
   const manager = getExecutorManager();
   const encoder = new TextEncoder();
+  const recorder = createAssessmentRecorder();
+  const notifier = createWebhookNotifier();
+  // The restart is a new run; its ids continue after the original stream's
+  const journal = new RunJournal({
+    startAfter: Math.max(
+      parseLastEventId(request) ?? 0,
+      getEventJournalStore().get(runId)?.lastEventId ?? 0
+    )
+  });
 
   // Convert API answers to UserAnswer format
   // Use 'screening' as source since stateless resume starts fresh
@@ -204,6 +251,7 @@ async function handleLegacyResume(
   const userAnswers: UserAnswer[] = answers.map((a) => ({
     questionId: a.questionId,
     answer: a.answer,
+    ...(a.question && { question: a.question }),
     source: 'screening' as const,
     timestamp: now
   }));
@@ -216,54 +264,67 @@ async function handleLegacyResume(
         let newRunId: string | null = null;
         let unsubscribe: (() => void) | null = null;
 
+        // The client may have disconnected; the run and its journal continue
+        const send = (frame: string) => {
+          try {
+            controller.enqueue(encoder.encode(frame));
+          } catch {
+            // Stream closed by the client
+          }
+        };
+
         try {
           // Send a "resumed" event to indicate we're continuing
           // Note: runId is the original client-side ID (used as correlation)
-          controller.enqueue(encoder.encode(formatSSEEvent({
+          send(journal.append({
             type: 'pipeline:resumed',
             runId: runId,
             fromStep: 'screening'
-          })));
+          }));
 
           // Start fresh pipeline with the problem and pre-applied answers
-          const { handle, unsubscribe: unsub } = manager.startPipeline(
+          const { handle, unsubscribe: unsub } = await manager.startPipeline(
             {
-              problem,
-              context,
+              ...runInput,
               // Pre-apply answers so the pipeline knows about them
               preAppliedAnswers: userAnswers
             },
             (event) => {
-              controller.enqueue(encoder.encode(formatSSEEvent(event)));
+              send(journal.append(event));
+              recorder.observe(event);
+              notifier.observe(event);
             }
           );
 
           newRunId = handle.runId;
           unsubscribe = unsub;
+          getEventJournalStore().register(newRunId, journal);
 
-          // Handle client disconnect
-          const abortHandler = () => {
-            if (newRunId) {
-              manager.cancelRun(newRunId);
-            }
-          };
-          request.signal.addEventListener('abort', abortHandler);
+          // The restart takes over the original run's callback URL, and the
+          // original no longer continues with assumptions on its own
+          manager.cancelAssumptions(runId);
+          const registry = getWebhookRegistry();
+          const callbackUrl = registry.get(runId);
+          if (callbackUrl) {
+            registry.remove(runId);
+            registry.register(newRunId, callbackUrl);
+          }
 
-          // Wait for completion
+          // Wait for completion (and the assessment history save)
           const result = await handle.result;
-
-          request.signal.removeEventListener('abort', abortHandler);
+          await recorder.flush();
+          notifier.settle(newRunId, result);
 
           // Send final status
           switch (result.status) {
             case 'success':
             case 'suspended':
             case 'cancelled':
-              controller.enqueue(encoder.encode(formatDoneEvent()));
+              send(journal.finish(formatDoneEvent()));
               break;
 
             case 'failed':
-              controller.enqueue(encoder.encode(formatSSEError({
+              send(journal.finish(formatSSEError({
                 message: result.error.message,
                 code: result.error.code
               })));
@@ -272,15 +333,24 @@ async function handleLegacyResume(
         } catch (error) {
           console.error('[/api/pipeline/resume] Execution error:', error);
           const message = error instanceof Error ? error.message : 'Pipeline execution failed';
-          controller.enqueue(encoder.encode(formatSSEError(message)));
+          send(journal.finish(formatSSEError(message)));
+          if (newRunId) {
+            notifier.settle(newRunId, { status: 'failed', error: { code: 'PIPELINE_ERROR', message } });
+          }
         } finally {
+          // Keep the invocation alive until webhook deliveries finish
+          await notifier.flush();
           if (unsubscribe) {
             unsubscribe();
           }
           if (newRunId) {
             manager.cleanupRun(newRunId);
           }
-          controller.close();
+          try {
+            controller.close();
+          } catch {
+            // Stream closed by the client
+          }
         }
       }
     });
@@ -0,0 +1,286 @@
+/**
+ * Tests for GET/POST /api/pipeline/revise
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryStore } from '@mastra/core/storage';
+import { getAssessmentStore, resetAssessmentStore } from '@/lib/assessments';
+import { resetCheckpointStorage } from '@/lib/pipeline/checkpoint';
+import { GET, POST } from '../route';
+import { resetExecutorManager } from '../../_lib/executor-singleton';
+import type { AnalysisResult, DimensionAnalysis } from '@/lib/pipeline';
+
+// ============================================================================
+// MOCK EXECUTOR MANAGER
+// ============================================================================
+
+const mockGetRevisableRunStatus = vi.fn();
+const mockGetRevisableQuestions = vi.fn();
+const mockReviseRun = vi.fn();
+
+/** Set to run the real executor (offline mock model) instead of the mocks */
+const executorMode = { real: false };
+
+vi.mock('../../_lib/executor-singleton', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../_lib/executor-singleton')>();
+  return {
+    ...actual,
+    getExecutorManager: () =>
+      executorMode.real
+        ? actual.getExecutorManager()
+        : {
+            getRevisableRunStatus: mockGetRevisableRunStatus,
+            getRevisableQuestions: mockGetRevisableQuestions,
+            reviseRun: mockReviseRun
+          }
+  };
+});
+
+const storageHolder: { storage: InMemoryStore | null } = { storage: null };
+
+vi.mock('@/mastra', () => ({
+  mastra: { getStorage: () => storageHolder.storage }
+}));
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const validUUID = '123e4567-e89b-12d3-a456-426614174000';
+
+const revisableQuestion = {
+  questionId: 'q1',
+  question: 'What is the expected error rate?',
+  answer: 'Around 5%',
+  assumed: true,
+  source: { stage: 'dimension', dimensionId: 'error_tolerance' }
+};
+
+function createResult(overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return {
+    threadId: validUUID,
+    problem: 'Test problem',
+    verdict: 'CONDITIONAL',
+    confidence: 0.7,
+    summary: '',
+    reasoning: '',
+    dimensions: [],
+    keyFactors: [],
+    risks: [],
+    alternatives: [],
+    architecture: null,
+    questionsBeforeBuilding: [],
+    answeredQuestions: [],
+    durationMs: 1000,
+    ...overrides
+  };
+}
+
+function createDimension(id: string, infoGaps: DimensionAnalysis['infoGaps'] = []): DimensionAnalysis {
+  return {
+    id,
+    name: id.replace(/_/g, ' '),
+    score: 'neutral',
+    confidence: 0.6,
+    weight: 0.8,
+    reasoning: `Reasoning for ${id}`,
+    evidence: [],
+    infoGaps,
+    status: 'complete'
+  };
+}
+
+/**
+ * A result stored by the Mastra workflow: the executor never saw the run.
+ */
+function createWorkflowResult(overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return createResult({
+    problem: 'Classify incoming support tickets by urgency and product area',
+    dimensions: [
+      createDimension('error_tolerance', [
+        {
+          id: 'q1',
+          question: revisableQuestion.question,
+          rationale: '',
+          priority: 'blocking',
+          source: { stage: 'dimension', dimensionId: 'error_tolerance' },
+          currentAssumption: 'Around 5%'
+        }
+      ]),
+      createDimension('task_determinism')
+    ],
+    appliedAssumptions: [
+      {
+        questionId: 'q1',
+        question: revisableQuestion.question,
+        assumption: 'Around 5%',
+        source: { stage: 'dimension', dimensionId: 'error_tolerance' },
+        appliedAt: 1
+      }
+    ],
+    ...overrides
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createRequest(body: unknown): Request {
+  return new Request('http://localhost:3000/api/pipeline/revise', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GET /api/pipeline/revise', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the revisable questions of a completed run', async () => {
+    mockGetRevisableRunStatus.mockResolvedValue({ status: 'completed' });
+    mockGetRevisableQuestions.mockResolvedValue([revisableQuestion]);
+
+    const response = await GET(new Request(`http://localhost:3000/api/pipeline/revise?runId=${validUUID}`));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ runId: validUUID, questions: [revisableQuestion] });
+  });
+
+  it('returns 404 for an unknown run', async () => {
+    mockGetRevisableRunStatus.mockResolvedValue(undefined);
+
+    const response = await GET(new Request(`http://localhost:3000/api/pipeline/revise?runId=${validUUID}`));
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('POST /api/pipeline/revise', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetRevisableRunStatus.mockResolvedValue({ status: 'completed' });
+    mockGetRevisableQuestions.mockResolvedValue([revisableQuestion]);
+  });
+
+  it('returns 400 for an empty answers array', async () => {
+    const response = await POST(createRequest({ runId: validUUID, answers: [] }));
+
+    expect(response.status).toBe(400);
+    expect(mockReviseRun).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the run has not completed', async () => {
+    mockGetRevisableRunStatus.mockResolvedValue({ status: 'suspended' });
+
+    const response = await POST(
+      createRequest({ runId: validUUID, answers: [{ questionId: 'q1', answer: 'Under 1%' }] })
+    );
+
+    expect(response.status).toBe(409);
+  });
+
+  it('returns 400 for a question the run neither answered nor assumed', async () => {
+    const response = await POST(
+      createRequest({ runId: validUUID, answers: [{ questionId: 'q9', answer: 'Yes' }] })
+    );
+
+    expect(response.status).toBe(400);
+    const data = await response.json();
+    expect(data.details.answers).toEqual(['Question q9 was not answered or assumed']);
+  });
+
+  it('revises the run and returns the diff', async () => {
+    const previousResult = createResult();
+    const result = createResult({ verdict: 'STRONG_FIT', confidence: 0.85 });
+    mockReviseRun.mockResolvedValue({ status: 'success', runId: validUUID, result, previousResult });
+
+    const response = await POST(
+      createRequest({ runId: validUUID, answers: [{ questionId: 'q1', answer: 'Under 1%' }] })
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockReviseRun).toHaveBeenCalledWith(validUUID, [
+      expect.objectContaining({ questionId: 'q1', answer: 'Under 1%', source: 'dimension' })
+    ]);
+    const data = await response.json();
+    expect(data.diff.verdict).toEqual({ before: 'CONDITIONAL', after: 'STRONG_FIT', changed: true });
+    expect(data.previousResult.verdict).toBe('CONDITIONAL');
+  });
+});
+
+describe('revising a run started on the Mastra workflow', () => {
+  beforeEach(() => {
+    vi.stubEnv('AI_MODEL_PROVIDER', 'mock');
+    vi.stubEnv('CHECKPOINT_STORE', 'memory');
+    executorMode.real = true;
+    resetExecutorManager();
+    resetCheckpointStorage();
+    resetAssessmentStore();
+    storageHolder.storage = new InMemoryStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    executorMode.real = false;
+    resetExecutorManager();
+  });
+
+  it('rebuilds the run from its stored assessment', async () => {
+    const store = await getAssessmentStore();
+    await store.save(createWorkflowResult());
+
+    const listed = await GET(new Request(`http://localhost:3000/api/pipeline/revise?runId=${validUUID}`));
+    expect(listed.status).toBe(200);
+    expect((await listed.json()).questions).toEqual([revisableQuestion]);
+
+    const response = await POST(
+      createRequest({ runId: validUUID, answers: [{ questionId: 'q1', answer: 'Under 1%' }] })
+    );
+
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.previousResult.appliedAssumptions).toHaveLength(1);
+    expect(data.result.answeredQuestions).toContainEqual({
+      questionId: 'q1',
+      answer: 'Under 1%',
+      question: revisableQuestion.question
+    });
+    expect(data.result.appliedAssumptions ?? []).not.toContainEqual(expect.objectContaining({ questionId: 'q1' }));
+    expect(data.result.dimensions.map((d: DimensionAnalysis) => d.id)).toEqual([
+      'error_tolerance',
+      'task_determinism'
+    ]);
+  });
+
+  it('stores the revision as a new version of the assessment', async () => {
+    const store = await getAssessmentStore();
+    await store.save(createWorkflowResult());
+
+    const response = await POST(
+      createRequest({ runId: validUUID, answers: [{ questionId: 'q1', answer: 'Under 1%' }] })
+    );
+
+    const { result, previousResult } = await response.json();
+    expect(previousResult.threadId).toBe(validUUID);
+    expect(result.threadId).not.toBe(validUUID);
+    expect(result.parentThreadId).toBe(validUUID);
+    expect((await store.get(validUUID))?.result.appliedAssumptions).toHaveLength(1);
+    expect((await store.versions(validUUID))?.map((v) => v.threadId)).toEqual([validUUID, result.threadId]);
+  });
+
+  it('returns 404 for the stored assessment of an API run', async () => {
+    const store = await getAssessmentStore();
+    await store.save(createWorkflowResult({ ownerId: 'ci' }));
+
+    const response = await GET(new Request(`http://localhost:3000/api/pipeline/revise?runId=${validUUID}`));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Revise Answers API Route
+ *
+ * GET /api/pipeline/revise?runId=<uuid>
+ *
+ * Lists the questions of a completed run that can be revised: those the user
+ * answered and those answered with an assumption.
+ *
+ * Response:
+ * {
+ *   "runId": "uuid",
+ *   "questions": [{ "questionId", "question", "answer", "assumed", "source" }]
+ * }
+ *
+ * POST /api/pipeline/revise
+ *
+ * Changes answers of a completed run and re-analyzes it without a full
+ * restart: only the dimensions related to the revised questions (the one
+ * that raised each question and those listing it among their info gaps; all
+ * of them for a question no dimension relates to) run again, followed by
+ * verdict, secondary analyses and synthesis. Blocking questions raised on
+ * the way are answered with their current assumptions. Waits for the
+ * re-analysis. The revision is a new run: its result has a new threadId and
+ * the revised run as `parentThreadId`, and is stored as a new version of the
+ * assessment, which keeps its result.
+ *
+ * Request body:
+ * {
+ *   "runId": "uuid - the completed run",
+ *   "answers": [{ "questionId": "string", "answer": "string" }]
+ * }
+ *
+ * Response:
+ * {
+ *   "result": AnalysisResult (revised),
+ *   "previousResult": AnalysisResult (before the revision),
+ *   "diff": { verdict, confidence, dimensions: [{ id, name, before, after, ... }],
+ *             risks: { added, removed }, alternatives: { added, removed }, changed }
+ * }
+ *
+ * Runs on the pipeline executor, like /api/v1/assessments. A run the
+ * executor does not track (one started on the Mastra workflow, or one that
+ * expired) is rebuilt from its stored assessment; its screening output is not
+ * stored, so the re-run dimensions go without the screening insights.
+ * Runs started through /api/v1 belong to their API key and are not revised
+ * here.
+ *
+ * Error cases:
+ * - 400: Invalid body, or an answer to a question the run neither answered
+ *   nor assumed
+ * - 404: Neither a tracked run nor a stored assessment, or an API run
+ * - 409: The run has not completed
+ * - 500: The re-analysis failed
+ *
+ * @module api/pipeline/revise
+ */
+
+import { diffAnalysisResults, type UserAnswer } from '@/lib/pipeline';
+import { getExecutorManager } from '../_lib/executor-singleton';
+import {
+  ReviseQuerySchema,
+  ReviseRequestSchema,
+  conflictResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse
+} from '../_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List the revisable questions of a completed run.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const validated = ReviseQuerySchema.safeParse({ runId: searchParams.get('runId') });
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { runId } = validated.data;
+  const manager = getExecutorManager();
+  const status = await manager.getRevisableRunStatus(runId);
+  if (!status || status.ownerId) {
+    return notFoundResponse(`Run ${runId} not found`);
+  }
+  if (status.status !== 'completed') {
+    return conflictResponse(`Run ${runId} has not completed (current status: ${status.status})`);
+  }
+
+  const questions = (await manager.getRevisableQuestions(runId)) ?? [];
+  return Response.json(
+    { runId, questions },
+    { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+  );
+}
+
+/**
+ * Revise answers of a completed run and return the diff.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = ReviseRequestSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { runId, answers } = validated.data;
+  const manager = getExecutorManager();
+
+  const status = await manager.getRevisableRunStatus(runId);
+  if (!status || status.ownerId) {
+    return notFoundResponse(`Run ${runId} not found`);
+  }
+  if (status.status !== 'completed') {
+    return conflictResponse(`Run ${runId} has not completed (current status: ${status.status})`);
+  }
+
+  const questions = new Map(
+    ((await manager.getRevisableQuestions(runId)) ?? []).map((q) => [q.questionId, q])
+  );
+  const unknown = answers.map((a) => a.questionId).filter((questionId) => !questions.has(questionId));
+  if (unknown.length > 0) {
+    return Response.json(
+      {
+        code: 'VALIDATION_ERROR',
+        message: 'Request validation failed',
+        details: { answers: unknown.map((questionId) => `Question ${questionId} was not answered or assumed`) }
+      },
+      { status: 400 }
+    );
+  }
+
+  const now = Date.now();
+  const userAnswers: UserAnswer[] = answers.map((a) => ({
+    questionId: a.questionId,
+    answer: a.answer,
+    ...(a.question && { question: a.question }),
+    source: questions.get(a.questionId)?.source.stage ?? 'screening',
+    timestamp: now
+  }));
+
+  try {
+    const result = await manager.reviseRun(runId, userAnswers);
+    if (result.status !== 'success' || !result.previousResult) {
+      console.error(`[/api/pipeline/revise] Revision of run ${runId} ended ${result.status}`);
+      return serverErrorResponse();
+    }
+
+    return Response.json({
+      result: result.result,
+      previousResult: result.previousResult,
+      diff: diffAnalysisResults(result.previousResult, result.result)
+    });
+  } catch (error) {
+    console.error('[/api/pipeline/revise] Failed to revise run:', error);
+    return serverErrorResponse();
+  }
+}
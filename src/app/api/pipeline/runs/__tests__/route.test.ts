@@ -0,0 +1,109 @@
+/**
+ * Tests for DELETE /api/pipeline/runs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DELETE } from '../route';
+
+// ============================================================================
+// MOCK RUN SWEEPER
+// ============================================================================
+
+const mockSweepExpiredRuns = vi.fn();
+
+vi.mock('../../_lib/run-sweeper', () => ({
+  sweepExpiredRuns: () => mockSweepExpiredRuns()
+}));
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+const report = {
+  sweptAt: '2026-01-01T00:00:00.000Z',
+  removed: 1,
+  byStatus: { suspended: 1 },
+  runs: [
+    {
+      runId: '123e4567-e89b-12d3-a456-426614174000',
+      source: 'workflow',
+      status: 'suspended',
+      updatedAt: '2025-12-30T00:00:00.000Z'
+    }
+  ]
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createRequest(token?: string): Request {
+  return new Request('http://localhost:3000/api/pipeline/runs', {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('DELETE /api/pipeline/runs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('ADMIN_API_TOKEN', ADMIN_TOKEN);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('authorization', () => {
+    it('returns 403 when ADMIN_API_TOKEN is not set', async () => {
+      vi.stubEnv('ADMIN_API_TOKEN', '');
+
+      const response = await DELETE(createRequest(ADMIN_TOKEN));
+
+      expect(response.status).toBe(403);
+      expect(mockSweepExpiredRuns).not.toHaveBeenCalled();
+    });
+
+    it('returns 401 without a token', async () => {
+      const response = await DELETE(createRequest());
+
+      expect(response.status).toBe(401);
+      const data = await response.json();
+      expect(data.code).toBe('UNAUTHORIZED');
+    });
+
+    it('returns 401 for a wrong token', async () => {
+      const response = await DELETE(createRequest('wrong-token'));
+
+      expect(response.status).toBe(401);
+      expect(mockSweepExpiredRuns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cleanup', () => {
+    it('purges expired runs and reports them', async () => {
+      mockSweepExpiredRuns.mockResolvedValue(report);
+
+      const response = await DELETE(createRequest(ADMIN_TOKEN));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(report);
+    });
+
+    it('returns 500 when the sweep fails', async () => {
+      mockSweepExpiredRuns.mockRejectedValue(new Error('database unavailable'));
+
+      const response = await DELETE(createRequest(ADMIN_TOKEN));
+
+      expect(response.status).toBe(500);
+      const data = await response.json();
+      expect(data.code).toBe('INTERNAL_ERROR');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Pipeline Runs Cleanup API Route
+ *
+ * DELETE /api/pipeline/runs
+ *
+ * Purges runs idle for longer than the TTL of their status (see
+ * `RUN_TTL_*`): legacy executor runs and checkpoints, and Mastra workflow
+ * snapshots. Admin only.
+ *
+ * Headers:
+ *   Authorization: Bearer <ADMIN_API_TOKEN>
+ *
+ * Response:
+ * {
+ *   "sweptAt": "ISO 8601",
+ *   "removed": 2,
+ *   "byStatus": { "suspended": 2 },
+ *   "runs": [{ "runId": "uuid", "source": "workflow", "status": "suspended", "updatedAt": "ISO 8601" }]
+ * }
+ *
+ * Error cases:
+ * - 401: Missing or wrong admin token
+ * - 403: Admin endpoints are disabled (ADMIN_API_TOKEN is not set)
+ * - 500: Cleanup failed
+ *
+ * @module api/pipeline/runs
+ */
+
+import { authorizeAdmin } from '../_lib/admin-auth';
+import { sweepExpiredRuns } from '../_lib/run-sweeper';
+import { serverErrorResponse } from '../_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Purge expired pipeline runs.
+ */
+export async function DELETE(request: Request): Promise<Response> {
+  const denied = authorizeAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return Response.json(await sweepExpiredRuns());
+  } catch (error) {
+    console.error('[pipeline/runs] Cleanup failed:', error);
+    return serverErrorResponse('Failed to purge expired runs');
+  }
+}
@@ -2,8 +2,9 @@
  * Tests for POST /api/pipeline/start
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { POST } from '../route';
+import { resetWebhooks } from '../../_lib/webhooks';
 
 // ============================================================================
 // MOCK EXECUTOR MANAGER
@@ -32,8 +33,22 @@ vi.mock('../../_lib/mastra-workflow-manager', () => ({
 }));
 
 // Mock feature flag to use legacy executor (which we mock above)
+const mockIsMastraNativeEnabled = vi.fn(() => false);
+
 vi.mock('../../_lib/feature-flags', () => ({
-  isMastraNativeEnabled: () => false
+  isMastraNativeEnabled: () => mockIsMastraNativeEnabled()
+}));
+
+// Mock run sweeper (prevents the background sweep timer)
+vi.mock('../../_lib/run-sweeper', () => ({
+  startRunSweeper: vi.fn()
+}));
+
+// Mock assessment history (prevents Mastra storage initialization)
+const mockRecordAssessment = vi.fn();
+
+vi.mock('@/lib/assessments', () => ({
+  recordAssessment: (...args: unknown[]) => mockRecordAssessment(...args)
 }));
 
 // ============================================================================
@@ -128,6 +143,17 @@ describe('POST /api/pipeline/start', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('returns 400 for ask-with-timeout on the Mastra workflow path', async () => {
+      mockIsMastraNativeEnabled.mockReturnValueOnce(true);
+
+      const response = await POST(createRequest({ ...validRequest, questionPolicy: 'ask-with-timeout' }));
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.details.questionPolicy).toBeDefined();
+      expect(mockStartPipeline).not.toHaveBeenCalled();
+    });
   });
 
   describe('successful execution', () => {
@@ -257,6 +283,31 @@ describe('POST /api/pipeline/start', () => {
       expect(events.some(e => e.includes('TIMEOUT'))).toBe(true);
     });
 
+    it('stores the completed result in the assessment history before closing', async () => {
+      const runId = '123e4567-e89b-12d3-a456-426614174000';
+      const result = { threadId: runId, problem: validRequest.problem, verdict: 'CONDITIONAL' };
+      let saved = false;
+      mockRecordAssessment.mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        saved = true;
+      });
+
+      mockStartPipeline.mockImplementation((input, onEvent) => {
+        onEvent({ type: 'pipeline:complete', result });
+        return {
+          handle: createMockHandle(runId, Promise.resolve({ status: 'success', result, errors: [], durationMs: 100 })),
+          unsubscribe: vi.fn()
+        };
+      });
+
+      const response = await POST(createRequest(validRequest));
+      await response.text();
+
+      expect(mockRecordAssessment).toHaveBeenCalledTimes(1);
+      expect(mockRecordAssessment).toHaveBeenCalledWith(result, expect.objectContaining({ problem: validRequest.problem }));
+      expect(saved).toBe(true);
+    });
+
     it('cleans up on completion', async () => {
       const runId = '123e4567-e89b-12d3-a456-426614174000';
       const unsubscribe = vi.fn();
@@ -278,6 +329,55 @@ describe('POST /api/pipeline/start', () => {
     });
   });
 
+  describe('webhooks', () => {
+    const callbackUrl = 'https://hooks.example.com/assessments';
+
+    beforeEach(() => {
+      resetWebhooks();
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.unstubAllGlobals();
+      resetWebhooks();
+    });
+
+    it('returns 400 for a callback URL when webhooks are disabled', async () => {
+      const response = await POST(createRequest({ ...validRequest, callbackUrl }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).details.callbackUrl).toBeDefined();
+      expect(mockStartPipeline).not.toHaveBeenCalled();
+    });
+
+    it('notifies the callback URL before closing the stream', async () => {
+      const runId = '123e4567-e89b-12d3-a456-426614174000';
+      const result = { threadId: runId, problem: validRequest.problem, verdict: 'CONDITIONAL' };
+      const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      vi.stubEnv('WEBHOOK_SECRET', 'whsec-test-secret');
+      // The callback host is not in DNS
+      vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_URLS', 'true');
+      vi.stubGlobal('fetch', fetchMock);
+
+      mockStartPipeline.mockImplementation((input, onEvent) => {
+        onEvent({ type: 'pipeline:complete', result });
+        return {
+          handle: createMockHandle(runId, Promise.resolve({ status: 'success', result, errors: [], durationMs: 100 })),
+          unsubscribe: vi.fn()
+        };
+      });
+
+      const response = await POST(createRequest({ ...validRequest, callbackUrl }));
+      await response.text();
+
+      expect(mockStartPipeline).toHaveBeenCalledWith(validRequest, expect.any(Function));
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(callbackUrl);
+      expect(JSON.parse(init.body)).toMatchObject({ event: 'assessment.completed', runId, result });
+    });
+  });
+
   describe('error handling', () => {
     it('sends error event on execution exception', async () => {
       mockStartPipeline.mockImplementation(() => {
@@ -9,34 +9,72 @@
  *
  * Supports two execution paths (controlled by USE_MASTRA_NATIVE env var):
  * - Legacy: Custom executor with in-memory state
- * - Native: Mastra workflow with PostgreSQL snapshots
+ * - Native: Mastra workflow with checkpointed snapshots
  *
  * Request body:
  * {
  *   "problem": "string (10-5000 chars) - the AI use case to analyze",
- *   "context": "string (optional, max 10000 chars) - additional context"
+ *   "context": "string (optional, max 10000 chars) - additional context",
+ *   "verdictMode": "'ai' | 'compare' | 'rules' (optional) - how the verdict is produced",
+ *   "usage": "object (optional) - requestsPerDay, inputTokensPerRequest,
+ *             outputTokensPerRequest, reviewRate (0-1), model - adds a cost estimate",
+ *   "industry": "'healthcare' | 'financial-services' | 'legal' | 'e-commerce' |
+ *                'internal-tooling' | 'customer-support' (optional) - industry preset",
+ *   "callbackUrl": "string (optional) - http(s) URL POSTed a signed payload when
+ *                   the run completes, fails or suspends for blocking questions",
+ *   "questionPolicy": "'ask' | 'assume' | 'ask-with-timeout' (optional, default
+ *                      'ask') - stop at blocking questions, answer them with
+ *                      their current assumptions, or wait and then assume",
+ *   "questionTimeoutMs": "number (optional, 1000-86400000) - wait before
+ *                         assuming under 'ask-with-timeout' (default 5 minutes);
+ *                         the timeout needs the legacy executor, so the Mastra
+ *                         path rejects 'ask-with-timeout' with 400",
+ *   "parentThreadId": "uuid (optional) - stored assessment this run re-runs; the
+ *                      result is stored as its next version",
+ *   "sampling": "object (optional) - { samples: 1-9, temperatures?: number[] };
+ *                analyzes each dimension `samples` times (at the temperatures,
+ *                in turn) and takes the majority score"
  * }
  *
  * Response: Server-Sent Events stream
- * - event: pipeline:start, screening:start, etc. (see PipelineEvent types)
+ * - event: pipeline:start, screening:start, etc. (see PipelineEvent types),
+ *   each with an `id:` for reconnecting via /api/pipeline/stream
  * - event: done (stream complete)
  * - event: error (fatal error occurred)
  *
+ * A dropped connection does not cancel the run; the client reconnects with
+ * `Last-Event-ID` to replay missed events (see /api/pipeline/stream).
+ *
+ * Completed results are stored in the assessment history (see /api/assessments),
+ * as a new version of `parentThreadId` when given.
+ * A `callbackUrl` requires WEBHOOK_SECRET (see _lib/webhooks); deliveries are
+ * listed at /api/pipeline/webhooks. The first start also schedules the background sweep of expired runs.
+ *
  * @module api/pipeline/start
  */
 
 import {
   createSSEResponse,
-  formatSSEEvent,
   formatSSEError,
   formatDoneEvent
 } from '../_lib/sse';
 import { getExecutorManager } from '../_lib/executor-singleton';
 import { getMastraWorkflowManager } from '../_lib/mastra-workflow-manager';
 import { isMastraNativeEnabled } from '../_lib/feature-flags';
+import { createAssessmentRecorder } from '../_lib/assessment-recorder';
+import { startRunSweeper } from '../_lib/run-sweeper';
+import { RunJournal, getEventJournalStore } from '../_lib/event-journal';
+import {
+  createWebhookNotifier,
+  getWebhookRegistry,
+  resolveWebhookSecret
+} from '../_lib/webhooks';
 import {
   StartRequestSchema,
+  type StartRequest,
   validationErrorResponse,
+  webhooksDisabledResponse,
+  questionTimeoutUnsupportedResponse,
   serverErrorResponse
 } from '../_lib/validation';
 
@@ -79,14 +117,21 @@ export async function POST(request: Request): Promise<Response> {
   if (!validated.success) {
     return validationErrorResponse(validated.error);
   }
+  if (validated.data.callbackUrl && !resolveWebhookSecret()) {
+    return webhooksDisabledResponse();
+  }
+  if (validated.data.questionPolicy === 'ask-with-timeout' && isMastraNativeEnabled()) {
+    return questionTimeoutUnsupportedResponse();
+  }
 
-  const { problem, context } = validated.data;
+  // Abandoned runs are purged in the background (no-op once started)
+  startRunSweeper();
 
   // Route to appropriate handler based on feature flag
   if (isMastraNativeEnabled()) {
-    return handleMastraNative(request, { problem, context });
+    return handleMastraNative(request, validated.data);
   }
-  return handleLegacyExecutor(request, { problem, context });
+  return handleLegacyExecutor(request, validated.data);
 }
 
 // Debug logging helper
@@ -110,12 +155,15 @@ function debug(context: string, message: string, data?: unknown): void {
  */
 async function handleMastraNative(
   request: Request,
-  input: { problem: string; context?: string }
+  { callbackUrl, ...input }: StartRequest
 ): Promise<Response> {
   debug('handleMastraNative', 'Starting Mastra native handler', { input });
 
   const encoder = new TextEncoder();
   const manager = getMastraWorkflowManager();
+  const recorder = createAssessmentRecorder(input);
+  const notifier = createWebhookNotifier();
+  const journal = new RunJournal();
 
   try {
     debug('handleMastraNative', 'Creating TransformStream');
@@ -125,9 +173,19 @@ async function handleMastraNative(
     const { readable, writable } = new TransformStream();
     const writer = writable.getWriter();
 
+    // The client may have disconnected; the run and its journal continue
+    const send = async (frame: string) => {
+      try {
+        await writer.write(encoder.encode(frame));
+      } catch {
+        // Writer may be closed
+      }
+    };
+
     // Start async pipeline execution (don't await - let it run in background)
     (async () => {
       debug('handleMastraNative', 'Background pipeline execution starting');
+      let runId: string | null = null;
 
       try {
         let eventCount = 0;
@@ -138,12 +196,14 @@ async function handleMastraNative(
 
         // Start the pipeline with event callback
         debug('handleMastraNative', 'Calling manager.startPipeline');
-        const { result } = await manager.startPipeline(
+        const started = await manager.startPipeline(
           input,
           async (event) => {
             eventCount++;
             debug('handleMastraNative', `Received event #${eventCount}: ${event.type}`);
-            const formatted = formatSSEEvent(event);
+            recorder.observe(event);
+            notifier.observe(event);
+            const formatted = journal.append(event);
             debug('handleMastraNative', `Writing SSE event`, { eventType: event.type, formattedLength: formatted.length });
             try {
               await writer.write(encoder.encode(formatted));
@@ -156,11 +216,18 @@ async function handleMastraNative(
           }
         );
         debug('handleMastraNative', 'manager.startPipeline returned, awaiting result');
+        runId = started.runId;
+        getEventJournalStore().register(runId, journal);
+        if (callbackUrl) {
+          getWebhookRegistry().register(runId, callbackUrl);
+        }
 
         // Wait for completion
         debug('handleMastraNative', 'Waiting for result promise');
-        const finalResult = await result;
+        const finalResult = await started.result;
         debug('handleMastraNative', 'Final result received', finalResult);
+        await recorder.flush();
+        notifier.settle(runId, finalResult);
 
         // Send final status
         switch (finalResult.status) {
@@ -168,13 +235,13 @@ async function handleMastraNative(
           case 'suspended':
           case 'cancelled':
             debug('handleMastraNative', `Sending done event for status: ${finalResult.status}`);
-            await writer.write(encoder.encode(formatDoneEvent()));
+            await send(journal.finish(formatDoneEvent()));
             break;
 
           case 'failed':
             debug('handleMastraNative', 'Pipeline failed', finalResult.error);
             if (finalResult.error) {
-              await writer.write(encoder.encode(formatSSEError({
+              await send(journal.finish(formatSSEError({
                 message: finalResult.error.message,
                 code: finalResult.error.code
               })));
@@ -190,12 +257,17 @@ async function handleMastraNative(
         });
         console.error('[/api/pipeline/start] Mastra native error:', error);
         const message = error instanceof Error ? error.message : 'Pipeline execution failed';
-        try {
-          await writer.write(encoder.encode(formatSSEError(message)));
-        } catch {
-          // Writer may be closed
+        await send(journal.finish(formatSSEError(message)));
+        if (runId) {
+          notifier.settle(runId, { status: 'failed', error: { code: 'PIPELINE_ERROR', message } });
         }
       } finally {
+        // Reconnected clients always get a terminal frame
+        if (!journal.isFinished) {
+          journal.finish(formatDoneEvent());
+        }
+        // Keep the invocation alive until webhook deliveries finish
+        await notifier.flush();
         debug('handleMastraNative', 'Closing writer');
         try {
           await writer.close();
@@ -218,10 +290,13 @@ async function handleMastraNative(
  */
 async function handleLegacyExecutor(
   request: Request,
-  input: { problem: string; context?: string }
+  { callbackUrl, ...input }: StartRequest
 ): Promise<Response> {
   const encoder = new TextEncoder();
   const manager = getExecutorManager();
+  const recorder = createAssessmentRecorder(input);
+  const notifier = createWebhookNotifier();
+  const journal = new RunJournal();
 
   try {
     // Create a readable stream for SSE
@@ -230,49 +305,55 @@ async function handleLegacyExecutor(
         let unsubscribe: (() => void) | null = null;
         let runId: string | null = null;
 
+        // The client may have disconnected; the run and its journal continue
+        const send = (frame: string) => {
+          try {
+            controller.enqueue(encoder.encode(frame));
+          } catch {
+            // Stream closed by the client
+          }
+        };
+
         try {
           // Start the pipeline with event subscription
-          const { handle, unsubscribe: unsub } = manager.startPipeline(
+          const { handle, unsubscribe: unsub } = await manager.startPipeline(
             input,
             (event) => {
-              // Enqueue each event as SSE
-              controller.enqueue(encoder.encode(formatSSEEvent(event)));
+              // Journal and enqueue each event as SSE
+              send(journal.append(event));
+              recorder.observe(event);
+              notifier.observe(event);
             }
           );
 
           unsubscribe = unsub;
           runId = handle.runId;
+          getEventJournalStore().register(runId, journal);
+          if (callbackUrl) {
+            getWebhookRegistry().register(runId, callbackUrl);
+          }
 
-          // Handle client disconnect via AbortSignal
-          const abortHandler = () => {
-            if (runId) {
-              manager.cancelRun(runId);
-            }
-          };
-          request.signal.addEventListener('abort', abortHandler);
-
-          // Wait for pipeline completion
+          // Wait for pipeline completion (and the assessment history save)
           const result = await handle.result;
-
-          // Remove abort handler after completion
-          request.signal.removeEventListener('abort', abortHandler);
+          await recorder.flush();
+          notifier.settle(runId, result);
 
           // Send final result based on status
           switch (result.status) {
             case 'success':
               // Events already streamed; send done marker
-              controller.enqueue(encoder.encode(formatDoneEvent()));
+              send(journal.finish(formatDoneEvent()));
               break;
 
             case 'suspended':
               // Pipeline suspended for user input
               // The suspension details are in the last events; send done
-              controller.enqueue(encoder.encode(formatDoneEvent()));
+              send(journal.finish(formatDoneEvent()));
               break;
 
             case 'failed':
               // Error event already emitted by executor
-              controller.enqueue(encoder.encode(formatSSEError({
+              send(journal.finish(formatSSEError({
                 message: result.error.message,
                 code: result.error.code
               })));
@@ -280,15 +361,20 @@ async function handleLegacyExecutor(
 
             case 'cancelled':
               // Cancellation event already emitted; just close
-              controller.enqueue(encoder.encode(formatDoneEvent()));
+              send(journal.finish(formatDoneEvent()));
               break;
           }
         } catch (error) {
           // Unexpected error during execution
           console.error('[/api/pipeline/start] Execution error:', error);
           const message = error instanceof Error ? error.message : 'Pipeline execution failed';
-          controller.enqueue(encoder.encode(formatSSEError(message)));
+          send(journal.finish(formatSSEError(message)));
+          if (runId) {
+            notifier.settle(runId, { status: 'failed', error: { code: 'PIPELINE_ERROR', message } });
+          }
         } finally {
+          // Keep the invocation alive until webhook deliveries finish
+          await notifier.flush();
           // Clean up subscription
           if (unsubscribe) {
             unsubscribe();
@@ -296,7 +382,11 @@ async function handleLegacyExecutor(
           if (runId) {
             manager.cleanupRun(runId);
           }
-          controller.close();
+          try {
+            controller.close();
+          } catch {
+            // Stream closed by the client
+          }
         }
       }
     });
@@ -70,7 +70,7 @@ export async function GET(request: Request): Promise<Response> {
   const manager = getExecutorManager();
 
   // Get run status
-  const status = manager.getRunStatus(runId);
+  const status = await manager.getRunStatus(runId);
   if (!status) {
     return notFoundResponse(`Run ${runId} not found`);
   }
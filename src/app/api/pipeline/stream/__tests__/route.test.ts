@@ -0,0 +1,106 @@
+/**
+ * Tests for GET /api/pipeline/stream
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GET } from '../route';
+import {
+  RunJournal,
+  getEventJournalStore,
+  resetEventJournalStore
+} from '../../_lib/event-journal';
+import { formatDoneEvent } from '../../_lib/sse';
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const validUUID = '123e4567-e89b-12d3-a456-426614174000';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createRequest(runId: string | null, lastEventId?: string): Request {
+  const url = runId
+    ? `http://localhost:3000/api/pipeline/stream?runId=${runId}`
+    : 'http://localhost:3000/api/pipeline/stream';
+  return new Request(url, {
+    method: 'GET',
+    headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {}
+  });
+}
+
+function journalWithEvents(): RunJournal {
+  const journal = new RunJournal();
+  journal.append({ type: 'pipeline:start', runId: validUUID, timestamp: 1 });
+  journal.append({ type: 'screening:start' });
+  journal.append({ type: 'pipeline:stage', stage: 'dimensions' });
+  getEventJournalStore().register(validUUID, journal);
+  return journal;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GET /api/pipeline/stream', () => {
+  beforeEach(() => {
+    resetEventJournalStore();
+  });
+
+  it('returns 400 for an invalid runId', async () => {
+    const response = await GET(createRequest('not-a-uuid'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 404 when the run has no stream', async () => {
+    const response = await GET(createRequest(validUUID));
+
+    expect(response.status).toBe(404);
+    const data = await response.json();
+    expect(data.code).toBe('NOT_FOUND');
+  });
+
+  it('replays events after Last-Event-ID and ends with the terminal frame', async () => {
+    const journal = journalWithEvents();
+    journal.finish(formatDoneEvent());
+
+    const response = await GET(createRequest(validUUID, '1'));
+    const body = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(body).not.toContain('id: 1\n');
+    expect(body).toContain('id: 2\nevent: screening:start');
+    expect(body).toContain('id: 3\nevent: pipeline:stage');
+    expect(body.endsWith(formatDoneEvent())).toBe(true);
+  });
+
+  it('returns 410 when events after Last-Event-ID were dropped', async () => {
+    const journal = new RunJournal({ maxEvents: 2 });
+    journal.append({ type: 'pipeline:start', runId: validUUID, timestamp: 1 });
+    journal.append({ type: 'screening:start' });
+    journal.append({ type: 'pipeline:stage', stage: 'dimensions' });
+    getEventJournalStore().register(validUUID, journal);
+
+    const response = await GET(createRequest(validUUID, '0'));
+
+    expect(response.status).toBe(410);
+    expect((await response.json()).code).toBe('GONE');
+    expect((await GET(createRequest(validUUID, '1'))).status).toBe(200);
+  });
+
+  it('follows the live stream until the run finishes', async () => {
+    const journal = journalWithEvents();
+
+    const response = await GET(createRequest(validUUID, '3'));
+    journal.append({ type: 'screening:complete', canEvaluate: true, dimensionPriorities: [] });
+    journal.finish(formatDoneEvent());
+    const body = await response.text();
+
+    expect(body).not.toContain('id: 3\n');
+    expect(body).toContain('id: 4\nevent: screening:complete');
+    expect(body.endsWith(formatDoneEvent())).toBe(true);
+  });
+});
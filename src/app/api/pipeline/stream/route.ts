@@ -0,0 +1,111 @@
+/**
+ * Pipeline Stream Reconnect API Route
+ *
+ * GET /api/pipeline/stream?runId=<uuid>
+ *
+ * Reconnects to the SSE stream of a run started by /api/pipeline/start or
+ * /api/pipeline/resume. Events after the last id the client received are
+ * replayed from the run's event journal, then the live stream continues
+ * until the run ends or suspends.
+ *
+ * Query parameters:
+ * - runId: UUID of the run (the server run id from `pipeline:start`)
+ * - lastEventId: optional, for clients that cannot set headers
+ *
+ * Headers:
+ *   Last-Event-ID: <id> (optional; without it the whole journal is replayed)
+ *
+ * Response: Server-Sent Events stream (same events as /api/pipeline/start)
+ *
+ * Error cases:
+ * - 400: Invalid or missing runId
+ * - 404: No stream for this run (unknown, or finished and expired)
+ * - 410: Events after the given id were dropped from the journal; the
+ *   client must reload the run (GET /api/pipeline/status) instead
+ *
+ * @module api/pipeline/stream
+ */
+
+import { createSSEResponse } from '../_lib/sse';
+import { getEventJournalStore, parseLastEventId } from '../_lib/event-journal';
+import {
+  StreamQuerySchema,
+  validationErrorResponse,
+  notFoundResponse,
+  goneResponse
+} from '../_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replay missed events of a run, then follow its live stream.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const validated = StreamQuerySchema.safeParse({ runId: searchParams.get('runId') });
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { runId } = validated.data;
+  const journal = getEventJournalStore().get(runId);
+  if (!journal) {
+    return notFoundResponse(`No stream for run ${runId}`);
+  }
+
+  const lastEventId = parseLastEventId(request);
+  if (!journal.canReplayFrom(lastEventId)) {
+    return goneResponse(
+      `Events after id ${lastEventId ?? 0} of run ${runId} are no longer available; reload the run status`
+    );
+  }
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      controller.enqueue(encoder.encode(': connected\n\n'));
+      for (const frame of journal.replay(lastEventId)) {
+        controller.enqueue(encoder.encode(frame));
+      }
+      if (journal.isFinished) {
+        close();
+        return;
+      }
+
+      const unsubscribe = journal.subscribe((frame, final) => {
+        try {
+          controller.enqueue(encoder.encode(frame));
+        } catch {
+          // Stream closed by the client
+        }
+        if (final) {
+          close();
+        }
+      });
+
+      request.signal.addEventListener('abort', () => {
+        unsubscribe();
+        close();
+      });
+    }
+  });
+
+  return createSSEResponse(stream);
+}
@@ -0,0 +1,84 @@
+/**
+ * Tests for GET /api/pipeline/webhooks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GET } from '../route';
+import { getWebhookDeliveryLog, resetWebhooks, type WebhookDelivery } from '../../_lib/webhooks';
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const validUUID = '123e4567-e89b-12d3-a456-426614174000';
+const otherUUID = '223e4567-e89b-12d3-a456-426614174000';
+const ADMIN_TOKEN = 'admin-secret-token';
+
+function createRequest(runId: string, token: string | null = ADMIN_TOKEN): Request {
+  return new Request(`http://localhost:3000/api/pipeline/webhooks?runId=${runId}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+}
+
+function delivery(id: string, runId: string): WebhookDelivery {
+  return {
+    id,
+    runId,
+    event: 'assessment.completed',
+    url: 'https://hooks.example.com/assessments',
+    status: 'delivered',
+    attempts: [{ attempt: 1, at: '2026-01-01T00:00:00.000Z', statusCode: 200, error: null }],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:00:00.000Z'
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GET /api/pipeline/webhooks', () => {
+  beforeEach(() => {
+    resetWebhooks();
+    vi.stubEnv('ADMIN_API_TOKEN', ADMIN_TOKEN);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 403 when ADMIN_API_TOKEN is not set', async () => {
+    vi.stubEnv('ADMIN_API_TOKEN', '');
+
+    const response = await GET(createRequest(validUUID));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('returns 401 without the admin token', async () => {
+    getWebhookDeliveryLog().add(delivery('d1', validUUID));
+
+    for (const token of [null, 'wrong-token']) {
+      const response = await GET(createRequest(validUUID, token));
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe('UNAUTHORIZED');
+    }
+  });
+
+  it('lists the deliveries of a run', async () => {
+    getWebhookDeliveryLog().add(delivery('d1', validUUID));
+    getWebhookDeliveryLog().add(delivery('d2', otherUUID));
+
+    const response = await GET(createRequest(validUUID));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store, max-age=0');
+    expect(await response.json()).toEqual({ deliveries: [delivery('d1', validUUID)] });
+  });
+
+  it('returns 400 for an invalid runId', async () => {
+    const response = await GET(createRequest('nope'));
+
+    expect(response.status).toBe(400);
+  });
+});
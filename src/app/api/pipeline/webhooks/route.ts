@@ -0,0 +1,76 @@
+/**
+ * Webhook Deliveries API Route
+ *
+ * GET /api/pipeline/webhooks?runId=<uuid>
+ *
+ * Lists the webhook deliveries of a pipeline run started with a
+ * `callbackUrl`, oldest first, with every attempt (see _lib/webhooks).
+ * Admin only.
+ *
+ * Headers:
+ *   Authorization: Bearer <ADMIN_API_TOKEN>
+ *
+ * Query parameters:
+ * - runId: UUID of the pipeline run
+ *
+ * Response:
+ * {
+ *   "deliveries": [{
+ *     "id": "uuid",
+ *     "runId": "uuid",
+ *     "event": "assessment.completed" | "assessment.suspended" | "assessment.failed",
+ *     "url": "https://...",
+ *     "status": "pending" | "delivered" | "failed",
+ *     "attempts": [{ "attempt": 1, "at": "ISO", "statusCode": 503, "error": null }],
+ *     "createdAt": "ISO",
+ *     "completedAt": "ISO" | null
+ *   }]
+ * }
+ *
+ * The log is kept in process memory and holds the most recent 500
+ * deliveries; a run without deliveries returns an empty list.
+ *
+ * Error cases:
+ * - 400: Invalid or missing runId
+ * - 401: Missing or wrong admin token
+ * - 403: Admin endpoints are disabled (ADMIN_API_TOKEN is not set)
+ *
+ * @module api/pipeline/webhooks
+ */
+
+import { authorizeAdmin } from '../_lib/admin-auth';
+import { getWebhookDeliveryLog } from '../_lib/webhooks';
+import { WebhooksQuerySchema, validationErrorResponse } from '../_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List the webhook deliveries of a run.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const denied = authorizeAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const validated = WebhooksQuerySchema.safeParse({ runId: searchParams.get('runId') });
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  return Response.json(
+    { deliveries: getWebhookDeliveryLog().list(validated.data.runId) },
+    { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+  );
+}
@@ -1,5 +1,5 @@
 import { generateObject } from 'ai';
-import { model } from '@/lib/ai';
+import { applyMockConfigFromEnv, getDefaultModelRegistry } from '@/lib/pipeline/models';
 import { ScreeningResultSchema } from '@/lib/schemas';
 import { SCREENING_PROMPT } from '@/lib/prompts';
 
@@ -16,8 +16,9 @@ export async function POST(req: Request) {
       );
     }
 
+    await applyMockConfigFromEnv();
     const result = await generateObject({
-      model,
+      model: getDefaultModelRegistry().resolve('screening'),
       schema: ScreeningResultSchema,
       system: SCREENING_PROMPT,
       prompt: `
@@ -0,0 +1,177 @@
+/**
+ * Tests for API key authentication and rate limiting.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_RATE_LIMIT,
+  authenticateApiKey,
+  findApiKey,
+  hashApiKey,
+  resolveApiKeys,
+  withApiKey
+} from '../api-keys';
+import { createRateLimiter, resetRateLimiter } from '../rate-limiter';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const KEY = 'sk-test-portfolio';
+const OTHER_KEY = 'sk-test-reporting';
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost:3000/api/v1/assessments', { headers });
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+describe('resolveApiKeys', () => {
+  it('returns no keys when API_KEYS is unset', () => {
+    expect(resolveApiKeys({})).toEqual([]);
+  });
+
+  it('parses names, hashes and per-key limits', () => {
+    const keys = resolveApiKeys({
+      API_KEYS: `portfolio:${hashApiKey(KEY)}:120, reporting:${hashApiKey(OTHER_KEY).toUpperCase()}`,
+      API_RATE_LIMIT: '30'
+    });
+
+    expect(keys).toEqual([
+      { name: 'portfolio', hash: hashApiKey(KEY), rateLimit: 120 },
+      { name: 'reporting', hash: hashApiKey(OTHER_KEY), rateLimit: 30 }
+    ]);
+  });
+
+  it('defaults the rate limit', () => {
+    expect(resolveApiKeys({ API_KEYS: `a:${hashApiKey(KEY)}` })[0].rateLimit).toBe(DEFAULT_RATE_LIMIT);
+  });
+
+  it('rejects malformed entries and limits', () => {
+    expect(() => resolveApiKeys({ API_KEYS: 'portfolio:not-a-hash' })).toThrow('Invalid API_KEYS entry');
+    expect(() => resolveApiKeys({ API_KEYS: `a:${hashApiKey(KEY)}:0` })).toThrow('rate limit for a');
+    expect(() => resolveApiKeys({ API_KEYS: `a:${hashApiKey(KEY)}`, API_RATE_LIMIT: 'lots' })).toThrow(
+      'Invalid API_RATE_LIMIT'
+    );
+  });
+});
+
+describe('findApiKey', () => {
+  it('matches a presented key by its hash', () => {
+    const keys = resolveApiKeys({ API_KEYS: `portfolio:${hashApiKey(KEY)}` });
+
+    expect(findApiKey(keys, KEY)?.name).toBe('portfolio');
+    expect(findApiKey(keys, OTHER_KEY)).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+describe('authenticateApiKey', () => {
+  beforeEach(() => {
+    resetRateLimiter();
+    vi.stubEnv('API_KEYS', `portfolio:${hashApiKey(KEY)}:2`);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 403 when the API is disabled', () => {
+    vi.stubEnv('API_KEYS', '');
+
+    const auth = authenticateApiKey(request({ Authorization: `Bearer ${KEY}` }));
+
+    expect(auth.ok).toBe(false);
+    if (!auth.ok) expect(auth.response.status).toBe(403);
+  });
+
+  it('returns 500 JSON when API_KEYS is malformed', async () => {
+    vi.stubEnv('API_KEYS', 'portfolio');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const auth = authenticateApiKey(request({ Authorization: `Bearer ${KEY}` }));
+
+    expect(auth.ok).toBe(false);
+    if (!auth.ok) {
+      expect(auth.response.status).toBe(500);
+      expect((await auth.response.json()).code).toBe('INTERNAL_ERROR');
+    }
+  });
+
+  it('returns 401 for a missing or unknown key', () => {
+    for (const headers of [{}, { Authorization: `Bearer ${OTHER_KEY}` }] as Record<string, string>[]) {
+      const auth = authenticateApiKey(request(headers));
+      expect(auth.ok).toBe(false);
+      if (!auth.ok) expect(auth.response.status).toBe(401);
+    }
+  });
+
+  it('accepts a bearer token or X-API-Key header', () => {
+    const bearer = authenticateApiKey(request({ Authorization: `Bearer ${KEY}` }));
+    const header = authenticateApiKey(request({ 'X-API-Key': KEY }));
+
+    expect(bearer.ok && bearer.key.name).toBe('portfolio');
+    expect(header.ok && header.headers['X-RateLimit-Remaining']).toBe('0');
+  });
+
+  it('returns 429 with Retry-After once the limit is exhausted', async () => {
+    const now = 1_000_000;
+    authenticateApiKey(request({ 'X-API-Key': KEY }), now);
+    authenticateApiKey(request({ 'X-API-Key': KEY }), now);
+
+    const auth = authenticateApiKey(request({ 'X-API-Key': KEY }), now + 1000);
+
+    expect(auth.ok).toBe(false);
+    if (!auth.ok) {
+      expect(auth.response.status).toBe(429);
+      expect(auth.response.headers.get('Retry-After')).toBe('59');
+      expect((await auth.response.json()).code).toBe('RATE_LIMITED');
+    }
+  });
+
+  it('adds rate limit headers to wrapped handlers', async () => {
+    const handler = withApiKey(async () => Response.json({ ok: true }));
+
+    const response = await handler(request({ 'X-API-Key': KEY }), {});
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('1');
+  });
+
+  it('passes the authenticated key to wrapped handlers', async () => {
+    const handler = withApiKey(async (_request, _context, key) => Response.json({ owner: key.name }));
+
+    const response = await handler(request({ 'X-API-Key': KEY }), {});
+
+    expect(await response.json()).toEqual({ owner: 'portfolio' });
+  });
+});
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+describe('createRateLimiter', () => {
+  it('counts requests per key within a window', () => {
+    const limiter = createRateLimiter(1000);
+
+    expect(limiter.take('a', 1, 0).allowed).toBe(true);
+    expect(limiter.take('a', 1, 500).allowed).toBe(false);
+    expect(limiter.take('b', 1, 500).allowed).toBe(true);
+  });
+
+  it('starts a new window after the previous one ends', () => {
+    const limiter = createRateLimiter(1000);
+    limiter.take('a', 1, 0);
+
+    const result = limiter.take('a', 1, 1000);
+
+    expect(result).toEqual({ allowed: true, limit: 1, remaining: 0, resetAt: 2000 });
+  });
+});
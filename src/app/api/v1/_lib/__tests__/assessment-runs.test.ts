@@ -0,0 +1,205 @@
+/**
+ * Tests for v1 assessment runs, end to end on the executor with the offline
+ * mock model.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryStore } from '@mastra/core/storage';
+import { getAssessmentStore, resetAssessmentStore } from '@/lib/assessments';
+import { resetCheckpointStorage } from '@/lib/pipeline/checkpoint';
+import type { ApiAssessment } from '../schemas';
+import { resetExecutorManager } from '../../../pipeline/_lib/executor-singleton';
+import {
+  answerAssessmentRun,
+  cancelAssessmentRun,
+  createAssessmentRun,
+  getAssessmentRun,
+  listAssessmentRuns
+} from '../assessment-runs';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const storageHolder: { storage: InMemoryStore | null } = { storage: null };
+
+vi.mock('@/mastra', () => ({
+  mastra: { getStorage: () => storageHolder.storage }
+}));
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Starts an assessment and answers its questions until it settles.
+ */
+async function runToCompletion(problem: string, ownerId?: string): Promise<ApiAssessment> {
+  let assessment = await createAssessmentRun({ problem, ownerId }, true);
+
+  for (let round = 0; assessment.status === 'suspended' && round < 5; round++) {
+    expect(assessment.questions.length).toBeGreaterThan(0);
+    const resumed = await answerAssessmentRun(
+      assessment.id,
+      assessment.questions.map((q) => ({ questionId: q.id, answer: 'Yes' })),
+      true,
+      ownerId
+    );
+    expect(resumed).not.toBeNull();
+    assessment = resumed as ApiAssessment;
+  }
+
+  return assessment;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('assessment runs', () => {
+  beforeEach(() => {
+    vi.stubEnv('AI_MODEL_PROVIDER', 'mock');
+    vi.stubEnv('CHECKPOINT_STORE', 'memory');
+    resetExecutorManager();
+    resetAssessmentStore();
+    storageHolder.storage = new InMemoryStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetExecutorManager();
+  });
+
+  it('runs an assessment to completion through its questions', async () => {
+    const assessment = await runToCompletion('Classify incoming support tickets by urgency and product area');
+
+    expect(assessment.status).toBe('completed');
+    expect(assessment.result?.threadId).toBe(assessment.id);
+    expect(assessment.completedAt).not.toBeNull();
+
+    const list = await listAssessmentRuns({ limit: 20, offset: 0 });
+    expect(list.total).toBe(1);
+    expect(list.assessments[0]).toMatchObject({ id: assessment.id, verdict: assessment.result?.verdict });
+  });
+
+  it('assumes answers under the assume policy and re-analyses once they are answered', async () => {
+    const assessment = await createAssessmentRun(
+      { problem: 'Classify incoming support tickets by urgency and product area', questionPolicy: 'assume' },
+      true
+    );
+
+    expect(assessment.status).toBe('completed');
+    const assumptions = assessment.result?.appliedAssumptions ?? [];
+    expect(assumptions.length).toBeGreaterThan(0);
+
+    const revised = await answerAssessmentRun(
+      assessment.id,
+      assumptions.map((a) => ({ questionId: a.questionId, answer: 'Yes' })),
+      true
+    );
+
+    expect(revised?.status).toBe('completed');
+    const remaining = new Set((revised?.result?.appliedAssumptions ?? []).map((a) => a.questionId));
+    expect(assumptions.some((a) => remaining.has(a.questionId))).toBe(false);
+  });
+
+  it('saves a revision as a new version and keeps the previous result', async () => {
+    const assessment = await createAssessmentRun(
+      {
+        problem: 'Classify incoming support tickets by urgency and product area',
+        questionPolicy: 'assume',
+        ownerId: 'portfolio'
+      },
+      true
+    );
+    const assumptions = assessment.result?.appliedAssumptions ?? [];
+
+    const revised = await answerAssessmentRun(
+      assessment.id,
+      [{ questionId: assumptions[0].questionId, answer: 'Yes' }],
+      true,
+      'portfolio'
+    );
+
+    expect(revised?.id).not.toBe(assessment.id);
+    expect(revised?.status).toBe('completed');
+    const store = await getAssessmentStore();
+    expect(await store.get(assessment.id)).toMatchObject({ result: { appliedAssumptions: assumptions } });
+    expect((await store.versions(assessment.id))?.map((v) => v.threadId)).toEqual([assessment.id, revised?.id]);
+    expect(await store.get(revised!.id)).toMatchObject({ ownerId: 'portfolio' });
+  });
+
+  it('returns a running assessment without waiting', async () => {
+    const assessment = await createAssessmentRun({ problem: 'Summarize weekly sales reports for managers' });
+
+    expect(assessment.status).toBe('running');
+    expect(assessment.result).toBeNull();
+  });
+
+  it('falls back to stored results once the run is gone', async () => {
+    const completed = await runToCompletion('Summarize weekly sales reports for managers');
+    resetExecutorManager();
+
+    const assessment = await getAssessmentRun(completed.id);
+
+    expect(assessment).toMatchObject({ id: completed.id, status: 'completed', stage: null, questions: [] });
+    expect(assessment?.result?.verdict).toBe(completed.result?.verdict);
+    expect(await getAssessmentRun('123e4567-e89b-12d3-a456-426614174000')).toBeNull();
+  });
+
+  it('revises a completed assessment once its run is gone', async () => {
+    const assessment = await createAssessmentRun(
+      {
+        problem: 'Classify incoming support tickets by urgency and product area',
+        questionPolicy: 'assume',
+        ownerId: 'portfolio'
+      },
+      true
+    );
+    const assumptions = assessment.result?.appliedAssumptions ?? [];
+    expect(assumptions.length).toBeGreaterThan(0);
+    resetExecutorManager();
+    resetCheckpointStorage();
+
+    const answers = [{ questionId: assumptions[0].questionId, answer: 'Yes' }];
+    expect(await answerAssessmentRun(assessment.id, answers, true, 'reporting')).toBeNull();
+    const revised = await answerAssessmentRun(assessment.id, answers, true, 'portfolio');
+
+    expect(revised?.status).toBe('completed');
+    expect(revised?.result?.answeredQuestions).toContainEqual(expect.objectContaining(answers[0]));
+  });
+
+  it('only shows an assessment to the key that started it', async () => {
+    const completed = await runToCompletion('Summarize weekly sales reports for managers', 'portfolio');
+
+    expect(await getAssessmentRun(completed.id, 'portfolio')).toMatchObject({ id: completed.id });
+    expect(await getAssessmentRun(completed.id, 'reporting')).toBeNull();
+    expect(await getAssessmentRun(completed.id)).toBeNull();
+    expect(await answerAssessmentRun(completed.id, [], true, 'reporting')).toBeNull();
+
+    resetExecutorManager();
+    expect(await getAssessmentRun(completed.id, 'portfolio')).toMatchObject({ id: completed.id });
+    expect(await getAssessmentRun(completed.id, 'reporting')).toBeNull();
+  });
+
+  it('lists only the assessments of the requesting key', async () => {
+    const own = await runToCompletion('Summarize weekly sales reports for managers', 'portfolio');
+    await runToCompletion('Classify incoming support tickets by urgency and product area', 'reporting');
+
+    const list = await listAssessmentRuns({ limit: 20, offset: 0 }, 'portfolio');
+
+    expect(list.total).toBe(1);
+    expect(list.assessments.map((a) => a.id)).toEqual([own.id]);
+    expect((await listAssessmentRuns({ limit: 20, offset: 0 })).total).toBe(0);
+  });
+
+  it('does not cancel another key\'s assessment', async () => {
+    const assessment = await createAssessmentRun({
+      problem: 'Summarize weekly sales reports for managers',
+      ownerId: 'portfolio'
+    });
+
+    expect(await cancelAssessmentRun(assessment.id, 'reporting')).toBeNull();
+    expect((await cancelAssessmentRun(assessment.id, 'portfolio'))?.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for the generated OpenAPI document.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiDocument } from '../openapi';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type Schema = {
+  type?: string;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  enum?: string[];
+  anyOf?: Schema[];
+};
+
+const document = buildOpenApiDocument() as {
+  openapi: string;
+  paths: Record<string, Record<string, { operationId: string; responses: Record<string, unknown> }>>;
+  components: { schemas: Record<string, Schema> };
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('buildOpenApiDocument', () => {
+  it('describes every v1 operation', () => {
+    const operations = Object.values(document.paths).flatMap((path) =>
+      Object.values(path).map((operation) => operation.operationId)
+    );
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(operations.sort()).toEqual([
+      'answerAssessment',
+      'cancelAssessment',
+      'createAssessment',
+      'getAssessment',
+      'listAssessments'
+    ]);
+  });
+
+  it('documents authentication and rate limit errors on every operation', () => {
+    for (const path of Object.values(document.paths)) {
+      for (const operation of Object.values(path)) {
+        expect(Object.keys(operation.responses)).toEqual(expect.arrayContaining(['401', '403', '429']));
+      }
+    }
+  });
+
+  it('derives the request schema from the start request', () => {
+    const schema = document.components.schemas.CreateAssessmentRequest;
+
+    expect(schema.required).toEqual(['problem']);
+    expect(Object.keys(schema.properties ?? {})).toEqual(
+      expect.arrayContaining(['problem', 'context', 'verdictMode', 'usage', 'industry', 'wait'])
+    );
+  });
+
+  it('derives the assessment schema from the analysis result', () => {
+    const { properties } = document.components.schemas.Assessment;
+    const result = properties?.result.anyOf?.find((option) => option.type === 'object');
+
+    expect(properties?.status.enum).toEqual(['running', 'suspended', 'completed', 'failed', 'cancelled']);
+    expect(result?.properties?.verdict.enum).toEqual([
+      'STRONG_FIT',
+      'CONDITIONAL',
+      'WEAK_FIT',
+      'NOT_RECOMMENDED'
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * API keys for the public v1 API.
+ *
+ * Keys are never stored in plain text: `API_KEYS` lists the SHA-256 hashes of
+ * the issued keys, each with a name and an optional per-key rate limit:
+ *
+ * ```
+ * API_KEYS=portfolio:5e884898da28...:120,reporting:a665a45920...
+ * ```
+ *
+ * Entries are `<name>:<sha256 hex>[:<requests per minute>]`; keys without a
+ * limit use `API_RATE_LIMIT` (default 60 per minute). Clients send the key as
+ * `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ *
+ * @module api/v1/_lib/api-keys
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { getRateLimiter, type RateLimitResult } from './rate-limiter';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Requests per minute for keys without their own limit */
+export const DEFAULT_RATE_LIMIT = 60;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A configured API key.
+ */
+export interface ApiKey {
+  /** Name identifying the key's owner (used for rate limiting, logs and assessment ownership) */
+  name: string;
+  /** SHA-256 hash of the key (hex) */
+  hash: string;
+  /** Requests allowed per minute */
+  rateLimit: number;
+}
+
+/**
+ * Outcome of authenticating a request.
+ */
+export type ApiKeyAuthResult =
+  | { ok: true; key: ApiKey; headers: Record<string, string> }
+  | { ok: false; response: Response };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hashes an API key the way it is stored in `API_KEYS`.
+ *
+ * @param key - Plain-text API key
+ * @returns SHA-256 hash (hex)
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function readRateLimit(raw: string, name: string): number {
+  const limit = Number(raw.trim());
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid ${name} "${raw}" (expected a positive number of requests per minute)`);
+  }
+  return limit;
+}
+
+/**
+ * Reads the configured API keys from `API_KEYS` and `API_RATE_LIMIT`.
+ *
+ * @param env - Environment (default: process.env)
+ * @returns The keys; empty if the API is not configured
+ * @throws If an entry or rate limit is malformed
+ */
+export function resolveApiKeys(env: Record<string, string | undefined> = process.env): ApiKey[] {
+  const defaultLimit = env.API_RATE_LIMIT?.trim()
+    ? readRateLimit(env.API_RATE_LIMIT, 'API_RATE_LIMIT')
+    : DEFAULT_RATE_LIMIT;
+
+  return (env.API_KEYS ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, hash, limit] = entry.split(':');
+      if (!name || !/^[0-9a-f]{64}$/i.test(hash ?? '')) {
+        throw new Error(`Invalid API_KEYS entry "${entry}" (expected <name>:<sha256 hex>[:<limit>])`);
+      }
+      return {
+        name,
+        hash: hash.toLowerCase(),
+        rateLimit: limit === undefined ? defaultLimit : readRateLimit(limit, `rate limit for ${name}`)
+      };
+    });
+}
+
+/**
+ * Finds the configured key matching a presented key.
+ *
+ * @param keys - Configured keys
+ * @param presented - Plain-text key from the request
+ * @returns The matching key, or undefined
+ */
+export function findApiKey(keys: ApiKey[], presented: string): ApiKey | undefined {
+  const hash = Buffer.from(hashApiKey(presented), 'hex');
+  return keys.find((key) => timingSafeEqual(hash, Buffer.from(key.hash, 'hex')));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUTHENTICATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function readPresentedKey(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, '').trim();
+  }
+  return request.headers.get('x-api-key')?.trim() || null;
+}
+
+function rateLimitHeaders(limit: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(limit.limit),
+    'X-RateLimit-Remaining': String(limit.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(limit.resetAt / 1000))
+  };
+}
+
+/**
+ * Authenticates a request by API key and applies the key's rate limit.
+ *
+ * Errors:
+ * - 500: API_KEYS or API_RATE_LIMIT is malformed (logged)
+ * - 403: the API is disabled (API_KEYS is not set)
+ * - 401: missing or unknown key
+ * - 429: the key's rate limit is exhausted (with Retry-After)
+ *
+ * @param request - Incoming request
+ * @param now - Reference time in ms (default: Date.now())
+ * @returns The key and rate limit headers, or the error response
+ */
+export function authenticateApiKey(request: Request, now: number = Date.now()): ApiKeyAuthResult {
+  let keys: ApiKey[];
+  try {
+    keys = resolveApiKeys();
+  } catch (error) {
+    console.error('[api/v1] Invalid API key configuration:', error instanceof Error ? error.message : error);
+    return {
+      ok: false,
+      response: Response.json(
+        { code: 'INTERNAL_ERROR', message: 'The API is misconfigured' },
+        { status: 500 }
+      )
+    };
+  }
+
+  if (keys.length === 0) {
+    return {
+      ok: false,
+      response: Response.json(
+        { code: 'FORBIDDEN', message: 'The API is disabled (API_KEYS is not set)' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const presented = readPresentedKey(request);
+  const key = presented ? findApiKey(keys, presented) : undefined;
+  if (!key) {
+    return {
+      ok: false,
+      response: Response.json(
+        { code: 'UNAUTHORIZED', message: 'A valid API key is required' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      )
+    };
+  }
+
+  const limit = getRateLimiter().take(key.name, key.rateLimit, now);
+  const headers = rateLimitHeaders(limit);
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      response: Response.json(
+        { code: 'RATE_LIMITED', message: `Rate limit of ${key.rateLimit} requests per minute exceeded` },
+        {
+          status: 429,
+          headers: { ...headers, 'Retry-After': String(Math.max(1, Math.ceil((limit.resetAt - now) / 1000))) }
+        }
+      )
+    };
+  }
+
+  return { ok: true, key, headers };
+}
+
+/**
+ * Wraps a route handler so it only runs for authenticated, rate-limited
+ * requests; the rate limit headers are added to its response.
+ *
+ * @param handler - Route handler, called with the authenticated key
+ * @returns The protected handler
+ */
+export function withApiKey<TContext>(
+  handler: (request: Request, context: TContext, key: ApiKey) => Promise<Response>
+): (request: Request, context: TContext) => Promise<Response> {
+  return async (request, context) => {
+    const auth = authenticateApiKey(request);
+    if (!auth.ok) {
+      return auth.response;
+    }
+
+    const response = await handler(request, context, auth.key);
+    for (const [name, value] of Object.entries(auth.headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Assessment runs for the public v1 API.
+ *
+ * Runs on the pipeline executor (the same runs /api/pipeline/status and
+ * /api/pipeline/cancel see) and returns plain JSON instead of SSE: callers
+ * either wait for the run to settle or poll it by id. Completed results are
+ * saved to the assessment history, so they stay available after the run
+ * itself expires. Runs started with a callback URL also notify it; those
+ * deliveries continue in the background after a waiting request returns.
+ *
+ * Every assessment started through the API belongs to the API key that
+ * started it (`ownerId`, the key name); other keys get the same answer as
+ * for an unknown id. Runs without an owner are the web app's (batches).
+ *
+ * @module api/v1/_lib/assessment-runs
+ */
+
+import type {
+  AnalysisResult,
+  ExecutorHandle,
+  FollowUpQuestion,
+  PipelineEvent,
+  PipelineInput,
+  UserAnswer
+} from '@/lib/pipeline';
+import { getAssessmentStore, type Assessment } from '@/lib/assessments';
+import type { Answer } from '../../pipeline/_lib/validation';
+import { getExecutorManager } from '../../pipeline/_lib/executor-singleton';
+import {
+  createAssessmentRecorder,
+  type AssessmentRecorder
+} from '../../pipeline/_lib/assessment-recorder';
+import {
+  createWebhookNotifier,
+  getWebhookRegistry,
+  type WebhookNotifier
+} from '../../pipeline/_lib/webhooks';
+import type {
+  ApiAssessment,
+  AssessmentList,
+  ListAssessmentsQuery
+} from './schemas';
+
+/**
+ * Results of completed runs whose history save has not finished yet.
+ */
+const unsavedResults = new Map<string, AnalysisResult>();
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toIsoString(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function fromStoredAssessment(assessment: Assessment): ApiAssessment {
+  return {
+    id: assessment.threadId,
+    status: 'completed',
+    stage: null,
+    progress: 100,
+    questions: [],
+    result: assessment.result,
+    errors: [],
+    createdAt: assessment.createdAt,
+    completedAt: assessment.createdAt
+  };
+}
+
+async function loadResult(id: string): Promise<AnalysisResult | null> {
+  const unsaved = unsavedResults.get(id);
+  if (unsaved) {
+    return unsaved;
+  }
+  const store = await getAssessmentStore();
+  return (await store.get(id))?.result ?? null;
+}
+
+/**
+ * Records the run's result and releases its subscription once it settles.
+ *
+ * @returns Promise resolving when the run has completed, suspended or failed
+ *   and its result is saved
+ */
+function trackRun(
+  handle: ExecutorHandle,
+  unsubscribe: () => void,
+  recorder: AssessmentRecorder,
+  notifier: WebhookNotifier
+): Promise<void> {
+  const manager = getExecutorManager();
+  return handle.result
+    .then(async (result) => {
+      await recorder.flush();
+      notifier.settle(handle.runId, result);
+    })
+    .finally(() => {
+      unsavedResults.delete(handle.runId);
+      unsubscribe();
+      manager.cleanupRun(handle.runId);
+    });
+}
+
+/**
+ * Event observer saving the result of a run and notifying its webhook.
+ */
+function createRunObserver(input?: PipelineInput) {
+  const recorder = createAssessmentRecorder(input);
+  const notifier = createWebhookNotifier();
+  return {
+    recorder,
+    notifier,
+    onEvent: (event: PipelineEvent) => {
+      if (event.type === 'pipeline:complete') {
+        unsavedResults.set(event.result.threadId, event.result);
+      }
+      recorder.observe(event);
+      notifier.observe(event);
+    }
+  };
+}
+
+async function settle(run: Promise<void>, id: string, wait: boolean, ownerId?: string): Promise<ApiAssessment> {
+  if (wait) {
+    await run;
+  } else {
+    run.catch((error) => console.error(`[api/v1] Assessment ${id} failed:`, error));
+  }
+
+  const assessment = await getAssessmentRun(id, ownerId);
+  if (!assessment) {
+    throw new Error(`Assessment ${id} not found after starting`);
+  }
+  return assessment;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPERATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Starts an assessment.
+ *
+ * @param input - Problem and options; `ownerId` names the key starting it
+ * @param wait - Wait until the run completes, suspends or fails
+ * @param callbackUrl - Webhook notified when the run settles
+ * @returns The assessment (running unless waited for)
+ */
+export async function createAssessmentRun(
+  input: PipelineInput,
+  wait: boolean = false,
+  callbackUrl?: string
+): Promise<ApiAssessment> {
+  const { recorder, notifier, onEvent } = createRunObserver(input);
+  const { handle, unsubscribe } = await getExecutorManager().startPipeline(input, onEvent);
+  if (callbackUrl) {
+    getWebhookRegistry().register(handle.runId, callbackUrl);
+  }
+  return settle(trackRun(handle, unsubscribe, recorder, notifier), handle.runId, wait, input.ownerId);
+}
+
+/**
+ * Gets an assessment: a live or checkpointed run, or a stored result.
+ *
+ * @param id - Assessment id
+ * @param ownerId - Name of the requesting API key (none for the web app)
+ * @returns The assessment, or null if unknown or owned by someone else
+ */
+export async function getAssessmentRun(id: string, ownerId?: string): Promise<ApiAssessment | null> {
+  const manager = getExecutorManager();
+  const status = await manager.getRunStatus(id);
+
+  if (!status) {
+    const store = await getAssessmentStore();
+    const stored = await store.get(id);
+    return stored && stored.ownerId === ownerId ? fromStoredAssessment(stored) : null;
+  }
+  if (status.ownerId !== ownerId) {
+    return null;
+  }
+
+  return {
+    id,
+    status: status.status,
+    stage: status.status === 'completed' ? null : status.stage,
+    progress: status.progress,
+    questions: status.status === 'suspended' ? (await manager.getPendingQuestions(id)) ?? [] : [],
+    result: status.status === 'completed' ? await loadResult(id) : null,
+    errors: status.errors.map(({ code, message }) => ({ code, message })),
+    createdAt: toIsoString(status.startedAt),
+    completedAt: status.completedAt === undefined ? null : toIsoString(status.completedAt)
+  };
+}
+
+/**
+ * Lists the completed assessments of a key, most recent first.
+ *
+ * @param query - Page to list
+ * @param ownerId - Name of the requesting API key
+ */
+export async function listAssessmentRuns(
+  { limit, offset }: ListAssessmentsQuery,
+  ownerId?: string
+): Promise<AssessmentList> {
+  const store = await getAssessmentStore();
+  const page = await store.page({ ownerId, limit, offset });
+
+  return {
+    assessments: page.assessments.map((summary) => ({
+      id: summary.threadId,
+      title: summary.title,
+      tags: summary.tags,
+      problem: summary.problem,
+      verdict: summary.verdict,
+      confidence: summary.confidence,
+      createdAt: summary.createdAt
+    })),
+    total: page.total,
+    limit,
+    offset
+  };
+}
+
+/**
+ * Answers the pending questions of a suspended assessment and resumes it.
+ *
+ * A completed assessment can also be answered again: new answers to the
+ * questions it answered or assumed revise it, re-running the related
+ * dimensions and everything after them. The revision runs under a new id
+ * and is saved as a new version of the assessment; the previous result is
+ * kept. A completed run that has expired is rebuilt from its stored result
+ * for that.
+ *
+ * @param id - Assessment id (must be suspended or completed)
+ * @param answers - Answers to pending, answered or assumed questions
+ * @param wait - Wait until the run completes, suspends again or fails
+ * @param ownerId - Name of the requesting API key (none for the web app)
+ * @returns The resumed assessment or the new version, or null if the run is
+ *   no longer available
+ */
+export async function answerAssessmentRun(
+  id: string,
+  answers: Answer[],
+  wait: boolean = false,
+  ownerId?: string
+): Promise<ApiAssessment | null> {
+  const manager = getExecutorManager();
+  const status = await manager.getRevisableRunStatus(id);
+  if (!status || status.ownerId !== ownerId) {
+    return null;
+  }
+
+  const questions = new Map<string, Pick<FollowUpQuestion, 'question' | 'source'>>();
+  for (const revisable of (await manager.getRevisableQuestions(id)) ?? []) {
+    questions.set(revisable.questionId, revisable);
+  }
+  for (const question of (await manager.getPendingQuestions(id)) ?? []) {
+    questions.set(question.id, question);
+  }
+
+  const now = Date.now();
+  const userAnswers: UserAnswer[] = answers.map((a) => ({
+    questionId: a.questionId,
+    answer: a.answer,
+    question: a.question ?? questions.get(a.questionId)?.question,
+    source: questions.get(a.questionId)?.source.stage ?? 'screening',
+    timestamp: now
+  }));
+
+  // A completed assessment is revised as a new version of it, under a new id
+  const revising = status.status === 'completed';
+  const stored = revising ? await (await getAssessmentStore()).get(id) : null;
+  const input = stored?.input && { ...stored.input, parentThreadId: id };
+
+  const { recorder, notifier, onEvent } = createRunObserver(input);
+  const { handle, unsubscribe } = await manager.resumePipeline(
+    { runId: id, answers: userAnswers, ...(revising && { revisionId: crypto.randomUUID() }) },
+    onEvent
+  );
+  return settle(trackRun(handle, unsubscribe, recorder, notifier), handle.runId, wait, ownerId);
+}
+
+/**
+ * Cancels a running assessment.
+ *
+ * @param id - Assessment id (must be running)
+ * @param ownerId - Name of the requesting API key (none for the web app)
+ * @returns The cancelled assessment, or null if it could not be cancelled
+ */
+export async function cancelAssessmentRun(id: string, ownerId?: string): Promise<ApiAssessment | null> {
+  const manager = getExecutorManager();
+  const status = await manager.getRunStatus(id);
+  if (!status || status.ownerId !== ownerId || !manager.cancelRun(id)) {
+    return null;
+  }
+  return getAssessmentRun(id, ownerId);
+}
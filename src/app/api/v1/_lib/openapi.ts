@@ -0,0 +1,184 @@
+/**
+ * OpenAPI document for the public v1 API.
+ *
+ * Generated from the Zod schemas the routes validate with and respond with,
+ * so the document cannot drift from the implementation. Served at
+ * `GET /api/v1/openapi.json`.
+ *
+ * @module api/v1/_lib/openapi
+ */
+
+import { z } from 'zod';
+import {
+  AnswerAssessmentRequestSchema,
+  ApiAssessmentSchema,
+  ApiAssessmentSummarySchema,
+  ApiErrorSchema,
+  AssessmentListSchema,
+  CreateAssessmentRequestSchema,
+  ListAssessmentsQuerySchema
+} from './schemas';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+type JsonObject = Record<string, unknown>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * JSON Schema (2020-12, as used by OpenAPI 3.1) of a Zod schema.
+ */
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonObject {
+  const result: JsonObject = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  // The dialect is implied by the OpenAPI version
+  delete result.$schema;
+  return result;
+}
+
+function ref(name: string): JsonObject {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+function jsonContent(schemaName: string): JsonObject {
+  return { 'application/json': { schema: ref(schemaName) } };
+}
+
+function errorResponse(description: string): JsonObject {
+  return { description, content: jsonContent('Error') };
+}
+
+const ID_PARAMETER = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'Assessment id',
+  schema: { type: 'string', format: 'uuid' }
+};
+
+/** Errors every endpoint can return */
+const COMMON_ERRORS = {
+  401: errorResponse('Missing or unknown API key'),
+  403: errorResponse('The API is disabled'),
+  429: errorResponse('Rate limit exceeded; see Retry-After')
+};
+
+function assessmentResponses(waitDescription: string): JsonObject {
+  return {
+    200: { description: waitDescription, content: jsonContent('Assessment') },
+    202: { description: 'Accepted; poll the assessment until it settles', content: jsonContent('Assessment') }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DOCUMENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Builds the OpenAPI 3.1 document of the v1 API.
+ *
+ * @returns OpenAPI document
+ */
+export function buildOpenApiDocument(): JsonObject {
+  const querySchemas = ListAssessmentsQuerySchema.shape;
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AI Suitability Screener API',
+      version: '1.0.0',
+      description:
+        'Submit problems for AI suitability assessment and fetch verdicts. ' +
+        'Create an assessment with `wait: true` to get the result in the response, ' +
+        'or poll `GET /api/v1/assessments/{id}` until its status is no longer `running`.'
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      '/api/v1/assessments': {
+        get: {
+          operationId: 'listAssessments',
+          summary: 'List the completed assessments of the calling key, most recent first',
+          parameters: (['limit', 'offset'] as const).map((name) => ({
+            name,
+            in: 'query',
+            required: false,
+            schema: jsonSchema(querySchemas[name], 'output')
+          })),
+          responses: {
+            200: { description: 'A page of assessments', content: jsonContent('AssessmentList') },
+            400: errorResponse('Invalid query parameters'),
+            ...COMMON_ERRORS
+          }
+        },
+        post: {
+          operationId: 'createAssessment',
+          summary: 'Start an assessment',
+          requestBody: { required: true, content: jsonContent('CreateAssessmentRequest') },
+          responses: {
+            ...assessmentResponses('Settled assessment (when `wait` is true)'),
+            400: errorResponse('Invalid request body'),
+            ...COMMON_ERRORS
+          }
+        }
+      },
+      '/api/v1/assessments/{id}': {
+        get: {
+          operationId: 'getAssessment',
+          summary: 'Get an assessment with its status, pending questions and result',
+          parameters: [ID_PARAMETER],
+          responses: {
+            200: { description: 'The assessment', content: jsonContent('Assessment') },
+            404: errorResponse('Unknown assessment'),
+            ...COMMON_ERRORS
+          }
+        }
+      },
+      '/api/v1/assessments/{id}/answers': {
+        post: {
+          operationId: 'answerAssessment',
+          summary: 'Answer the pending questions of a suspended assessment and resume it',
+          parameters: [ID_PARAMETER],
+          requestBody: { required: true, content: jsonContent('AnswerAssessmentRequest') },
+          responses: {
+            ...assessmentResponses('Settled assessment (when `wait` is true)'),
+            400: errorResponse('Invalid request body or unknown question'),
+            404: errorResponse('Unknown assessment'),
+            409: errorResponse('The assessment is not waiting for answers'),
+            ...COMMON_ERRORS
+          }
+        }
+      },
+      '/api/v1/assessments/{id}/cancel': {
+        post: {
+          operationId: 'cancelAssessment',
+          summary: 'Cancel a running assessment',
+          parameters: [ID_PARAMETER],
+          responses: {
+            200: { description: 'The cancelled assessment', content: jsonContent('Assessment') },
+            404: errorResponse('Unknown assessment'),
+            409: errorResponse('The assessment is not running'),
+            ...COMMON_ERRORS
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      },
+      schemas: {
+        CreateAssessmentRequest: jsonSchema(CreateAssessmentRequestSchema, 'input'),
+        AnswerAssessmentRequest: jsonSchema(AnswerAssessmentRequestSchema, 'input'),
+        Assessment: jsonSchema(ApiAssessmentSchema, 'output'),
+        AssessmentSummary: jsonSchema(ApiAssessmentSummarySchema, 'output'),
+        AssessmentList: jsonSchema(AssessmentListSchema, 'output'),
+        Error: jsonSchema(ApiErrorSchema, 'output')
+      }
+    }
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Per-key rate limiting for the public v1 API.
+ *
+ * A fixed one-minute window per key, kept in process memory: each instance
+ * of the app enforces the limit on its own.
+ *
+ * @module api/v1/_lib/rate-limiter
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Length of a rate limit window (1 minute) */
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outcome of counting a request against a limit.
+ */
+export interface RateLimitResult {
+  /** Whether the request is within the limit */
+  allowed: boolean;
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** When the current window ends (ms) */
+  resetAt: number;
+}
+
+/**
+ * Counts requests per key.
+ */
+export interface RateLimiter {
+  /**
+   * Counts one request for a key.
+   * @param id - Key identifier
+   * @param limit - Requests allowed per window
+   * @param now - Reference time in ms (default: Date.now())
+   */
+  take(id: string, limit: number, now?: number): RateLimitResult;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a fixed-window rate limiter.
+ *
+ * @param windowMs - Window length in ms (default: RATE_LIMIT_WINDOW_MS)
+ * @returns RateLimiter
+ */
+export function createRateLimiter(windowMs: number = RATE_LIMIT_WINDOW_MS): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    take: (id, limit, now = Date.now()) => {
+      let window = windows.get(id);
+      if (!window || now >= window.resetAt) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(id, window);
+      }
+
+      const allowed = window.count < limit;
+      if (allowed) {
+        window.count++;
+      }
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.resetAt
+      };
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SINGLETON INSTANCE
+// ═══════════════════════════════════════════════════════════════════════════
+
+let rateLimiterInstance: RateLimiter | null = null;
+
+/**
+ * Get the rate limiter singleton.
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiterInstance) {
+    rateLimiterInstance = createRateLimiter();
+  }
+  return rateLimiterInstance;
+}
+
+/**
+ * Reset the rate limiter (for testing).
+ */
+export function resetRateLimiter(): void {
+  rateLimiterInstance = null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Request and response schemas for the public v1 API.
+ *
+ * Request schemas validate route input; response schemas describe the JSON
+ * the routes return. Both feed the generated OpenAPI document.
+ *
+ * @module api/v1/_lib/schemas
+ */
+
+import { z } from 'zod';
+import {
+  AnalysisResultSchema,
+  FollowUpQuestionSchema,
+  VerdictSchema
+} from '@/lib/pipeline';
+import { AnswerSchema, StartRequestSchema } from '../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REQUESTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Schema for POST /api/v1/assessments.
+ *
+ * Same input as POST /api/pipeline/start, plus `wait`.
+ */
+export const CreateAssessmentRequestSchema = StartRequestSchema.extend({
+  /** Respond once the run completes or needs answers, instead of immediately */
+  wait: z.boolean().optional()
+}).strict();
+
+export type CreateAssessmentRequest = z.infer<typeof CreateAssessmentRequestSchema>;
+
+/**
+ * Schema for POST /api/v1/assessments/{id}/answers.
+ */
+export const AnswerAssessmentRequestSchema = z.object({
+  /** Answers to pending questions (at least one) */
+  answers: z.array(AnswerSchema).min(1, 'At least one answer is required'),
+  /** Respond once the run completes or needs answers, instead of immediately */
+  wait: z.boolean().optional()
+}).strict();
+
+export type AnswerAssessmentRequest = z.infer<typeof AnswerAssessmentRequestSchema>;
+
+/**
+ * Schema for GET /api/v1/assessments query parameters.
+ */
+export const ListAssessmentsQuerySchema = z.object({
+  /** Page size (1-100, default 20) */
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  /** Assessments to skip (default 0) */
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type ListAssessmentsQuery = z.infer<typeof ListAssessmentsQuerySchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESPONSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Status of an assessment run.
+ */
+export const AssessmentStatusSchema = z.enum([
+  'running',
+  'suspended',
+  'completed',
+  'failed',
+  'cancelled'
+]);
+
+/**
+ * An assessment: a pipeline run and, once completed, its result.
+ */
+export const ApiAssessmentSchema = z.object({
+  /** Assessment id (the run id, also the result's threadId) */
+  id: z.string(),
+  status: AssessmentStatusSchema,
+  /** Current stage while running or suspended */
+  stage: z.enum(['screening', 'dimensions', 'verdict', 'secondary', 'synthesis']).nullable(),
+  /** Progress percentage (0-100) */
+  progress: z.number(),
+  /** Questions to answer before the run can continue (when suspended) */
+  questions: z.array(FollowUpQuestionSchema),
+  /** Full analysis (when completed) */
+  result: AnalysisResultSchema.nullable(),
+  /** Errors encountered, including the fatal one of a failed run */
+  errors: z.array(z.object({ code: z.string(), message: z.string() })),
+  /** When the run started (ISO 8601) */
+  createdAt: z.string(),
+  /** When the run finished (ISO 8601), if it has */
+  completedAt: z.string().nullable()
+});
+
+export type ApiAssessment = z.infer<typeof ApiAssessmentSchema>;
+
+/**
+ * A completed assessment in a list.
+ */
+export const ApiAssessmentSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  tags: z.array(z.string()),
+  problem: z.string(),
+  verdict: VerdictSchema,
+  confidence: z.number(),
+  /** When the assessment completed (ISO 8601) */
+  createdAt: z.string()
+});
+
+export type ApiAssessmentSummary = z.infer<typeof ApiAssessmentSummarySchema>;
+
+/**
+ * Response of GET /api/v1/assessments.
+ */
+export const AssessmentListSchema = z.object({
+  assessments: z.array(ApiAssessmentSummarySchema),
+  /** Total number of completed assessments */
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number()
+});
+
+export type AssessmentList = z.infer<typeof AssessmentListSchema>;
+
+/**
+ * Error response body.
+ */
+export const ApiErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  /** Validation messages per field (VALIDATION_ERROR only) */
+  details: z.record(z.string(), z.array(z.string())).optional()
+});
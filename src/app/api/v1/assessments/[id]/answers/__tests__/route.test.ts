@@ -0,0 +1,168 @@
+/**
+ * Tests for POST /api/v1/assessments/:id/answers
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { POST } from '../route';
+import { hashApiKey } from '../../../../_lib/api-keys';
+import { resetRateLimiter } from '../../../../_lib/rate-limiter';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockGetAssessmentRun = vi.fn();
+const mockAnswerAssessmentRun = vi.fn();
+
+vi.mock('../../../../_lib/assessment-runs', () => ({
+  getAssessmentRun: (...args: unknown[]) => mockGetAssessmentRun(...args),
+  answerAssessmentRun: (...args: unknown[]) => mockAnswerAssessmentRun(...args)
+}));
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const API_KEY = 'sk-test-key';
+const validUUID = '123e4567-e89b-12d3-a456-426614174000';
+
+const suspendedAssessment = {
+  id: validUUID,
+  status: 'suspended',
+  stage: 'screening',
+  progress: 10,
+  questions: [
+    {
+      id: 'q1',
+      question: 'How many requests per day?',
+      rationale: 'Affects cost',
+      priority: 'blocking',
+      source: { stage: 'screening' }
+    }
+  ],
+  result: null,
+  errors: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  completedAt: null
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createRequest(body: unknown): Request {
+  return new Request(`http://localhost:3000/api/v1/assessments/${validUUID}/answers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-API-Key': API_KEY },
+    body: JSON.stringify(body)
+  });
+}
+
+const context = { params: Promise.resolve({ id: validUUID }) };
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('POST /api/v1/assessments/:id/answers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRateLimiter();
+    vi.stubEnv('API_KEYS', `tests:${hashApiKey(API_KEY)}`);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('resumes a suspended assessment with the answers', async () => {
+    mockGetAssessmentRun.mockResolvedValue(suspendedAssessment);
+    mockAnswerAssessmentRun.mockResolvedValue({ ...suspendedAssessment, status: 'running', questions: [] });
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q1', answer: '1000' }] }), context);
+
+    expect(response.status).toBe(202);
+    expect(mockAnswerAssessmentRun).toHaveBeenCalledWith(
+      validUUID,
+      [{ questionId: 'q1', answer: '1000' }],
+      false,
+      'tests'
+    );
+  });
+
+  it('returns 404 for an unknown assessment', async () => {
+    mockGetAssessmentRun.mockResolvedValue(null);
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q1', answer: '1000' }] }), context);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 409 when the assessment is not suspended', async () => {
+    mockGetAssessmentRun.mockResolvedValue({ ...suspendedAssessment, status: 'completed', questions: [] });
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q1', answer: '1000' }] }), context);
+
+    expect(response.status).toBe(409);
+    expect(mockAnswerAssessmentRun).not.toHaveBeenCalled();
+  });
+
+  it('re-analyses a completed assessment when an assumption is answered', async () => {
+    mockGetAssessmentRun.mockResolvedValue({
+      ...suspendedAssessment,
+      status: 'completed',
+      questions: [],
+      result: {
+        appliedAssumptions: [
+          {
+            questionId: 'q1',
+            question: 'How many requests per day?',
+            assumption: 'About 1000',
+            source: { stage: 'screening' },
+            appliedAt: 1
+          }
+        ]
+      }
+    });
+    mockAnswerAssessmentRun.mockResolvedValue({ ...suspendedAssessment, status: 'running', questions: [] });
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q1', answer: '50' }] }), context);
+
+    expect(response.status).toBe(202);
+    expect(mockAnswerAssessmentRun).toHaveBeenCalledWith(validUUID, [{ questionId: 'q1', answer: '50' }], false, 'tests');
+  });
+
+  it('returns 409 when the run of a completed assessment has expired', async () => {
+    mockGetAssessmentRun.mockResolvedValue({
+      ...suspendedAssessment,
+      status: 'completed',
+      questions: [],
+      result: {
+        appliedAssumptions: [
+          { questionId: 'q1', question: 'q', assumption: 'a', source: { stage: 'screening' }, appliedAt: 1 }
+        ]
+      }
+    });
+    mockAnswerAssessmentRun.mockResolvedValue(null);
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q1', answer: '50' }] }), context);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('returns 400 for answers to questions that are not pending', async () => {
+    mockGetAssessmentRun.mockResolvedValue(suspendedAssessment);
+
+    const response = await POST(createRequest({ answers: [{ questionId: 'q9', answer: 'x' }] }), context);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details.answers).toEqual(['Question q9 is not pending or answered']);
+  });
+
+  it('returns 400 without answers', async () => {
+    const response = await POST(createRequest({ answers: [] }), context);
+
+    expect(response.status).toBe(400);
+    expect(mockGetAssessmentRun).not.toHaveBeenCalled();
+  });
+});
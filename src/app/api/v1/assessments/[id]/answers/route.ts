@@ -0,0 +1,125 @@
+/**
+ * Public API: Answer Assessment Questions
+ *
+ * POST /api/v1/assessments/:id/answers
+ *
+ * Answers the pending questions of a suspended assessment and resumes it.
+ * A completed assessment accepts new answers to the questions it answered
+ * or assumed (see `questionPolicy`) and is revised: the related dimensions,
+ * verdict, secondary analyses and synthesis re-run. The revision is a new
+ * version of the assessment with its own id, which the response carries;
+ * the previous result is kept.
+ *
+ * Request body:
+ * {
+ *   "answers": [{ "questionId": "string", "answer": "string" }],
+ *   "wait": boolean (optional, default false)
+ * }
+ *
+ * Responds 202 with the running assessment, or with `wait: true`, 200 once
+ * it has completed, suspended again or failed.
+ *
+ * Error cases:
+ * - 400: Invalid body, or an answer to a question that is not pending (or,
+ *   for a completed assessment, neither answered nor assumed)
+ * - 401 / 403 / 429: see /api/v1/assessments
+ * - 404: Unknown assessment
+ * - 409: The assessment is not waiting for answers, or its run has expired
+ *
+ * @module api/v1/assessments/[id]/answers
+ */
+
+import { withApiKey, type ApiKey } from '../../../_lib/api-keys';
+import { answerAssessmentRun, getAssessmentRun } from '../../../_lib/assessment-runs';
+import { AnswerAssessmentRequestSchema } from '../../../_lib/schemas';
+import {
+  conflictResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse
+} from '../../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Answer pending questions (or revise answers) and resume the assessment.
+ */
+export const POST = withApiKey(async (request: Request, { params }: RouteContext, key: ApiKey): Promise<Response> => {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = AnswerAssessmentRequestSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  try {
+    const current = await getAssessmentRun(id, key.name);
+    if (!current) {
+      return notFoundResponse(`Assessment ${id} not found`);
+    }
+    const answerable = new Set(
+      current.status === 'completed'
+        ? [
+            ...(current.result?.answeredQuestions ?? []),
+            ...(current.result?.appliedAssumptions ?? [])
+          ].map((a) => a.questionId)
+        : current.questions.map((q) => q.id)
+    );
+    if (current.status !== 'suspended' && answerable.size === 0) {
+      return conflictResponse(
+        `Assessment ${id} is not waiting for answers (current status: ${current.status})`
+      );
+    }
+
+    const unknown = validated.data.answers
+      .map((a) => a.questionId)
+      .filter((questionId) => !answerable.has(questionId));
+    if (unknown.length > 0) {
+      return Response.json(
+        {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: { answers: unknown.map((questionId) => `Question ${questionId} is not pending or answered`) }
+        },
+        { status: 400 }
+      );
+    }
+
+    const { answers, wait = false } = validated.data;
+    const assessment = await answerAssessmentRun(id, answers, wait, key.name);
+    if (!assessment) {
+      return conflictResponse(`Assessment ${id} can no longer be resumed`);
+    }
+    return Response.json(assessment, { status: wait ? 200 : 202 });
+  } catch (error) {
+    console.error('[/api/v1/assessments] Failed to resume assessment:', error);
+    return serverErrorResponse();
+  }
+});
@@ -0,0 +1,67 @@
+/**
+ * Public API: Cancel Assessment
+ *
+ * POST /api/v1/assessments/:id/cancel
+ *
+ * Cancels a running assessment and returns it.
+ *
+ * Error cases:
+ * - 401 / 403 / 429: see /api/v1/assessments
+ * - 404: Unknown assessment
+ * - 409: The assessment is not running
+ *
+ * @module api/v1/assessments/[id]/cancel
+ */
+
+import { withApiKey, type ApiKey } from '../../../_lib/api-keys';
+import { cancelAssessmentRun, getAssessmentRun } from '../../../_lib/assessment-runs';
+import {
+  conflictResponse,
+  notFoundResponse,
+  serverErrorResponse
+} from '../../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cancel a running assessment.
+ */
+export const POST = withApiKey(async (_request: Request, { params }: RouteContext, key: ApiKey): Promise<Response> => {
+  const { id } = await params;
+
+  try {
+    const current = await getAssessmentRun(id, key.name);
+    if (!current) {
+      return notFoundResponse(`Assessment ${id} not found`);
+    }
+    if (current.status !== 'running') {
+      return conflictResponse(`Assessment ${id} is not running (current status: ${current.status})`);
+    }
+
+    const assessment = await cancelAssessmentRun(id, key.name);
+    if (!assessment) {
+      return conflictResponse(`Failed to cancel assessment ${id}`);
+    }
+    return Response.json(assessment);
+  } catch (error) {
+    console.error('[/api/v1/assessments] Failed to cancel assessment:', error);
+    return serverErrorResponse();
+  }
+});
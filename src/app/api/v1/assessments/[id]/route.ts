@@ -0,0 +1,60 @@
+/**
+ * Public API: Single Assessment
+ *
+ * GET /api/v1/assessments/:id
+ *
+ * Gets an assessment: its status (`running`, `suspended`, `completed`,
+ * `failed` or `cancelled`), the questions to answer while suspended and the
+ * full `AnalysisResult` once completed. Poll this after starting an
+ * assessment without `wait`.
+ *
+ * Error cases:
+ * - 401 / 403 / 429: see /api/v1/assessments
+ * - 404: Unknown assessment
+ *
+ * @module api/v1/assessments/[id]
+ */
+
+import { withApiKey, type ApiKey } from '../../_lib/api-keys';
+import { getAssessmentRun } from '../../_lib/assessment-runs';
+import { notFoundResponse, serverErrorResponse } from '../../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get an assessment.
+ */
+export const GET = withApiKey(async (_request: Request, { params }: RouteContext, key: ApiKey): Promise<Response> => {
+  const { id } = await params;
+
+  try {
+    const assessment = await getAssessmentRun(id, key.name);
+    if (!assessment) {
+      return notFoundResponse(`Assessment ${id} not found`);
+    }
+
+    return Response.json(assessment, {
+      headers: { 'Cache-Control': 'no-store, max-age=0' }
+    });
+  } catch (error) {
+    console.error('[/api/v1/assessments] Failed to load assessment:', error);
+    return serverErrorResponse();
+  }
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for GET and POST /api/v1/assessments
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GET, POST } from '../route';
+import { hashApiKey } from '../../_lib/api-keys';
+import { resetRateLimiter } from '../../_lib/rate-limiter';
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockCreateAssessmentRun = vi.fn();
+const mockListAssessmentRuns = vi.fn();
+
+vi.mock('../../_lib/assessment-runs', () => ({
+  createAssessmentRun: (...args: unknown[]) => mockCreateAssessmentRun(...args),
+  listAssessmentRuns: (...args: unknown[]) => mockListAssessmentRuns(...args)
+}));
+
+vi.mock('../../../pipeline/_lib/run-sweeper', () => ({
+  startRunSweeper: vi.fn()
+}));
+
+// ============================================================================
+// TEST FIXTURES
+// ============================================================================
+
+const API_KEY = 'sk-test-key';
+const validUUID = '123e4567-e89b-12d3-a456-426614174000';
+
+const runningAssessment = {
+  id: validUUID,
+  status: 'running',
+  stage: 'screening',
+  progress: 0,
+  questions: [],
+  result: null,
+  errors: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  completedAt: null
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createPostRequest(body: unknown, key: string | null = API_KEY): Request {
+  return new Request('http://localhost:3000/api/v1/assessments', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(key && { Authorization: `Bearer ${key}` })
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  });
+}
+
+function createGetRequest(query = ''): Request {
+  return new Request(`http://localhost:3000/api/v1/assessments${query}`, {
+    headers: { 'X-API-Key': API_KEY }
+  });
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('/api/v1/assessments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetRateLimiter();
+    vi.stubEnv('API_KEYS', `tests:${hashApiKey(API_KEY)}`);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('authentication', () => {
+    it('returns 401 without an API key', async () => {
+      const response = await POST(createPostRequest({ problem: 'A valid problem description' }, null), {});
+
+      expect(response.status).toBe(401);
+      expect(mockCreateAssessmentRun).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when no keys are configured', async () => {
+      vi.stubEnv('API_KEYS', '');
+
+      const response = await GET(createGetRequest(), {});
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST', () => {
+    it('starts an assessment and returns 202 with its location', async () => {
+      mockCreateAssessmentRun.mockResolvedValue(runningAssessment);
+
+      const response = await POST(createPostRequest({ problem: 'A valid problem description' }), {});
+
+      expect(response.status).toBe(202);
+      expect(response.headers.get('Location')).toBe(`/api/v1/assessments/${validUUID}`);
+      expect(response.headers.get('X-RateLimit-Limit')).toBe('60');
+      expect(await response.json()).toEqual(runningAssessment);
+      expect(mockCreateAssessmentRun).toHaveBeenCalledWith(
+        { problem: 'A valid problem description', ownerId: 'tests' },
+        false,
+        undefined
+      );
+    });
+
+    it('returns 200 with the settled assessment when waiting', async () => {
+      mockCreateAssessmentRun.mockResolvedValue({ ...runningAssessment, status: 'completed' });
+
+      const response = await POST(
+        createPostRequest({ problem: 'A valid problem description', verdictMode: 'rules', wait: true }),
+        {}
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockCreateAssessmentRun).toHaveBeenCalledWith(
+        { problem: 'A valid problem description', verdictMode: 'rules', ownerId: 'tests' },
+        true,
+        undefined
+      );
+    });
+
+    it('passes a callback URL only when webhooks are enabled', async () => {
+      const callbackUrl = 'https://hooks.example.com/assessments';
+      mockCreateAssessmentRun.mockResolvedValue(runningAssessment);
+
+      const disabled = await POST(createPostRequest({ problem: 'A valid problem description', callbackUrl }), {});
+      vi.stubEnv('WEBHOOK_SECRET', 'whsec-test-secret');
+      const enabled = await POST(createPostRequest({ problem: 'A valid problem description', callbackUrl }), {});
+
+      expect(disabled.status).toBe(400);
+      expect(enabled.status).toBe(202);
+      expect(mockCreateAssessmentRun).toHaveBeenCalledTimes(1);
+      expect(mockCreateAssessmentRun).toHaveBeenCalledWith(
+        { problem: 'A valid problem description', ownerId: 'tests' },
+        false,
+        callbackUrl
+      );
+    });
+
+    it('does not let the request body choose the owner', async () => {
+      const response = await POST(
+        createPostRequest({ problem: 'A valid problem description', ownerId: 'someone-else' }),
+        {}
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockCreateAssessmentRun).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for invalid input', async () => {
+      const invalidJson = await POST(createPostRequest('{ nope'), {});
+      const invalidBody = await POST(createPostRequest({ problem: 'short' }), {});
+
+      expect(invalidJson.status).toBe(400);
+      expect((await invalidJson.json()).code).toBe('INVALID_JSON');
+      expect(invalidBody.status).toBe(400);
+      expect((await invalidBody.json()).code).toBe('VALIDATION_ERROR');
+    });
+
+    it('returns 500 when the assessment cannot start', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockCreateAssessmentRun.mockRejectedValue(new Error('boom'));
+
+      const response = await POST(createPostRequest({ problem: 'A valid problem description' }), {});
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET', () => {
+    it('lists assessments with pagination', async () => {
+      const page = { assessments: [], total: 0, limit: 5, offset: 10 };
+      mockListAssessmentRuns.mockResolvedValue(page);
+
+      const response = await GET(createGetRequest('?limit=5&offset=10'), {});
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(page);
+      expect(mockListAssessmentRuns).toHaveBeenCalledWith({ limit: 5, offset: 10 }, 'tests');
+    });
+
+    it('returns 400 for an invalid limit', async () => {
+      const response = await GET(createGetRequest('?limit=500'), {});
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
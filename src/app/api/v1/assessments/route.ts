@@ -0,0 +1,123 @@
+/**
+ * Public API: Assessments
+ *
+ * GET /api/v1/assessments?limit=20&offset=0
+ *   Lists the calling key's completed assessments, most recent first.
+ *
+ * POST /api/v1/assessments
+ *   Starts an assessment. Body: the /api/pipeline/start input plus an
+ *   optional `wait` flag:
+ *   {
+ *     "problem": "string (10-5000 chars)",
+ *     "context": "string (optional)",
+ *     "verdictMode": "ai" | "compare" | "rules" (optional),
+ *     "usage": { ... } (optional),
+ *     "industry": "string (optional)",
+ *     "callbackUrl": "string (optional) - webhook, see /api/pipeline/start",
+ *     "questionPolicy": "ask" | "assume" | "ask-with-timeout" (optional),
+ *     "questionTimeoutMs": number (optional),
+ *     "parentThreadId": "uuid (optional) - assessment this one re-runs",
+ *     "sampling": { "samples": 1-9, "temperatures"?: number[] } (optional),
+ *     "wait": boolean (optional, default false)
+ *   }
+ *   Responds 202 with the running assessment (poll its Location, or wait
+ *   for the webhook), or with `wait: true`, 200 once it has completed,
+ *   suspended for answers or failed.
+ *
+ * Authentication: `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ * (see API_KEYS). Spec: GET /api/v1/openapi.json.
+ *
+ * Error cases:
+ * - 400: Invalid body or query parameters, or a callbackUrl while webhooks
+ *   are disabled
+ * - 401: Missing or unknown API key
+ * - 403: The API is disabled (API_KEYS is not set)
+ * - 429: Rate limit exceeded
+ * - 500: API_KEYS is malformed
+ *
+ * @module api/v1/assessments
+ */
+
+import { withApiKey, type ApiKey } from '../_lib/api-keys';
+import { createAssessmentRun, listAssessmentRuns } from '../_lib/assessment-runs';
+import { CreateAssessmentRequestSchema, ListAssessmentsQuerySchema } from '../_lib/schemas';
+import { startRunSweeper } from '../../pipeline/_lib/run-sweeper';
+import { resolveWebhookSecret } from '../../pipeline/_lib/webhooks';
+import {
+  serverErrorResponse,
+  validationErrorResponse,
+  webhooksDisabledResponse
+} from '../../pipeline/_lib/validation';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List the completed assessments of the calling key.
+ */
+export const GET = withApiKey(async (request: Request, _context: unknown, key: ApiKey): Promise<Response> => {
+  const { searchParams } = new URL(request.url);
+  const validated = ListAssessmentsQuerySchema.safeParse({
+    limit: searchParams.get('limit') ?? undefined,
+    offset: searchParams.get('offset') ?? undefined
+  });
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  try {
+    return Response.json(await listAssessmentRuns(validated.data, key.name), {
+      headers: { 'Cache-Control': 'no-store, max-age=0' }
+    });
+  } catch (error) {
+    console.error('[/api/v1/assessments] Failed to list assessments:', error);
+    return serverErrorResponse();
+  }
+});
+
+/**
+ * Start an assessment.
+ */
+export const POST = withApiKey(async (request: Request, _context: unknown, key: ApiKey): Promise<Response> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { code: 'INVALID_JSON', message: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  const validated = CreateAssessmentRequestSchema.safeParse(body);
+  if (!validated.success) {
+    return validationErrorResponse(validated.error);
+  }
+
+  const { wait = false, callbackUrl, ...input } = validated.data;
+  if (callbackUrl && !resolveWebhookSecret()) {
+    return webhooksDisabledResponse();
+  }
+
+  // Expire abandoned runs in the background
+  startRunSweeper();
+
+  try {
+    const assessment = await createAssessmentRun({ ...input, ownerId: key.name }, wait, callbackUrl);
+    return Response.json(assessment, {
+      status: wait ? 200 : 202,
+      headers: { Location: `/api/v1/assessments/${assessment.id}` }
+    });
+  } catch (error) {
+    console.error('[/api/v1/assessments] Failed to run assessment:', error);
+    return serverErrorResponse();
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * Public API: OpenAPI Document
+ *
+ * GET /api/v1/openapi.json
+ *
+ * The OpenAPI 3.1 description of the v1 API, generated from its Zod
+ * schemas. Public: no API key required.
+ *
+ * @module api/v1/openapi.json
+ */
+
+import { buildOpenApiDocument } from '../_lib/openapi';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUNTIME CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const runtime = 'nodejs';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ROUTE HANDLER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get the OpenAPI document.
+ */
+export async function GET(): Promise<Response> {
+  return Response.json(buildOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' }
+  });
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RotateCcw, AlertCircle, Sparkles, ArrowUp } from 'lucide-react';
+import { RotateCcw, AlertCircle, Sparkles, ArrowUp, GitBranch } from 'lucide-react';
 import { usePipeline } from '@/hooks/use-pipeline';
 import {
   useAnnounce,
@@ -11,11 +11,19 @@ import {
 } from '@/lib/accessibility';
 import type { PipelinePhase } from '@/hooks/use-pipeline';
 import type { Answer } from '@/app/api/pipeline/_lib/validation';
+import type { IndustryPresetId, UsageProfile } from '@/lib/pipeline/types';
+import type { Assessment } from '@/lib/assessments/types';
+import { evaluationFromAnalysisResult } from '@/lib/pdf/utils';
+import { compareAssessments, type ComparisonResult } from '@/lib/pipeline/comparison';
 import {
   ProblemIntake,
   VerdictDisplay,
   VerdictSkeleton,
   PDFExportButton,
+  AssessmentHistory,
+  AssessmentComparison,
+  AssessmentVersions,
+  BatchAssessment,
   Button,
   Card,
   Container,
@@ -29,6 +37,8 @@ import {
   DimensionProgress,
   PipelineQuestions,
   PipelineResults,
+  AnswerRevision,
+  ReasoningStream,
 } from '@/components/pipeline';
 
 // ============================================================================
@@ -181,6 +191,16 @@ function isAnalysisPhase(phase: PipelinePhase): boolean {
 export default function Home() {
   // Local state for problem input (not managed by usePipeline)
   const [problem, setProblem] = useState('');
+  // Optional expected usage for the cost estimate
+  const [usage, setUsage] = useState<UsageProfile | null>(null);
+  // Optional industry preset for the dimension rubrics
+  const [industry, setIndustry] = useState<IndustryPresetId | undefined>(undefined);
+  // Analyses per dimension, majority-voted when more than one
+  const [samples, setSamples] = useState(1);
+  // Side-by-side comparison of past assessments, shown instead of the intake
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
+  // Assessment the next run re-runs, stored as its next version
+  const [parentThreadId, setParentThreadId] = useState<string | undefined>(undefined);
 
   // Pipeline hook for streaming analysis
   const {
@@ -189,6 +209,7 @@ export default function Home() {
     startPipeline,
     resumePipeline,
     reset,
+    loadResult,
     isLoading,
     isSuspended,
     isComplete,
@@ -238,7 +259,12 @@ export default function Home() {
   // Handle problem submission
   const handleSubmit = async () => {
     if (problem.trim()) {
-      await startPipeline(problem);
+      await startPipeline(problem, undefined, {
+        usage: usage ?? undefined,
+        industry,
+        parentThreadId,
+        ...(samples > 1 && { sampling: { samples } }),
+      });
     }
   };
 
@@ -251,42 +277,38 @@ export default function Home() {
   const handleReset = () => {
     reset();
     setProblem('');
+    setUsage(null);
+    setIndustry(undefined);
+    setSamples(1);
+    setParentThreadId(undefined);
+  };
+
+  // Edit the problem and run it again as a new version of this assessment
+  const handleRerun = () => {
+    if (!state.result) return;
+    const { threadId } = state.result;
+    reset();
+    setParentThreadId(threadId);
+  };
+
+  // Reopen a past assessment from the history panel
+  const handleOpenAssessment = (assessment: Assessment) => {
+    loadResult(assessment.result);
+    setProblem(assessment.result.problem);
+    setUsage(null);
+    setIndustry(assessment.result.industry);
+    setParentThreadId(undefined);
+  };
+
+  // Compare assessments selected in the history panel
+  const handleCompareAssessments = (assessments: Assessment[]) => {
+    setComparison(
+      compareAssessments(assessments.map((a) => ({ label: a.title, result: a.result })))
+    );
   };
 
   // Build evaluation-compatible object for PDF export (adapter for legacy format)
-  const evaluationForExport = state.result
-    ? {
-        verdict: state.result.verdict,
-        confidence: state.result.confidence,
-        summary: state.result.summary,
-        dimensions: state.result.dimensions.map((d) => ({
-          id: d.id,
-          name: d.name,
-          score: d.score,
-          reasoning: d.reasoning,
-          evidence: d.evidence,
-          weight: d.weight,
-        })),
-        // Transform keyFactors to legacy favorableFactors format
-        // keyFactors use influence: 'strongly_positive' | 'positive' | 'neutral' | 'negative' | 'strongly_negative'
-        favorableFactors: state.result.keyFactors
-          .filter((f) => f.influence === 'positive' || f.influence === 'strongly_positive')
-          .map((f) => ({
-            factor: f.dimensionId.replace(/_/g, ' '),
-            explanation: f.note,
-          })),
-        riskFactors: state.result.risks.map((r) => ({
-          risk: r.risk,
-          severity: r.severity,
-          mitigation: r.mitigation,
-        })),
-        alternatives: state.result.alternatives,
-        // Convert null to undefined for legacy type compatibility
-        recommendedArchitecture: state.result.architecture ?? undefined,
-        questionsBeforeBuilding: state.result.questionsBeforeBuilding,
-        reasoning: state.result.reasoning,
-      }
-    : null;
+  const evaluationForExport = state.result ? evaluationFromAnalysisResult(state.result) : null;
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -330,8 +352,21 @@ export default function Home() {
 
           {/* Phase Content */}
           <AnimatePresence mode="wait">
+            {/* Idle Phase (Comparison) */}
+            {phase === 'idle' && comparison && (
+              <motion.div
+                key="comparison"
+                variants={pageVariants}
+                initial="initial"
+                animate="animate"
+                exit="exit"
+              >
+                <AssessmentComparison comparison={comparison} onClose={() => setComparison(null)} />
+              </motion.div>
+            )}
+
             {/* Idle Phase (Intake) */}
-            {phase === 'idle' && (
+            {phase === 'idle' && !comparison && (
               <motion.div
                 key="idle"
                 variants={pageVariants}
@@ -340,12 +375,36 @@ export default function Home() {
                 exit="exit"
                 className="pt-8 sm:pt-16"
               >
+                {parentThreadId && (
+                  <div className="max-w-3xl mx-auto mb-4 flex flex-wrap items-center justify-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                    <GitBranch className="w-4 h-4" />
+                    <span>This run will be saved as a new version of the previous assessment.</span>
+                    <Button variant="ghost" size="sm" onClick={() => setParentThreadId(undefined)}>
+                      Start a new problem instead
+                    </Button>
+                  </div>
+                )}
                 <ProblemIntake
                   value={problem}
                   onChange={setProblem}
                   onSubmit={handleSubmit}
                   isLoading={false}
+                  usage={usage}
+                  onUsageChange={setUsage}
+                  industry={industry}
+                  onIndustryChange={setIndustry}
+                  samples={samples}
+                  onSamplesChange={setSamples}
                 />
+                <div className="max-w-3xl mx-auto mt-10">
+                  <AssessmentHistory
+                    onOpen={handleOpenAssessment}
+                    onCompare={handleCompareAssessments}
+                  />
+                  <div className="mt-6">
+                    <BatchAssessment />
+                  </div>
+                </div>
               </motion.div>
             )}
 
@@ -474,6 +533,20 @@ export default function Home() {
                       <VerdictSkeleton />
                     </motion.div>
                   )}
+
+                  {/* Verdict reasoning as it is written */}
+                  {!state.verdict && phase === 'verdict' && state.verdictReasoning && (
+                    <motion.div variants={staggerItemVariants}>
+                      <ReasoningStream stage="verdict" text={state.verdictReasoning} />
+                    </motion.div>
+                  )}
+
+                  {/* Final narrative as it is written */}
+                  {phase === 'synthesis' && state.reasoning && (
+                    <motion.div variants={staggerItemVariants}>
+                      <ReasoningStream stage="synthesis" text={state.reasoning} />
+                    </motion.div>
+                  )}
                 </motion.div>
               </motion.div>
             )}
@@ -520,6 +593,12 @@ export default function Home() {
                   {/* Pipeline Results */}
                   <PipelineResults result={state.result} isStreaming={false} />
 
+                  {/* Revise an answer */}
+                  <AnswerRevision runId={state.result.threadId} onRevised={loadResult} />
+
+                  {/* Earlier and later runs of the same problem */}
+                  <AssessmentVersions threadId={state.result.threadId} onOpen={handleOpenAssessment} />
+
                   {/* Action Buttons */}
                   <ScrollReveal direction="up" delay={0.35}>
                     <div className="flex flex-col sm:flex-row items-center justify-center gap-3 pt-4">
@@ -527,8 +606,17 @@ export default function Home() {
                         <PDFExportButton
                           problem={problem}
                           evaluation={evaluationForExport}
+                          costEstimate={state.result?.costEstimate}
                         />
                       )}
+                      <Button
+                        variant="secondary"
+                        size="lg"
+                        onClick={handleRerun}
+                        leftIcon={<GitBranch className="w-4 h-4" />}
+                      >
+                        Re-run as New Version
+                      </Button>
                       <Button
                         variant="secondary"
                         size="lg"
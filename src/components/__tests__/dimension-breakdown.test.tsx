@@ -69,6 +69,20 @@ describe('DimensionBreakdown', () => {
       expect(screen.getByText('1 neutral')).toBeInTheDocument()
       expect(screen.getByText('1 unfavorable')).toBeInTheDocument()
     })
+
+    it('tags custom dimensions and counts them in the header', () => {
+      const customDimension = {
+        id: 'data_residency',
+        name: 'Data Residency',
+        score: 'neutral' as DimensionScore,
+        reasoning: 'Regional hosting is available for some models.',
+        evidence: [],
+        weight: 0.5,
+      }
+      render(<DimensionBreakdown dimensions={[...allDimensions, customDimension]} />)
+      expect(screen.getByText('8 dimensions analyzed (1 custom)')).toBeInTheDocument()
+      expect(screen.getAllByText('Custom')).toHaveLength(1)
+    })
   })
 
   describe('expand/collapse behavior', () => {
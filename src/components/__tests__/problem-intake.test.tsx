@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { ProblemIntake } from '../problem-intake'
+import { ProblemIntake, DEFAULT_USAGE_PROFILE } from '../problem-intake'
 
 // ============================================================================
 // TEST SETUP
@@ -209,4 +209,56 @@ describe('ProblemIntake', () => {
       expect(onChange).toHaveBeenCalled()
     })
   })
+
+  describe('usage section', () => {
+    it('is hidden unless onUsageChange is provided', () => {
+      renderProblemIntake()
+
+      expect(screen.queryByRole('button', { name: /estimate operating cost/i })).not.toBeInTheDocument()
+    })
+
+    it('enables default usage when toggled on', async () => {
+      const onUsageChange = vi.fn()
+      renderProblemIntake({ onUsageChange })
+
+      await userEvent.click(screen.getByRole('button', { name: /estimate operating cost/i }))
+
+      expect(onUsageChange).toHaveBeenCalledWith(DEFAULT_USAGE_PROFILE)
+    })
+
+    it('reports edited values and converts the review percentage', () => {
+      const onUsageChange = vi.fn()
+      renderProblemIntake({ usage: DEFAULT_USAGE_PROFILE, onUsageChange })
+
+      fireEvent.change(screen.getByLabelText(/requests per day/i), { target: { value: '2000' } })
+      expect(onUsageChange).toHaveBeenLastCalledWith({ ...DEFAULT_USAGE_PROFILE, requestsPerDay: 2000 })
+
+      fireEvent.change(screen.getByLabelText(/reviewed by a human/i), { target: { value: '25' } })
+      expect(onUsageChange).toHaveBeenLastCalledWith({ ...DEFAULT_USAGE_PROFILE, reviewRate: 0.25 })
+    })
+
+    it('clears usage when skipped', async () => {
+      const onUsageChange = vi.fn()
+      renderProblemIntake({ usage: DEFAULT_USAGE_PROFILE, onUsageChange })
+
+      await userEvent.click(screen.getByRole('button', { name: /skip cost estimate/i }))
+
+      expect(onUsageChange).toHaveBeenCalledWith(null)
+    })
+  })
+
+  describe('industry preset', () => {
+    it('reports the selected preset and clears it for General', () => {
+      const onIndustryChange = vi.fn()
+      renderProblemIntake({ industry: 'legal', onIndustryChange })
+
+      expect(screen.getByText(/contracts, compliance/i)).toBeInTheDocument()
+
+      fireEvent.change(screen.getByLabelText(/industry/i), { target: { value: 'healthcare' } })
+      expect(onIndustryChange).toHaveBeenLastCalledWith('healthcare')
+
+      fireEvent.change(screen.getByLabelText(/industry/i), { target: { value: '' } })
+      expect(onIndustryChange).toHaveBeenLastCalledWith(undefined)
+    })
+  })
 })
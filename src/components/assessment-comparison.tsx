@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trophy, Download, Loader2, AlertTriangle, Scale } from 'lucide-react';
+import { Card } from './ui/card';
+import { Badge, VerdictBadge, ScoreBadge } from './ui/badge';
+import { Button } from './ui/button';
+import type { ComparisonEntry, ComparisonResult } from '@/lib/pipeline/comparison';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AssessmentComparisonProps {
+  /** Ranked comparison to display */
+  comparison: ComparisonResult;
+  /** Called when the user leaves comparison mode */
+  onClose: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const LEVEL_VARIANT = {
+  low: 'success',
+  medium: 'warning',
+  high: 'error',
+} as const;
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'sm:grid-cols-2',
+  3: 'sm:grid-cols-2 lg:grid-cols-3',
+  4: 'sm:grid-cols-2 lg:grid-cols-4',
+};
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// ============================================================================
+// PDF EXPORT
+// ============================================================================
+
+function ComparisonExportButton({ comparison }: { comparison: ComparisonResult }) {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = useCallback(async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      // Dynamic import to avoid loading PDF lib until needed
+      const { downloadComparisonPDF } = await import('@/lib/pdf');
+      await downloadComparisonPDF({ comparison });
+    } catch (err) {
+      console.error('PDF generation failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate PDF');
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [comparison]);
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={handleExport}
+        disabled={isGenerating}
+        leftIcon={
+          isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />
+        }
+      >
+        {isGenerating ? 'Generating...' : 'Export combined PDF'}
+      </Button>
+      {error && (
+        <p role="alert" className="text-xs text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// ENTRY COLUMN
+// ============================================================================
+
+function EntryColumn({ entry, isRecommended }: { entry: ComparisonEntry; isRecommended: boolean }) {
+  return (
+    <Card
+      padding="md"
+      className={`space-y-4 ${isRecommended ? 'ring-2 ring-indigo-500/40' : ''}`}
+      aria-label={`Rank ${entry.rank}: ${entry.label}`}
+    >
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400">
+          <span>#{entry.rank}</span>
+          {isRecommended && <Trophy className="w-3.5 h-3.5 text-indigo-500" aria-label="Recommended" />}
+        </div>
+        <p className="font-medium text-slate-800 dark:text-slate-200 line-clamp-2">{entry.label}</p>
+        <VerdictBadge verdict={entry.verdict} size="sm" />
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <dt className="text-slate-500 dark:text-slate-400">Confidence</dt>
+          <dd className="font-semibold text-slate-800 dark:text-slate-200">{percent(entry.confidence)}</dd>
+        </div>
+        <div>
+          <dt className="text-slate-500 dark:text-slate-400">Weighted score</dt>
+          <dd className="font-semibold text-slate-800 dark:text-slate-200">{entry.weightedScore.toFixed(2)}</dd>
+        </div>
+      </dl>
+
+      <div className="space-y-1.5">
+        <h4 className="text-xs font-semibold text-slate-600 dark:text-slate-400">Top risks</h4>
+        {entry.topRisks.length > 0 ? (
+          <ul className="space-y-1">
+            {entry.topRisks.map((risk) => (
+              <li key={risk.risk} className="flex items-start gap-1.5 text-xs text-slate-700 dark:text-slate-300">
+                <Badge variant={LEVEL_VARIANT[risk.severity]} size="sm">
+                  {risk.severity}
+                </Badge>
+                <span>{risk.risk}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500 dark:text-slate-400">None identified</p>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        <h4 className="text-xs font-semibold text-slate-600 dark:text-slate-400">Alternatives</h4>
+        {entry.alternatives.length > 0 ? (
+          <ul className="space-y-1">
+            {entry.alternatives.map((alternative) => (
+              <li
+                key={alternative.name}
+                className="flex items-start gap-1.5 text-xs text-slate-700 dark:text-slate-300"
+              >
+                <Badge variant={LEVEL_VARIANT[alternative.estimatedEffort]} size="sm">
+                  {alternative.estimatedEffort} effort
+                </Badge>
+                <span>{alternative.name}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500 dark:text-slate-400">None suggested</p>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Shows several assessments side by side: the ranked recommendation, one
+ * column per assessment (verdict, confidence, weighted score, top risks and
+ * alternative effort) and a per-dimension score matrix.
+ */
+export function AssessmentComparison({ comparison, onClose }: AssessmentComparisonProps) {
+  const { entries, dimensions, recommendation } = comparison;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      <div className="flex items-center justify-between gap-4">
+        <Button variant="ghost" size="sm" onClick={onClose} leftIcon={<ArrowLeft className="w-4 h-4" />}>
+          Back
+        </Button>
+        <ComparisonExportButton comparison={comparison} />
+      </div>
+
+      {/* Recommendation */}
+      <Card padding="md" className="space-y-2" aria-label="Recommendation">
+        <div className="flex items-center gap-2">
+          <Trophy className="w-4 h-4 text-indigo-500" />
+          <h2 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            Recommended: {recommendation.label}
+          </h2>
+          {recommendation.closeCall && (
+            <Badge variant="warning" size="sm" icon={<Scale className="w-3 h-3" />}>
+              Close call
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400">{recommendation.rationale}</p>
+      </Card>
+
+      {/* Side-by-side columns */}
+      <div className={`grid gap-4 grid-cols-1 ${GRID_COLUMNS[entries.length] ?? ''}`}>
+        {entries.map((entry) => (
+          <EntryColumn
+            key={entry.threadId}
+            entry={entry}
+            isRecommended={entry.threadId === recommendation.threadId}
+          />
+        ))}
+      </div>
+
+      {/* Dimension matrix */}
+      {dimensions.length > 0 && (
+        <Card padding="md" className="overflow-x-auto" aria-label="Dimension scores">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                <th className="py-2 pr-4 font-medium">Dimension</th>
+                {entries.map((entry) => (
+                  <th key={entry.threadId} className="py-2 pr-4 font-medium">
+                    #{entry.rank} {entry.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {dimensions.map((row) => (
+                <tr key={row.id}>
+                  <td className="py-2 pr-4 text-slate-700 dark:text-slate-300">
+                    {row.name}
+                    {row.custom && (
+                      <Badge variant="outline" size="sm" className="ml-2">
+                        Custom
+                      </Badge>
+                    )}
+                  </td>
+                  {row.cells.map((cell, column) => (
+                    <td key={entries[column].threadId} className="py-2 pr-4">
+                      {cell ? (
+                        <div className="flex items-center gap-2">
+                          <ScoreBadge score={cell.score} />
+                          <span className="text-xs text-slate-500 dark:text-slate-400">
+                            {percent(cell.confidence)}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="flex items-center gap-1 text-xs text-slate-400">
+                          <AlertTriangle className="w-3 h-3" />
+                          Not analyzed
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+    </motion.div>
+  );
+}
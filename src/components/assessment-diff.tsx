@@ -0,0 +1,122 @@
+'use client';
+
+import { ArrowRight, Minus, Plus } from 'lucide-react';
+import { Badge, VerdictBadge, ScoreBadge } from './ui/badge';
+import type { AnalysisDiff, DimensionChange, ListChange } from '@/lib/pipeline/comparison';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function weight(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2);
+}
+
+// ============================================================================
+// DIMENSION ROW
+// ============================================================================
+
+function DimensionRow({ change }: { change: DimensionChange }) {
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-slate-700 dark:text-slate-300 min-w-[10rem]">{change.name}</span>
+      {change.before ? <ScoreBadge score={change.before} /> : <Badge size="sm">None</Badge>}
+      <ArrowRight className="w-3.5 h-3.5 text-slate-400" />
+      {change.after ? <ScoreBadge score={change.after} /> : <Badge size="sm">None</Badge>}
+      {change.confidenceBefore !== change.confidenceAfter && (
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          confidence {percent(change.confidenceBefore)} → {percent(change.confidenceAfter)}
+        </span>
+      )}
+      {change.weightBefore !== change.weightAfter && (
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          weight {weight(change.weightBefore)} → {weight(change.weightAfter)}
+        </span>
+      )}
+    </li>
+  );
+}
+
+// ============================================================================
+// ADDED / REMOVED LIST
+// ============================================================================
+
+function ListChanges<T>({
+  title,
+  change,
+  label,
+}: {
+  title: string;
+  change: ListChange<T>;
+  label: (item: T) => string;
+}) {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+        {title}
+      </p>
+      <ul className="space-y-1 text-sm">
+        {change.added.map((item) => (
+          <li key={`added-${label(item)}`} className="flex items-start gap-2 text-emerald-700 dark:text-emerald-400">
+            <Plus className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" aria-label="Added" />
+            <span>{label(item)}</span>
+          </li>
+        ))}
+        {change.removed.map((item) => (
+          <li key={`removed-${label(item)}`} className="flex items-start gap-2 text-slate-500 dark:text-slate-400 line-through">
+            <Minus className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" aria-label="Removed" />
+            <span>{label(item)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Shows what changed between two analyses of a problem: verdict and
+ * confidence, dimensions whose score, confidence or weight changed, and the
+ * risks and alternatives added or removed.
+ */
+export function AssessmentDiff({ diff }: { diff: AnalysisDiff }) {
+  const changedDimensions = diff.dimensions.filter((d) => d.changed);
+
+  return (
+    <div className="rounded-lg bg-slate-50 dark:bg-slate-800/50 p-4 space-y-3" aria-label="Changes">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+        <span className="font-medium">Verdict</span>
+        <VerdictBadge verdict={diff.verdict.before} size="sm" />
+        <ArrowRight className="w-4 h-4 text-slate-400" />
+        <VerdictBadge verdict={diff.verdict.after} size="sm" />
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          ({percent(diff.confidence.before)} → {percent(diff.confidence.after)} confidence)
+        </span>
+      </div>
+
+      {!diff.changed && (
+        <p className="text-sm text-slate-600 dark:text-slate-400">Nothing else changed.</p>
+      )}
+
+      {changedDimensions.length > 0 && (
+        <ul className="space-y-1.5">
+          {changedDimensions.map((change) => (
+            <DimensionRow key={change.id} change={change} />
+          ))}
+        </ul>
+      )}
+
+      <ListChanges title="Risks" change={diff.risks} label={(r) => r.risk} />
+      <ListChanges title="Alternatives" change={diff.alternatives} label={(a) => a.name} />
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, FolderOpen, Pencil, Trash2, Tag, Columns } from 'lucide-react';
+import { Card } from './ui/card';
+import { Badge, VerdictBadge } from './ui/badge';
+import { Button, IconButton } from './ui/button';
+import {
+  listAssessments,
+  getAssessment,
+  updateAssessment,
+  deleteAssessment,
+} from '@/lib/assessments/client';
+import { MAX_TITLE_LENGTH, type Assessment, type AssessmentSummary } from '@/lib/assessments/types';
+import { MAX_COMPARISON_ITEMS } from '@/lib/pipeline/comparison';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AssessmentHistoryProps {
+  /** Called with the full assessment when the user reopens it */
+  onOpen: (assessment: Assessment) => void;
+  /** Called with the full assessments when the user compares a selection */
+  onCompare?: (assessments: Assessment[]) => void;
+  /** Base URL for API endpoints (default: '' for same origin) */
+  baseUrl?: string;
+}
+
+interface EditState {
+  threadId: string;
+  title: string;
+  tags: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const editInputClass =
+  'w-full min-h-[40px] px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20';
+
+function parseTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// ============================================================================
+// EDIT FORM
+// ============================================================================
+
+function EditForm({
+  edit,
+  onChange,
+  onSave,
+  onCancel,
+  isSaving,
+}: {
+  edit: EditState;
+  onChange: (edit: EditState) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}) {
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <label className="block space-y-1">
+        <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">Title</span>
+        <input
+          value={edit.title}
+          maxLength={MAX_TITLE_LENGTH}
+          onChange={(e) => onChange({ ...edit, title: e.target.value })}
+          className={editInputClass}
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+          Tags (comma separated)
+        </span>
+        <input
+          value={edit.tags}
+          onChange={(e) => onChange({ ...edit, tags: e.target.value })}
+          className={editInputClass}
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" isLoading={isSaving} disabled={!edit.title.trim()}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// HISTORY ITEM
+// ============================================================================
+
+function HistoryItem({
+  assessment,
+  selection,
+  onOpen,
+  onEdit,
+  onDelete,
+}: {
+  assessment: AssessmentSummary;
+  /** Present when the item can be selected for comparison */
+  selection?: { selected: boolean; disabled: boolean; onToggle: () => void };
+  onOpen: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="flex items-start gap-3">
+      {selection && (
+        <input
+          type="checkbox"
+          checked={selection.selected}
+          disabled={selection.disabled}
+          onChange={selection.onToggle}
+          aria-label={`Select ${assessment.title} for comparison`}
+          className="mt-1 w-4 h-4 accent-indigo-600"
+        />
+      )}
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="font-medium text-slate-800 dark:text-slate-200 truncate">
+            {assessment.title}
+          </p>
+          <VerdictBadge verdict={assessment.verdict} size="sm" />
+          {assessment.parentThreadId && (
+            <Badge variant="outline" size="sm">
+              Re-run
+            </Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+          <span>{formatDate(assessment.createdAt)}</span>
+          {assessment.tags.map((tag) => (
+            <Badge key={tag} variant="outline" size="sm" icon={<Tag className="w-3 h-3" />}>
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <IconButton
+          variant="ghost"
+          size="sm"
+          icon={<FolderOpen className="w-4 h-4" />}
+          aria-label={`Open ${assessment.title}`}
+          onClick={onOpen}
+        />
+        <IconButton
+          variant="ghost"
+          size="sm"
+          icon={<Pencil className="w-4 h-4" />}
+          aria-label={`Rename or tag ${assessment.title}`}
+          onClick={onEdit}
+        />
+        <IconButton
+          variant="ghost"
+          size="sm"
+          icon={<Trash2 className="w-4 h-4" />}
+          aria-label={`Delete ${assessment.title}`}
+          onClick={onDelete}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Lists past assessments stored on the server and lets the user reopen,
+ * rename, tag and delete them. With `onCompare`, up to four assessments can
+ * be selected and compared side by side. Renders nothing until there is
+ * history.
+ */
+export function AssessmentHistory({ onOpen, onCompare, baseUrl = '' }: AssessmentHistoryProps) {
+  const [assessments, setAssessments] = useState<AssessmentSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [edit, setEdit] = useState<EditState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAssessments(await listAssessments(baseUrl));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load history');
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleOpen = (threadId: string) =>
+    run(async () => {
+      onOpen(await getAssessment(threadId, baseUrl));
+    });
+
+  const toggleSelected = (threadId: string) =>
+    setSelected((prev) =>
+      prev.includes(threadId) ? prev.filter((id) => id !== threadId) : [...prev, threadId]
+    );
+
+  const handleCompare = () =>
+    run(async () => {
+      if (!onCompare) return;
+      setIsComparing(true);
+      try {
+        onCompare(await Promise.all(selected.map((threadId) => getAssessment(threadId, baseUrl))));
+        setSelected([]);
+      } finally {
+        setIsComparing(false);
+      }
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      if (!edit) return;
+      setIsSaving(true);
+      try {
+        const updated = await updateAssessment(
+          edit.threadId,
+          { title: edit.title, tags: parseTags(edit.tags) },
+          baseUrl
+        );
+        setAssessments((prev) =>
+          prev.map((a) => (a.threadId === updated.threadId ? { ...a, title: updated.title, tags: updated.tags } : a))
+        );
+        setEdit(null);
+      } finally {
+        setIsSaving(false);
+      }
+    });
+
+  const handleDelete = (assessment: AssessmentSummary) =>
+    run(async () => {
+      if (!window.confirm(`Delete "${assessment.title}"?`)) return;
+      await deleteAssessment(assessment.threadId, baseUrl);
+      setAssessments((prev) => prev.filter((a) => a.threadId !== assessment.threadId));
+      setSelected((prev) => prev.filter((id) => id !== assessment.threadId));
+    });
+
+  if (assessments.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <Card padding="md" className="space-y-4" aria-label="Assessment history">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+          Past assessments
+        </h3>
+        <span className="text-xs text-slate-500 dark:text-slate-400">({assessments.length})</span>
+        {onCompare && assessments.length > 1 && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="ml-auto"
+            leftIcon={<Columns className="w-4 h-4" />}
+            isLoading={isComparing}
+            disabled={selected.length < 2}
+            onClick={handleCompare}
+          >
+            Compare ({selected.length})
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+
+      <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+        <AnimatePresence initial={false}>
+          {assessments.map((assessment) => (
+            <motion.li
+              key={assessment.threadId}
+              initial={{ opacity: 0, y: -5 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, height: 0 }}
+              className="py-3 first:pt-0 last:pb-0"
+            >
+              {edit?.threadId === assessment.threadId ? (
+                <EditForm
+                  edit={edit}
+                  onChange={setEdit}
+                  onSave={handleSave}
+                  onCancel={() => setEdit(null)}
+                  isSaving={isSaving}
+                />
+              ) : (
+                <HistoryItem
+                  assessment={assessment}
+                  selection={
+                    onCompare && assessments.length > 1
+                      ? {
+                          selected: selected.includes(assessment.threadId),
+                          disabled:
+                            !selected.includes(assessment.threadId) &&
+                            selected.length >= MAX_COMPARISON_ITEMS,
+                          onToggle: () => toggleSelected(assessment.threadId),
+                        }
+                      : undefined
+                  }
+                  onOpen={() => handleOpen(assessment.threadId)}
+                  onEdit={() =>
+                    setEdit({
+                      threadId: assessment.threadId,
+                      title: assessment.title,
+                      tags: assessment.tags.join(', '),
+                    })
+                  }
+                  onDelete={() => handleDelete(assessment)}
+                />
+              )}
+            </motion.li>
+          ))}
+        </AnimatePresence>
+      </ul>
+    </Card>
+  );
+}
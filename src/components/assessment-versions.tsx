@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { GitCompare, FolderOpen } from 'lucide-react';
+import { Card } from './ui/card';
+import { Badge, VerdictBadge } from './ui/badge';
+import { IconButton } from './ui/button';
+import { AssessmentDiff } from './assessment-diff';
+import { diffAssessments, getAssessment, listVersions } from '@/lib/assessments/client';
+import type { Assessment, AssessmentVersion } from '@/lib/assessments/types';
+import type { AnalysisDiff } from '@/lib/pipeline/comparison';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AssessmentVersionsProps {
+  /** Assessment currently shown */
+  threadId: string;
+  /** Called with the full assessment when the user opens another version */
+  onOpen: (assessment: Assessment) => void;
+  /** Base URL for API endpoints (default: '' for same origin) */
+  baseUrl?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const selectClass =
+  'min-h-[36px] px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white';
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Version history of the current assessment's problem: every stored re-run,
+ * oldest first, with a diff between any two versions (the previous and the
+ * current one by default). Renders nothing for a problem with one version.
+ */
+export function AssessmentVersions({ threadId, onOpen, baseUrl = '' }: AssessmentVersionsProps) {
+  const [versions, setVersions] = useState<AssessmentVersion[]>([]);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  // Diff of the selected pair, keyed so a stale pair is never shown
+  const [loadedDiff, setLoadedDiff] = useState<{ key: string; diff: AnalysisDiff } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVersions(threadId, baseUrl)
+      .then((loaded) => {
+        if (cancelled) return;
+        const current = loaded.findIndex((v) => v.threadId === threadId);
+        setVersions(loaded);
+        setToId(threadId);
+        setFromId(loaded[current > 0 ? current - 1 : 1]?.threadId ?? null);
+      })
+      .catch(() => {
+        // Not stored (yet); there is no history to show
+        if (!cancelled) setVersions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [threadId, baseUrl]);
+
+  const pairKey = fromId && toId && fromId !== toId ? `${fromId}:${toId}` : null;
+
+  useEffect(() => {
+    if (!pairKey || !fromId || !toId) return;
+    let cancelled = false;
+    diffAssessments(toId, fromId, baseUrl)
+      .then((response) => {
+        if (!cancelled) {
+          setLoadedDiff({ key: pairKey, diff: response.diff });
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not compare versions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pairKey, fromId, toId, baseUrl]);
+
+  const handleOpen = async (id: string) => {
+    try {
+      onOpen(await getAssessment(id, baseUrl));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open version');
+    }
+  };
+
+  if (versions.length < 2) return null;
+
+  const diff = loadedDiff && loadedDiff.key === pairKey ? loadedDiff.diff : null;
+
+  const versionSelect = (label: string, value: string | null, onChange: (id: string) => void) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+      {label}
+      <select value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+        {versions.map((v) => (
+          <option key={v.threadId} value={v.threadId}>
+            v{v.version} · {formatDate(v.createdAt)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+      <Card padding="md" className="space-y-4" aria-label="Version history">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-4 h-4 text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            Version history ({versions.length})
+          </h3>
+        </div>
+
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+          {versions.map((v) => (
+            <li key={v.threadId} className="flex items-center gap-3 py-2">
+              <span className="text-sm font-medium text-slate-900 dark:text-white w-8">v{v.version}</span>
+              <VerdictBadge verdict={v.verdict} size="sm" />
+              <span className="flex-1 text-xs text-slate-500 dark:text-slate-400">
+                {formatDate(v.createdAt)} · {Math.round(v.confidence * 100)}% confidence
+              </span>
+              {v.threadId === threadId ? (
+                <Badge variant="outline" size="sm">
+                  Current
+                </Badge>
+              ) : (
+                <IconButton
+                  variant="ghost"
+                  size="sm"
+                  icon={<FolderOpen className="w-4 h-4" />}
+                  aria-label={`Open version ${v.version}`}
+                  onClick={() => handleOpen(v.threadId)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {versionSelect('Compare', fromId, setFromId)}
+          {versionSelect('with', toId, setToId)}
+        </div>
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        {diff && <AssessmentDiff diff={diff} />}
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, useCallback, type ChangeEvent } from 'react';
+import { Layers, Upload, Download, Play, RotateCcw, Wand2 } from 'lucide-react';
+import { Card } from './ui/card';
+import { Badge, VerdictBadge, ScoreBadge } from './ui/badge';
+import { Button } from './ui/button';
+import { EVALUATION_DIMENSIONS } from '@/lib/dimensions';
+import { batchDimensionIds, type Batch, type BatchFormat, type BatchItemStatus, type BatchQuestionPolicy } from '@/lib/batch';
+import { answerBatchRow, batchResultsUrl, createBatch, getBatch } from '@/lib/batch/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface BatchAssessmentProps {
+  /** Base URL for API endpoints (default: '' for same origin) */
+  baseUrl?: string;
+}
+
+interface UploadState {
+  name: string;
+  data: string;
+  format?: BatchFormat;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** How often a running batch is polled */
+const POLL_INTERVAL_MS = 2000;
+
+const statusVariants: Record<BatchItemStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  pending: 'default',
+  running: 'info',
+  completed: 'success',
+  suspended: 'warning',
+  failed: 'error',
+};
+
+function formatFromName(name: string): BatchFormat | undefined {
+  if (/\.csv$/i.test(name)) return 'csv';
+  if (/\.jsonl?$/i.test(name)) return 'jsonl';
+  return undefined;
+}
+
+function dimensionName(id: string): string {
+  return EVALUATION_DIMENSIONS.find((d) => d.id === id)?.name ?? id;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Uploads a CSV or JSONL file of problems, assesses every row on the server
+ * and shows the results as a table that can be downloaded as CSV. Blocking
+ * questions are answered with their current assumptions, or queued so each
+ * row can be resumed later.
+ */
+export function BatchAssessment({ baseUrl = '' }: BatchAssessmentProps) {
+  const [upload, setUpload] = useState<UploadState | null>(null);
+  const [policy, setPolicy] = useState<BatchQuestionPolicy>('assume');
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [answeringRow, setAnsweringRow] = useState<number | null>(null);
+
+  const isRunning = batch?.status === 'running';
+  const batchId = batch?.id;
+
+  const poll = useCallback(async () => {
+    if (!batchId) return;
+    try {
+      setBatch(await getBatch(batchId, baseUrl));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load batch');
+    }
+  }, [batchId, baseUrl]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, poll]);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setUpload({ name: file.name, data: await file.text(), format: formatFromName(file.name) });
+      setError(null);
+    } catch {
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!upload) return;
+    setIsStarting(true);
+    try {
+      setBatch(await createBatch({ data: upload.data, format: upload.format, policy }, baseUrl));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start batch');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleAssume = async (row: number) => {
+    if (!batch) return;
+    setAnsweringRow(row);
+    try {
+      setBatch(await answerBatchRow(batch.id, row, undefined, baseUrl));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not resume row');
+    } finally {
+      setAnsweringRow(null);
+    }
+  };
+
+  const handleReset = () => {
+    setBatch(null);
+    setUpload(null);
+    setError(null);
+  };
+
+  const dimensionIds = batch ? batchDimensionIds(batch) : [];
+  const settled = batch?.items.filter((i) => i.status !== 'pending' && i.status !== 'running').length ?? 0;
+
+  return (
+    <Card padding="md" className="space-y-4" aria-label="Batch assessment">
+      <div className="flex items-center gap-2">
+        <Layers className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+          Batch assessment
+        </h3>
+        {batch && (
+          <span className="text-xs text-slate-500 dark:text-slate-400">
+            ({settled}/{batch.items.length} done)
+          </span>
+        )}
+        {batch && (
+          <div className="ml-auto flex items-center gap-2">
+            <a
+              href={batchResultsUrl(batch.id, baseUrl)}
+              download
+              className="inline-flex items-center gap-1.5 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <Download className="w-4 h-4" />
+              Download CSV
+            </a>
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<RotateCcw className="w-4 h-4" />}
+              disabled={isRunning}
+              onClick={handleReset}
+            >
+              New batch
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+
+      {!batch && (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Upload a CSV with a <code>problem</code> column (and optionally <code>context</code>), or
+            JSONL with one <code>{'{ "problem", "context" }'}</code> object per line.
+          </p>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+            <Upload className="w-4 h-4 text-slate-500" />
+            <span>{upload ? upload.name : 'Choose a file'}</span>
+            <input
+              type="file"
+              accept=".csv,.jsonl,.json,text/csv,application/jsonl"
+              onChange={handleFile}
+              className="sr-only"
+            />
+          </label>
+          <fieldset className="flex flex-wrap gap-4 text-sm text-slate-700 dark:text-slate-300">
+            <legend className="sr-only">Blocking questions</legend>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="batch-policy"
+                checked={policy === 'assume'}
+                onChange={() => setPolicy('assume')}
+                className="accent-indigo-600"
+              />
+              Answer questions with current assumptions
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="batch-policy"
+                checked={policy === 'queue'}
+                onChange={() => setPolicy('queue')}
+                className="accent-indigo-600"
+              />
+              Queue questions for later
+            </label>
+          </fieldset>
+          <Button
+            size="sm"
+            leftIcon={<Play className="w-4 h-4" />}
+            isLoading={isStarting}
+            disabled={!upload}
+            onClick={handleStart}
+          >
+            Start batch
+          </Button>
+        </div>
+      )}
+
+      {batch && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 dark:text-slate-400">
+              <tr>
+                <th className="py-2 pr-3 font-medium">#</th>
+                <th className="py-2 pr-3 font-medium">Problem</th>
+                <th className="py-2 pr-3 font-medium">Status</th>
+                <th className="py-2 pr-3 font-medium">Verdict</th>
+                <th className="py-2 pr-3 font-medium">Confidence</th>
+                {dimensionIds.map((id) => (
+                  <th key={id} className="py-2 pr-3 font-medium whitespace-nowrap">
+                    {dimensionName(id)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {batch.items.map((item) => (
+                <tr key={item.row} className="align-top">
+                  <td className="py-2 pr-3 text-slate-500">{item.row}</td>
+                  <td className="py-2 pr-3 text-slate-800 dark:text-slate-200 min-w-[12rem]" title={item.problem}>
+                    {truncate(item.problem, 80)}
+                    {item.error && (
+                      <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 space-y-1">
+                    <Badge variant={statusVariants[item.status]} size="sm">
+                      {item.status}
+                    </Badge>
+                    {item.status === 'suspended' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<Wand2 className="w-3.5 h-3.5" />}
+                        isLoading={answeringRow === item.row}
+                        onClick={() => handleAssume(item.row)}
+                        title={item.pendingQuestions.map((q) => q.question).join('\n')}
+                      >
+                        Use assumptions
+                      </Button>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {item.verdict && <VerdictBadge verdict={item.verdict} size="sm" />}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-700 dark:text-slate-300">
+                    {item.confidence !== null ? `${Math.round(item.confidence * 100)}%` : ''}
+                  </td>
+                  {dimensionIds.map((id) => (
+                    <td key={id} className="py-2 pr-3">
+                      {item.dimensionScores[id] && <ScoreBadge score={item.dimensionScores[id]} />}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
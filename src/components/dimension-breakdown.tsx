@@ -11,6 +11,7 @@ import {
   Quote,
 } from 'lucide-react';
 import type { DimensionScore } from '@/lib/schemas';
+import { EVALUATION_DIMENSIONS, isBuiltInDimension } from '@/lib/dimensions';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 
@@ -155,9 +156,16 @@ function DimensionCard({
 
             {/* Name and label */}
             <div className="flex-1 min-w-0 text-left">
-              <h4 className="font-semibold text-slate-900 dark:text-white text-sm sm:text-base truncate">
-                {dimension.name}
-              </h4>
+              <div className="flex items-center gap-2 min-w-0">
+                <h4 className="font-semibold text-slate-900 dark:text-white text-sm sm:text-base truncate">
+                  {dimension.name}
+                </h4>
+                {!isBuiltInDimension(dimension.id) && (
+                  <Badge variant="outline" size="sm">
+                    Custom
+                  </Badge>
+                )}
+              </div>
               <div className="flex items-center gap-2 sm:gap-3 mt-0.5">
                 <Badge
                   variant={
@@ -294,6 +302,8 @@ export function DimensionBreakdown({ dimensions }: DimensionBreakdownProps) {
     return null;
   }
 
+  const customCount = dimensions.filter((d) => d.id && !isBuiltInDimension(d.id)).length;
+
   return (
     <div>
       {/* Header */}
@@ -306,7 +316,8 @@ export function DimensionBreakdown({ dimensions }: DimensionBreakdownProps) {
             Evaluation Breakdown
           </h3>
           <p className="text-sm text-slate-500 dark:text-slate-400">
-            7 dimensions analyzed
+            {EVALUATION_DIMENSIONS.length + customCount} dimensions analyzed
+            {customCount > 0 && ` (${customCount} custom)`}
           </p>
         </div>
       </div>
@@ -8,6 +8,11 @@ export { AlternativesPanel } from './alternatives-panel';
 export { ActionChecklist } from './action-checklist';
 export { ScreeningLoader, EvaluationLoader } from './screening-loader';
 export { PDFExportButton } from './pdf-export-button';
+export { AssessmentHistory } from './assessment-history';
+export { AssessmentComparison } from './assessment-comparison';
+export { AssessmentDiff } from './assessment-diff';
+export { AssessmentVersions } from './assessment-versions';
+export { BatchAssessment } from './batch-assessment';
 export { Providers } from './providers';
 
 // Re-export UI components for convenience
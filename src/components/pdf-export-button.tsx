@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Download, Loader2, Check, AlertCircle } from 'lucide-react';
 import { Button } from './ui/button';
 import type { EvaluationResult } from '@/lib/schemas';
+import type { CostEstimate } from '@/lib/pipeline/types';
 
 // ============================================================================
 // TYPES
@@ -19,6 +20,8 @@ interface PDFExportButtonProps {
   problem: string;
   /** The evaluation result */
   evaluation: DeepPartial<EvaluationResult>;
+  /** Operating cost estimate, if the user provided expected usage */
+  costEstimate?: CostEstimate;
   /** Optional custom className */
   className?: string;
 }
@@ -38,6 +41,7 @@ type ExportState = 'idle' | 'generating' | 'success' | 'error';
 export function PDFExportButton({
   problem,
   evaluation,
+  costEstimate,
   className,
 }: PDFExportButtonProps) {
   const [state, setState] = useState<ExportState>('idle');
@@ -62,6 +66,7 @@ export function PDFExportButton({
       await downloadPDF({
         problem,
         evaluation,
+        costEstimate,
       });
 
       setState('success');
@@ -76,7 +81,7 @@ export function PDFExportButton({
       // Reset to idle after error indication
       setTimeout(() => setState('idle'), 3000);
     }
-  }, [problem, evaluation]);
+  }, [problem, evaluation, costEstimate]);
 
   // Determine button content based on state
   const getButtonContent = () => {
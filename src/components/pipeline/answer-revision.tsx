@@ -0,0 +1,189 @@
+'use client';
+
+/**
+ * AnswerRevision - Revise answers after the analysis has completed.
+ *
+ * Lists the questions the run answered (or assumed), lets the user change
+ * one answer and re-analyzes only the related dimensions on the server.
+ * Once the revision finishes, shows how the verdict and dimension scores
+ * changed and hands the revised result to the page. When the server cannot
+ * revise the run, says so instead of hiding the panel.
+ *
+ * @module components/pipeline/answer-revision
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { PencilLine, RefreshCw } from 'lucide-react';
+import type { AnalysisDiff, AnalysisResult, RevisableQuestion } from '@/lib/pipeline';
+import { fetchRevisableQuestions, reviseAnswers } from '@/lib/pipeline/revision/client';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AssessmentDiff } from '@/components/assessment-diff';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface AnswerRevisionProps {
+  /** Completed run whose answers can be revised */
+  runId: string;
+  /** Receives the revised result */
+  onRevised: (result: AnalysisResult) => void;
+  /** Base URL for API endpoints (default: '' for same origin) */
+  baseUrl?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function AnswerRevision({ runId, onRevised, baseUrl = '' }: AnswerRevisionProps) {
+  const [questions, setQuestions] = useState<RevisableQuestion[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isRevising, setIsRevising] = useState(false);
+  const [diff, setDiff] = useState<AnalysisDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setQuestions(await fetchRevisableQuestions(runId, baseUrl));
+      setUnavailable(null);
+    } catch (err) {
+      setQuestions([]);
+      setUnavailable(err instanceof Error ? err.message : 'Could not load answers');
+    }
+  }, [runId, baseUrl]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const startEditing = (question: RevisableQuestion) => {
+    setEditing(question.questionId);
+    setDraft(question.assumed ? '' : question.answer);
+    setError(null);
+  };
+
+  const handleRevise = async (question: RevisableQuestion) => {
+    if (!draft.trim()) return;
+    setIsRevising(true);
+    try {
+      const revision = await reviseAnswers(
+        runId,
+        [{ questionId: question.questionId, answer: draft.trim(), question: question.question }],
+        baseUrl
+      );
+      setDiff(revision.diff);
+      setEditing(null);
+      setError(null);
+      onRevised(revision.result);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revise answer');
+    } finally {
+      setIsRevising(false);
+    }
+  };
+
+  if (questions.length === 0 && !diff && !unavailable) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <Card padding="md" className="space-y-4" aria-label="Revise answers">
+        <div className="flex items-center gap-2">
+          <PencilLine className="w-4 h-4 text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            Revise an answer
+          </h3>
+        </div>
+        {unavailable ? (
+          <p role="status" className="text-sm text-slate-600 dark:text-slate-400">
+            Answers to this analysis cannot be revised: {unavailable}
+          </p>
+        ) : (
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Change an answer to re-run only the dimensions it affects, then the verdict and
+            recommendations.
+          </p>
+        )}
+
+        {error && (
+          <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        {diff && <AssessmentDiff diff={diff} />}
+
+        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+          {questions.map((q) => (
+            <li key={q.questionId} className="py-3 space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="text-sm">
+                  <p className="font-medium text-slate-900 dark:text-white">{q.question}</p>
+                  <p className="text-slate-600 dark:text-slate-400">
+                    {q.answer}
+                    {q.assumed && (
+                      <Badge variant="warning" size="sm" className="ml-2">
+                        Assumed
+                      </Badge>
+                    )}
+                  </p>
+                </div>
+                {editing !== q.questionId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isRevising}
+                    onClick={() => startEditing(q)}
+                  >
+                    Revise
+                  </Button>
+                )}
+              </div>
+
+              {editing === q.questionId && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder="New answer"
+                    aria-label={`New answer to: ${q.question}`}
+                    className="flex-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-3 py-1.5 text-sm text-slate-900 dark:text-white"
+                  />
+                  <Button
+                    size="sm"
+                    leftIcon={<RefreshCw className="w-4 h-4" />}
+                    isLoading={isRevising}
+                    disabled={!draft.trim()}
+                    onClick={() => handleRevise(q)}
+                  >
+                    Re-analyze
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isRevising}
+                    onClick={() => setEditing(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Card>
+    </motion.div>
+  );
+}
+
+export default AnswerRevision;
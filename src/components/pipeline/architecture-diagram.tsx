@@ -0,0 +1,206 @@
+'use client';
+
+/**
+ * ArchitectureDiagram - Flowchart of the recommended architecture.
+ *
+ * Draws the components, guardrails, confidence gate, human review and
+ * monitoring as an SVG, with export to SVG, PNG and Mermaid source for
+ * design reviews.
+ *
+ * @module components/pipeline/architecture-diagram
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import type { RecommendedArchitecture } from '@/lib/pipeline';
+import {
+  DIAGRAM_COLORS,
+  DIAGRAM_LINE_HEIGHT,
+  architectureToMermaid,
+  arrowHead,
+  buildArchitectureDiagram,
+  edgeLabelPosition,
+  layoutDiagram,
+  nodeCornerRadius,
+  nodeOutline
+} from '@/lib/pipeline/diagram';
+import { Button } from '@/components/ui/button';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ArchitectureDiagramProps {
+  architecture: RecommendedArchitecture;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+const FILENAME = 'architecture-diagram';
+
+/** PNG exports are drawn at twice the on-screen size */
+const PNG_SCALE = 2;
+
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function serializeSvg(svg: SVGSVGElement): string {
+  return new XMLSerializer().serializeToString(svg);
+}
+
+function exportPng(svg: SVGSVGElement, width: number, height: number) {
+  const image = new Image();
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => blob && saveFile(blob, `${FILENAME}.png`), 'image/png');
+    }
+    URL.revokeObjectURL(url);
+  };
+  image.src = url;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function ArchitectureDiagram({ architecture }: ArchitectureDiagramProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const layout = useMemo(() => layoutDiagram(buildArchitectureDiagram(architecture)), [architecture]);
+  // Results saved before diagrams were generated have no Mermaid source
+  const mermaid = architecture.diagram ?? architectureToMermaid(architecture);
+
+  const copyMermaid = () => {
+    navigator.clipboard.writeText(mermaid);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const downloadSvg = () => {
+    if (!svgRef.current) return;
+    saveFile(new Blob([serializeSvg(svgRef.current)], { type: 'image/svg+xml' }), `${FILENAME}.svg`);
+  };
+
+  const downloadPng = () => {
+    if (!svgRef.current) return;
+    exportPng(svgRef.current, layout.width, layout.height);
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto rounded-xl border border-slate-200 dark:border-slate-700 bg-white">
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          width={layout.width}
+          height={layout.height}
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          role="img"
+          aria-label={architecture.dataFlow ?? 'Architecture diagram'}
+          className="mx-auto"
+          fontFamily="ui-sans-serif, system-ui, sans-serif"
+        >
+          <rect width={layout.width} height={layout.height} fill="#ffffff" />
+
+          {layout.edges.map((edge) => {
+            const label = edge.label && edgeLabelPosition(edge.points);
+            return (
+              <g key={`${edge.from}-${edge.to}`}>
+                <polyline
+                  points={edge.points.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke="#94a3b8"
+                  strokeWidth={1.5}
+                  strokeDasharray={edge.dashed ? '4 4' : undefined}
+                />
+                <polygon points={arrowHead(edge.points)} fill="#94a3b8" />
+                {label && (
+                  <text x={label.x + 6} y={label.y} fontSize={11} fill="#475569" dominantBaseline="middle">
+                    {edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {layout.nodes.map((node) => {
+            const colors = DIAGRAM_COLORS[node.kind];
+            const outline = nodeOutline(node);
+            const textTop = node.y + node.height / 2 - ((node.lines.length - 1) * DIAGRAM_LINE_HEIGHT) / 2;
+
+            return (
+              <g key={node.id}>
+                {outline ? (
+                  <polygon points={outline} fill={colors.fill} stroke={colors.stroke} strokeWidth={1.5} />
+                ) : (
+                  <rect
+                    x={node.x}
+                    y={node.y}
+                    width={node.width}
+                    height={node.height}
+                    rx={nodeCornerRadius(node)}
+                    fill={colors.fill}
+                    stroke={colors.stroke}
+                    strokeWidth={1.5}
+                  />
+                )}
+                {node.lines.map((line, i) => (
+                  <text
+                    key={i}
+                    x={node.x + node.width / 2}
+                    y={textTop + i * DIAGRAM_LINE_HEIGHT}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    fontSize={i < node.titleLines ? 12 : 10}
+                    fontWeight={i < node.titleLines ? 600 : 400}
+                    fill={colors.text}
+                  >
+                    {line}
+                  </text>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <Button variant="ghost" size="sm" leftIcon={<Download className="w-4 h-4" />} onClick={downloadSvg}>
+          SVG
+        </Button>
+        <Button variant="ghost" size="sm" leftIcon={<Download className="w-4 h-4" />} onClick={downloadPng}>
+          PNG
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          leftIcon={copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          onClick={copyMermaid}
+        >
+          {copied ? 'Copied!' : 'Copy Mermaid'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default ArchitectureDiagram;
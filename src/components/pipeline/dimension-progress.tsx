@@ -7,6 +7,8 @@
  * - Real-time score updates (preliminary → final)
  * - Confidence indicators
  * - Expandable reasoning when complete
+ * - A "Custom" tag on dimensions registered at runtime
+ * - The sample vote when the dimension was scored by self-consistency
  *
  * @module components/pipeline/dimension-progress
  */
@@ -24,6 +26,7 @@ import {
 import type { DimensionScore, DimensionId } from '@/lib/pipeline';
 import type { DeepPartial } from '@/hooks/use-pipeline-stream';
 import type { DimensionAnalysis } from '@/lib/pipeline';
+import { isBuiltInDimension } from '@/lib/dimensions';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 
@@ -196,6 +199,11 @@ function DimensionItem({
                     {config.label}
                   </Badge>
                 )}
+                {dimension.id && !isBuiltInDimension(dimension.id) && (
+                  <Badge variant="outline" size="sm">
+                    Custom
+                  </Badge>
+                )}
                 {isPending && (
                   <span className="text-xs text-slate-400">Pending</span>
                 )}
@@ -241,6 +249,18 @@ function DimensionItem({
                   </p>
                 )}
 
+                {/* Self-consistency vote */}
+                {dimension.samples?.scores && dimension.samples.scores.length > 1 && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                    {dimension.samples.scores.filter((s) => s === score).length} of{' '}
+                    {dimension.samples.scores.length} samples scored {config?.label.toLowerCase()} (
+                    {(['favorable', 'neutral', 'unfavorable'] as const)
+                      .map((s) => `${dimension.samples?.votes?.[s] ?? 0} ${s}`)
+                      .join(', ')}
+                    )
+                  </p>
+                )}
+
                 {/* Evidence */}
                 {dimension.evidence &&
                   dimension.evidence.filter(Boolean).length > 0 && (
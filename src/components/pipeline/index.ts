@@ -11,3 +11,6 @@ export { DimensionProgress } from './dimension-progress';
 export { StageIndicator, InlineStageIndicator } from './stage-indicator';
 export { PipelineQuestions } from './pipeline-questions';
 export { PipelineResults } from './pipeline-results';
+export { AnswerRevision } from './answer-revision';
+export { ReasoningStream } from './reasoning-stream';
+export { ArchitectureDiagram } from './architecture-diagram';
@@ -291,7 +291,8 @@ function formatDimensionName(dimensionId: DimensionId): string {
     human_oversight_cost: 'Human Oversight',
     rate_of_change: 'Rate of Change'
   };
-  return names[dimensionId] || dimensionId;
+  // Custom dimensions: derive a name from the snake_case id
+  return names[dimensionId] || dimensionId.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
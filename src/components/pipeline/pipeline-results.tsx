@@ -5,11 +5,16 @@
  *
  * Composes the final result display including:
  * - Verdict with confidence
+ * - Assumptions made in place of unanswered questions
+ * - Weighted-score check (compare and rules verdict modes)
+ * - Industry preset used for the rubric (when one was selected)
  * - Dimension breakdown
  * - Risk analysis
  * - Alternative approaches
- * - Architecture recommendations
- * - Pre-build questions
+ * - Architecture recommendations (diagram, data flow, guardrails, monitoring)
+ * - Operating cost estimate (when expected usage was provided)
+ * - Pre-build questions, grouped by category
+ * - Action plan (executive summary, key takeaways, prioritized action items)
  *
  * @module components/pipeline/pipeline-results
  */
@@ -21,14 +26,23 @@ import {
   GitBranch,
   HelpCircle,
   FileText,
-  ChevronDown
+  ChevronDown,
+  Scale,
+  Wallet,
+  Wand2,
+  Activity,
+  ListChecks
 } from 'lucide-react';
 import { useState } from 'react';
-import type { AnalysisResult, RiskFactor, Alternative, RecommendedArchitecture, PreBuildQuestion } from '@/lib/pipeline';
+import type { AnalysisResult, ActionItem, ActionItemPriority, AppliedAssumption, RiskFactor, Alternative, RecommendedArchitecture, PreBuildQuestion, PreBuildQuestionCategory, WeightedVerdict, CostEstimate } from '@/lib/pipeline';
+import { ACTION_ITEM_PRIORITIES, groupPreBuildQuestions } from '@/lib/pipeline/types';
+import { formatUsd } from '@/lib/pipeline/cost';
+import { getIndustryPreset } from '@/lib/pipeline/presets';
 import { VerdictDisplay } from '@/components/verdict-display';
 import { DimensionBreakdown } from '@/components/dimension-breakdown';
 import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { Badge, VerdictBadge } from '@/components/ui/badge';
+import { ArchitectureDiagram } from './architecture-diagram';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -79,6 +93,64 @@ function ResultSection({
   );
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// WEIGHTED VERDICT
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface WeightedVerdictDisplayProps {
+  weighted?: WeightedVerdict;
+}
+
+function WeightedVerdictDisplay({ weighted }: WeightedVerdictDisplayProps) {
+  if (!weighted) return null;
+
+  const diverges = weighted.divergence !== undefined && weighted.divergence !== 0;
+
+  return (
+    <ResultSection
+      title="Weighted Score Check"
+      icon={Scale}
+      iconBg="bg-indigo-100 dark:bg-indigo-900/30"
+      iconColor="text-indigo-600 dark:text-indigo-400"
+      delay={0.1}
+    >
+      <Card
+        variant="ghost"
+        padding="md"
+        className={diverges
+          ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800'
+          : 'bg-slate-50 dark:bg-slate-800/50'}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <VerdictBadge verdict={weighted.verdict} size="sm" />
+          <span className="text-sm text-slate-600 dark:text-slate-400">
+            Score {weighted.score.toFixed(2)} · Confidence {Math.round(weighted.confidence * 100)}%
+          </span>
+          {diverges && <Badge variant="warning" size="sm">Diverges from AI verdict</Badge>}
+        </div>
+        {weighted.divergenceNote && (
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-3">
+            {weighted.divergenceNote}
+          </p>
+        )}
+        {weighted.failedChecks.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {weighted.failedChecks.map((check) => (
+              <li
+                key={`${check.verdict}-${check.dimensionId}`}
+                className="text-xs text-slate-600 dark:text-slate-400"
+              >
+                {check.verdict} requires {check.dimensionId} to be at least {check.minimumScore}
+                {' '}(was {check.actual ?? 'not analyzed'})
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </ResultSection>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // RISK ANALYSIS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -290,6 +362,32 @@ function AlternativesDisplay({ alternatives }: AlternativesDisplayProps) {
 // ARCHITECTURE RECOMMENDATION
 // ═══════════════════════════════════════════════════════════════════════════
 
+interface ArchitectureListProps {
+  title: string;
+  icon: React.ElementType;
+  items?: string[];
+}
+
+function ArchitectureList({ title, icon: Icon, items }: ArchitectureListProps) {
+  if (!items || items.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">
+        <Icon className="w-3.5 h-3.5" />
+        {title}
+      </h4>
+      <ul className="space-y-1">
+        {items.map((item, i) => (
+          <li key={i} className="text-sm text-slate-600 dark:text-slate-400">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 interface ArchitectureDisplayProps {
   architecture: RecommendedArchitecture | null;
 }
@@ -309,6 +407,9 @@ function ArchitectureDisplay({ architecture }: ArchitectureDisplayProps) {
         <p className="text-slate-600 dark:text-slate-400 mb-4">
           {architecture.description}
         </p>
+        <div className="mb-4">
+          <ArchitectureDiagram architecture={architecture} />
+        </div>
         <div className="flex flex-wrap gap-2 mb-4">
           {architecture.components.map((component, i) => (
             <Badge key={i} variant="secondary" size="sm">
@@ -316,6 +417,16 @@ function ArchitectureDisplay({ architecture }: ArchitectureDisplayProps) {
             </Badge>
           ))}
         </div>
+        {architecture.dataFlow && (
+          <div className="mb-4">
+            <h4 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-1">Data flow</h4>
+            <p className="text-sm text-slate-600 dark:text-slate-400">{architecture.dataFlow}</p>
+          </div>
+        )}
+        <div className="grid gap-4 sm:grid-cols-2 mb-4">
+          <ArchitectureList title="Guardrails" icon={Shield} items={architecture.guardrails} />
+          <ArchitectureList title="Monitoring" icon={Activity} items={architecture.monitoringNeeds} />
+        </div>
         <div className="flex items-center gap-4 text-sm">
           {architecture.humanInLoop && (
             <div className="flex items-center gap-1.5 text-amber-600 dark:text-amber-400">
@@ -334,6 +445,72 @@ function ArchitectureDisplay({ architecture }: ArchitectureDisplayProps) {
   );
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// COST ESTIMATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface CostEstimateDisplayProps {
+  estimate?: CostEstimate;
+}
+
+function CostEstimateDisplay({ estimate }: CostEstimateDisplayProps) {
+  if (!estimate) return null;
+
+  const { monthly } = estimate;
+  const totals = [
+    { label: 'Per request', value: estimate.perRequestCost },
+    { label: 'Per month', value: monthly.total },
+    { label: 'Per year', value: estimate.yearlyTotal }
+  ];
+  const lines = [
+    { label: 'Model usage', detail: `${monthly.requests.toLocaleString()} requests on ${estimate.modelLabel}`, value: monthly.llmCost },
+    { label: 'Human review', detail: `${monthly.reviewedItems.toLocaleString()} items, ${monthly.reviewHours} hours`, value: monthly.reviewCost }
+  ];
+
+  return (
+    <ResultSection
+      title="Estimated Operating Cost"
+      icon={Wallet}
+      iconBg="bg-blue-100 dark:bg-blue-900/30"
+      iconColor="text-blue-600 dark:text-blue-400"
+      delay={0.75}
+    >
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        {totals.map((total) => (
+          <Card key={total.label} variant="ghost" padding="md" className="bg-slate-50 dark:bg-slate-800/50">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{total.label}</p>
+            <p className="text-lg font-semibold text-slate-900 dark:text-white">
+              {formatUsd(total.value)}
+            </p>
+          </Card>
+        ))}
+      </div>
+      <Card variant="default" padding="md">
+        <ul className="space-y-2">
+          {lines.map((line) => (
+            <li key={line.label} className="flex items-baseline justify-between gap-4 text-sm">
+              <span className="text-slate-700 dark:text-slate-300">
+                {line.label}
+                <span className="text-slate-500 dark:text-slate-400"> · {line.detail}</span>
+              </span>
+              <span className="font-medium text-slate-900 dark:text-white">
+                {formatUsd(line.value)}/mo
+              </span>
+            </li>
+          ))}
+        </ul>
+        <ul className="mt-4 space-y-1 border-t border-slate-100 dark:border-slate-800 pt-3">
+          {estimate.assumptions.map((assumption, i) => (
+            <li key={i} className="text-xs text-slate-500 dark:text-slate-400">
+              {assumption}
+            </li>
+          ))}
+        </ul>
+      </Card>
+    </ResultSection>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PRE-BUILD QUESTIONS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -342,9 +519,19 @@ interface PreBuildQuestionsProps {
   questions: PreBuildQuestion[];
 }
 
+const CATEGORY_LABELS: Record<PreBuildQuestionCategory, string> = {
+  business: 'Business',
+  data: 'Data',
+  technical: 'Technical',
+  operational: 'Operational'
+};
+
 function PreBuildQuestionsDisplay({ questions }: PreBuildQuestionsProps) {
   if (!questions || questions.length === 0) return null;
 
+  // Questions without a category (older results) are listed without a heading
+  const groups = groupPreBuildQuestions(questions);
+
   return (
     <ResultSection
       title="Questions Before Building"
@@ -353,40 +540,169 @@ function PreBuildQuestionsDisplay({ questions }: PreBuildQuestionsProps) {
       iconColor="text-blue-600 dark:text-blue-400"
       delay={0.9}
     >
-      <div className="space-y-3">
-        {questions.map((q, index) => (
-          <motion.div
-            key={index}
-            initial={{ opacity: 0, x: -10 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 1 + index * 0.1 }}
-          >
-            <Card
-              variant="ghost"
-              padding="md"
-              className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800"
-            >
-              <div className="flex items-start gap-3">
-                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-500 text-white text-xs font-bold flex items-center justify-center">
-                  {index + 1}
-                </span>
-                <div>
-                  <p className="font-medium text-slate-900 dark:text-white text-sm">
-                    {q.question}
-                  </p>
-                  <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
-                    {q.whyItMatters}
-                  </p>
-                </div>
-              </div>
-            </Card>
-          </motion.div>
+      <div className="space-y-5">
+        {groups.map((group) => (
+          <div key={group.category ?? 'other'}>
+            {(group.category || groups.length > 1) && (
+              <h4 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">
+                {group.category ? CATEGORY_LABELS[group.category] : 'Other'}
+              </h4>
+            )}
+            <div className="space-y-3">
+              {group.questions.map((q) => {
+                const index = questions.indexOf(q);
+                return (
+                  <motion.div
+                    key={index}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 1 + index * 0.1 }}
+                  >
+                    <Card
+                      variant="ghost"
+                      padding="md"
+                      className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800"
+                    >
+                      <div className="flex items-start gap-3">
+                        <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-500 text-white text-xs font-bold flex items-center justify-center">
+                          {index + 1}
+                        </span>
+                        <div>
+                          <p className="font-medium text-slate-900 dark:text-white text-sm">
+                            {q.question}
+                          </p>
+                          <p className="text-xs text-slate-600 dark:text-slate-400 mt-1">
+                            {q.whyItMatters}
+                          </p>
+                        </div>
+                      </div>
+                    </Card>
+                  </motion.div>
+                );
+              })}
+            </div>
+          </div>
         ))}
       </div>
     </ResultSection>
   );
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// APPLIED ASSUMPTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface AssumptionsDisplayProps {
+  assumptions?: AppliedAssumption[];
+}
+
+function AssumptionsDisplay({ assumptions }: AssumptionsDisplayProps) {
+  if (!assumptions || assumptions.length === 0) return null;
+
+  return (
+    <ResultSection
+      title="Assumptions Made"
+      icon={Wand2}
+      iconBg="bg-amber-100 dark:bg-amber-900/30"
+      iconColor="text-amber-600 dark:text-amber-400"
+      delay={0.1}
+    >
+      <Card variant="default" padding="md">
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+          These questions were not answered, so the analysis assumed an answer. Answer them under
+          Revise an answer below to re-run the affected parts.
+        </p>
+        <ul className="space-y-3">
+          {assumptions.map((a) => (
+            <li key={a.questionId} className="text-sm">
+              <p className="font-medium text-slate-900 dark:text-white">{a.question}</p>
+              <p className="text-slate-600 dark:text-slate-400">
+                Assumed: {a.assumption}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </Card>
+    </ResultSection>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACTION PLAN
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ActionPlanDisplayProps {
+  executiveSummary?: string;
+  actionItems?: ActionItem[];
+  keyTakeaways?: string[];
+}
+
+const PRIORITY_STYLES: Record<ActionItemPriority, { label: string; variant: 'error' | 'warning' | 'default' }> = {
+  critical: { label: 'Critical', variant: 'error' },
+  important: { label: 'Important', variant: 'warning' },
+  optional: { label: 'Optional', variant: 'default' }
+};
+
+function ActionPlanDisplay({ executiveSummary, actionItems = [], keyTakeaways = [] }: ActionPlanDisplayProps) {
+  // Results saved before the synthesis summary was kept have none of these
+  if (!executiveSummary && actionItems.length === 0 && keyTakeaways.length === 0) return null;
+
+  return (
+    <ResultSection
+      title="Action Plan"
+      icon={ListChecks}
+      iconBg="bg-emerald-100 dark:bg-emerald-900/30"
+      iconColor="text-emerald-600 dark:text-emerald-400"
+      delay={1}
+    >
+      <Card variant="default" padding="md" className="space-y-5">
+        {executiveSummary && (
+          <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed">
+            {executiveSummary}
+          </p>
+        )}
+
+        {keyTakeaways.length > 0 && (
+          <div>
+            <h4 className="text-xs font-medium uppercase tracking-wide text-slate-500 mb-2">
+              Key Takeaways
+            </h4>
+            <ul className="space-y-1">
+              {keyTakeaways.map((takeaway, i) => (
+                <li key={i} className="text-sm text-slate-600 dark:text-slate-400 flex items-start gap-2">
+                  <span className="text-emerald-500">•</span>
+                  {takeaway}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {ACTION_ITEM_PRIORITIES.map((priority) => {
+          const items = actionItems.filter((item) => item.priority === priority);
+          if (items.length === 0) return null;
+
+          return (
+            <div key={priority}>
+              <Badge variant={PRIORITY_STYLES[priority].variant} size="sm" className="mb-2">
+                {PRIORITY_STYLES[priority].label}
+              </Badge>
+              <ul className="space-y-3">
+                {items.map((item, i) => (
+                  <li key={i} className="text-sm">
+                    <p className="font-medium text-slate-900 dark:text-white">{item.action}</p>
+                    <p className="text-slate-600 dark:text-slate-400">{item.rationale}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </Card>
+    </ResultSection>
+  );
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // REASONING SECTION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -447,6 +763,8 @@ export function PipelineResults({ result, isStreaming }: PipelineResultsProps) {
     weight: d.weight
   }));
 
+  const industryPreset = getIndustryPreset(result.industry);
+
   return (
     <div className="space-y-8">
       {/* Verdict */}
@@ -464,13 +782,25 @@ export function PipelineResults({ result, isStreaming }: PipelineResultsProps) {
         </motion.div>
       )}
 
+      {/* Assumptions in place of unanswered questions */}
+      <AssumptionsDisplay assumptions={result.appliedAssumptions} />
+
+      {/* Weighted Score Check */}
+      <WeightedVerdictDisplay weighted={result.weightedVerdict} />
+
       {/* Dimension Breakdown */}
       {dimensionsForBreakdown.length > 0 && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
+          className="space-y-3"
         >
+          {industryPreset && (
+            <Badge variant="outline" size="sm">
+              Evaluated with the {industryPreset.label} rubric
+            </Badge>
+          )}
           <DimensionBreakdown dimensions={dimensionsForBreakdown} />
         </motion.div>
       )}
@@ -484,9 +814,19 @@ export function PipelineResults({ result, isStreaming }: PipelineResultsProps) {
       {/* Architecture Recommendation */}
       <ArchitectureDisplay architecture={result.architecture} />
 
+      {/* Operating Cost */}
+      <CostEstimateDisplay estimate={result.costEstimate} />
+
       {/* Pre-build Questions */}
       <PreBuildQuestionsDisplay questions={result.questionsBeforeBuilding} />
 
+      {/* Action Plan */}
+      <ActionPlanDisplay
+        executiveSummary={result.executiveSummary}
+        actionItems={result.actionItems}
+        keyTakeaways={result.keyTakeaways}
+      />
+
       {/* Detailed Reasoning */}
       <ReasoningDisplay reasoning={result.reasoning} />
     </div>
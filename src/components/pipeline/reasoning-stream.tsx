@@ -0,0 +1,67 @@
+'use client';
+
+/**
+ * ReasoningStream - Reasoning text rendered as the model writes it.
+ *
+ * Shows the `reasoning:chunk` text accumulated for the verdict or synthesis
+ * stage, with a blinking cursor while more is expected.
+ *
+ * @module components/pipeline/reasoning-stream
+ */
+
+import { motion } from 'framer-motion';
+import { FileText, Scale } from 'lucide-react';
+import type { ReasoningStage } from '@/lib/pipeline';
+import { Card } from '@/components/ui/card';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ReasoningStreamProps {
+  /** Stage whose reasoning is streaming */
+  stage: ReasoningStage;
+  /** Text received so far */
+  text: string;
+  /** Whether more text is expected */
+  isStreaming?: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STAGE CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const STAGE_CONFIG: Record<ReasoningStage, { title: string; icon: React.ElementType }> = {
+  verdict: { title: 'Weighing the dimensions', icon: Scale },
+  synthesis: { title: 'Writing the summary', icon: FileText }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN COMPONENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function ReasoningStream({ stage, text, isStreaming = true }: ReasoningStreamProps) {
+  if (!text) return null;
+
+  const { title, icon: Icon } = STAGE_CONFIG[stage];
+
+  return (
+    <Card padding="md" className="space-y-3" aria-label={title} aria-busy={isStreaming}>
+      <div className="flex items-center gap-2">
+        <Icon className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-medium text-slate-900 dark:text-white">{title}</h3>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-400 whitespace-pre-wrap leading-relaxed">
+        {text}
+        {isStreaming && (
+          <motion.span
+            aria-hidden="true"
+            className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400"
+            animate={{ opacity: [1, 0, 1] }}
+            transition={{ duration: 1, repeat: Infinity }}
+          />
+        )}
+      </p>
+    </Card>
+  );
+}
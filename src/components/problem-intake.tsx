@@ -10,10 +10,14 @@ import {
   CreditCard,
   TrendingUp,
   Command,
+  Calculator,
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
+import { MODEL_PRICING, DEFAULT_PRICED_MODEL } from '@/lib/pipeline/cost';
+import { INDUSTRY_PRESETS } from '@/lib/pipeline/presets';
+import type { IndustryPresetId, UsageProfile } from '@/lib/pipeline/types';
 
 // ============================================================================
 // TYPES
@@ -24,6 +28,18 @@ interface ProblemIntakeProps {
   onChange: (value: string) => void;
   onSubmit: () => void;
   isLoading: boolean;
+  /** Expected usage for the cost estimate (null when not provided) */
+  usage?: UsageProfile | null;
+  /** Enables the optional usage section when provided */
+  onUsageChange?: (usage: UsageProfile | null) => void;
+  /** Selected industry preset (undefined for the generic rubric) */
+  industry?: IndustryPresetId;
+  /** Enables the industry selector when provided */
+  onIndustryChange?: (industry: IndustryPresetId | undefined) => void;
+  /** Analyses per dimension for self-consistency scoring (1 for a single pass) */
+  samples?: number;
+  /** Enables the scoring samples selector when provided */
+  onSamplesChange?: (samples: number) => void;
 }
 
 interface ExampleCard {
@@ -85,6 +101,19 @@ const verdictLabels = {
   'needs-review': 'Needs Review',
 };
 
+// ============================================================================
+// USAGE DEFAULTS
+// ============================================================================
+
+/** Starting values when the user opens the usage section */
+export const DEFAULT_USAGE_PROFILE: UsageProfile = {
+  requestsPerDay: 500,
+  inputTokensPerRequest: 1000,
+  outputTokensPerRequest: 300,
+  reviewRate: 0.1,
+  model: DEFAULT_PRICED_MODEL,
+};
+
 // ============================================================================
 // ANIMATED PLACEHOLDER
 // ============================================================================
@@ -176,6 +205,220 @@ function ExampleCardItem({
   );
 }
 
+// ============================================================================
+// USAGE FIELDS COMPONENT
+// ============================================================================
+
+const usageInputClass =
+  'w-full min-h-[44px] px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/20 disabled:opacity-50';
+
+function UsageNumberField({
+  id,
+  label,
+  value,
+  min = 0,
+  max,
+  step = 1,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label htmlFor={id} className="space-y-1.5">
+      <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        {label}
+      </span>
+      <input
+        id={id}
+        type="number"
+        inputMode="numeric"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next)) {
+            onChange(Math.max(min, max !== undefined ? Math.min(max, next) : next));
+          }
+        }}
+        className={usageInputClass}
+      />
+    </label>
+  );
+}
+
+function UsageFields({
+  usage,
+  onChange,
+  disabled,
+}: {
+  usage: UsageProfile;
+  onChange: (usage: UsageProfile) => void;
+  disabled: boolean;
+}) {
+  const update = (patch: Partial<UsageProfile>) => onChange({ ...usage, ...patch });
+
+  return (
+    <Card padding="md" className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+          Expected usage
+        </h3>
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          Used to estimate monthly model and human review cost
+        </p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <UsageNumberField
+          id="usage-requests"
+          label="Requests per day"
+          value={usage.requestsPerDay}
+          disabled={disabled}
+          onChange={(requestsPerDay) => update({ requestsPerDay })}
+        />
+        <label htmlFor="usage-model" className="space-y-1.5">
+          <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+            Model
+          </span>
+          <select
+            id="usage-model"
+            value={usage.model ?? DEFAULT_PRICED_MODEL}
+            disabled={disabled}
+            onChange={(e) => update({ model: e.target.value })}
+            className={usageInputClass}
+          >
+            {MODEL_PRICING.map((pricing) => (
+              <option key={pricing.id} value={pricing.id}>
+                {pricing.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <UsageNumberField
+          id="usage-input-tokens"
+          label="Input tokens per request"
+          value={usage.inputTokensPerRequest}
+          step={100}
+          disabled={disabled}
+          onChange={(inputTokensPerRequest) => update({ inputTokensPerRequest })}
+        />
+        <UsageNumberField
+          id="usage-output-tokens"
+          label="Output tokens per request"
+          value={usage.outputTokensPerRequest}
+          step={100}
+          disabled={disabled}
+          onChange={(outputTokensPerRequest) => update({ outputTokensPerRequest })}
+        />
+        <UsageNumberField
+          id="usage-review-rate"
+          label="Outputs reviewed by a human (%)"
+          value={Math.round(usage.reviewRate * 100)}
+          max={100}
+          disabled={disabled}
+          onChange={(percent) => update({ reviewRate: percent / 100 })}
+        />
+      </div>
+    </Card>
+  );
+}
+
+// ============================================================================
+// INDUSTRY SELECT COMPONENT
+// ============================================================================
+
+function IndustrySelect({
+  industry,
+  onChange,
+  disabled,
+}: {
+  industry?: IndustryPresetId;
+  onChange: (industry: IndustryPresetId | undefined) => void;
+  disabled: boolean;
+}) {
+  const preset = industry ? INDUSTRY_PRESETS[industry] : undefined;
+
+  return (
+    <label htmlFor="industry-preset" className="block space-y-1.5">
+      <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        Industry
+      </span>
+      <select
+        id="industry-preset"
+        value={industry ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange((e.target.value || undefined) as IndustryPresetId | undefined)}
+        className={usageInputClass}
+      >
+        <option value="">General (no industry rubric)</option>
+        {Object.values(INDUSTRY_PRESETS).map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+      {preset && (
+        <span className="block text-xs text-slate-500 dark:text-slate-400">
+          {preset.description}. Dimension rubrics and weights are adjusted for this industry.
+        </span>
+      )}
+    </label>
+  );
+}
+
+// ============================================================================
+// SAMPLING SELECT COMPONENT
+// ============================================================================
+
+const SAMPLE_OPTIONS = [1, 3, 5];
+
+function SamplingSelect({
+  samples,
+  onChange,
+  disabled,
+}: {
+  samples: number;
+  onChange: (samples: number) => void;
+  disabled: boolean;
+}) {
+  return (
+    <label htmlFor="dimension-samples" className="block space-y-1.5">
+      <span className="block text-xs font-medium text-slate-600 dark:text-slate-400">
+        Scoring samples
+      </span>
+      <select
+        id="dimension-samples"
+        value={samples}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className={usageInputClass}
+      >
+        {SAMPLE_OPTIONS.map((n) => (
+          <option key={n} value={n}>
+            {n === 1 ? 'Single pass' : `${n} samples per dimension`}
+          </option>
+        ))}
+      </select>
+      {samples > 1 && (
+        <span className="block text-xs text-slate-500 dark:text-slate-400">
+          Each dimension is scored {samples} times and the majority score wins; confidence reflects how
+          often the samples agree. Slower and costs more.
+        </span>
+      )}
+    </label>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -185,6 +428,12 @@ export function ProblemIntake({
   onChange,
   onSubmit,
   isLoading,
+  usage = null,
+  onUsageChange,
+  industry,
+  onIndustryChange,
+  samples = 1,
+  onSamplesChange,
 }: ProblemIntakeProps) {
   const [showExamples, setShowExamples] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
@@ -362,16 +611,55 @@ export function ProblemIntake({
           </div>
         </div>
 
+        {/* Industry Preset */}
+        {onIndustryChange && (
+          <IndustrySelect industry={industry} onChange={onIndustryChange} disabled={isLoading} />
+        )}
+
+        {/* Self-consistency Sampling */}
+        {onSamplesChange && (
+          <SamplingSelect samples={samples} onChange={onSamplesChange} disabled={isLoading} />
+        )}
+
+        {/* Usage Section */}
+        <AnimatePresence>
+          {onUsageChange && usage && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.3 }}
+              className="overflow-hidden"
+            >
+              <UsageFields usage={usage} onChange={onUsageChange} disabled={isLoading} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Actions - stack on mobile */}
         <div className="flex flex-col-reverse sm:flex-row items-stretch sm:items-center justify-between gap-3 sm:gap-4">
-          <button
-            type="button"
-            onClick={() => setShowExamples(!showExamples)}
-            className="min-h-[44px] px-4 py-2 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors flex items-center justify-center gap-2"
-          >
-            <Sparkles className="w-4 h-4" />
-            {showExamples ? 'Hide examples' : 'Try an example'}
-          </button>
+          <div className="flex flex-col sm:flex-row gap-1">
+            <button
+              type="button"
+              onClick={() => setShowExamples(!showExamples)}
+              className="min-h-[44px] px-4 py-2 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <Sparkles className="w-4 h-4" />
+              {showExamples ? 'Hide examples' : 'Try an example'}
+            </button>
+
+            {onUsageChange && (
+              <button
+                type="button"
+                onClick={() => onUsageChange(usage ? null : DEFAULT_USAGE_PROFILE)}
+                aria-expanded={!!usage}
+                className="min-h-[44px] px-4 py-2 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                <Calculator className="w-4 h-4" />
+                {usage ? 'Skip cost estimate' : 'Estimate operating cost'}
+              </button>
+            )}
+          </div>
 
           <Button
             type="submit"
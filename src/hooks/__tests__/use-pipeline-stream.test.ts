@@ -129,6 +129,58 @@ describe('pipelineReducer', () => {
       expect(newState.pendingQuestions[0].id).toBe('q2');
     });
   });
+
+  describe('LOAD_RESULT', () => {
+    it('rebuilds a completed state from a stored result', () => {
+      const state: PipelineState = {
+        ...createInitialPipelineState(),
+        phase: 'dimensions',
+        runId: 'other-run'
+      };
+      const action: PipelineAction = {
+        type: 'LOAD_RESULT',
+        result: {
+          threadId: 'thread-1',
+          problem: 'Test problem',
+          verdict: 'CONDITIONAL',
+          confidence: 0.7,
+          summary: 'Works with review',
+          reasoning: 'Because...',
+          dimensions: [
+            {
+              id: 'error_tolerance',
+              name: 'Error Tolerance',
+              score: 'neutral',
+              confidence: 0.8,
+              weight: 0.9,
+              reasoning: 'Errors are caught in review',
+              evidence: [],
+              infoGaps: [],
+              status: 'complete'
+            }
+          ],
+          keyFactors: [],
+          risks: [],
+          alternatives: [],
+          architecture: null,
+          questionsBeforeBuilding: [],
+          answeredQuestions: [{ questionId: 'q1', answer: 'Daily' }],
+          durationMs: 5000
+        }
+      };
+
+      const newState = pipelineReducer(state, action);
+
+      expect(newState.phase).toBe('complete');
+      expect(newState.runId).toBe('thread-1');
+      expect(newState.progress).toBe(100);
+      expect(newState.result).toBe(action.result);
+      expect(newState.verdict?.verdict).toBe('CONDITIONAL');
+      expect(newState.dimensions.get('error_tolerance')?.score).toBe('neutral');
+      expect(newState.dimensionProgress).toEqual({ completed: 1, total: 1 });
+      expect(newState.answeredQuestions.get('q1')).toBe('Daily');
+    });
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -352,6 +404,20 @@ describe('pipelineReducer - chunk handling', () => {
       });
     });
 
+    it('counts custom dimensions in the progress total', () => {
+      let state = createInitialPipelineState();
+      const ids = ['task_determinism', 'error_tolerance', 'data_availability', 'evaluation_clarity',
+        'edge_case_risk', 'human_oversight_cost', 'rate_of_change', 'data_residency'];
+      for (const id of ids) {
+        state = pipelineReducer(state, {
+          type: 'CHUNK_RECEIVED',
+          chunk: createChunk({ type: 'dimension:start', id, name: id, priority: 'medium' })
+        });
+      }
+
+      expect(state.dimensionProgress).toEqual({ completed: 0, total: 8 });
+    });
+
     it('handles dimension:preliminary', () => {
       const state: PipelineState = {
         ...createInitialPipelineState(),
@@ -515,6 +581,48 @@ describe('pipelineReducer - chunk handling', () => {
       expect(newState.reasoningChunks).toContain('analysis...');
     });
 
+    it('accumulates verdict-stage chunks separately', () => {
+      const state: PipelineState = {
+        ...createInitialPipelineState(),
+        verdictReasoning: 'Weighing '
+      };
+      const chunk = createChunk({
+        type: 'reasoning:chunk',
+        chunk: 'the dimensions',
+        stage: 'verdict'
+      });
+
+      const newState = pipelineReducer(state, {
+        type: 'CHUNK_RECEIVED',
+        chunk
+      });
+
+      expect(newState.verdictReasoning).toBe('Weighing the dimensions');
+      expect(newState.reasoning).toBe('');
+    });
+
+    it('restarts streamed reasoning on reasoning:start and verdict:computing', () => {
+      const state: PipelineState = {
+        ...createInitialPipelineState(),
+        reasoning: 'Half a',
+        reasoningChunks: ['Half a'],
+        verdictReasoning: 'Half a'
+      };
+
+      const synthesis = pipelineReducer(state, {
+        type: 'CHUNK_RECEIVED',
+        chunk: createChunk({ type: 'reasoning:start' })
+      });
+      const verdict = pipelineReducer(state, {
+        type: 'CHUNK_RECEIVED',
+        chunk: createChunk({ type: 'verdict:computing', completedDimensions: 7, totalDimensions: 7 })
+      });
+
+      expect(synthesis.reasoning).toBe('');
+      expect(synthesis.reasoningChunks).toEqual([]);
+      expect(verdict.verdictReasoning).toBe('');
+    });
+
     it('handles reasoning:complete', () => {
       const state = createInitialPipelineState();
       const chunk = createChunk({
@@ -529,6 +637,29 @@ describe('pipelineReducer - chunk handling', () => {
 
       expect(newState.reasoning).toBe('Full reasoning text here');
       expect(newState.progress).toBe(98);
+      expect(newState.synthesis).toBeNull();
+    });
+
+    it('keeps the synthesis summary from reasoning:complete', () => {
+      const state = createInitialPipelineState();
+      const chunk = createChunk({
+        type: 'reasoning:complete',
+        reasoning: 'Full reasoning text here',
+        executiveSummary: 'Pilot it with review',
+        actionItems: [{ action: 'Label 500 tickets', priority: 'critical', rationale: 'Baseline' }],
+        keyTakeaways: ['Review is required']
+      });
+
+      const newState = pipelineReducer(state, {
+        type: 'CHUNK_RECEIVED',
+        chunk
+      });
+
+      expect(newState.synthesis).toEqual({
+        executiveSummary: 'Pilot it with review',
+        actionItems: [{ action: 'Label 500 tickets', priority: 'critical', rationale: 'Baseline' }],
+        keyTakeaways: ['Review is required']
+      });
     });
   });
 });
@@ -21,6 +21,7 @@ import type {
   PartialInsight,
   PreliminarySignal,
   DimensionId,
+  SynthesisSummary,
   AnalysisResult
 } from '@/lib/pipeline';
 import type { PipelineChunk } from '@/lib/pipeline/client';
@@ -31,9 +32,12 @@ import type { PipelineChunk } from '@/lib/pipeline/client';
 
 /**
  * Deep partial type for streaming data.
- * Matches the pattern used in existing components.
+ * Matches the pattern used in existing components. Strings are kept
+ * whole so open string unions such as DimensionId stay strings.
  */
-export type DeepPartial<T> = T extends object
+export type DeepPartial<T> = T extends string
+  ? T
+  : T extends object
   ? { [P in keyof T]?: DeepPartial<T[P]> }
   : T;
 
@@ -92,6 +96,7 @@ export interface PipelineState {
 
   // Verdict
   verdict: DeepPartial<VerdictResult> | null;
+  verdictReasoning: string;
 
   // Secondary analysis
   risks: DeepPartial<RiskFactor>[];
@@ -102,6 +107,7 @@ export interface PipelineState {
   // Synthesis
   reasoning: string;
   reasoningChunks: string[];
+  synthesis: SynthesisSummary | null;
 
   // Questions & suspension
   pendingQuestions: FollowUpQuestion[];
@@ -138,6 +144,7 @@ export function createInitialPipelineState(): PipelineState {
     dimensionProgress: { completed: 0, total: 7 },
 
     verdict: null,
+    verdictReasoning: '',
 
     risks: [],
     alternatives: [],
@@ -146,6 +153,7 @@ export function createInitialPipelineState(): PipelineState {
 
     reasoning: '',
     reasoningChunks: [],
+    synthesis: null,
 
     pendingQuestions: [],
     suspendedStage: null,
@@ -164,6 +172,7 @@ export type PipelineAction =
   | { type: 'CHUNK_RECEIVED'; chunk: PipelineChunk }
   | { type: 'STREAM_ERROR'; error: Error }
   | { type: 'ANSWER_SUBMITTED'; questionId: string; answer: string }
+  | { type: 'LOAD_RESULT'; result: AnalysisResult }
   | { type: 'RESET' };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -213,6 +222,9 @@ export function pipelineReducer(
         )
       };
 
+    case 'LOAD_RESULT':
+      return createStateFromResult(action.result);
+
     case 'RESET':
       return createInitialPipelineState();
 
@@ -221,6 +233,42 @@ export function pipelineReducer(
   }
 }
 
+/**
+ * Rebuild a completed pipeline state from a stored result (assessment history).
+ */
+function createStateFromResult(result: AnalysisResult): PipelineState {
+  return {
+    ...createInitialPipelineState(),
+    phase: 'complete',
+    runId: result.threadId,
+    progress: 100,
+    dimensions: new Map(result.dimensions.map((d) => [d.id, d])),
+    dimensionProgress: { completed: result.dimensions.length, total: result.dimensions.length },
+    verdict: {
+      verdict: result.verdict,
+      confidence: result.confidence,
+      summary: result.summary,
+      reasoning: result.reasoning,
+      keyFactors: result.keyFactors,
+      weighted: result.weightedVerdict
+    },
+    risks: result.risks,
+    alternatives: result.alternatives,
+    architecture: result.architecture,
+    preBuildQuestions: result.questionsBeforeBuilding,
+    reasoning: result.reasoning,
+    synthesis: result.executiveSummary !== undefined
+      ? {
+          executiveSummary: result.executiveSummary,
+          actionItems: result.actionItems ?? [],
+          keyTakeaways: result.keyTakeaways ?? []
+        }
+      : null,
+    answeredQuestions: new Map(result.answeredQuestions.map((a) => [a.questionId, a.answer])),
+    result
+  };
+}
+
 /**
  * Handle a single chunk from processDataStream.
  */
@@ -349,7 +397,12 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       return {
         ...state,
         currentDimension: event.id,
-        dimensions: newDimensions
+        dimensions: newDimensions,
+        // Custom dimensions raise the total above the 7 built-ins
+        dimensionProgress: {
+          ...state.dimensionProgress,
+          total: Math.max(state.dimensionProgress.total, newDimensions.size)
+        }
       };
     }
 
@@ -384,12 +437,13 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       const completed = Array.from(newDimensions.values()).filter(
         d => d.status === 'complete'
       ).length;
+      const total = Math.max(state.dimensionProgress.total, newDimensions.size);
       return {
         ...state,
         dimensions: newDimensions,
         currentDimension: null,
-        dimensionProgress: { completed, total: 7 },
-        progress: 20 + Math.round((completed / 7) * 40) // 20-60%
+        dimensionProgress: { completed, total },
+        progress: 20 + Math.round((completed / total) * 40) // 20-60%
       };
     }
 
@@ -406,7 +460,8 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       return {
         ...state,
         phase: 'verdict',
-        progress: 65
+        progress: 65,
+        verdictReasoning: ''
       };
 
     case 'verdict:result':
@@ -415,7 +470,8 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
         verdict: {
           verdict: event.verdict,
           confidence: event.confidence,
-          summary: event.summary
+          summary: event.summary,
+          weighted: event.weighted
         },
         progress: 75
       };
@@ -479,10 +535,18 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       return {
         ...state,
         phase: 'synthesis',
-        progress: 95
+        progress: 95,
+        reasoning: '',
+        reasoningChunks: []
       };
 
     case 'reasoning:chunk':
+      if (event.stage === 'verdict') {
+        return {
+          ...state,
+          verdictReasoning: state.verdictReasoning + event.chunk
+        };
+      }
       return {
         ...state,
         reasoning: state.reasoning + event.chunk,
@@ -493,6 +557,13 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       return {
         ...state,
         reasoning: event.reasoning,
+        synthesis: event.executiveSummary !== undefined
+          ? {
+              executiveSummary: event.executiveSummary,
+              actionItems: event.actionItems ?? [],
+              keyTakeaways: event.keyTakeaways ?? []
+            }
+          : state.synthesis,
         progress: 98
       };
 
@@ -512,6 +583,15 @@ function handleChunk(state: PipelineState, chunk: PipelineChunk): PipelineState
       };
     }
 
+    case 'answer:assumed':
+      // Answered with its current assumption; listed in result.appliedAssumptions
+      return {
+        ...state,
+        pendingQuestions: state.pendingQuestions.filter(
+          q => q.id !== event.questionId
+        )
+      };
+
     default:
       return state;
   }
@@ -41,10 +41,11 @@ import { useReducer, useCallback, useRef, useMemo, useEffect } from 'react';
 import {
   PipelineClient,
   type PipelineRun,
-  type PipelineChunk
+  type PipelineChunk,
+  type RunInput
 } from '@/lib/pipeline/client';
 import type { Answer } from '@/app/api/pipeline/_lib/validation';
-import type { FollowUpQuestion, DimensionAnalysis } from '@/lib/pipeline';
+import type { FollowUpQuestion, DimensionAnalysis, AnalysisResult } from '@/lib/pipeline';
 import {
   pipelineReducer,
   createInitialPipelineState,
@@ -83,10 +84,16 @@ export interface UsePipelineReturn {
   state: PipelineState;
 
   // Actions
-  startPipeline: (problem: string, context?: string) => Promise<void>;
+  startPipeline: (
+    problem: string,
+    context?: string,
+    options?: Omit<RunInput, 'problem' | 'context'>
+  ) => Promise<void>;
   resumePipeline: (answers: Answer[]) => Promise<void>;
   cancelPipeline: () => Promise<void>;
   reset: () => void;
+  /** Show a stored result (e.g. from the assessment history) as a completed run */
+  loadResult: (result: AnalysisResult) => void;
 
   // Convenience methods
   answerQuestion: (questionId: string, answer: string) => void;
@@ -180,11 +187,11 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
   // ─────────────────────────────────────────────────────────────────────────
 
   const startPipeline = useCallback(
-    async (problem: string, context?: string) => {
+    async (problem: string, context?: string, options?: Omit<RunInput, 'problem' | 'context'>) => {
       const client = getClient();
 
       // Create a new run
-      const run = client.createRun({ problem, context });
+      const run = client.createRun({ problem, context, ...options });
       currentRunRef.current = run;
       pendingAnswersRef.current.clear();
 
@@ -224,9 +231,15 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
         throw new Error('Pipeline is not suspended');
       }
 
+      // Keep the question text with each answer so it can be revised later
+      const withQuestions = answers.map((answer) => ({
+        ...answer,
+        question: answer.question ?? state.pendingQuestions.find((q) => q.id === answer.questionId)?.question
+      }));
+
       try {
         // Update local state with answers
-        for (const answer of answers) {
+        for (const answer of withQuestions) {
           dispatch({
             type: 'ANSWER_SUBMITTED',
             questionId: answer.questionId,
@@ -235,7 +248,7 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
         }
 
         // Resume the stream
-        const stream = await run.resume(answers);
+        const stream = await run.resume(withQuestions);
 
         // Process the resumed stream
         await stream.processDataStream({
@@ -248,7 +261,7 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
         });
       }
     },
-    [state.phase, handleChunk]
+    [state.phase, state.pendingQuestions, handleChunk]
   );
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -285,6 +298,21 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
     dispatch({ type: 'RESET' });
   }, [state.runId]);
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // LOAD STORED RESULT
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const loadResult = useCallback((result: AnalysisResult) => {
+    const run = currentRunRef.current;
+    if (run) {
+      run.cancel();
+      currentRunRef.current = null;
+    }
+
+    pendingAnswersRef.current.clear();
+    dispatch({ type: 'LOAD_RESULT', result });
+  }, []);
+
   // ─────────────────────────────────────────────────────────────────────────
   // CONVENIENCE METHODS
   // ─────────────────────────────────────────────────────────────────────────
@@ -352,6 +380,7 @@ export function usePipeline(options: UsePipelineOptions = {}): UsePipelineReturn
     resumePipeline,
     cancelPipeline,
     reset,
+    loadResult,
 
     // Convenience
     answerQuestion,
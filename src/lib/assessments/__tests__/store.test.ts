@@ -0,0 +1,209 @@
+/**
+ * Tests for the assessment history store.
+ *
+ * @module assessments/__tests__/store.test
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InMemoryStore } from '@mastra/core/storage';
+import {
+  VERSION_RESOURCE_PREFIX,
+  createAssessmentStore,
+  defaultAssessmentTitle,
+  type AssessmentStore
+} from '../store';
+import { AssessmentUpdateSchema } from '../types';
+import type { AnalysisResult } from '@/lib/pipeline/types';
+
+function createResult(threadId: string, overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return {
+    threadId,
+    problem: 'Classify incoming support tickets by urgency and product area',
+    verdict: 'STRONG_FIT',
+    confidence: 0.85,
+    summary: 'Good fit',
+    reasoning: 'Because...',
+    dimensions: [],
+    keyFactors: [],
+    risks: [],
+    alternatives: [],
+    architecture: null,
+    questionsBeforeBuilding: [],
+    answeredQuestions: [],
+    durationMs: 4000,
+    ...overrides
+  };
+}
+
+describe('Assessment Store', () => {
+  let storage: InMemoryStore;
+  let store: AssessmentStore;
+
+  beforeEach(() => {
+    storage = new InMemoryStore();
+    store = createAssessmentStore(storage);
+  });
+
+  it('should save a result and read it back', async () => {
+    const result = createResult('run-1');
+
+    const saved = await store.save(result);
+    const loaded = await store.get('run-1');
+
+    expect(saved.title).toBe(result.problem);
+    expect(loaded).toMatchObject({ threadId: 'run-1', verdict: 'STRONG_FIT', tags: [], result });
+  });
+
+  it('should list assessments most recent first without results', async () => {
+    await store.save(createResult('run-1'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.save(createResult('run-2', { verdict: 'WEAK_FIT' }));
+
+    const list = await store.list();
+
+    expect(list.map((a) => a.threadId)).toEqual(['run-2', 'run-1']);
+    expect(list[0].verdict).toBe('WEAK_FIT');
+    expect(list[0]).not.toHaveProperty('result');
+  });
+
+  it('should ignore threads that are not assessments', async () => {
+    await storage.saveThread({
+      thread: { id: 'chat-1', resourceId: 'user-1', createdAt: new Date(), updatedAt: new Date() }
+    });
+
+    expect(await store.get('chat-1')).toBeNull();
+    expect(await store.remove('chat-1')).toBe(false);
+  });
+
+  it('should rename and retag, deduplicating tags', async () => {
+    await store.save(createResult('run-1'));
+
+    const updated = await store.update('run-1', { title: 'Ticket triage', tags: ['support', 'Support', ' q3 '] });
+
+    expect(updated).toMatchObject({ title: 'Ticket triage', tags: ['support', 'q3'] });
+    expect((await store.get('run-1'))?.tags).toEqual(['support', 'q3']);
+    expect(await store.update('missing', { title: 'x' })).toBeNull();
+  });
+
+  it('should keep the title and tags when a result is saved again', async () => {
+    await store.save(createResult('run-1'));
+    await store.update('run-1', { title: 'Ticket triage', tags: ['support'] });
+
+    const saved = await store.save(createResult('run-1', { verdict: 'CONDITIONAL' }));
+
+    expect(saved).toMatchObject({ title: 'Ticket triage', tags: ['support'], verdict: 'CONDITIONAL' });
+  });
+
+  it('should keep the run input when a result is saved again without it', async () => {
+    const input = { problem: 'Classify incoming support tickets', context: 'About 2,000 tickets a day' };
+    await store.save(createResult('run-1'), input);
+    await store.save(createResult('run-1', { verdict: 'WEAK_FIT' }));
+
+    expect((await store.get('run-1'))?.input).toEqual(input);
+  });
+
+  it('should delete assessments', async () => {
+    await store.save(createResult('run-1'));
+
+    expect(await store.remove('run-1')).toBe(true);
+    expect(await store.get('run-1')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should group re-runs into versions of the first assessment', async () => {
+    await store.save(createResult('run-1'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.save(createResult('run-2', { parentThreadId: 'run-1', verdict: 'CONDITIONAL' }));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.save(createResult('run-3', { parentThreadId: 'run-2' }));
+    await store.save(createResult('other'));
+
+    const versions = await store.versions('run-2');
+
+    expect(versions?.map((v) => [v.version, v.threadId, v.parentThreadId])).toEqual([
+      [1, 'run-1', undefined],
+      [2, 'run-2', 'run-1'],
+      [3, 'run-3', 'run-2']
+    ]);
+    expect(versions?.every((v) => v.rootThreadId === 'run-1')).toBe(true);
+    expect(await store.versions('other')).toHaveLength(1);
+    expect(await store.versions('missing')).toBeNull();
+  });
+
+  it('should list versions from the group index instead of the whole history', async () => {
+    await store.save(createResult('run-1'));
+    await store.save(createResult('run-2', { parentThreadId: 'run-1' }));
+    const getThreadsByResourceId = vi.spyOn(storage, 'getThreadsByResourceId');
+
+    const versions = await store.versions('run-2');
+
+    expect(versions?.map((v) => v.threadId)).toEqual(['run-1', 'run-2']);
+    expect(getThreadsByResourceId).toHaveBeenCalledTimes(1);
+    expect(getThreadsByResourceId.mock.calls[0][0].resourceId).toBe(`${VERSION_RESOURCE_PREFIX}:run-1`);
+  });
+
+  it('should drop a deleted version from its group', async () => {
+    await store.save(createResult('run-1'));
+    await store.save(createResult('run-2', { parentThreadId: 'run-1' }));
+
+    await store.remove('run-2');
+
+    expect((await store.versions('run-1'))?.map((v) => v.threadId)).toEqual(['run-1']);
+    expect(await storage.getThreadById({ threadId: 'run-2:version' })).toBeNull();
+  });
+
+  it('should keep the version group when the first version is deleted', async () => {
+    await store.save(createResult('run-1'));
+    await store.save(createResult('run-2', { parentThreadId: 'run-1' }));
+    await store.remove('run-1');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.save(createResult('run-3', { parentThreadId: 'run-1' }));
+
+    const versions = await store.versions('run-3');
+
+    expect(versions?.map((v) => [v.version, v.threadId])).toEqual([
+      [1, 'run-2'],
+      [2, 'run-3']
+    ]);
+  });
+
+  it('should page the assessments of one owner, most recent first', async () => {
+    for (const id of ['run-1', 'run-2', 'run-3', 'run-4']) {
+      await store.save(createResult(id, { ownerId: 'portfolio' }));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await store.save(createResult('web-1'));
+    await store.save(createResult('other-1', { ownerId: 'reporting' }));
+
+    const page = await store.page({ ownerId: 'portfolio', limit: 2, offset: 1 });
+
+    expect(page.total).toBe(4);
+    expect(page.assessments.map((a) => [a.threadId, a.ownerId])).toEqual([
+      ['run-3', 'portfolio'],
+      ['run-2', 'portfolio']
+    ]);
+    expect((await store.page({ limit: 20, offset: 0 })).assessments.map((a) => a.threadId)).toEqual(['web-1']);
+    expect((await store.list()).map((a) => a.threadId)).toEqual(['web-1']);
+  });
+
+  it('should not join the version group of another owner', async () => {
+    await store.save(createResult('run-1', { ownerId: 'portfolio' }));
+    await store.save(createResult('run-2', { ownerId: 'reporting', parentThreadId: 'run-1' }));
+
+    expect((await store.get('run-2'))?.rootThreadId).toBe('run-2');
+    expect(await store.versions('run-1')).toHaveLength(1);
+  });
+
+  it('should truncate long problems for the default title', () => {
+    const title = defaultAssessmentTitle(`${'a'.repeat(100)}\nsecond line`);
+
+    expect(title).toHaveLength(80);
+    expect(title.endsWith('…')).toBe(true);
+  });
+
+  it('should require a title or tags in an update', () => {
+    expect(AssessmentUpdateSchema.safeParse({}).success).toBe(false);
+    expect(AssessmentUpdateSchema.safeParse({ title: '  ' }).success).toBe(false);
+    expect(AssessmentUpdateSchema.safeParse({ tags: ['pilot'] }).success).toBe(true);
+  });
+});
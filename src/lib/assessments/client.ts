@@ -0,0 +1,119 @@
+/**
+ * Browser client for the assessment history API.
+ *
+ * @module assessments/client
+ */
+
+import type { AnalysisDiff } from '@/lib/pipeline/comparison/diff';
+import type { Assessment, AssessmentSummary, AssessmentUpdate, AssessmentVersion } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Response of GET /api/assessments/:threadId/diff.
+ */
+export interface AssessmentDiffResponse {
+  from: AssessmentSummary;
+  to: AssessmentSummary;
+  diff: AnalysisDiff;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function request<T>(url: string, init: RequestInit | undefined, action: string): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `${action} failed: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+function assessmentUrl(baseUrl: string, threadId: string): string {
+  return `${baseUrl}/api/assessments/${encodeURIComponent(threadId)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lists stored assessments, most recent first.
+ */
+export async function listAssessments(baseUrl = ''): Promise<AssessmentSummary[]> {
+  const data = await request<{ assessments: AssessmentSummary[] }>(
+    `${baseUrl}/api/assessments`,
+    undefined,
+    'Loading assessments'
+  );
+  return data.assessments;
+}
+
+/**
+ * Fetches an assessment with its full result.
+ */
+export function getAssessment(threadId: string, baseUrl = ''): Promise<Assessment> {
+  return request<Assessment>(assessmentUrl(baseUrl, threadId), undefined, 'Loading assessment');
+}
+
+/**
+ * Renames and/or retags an assessment.
+ */
+export function updateAssessment(
+  threadId: string,
+  update: AssessmentUpdate,
+  baseUrl = ''
+): Promise<Assessment> {
+  return request<Assessment>(
+    assessmentUrl(baseUrl, threadId),
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update)
+    },
+    'Updating assessment'
+  );
+}
+
+/**
+ * Deletes an assessment.
+ */
+export async function deleteAssessment(threadId: string, baseUrl = ''): Promise<void> {
+  await request<{ deleted: boolean }>(
+    assessmentUrl(baseUrl, threadId),
+    { method: 'DELETE' },
+    'Deleting assessment'
+  );
+}
+
+/**
+ * Lists every version of an assessment's problem, oldest first.
+ */
+export async function listVersions(threadId: string, baseUrl = ''): Promise<AssessmentVersion[]> {
+  const data = await request<{ versions: AssessmentVersion[] }>(
+    `${assessmentUrl(baseUrl, threadId)}/versions`,
+    undefined,
+    'Loading versions'
+  );
+  return data.versions;
+}
+
+/**
+ * Diffs an assessment against `from`, or its previous version by default.
+ */
+export function diffAssessments(
+  threadId: string,
+  from?: string,
+  baseUrl = ''
+): Promise<AssessmentDiffResponse> {
+  const query = from ? `?from=${encodeURIComponent(from)}` : '';
+  return request<AssessmentDiffResponse>(
+    `${assessmentUrl(baseUrl, threadId)}/diff${query}`,
+    undefined,
+    'Comparing versions'
+  );
+}
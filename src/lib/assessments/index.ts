@@ -0,0 +1,31 @@
+/**
+ * Assessment history exports (server side).
+ *
+ * The history panel imports `./client` and `./types` directly so the
+ * storage layer stays out of the browser bundle.
+ *
+ * @module assessments
+ */
+
+export {
+  ASSESSMENT_RESOURCE_ID,
+  assessmentResourceId,
+  createAssessmentStore,
+  defaultAssessmentTitle,
+  getAssessmentStore,
+  resetAssessmentStore,
+  recordAssessment,
+  type AssessmentStore
+} from './store';
+
+export {
+  AssessmentUpdateSchema,
+  MAX_TAGS,
+  MAX_TITLE_LENGTH,
+  type Assessment,
+  type AssessmentPage,
+  type AssessmentPageQuery,
+  type AssessmentSummary,
+  type AssessmentUpdate,
+  type AssessmentVersion
+} from './types';
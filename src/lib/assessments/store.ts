@@ -0,0 +1,397 @@
+/**
+ * Assessment history store.
+ *
+ * Persists completed analyses in the Mastra storage the workflow already
+ * uses for snapshots (the checkpoint store selected by `CHECKPOINT_STORE`:
+ * Postgres, SQLite or memory). Each assessment is a storage thread keyed by the
+ * result's threadId, with the full `AnalysisResult`, tags and list fields
+ * kept in the thread metadata.
+ *
+ * A result with a `parentThreadId` is a re-run: it joins the version group of
+ * its parent, identified by the group's first assessment (`rootThreadId`).
+ * Versions keep their group when earlier ones are deleted. Each later version
+ * also gets an index entry stored under its group's resource id, so a group
+ * is listed by the storage rather than by scanning the history.
+ *
+ * Assessments of an owner (the API key that started the run) are stored
+ * under their own resource id, so each owner's history is listed and paged
+ * by the storage itself and never mixed into the web history.
+ *
+ * @module assessments/store
+ */
+
+import type { StorageThreadType } from '@mastra/core/memory';
+import type { MastraStorage } from '@mastra/core/storage';
+import type { AnalysisResult, PipelineInput } from '@/lib/pipeline/types';
+import type {
+  Assessment,
+  AssessmentPage,
+  AssessmentPageQuery,
+  AssessmentSummary,
+  AssessmentUpdate,
+  AssessmentVersion
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resource id all assessment threads are stored under.
+ */
+export const ASSESSMENT_RESOURCE_ID = 'assessment-history';
+
+/**
+ * Prefix of the resource ids the version index entries are stored under.
+ */
+export const VERSION_RESOURCE_PREFIX = 'assessment-versions';
+
+/** Length of the problem excerpt used as the default title */
+const DEFAULT_TITLE_LENGTH = 80;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Store for completed assessments.
+ */
+export interface AssessmentStore {
+  /** Stores a completed result; re-saving keeps the existing title, tags and input */
+  save(result: AnalysisResult, input?: PipelineInput): Promise<Assessment>;
+  /** Lists the web history (assessments without an owner), most recent first */
+  list(): Promise<AssessmentSummary[]>;
+  /** Lists one page of an owner's assessments, most recent first */
+  page(query: AssessmentPageQuery): Promise<AssessmentPage>;
+  /** Gets an assessment with its full result, or null if unknown */
+  get(threadId: string): Promise<Assessment | null>;
+  /** Renames and/or retags an assessment; null if unknown */
+  update(threadId: string, update: AssessmentUpdate): Promise<Assessment | null>;
+  /** Deletes an assessment; false if unknown */
+  remove(threadId: string): Promise<boolean>;
+  /** Lists every version of an assessment's problem, oldest first; null if unknown */
+  versions(threadId: string): Promise<AssessmentVersion[] | null>;
+}
+
+/**
+ * Shape of the thread metadata for an assessment.
+ */
+type AssessmentMetadata = {
+  kind: 'assessment';
+  tags: string[];
+  /** Version group; missing on assessments stored before versioning */
+  rootThreadId?: string;
+  result: AnalysisResult;
+  /** Run input, kept so the assessment can be revised with the same context */
+  input?: PipelineInput;
+};
+
+/**
+ * Shape of the thread metadata for a version index entry.
+ */
+type VersionEntryMetadata = {
+  kind: 'assessment-version';
+  threadId: string;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resource id the assessments of an owner are stored under.
+ */
+export function assessmentResourceId(ownerId?: string): string {
+  return ownerId ? `${ASSESSMENT_RESOURCE_ID}:${ownerId}` : ASSESSMENT_RESOURCE_ID;
+}
+
+/**
+ * Resource id the version index entries of a group are stored under.
+ */
+function versionGroupResourceId(rootThreadId: string): string {
+  return `${VERSION_RESOURCE_PREFIX}:${rootThreadId}`;
+}
+
+/**
+ * Thread id of the version index entry of an assessment.
+ */
+function versionEntryId(threadId: string): string {
+  return `${threadId}:version`;
+}
+
+/**
+ * Default title: the first line of the problem, truncated.
+ */
+export function defaultAssessmentTitle(problem: string): string {
+  const firstLine = problem.trim().split('\n')[0].trim();
+  return firstLine.length > DEFAULT_TITLE_LENGTH
+    ? `${firstLine.slice(0, DEFAULT_TITLE_LENGTH - 1).trimEnd()}…`
+    : firstLine;
+}
+
+/**
+ * Trims tags and drops duplicates (case-insensitive), keeping first spelling.
+ */
+function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      normalized.push(trimmed);
+    }
+  }
+  return normalized;
+}
+
+function isAssessmentThread(
+  thread: StorageThreadType | null
+): thread is StorageThreadType & { metadata: AssessmentMetadata } {
+  if (thread?.metadata?.kind !== 'assessment') {
+    return false;
+  }
+  return (
+    thread.resourceId === ASSESSMENT_RESOURCE_ID || thread.resourceId.startsWith(`${ASSESSMENT_RESOURCE_ID}:`)
+  );
+}
+
+function toIsoString(date: Date | string): string {
+  return new Date(date).toISOString();
+}
+
+function toSummary(thread: StorageThreadType & { metadata: AssessmentMetadata }): AssessmentSummary {
+  const { result, tags } = thread.metadata;
+  return {
+    threadId: thread.id,
+    title: thread.title || defaultAssessmentTitle(result.problem),
+    tags: tags ?? [],
+    problem: result.problem,
+    ...(result.parentThreadId && { parentThreadId: result.parentThreadId }),
+    rootThreadId: thread.metadata.rootThreadId ?? thread.id,
+    ...(result.ownerId && { ownerId: result.ownerId }),
+    verdict: result.verdict,
+    confidence: result.confidence,
+    createdAt: toIsoString(thread.createdAt),
+    updatedAt: toIsoString(thread.updatedAt)
+  };
+}
+
+function toAssessment(thread: StorageThreadType & { metadata: AssessmentMetadata }): Assessment {
+  const { result, input } = thread.metadata;
+  return { ...toSummary(thread), result, ...(input && { input }) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORE FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates an assessment store backed by Mastra storage.
+ *
+ * @param storage - Mastra storage (PostgresStore, InMemoryStore, ...)
+ * @returns AssessmentStore
+ */
+export function createAssessmentStore(storage: MastraStorage): AssessmentStore {
+  const load = async (threadId: string) => {
+    const thread = await storage.getThreadById({ threadId });
+    return isAssessmentThread(thread) ? thread : null;
+  };
+
+  // A re-run joins its parent's group; a deleted parent still names the group,
+  // and another owner's parent does not
+  const rootOf = async (result: AnalysisResult) => {
+    if (!result.parentThreadId) {
+      return result.threadId;
+    }
+    const parent = await load(result.parentThreadId);
+    if (!parent) {
+      return result.parentThreadId;
+    }
+    const summary = toSummary(parent);
+    return summary.ownerId === result.ownerId ? summary.rootThreadId : result.threadId;
+  };
+
+  return {
+    save: async (result, input) => {
+      const existing = await load(result.threadId);
+      const now = new Date();
+      const kept = input ?? existing?.metadata.input;
+      const rootThreadId = existing?.metadata.rootThreadId ?? (await rootOf(result));
+      const metadata: AssessmentMetadata = {
+        kind: 'assessment',
+        tags: existing?.metadata.tags ?? [],
+        rootThreadId,
+        result,
+        ...(kept && { input: kept })
+      };
+
+      const thread = await storage.saveThread({
+        thread: {
+          id: result.threadId,
+          resourceId: existing?.resourceId ?? assessmentResourceId(result.ownerId),
+          title: existing?.title || defaultAssessmentTitle(result.problem),
+          createdAt: existing ? new Date(existing.createdAt) : now,
+          updatedAt: now,
+          metadata
+        }
+      });
+
+      // The first version is the group's root and needs no entry
+      if (!existing && rootThreadId !== result.threadId) {
+        const entry: VersionEntryMetadata = { kind: 'assessment-version', threadId: result.threadId };
+        await storage.saveThread({
+          thread: {
+            id: versionEntryId(result.threadId),
+            resourceId: versionGroupResourceId(rootThreadId),
+            title: '',
+            createdAt: now,
+            updatedAt: now,
+            metadata: entry
+          }
+        });
+      }
+      return toAssessment({ ...thread, metadata });
+    },
+
+    list: async () => {
+      const threads = await storage.getThreadsByResourceId({
+        resourceId: ASSESSMENT_RESOURCE_ID,
+        orderBy: 'createdAt',
+        sortDirection: 'DESC'
+      });
+      return threads.filter(isAssessmentThread).map(toSummary);
+    },
+
+    page: async ({ ownerId, limit, offset }) => {
+      // Storage pages are aligned to their size; fetch the one or two pages
+      // covering [offset, offset + limit)
+      const first = Math.floor(offset / limit);
+      const last = Math.floor((offset + limit - 1) / limit);
+      const threads: StorageThreadType[] = [];
+      let total = 0;
+
+      for (let page = first; page <= last; page++) {
+        const result = await storage.getThreadsByResourceIdPaginated({
+          resourceId: assessmentResourceId(ownerId),
+          page,
+          perPage: limit,
+          orderBy: 'createdAt',
+          sortDirection: 'DESC'
+        });
+        threads.push(...result.threads);
+        total = result.total;
+        if (!result.hasMore) break;
+      }
+
+      const start = offset - first * limit;
+      return {
+        assessments: threads.slice(start, start + limit).filter(isAssessmentThread).map(toSummary),
+        total
+      };
+    },
+
+    get: async (threadId) => {
+      const thread = await load(threadId);
+      return thread ? toAssessment(thread) : null;
+    },
+
+    update: async (threadId, update) => {
+      const existing = await load(threadId);
+      if (!existing) {
+        return null;
+      }
+
+      const metadata: AssessmentMetadata = {
+        ...existing.metadata,
+        tags: update.tags ? normalizeTags(update.tags) : existing.metadata.tags
+      };
+      const thread = await storage.updateThread({
+        id: threadId,
+        title: update.title ?? existing.title ?? defaultAssessmentTitle(metadata.result.problem),
+        metadata
+      });
+      return toAssessment({ ...thread, metadata });
+    },
+
+    remove: async (threadId) => {
+      const thread = await load(threadId);
+      if (!thread) {
+        return false;
+      }
+      await storage.deleteThread({ threadId });
+      if (toSummary(thread).rootThreadId !== threadId) {
+        await storage.deleteThread({ threadId: versionEntryId(threadId) });
+      }
+      return true;
+    },
+
+    versions: async (threadId) => {
+      const thread = await load(threadId);
+      if (!thread) {
+        return null;
+      }
+
+      const { rootThreadId } = toSummary(thread);
+      const entries = await storage.getThreadsByResourceId({
+        resourceId: versionGroupResourceId(rootThreadId),
+        orderBy: 'createdAt',
+        sortDirection: 'ASC'
+      });
+      const ids = [rootThreadId, ...entries.map((entry) => (entry.metadata as VersionEntryMetadata).threadId)];
+      const threads = await Promise.all(ids.map(load));
+      // Another owner's assessment never shares a group, even under a reused id
+      return threads
+        .filter((t): t is NonNullable<typeof t> => t?.resourceId === thread.resourceId)
+        .map(toSummary)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((summary, index) => ({ ...summary, version: index + 1 }));
+    }
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+let defaultStore: AssessmentStore | null = null;
+
+/**
+ * Get the assessment store backed by the Mastra instance's storage.
+ */
+export async function getAssessmentStore(): Promise<AssessmentStore> {
+  if (!defaultStore) {
+    // Loaded lazily so importing this module does not construct the workflow
+    const { mastra } = await import('@/mastra');
+    const storage = mastra.getStorage();
+    if (!storage) {
+      throw new Error('Mastra storage is not configured');
+    }
+    defaultStore = createAssessmentStore(storage);
+  }
+  return defaultStore;
+}
+
+/**
+ * Reset the assessment store (useful for testing).
+ */
+export function resetAssessmentStore(): void {
+  defaultStore = null;
+}
+
+/**
+ * Stores a completed result, logging rather than throwing on failure so a
+ * storage outage never breaks the analysis stream.
+ *
+ * @param result - Completed analysis result
+ * @param input - Input the run was started with, when known
+ */
+export async function recordAssessment(result: AnalysisResult, input?: PipelineInput): Promise<void> {
+  try {
+    const store = await getAssessmentStore();
+    await store.save(result, input);
+  } catch (error) {
+    console.error(`[assessments] Failed to store assessment ${result.threadId}:`, error);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Assessment history types.
+ *
+ * A completed analysis is stored as an assessment: the full
+ * `AnalysisResult` plus a user-editable title and tags. Re-running a problem
+ * stores a new version linked to its parent. Shared by the server-side
+ * store, the `/api/assessments` routes and the history panel.
+ *
+ * @module assessments/types
+ */
+
+import { z } from 'zod';
+import type { AnalysisResult, PipelineInput, Verdict } from '@/lib/pipeline/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ASSESSMENTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List entry for a stored assessment (everything except the full result).
+ */
+export interface AssessmentSummary {
+  /** Thread identifier (the analysis run's threadId) */
+  threadId: string;
+  /** Display title, defaults to the start of the problem description */
+  title: string;
+  /** User-assigned tags */
+  tags: string[];
+  /** Problem analyzed */
+  problem: string;
+  /** Assessment this one re-ran, if any */
+  parentThreadId?: string;
+  /** First assessment of the problem; shared by all of its versions */
+  rootThreadId: string;
+  /** Who the assessment belongs to (an API key name); unset for the web history */
+  ownerId?: string;
+  /** Final verdict */
+  verdict: Verdict;
+  /** Confidence in the verdict (0-1) */
+  confidence: number;
+  /** ISO timestamp of when the analysis completed */
+  createdAt: string;
+  /** ISO timestamp of the last rename or retag */
+  updatedAt: string;
+}
+
+/**
+ * A stored assessment with its full analysis result.
+ */
+export interface Assessment extends AssessmentSummary {
+  result: AnalysisResult;
+  /** Input the run was started with; missing on assessments stored without it */
+  input?: PipelineInput;
+}
+
+/**
+ * An assessment in the version history of its problem.
+ */
+export interface AssessmentVersion extends AssessmentSummary {
+  /** 1 for the first assessment, counting up in order of creation */
+  version: number;
+}
+
+/**
+ * A page of assessments of one owner.
+ */
+export interface AssessmentPageQuery {
+  /** Owner to list; without one, the web history (unowned assessments) */
+  ownerId?: string;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Assessments of one page, most recent first.
+ */
+export interface AssessmentPage {
+  assessments: AssessmentSummary[];
+  /** Assessments of the owner across all pages */
+  total: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UPDATES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Maximum length of an assessment title */
+export const MAX_TITLE_LENGTH = 120;
+
+/** Maximum number of tags on an assessment */
+export const MAX_TAGS = 10;
+
+/**
+ * Schema for renaming and retagging an assessment.
+ */
+export const AssessmentUpdateSchema = z
+  .object({
+    title: z.string().trim().min(1, 'Title must not be empty').max(MAX_TITLE_LENGTH).optional(),
+    tags: z
+      .array(z.string().trim().min(1).max(32))
+      .max(MAX_TAGS, `At most ${MAX_TAGS} tags are allowed`)
+      .optional()
+  })
+  .strict()
+  .refine((update) => update.title !== undefined || update.tags !== undefined, {
+    message: 'Provide a title or tags to update'
+  });
+
+export type AssessmentUpdate = z.infer<typeof AssessmentUpdateSchema>;
@@ -0,0 +1,80 @@
+/**
+ * Tests for reading batch uploads
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectBatchFormat, parseBatchInput, parseCsv } from '../parse';
+import { MAX_BATCH_ROWS } from '../types';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const PROBLEM_A = 'Classify incoming support tickets by urgency';
+const PROBLEM_B = 'Summarize weekly sales calls for the team';
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('detectBatchFormat', () => {
+  it('detects JSONL by a leading object', () => {
+    expect(detectBatchFormat(`  {"problem": "${PROBLEM_A}"}`)).toBe('jsonl');
+    expect(detectBatchFormat(`problem\n${PROBLEM_A}`)).toBe('csv');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines and doubled quotes', () => {
+    expect(parseCsv('a,b\r\n"x, y","line 1\nline ""2"""\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'line 1\nline "2"']
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a\n\n1\n  \n2')).toEqual([['a'], ['1'], ['2']]);
+  });
+});
+
+describe('parseBatchInput', () => {
+  it('reads CSV rows by header, ignoring other columns and a BOM', () => {
+    const { rows, errors } = parseBatchInput(
+      `\uFEFFid,Problem,Context\n1,${PROBLEM_A},B2B SaaS\n2,"${PROBLEM_B}",`,
+      'csv'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { problem: PROBLEM_A, context: 'B2B SaaS' },
+      { problem: PROBLEM_B, context: undefined }
+    ]);
+  });
+
+  it('requires a problem column', () => {
+    const { rows, errors } = parseBatchInput(`description\n${PROBLEM_A}`, 'csv');
+
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([{ row: 0, message: 'CSV header must include a "problem" column' }]);
+  });
+
+  it('reads JSONL rows and reports invalid ones by row number', () => {
+    const { rows, errors } = parseBatchInput(
+      [`{"problem": "${PROBLEM_A}"}`, 'not json', '{"problem": "short"}', `{"problem": "${PROBLEM_B}"}`].join('\n')
+    );
+
+    expect(rows.map((r) => r.problem)).toEqual([PROBLEM_A, PROBLEM_B]);
+    expect(errors).toEqual([
+      { row: 2, message: 'Row is not valid JSON' },
+      { row: 3, message: 'Problem description must be at least 10 characters' }
+    ]);
+  });
+
+  it('rejects uploads without rows or with too many', () => {
+    expect(parseBatchInput('problem\n', 'csv').errors).toEqual([{ row: 0, message: 'Upload has no rows' }]);
+
+    const lines = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => PROBLEM_A);
+    const { errors } = parseBatchInput(['problem', ...lines].join('\n'), 'csv');
+    expect(errors).toEqual([{ row: 0, message: `A batch can have at most ${MAX_BATCH_ROWS} rows` }]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the batch results table
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DIMENSION_IDS } from '@/lib/dimensions';
+import { batchDimensionIds, formatBatchResultsCsv, formatCsvField } from '../results';
+import type { Batch, BatchItem } from '../types';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function createItem(overrides: Partial<BatchItem> = {}): BatchItem {
+  return {
+    row: 1,
+    problem: 'Classify incoming support tickets by urgency',
+    status: 'completed',
+    assessmentId: 'run-1',
+    verdict: 'STRONG_FIT',
+    confidence: 0.824,
+    dimensionScores: {},
+    assumptions: [],
+    pendingQuestions: [],
+    error: null,
+    ...overrides
+  };
+}
+
+function createBatch(items: BatchItem[]): Batch {
+  return {
+    id: 'batch-1',
+    status: 'completed',
+    policy: 'assume',
+    concurrency: 3,
+    items,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:01:00.000Z'
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('formatCsvField', () => {
+  it('quotes fields with commas, quotes or newlines', () => {
+    expect(formatCsvField('plain')).toBe('plain');
+    expect(formatCsvField('a, "b"\nc')).toBe('"a, ""b""\nc"');
+    expect(formatCsvField(null)).toBe('');
+    expect(formatCsvField(-1)).toBe('-1');
+  });
+
+  it('prefixes text a spreadsheet would run as a formula', () => {
+    expect(formatCsvField('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(formatCsvField('@sum')).toBe("'@sum");
+  });
+});
+
+describe('batchDimensionIds', () => {
+  it('lists built-in dimensions, then custom ones', () => {
+    const batch = createBatch([createItem({ dimensionScores: { custom_risk: 'neutral' } })]);
+    expect(batchDimensionIds(batch)).toEqual([...DIMENSION_IDS, 'custom_risk']);
+  });
+});
+
+describe('formatBatchResultsCsv', () => {
+  it('writes a header and a row per item', () => {
+    const batch = createBatch([
+      createItem({
+        dimensionScores: { [DIMENSION_IDS[0]]: 'favorable' },
+        assumptions: [{ questionId: 'q1', question: 'Volume?', answer: 'High' }]
+      }),
+      createItem({
+        row: 2,
+        status: 'suspended',
+        verdict: null,
+        confidence: null,
+        pendingQuestions: [
+          { id: 'q2', question: 'Budget?', rationale: '', priority: 'blocking', source: { stage: 'screening' } }
+        ]
+      })
+    ]);
+
+    const [header, first, second] = formatBatchResultsCsv(batch).split('\r\n');
+
+    expect(header).toBe(
+      ['row', 'problem', 'status', 'verdict', 'confidence', ...DIMENSION_IDS, 'assumptions', 'pending_questions', 'assessment_id', 'error'].join(',')
+    );
+    expect(first).toBe(
+      ['1', 'Classify incoming support tickets by urgency', 'completed', 'STRONG_FIT', '0.82', 'favorable', ...DIMENSION_IDS.slice(1).map(() => ''), 'Volume? => High', '', 'run-1', ''].join(',')
+    );
+    expect(second).toContain(',suspended,,,');
+    expect(second).toContain(',Budget?,run-1,');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Browser client for the batch API.
+ *
+ * @module batch/client
+ */
+
+import type { Answer } from '@/app/api/pipeline/_lib/validation';
+import type { Batch, CreateBatchRequest } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function request<T>(url: string, init: RequestInit | undefined, action: string): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `${action} failed: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+function batchUrl(baseUrl: string, id: string): string {
+  return `${baseUrl}/api/batch/${encodeURIComponent(id)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Uploads a batch and starts its assessments.
+ */
+export function createBatch(batch: CreateBatchRequest, baseUrl = ''): Promise<Batch> {
+  return request<Batch>(
+    `${baseUrl}/api/batch`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(batch)
+    },
+    'Starting batch'
+  );
+}
+
+/**
+ * Fetches a batch with the progress of every row.
+ */
+export function getBatch(id: string, baseUrl = ''): Promise<Batch> {
+  return request<Batch>(batchUrl(baseUrl, id), undefined, 'Loading batch');
+}
+
+/**
+ * Resumes a queued row, with answers or (without) its current assumptions.
+ */
+export function answerBatchRow(
+  id: string,
+  row: number,
+  answers?: Answer[],
+  baseUrl = ''
+): Promise<Batch> {
+  return request<Batch>(
+    `${batchUrl(baseUrl, id)}/answers`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ row, answers })
+    },
+    'Answering questions'
+  );
+}
+
+/**
+ * URL of the CSV results table.
+ */
+export function batchResultsUrl(id: string, baseUrl = ''): string {
+  return `${batchUrl(baseUrl, id)}/results`;
+}
@@ -0,0 +1,35 @@
+/**
+ * Batch assessment exports.
+ *
+ * The batch panel imports `./client` directly, like the history panel.
+ *
+ * @module batch
+ */
+
+export {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ROWS,
+  MAX_BATCH_UPLOAD_LENGTH,
+  BatchRowSchema,
+  CreateBatchRequestSchema,
+  type Batch,
+  type BatchAssumption,
+  type BatchFormat,
+  type BatchItem,
+  type BatchItemStatus,
+  type BatchQuestionPolicy,
+  type BatchRow,
+  type BatchRowError,
+  type CreateBatchRequest
+} from './types';
+
+export { detectBatchFormat, parseBatchInput, parseCsv, type ParsedBatch } from './parse';
+
+export {
+  batchDimensionIds,
+  batchResultsTable,
+  formatBatchResultsCsv,
+  formatCsvField,
+  toCsv
+} from './results';
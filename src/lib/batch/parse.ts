@@ -0,0 +1,163 @@
+/**
+ * Reading batch uploads.
+ *
+ * CSV uploads need a header row with a `problem` column and may have a
+ * `context` column (case-insensitive; other columns are ignored). Quoted
+ * fields may contain commas, newlines and doubled quotes. JSONL uploads
+ * have one `{ "problem": "...", "context": "..." }` object per line.
+ *
+ * @module batch/parse
+ */
+
+import {
+  BatchRowSchema,
+  MAX_BATCH_ROWS,
+  type BatchFormat,
+  type BatchRow,
+  type BatchRowError
+} from './types';
+
+/**
+ * Rows read from an upload.
+ */
+export interface ParsedBatch {
+  rows: BatchRow[];
+  errors: BatchRowError[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMAT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Detects the format of an upload: JSONL if it starts with `{`, CSV
+ * otherwise.
+ */
+export function detectBatchFormat(text: string): BatchFormat {
+  return text.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CSV
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Splits CSV text into records of fields (RFC 4180, either line ending).
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines are not records
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function readCsv(text: string): { values: Array<Record<string, unknown>>; errors: BatchRowError[] } {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const problemIndex = columns.indexOf('problem');
+  const contextIndex = columns.indexOf('context');
+
+  if (problemIndex === -1) {
+    return { values: [], errors: [{ row: 0, message: 'CSV header must include a "problem" column' }] };
+  }
+
+  return {
+    values: records.map((record) => ({
+      problem: record[problemIndex] ?? '',
+      ...(contextIndex !== -1 && { context: record[contextIndex] ?? '' })
+    })),
+    errors: []
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JSONL
+// ═══════════════════════════════════════════════════════════════════════════
+
+function readJsonl(text: string): { values: unknown[]; errors: BatchRowError[] } {
+  const values: unknown[] = [];
+  const errors: BatchRowError[] = [];
+
+  for (const line of text.split(/\r?\n/).filter((l) => l.trim() !== '')) {
+    try {
+      values.push(JSON.parse(line));
+    } catch {
+      values.push(undefined);
+      errors.push({ row: values.length, message: 'Row is not valid JSON' });
+    }
+  }
+
+  return { values, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads and validates the rows of an upload.
+ *
+ * @param text - File contents
+ * @param format - Upload format (default: detected)
+ * @returns Valid rows, and an error per invalid row
+ */
+export function parseBatchInput(text: string, format: BatchFormat = detectBatchFormat(text)): ParsedBatch {
+  const { values, errors } = format === 'csv' ? readCsv(text) : readJsonl(text);
+  const rows: BatchRow[] = [];
+
+  values.forEach((value, index) => {
+    if (value === undefined) return;
+
+    const parsed = BatchRowSchema.safeParse(value);
+    if (parsed.success) {
+      rows.push(parsed.data);
+    } else {
+      errors.push({ row: index + 1, message: parsed.error.issues[0].message });
+    }
+  });
+
+  if (values.length > MAX_BATCH_ROWS) {
+    errors.push({ row: 0, message: `A batch can have at most ${MAX_BATCH_ROWS} rows` });
+  }
+  if (values.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, message: 'Upload has no rows' });
+  }
+
+  return { rows, errors: errors.sort((a, b) => a.row - b.row) };
+}
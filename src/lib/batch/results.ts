@@ -0,0 +1,95 @@
+/**
+ * Batch results table.
+ *
+ * One row per uploaded row: its status, verdict, confidence and the score of
+ * every dimension, plus the assumptions applied and the questions still
+ * pending. Downloaded as CSV from /api/batch/:id/results.
+ *
+ * @module batch/results
+ */
+
+import { DIMENSION_IDS } from '@/lib/dimensions';
+import type { Batch } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CSV
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Quotes a CSV field when needed. Text that a spreadsheet would run as a
+ * formula is prefixed with an apostrophe.
+ */
+export function formatCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats records as CSV with CRLF line endings.
+ */
+export function toCsv(records: Array<Array<string | number | null>>): string {
+  return records.map((record) => record.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESULTS TABLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Dimension columns of a batch: the built-in dimensions, then any custom
+ * dimensions in order of first appearance.
+ */
+export function batchDimensionIds(batch: Batch): string[] {
+  const ids: string[] = [...DIMENSION_IDS];
+  for (const item of batch.items) {
+    for (const id of Object.keys(item.dimensionScores)) {
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Builds the results table of a batch, header first.
+ */
+export function batchResultsTable(batch: Batch): Array<Array<string | number | null>> {
+  const dimensionIds = batchDimensionIds(batch);
+  const header = [
+    'row',
+    'problem',
+    'status',
+    'verdict',
+    'confidence',
+    ...dimensionIds,
+    'assumptions',
+    'pending_questions',
+    'assessment_id',
+    'error'
+  ];
+
+  const rows = batch.items.map((item) => [
+    item.row,
+    item.problem,
+    item.status,
+    item.verdict,
+    item.confidence === null ? null : Math.round(item.confidence * 100) / 100,
+    ...dimensionIds.map((id) => item.dimensionScores[id] ?? null),
+    item.assumptions.map((a) => `${a.question} => ${a.answer}`).join('\n'),
+    item.pendingQuestions.map((q) => q.question).join('\n'),
+    item.assessmentId,
+    item.error
+  ]);
+
+  return [header, ...rows];
+}
+
+/**
+ * Formats the results table of a batch as CSV.
+ */
+export function formatBatchResultsCsv(batch: Batch): string {
+  return toCsv(batchResultsTable(batch));
+}
@@ -0,0 +1,149 @@
+/**
+ * Batch assessment types.
+ *
+ * A batch runs many problems (rows of a CSV or JSONL upload) through the
+ * pipeline with bounded concurrency. Blocking questions are either answered
+ * with the question's `currentAssumption` or queued for later. Shared by the
+ * `/api/batch` routes and the batch panel.
+ *
+ * @module batch/types
+ */
+
+import { z } from 'zod';
+import type { DimensionScore, FollowUpQuestion, Verdict } from '@/lib/pipeline/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIMITS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Maximum number of rows in one batch */
+export const MAX_BATCH_ROWS = 200;
+
+/** Maximum size of an upload, in characters */
+export const MAX_BATCH_UPLOAD_LENGTH = 2_000_000;
+
+/** Assessments run at once unless the request asks for fewer or more */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/** Upper bound on assessments run at once */
+export const MAX_BATCH_CONCURRENCY = 5;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INPUT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Upload formats */
+export type BatchFormat = 'csv' | 'jsonl';
+
+/**
+ * What happens when an assessment suspends for blocking questions:
+ * - assume: answer each with its current assumption and continue
+ * - queue: leave the assessment suspended until answered later
+ */
+export type BatchQuestionPolicy = 'assume' | 'queue';
+
+/**
+ * Schema for one row: the same bounds as a single assessment.
+ */
+export const BatchRowSchema = z.object({
+  /** Problem description (10-5000 chars) */
+  problem: z
+    .string()
+    .trim()
+    .min(10, 'Problem description must be at least 10 characters')
+    .max(5000, 'Problem description must not exceed 5000 characters'),
+  /** Optional additional context (max 10000 chars) */
+  context: z
+    .string()
+    .trim()
+    .max(10000, 'Context must not exceed 10000 characters')
+    .transform((context) => context || undefined)
+    .optional()
+});
+
+export type BatchRow = z.infer<typeof BatchRowSchema>;
+
+/**
+ * A row that could not be read.
+ */
+export interface BatchRowError {
+  /** 1-based row number (data rows, not counting a CSV header); 0 for the whole upload */
+  row: number;
+  message: string;
+}
+
+/**
+ * Schema for POST /api/batch.
+ */
+export const CreateBatchRequestSchema = z
+  .object({
+    /** Contents of the uploaded file */
+    data: z
+      .string()
+      .min(1, 'Upload is empty')
+      .max(MAX_BATCH_UPLOAD_LENGTH, `Upload must not exceed ${MAX_BATCH_UPLOAD_LENGTH} characters`),
+    /** Upload format (default: detected from the contents) */
+    format: z.enum(['csv', 'jsonl']).optional(),
+    /** Handling of blocking questions (default: 'assume') */
+    policy: z.enum(['assume', 'queue']).default('assume'),
+    /** Assessments run at once */
+    concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(DEFAULT_BATCH_CONCURRENCY)
+  })
+  .strict();
+
+export type CreateBatchRequest = z.input<typeof CreateBatchRequestSchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BATCHES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Progress of one row */
+export type BatchItemStatus = 'pending' | 'running' | 'completed' | 'suspended' | 'failed';
+
+/**
+ * A blocking question answered with its current assumption.
+ */
+export interface BatchAssumption {
+  questionId: string;
+  question: string;
+  answer: string;
+}
+
+/**
+ * One row of a batch and the outcome of its assessment.
+ */
+export interface BatchItem {
+  /** 1-based row number */
+  row: number;
+  problem: string;
+  context?: string;
+  status: BatchItemStatus;
+  /** Assessment (run) id once started */
+  assessmentId: string | null;
+  verdict: Verdict | null;
+  /** Confidence in the verdict (0-1) */
+  confidence: number | null;
+  /** Score per dimension id */
+  dimensionScores: Record<string, DimensionScore>;
+  /** Questions answered with their current assumption */
+  assumptions: BatchAssumption[];
+  /** Questions waiting for an answer (queued) */
+  pendingQuestions: FollowUpQuestion[];
+  error: string | null;
+}
+
+/**
+ * A batch and its rows.
+ */
+export interface Batch {
+  id: string;
+  /** Running until every row has completed, suspended or failed */
+  status: 'running' | 'completed';
+  policy: BatchQuestionPolicy;
+  concurrency: number;
+  items: BatchItem[];
+  /** ISO timestamp of the upload */
+  createdAt: string;
+  /** ISO timestamp of when the last row settled */
+  completedAt: string | null;
+}
@@ -86,3 +86,11 @@ export const EVALUATION_DIMENSIONS = [
 ] as const;
 
 export type DimensionId = typeof EVALUATION_DIMENSIONS[number]['id'];
+
+/** Built-in dimension IDs in evaluation order */
+export const DIMENSION_IDS = EVALUATION_DIMENSIONS.map((d) => d.id) as [DimensionId, ...DimensionId[]];
+
+/** Whether an ID names a built-in dimension (anything else is a custom dimension) */
+export function isBuiltInDimension(id: string): id is DimensionId {
+  return (DIMENSION_IDS as readonly string[]).includes(id);
+}
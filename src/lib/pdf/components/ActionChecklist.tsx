@@ -1,15 +1,26 @@
 /**
  * PDF Action Checklist
  *
- * Displays the "Before You Build" checklist with empty checkboxes.
+ * Displays the synthesis action plan (executive summary, key takeaways and
+ * action items by priority) followed by the "Before You Build" checklist with
+ * empty checkboxes, grouped by question category.
  */
 
 import { View, Text, StyleSheet } from '@react-pdf/renderer';
 import { pdfColors, pdfTypography, pdfSpacing } from '../styles';
-import type { PreparedQuestion } from '../utils';
+import type { PreparedActionItem, PreparedQuestion } from '../utils';
+import {
+  ACTION_ITEM_PRIORITIES,
+  groupPreBuildQuestions,
+  type ActionItemPriority,
+  type PreBuildQuestionCategory,
+} from '@/lib/pipeline/types';
 
 interface ActionChecklistProps {
   questions: PreparedQuestion[];
+  executiveSummary?: string;
+  actionItems?: PreparedActionItem[];
+  keyTakeaways?: string[];
 }
 
 const styles = StyleSheet.create({
@@ -81,41 +92,163 @@ const styles = StyleSheet.create({
     color: pdfColors.neutral[500],
     lineHeight: 1.4,
   },
+  group: {
+    marginBottom: pdfSpacing.md,
+  },
+  groupTitle: {
+    ...pdfTypography.caption,
+    fontWeight: 600,
+    color: pdfColors.neutral[600],
+    marginBottom: pdfSpacing.xs,
+  },
+  executiveSummary: {
+    ...pdfTypography.body,
+    color: pdfColors.neutral[700],
+    lineHeight: 1.5,
+    marginBottom: pdfSpacing.md,
+  },
+  takeaway: {
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[700],
+    lineHeight: 1.4,
+    marginBottom: 3,
+  },
 });
 
-export function ActionChecklist({ questions }: ActionChecklistProps) {
-  if (questions.length === 0) return null;
+const CATEGORY_LABELS: Record<PreBuildQuestionCategory, string> = {
+  business: 'Business',
+  data: 'Data',
+  technical: 'Technical',
+  operational: 'Operational',
+};
+
+const PRIORITY_LABELS: Record<ActionItemPriority, string> = {
+  critical: 'Critical',
+  important: 'Important',
+  optional: 'Optional',
+};
+
+interface ActionPlanProps {
+  executiveSummary?: string;
+  actionItems: PreparedActionItem[];
+  keyTakeaways: string[];
+}
+
+function ActionPlan({ executiveSummary, actionItems, keyTakeaways }: ActionPlanProps) {
+  if (!executiveSummary && actionItems.length === 0 && keyTakeaways.length === 0) return null;
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
         <View style={styles.headerIcon} />
-        <Text style={styles.title}>Before You Build</Text>
+        <Text style={styles.title}>Action Plan</Text>
       </View>
-      <Text style={styles.subtitle}>
-        Questions to answer before implementing an AI solution:
-      </Text>
-
-      <View style={styles.checklistCard}>
-        {questions.map((q, i) => (
-          <View
-            key={i}
-            style={
-              i === questions.length - 1
-                ? [styles.checkItem, styles.checkItemLast]
-                : styles.checkItem
-            }
-          >
-            <View style={styles.checkbox} />
-            <View style={styles.checkContent}>
-              <Text style={styles.question}>{q.question}</Text>
-              {q.whyItMatters && (
-                <Text style={styles.whyItMatters}>{q.whyItMatters}</Text>
-              )}
+
+      {executiveSummary && <Text style={styles.executiveSummary}>{executiveSummary}</Text>}
+
+      {keyTakeaways.length > 0 && (
+        <View style={styles.group} wrap={false}>
+          <Text style={styles.groupTitle}>Key Takeaways</Text>
+          {keyTakeaways.map((takeaway, i) => (
+            <Text key={i} style={styles.takeaway}>
+              • {takeaway}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {ACTION_ITEM_PRIORITIES.map((priority) => {
+        const items = actionItems.filter((item) => item.priority === priority);
+        if (items.length === 0) return null;
+
+        return (
+          <View key={priority} style={styles.group} wrap={false}>
+            <Text style={styles.groupTitle}>{PRIORITY_LABELS[priority]}</Text>
+            <View style={styles.checklistCard}>
+              {items.map((item, i) => (
+                <View
+                  key={i}
+                  style={
+                    i === items.length - 1
+                      ? [styles.checkItem, styles.checkItemLast]
+                      : styles.checkItem
+                  }
+                >
+                  <View style={styles.checkbox} />
+                  <View style={styles.checkContent}>
+                    <Text style={styles.question}>{item.action}</Text>
+                    {item.rationale && (
+                      <Text style={styles.whyItMatters}>{item.rationale}</Text>
+                    )}
+                  </View>
+                </View>
+              ))}
             </View>
           </View>
-        ))}
-      </View>
+        );
+      })}
     </View>
   );
 }
+
+export function ActionChecklist({
+  questions,
+  executiveSummary,
+  actionItems = [],
+  keyTakeaways = [],
+}: ActionChecklistProps) {
+  // Questions without a category (older reports) are listed without a heading
+  const groups = groupPreBuildQuestions(questions);
+
+  return (
+    <>
+      <ActionPlan
+        executiveSummary={executiveSummary}
+        actionItems={actionItems}
+        keyTakeaways={keyTakeaways}
+      />
+
+      {groups.length > 0 && (
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerIcon} />
+            <Text style={styles.title}>Before You Build</Text>
+          </View>
+          <Text style={styles.subtitle}>
+            Questions to answer before implementing an AI solution:
+          </Text>
+
+          {groups.map((group) => (
+            <View key={group.category ?? 'other'} style={styles.group} wrap={false}>
+              {(group.category || groups.length > 1) && (
+                <Text style={styles.groupTitle}>
+                  {group.category ? CATEGORY_LABELS[group.category] : 'Other'}
+                </Text>
+              )}
+              <View style={styles.checklistCard}>
+                {group.questions.map((q, i) => (
+                  <View
+                    key={i}
+                    style={
+                      i === group.questions.length - 1
+                        ? [styles.checkItem, styles.checkItemLast]
+                        : styles.checkItem
+                    }
+                  >
+                    <View style={styles.checkbox} />
+                    <View style={styles.checkContent}>
+                      <Text style={styles.question}>{q.question}</Text>
+                      {q.whyItMatters && (
+                        <Text style={styles.whyItMatters}>{q.whyItMatters}</Text>
+                      )}
+                    </View>
+                  </View>
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </>
+  );
+}
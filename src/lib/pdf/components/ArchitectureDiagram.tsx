@@ -0,0 +1,137 @@
+/**
+ * PDF Architecture Diagram
+ *
+ * Draws the architecture flowchart from the shared diagram layout. Shapes are
+ * SVG; labels are positioned text on top so they use the document font.
+ */
+
+import { View, Text, Svg, Rect, Polygon, Polyline, StyleSheet } from '@react-pdf/renderer';
+import { pdfSpacing } from '../styles';
+import type { PreparedArchitecture } from '../utils';
+import {
+  DIAGRAM_COLORS,
+  DIAGRAM_LINE_HEIGHT,
+  arrowHead,
+  buildArchitectureDiagram,
+  edgeLabelPosition,
+  layoutDiagram,
+  nodeCornerRadius,
+  nodeOutline,
+} from '@/lib/pipeline/diagram';
+
+interface ArchitectureDiagramProps {
+  architecture: PreparedArchitecture;
+}
+
+/** Space inside the architecture card */
+const MAX_WIDTH = 480;
+/** Keeps long diagrams on the same page as the architecture card */
+const MAX_HEIGHT = 420;
+
+const EDGE_COLOR = '#94A3B8'; // slate-400
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'center',
+    marginBottom: pdfSpacing.md,
+  },
+  label: {
+    position: 'absolute',
+    textAlign: 'center',
+  },
+  edgeLabel: {
+    position: 'absolute',
+    color: '#475569', // slate-600
+  },
+});
+
+export function ArchitectureDiagram({ architecture }: ArchitectureDiagramProps) {
+  const layout = layoutDiagram(buildArchitectureDiagram(architecture));
+  const scale = Math.min(1, MAX_WIDTH / layout.width, MAX_HEIGHT / layout.height);
+  const width = layout.width * scale;
+  const height = layout.height * scale;
+
+  return (
+    <View style={[styles.container, { width, height }]} wrap={false}>
+      <Svg width={width} height={height} viewBox={`0 0 ${layout.width} ${layout.height}`}>
+        {layout.edges.map((edge) => (
+          <Polyline
+            key={`${edge.from}-${edge.to}`}
+            points={edge.points.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke={EDGE_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray={edge.dashed ? '4 4' : undefined}
+          />
+        ))}
+        {layout.edges.map((edge) => (
+          <Polygon key={`${edge.from}-${edge.to}-arrow`} points={arrowHead(edge.points)} fill={EDGE_COLOR} />
+        ))}
+        {layout.nodes.map((node) => {
+          const colors = DIAGRAM_COLORS[node.kind];
+          const outline = nodeOutline(node);
+
+          return outline ? (
+            <Polygon key={node.id} points={outline} fill={colors.fill} stroke={colors.stroke} strokeWidth={1.5} />
+          ) : (
+            <Rect
+              key={node.id}
+              x={node.x}
+              y={node.y}
+              width={node.width}
+              height={node.height}
+              rx={nodeCornerRadius(node)}
+              fill={colors.fill}
+              stroke={colors.stroke}
+              strokeWidth={1.5}
+            />
+          );
+        })}
+      </Svg>
+
+      {layout.edges
+        .filter((edge) => edge.label)
+        .map((edge) => {
+          const position = edgeLabelPosition(edge.points);
+          return (
+            <Text
+              key={`${edge.from}-${edge.to}-label`}
+              style={[
+                styles.edgeLabel,
+                {
+                  left: (position.x + 6) * scale,
+                  top: (position.y - 6) * scale,
+                  fontSize: 9 * scale,
+                },
+              ]}
+            >
+              {edge.label}
+            </Text>
+          );
+        })}
+
+      {layout.nodes.map((node) => {
+        const textTop = node.y + (node.height - node.lines.length * DIAGRAM_LINE_HEIGHT) / 2;
+
+        return node.lines.map((line, i) => (
+          <Text
+            key={`${node.id}-${i}`}
+            style={[
+              styles.label,
+              {
+                left: node.x * scale,
+                top: (textTop + i * DIAGRAM_LINE_HEIGHT) * scale,
+                width: node.width * scale,
+                fontSize: (i < node.titleLines ? 10 : 8) * scale,
+                fontWeight: i < node.titleLines ? 600 : 400,
+                color: DIAGRAM_COLORS[node.kind].text,
+              },
+            ]}
+          >
+            {line}
+          </Text>
+        ));
+      })}
+    </View>
+  );
+}
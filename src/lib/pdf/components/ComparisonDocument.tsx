@@ -0,0 +1,63 @@
+/**
+ * PDF Comparison Document Component
+ *
+ * Combined report for several assessments: a comparison overview followed
+ * by the full report of each assessment in rank order.
+ */
+
+import { Document, Page, StyleSheet } from '@react-pdf/renderer';
+import { Header } from './Header';
+import { PageNumber } from './Footer';
+import { ComparisonSection } from './ComparisonSection';
+import { ReportPages } from './PDFDocument';
+import { baseStyles } from '../styles';
+import { formatDate, prepareEvaluationForPDF, evaluationFromAnalysisResult } from '../utils';
+import type { ComparisonResult } from '@/lib/pipeline/comparison';
+
+export interface ComparisonDocumentProps {
+  comparison: ComparisonResult;
+  generatedAt: Date;
+}
+
+const styles = StyleSheet.create({
+  page: {
+    ...baseStyles.page,
+    paddingBottom: 60, // Space for footer
+  },
+});
+
+/**
+ * Creates a combined PDF document from a comparison
+ */
+export function ComparisonDocument({ comparison, generatedAt }: ComparisonDocumentProps) {
+  const formattedDate = formatDate(generatedAt);
+
+  return (
+    <Document
+      title="AI Suitability Comparison"
+      author="AI Suitability Screener"
+      subject={`AI suitability comparison of ${comparison.entries.length} problems`}
+      creator="AI Suitability Screener"
+    >
+      {/* Overview: recommendation, ranking and dimension matrix */}
+      <Page size="A4" style={styles.page}>
+        <Header generatedAt={formattedDate} subtitle="Comparison Report" />
+
+        <ComparisonSection comparison={comparison} />
+
+        <PageNumber />
+      </Page>
+
+      {/* Full report per assessment, in rank order */}
+      {comparison.entries.map((entry) => (
+        <ReportPages
+          key={entry.threadId}
+          problem={entry.problem}
+          evaluation={prepareEvaluationForPDF(evaluationFromAnalysisResult(entry.result))}
+          generatedAt={generatedAt}
+          costEstimate={entry.result.costEstimate}
+        />
+      ))}
+    </Document>
+  );
+}
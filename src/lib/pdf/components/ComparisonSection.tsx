@@ -0,0 +1,248 @@
+/**
+ * PDF Comparison Section
+ *
+ * Displays the ranked recommendation, the ranking overview and the
+ * per-dimension score matrix for a comparison report.
+ */
+
+import type { ReactNode } from 'react';
+import { View, Text, StyleSheet } from '@react-pdf/renderer';
+import { pdfColors, pdfTypography, pdfSpacing, verdictLabels, scoreLabels } from '../styles';
+import type { ComparisonResult } from '@/lib/pipeline/comparison';
+
+interface ComparisonSectionProps {
+  comparison: ComparisonResult;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: pdfSpacing.xl,
+  },
+  title: {
+    ...pdfTypography.h2,
+    color: pdfColors.neutral[900],
+    marginBottom: pdfSpacing.md,
+  },
+  recommendationBox: {
+    backgroundColor: pdfColors.accent.blue[50],
+    borderLeftWidth: 3,
+    borderLeftColor: pdfColors.brand.indigo,
+    borderRadius: 6,
+    padding: pdfSpacing.md,
+    marginBottom: pdfSpacing.xl,
+  },
+  recommendationLabel: {
+    ...pdfTypography.overline,
+    color: pdfColors.brand.indigo,
+    textTransform: 'uppercase',
+    marginBottom: pdfSpacing.xs,
+  },
+  recommendationTitle: {
+    ...pdfTypography.h3,
+    color: pdfColors.neutral[900],
+    marginBottom: pdfSpacing.xs,
+  },
+  recommendationText: {
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[600],
+    lineHeight: 1.5,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: pdfColors.neutral[200],
+    borderRadius: 6,
+    marginBottom: pdfSpacing.xl,
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: pdfColors.neutral[200],
+  },
+  lastRow: {
+    flexDirection: 'row',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    backgroundColor: pdfColors.neutral[100],
+    borderBottomWidth: 1,
+    borderBottomColor: pdfColors.neutral[200],
+  },
+  labelCell: {
+    width: '28%',
+    padding: pdfSpacing.sm,
+  },
+  cell: {
+    flex: 1,
+    padding: pdfSpacing.sm,
+  },
+  headerText: {
+    ...pdfTypography.caption,
+    fontWeight: 600,
+    color: pdfColors.neutral[700],
+  },
+  cellText: {
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[700],
+  },
+  mutedText: {
+    ...pdfTypography.caption,
+    color: pdfColors.neutral[400],
+  },
+  scorePill: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    alignSelf: 'flex-start',
+  },
+  scorePillText: {
+    ...pdfTypography.caption,
+    fontWeight: 600,
+  },
+});
+
+function TableRow({
+  label,
+  cells,
+  isLast,
+}: {
+  label: string;
+  cells: ReactNode[];
+  isLast: boolean;
+}) {
+  return (
+    <View style={isLast ? styles.lastRow : styles.row} wrap={false}>
+      <View style={styles.labelCell}>
+        <Text style={styles.headerText}>{label}</Text>
+      </View>
+      {cells.map((cell, i) => (
+        <View key={i} style={styles.cell}>
+          {cell}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export function ComparisonSection({ comparison }: ComparisonSectionProps) {
+  const { entries, dimensions, recommendation } = comparison;
+
+  const overviewRows: { label: string; cells: ReactNode[] }[] = [
+    {
+      label: 'Verdict',
+      cells: entries.map((e) => (
+        <Text key={e.threadId} style={[styles.cellText, { color: pdfColors.verdict[e.verdict].text }]}>
+          {verdictLabels[e.verdict]}
+        </Text>
+      )),
+    },
+    {
+      label: 'Confidence',
+      cells: entries.map((e) => (
+        <Text key={e.threadId} style={styles.cellText}>
+          {Math.round(e.confidence * 100)}%
+        </Text>
+      )),
+    },
+    {
+      label: 'Weighted score',
+      cells: entries.map((e) => (
+        <Text key={e.threadId} style={styles.cellText}>
+          {e.weightedScore.toFixed(2)}
+        </Text>
+      )),
+    },
+    {
+      label: 'Top risks',
+      cells: entries.map((e) => (
+        <Text key={e.threadId} style={styles.cellText}>
+          {e.topRisks.length > 0
+            ? e.topRisks.map((r) => `• ${r.risk} (${r.severity})`).join('\n')
+            : 'None identified'}
+        </Text>
+      )),
+    },
+    {
+      label: 'Alternatives (effort)',
+      cells: entries.map((e) => (
+        <Text key={e.threadId} style={styles.cellText}>
+          {e.alternatives.length > 0
+            ? e.alternatives.map((a) => `• ${a.name} (${a.estimatedEffort})`).join('\n')
+            : 'None suggested'}
+        </Text>
+      )),
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Comparison of {entries.length} Assessments</Text>
+
+      {/* Recommendation */}
+      <View style={styles.recommendationBox}>
+        <Text style={styles.recommendationLabel}>
+          Recommendation{recommendation.closeCall ? ' (close call)' : ''}
+        </Text>
+        <Text style={styles.recommendationTitle}>{recommendation.label}</Text>
+        <Text style={styles.recommendationText}>{recommendation.rationale}</Text>
+      </View>
+
+      {/* Overview */}
+      <View style={styles.table}>
+        <View style={styles.headerRow}>
+          <View style={styles.labelCell}>
+            <Text style={styles.headerText}>Rank</Text>
+          </View>
+          {entries.map((e) => (
+            <View key={e.threadId} style={styles.cell}>
+              <Text style={styles.headerText}>
+                #{e.rank} {e.label}
+              </Text>
+            </View>
+          ))}
+        </View>
+        {overviewRows.map((row, i) => (
+          <TableRow key={row.label} label={row.label} cells={row.cells} isLast={i === overviewRows.length - 1} />
+        ))}
+      </View>
+
+      {/* Dimension matrix */}
+      {dimensions.length > 0 && (
+        <View style={styles.table}>
+          <View style={styles.headerRow}>
+            <View style={styles.labelCell}>
+              <Text style={styles.headerText}>Dimension</Text>
+            </View>
+            {entries.map((e) => (
+              <View key={e.threadId} style={styles.cell}>
+                <Text style={styles.headerText}>#{e.rank}</Text>
+              </View>
+            ))}
+          </View>
+          {dimensions.map((row, i) => (
+            <TableRow
+              key={row.id}
+              label={row.custom ? `${row.name} (custom)` : row.name}
+              isLast={i === dimensions.length - 1}
+              cells={row.cells.map((cell, column) =>
+                cell ? (
+                  <View key={column}>
+                    <View style={[styles.scorePill, { backgroundColor: pdfColors.score[cell.score].background }]}>
+                      <Text style={[styles.scorePillText, { color: pdfColors.score[cell.score].text }]}>
+                        {scoreLabels[cell.score]}
+                      </Text>
+                    </View>
+                    <Text style={styles.mutedText}>{Math.round(cell.confidence * 100)}% confidence</Text>
+                  </View>
+                ) : (
+                  <Text key={column} style={styles.mutedText}>
+                    Not analyzed
+                  </Text>
+                )
+              )}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * PDF Cost Section
+ *
+ * Displays the estimated monthly operating cost: model spend, human
+ * review, and the assumptions behind the numbers.
+ */
+
+import { View, Text, StyleSheet } from '@react-pdf/renderer';
+import { pdfColors, pdfTypography, pdfSpacing } from '../styles';
+import { formatUsd } from '@/lib/pipeline/cost';
+import type { CostEstimate } from '@/lib/pipeline/types';
+
+interface CostSectionProps {
+  estimate: CostEstimate;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: pdfSpacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: pdfSpacing.md,
+  },
+  headerIcon: {
+    width: 24,
+    height: 24,
+    backgroundColor: pdfColors.accent.blue[100],
+    borderRadius: 6,
+    marginRight: pdfSpacing.sm,
+  },
+  title: {
+    ...pdfTypography.h2,
+    color: pdfColors.neutral[900],
+  },
+  subtitle: {
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[500],
+    marginBottom: pdfSpacing.md,
+  },
+  totals: {
+    flexDirection: 'row',
+    marginBottom: pdfSpacing.md,
+  },
+  totalCard: {
+    flex: 1,
+    backgroundColor: pdfColors.neutral[50],
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: pdfColors.neutral[200],
+    padding: pdfSpacing.md,
+    marginRight: pdfSpacing.sm,
+  },
+  totalCardLast: {
+    marginRight: 0,
+  },
+  totalLabel: {
+    ...pdfTypography.overline,
+    color: pdfColors.neutral[500],
+    textTransform: 'uppercase',
+    marginBottom: pdfSpacing.xs,
+  },
+  totalValue: {
+    ...pdfTypography.h3,
+    color: pdfColors.neutral[900],
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: pdfColors.neutral[200],
+    borderRadius: 6,
+    marginBottom: pdfSpacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: pdfSpacing.sm,
+    paddingHorizontal: pdfSpacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: pdfColors.neutral[100],
+  },
+  rowLast: {
+    borderBottomWidth: 0,
+    backgroundColor: pdfColors.neutral[50],
+  },
+  rowLabel: {
+    flex: 1,
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[600],
+  },
+  rowDetail: {
+    flex: 1,
+    ...pdfTypography.bodySmall,
+    color: pdfColors.neutral[400],
+  },
+  rowValue: {
+    width: 90,
+    ...pdfTypography.bodySmall,
+    fontWeight: 600,
+    color: pdfColors.neutral[800],
+    textAlign: 'right',
+  },
+  assumptionsTitle: {
+    ...pdfTypography.caption,
+    fontWeight: 600,
+    color: pdfColors.neutral[600],
+    marginBottom: pdfSpacing.xs,
+  },
+  assumption: {
+    ...pdfTypography.caption,
+    color: pdfColors.neutral[500],
+    lineHeight: 1.4,
+    marginBottom: 2,
+  },
+});
+
+export function CostSection({ estimate }: CostSectionProps) {
+  const { monthly } = estimate;
+
+  const rows = [
+    {
+      label: 'Input tokens',
+      detail: `${monthly.requests.toLocaleString('en-US')} requests`,
+      value: monthly.inputTokenCost,
+    },
+    {
+      label: 'Output tokens',
+      detail: estimate.modelLabel,
+      value: monthly.outputTokenCost,
+    },
+    {
+      label: 'Human review',
+      detail: `${monthly.reviewedItems.toLocaleString('en-US')} items, ${monthly.reviewHours} hours`,
+      value: monthly.reviewCost,
+    },
+    { label: 'Total per month', detail: '', value: monthly.total },
+  ];
+
+  return (
+    <View style={styles.container} wrap={false}>
+      <View style={styles.header}>
+        <View style={styles.headerIcon} />
+        <Text style={styles.title}>Estimated Operating Cost</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        Based on the expected usage provided (USD):
+      </Text>
+
+      <View style={styles.totals}>
+        <View style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Per request</Text>
+          <Text style={styles.totalValue}>{formatUsd(estimate.perRequestCost)}</Text>
+        </View>
+        <View style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Per month</Text>
+          <Text style={styles.totalValue}>{formatUsd(monthly.total)}</Text>
+        </View>
+        <View style={[styles.totalCard, styles.totalCardLast]}>
+          <Text style={styles.totalLabel}>Per year</Text>
+          <Text style={styles.totalValue}>{formatUsd(estimate.yearlyTotal)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.table}>
+        {rows.map((row, i) => (
+          <View
+            key={row.label}
+            style={i === rows.length - 1 ? [styles.row, styles.rowLast] : styles.row}
+          >
+            <Text style={styles.rowLabel}>{row.label}</Text>
+            <Text style={styles.rowDetail}>{row.detail}</Text>
+            <Text style={styles.rowValue}>{formatUsd(row.value)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.assumptionsTitle}>Assumptions</Text>
+      {estimate.assumptions.map((assumption, i) => (
+        <Text key={i} style={styles.assumption}>
+          • {assumption}
+        </Text>
+      ))}
+    </View>
+  );
+}
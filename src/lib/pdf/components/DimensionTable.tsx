@@ -1,10 +1,12 @@
 /**
  * PDF Dimension Table
  *
- * Displays the 7 evaluation dimensions with scores, reasoning, and evidence.
+ * Displays the evaluation dimensions (the 7 built-ins plus any custom
+ * dimensions) with scores, reasoning, and evidence.
  */
 
 import { View, Text, StyleSheet } from '@react-pdf/renderer';
+import { isBuiltInDimension } from '@/lib/dimensions';
 import { pdfColors, pdfTypography, pdfSpacing, scoreLabels } from '../styles';
 import type { PreparedDimension, DimensionStats } from '../utils';
 
@@ -77,6 +79,10 @@ const styles = StyleSheet.create({
     ...pdfTypography.h3,
     color: pdfColors.neutral[800],
   },
+  customLabel: {
+    ...pdfTypography.caption,
+    color: pdfColors.neutral[400],
+  },
   scoreBadge: {
     paddingHorizontal: 8,
     paddingVertical: 3,
@@ -130,7 +136,10 @@ function DimensionCard({ dimension }: { dimension: PreparedDimension }) {
   return (
     <View style={[styles.dimensionCard, { borderLeftColor: borderColor }]}>
       <View style={styles.dimensionHeader}>
-        <Text style={styles.dimensionName}>{dimension.name}</Text>
+        <Text style={styles.dimensionName}>
+          {dimension.name}
+          {!isBuiltInDimension(dimension.id) && <Text style={styles.customLabel}> (custom)</Text>}
+        </Text>
         <ScoreBadge score={dimension.score} />
       </View>
 
@@ -151,6 +160,8 @@ function DimensionCard({ dimension }: { dimension: PreparedDimension }) {
 }
 
 export function DimensionTable({ dimensions, stats }: DimensionTableProps) {
+  const customCount = dimensions.filter((d) => !isBuiltInDimension(d.id)).length;
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -158,7 +169,10 @@ export function DimensionTable({ dimensions, stats }: DimensionTableProps) {
         <View style={styles.headerIcon} />
         <View style={styles.headerText}>
           <Text style={styles.title}>Evaluation Breakdown</Text>
-          <Text style={styles.subtitle}>7 dimensions analyzed</Text>
+          <Text style={styles.subtitle}>
+            {dimensions.length} dimensions analyzed
+            {customCount > 0 ? ` (${customCount} custom)` : ''}
+          </Text>
         </View>
       </View>
 
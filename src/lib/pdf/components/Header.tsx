@@ -9,6 +9,8 @@ import { pdfColors, pdfTypography, pdfSpacing } from '../styles';
 
 interface HeaderProps {
   generatedAt: string;
+  /** Report type shown under the brand (default: "Evaluation Report") */
+  subtitle?: string;
 }
 
 const styles = StyleSheet.create({
@@ -52,14 +54,14 @@ const styles = StyleSheet.create({
   },
 });
 
-export function Header({ generatedAt }: HeaderProps) {
+export function Header({ generatedAt, subtitle = 'Evaluation Report' }: HeaderProps) {
   return (
     <View style={styles.header}>
       <View style={styles.brand}>
         <View style={styles.brandIcon} />
         <View style={styles.brandText}>
           <Text style={styles.brandTitle}>AI Suitability Screener</Text>
-          <Text style={styles.brandSubtitle}>Evaluation Report</Text>
+          <Text style={styles.brandSubtitle}>{subtitle}</Text>
         </View>
       </View>
       <Text style={styles.date}>Generated: {generatedAt}</Text>
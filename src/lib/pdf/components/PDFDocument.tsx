@@ -13,15 +13,18 @@ import { DimensionTable } from './DimensionTable';
 import { RiskSection } from './RiskSection';
 import { AlternativesSection } from './AlternativesSection';
 import { ActionChecklist } from './ActionChecklist';
+import { CostSection } from './CostSection';
 import { baseStyles, pdfColors, pdfSpacing, pdfTypography } from '../styles';
 import { formatDate, calculateDimensionStats } from '../utils';
 import type { PreparedEvaluation } from '../utils';
 import type { Verdict } from '@/lib/schemas';
+import type { CostEstimate } from '@/lib/pipeline/types';
 
-interface PDFDocumentProps {
+export interface PDFDocumentProps {
   problem: string;
   evaluation: PreparedEvaluation;
   generatedAt: Date;
+  costEstimate?: CostEstimate;
 }
 
 const styles = StyleSheet.create({
@@ -55,36 +58,27 @@ const styles = StyleSheet.create({
 });
 
 /**
- * Creates a PDF document from evaluation data
+ * The pages of one evaluation report
  *
- * The document is structured across multiple pages to ensure readability:
+ * The report is structured across multiple pages to ensure readability:
  * - Page 1: Cover with verdict and summary
  * - Page 2+: Dimension breakdown
- * - Page 3+: Risk analysis
+ * - Page 3+: Risk analysis and operating cost
  * - Page 4+: Alternatives and action checklist
+ *
+ * Rendered on its own by PDFDocument and once per assessment by the
+ * comparison report.
  */
-export function PDFDocument({ problem, evaluation, generatedAt }: PDFDocumentProps) {
+export function ReportPages({ problem, evaluation, generatedAt, costEstimate }: PDFDocumentProps) {
   const formattedDate = formatDate(generatedAt);
   const dimensionStats = calculateDimensionStats(evaluation.dimensions);
 
-  // We need a valid verdict to render
   if (!evaluation.verdict) {
-    return (
-      <Document>
-        <Page size="A4" style={styles.page}>
-          <Text>Evaluation is incomplete. Cannot generate PDF.</Text>
-        </Page>
-      </Document>
-    );
+    return null;
   }
 
   return (
-    <Document
-      title="AI Suitability Report"
-      author="AI Suitability Screener"
-      subject={`AI suitability evaluation for: ${problem.slice(0, 100)}`}
-      creator="AI Suitability Screener"
-    >
+    <>
       {/* Page 1: Cover - Verdict and Summary */}
       <Page size="A4" style={styles.page}>
         <Header generatedAt={formattedDate} />
@@ -121,10 +115,11 @@ export function PDFDocument({ problem, evaluation, generatedAt }: PDFDocumentPro
         </Page>
       )}
 
-      {/* Page 3: Analysis - Strengths, Risks, Architecture */}
+      {/* Page 3: Analysis - Strengths, Risks, Architecture, Cost */}
       {(evaluation.favorableFactors.length > 0 ||
         evaluation.riskFactors.length > 0 ||
-        evaluation.recommendedArchitecture) && (
+        evaluation.recommendedArchitecture ||
+        costEstimate) && (
         <Page size="A4" style={styles.page}>
           <Header generatedAt={formattedDate} />
 
@@ -134,13 +129,18 @@ export function PDFDocument({ problem, evaluation, generatedAt }: PDFDocumentPro
             recommendedArchitecture={evaluation.recommendedArchitecture}
           />
 
+          {costEstimate && <CostSection estimate={costEstimate} />}
+
           <PageNumber />
         </Page>
       )}
 
       {/* Page 4: Alternatives and Actions */}
       {(evaluation.alternatives.length > 0 ||
-        evaluation.questionsBeforeBuilding.length > 0) && (
+        evaluation.questionsBeforeBuilding.length > 0 ||
+        evaluation.actionItems.length > 0 ||
+        evaluation.keyTakeaways.length > 0 ||
+        evaluation.executiveSummary) && (
         <Page size="A4" style={styles.page}>
           <Header generatedAt={formattedDate} />
 
@@ -148,13 +148,48 @@ export function PDFDocument({ problem, evaluation, generatedAt }: PDFDocumentPro
             <AlternativesSection alternatives={evaluation.alternatives} />
           )}
 
-          {evaluation.questionsBeforeBuilding.length > 0 && (
-            <ActionChecklist questions={evaluation.questionsBeforeBuilding} />
-          )}
+          <ActionChecklist
+            questions={evaluation.questionsBeforeBuilding}
+            executiveSummary={evaluation.executiveSummary}
+            actionItems={evaluation.actionItems}
+            keyTakeaways={evaluation.keyTakeaways}
+          />
 
           <PageNumber />
         </Page>
       )}
+    </>
+  );
+}
+
+/**
+ * Creates a PDF document from evaluation data
+ */
+export function PDFDocument({ problem, evaluation, generatedAt, costEstimate }: PDFDocumentProps) {
+  // We need a valid verdict to render
+  if (!evaluation.verdict) {
+    return (
+      <Document>
+        <Page size="A4" style={styles.page}>
+          <Text>Evaluation is incomplete. Cannot generate PDF.</Text>
+        </Page>
+      </Document>
+    );
+  }
+
+  return (
+    <Document
+      title="AI Suitability Report"
+      author="AI Suitability Screener"
+      subject={`AI suitability evaluation for: ${problem.slice(0, 100)}`}
+      creator="AI Suitability Screener"
+    >
+      <ReportPages
+        problem={problem}
+        evaluation={evaluation}
+        generatedAt={generatedAt}
+        costEstimate={costEstimate}
+      />
     </Document>
   );
 }
@@ -1,11 +1,13 @@
 /**
  * PDF Risk Section
  *
- * Displays strengths (favorable factors), risks with severity, and recommended architecture.
+ * Displays strengths (favorable factors), risks with severity, and recommended
+ * architecture with its diagram, data flow, guardrails and monitoring needs.
  */
 
 import { View, Text, StyleSheet } from '@react-pdf/renderer';
 import { pdfColors, pdfTypography, pdfSpacing } from '../styles';
+import { ArchitectureDiagram } from './ArchitectureDiagram';
 import type {
   PreparedFavorableFactor,
   PreparedRiskFactor,
@@ -155,6 +157,22 @@ function SeverityBadge({ severity }: { severity: 'low' | 'medium' | 'high' }) {
   );
 }
 
+function ArchitectureList({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <View style={styles.componentsList}>
+      <Text style={styles.componentsLabel}>{label}</Text>
+      {items.map((item, i) => (
+        <View key={i} style={styles.componentItem}>
+          <View style={styles.componentBullet} />
+          <Text style={styles.componentText}>{item}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
 export function RiskSection({
   favorableFactors,
   riskFactors,
@@ -227,18 +245,20 @@ export function RiskSection({
               {recommendedArchitecture.description}
             </Text>
 
-            {recommendedArchitecture.components.length > 0 && (
+            <ArchitectureDiagram architecture={recommendedArchitecture} />
+
+            <ArchitectureList label="Key Components:" items={recommendedArchitecture.components} />
+
+            {recommendedArchitecture.dataFlow && (
               <View style={styles.componentsList}>
-                <Text style={styles.componentsLabel}>Key Components:</Text>
-                {recommendedArchitecture.components.map((component, i) => (
-                  <View key={i} style={styles.componentItem}>
-                    <View style={styles.componentBullet} />
-                    <Text style={styles.componentText}>{component}</Text>
-                  </View>
-                ))}
+                <Text style={styles.componentsLabel}>Data Flow:</Text>
+                <Text style={styles.componentText}>{recommendedArchitecture.dataFlow}</Text>
               </View>
             )}
 
+            <ArchitectureList label="Guardrails:" items={recommendedArchitecture.guardrails} />
+            <ArchitectureList label="Monitoring:" items={recommendedArchitecture.monitoringNeeds} />
+
             {recommendedArchitecture.humanInLoop && (
               <View style={styles.humanInLoopBadge}>
                 <Text style={styles.humanInLoopText}>Human-in-the-Loop Required</Text>
@@ -7,8 +7,11 @@
 
 import { pdf } from '@react-pdf/renderer';
 import { PDFDocument } from './components/PDFDocument';
+import { ComparisonDocument } from './components/ComparisonDocument';
 import { prepareEvaluationForPDF, generateFilename, formatDate } from './utils';
 import type { EvaluationResult } from '@/lib/schemas';
+import type { CostEstimate } from '@/lib/pipeline/types';
+import type { ComparisonResult } from '@/lib/pipeline/comparison';
 
 // Re-export utilities
 export { generateFilename, formatDate, prepareEvaluationForPDF } from './utils';
@@ -30,6 +33,15 @@ export interface PDFGenerationOptions {
   problem: string;
   /** The evaluation result (may be partial during streaming) */
   evaluation: DeepPartial<EvaluationResult>;
+  /** Operating cost estimate, rendered when present */
+  costEstimate?: CostEstimate;
+  /** Optional custom date for the report */
+  date?: Date;
+}
+
+export interface ComparisonPDFOptions {
+  /** Ranked comparison of the assessments */
+  comparison: ComparisonResult;
   /** Optional custom date for the report */
   date?: Date;
 }
@@ -60,7 +72,7 @@ export interface PDFGenerationResult {
  * ```
  */
 export async function generatePDF(options: PDFGenerationOptions): Promise<PDFGenerationResult> {
-  const { problem, evaluation, date = new Date() } = options;
+  const { problem, evaluation, costEstimate, date = new Date() } = options;
 
   // Prepare data (filters undefined values from streaming)
   const preparedData = prepareEvaluationForPDF(evaluation);
@@ -75,6 +87,7 @@ export async function generatePDF(options: PDFGenerationOptions): Promise<PDFGen
     problem,
     evaluation: preparedData,
     generatedAt: date,
+    costEstimate,
   });
 
   // Generate blob
@@ -84,6 +97,26 @@ export async function generatePDF(options: PDFGenerationOptions): Promise<PDFGen
   return { blob, filename };
 }
 
+/**
+ * Generates a combined PDF for a comparison: the overview followed by the
+ * full report of each assessment in rank order
+ *
+ * @param options - The comparison and optional report date
+ * @returns A promise resolving to the PDF blob and suggested filename
+ */
+export async function generateComparisonPDF(
+  options: ComparisonPDFOptions
+): Promise<PDFGenerationResult> {
+  const { comparison, date = new Date() } = options;
+
+  const document = ComparisonDocument({ comparison, generatedAt: date });
+
+  const blob = await pdf(document).toBlob();
+  const filename = generateFilename(date, 'comparison');
+
+  return { blob, filename };
+}
+
 // ============================================================================
 // DOWNLOAD HELPER
 // ============================================================================
@@ -106,8 +139,22 @@ export async function generatePDF(options: PDFGenerationOptions): Promise<PDFGen
  * ```
  */
 export async function downloadPDF(options: PDFGenerationOptions): Promise<void> {
-  const { blob, filename } = await generatePDF(options);
+  saveBlob(await generatePDF(options));
+}
 
+/**
+ * Downloads the combined comparison PDF to the user's device
+ *
+ * @param options - The comparison and optional report date
+ */
+export async function downloadComparisonPDF(options: ComparisonPDFOptions): Promise<void> {
+  saveBlob(await generateComparisonPDF(options));
+}
+
+/**
+ * Saves a generated PDF, handling iOS Safari's lack of download support
+ */
+function saveBlob({ blob, filename }: PDFGenerationResult): void {
   // Create object URL
   const url = URL.createObjectURL(blob);
 
@@ -6,6 +6,7 @@
  */
 
 import type { EvaluationResult, Verdict, DimensionScore } from '@/lib/schemas';
+import type { ActionItemPriority, AnalysisResult, PreBuildQuestionCategory } from '@/lib/pipeline/types';
 
 // ============================================================================
 // FILENAME GENERATION
@@ -14,15 +15,19 @@ import type { EvaluationResult, Verdict, DimensionScore } from '@/lib/schemas';
 /**
  * Generates a timestamped filename for the PDF export
  * Format: ai-suitability-report-YYYY-MM-DD-HH-mm.pdf
+ * (ai-suitability-comparison-... for comparison reports)
  */
-export function generateFilename(date: Date = new Date()): string {
+export function generateFilename(
+  date: Date = new Date(),
+  kind: 'report' | 'comparison' = 'report'
+): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
   const hours = String(date.getHours()).padStart(2, '0');
   const minutes = String(date.getMinutes()).padStart(2, '0');
 
-  return `ai-suitability-report-${year}-${month}-${day}-${hours}-${minutes}.pdf`;
+  return `ai-suitability-${kind}-${year}-${month}-${day}-${hours}-${minutes}.pdf`;
 }
 
 /**
@@ -69,6 +74,45 @@ type DeepPartial<T> = T extends object
   ? { [P in keyof T]?: DeepPartial<T[P]> }
   : T;
 
+/**
+ * Converts a pipeline AnalysisResult to the evaluation format the PDF renders
+ */
+export function evaluationFromAnalysisResult(result: AnalysisResult): DeepPartial<EvaluationResult> {
+  return {
+    verdict: result.verdict,
+    confidence: result.confidence,
+    summary: result.summary,
+    dimensions: result.dimensions.map((d) => ({
+      id: d.id,
+      name: d.name,
+      score: d.score,
+      reasoning: d.reasoning,
+      evidence: d.evidence,
+      weight: d.weight,
+    })),
+    // keyFactors use influence: 'strongly_positive' | 'positive' | 'neutral' | 'negative' | 'strongly_negative'
+    favorableFactors: result.keyFactors
+      .filter((f) => f.influence === 'positive' || f.influence === 'strongly_positive')
+      .map((f) => ({
+        factor: f.dimensionId.replace(/_/g, ' '),
+        explanation: f.note,
+      })),
+    riskFactors: result.risks.map((r) => ({
+      risk: r.risk,
+      severity: r.severity,
+      mitigation: r.mitigation,
+    })),
+    alternatives: result.alternatives,
+    // Convert null to undefined for legacy type compatibility
+    recommendedArchitecture: result.architecture ?? undefined,
+    questionsBeforeBuilding: result.questionsBeforeBuilding,
+    executiveSummary: result.executiveSummary,
+    actionItems: result.actionItems,
+    keyTakeaways: result.keyTakeaways,
+    reasoning: result.reasoning,
+  };
+}
+
 /**
  * Prepares evaluation data for PDF rendering
  * Filters out undefined values from streaming to prevent render errors
@@ -127,6 +171,13 @@ export function prepareEvaluationForPDF(
           ),
           humanInLoop: evaluation.recommendedArchitecture.humanInLoop ?? false,
           confidenceThreshold: evaluation.recommendedArchitecture.confidenceThreshold,
+          dataFlow: evaluation.recommendedArchitecture.dataFlow,
+          guardrails: (evaluation.recommendedArchitecture.guardrails ?? []).filter(
+            (g): g is string => typeof g === 'string'
+          ),
+          monitoringNeeds: (evaluation.recommendedArchitecture.monitoringNeeds ?? []).filter(
+            (m): m is string => typeof m === 'string'
+          ),
         }
       : undefined,
 
@@ -135,8 +186,23 @@ export function prepareEvaluationForPDF(
       .map((q) => ({
         question: safeString(q.question),
         whyItMatters: safeString(q.whyItMatters),
+        category: q.category,
+      })),
+
+    executiveSummary: evaluation.executiveSummary,
+
+    actionItems: (evaluation.actionItems ?? [])
+      .filter((a): a is NonNullable<typeof a> => a !== undefined && a.action !== undefined)
+      .map((a) => ({
+        action: safeString(a.action),
+        priority: a.priority ?? 'important',
+        rationale: safeString(a.rationale),
       })),
 
+    keyTakeaways: (evaluation.keyTakeaways ?? []).filter(
+      (t): t is string => typeof t === 'string'
+    ),
+
     reasoning: safeString(evaluation.reasoning),
   };
 }
@@ -180,11 +246,21 @@ export interface PreparedArchitecture {
   components: string[];
   humanInLoop: boolean;
   confidenceThreshold?: number;
+  dataFlow?: string;
+  guardrails: string[];
+  monitoringNeeds: string[];
 }
 
 export interface PreparedQuestion {
   question: string;
   whyItMatters: string;
+  category?: PreBuildQuestionCategory;
+}
+
+export interface PreparedActionItem {
+  action: string;
+  priority: ActionItemPriority;
+  rationale: string;
 }
 
 export interface PreparedEvaluation {
@@ -197,6 +273,9 @@ export interface PreparedEvaluation {
   alternatives: PreparedAlternative[];
   recommendedArchitecture?: PreparedArchitecture;
   questionsBeforeBuilding: PreparedQuestion[];
+  executiveSummary?: string;
+  actionItems: PreparedActionItem[];
+  keyTakeaways: string[];
   reasoning: string;
 }
 
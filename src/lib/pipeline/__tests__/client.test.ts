@@ -301,6 +301,109 @@ describe('PipelineRun', () => {
   });
 });
 
+// ═══════════════════════════════════════════════════════════════════════════
+// RECONNECT TESTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function createRawSSEResponse(frames: string[]) {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const frame of frames) {
+          controller.enqueue(encoder.encode(frame));
+        }
+        controller.close();
+      }
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  );
+}
+
+function sseFrame(id: number, data: { type: string } & Record<string, unknown>) {
+  return `id: ${id}\nevent: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+describe('stream reconnect', () => {
+  const serverRunId = '123e4567-e89b-12d3-a456-426614174000';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('exposes event ids on chunks', async () => {
+    setupFetchMock(createRawSSEResponse([
+      sseFrame(1, { type: 'pipeline:start', runId: serverRunId, timestamp: 1 }),
+      'event: done\ndata: {}\n\n'
+    ]));
+
+    const client = new PipelineClient();
+    const stream = await client.createRun({ problem: 'Test' }).stream();
+    const ids: Array<number | undefined> = [];
+    await stream.processDataStream({ onChunk: (chunk) => { ids.push(chunk.id); } });
+
+    expect(ids).toEqual([1]);
+    expect(stream.lastEventId).toBe(1);
+    expect(stream.isTerminated).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reconnects with Last-Event-ID when the connection drops', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(createRawSSEResponse([
+        sseFrame(1, { type: 'pipeline:start', runId: serverRunId, timestamp: 1 }),
+        sseFrame(2, { type: 'screening:start' })
+      ]))
+      .mockResolvedValueOnce(createRawSSEResponse([
+        ': connected\n\n',
+        sseFrame(3, { type: 'pipeline:stage', stage: 'dimensions' }),
+        'event: done\ndata: {}\n\n'
+      ]));
+
+    const client = new PipelineClient({ backoffMs: 1 });
+    const stream = await client.createRun({ problem: 'Test' }).stream();
+    const types: string[] = [];
+    await stream.processDataStream({ onChunk: (chunk) => { types.push(chunk.type); } });
+
+    expect(types).toEqual(['pipeline:start', 'screening:start', 'pipeline:stage']);
+    expect(fetch).toHaveBeenLastCalledWith(
+      `/api/pipeline/stream?runId=${serverRunId}`,
+      expect.objectContaining({ headers: { 'Last-Event-ID': '2' } })
+    );
+  });
+
+  it('fails when the server no longer has the stream', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(createRawSSEResponse([
+        sseFrame(1, { type: 'pipeline:start', runId: serverRunId, timestamp: 1 })
+      ]))
+      .mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+    const client = new PipelineClient({ backoffMs: 1 });
+    const stream = await client.createRun({ problem: 'Test' }).stream();
+
+    await expect(stream.processDataStream({ onChunk: () => {} })).rejects.toThrow(
+      'Pipeline stream ended before the run finished'
+    );
+  });
+
+  it('fails without retrying when the missed events were dropped', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(createRawSSEResponse([
+        sseFrame(1, { type: 'pipeline:start', runId: serverRunId, timestamp: 1 })
+      ]))
+      .mockResolvedValueOnce(new Response(null, { status: 410 }));
+
+    const client = new PipelineClient({ backoffMs: 1 });
+    const stream = await client.createRun({ problem: 'Test' }).stream();
+
+    await expect(stream.processDataStream({ onChunk: () => {} })).rejects.toThrow(
+      'missed events are no longer available'
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ERROR HANDLING TESTS
 // ═══════════════════════════════════════════════════════════════════════════
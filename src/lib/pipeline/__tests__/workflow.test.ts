@@ -0,0 +1,174 @@
+/**
+ * Unit tests for the workflow's dimensions step.
+ *
+ * The dimension analyzers are mocked so the tests cover how the step reports
+ * dimensions, suspends on blocking questions and picks up again on resume.
+ *
+ * @module pipeline/__tests__/workflow.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { dimensionsStep } from '../workflow';
+import { createInitialState } from '../state';
+import { getDimensionRegistry } from '../analyzers';
+import type { PipelineEventEnvelope } from '../workflow/event-emitter';
+import type { DimensionAnalysis, DimensionId, FollowUpQuestion, ScreeningOutput, UserAnswer } from '../types';
+
+vi.mock('../analyzers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../analyzers')>()),
+  analyzeAllDimensions: vi.fn()
+}));
+
+import { analyzeAllDimensions, type DimensionAnalyzerOptions } from '../analyzers';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const screening: ScreeningOutput = {
+  canEvaluate: true,
+  clarifyingQuestions: [],
+  partialInsights: [],
+  preliminarySignal: 'uncertain',
+  dimensionPriorities: []
+};
+
+const blockingQuestion: FollowUpQuestion = {
+  id: 'q-volume',
+  question: 'How many tickets arrive per day?',
+  rationale: 'Volume decides whether review is affordable',
+  priority: 'blocking',
+  source: { stage: 'dimension', dimensionId: 'task_determinism' }
+};
+
+const answer: UserAnswer = {
+  questionId: blockingQuestion.id,
+  answer: 'About 200',
+  source: 'dimension',
+  timestamp: 1
+};
+
+function analysis(id: string, infoGaps: FollowUpQuestion[] = []): DimensionAnalysis {
+  return {
+    id: id as DimensionAnalysis['id'],
+    name: id,
+    score: 'favorable',
+    confidence: 0.8,
+    weight: 0.5,
+    reasoning: 'Test reasoning',
+    evidence: [],
+    infoGaps,
+    status: 'complete'
+  };
+}
+
+/** Analyzes the requested dimensions without raising questions */
+function analyzeRequested(options: DimensionAnalyzerOptions = {}): Record<DimensionId, DimensionAnalysis> {
+  return Object.fromEntries((options.dimensionIds ?? []).map((id) => [id, analysis(id)])) as Record<
+    DimensionId,
+    DimensionAnalysis
+  >;
+}
+
+const newState = () => createInitialState({ problem: 'Triage tickets' });
+
+/**
+ * Runs the dimensions step with stubbed Mastra context.
+ */
+async function runStep(
+  state: ReturnType<typeof createInitialState>,
+  resumeData?: { answers: UserAnswer[] }
+) {
+  const written: PipelineEventEnvelope[] = [];
+  const suspend = vi.fn();
+  const setState = vi.fn();
+
+  const output = await dimensionsStep.execute({
+    inputData: { screening },
+    resumeData,
+    suspend,
+    setState,
+    state,
+    writer: { write: async (envelope: PipelineEventEnvelope) => void written.push(envelope) }
+  } as never);
+
+  const emitted = written.map((envelope) => envelope.event);
+  const started = emitted.flatMap((event) => (event.type === 'dimension:start' ? [event.id] : []));
+  const completed = emitted.flatMap((event) => (event.type === 'dimension:complete' ? [event.id] : []));
+
+  return { output, suspend, setState, started, completed };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('dimensionsStep', () => {
+  const ids = getDimensionRegistry().ids();
+  const [first, second] = ids;
+
+  beforeEach(() => {
+    vi.mocked(analyzeAllDimensions).mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  it('should suspend as soon as a dimension raises a blocking question', async () => {
+    vi.mocked(analyzeAllDimensions).mockImplementation(async (_input, _screening, _answers, options = {}) => {
+      options.onDimensionComplete?.(analysis(first, [blockingQuestion]));
+      expect(options.abortSignal?.aborted).toBe(true);
+
+      // An analyzer resolving after the stop is dropped
+      options.onDimensionComplete?.(analysis(second));
+      throw new Error('This operation was aborted');
+    });
+
+    const { output, suspend, setState, completed } = await runStep(newState());
+
+    expect(suspend).toHaveBeenCalledWith({ questions: [blockingQuestion], stage: 'dimensions' });
+    expect(output).toEqual({ dimensions: { [first]: expect.any(Object) }, suspended: true });
+    expect(completed).toEqual([first]);
+    expect(setState).toHaveBeenCalledWith(
+      expect.objectContaining({ dimensions: { [first]: expect.objectContaining({ id: first }) } })
+    );
+  });
+
+  it('should analyze again on resume the dimensions whose questions were answered', async () => {
+    vi.mocked(analyzeAllDimensions).mockImplementation(async (_input, _screening, _answers, options) =>
+      analyzeRequested(options)
+    );
+    const state = {
+      ...newState(),
+      dimensions: { [first]: analysis(first, [blockingQuestion]), [second]: analysis(second) }
+    };
+
+    const { output, suspend, setState, started, completed } = await runStep(state, { answers: [answer] });
+
+    const unfinished = ids.filter((id) => id !== second);
+    const options = vi.mocked(analyzeAllDimensions).mock.calls[0][3] as DimensionAnalyzerOptions;
+    expect(options.dimensionIds).toEqual(unfinished);
+    expect(vi.mocked(analyzeAllDimensions).mock.calls[0][2]).toEqual({ [answer.questionId]: answer });
+    expect(suspend).not.toHaveBeenCalled();
+    expect(output.dimensions[first as DimensionId].infoGaps).toEqual([]);
+    expect(Object.keys(output.dimensions).sort()).toEqual([...ids].sort());
+    expect(started).toEqual(unfinished);
+    expect(completed).toEqual(unfinished);
+    expect(setState).toHaveBeenLastCalledWith(expect.objectContaining({ dimensions: output.dimensions }));
+  });
+
+  it('should only retry the dimensions that have not finished', async () => {
+    vi.mocked(analyzeAllDimensions)
+      .mockImplementationOnce(async (_input, _screening, _answers, options = {}) => {
+        options.onDimensionComplete?.(analysis(first));
+        throw new Error('Rate limit exceeded');
+      })
+      .mockImplementation(async (_input, _screening, _answers, options) => analyzeRequested(options));
+
+    const { output, completed } = await runStep(newState());
+
+    const retry = vi.mocked(analyzeAllDimensions).mock.calls[1][3] as DimensionAnalyzerOptions;
+    expect(retry.dimensionIds).toEqual(ids.slice(1));
+    expect(Object.keys(output.dimensions)).toHaveLength(ids.length);
+    expect(completed.filter((id) => id === first)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for the architecture recommender output and pre-build question grouping.
+ *
+ * @module pipeline/analyzers/__tests__/architecture.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { recommendArchitecture } from '../secondary/architecture';
+import { createTextGenerateResult } from '../../models/model-utils';
+import { groupPreBuildQuestions, type PreBuildQuestion, type VerdictResult } from '../../types';
+
+const input = { problem: 'Route 2,000 support tickets a day to one of 12 queues' };
+
+const verdict: VerdictResult = {
+  verdict: 'CONDITIONAL',
+  confidence: 0.7,
+  summary: 'Works with review',
+  reasoning: 'Because...',
+  keyFactors: []
+};
+
+function createArchitectureModel(): MockLanguageModelV3 {
+  return new MockLanguageModelV3({
+    doGenerate: async (options) =>
+      createTextGenerateResult(
+        options,
+        JSON.stringify({
+          architecture: {
+            description: 'Classifier with human review',
+            components: ['Prompt template', 'Confidence scoring'],
+            humanInLoop: true,
+            confidenceThreshold: 0.85,
+            dataFlow: 'Ticket → classifier → queue or review',
+            guardrails: ['Route low-confidence tickets to a human'],
+            monitoringNeeds: ['Misroute rate per queue']
+          },
+          questionsBeforeBuilding: [
+            { question: 'Are queue labels consistent?', whyItMatters: 'Training data', category: 'data' },
+            { question: 'Who owns misroutes?', whyItMatters: 'Accountability', category: 'business' }
+          ]
+        })
+      )
+  });
+}
+
+function question(text: string, category?: PreBuildQuestion['category']): PreBuildQuestion {
+  return { question: text, whyItMatters: '', ...(category && { category }) };
+}
+
+describe('recommendArchitecture', () => {
+  it('should keep the data flow, guardrails, monitoring needs and question categories', async () => {
+    const result = await recommendArchitecture(input, {}, verdict, { model: createArchitectureModel() });
+
+    expect(result.architecture).toMatchObject({
+      dataFlow: 'Ticket → classifier → queue or review',
+      guardrails: ['Route low-confidence tickets to a human'],
+      monitoringNeeds: ['Misroute rate per queue']
+    });
+    expect(result.questionsBeforeBuilding.map((q) => q.category)).toEqual(['data', 'business']);
+  });
+
+  it('should generate a Mermaid diagram from the recommended architecture', async () => {
+    const result = await recommendArchitecture(input, {}, verdict, { model: createArchitectureModel() });
+
+    expect(result.architecture?.diagram).toMatch(/^flowchart TD\n/);
+    expect(result.architecture?.diagram).toContain('  component1["Prompt template"]');
+    expect(result.architecture?.diagram).toContain('  gate -->|no| review');
+  });
+});
+
+describe('groupPreBuildQuestions', () => {
+  it('should group questions by category in display order with uncategorized ones last', () => {
+    const groups = groupPreBuildQuestions([
+      question('ops', 'operational'),
+      question('legacy'),
+      question('budget', 'business'),
+      question('latency', 'technical'),
+      question('owner', 'business')
+    ]);
+
+    expect(groups.map((g) => [g.category, g.questions.map((q) => q.question)])).toEqual([
+      ['business', ['budget', 'owner']],
+      ['technical', ['latency']],
+      ['operational', ['ops']],
+      [null, ['legacy']]
+    ]);
+  });
+
+  it('should return no groups for no questions', () => {
+    expect(groupPreBuildQuestions([])).toEqual([]);
+  });
+});
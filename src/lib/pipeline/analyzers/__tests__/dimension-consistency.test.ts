@@ -0,0 +1,173 @@
+/**
+ * Tests for self-consistency sampling of dimension scores.
+ *
+ * @module pipeline/analyzers/__tests__/dimension-consistency.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { aggregateDimensionSamples } from '../dimensions/consistency';
+import { createDimensionAnalyzer } from '../dimensions/factory';
+import { createTextGenerateResult } from '../../models/model-utils';
+import type { DimensionAnalysis, DimensionScore, FollowUpQuestion } from '../../types';
+
+function sample(
+  score: DimensionScore,
+  confidence = 0.8,
+  overrides: Partial<DimensionAnalysis> = {}
+): DimensionAnalysis {
+  return {
+    id: 'error_tolerance',
+    name: 'Error Tolerance',
+    score,
+    confidence,
+    weight: 0.8,
+    reasoning: `Scored ${score}`,
+    evidence: [],
+    infoGaps: [],
+    status: 'complete',
+    ...overrides
+  };
+}
+
+function gap(id: string): FollowUpQuestion {
+  return {
+    id,
+    question: `${id}?`,
+    rationale: '',
+    priority: 'helpful',
+    source: { stage: 'dimension', dimensionId: 'error_tolerance' }
+  };
+}
+
+/**
+ * A model that answers each call with the next score in turn.
+ */
+function createScoreCyclingModel(scores: Array<DimensionScore | Error>): MockLanguageModelV3 {
+  let call = 0;
+  return new MockLanguageModelV3({
+    doGenerate: async (options) => {
+      const score = scores[call++ % scores.length];
+      if (score instanceof Error) throw score;
+      return createTextGenerateResult(
+        options,
+        JSON.stringify({
+          score,
+          confidence: 0.9,
+          weight: 0.6,
+          reasoning: `Scored ${score}`,
+          evidence: [],
+          infoGaps: []
+        })
+      );
+    }
+  });
+}
+
+const input = { problem: 'Route 2,000 support tickets a day to one of 12 queues' };
+const analyzeErrorTolerance = createDimensionAnalyzer('error_tolerance');
+
+describe('aggregateDimensionSamples', () => {
+  it('should take the majority score and scale confidence by agreement', () => {
+    const analysis = aggregateDimensionSamples([
+      sample('favorable', 0.9),
+      sample('unfavorable', 0.95),
+      sample('favorable', 0.7)
+    ]);
+
+    expect(analysis.score).toBe('favorable');
+    expect(analysis.confidence).toBe(0.53);
+    expect(analysis.reasoning).toBe('Scored favorable');
+    expect(analysis.samples).toEqual({
+      scores: ['favorable', 'unfavorable', 'favorable'],
+      confidences: [0.9, 0.95, 0.7],
+      votes: { favorable: 2, neutral: 0, unfavorable: 1 },
+      agreement: 0.67
+    });
+  });
+
+  it('should break ties toward the mean, then toward the more cautious score', () => {
+    const towardMean = aggregateDimensionSamples([
+      sample('favorable'),
+      sample('neutral'),
+      sample('neutral'),
+      sample('favorable'),
+      sample('unfavorable')
+    ]);
+    const cautious = aggregateDimensionSamples([sample('favorable'), sample('unfavorable')]);
+
+    expect(towardMean.score).toBe('neutral');
+    expect(cautious.score).toBe('unfavorable');
+  });
+
+  it('should merge info gaps from the majority and average the weight', () => {
+    const analysis = aggregateDimensionSamples([
+      sample('neutral', 0.8, { infoGaps: [gap('volume')], weight: 1 }),
+      sample('neutral', 0.8, { infoGaps: [gap('volume'), gap('review')], weight: 0.5 }),
+      sample('favorable', 0.8, { infoGaps: [gap('budget')], weight: 0.6 })
+    ]);
+
+    expect(analysis.infoGaps.map((g) => g.id)).toEqual(['volume', 'review']);
+    expect(analysis.weight).toBe(0.7);
+  });
+
+  it('should keep a single sample unchanged apart from the spread', () => {
+    const analysis = aggregateDimensionSamples([sample('neutral', 0.6)], [0.2]);
+
+    expect(analysis).toMatchObject({ score: 'neutral', confidence: 0.6 });
+    expect(analysis.samples).toMatchObject({ temperatures: [0.2], agreement: 1 });
+  });
+
+  it('should reject an empty sample list', () => {
+    expect(() => aggregateDimensionSamples([])).toThrow('zero dimension samples');
+  });
+});
+
+describe('Dimension analyzer sampling', () => {
+  it('should analyze once without sampling', async () => {
+    const model = createScoreCyclingModel(['neutral']);
+
+    const analysis = await analyzeErrorTolerance(input, null, {}, { model });
+
+    expect(model.doGenerateCalls).toHaveLength(1);
+    expect(analysis.samples).toBeUndefined();
+  });
+
+  it('should run each sample at the configured temperatures and vote', async () => {
+    const model = createScoreCyclingModel(['favorable', 'neutral', 'favorable']);
+
+    const analysis = await analyzeErrorTolerance(
+      { ...input, sampling: { samples: 3, temperatures: [0.2, 1] } },
+      null,
+      {},
+      { model }
+    );
+
+    expect(model.doGenerateCalls.map((call) => call.temperature)).toEqual([0.2, 1, 0.2]);
+    expect(analysis.score).toBe('favorable');
+    expect(analysis.samples).toMatchObject({
+      scores: ['favorable', 'neutral', 'favorable'],
+      temperatures: [0.2, 1, 0.2],
+      agreement: 0.67
+    });
+  });
+
+  it('should drop failed samples and fail only when every sample fails', async () => {
+    const analysis = await analyzeErrorTolerance(
+      { ...input, sampling: { samples: 3 } },
+      null,
+      {},
+      { model: createScoreCyclingModel(['neutral', new Error('rate limited'), 'neutral']) }
+    );
+
+    expect(analysis.samples?.scores).toEqual(['neutral', 'neutral']);
+    await expect(
+      analyzeErrorTolerance(
+        { ...input, sampling: { samples: 2 } },
+        null,
+        {},
+        { model: createScoreCyclingModel([new Error('rate limited')]) }
+      )
+    ).rejects.toThrow('rate limited');
+  });
+});
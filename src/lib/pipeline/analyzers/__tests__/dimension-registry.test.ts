@@ -0,0 +1,154 @@
+/**
+ * Tests for custom dimensions registered at runtime.
+ *
+ * @module pipeline/analyzers/__tests__/dimension-registry.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createDimensionRegistry,
+  getDimensionRegistry,
+  resetDimensionRegistry,
+  type CustomDimension
+} from '../dimensions/registry';
+import { analyzeAllDimensions, createDimensionAnalyzer, ALL_DIMENSION_IDS } from '../dimensions/factory';
+import { getDimensionPrompt } from '../dimensions/prompts';
+import { calculateVerdict } from '../verdict';
+import { buildWeightedVerdictResult, computeWeightedVerdict } from '../weighted-verdict';
+import { createMockModel } from '../../models/mock-provider';
+import { DimensionAnalysisSchema } from '../../types';
+
+const dataResidency: CustomDimension = {
+  id: 'data_residency',
+  name: 'Data Residency',
+  description: 'Can data stay in the regions we are required to keep it in?',
+  favorable: 'Models and data can be hosted in-region',
+  unfavorable: 'Only cross-border hosted models are viable',
+  questions: ['Which jurisdictions does the data originate from?'],
+  rubric: '- EU customer data must stay in the EU'
+};
+
+const input = { problem: 'Summarize support tickets from EU and US customers' };
+
+afterEach(() => {
+  resetDimensionRegistry();
+});
+
+describe('Dimension Registry', () => {
+  describe('createDimensionRegistry', () => {
+    it('should start with the built-in dimensions in analysis order', () => {
+      const registry = createDimensionRegistry();
+
+      expect(registry.ids()).toEqual(ALL_DIMENSION_IDS);
+      expect(registry.list().every((d) => !d.custom)).toBe(true);
+    });
+
+    it('should append custom dimensions after the built-ins', () => {
+      const registry = createDimensionRegistry([dataResidency]);
+
+      expect(registry.ids()).toHaveLength(8);
+      expect(registry.ids().at(-1)).toBe('data_residency');
+      expect(registry.get('data_residency')).toMatchObject({ name: 'Data Residency', custom: true });
+    });
+
+    it('should reject invalid ids and duplicates', () => {
+      const registry = createDimensionRegistry();
+
+      expect(() => registry.register({ ...dataResidency, id: 'Data Residency' })).toThrow(
+        'Invalid custom dimension Data Residency'
+      );
+      expect(() => registry.register({ ...dataResidency, id: 'error_tolerance' })).toThrow(
+        'Dimension error_tolerance is already registered'
+      );
+    });
+
+    it('should unregister custom dimensions but not built-ins', () => {
+      const registry = createDimensionRegistry([dataResidency]);
+
+      expect(registry.unregister('data_residency')).toBe(true);
+      expect(registry.has('data_residency')).toBe(false);
+      expect(() => registry.unregister('error_tolerance')).toThrow('cannot be unregistered');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should generate a rubric prompt for custom dimensions', () => {
+      const registry = createDimensionRegistry([dataResidency]);
+      const prompt = getDimensionPrompt('data_residency', undefined, registry);
+
+      expect(prompt).toContain('**Data Residency**');
+      expect(prompt).toContain('Models and data can be hosted in-region');
+      expect(prompt).toContain('EU customer data must stay in the EU');
+      expect(prompt).toContain('- Which jurisdictions does the data originate from?');
+      expect(prompt.indexOf('## Additional Guidance')).toBeLessThan(prompt.indexOf('## Your Task'));
+    });
+
+    it('should use a custom prompt verbatim', () => {
+      const registry = createDimensionRegistry([{ ...dataResidency, prompt: 'Judge data residency.' }]);
+
+      expect(getDimensionPrompt('data_residency', undefined, registry)).toBe('Judge data residency.');
+    });
+
+    it('should reject dimensions that are not registered', () => {
+      expect(() => getDimensionPrompt('data_residency')).toThrow('Unknown dimension ID: data_residency');
+      expect(() => createDimensionAnalyzer('data_residency')).toThrow('Unknown dimension ID: data_residency');
+    });
+  });
+
+  describe('analysis', () => {
+    it('should analyze custom dimensions alongside the built-ins', async () => {
+      getDimensionRegistry().register(dataResidency);
+
+      const dimensions = await analyzeAllDimensions(input, null, {}, { model: createMockModel() });
+
+      expect(Object.keys(dimensions)).toEqual([...ALL_DIMENSION_IDS, 'data_residency']);
+      expect(dimensions.data_residency).toMatchObject({ name: 'Data Residency', custom: true });
+      expect(dimensions.error_tolerance.custom).toBeUndefined();
+      expect(DimensionAnalysisSchema.safeParse(dimensions.data_residency).success).toBe(true);
+    });
+
+    it('should include custom dimensions in the verdict prompt and weighted verdict', async () => {
+      const registry = createDimensionRegistry([dataResidency]);
+      const dimensions = await analyzeAllDimensions(input, null, {}, {
+        model: createMockModel(),
+        dimensions: registry
+      });
+      const model = createMockModel();
+
+      const verdict = await calculateVerdict(input, null, dimensions, { model, dimensions: registry });
+
+      const prompt = JSON.stringify(model.doGenerateCalls[0].prompt);
+      expect(prompt).toContain('### Data Residency (data_residency)');
+      expect(prompt).toContain('**Custom dimension**');
+      for (const factor of verdict.keyFactors) {
+        expect(registry.has(factor.dimensionId)).toBe(true);
+      }
+
+      const weighted = computeWeightedVerdict(dimensions);
+      expect(weighted.contributions.map((c) => c.dimensionId)).toContain('data_residency');
+    });
+
+    it('should name custom dimensions in the rules-mode reasoning', () => {
+      getDimensionRegistry().register(dataResidency);
+
+      const result = buildWeightedVerdictResult(
+        computeWeightedVerdict({
+          data_residency: {
+            id: 'data_residency',
+            name: 'Data Residency',
+            score: 'unfavorable',
+            confidence: 1,
+            weight: 1,
+            reasoning: '',
+            evidence: [],
+            infoGaps: [],
+            status: 'complete',
+            custom: true
+          }
+        })
+      );
+
+      expect(result.reasoning).toContain('- Data Residency: unfavorable');
+    });
+  });
+});
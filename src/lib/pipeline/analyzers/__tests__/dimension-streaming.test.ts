@@ -0,0 +1,94 @@
+/**
+ * Tests for streaming dimension results as each analyzer finishes.
+ *
+ * @module pipeline/analyzers/__tests__/dimension-streaming.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { analyzeAllDimensions, createDimensionAnalyzer } from '../dimensions/factory';
+import { createMockModel } from '../../models/mock-provider';
+import { createToolRegistry } from '../../tools/registry';
+import type { PipelineEvent } from '../../events';
+import type { DimensionAnalysis } from '../../types';
+
+const input = { problem: 'Route 2,000 support tickets a day to one of 12 queues' };
+const tools = createToolRegistry();
+
+describe('Dimension streaming', () => {
+  it('should report one preliminary score from the partial output', async () => {
+    const model = createMockModel({ chunkSize: 4 });
+    const emitted: PipelineEvent[] = [];
+
+    const analysis = await createDimensionAnalyzer('error_tolerance')(input, null, {}, {
+      model,
+      tools,
+      onPreliminary: (event) => emitted.push(event)
+    });
+
+    expect(model.doStreamCalls).toHaveLength(1);
+    expect(model.doGenerateCalls).toHaveLength(0);
+    expect(emitted).toEqual([
+      {
+        type: 'dimension:preliminary',
+        id: 'error_tolerance',
+        score: analysis.score,
+        confidence: analysis.confidence
+      }
+    ]);
+  });
+
+  it('should report a single preliminary score across samples', async () => {
+    const emitted: PipelineEvent[] = [];
+
+    await createDimensionAnalyzer('error_tolerance')(
+      { ...input, sampling: { samples: 3 } },
+      null,
+      {},
+      { model: createMockModel(), tools, onPreliminary: (event) => emitted.push(event) }
+    );
+
+    expect(emitted).toHaveLength(1);
+  });
+
+  it('should report each dimension as soon as it completes', async () => {
+    const completed: DimensionAnalysis[] = [];
+
+    const result = await analyzeAllDimensions(input, null, {}, {
+      model: createMockModel(),
+      tools,
+      dimensionIds: ['error_tolerance', 'rate_of_change'],
+      onDimensionComplete: (analysis) => completed.push(analysis)
+    });
+
+    expect(completed.map((a) => a.id).sort()).toEqual(['error_tolerance', 'rate_of_change']);
+    expect(completed).toEqual(expect.arrayContaining(Object.values(result)));
+  });
+
+  it('should surface the model error when the stream fails', async () => {
+    const model = new MockLanguageModelV3({
+      doStream: async () => {
+        throw new Error('overloaded');
+      }
+    });
+
+    await expect(
+      createDimensionAnalyzer('error_tolerance')(input, null, {}, { model, tools, onPreliminary: () => {} })
+    ).rejects.toThrow('overloaded');
+  });
+
+  it('should pass the abort signal to the model calls', async () => {
+    const controller = new AbortController();
+    const model = createMockModel();
+
+    await analyzeAllDimensions(input, null, {}, {
+      model,
+      tools,
+      dimensionIds: ['error_tolerance'],
+      abortSignal: controller.signal
+    });
+    controller.abort();
+
+    expect(model.doGenerateCalls[0].abortSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for tool calling in the dimension analyzers.
+ *
+ * @module pipeline/analyzers/__tests__/dimension-tools.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { createDimensionAnalyzer } from '../dimensions/factory';
+import { createMockModel } from '../../models/mock-provider';
+import { createTextGenerateResult } from '../../models/model-utils';
+import { createFixtureSet, createRecordingModels, createReplayModels } from '../../models/replay-provider';
+import { createToolRegistry } from '../../tools/registry';
+import type { PipelineEvent } from '../../events';
+
+/**
+ * A model that requests one tool call, then answers like the mock model.
+ */
+function createToolCallingModel(toolName: string, input: unknown): MockLanguageModelV3 {
+  const answer = createMockModel();
+  return new MockLanguageModelV3({
+    doGenerate: async (options) =>
+      options.prompt.some((message) => message.role === 'tool')
+        ? answer.doGenerate(options)
+        : createTextGenerateResult(options, '', [
+            { type: 'tool-call', toolCallId: 'call-1', toolName, input: JSON.stringify(input) }
+          ])
+  });
+}
+
+const input = { problem: 'Route 2,000 support tickets a day to one of 12 queues' };
+const analyzeErrorTolerance = createDimensionAnalyzer('error_tolerance');
+
+describe('Dimension tool calling', () => {
+  it('should emit a tool_call and tool_result event for each tool invocation', async () => {
+    const emitted: PipelineEvent[] = [];
+    const model = createToolCallingModel('estimate_llm_cost', { estimatedQueriesPerDay: 2000 });
+
+    const analysis = await analyzeErrorTolerance(input, null, {}, {
+      model,
+      onToolEvent: (event) => emitted.push(event)
+    });
+
+    expect(analysis.id).toBe('error_tolerance');
+    expect(model.doGenerateCalls).toHaveLength(2);
+    expect(emitted).toEqual([
+      {
+        type: 'dimension:tool_call',
+        id: 'error_tolerance',
+        tool: 'estimate_llm_cost',
+        input: expect.objectContaining({ estimatedQueriesPerDay: 2000 })
+      },
+      {
+        type: 'dimension:tool_result',
+        id: 'error_tolerance',
+        tool: 'estimate_llm_cost',
+        result: expect.objectContaining({ monthly: expect.objectContaining({ mid: 990 }) })
+      }
+    ]);
+  });
+
+  it('should report rejected tool calls as results with an error', async () => {
+    const emitted: PipelineEvent[] = [];
+
+    await analyzeErrorTolerance(input, null, {}, {
+      model: createToolCallingModel('estimate_llm_cost', { estimatedQueriesPerDay: -1 }),
+      onToolEvent: (event) => emitted.push(event)
+    });
+
+    expect(emitted[1]).toMatchObject({
+      type: 'dimension:tool_result',
+      result: { error: expect.any(String) }
+    });
+  });
+
+  it('should tag tool events with the sample that made the call', async () => {
+    const emitted: PipelineEvent[] = [];
+
+    await analyzeErrorTolerance({ ...input, sampling: { samples: 2 } }, null, {}, {
+      model: createToolCallingModel('estimate_llm_cost', { estimatedQueriesPerDay: 2000 }),
+      onToolEvent: (event) => emitted.push(event)
+    });
+
+    const tagged = emitted.map((e) => `${e.type}#${'sample' in e ? e.sample : '-'}`);
+    expect(tagged.sort()).toEqual([
+      'dimension:tool_call#0',
+      'dimension:tool_call#1',
+      'dimension:tool_result#0',
+      'dimension:tool_result#1'
+    ]);
+  });
+
+  it('should not offer tools when the registry is empty', async () => {
+    const model = createMockModel();
+
+    await analyzeErrorTolerance(input, null, {}, { model, tools: createToolRegistry() });
+
+    expect(model.doGenerateCalls[0].tools).toBeUndefined();
+  });
+
+  it('should record and replay tool calls', async () => {
+    const fixtures = createFixtureSet();
+    const recording = createRecordingModels(fixtures, {
+      source: { default: createToolCallingModel('classify_domain', { problemDescription: input.problem }) }
+    });
+
+    const recorded = await analyzeErrorTolerance(input, null, {}, { model: recording.dimensions });
+
+    const [first] = Object.values(fixtures.fixtures).filter((f) => f.toolCalls);
+    expect(first.toolCalls).toEqual([
+      { toolCallId: 'call-1', toolName: 'classify_domain', input: { problemDescription: input.problem } }
+    ]);
+
+    const emitted: PipelineEvent[] = [];
+    const replayed = await analyzeErrorTolerance(input, null, {}, {
+      model: createReplayModels(fixtures).dimensions,
+      onToolEvent: (event) => emitted.push(event)
+    });
+
+    expect(replayed).toEqual(recorded);
+    expect(emitted.map((e) => e.type)).toEqual(['dimension:tool_call', 'dimension:tool_result']);
+  });
+});
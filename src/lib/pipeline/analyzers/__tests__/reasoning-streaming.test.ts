@@ -0,0 +1,98 @@
+/**
+ * Tests for streaming the verdict and synthesis reasoning.
+ *
+ * @module pipeline/analyzers/__tests__/reasoning-streaming.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLanguageModelV3 } from 'ai/test';
+import { calculateVerdict } from '../verdict';
+import { synthesizeReasoning, type SynthesisInput } from '../synthesizer';
+import { createMockModel } from '../../models/mock-provider';
+import type { DimensionAnalysis } from '../../types';
+
+const input = { problem: 'Route 2,000 support tickets a day to one of 12 queues' };
+
+const dimensions: Record<string, DimensionAnalysis> = {
+  error_tolerance: {
+    id: 'error_tolerance',
+    name: 'Error Tolerance',
+    score: 'favorable',
+    confidence: 0.8,
+    weight: 0.9,
+    reasoning: 'Misrouted tickets are re-queued',
+    evidence: [],
+    infoGaps: [],
+    status: 'complete'
+  }
+};
+
+function synthesisInput(): SynthesisInput {
+  return {
+    input,
+    screening: null,
+    dimensions,
+    answers: {},
+    verdict: {
+      verdict: 'STRONG_FIT',
+      confidence: 0.8,
+      summary: 'Good fit',
+      reasoning: 'Because...',
+      keyFactors: []
+    },
+    risks: [],
+    alternatives: [],
+    architecture: null,
+    questionsBeforeBuilding: []
+  };
+}
+
+describe('Reasoning streaming', () => {
+  it('should stream the synthesis reasoning in chunks that add up to the result', async () => {
+    const model = createMockModel({ chunkSize: 8 });
+    const chunks: string[] = [];
+
+    const output = await synthesizeReasoning(synthesisInput(), {
+      model,
+      onReasoningChunk: (chunk) => chunks.push(chunk)
+    });
+
+    expect(model.doStreamCalls).toHaveLength(1);
+    expect(model.doGenerateCalls).toHaveLength(0);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(output.reasoning);
+  });
+
+  it('should stream the verdict reasoning', async () => {
+    const chunks: string[] = [];
+
+    const verdict = await calculateVerdict(input, null, dimensions, {
+      model: createMockModel({ chunkSize: 8 }),
+      onReasoningChunk: (chunk) => chunks.push(chunk)
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(verdict.reasoning);
+  });
+
+  it('should generate without streaming when no chunk handler is given', async () => {
+    const model = createMockModel();
+
+    await synthesizeReasoning(synthesisInput(), { model });
+
+    expect(model.doGenerateCalls).toHaveLength(1);
+    expect(model.doStreamCalls).toHaveLength(0);
+  });
+
+  it('should surface the model error when the stream fails', async () => {
+    const model = new MockLanguageModelV3({
+      doStream: async () => {
+        throw new Error('overloaded');
+      }
+    });
+
+    await expect(
+      synthesizeReasoning(synthesisInput(), { model, onReasoningChunk: () => {} })
+    ).rejects.toThrow('overloaded');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the deterministic weighted verdict.
+ *
+ * @module pipeline/analyzers/__tests__/weighted-verdict.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeWeightedVerdict,
+  compareWithAiVerdict,
+  buildWeightedVerdictResult
+} from '../weighted-verdict';
+import { calculateVerdict } from '../verdict';
+import { createMockModel } from '../../models/mock-provider';
+import { ALL_DIMENSION_IDS } from '../dimensions';
+import type { DimensionAnalysis, DimensionId, DimensionScore } from '../../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════
+
+function createDimension(
+  id: DimensionId,
+  score: DimensionScore,
+  weight = 0.5,
+  confidence = 1
+): DimensionAnalysis {
+  return {
+    id,
+    name: id,
+    score,
+    confidence,
+    weight,
+    reasoning: `${id} is ${score}`,
+    evidence: [],
+    infoGaps: [],
+    status: 'complete'
+  };
+}
+
+function createDimensions(
+  score: DimensionScore,
+  overrides: Partial<Record<DimensionId, DimensionScore>> = {}
+): Record<string, DimensionAnalysis> {
+  return Object.fromEntries(
+    ALL_DIMENSION_IDS.map((id) => [id, createDimension(id, overrides[id] ?? score)])
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TESTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe('Weighted Verdict', () => {
+  describe('computeWeightedVerdict', () => {
+    it('should map the normalized score to a verdict through the thresholds', () => {
+      expect(computeWeightedVerdict(createDimensions('favorable')).verdict).toBe('STRONG_FIT');
+      expect(computeWeightedVerdict(createDimensions('neutral')).verdict).toBe('WEAK_FIT');
+      expect(computeWeightedVerdict(createDimensions('unfavorable')).verdict).toBe('NOT_RECOMMENDED');
+    });
+
+    it('should weight contributions by weight and confidence', () => {
+      const result = computeWeightedVerdict({
+        task_determinism: createDimension('task_determinism', 'favorable', 1, 1),
+        rate_of_change: createDimension('rate_of_change', 'unfavorable', 0.5, 0.5)
+      });
+
+      // Influences 1.0 and 0.25 → (1 - 0.25) / 1.25
+      expect(result.score).toBeCloseTo(0.6);
+      expect(result.contributions.map((c) => c.contribution)).toEqual([
+        expect.closeTo(0.8),
+        expect.closeTo(-0.2)
+      ]);
+      expect(result.confidence).toBeCloseTo(1.25 / 1.5);
+    });
+
+    it('should downgrade STRONG_FIT when a must-pass dimension fails', () => {
+      const result = computeWeightedVerdict(
+        createDimensions('favorable', { error_tolerance: 'unfavorable' })
+      );
+
+      expect(result.thresholdVerdict).toBe('STRONG_FIT');
+      expect(result.verdict).toBe('CONDITIONAL');
+      expect(result.failedChecks).toEqual([
+        expect.objectContaining({ dimensionId: 'error_tolerance', actual: 'unfavorable', passed: false })
+      ]);
+    });
+
+    it('should ignore rules that guard a more favorable verdict than the score reaches', () => {
+      const result = computeWeightedVerdict(
+        createDimensions('neutral', { error_tolerance: 'unfavorable' })
+      );
+
+      expect(result.verdict).toBe(result.thresholdVerdict);
+      expect(result.failedChecks).toEqual([]);
+    });
+
+    it('should apply custom thresholds and rules', () => {
+      const result = computeWeightedVerdict(createDimensions('favorable'), {
+        thresholds: { STRONG_FIT: 1.1, CONDITIONAL: 0.1, WEAK_FIT: -0.3 },
+        mustPass: [{ verdict: 'CONDITIONAL', dimensionId: 'data_availability', minimumScore: 'favorable' }]
+      });
+
+      expect(result.verdict).toBe('CONDITIONAL');
+      expect(result.failedChecks).toEqual([]);
+    });
+
+    it('should scale weights by the configured multipliers', () => {
+      const dimensions = {
+        task_determinism: createDimension('task_determinism', 'favorable', 0.5),
+        error_tolerance: createDimension('error_tolerance', 'unfavorable', 0.5)
+      };
+
+      expect(computeWeightedVerdict(dimensions).score).toBeCloseTo(0);
+
+      const result = computeWeightedVerdict(dimensions, { weightMultipliers: { error_tolerance: 3 } });
+      // Influences 0.5 and 1.5 → (0.5 - 1.5) / 2
+      expect(result.score).toBeCloseTo(-0.5);
+      expect(result.contributions.find((c) => c.dimensionId === 'error_tolerance')?.weight).toBeCloseTo(1.5);
+    });
+  });
+
+  describe('compareWithAiVerdict', () => {
+    it('should report agreement with zero divergence', () => {
+      const result = compareWithAiVerdict(computeWeightedVerdict(createDimensions('favorable')), 'STRONG_FIT');
+
+      expect(result.divergence).toBe(0);
+      expect(result.divergenceNote).toContain('agrees');
+    });
+
+    it('should report how far and in which direction the verdicts diverge', () => {
+      const weighted = computeWeightedVerdict(
+        createDimensions('favorable', { error_tolerance: 'unfavorable' })
+      );
+      const result = compareWithAiVerdict(weighted, 'STRONG_FIT');
+
+      expect(result.aiVerdict).toBe('STRONG_FIT');
+      expect(result.divergence).toBe(1);
+      expect(result.divergenceNote).toContain('1 step less favorable');
+      expect(result.divergenceNote).toContain('error_tolerance');
+    });
+  });
+
+  describe('buildWeightedVerdictResult', () => {
+    it('should build a verdict result from the rules alone', () => {
+      const weighted = computeWeightedVerdict(createDimensions('unfavorable'));
+      const result = buildWeightedVerdictResult(weighted);
+
+      expect(result.verdict).toBe('NOT_RECOMMENDED');
+      expect(result.confidence).toBe(weighted.confidence);
+      expect(result.keyFactors).toHaveLength(5);
+      expect(result.keyFactors.every((f) => f.influence === 'negative')).toBe(true);
+      expect(result.weighted).toBe(weighted);
+    });
+  });
+
+  describe('calculateVerdict modes', () => {
+    const input = { problem: 'Route support tickets to the right queue' };
+    const screening = {
+      canEvaluate: true,
+      clarifyingQuestions: [],
+      partialInsights: [],
+      preliminarySignal: 'likely_positive' as const,
+      dimensionPriorities: []
+    };
+
+    it('should not call the model in rules mode', async () => {
+      const model = createMockModel();
+      const result = await calculateVerdict(input, screening, createDimensions('favorable'), {
+        model,
+        mode: 'rules'
+      });
+
+      expect(result.verdict).toBe('STRONG_FIT');
+      expect(model.doGenerateCalls).toHaveLength(0);
+    });
+
+    it('should attach the weighted verdict in compare mode', async () => {
+      const result = await calculateVerdict(
+        { ...input, verdictMode: 'compare' },
+        screening,
+        createDimensions('favorable'),
+        { model: createMockModel() }
+      );
+
+      expect(result.weighted?.verdict).toBe('STRONG_FIT');
+      expect(result.weighted?.aiVerdict).toBe(result.verdict);
+      expect(result.weighted?.divergenceNote).toBeDefined();
+    });
+
+    it('should apply industry preset weights in rules mode', async () => {
+      const dimensions = createDimensions('favorable', {
+        error_tolerance: 'unfavorable',
+        human_oversight_cost: 'unfavorable',
+        edge_case_risk: 'unfavorable'
+      });
+      const options = { model: createMockModel(), mode: 'rules' as const };
+
+      const generic = await calculateVerdict(input, screening, dimensions, options);
+      const healthcare = await calculateVerdict({ ...input, industry: 'healthcare' }, screening, dimensions, options);
+
+      expect(healthcare.weighted!.score).toBeLessThan(generic.weighted!.score);
+    });
+  });
+});
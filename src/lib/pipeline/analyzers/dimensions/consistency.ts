@@ -0,0 +1,107 @@
+/**
+ * Dimension Self-Consistency
+ *
+ * Combines several independent analyses of one dimension into a single
+ * result. The final score is the majority vote; a tie goes to the tied
+ * score closest to the average of all samples (favorable = 1, neutral = 0,
+ * unfavorable = -1), then to the more cautious score. Confidence is the
+ * share of samples that agree with the vote times their average confidence,
+ * so a split vote lowers it even when every sample was sure of itself.
+ *
+ * Reasoning and evidence come from the most confident sample that voted
+ * with the majority; info gaps are merged from all of them, and the weight
+ * is averaged over every sample.
+ *
+ * @module pipeline/analyzers/dimensions/consistency
+ */
+
+import type { DimensionAnalysis, DimensionScore, FollowUpQuestion } from '../../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SCORE_VALUES: Record<DimensionScore, number> = {
+  favorable: 1,
+  neutral: 0,
+  unfavorable: -1
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Picks the winning score of a vote.
+ */
+function majorityScore(votes: Record<DimensionScore, number>, mean: number): DimensionScore {
+  const top = Math.max(...Object.values(votes));
+  const tied = (Object.keys(votes) as DimensionScore[]).filter((score) => votes[score] === top);
+
+  return tied.sort(
+    (a, b) =>
+      Math.abs(SCORE_VALUES[a] - mean) - Math.abs(SCORE_VALUES[b] - mean) ||
+      SCORE_VALUES[a] - SCORE_VALUES[b]
+  )[0];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AGGREGATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Aggregates samples of one dimension by majority vote.
+ *
+ * @param samples - Analyses of the same dimension (at least one)
+ * @param temperatures - Temperature each sample ran at, if set
+ * @returns One analysis with the voted score and the per-sample spread
+ */
+export function aggregateDimensionSamples(
+  samples: DimensionAnalysis[],
+  temperatures?: number[]
+): DimensionAnalysis {
+  if (samples.length === 0) {
+    throw new Error('Cannot aggregate zero dimension samples');
+  }
+
+  const scores = samples.map((s) => s.score);
+  const votes: Record<DimensionScore, number> = { favorable: 0, neutral: 0, unfavorable: 0 };
+  for (const score of scores) {
+    votes[score]++;
+  }
+
+  const score = majorityScore(votes, average(scores.map((s) => SCORE_VALUES[s])));
+  const majority = samples.filter((s) => s.score === score);
+  const agreement = majority.length / samples.length;
+  const representative = majority.reduce((best, s) => (s.confidence > best.confidence ? s : best));
+
+  const infoGaps = new Map<string, FollowUpQuestion>();
+  for (const gap of majority.flatMap((s) => s.infoGaps)) {
+    if (!infoGaps.has(gap.id)) {
+      infoGaps.set(gap.id, gap);
+    }
+  }
+
+  return {
+    ...representative,
+    score,
+    confidence: round(agreement * average(majority.map((s) => s.confidence))),
+    weight: round(average(samples.map((s) => s.weight))),
+    infoGaps: [...infoGaps.values()],
+    samples: {
+      scores,
+      confidences: samples.map((s) => s.confidence),
+      ...(temperatures && { temperatures }),
+      votes,
+      agreement: round(agreement)
+    }
+  };
+}
@@ -5,22 +5,78 @@
  * Uses a factory pattern to share common analysis logic while allowing
  * dimension-specific prompts and scoring criteria.
  *
+ * The dimensions come from the dimension registry, so custom dimensions
+ * registered at runtime are analyzed alongside the seven built-ins.
+ *
+ * Analyzers offer the model the deterministic tools from the tool registry
+ * (weighted score, cost estimate, domain classification) and report every
+ * call and result as `dimension:tool_call` / `dimension:tool_result` events.
+ *
+ * With `input.sampling`, each dimension is analyzed several times in parallel
+ * (optionally at different temperatures) and the samples are combined by
+ * majority vote (see ./consistency). Failed samples are dropped; the
+ * dimension fails only when every sample does. Tool events then carry the
+ * index of the sample that made the call.
+ *
+ * With `onPreliminary`, the analysis is streamed and a `dimension:preliminary`
+ * event is reported as soon as the partial output holds a score and its
+ * confidence. `analyzeAllDimensions` reports each dimension through
+ * `onDimensionComplete` the moment its analyzer resolves.
+ *
  * @module pipeline/analyzers/dimensions/factory
  */
 
-import { generateObject } from 'ai';
+import { generateText, streamText, Output, stepCountIs, type StepResult, type ToolSet } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
-import { EVALUATION_DIMENSIONS, type DimensionId } from '@/lib/dimensions';
+import { DIMENSION_IDS } from '@/lib/dimensions';
 import { getDimensionPrompt } from './prompts';
+import { getDimensionRegistry, type DimensionDefinition, type DimensionRegistry } from './registry';
+import { aggregateDimensionSamples } from './consistency';
+import {
+  events,
+  type DimensionPreliminaryEvent,
+  type DimensionToolCallEvent,
+  type DimensionToolResultEvent
+} from '../../events';
+import { getDefaultToolRegistry, type ToolRegistry } from '../../tools';
 import {
-  DimensionIdSchema,
+  type DimensionId,
   type PipelineInput,
   type ScreeningOutput,
   type DimensionAnalysis,
   type UserAnswer,
   type FollowUpQuestion
 } from '../../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from '../options';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Options for dimension analyzers.
+ */
+export interface DimensionAnalyzerOptions extends AnalyzerOptions {
+  /** Tools the model may call (default: built-in tools; an empty registry disables tool calling) */
+  tools?: ToolRegistry;
+  /** Receives a `dimension:tool_call` / `dimension:tool_result` event for every tool invocation */
+  onToolEvent?: (event: DimensionToolCallEvent | DimensionToolResultEvent) => void;
+  /** Dimensions to analyze (default: the process-wide dimension registry) */
+  dimensions?: DimensionRegistry;
+  /** Only analyze these registered dimensions (default: all of them) */
+  dimensionIds?: readonly string[];
+  /** Receives a `dimension:preliminary` event once the streamed output holds a score (enables streaming) */
+  onPreliminary?: (event: DimensionPreliminaryEvent) => void;
+  /** Receives each analysis as soon as its dimension is done (`analyzeAllDimensions` only) */
+  onDimensionComplete?: (analysis: DimensionAnalysis) => void;
+}
+
+/**
+ * Maximum model steps per dimension: tool round-trips plus the final answer.
+ */
+const MAX_TOOL_STEPS = 4;
+
+const DIMENSION_SCORES: readonly string[] = ['favorable', 'neutral', 'unfavorable'];
 
 // ═══════════════════════════════════════════════════════════════════════════
 // DIMENSION ANALYSIS SCHEMA
@@ -149,13 +205,15 @@ function buildAnalysisContext(
 export type DimensionAnalyzer = (
   input: PipelineInput,
   screening: ScreeningOutput | null,
-  answers: Record<string, UserAnswer>
+  answers: Record<string, UserAnswer>,
+  options?: DimensionAnalyzerOptions
 ) => Promise<DimensionAnalysis>;
 
 /**
  * Creates an analyzer function for a specific dimension.
  *
  * @param dimensionId - The dimension to create an analyzer for
+ * @param registry - Registry to look the dimension up in (default: process-wide registry)
  * @returns An async function that analyzes the dimension
  *
  * @example
@@ -164,26 +222,75 @@ export type DimensionAnalyzer = (
  * const result = await analyzeErrorTolerance(input, screening, answers);
  * ```
  */
-export function createDimensionAnalyzer(dimensionId: DimensionId): DimensionAnalyzer {
-  const dimension = EVALUATION_DIMENSIONS.find((d) => d.id === dimensionId);
+export function createDimensionAnalyzer(
+  dimensionId: DimensionId,
+  registry: DimensionRegistry = getDimensionRegistry()
+): DimensionAnalyzer {
+  const dimension = registry.get(dimensionId);
   if (!dimension) {
     throw new Error(`Unknown dimension ID: ${dimensionId}`);
   }
 
-  const systemPrompt = getDimensionPrompt(dimensionId);
-
   return async (
     input: PipelineInput,
     screening: ScreeningOutput | null,
-    answers: Record<string, UserAnswer>
+    answers: Record<string, UserAnswer>,
+    options: DimensionAnalyzerOptions = {}
   ): Promise<DimensionAnalysis> => {
+    const systemPrompt = getDimensionPrompt(dimensionId, input.industry, registry);
     const analysisContext = buildAnalysisContext(input, screening, answers, dimensionId);
 
-    const result = await generateObject({
-      model,
-      schema: DimensionAnalysisOutputSchema,
-      system: systemPrompt,
-      prompt: `${analysisContext}
+    const tools = options.tools ?? getDefaultToolRegistry();
+    const hasTools = tools.list().length > 0;
+
+    // Reported once per dimension, by whichever sample gets there first
+    let preliminarySent = false;
+    const reportPreliminary = (partial: Partial<Record<string, unknown>> | undefined) => {
+      // The confidence is complete once the field after it has started
+      const { score, confidence, weight } = partial ?? {};
+      if (
+        preliminarySent ||
+        typeof score !== 'string' ||
+        !DIMENSION_SCORES.includes(score) ||
+        typeof confidence !== 'number' ||
+        weight === undefined
+      ) {
+        return;
+      }
+      preliminarySent = true;
+      options.onPreliminary?.(
+        events.dimensionPreliminary(dimensionId, score as DimensionAnalysis['score'], confidence)
+      );
+    };
+
+    const analyzeOnce = async (temperature?: number, sample?: number): Promise<DimensionAnalysis> => {
+      const request = {
+        model: resolveAnalyzerModel('dimensions', options),
+        abortSignal: options.abortSignal,
+        ...(temperature !== undefined && { temperature }),
+        output: Output.object({ schema: DimensionAnalysisOutputSchema, name: dimensionId }),
+        ...(hasTools && {
+          tools: tools.toToolSet({
+            onCall: (tool, toolInput) =>
+              options.onToolEvent?.(events.dimensionToolCall(dimensionId, tool, toolInput, sample)),
+            onResult: (tool, toolResult) =>
+              options.onToolEvent?.(events.dimensionToolResult(dimensionId, tool, toolResult, sample))
+          }),
+          stopWhen: stepCountIs(MAX_TOOL_STEPS),
+          // Calls the SDK rejects before execution (unknown tool, invalid input)
+          // never reach the hooks above, so report them here
+          onStepFinish: (step: StepResult<ToolSet>) => {
+            for (const call of step.toolCalls) {
+              if (call.dynamic && call.invalid) {
+                const error = call.error instanceof Error ? call.error.message : String(call.error);
+                options.onToolEvent?.(events.dimensionToolCall(dimensionId, call.toolName, call.input, sample));
+                options.onToolEvent?.(events.dimensionToolResult(dimensionId, call.toolName, { error }, sample));
+              }
+            }
+          }
+        }),
+        system: systemPrompt,
+        prompt: `${analysisContext}
 
 Analyze this problem for the ${dimension.name} dimension.
 
@@ -194,12 +301,53 @@ Provide:
 4. 2-3 sentences explaining your reasoning with specific evidence
 5. Direct quotes or facts from the description that support your score
 6. Any questions that would improve your confidence (if any)
-
+${hasTools ? '\nUse the available tools for calculations and classifications (composite scores, API cost projections, problem domain) instead of estimating them yourself.\n' : ''}
 Be honest about uncertainty. If information is missing, note it and state your assumption.`.trim()
-    });
+      };
+
+      if (!options.onPreliminary) {
+        const result = await generateText(request);
+        return transformToDimensionAnalysis(dimension, result.output);
+      }
+
+      let streamError: unknown;
+      const result = streamText({
+        ...request,
+        onError: ({ error }) => {
+          streamError ??= error;
+        }
+      });
+      for await (const partial of result.partialOutputStream) {
+        reportPreliminary(partial);
+      }
+      if (streamError !== undefined) {
+        throw streamError;
+      }
+
+      // Transform to DimensionAnalysis
+      return transformToDimensionAnalysis(dimension, await result.output);
+    };
+
+    // Self-consistency: several samples put to a majority vote
+    const count = input.sampling?.samples ?? 1;
+    const configured = input.sampling?.temperatures;
+    const temperatures = configured && Array.from({ length: count }, (_, i) => configured[i % configured.length]);
+    if (count <= 1) {
+      return analyzeOnce(temperatures?.[0]);
+    }
 
-    // Transform to DimensionAnalysis
-    return transformToDimensionAnalysis(dimensionId, dimension.name, result.object);
+    const settled = await Promise.allSettled(
+      Array.from({ length: count }, (_, i) => analyzeOnce(temperatures?.[i], i))
+    );
+    const kept = settled.flatMap((outcome, i) => (outcome.status === 'fulfilled' ? [i] : []));
+    if (kept.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    return aggregateDimensionSamples(
+      kept.map((i) => (settled[i] as PromiseFulfilledResult<DimensionAnalysis>).value),
+      temperatures && kept.map((i) => temperatures[i])
+    );
   };
 }
 
@@ -207,10 +355,11 @@ Be honest about uncertainty. If information is missing, note it and state your a
  * Transforms AI output to our DimensionAnalysis type.
  */
 function transformToDimensionAnalysis(
-  dimensionId: DimensionId,
-  dimensionName: string,
+  dimension: DimensionDefinition,
   aiOutput: z.infer<typeof DimensionAnalysisOutputSchema>
 ): DimensionAnalysis {
+  const dimensionId = dimension.id;
+
   // Transform info gaps to FollowUpQuestion format
   const infoGaps: FollowUpQuestion[] = aiOutput.infoGaps.map((gap) => ({
     id: gap.id,
@@ -231,14 +380,15 @@ function transformToDimensionAnalysis(
 
   return {
     id: dimensionId,
-    name: dimensionName,
+    name: dimension.name,
     score: aiOutput.score,
     confidence: aiOutput.confidence,
     weight: aiOutput.weight,
     reasoning: aiOutput.reasoning,
     evidence: aiOutput.evidence,
     infoGaps,
-    status: 'complete'
+    status: 'complete',
+    ...(dimension.custom && { custom: true })
   };
 }
 
@@ -247,36 +397,37 @@ function transformToDimensionAnalysis(
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * All dimension IDs in analysis order.
+ * Built-in dimension IDs in analysis order. Use the dimension registry's
+ * `ids()` to include custom dimensions.
  */
-export const ALL_DIMENSION_IDS: DimensionId[] = [
-  'task_determinism',
-  'error_tolerance',
-  'data_availability',
-  'evaluation_clarity',
-  'edge_case_risk',
-  'human_oversight_cost',
-  'rate_of_change'
-];
+export const ALL_DIMENSION_IDS: DimensionId[] = [...DIMENSION_IDS];
 
 /**
- * Analyzes all dimensions in parallel.
+ * Analyzes all registered dimensions (built-in and custom) in parallel, or
+ * the subset in `options.dimensionIds`.
  *
  * @param input - The pipeline input
  * @param screening - The screening output (may be null)
  * @param answers - User answers collected so far
+ * @param options - Analyzer options (model override, tools, event callbacks, dimension registry, subset, abort signal)
  * @returns Record of dimension ID to analysis result
  */
 export async function analyzeAllDimensions(
   input: PipelineInput,
   screening: ScreeningOutput | null,
-  answers: Record<string, UserAnswer>
+  answers: Record<string, UserAnswer>,
+  options: DimensionAnalyzerOptions = {}
 ): Promise<Record<DimensionId, DimensionAnalysis>> {
-  // Create analyzers for all dimensions
+  const registry = options.dimensions ?? getDimensionRegistry();
+  const only = options.dimensionIds;
+  const dimensionIds = only ? registry.ids().filter((id) => only.includes(id)) : registry.ids();
+
+  // Create analyzers for the selected dimensions
   const analyses = await Promise.all(
-    ALL_DIMENSION_IDS.map(async (dimensionId) => {
-      const analyzer = createDimensionAnalyzer(dimensionId);
-      const analysis = await analyzer(input, screening, answers);
+    dimensionIds.map(async (dimensionId) => {
+      const analyzer = createDimensionAnalyzer(dimensionId, registry);
+      const analysis = await analyzer(input, screening, answers, options);
+      options.onDimensionComplete?.(analysis);
       return { dimensionId, analysis };
     })
   );
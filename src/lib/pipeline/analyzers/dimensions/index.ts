@@ -1,7 +1,8 @@
 /**
  * Dimension Analyzers Barrel Export
  *
- * Provides factory function and parallel analysis for the 7 evaluation dimensions.
+ * Provides factory function and parallel analysis for the 7 built-in
+ * evaluation dimensions and any custom dimensions in the registry.
  *
  * @module pipeline/analyzers/dimensions
  */
@@ -10,10 +11,25 @@ export {
   createDimensionAnalyzer,
   analyzeAllDimensions,
   ALL_DIMENSION_IDS,
-  type DimensionAnalyzer
+  type DimensionAnalyzer,
+  type DimensionAnalyzerOptions
 } from './factory';
 
+export { aggregateDimensionSamples } from './consistency';
+
+export {
+  createDimensionRegistry,
+  getDimensionRegistry,
+  resetDimensionRegistry,
+  BUILT_IN_DIMENSIONS,
+  CustomDimensionSchema,
+  type CustomDimension,
+  type DimensionDefinition,
+  type DimensionRegistry
+} from './registry';
+
 export {
   DIMENSION_PROMPTS,
-  getDimensionPrompt
+  getDimensionPrompt,
+  buildCustomDimensionPrompt
 } from './prompts';
@@ -0,0 +1,53 @@
+/**
+ * Custom Dimension Prompt
+ *
+ * Builds the evaluation prompt for a dimension registered at runtime, in
+ * the same structure as the built-in dimension prompts.
+ *
+ * @module pipeline/analyzers/dimensions/prompts/custom
+ */
+
+import type { DimensionDefinition } from '../registry';
+
+/**
+ * Builds the system prompt for a custom dimension.
+ *
+ * @param dimension - The custom dimension definition
+ * @returns The dimension's own prompt if it has one, otherwise a generated rubric prompt
+ */
+export function buildCustomDimensionPrompt(dimension: DimensionDefinition): string {
+  if (dimension.prompt) {
+    return dimension.prompt;
+  }
+
+  const sections = [
+    `You are evaluating the **${dimension.name}** dimension for an AI suitability assessment. This is an organization-specific dimension.`,
+    `## Dimension: ${dimension.name}\n${dimension.description}`,
+    `## Scoring Rubric
+
+### FAVORABLE (Score this when):
+${dimension.favorable}
+
+### NEUTRAL (Score this when):
+- The problem falls between the favorable and unfavorable descriptions
+- The concern applies but can be managed with reasonable effort
+
+### UNFAVORABLE (Score this when):
+${dimension.unfavorable}`
+  ];
+
+  if (dimension.rubric) {
+    sections.push(`## Additional Guidance\n${dimension.rubric}`);
+  }
+
+  if (dimension.questions.length > 0) {
+    sections.push(`## Key Questions to Consider\n${dimension.questions.map((q) => `- ${q}`).join('\n')}`);
+  }
+
+  sections.push(`## Your Task
+Analyze the problem description and any additional context/answers to score this dimension.
+Focus specifically on: ${dimension.description}
+If the description says nothing relevant, score NEUTRAL with low confidence and ask about it.`);
+
+  return sections.join('\n\n');
+}
@@ -20,12 +20,17 @@ import { EDGE_CASE_RISK_PROMPT } from './edge-case-risk';
 import { HUMAN_OVERSIGHT_PROMPT } from './human-oversight';
 import { RATE_OF_CHANGE_PROMPT } from './rate-of-change';
 
-import type { DimensionId } from '@/lib/dimensions';
+export { buildCustomDimensionPrompt } from './custom';
+
+import type { BuiltInDimensionId, DimensionId, IndustryPresetId } from '../../../types';
+import { buildIndustryRubric, getIndustryPreset } from '../../../presets';
+import { getDimensionRegistry, type DimensionRegistry } from '../registry';
+import { buildCustomDimensionPrompt } from './custom';
 
 /**
- * Map of dimension IDs to their evaluation prompts.
+ * Map of built-in dimension IDs to their evaluation prompts.
  */
-export const DIMENSION_PROMPTS: Record<DimensionId, string> = {
+export const DIMENSION_PROMPTS: Record<BuiltInDimensionId, string> = {
   task_determinism: TASK_DETERMINISM_PROMPT,
   error_tolerance: ERROR_TOLERANCE_PROMPT,
   data_availability: DATA_AVAILABILITY_PROMPT,
@@ -38,14 +43,37 @@ export const DIMENSION_PROMPTS: Record<DimensionId, string> = {
 /**
  * Get the prompt for a specific dimension.
  *
+ * Custom dimensions get their own prompt or one generated from their
+ * rubric. With an industry preset, the preset's rubric for this dimension
+ * is inserted ahead of the task instructions.
+ *
  * @param dimensionId - The dimension to get the prompt for
+ * @param industry - Optional industry preset
+ * @param registry - Registry holding custom dimensions (default: process-wide registry)
  * @returns The dimension-specific evaluation prompt
  * @throws Error if dimension ID is invalid
  */
-export function getDimensionPrompt(dimensionId: DimensionId): string {
-  const prompt = DIMENSION_PROMPTS[dimensionId];
+export function getDimensionPrompt(
+  dimensionId: DimensionId,
+  industry?: IndustryPresetId,
+  registry: DimensionRegistry = getDimensionRegistry()
+): string {
+  const custom = registry.get(dimensionId);
+  const prompt = custom?.custom
+    ? buildCustomDimensionPrompt(custom)
+    : DIMENSION_PROMPTS[dimensionId as BuiltInDimensionId];
   if (!prompt) {
     throw new Error(`Unknown dimension ID: ${dimensionId}`);
   }
-  return prompt;
+
+  const preset = getIndustryPreset(industry);
+  const rubric = preset ? buildIndustryRubric(dimensionId, preset) : '';
+  if (!rubric) {
+    return prompt;
+  }
+
+  const taskIndex = prompt.indexOf('## Your Task');
+  return taskIndex === -1
+    ? `${prompt}\n\n${rubric}`
+    : `${prompt.slice(0, taskIndex)}${rubric}\n\n${prompt.slice(taskIndex)}`;
 }
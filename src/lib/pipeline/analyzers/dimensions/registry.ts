@@ -0,0 +1,178 @@
+/**
+ * Dimension Registry
+ *
+ * Holds the evaluation dimensions the pipeline analyzes: the seven built-in
+ * dimensions from `EVALUATION_DIMENSIONS` plus any custom dimensions an
+ * organization registers at runtime (e.g. latency requirements, data
+ * residency). Custom dimensions are analyzed alongside the built-ins and
+ * appear in the verdict, the results UI and the PDF report.
+ *
+ * @module pipeline/analyzers/dimensions/registry
+ *
+ * @example
+ * ```ts
+ * getDimensionRegistry().register({
+ *   id: 'data_residency',
+ *   name: 'Data Residency',
+ *   description: 'Can data stay in the regions we are required to keep it in?',
+ *   favorable: 'Models and data can be hosted in-region',
+ *   unfavorable: 'Only cross-border hosted models are viable'
+ * });
+ * ```
+ */
+
+import { z } from 'zod';
+import { EVALUATION_DIMENSIONS } from '@/lib/dimensions';
+import { DIMENSION_ID_PATTERN, type DimensionId } from '../../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A dimension the pipeline can analyze.
+ */
+export interface DimensionDefinition {
+  id: DimensionId;
+  /** Display name */
+  name: string;
+  /** The question this dimension answers */
+  description: string;
+  /** What a favorable score looks like */
+  favorable: string;
+  /** What an unfavorable score looks like */
+  unfavorable: string;
+  /** Questions the analyzer should consider */
+  questions: string[];
+  /** Extra rubric guidance (markdown) added to the generated prompt */
+  rubric?: string;
+  /** Complete system prompt, used instead of the generated one */
+  prompt?: string;
+  /** True for dimensions registered at runtime */
+  custom: boolean;
+}
+
+/**
+ * Schema for a custom dimension passed to `register`.
+ */
+export const CustomDimensionSchema = z.object({
+  id: z.string().regex(DIMENSION_ID_PATTERN, 'Dimension IDs must be lowercase snake_case'),
+  name: z.string().min(1).max(80),
+  description: z.string().min(1),
+  favorable: z.string().min(1),
+  unfavorable: z.string().min(1),
+  questions: z.array(z.string().min(1)).default([]),
+  rubric: z.string().optional(),
+  prompt: z.string().optional()
+});
+
+/** Custom dimension definition as passed to `register` */
+export type CustomDimension = z.input<typeof CustomDimensionSchema>;
+
+/**
+ * Registry of the dimensions to analyze.
+ */
+export interface DimensionRegistry {
+  /** Adds a custom dimension; throws if it is invalid or the id is taken */
+  register(dimension: CustomDimension): void;
+  /** Removes a custom dimension; built-in dimensions cannot be removed */
+  unregister(id: DimensionId): boolean;
+  /** Whether a dimension with this id is registered */
+  has(id: DimensionId): boolean;
+  /** Definition of a dimension, or undefined if unknown */
+  get(id: DimensionId): DimensionDefinition | undefined;
+  /** All dimensions: built-ins first, then custom in registration order */
+  list(): DimensionDefinition[];
+  /** IDs of all dimensions, in analysis order */
+  ids(): DimensionId[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUILT-IN DIMENSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * The seven built-in dimensions as registry definitions.
+ */
+export const BUILT_IN_DIMENSIONS: readonly DimensionDefinition[] = EVALUATION_DIMENSIONS.map((d) => ({
+  id: d.id,
+  name: d.name,
+  description: d.description,
+  favorable: d.favorable,
+  unfavorable: d.unfavorable,
+  questions: [...d.questions],
+  custom: false
+}));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a dimension registry containing the built-in dimensions.
+ *
+ * @param custom - Custom dimensions to register up front
+ * @returns DimensionRegistry
+ */
+export function createDimensionRegistry(custom: readonly CustomDimension[] = []): DimensionRegistry {
+  const registered = new Map<DimensionId, DimensionDefinition>(
+    BUILT_IN_DIMENSIONS.map((d) => [d.id, d])
+  );
+
+  const registry: DimensionRegistry = {
+    register: (dimension) => {
+      const parsed = CustomDimensionSchema.safeParse(dimension);
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid custom dimension ${dimension.id}: ${parsed.error.issues.map((i) => i.message).join('; ')}`
+        );
+      }
+      if (registered.has(parsed.data.id)) {
+        throw new Error(`Dimension ${parsed.data.id} is already registered`);
+      }
+      registered.set(parsed.data.id, { ...parsed.data, custom: true });
+    },
+
+    unregister: (id) => {
+      const existing = registered.get(id);
+      if (existing && !existing.custom) {
+        throw new Error(`Built-in dimension ${id} cannot be unregistered`);
+      }
+      return registered.delete(id);
+    },
+
+    has: (id) => registered.has(id),
+    get: (id) => registered.get(id),
+    list: () => [...registered.values()],
+    ids: () => [...registered.keys()]
+  };
+
+  for (const dimension of custom) {
+    registry.register(dimension);
+  }
+
+  return registry;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+let defaultRegistry: DimensionRegistry | null = null;
+
+/**
+ * Get the process-wide dimension registry.
+ */
+export function getDimensionRegistry(): DimensionRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createDimensionRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Reset the dimension registry to the built-ins (useful for testing).
+ */
+export function resetDimensionRegistry(): void {
+  defaultRegistry = null;
+}
@@ -4,13 +4,20 @@
  * AI-powered analyzers for each stage of the analysis pipeline:
  * - Screener: Initial analysis and question generation
  * - Dimensions: 7 parallel dimension evaluations
- * - Verdict: Holistic AI-powered verdict calculation
+ * - Verdict: Holistic AI-powered verdict calculation, with an optional
+ *   deterministic weighted verdict for comparison
  * - Secondary: Risk, alternatives, and architecture analysis
  * - Synthesizer: Final narrative generation
  *
  * @module pipeline/analyzers
  */
 
+// ═══════════════════════════════════════════════════════════════════════════
+// SHARED OPTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export { resolveAnalyzerModel, type AnalyzerOptions } from './options';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // SCREENER (10.2.1)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -26,15 +33,37 @@ export {
   analyzeAllDimensions,
   ALL_DIMENSION_IDS,
   type DimensionAnalyzer,
+  type DimensionAnalyzerOptions,
+  aggregateDimensionSamples,
   DIMENSION_PROMPTS,
-  getDimensionPrompt
+  getDimensionPrompt,
+  buildCustomDimensionPrompt,
+  createDimensionRegistry,
+  getDimensionRegistry,
+  resetDimensionRegistry,
+  BUILT_IN_DIMENSIONS,
+  CustomDimensionSchema,
+  type CustomDimension,
+  type DimensionDefinition,
+  type DimensionRegistry
 } from './dimensions';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // VERDICT (10.2.3)
 // ═══════════════════════════════════════════════════════════════════════════
 
-export { calculateVerdict } from './verdict';
+export { calculateVerdict, type VerdictOptions } from './verdict';
+
+export {
+  computeWeightedVerdict,
+  compareWithAiVerdict,
+  buildWeightedVerdictResult,
+  resolveWeightedVerdictConfig,
+  verdictRank,
+  DEFAULT_WEIGHTED_VERDICT_CONFIG,
+  type WeightedVerdictConfig,
+  type MustPassRule
+} from './weighted-verdict';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SECONDARY (10.2.4)
@@ -56,5 +85,6 @@ export {
 export {
   synthesizeReasoning,
   type SynthesisInput,
+  type SynthesisOptions,
   type SynthesisOutput
 } from './synthesizer';
@@ -0,0 +1,37 @@
+/**
+ * Shared options accepted by every analyzer.
+ *
+ * Analyzers take these as an optional trailing argument so callers such as
+ * the executor can inject per-run configuration without changing the
+ * positional inputs each analyzer already receives.
+ *
+ * @module pipeline/analyzers/options
+ */
+
+import type { LanguageModel } from 'ai';
+import type { PipelineStage } from '../types';
+import { getDefaultModelRegistry } from '../models';
+
+/**
+ * Per-call configuration for an analyzer.
+ */
+export interface AnalyzerOptions {
+  /** Model to use for this call (default: the default registry's model for the stage) */
+  model?: LanguageModel;
+  /** Aborts the model call, e.g. when the attempt making it has timed out */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Resolves the model an analyzer should call.
+ *
+ * @param stage - The stage the analyzer belongs to
+ * @param options - Options passed by the caller
+ * @returns The explicit model, or the default registry's model for the stage
+ */
+export function resolveAnalyzerModel(
+  stage: PipelineStage,
+  options: AnalyzerOptions = {}
+): LanguageModel {
+  return options.model ?? getDefaultModelRegistry().resolve(stage);
+}
@@ -13,10 +13,9 @@
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
 import { EVALUATION_DIMENSIONS } from '@/lib/dimensions';
 import {
-  DimensionIdSchema,
+  BuiltInDimensionIdSchema,
   type PipelineInput,
   type ScreeningOutput,
   type UserAnswer,
@@ -24,6 +23,7 @@ import {
   type PartialInsight,
   type DimensionPriority
 } from '../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from './options';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SCREENER OUTPUT SCHEMA
@@ -52,7 +52,7 @@ const ScreenerOutputSchema = z.object({
         priority: z
           .enum(['blocking', 'helpful', 'optional'])
           .describe('blocking = must answer, helpful = improves confidence, optional = nice to have'),
-        dimensionId: DimensionIdSchema.describe('Which dimension this question informs'),
+        dimensionId: BuiltInDimensionIdSchema.describe('Which dimension this question informs'),
         currentAssumption: z
           .string()
           .optional()
@@ -76,7 +76,7 @@ const ScreenerOutputSchema = z.object({
       z.object({
         insight: z.string().describe('What we can already infer'),
         confidence: z.number().min(0).max(1).describe('How confident in this insight'),
-        relevantDimension: DimensionIdSchema.describe('Which dimension this relates to')
+        relevantDimension: BuiltInDimensionIdSchema.describe('Which dimension this relates to')
       })
     )
     .describe('Insights we can extract without additional information'),
@@ -88,7 +88,7 @@ const ScreenerOutputSchema = z.object({
   dimensionPriorities: z
     .array(
       z.object({
-        dimensionId: DimensionIdSchema.describe('Which dimension'),
+        dimensionId: BuiltInDimensionIdSchema.describe('Which dimension'),
         priority: z.enum(['high', 'medium', 'low']).describe('How important for THIS problem'),
         reason: z.string().describe('Why this priority level')
       })
@@ -167,11 +167,13 @@ Examples: "What's your current error rate?", "How many requests per day?"
  *
  * @param input - The pipeline input containing problem and optional context
  * @param existingAnswers - Previously collected user answers (for re-screening)
+ * @param options - Analyzer options (model override, abort signal)
  * @returns ScreeningOutput with questions, insights, and preliminary signal
  */
 export async function analyzeScreening(
   input: PipelineInput,
-  existingAnswers: Record<string, UserAnswer> = {}
+  existingAnswers: Record<string, UserAnswer> = {},
+  options: AnalyzerOptions = {}
 ): Promise<ScreeningOutput> {
   // Format existing answers for the prompt if any
   const answersContext =
@@ -182,8 +184,10 @@ export async function analyzeScreening(
       : '';
 
   const result = await generateObject({
-    model,
+    model: resolveAnalyzerModel('screening', options),
+    abortSignal: options.abortSignal,
     schema: ScreenerOutputSchema,
+    schemaName: 'screening',
     system: SCREENER_SYSTEM_PROMPT,
     prompt: `## Problem Description
 ${input.problem}
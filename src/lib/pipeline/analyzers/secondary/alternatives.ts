@@ -9,13 +9,13 @@
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
 import type {
   PipelineInput,
   DimensionAnalysis,
   VerdictResult,
   Alternative
 } from '../../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from '../options';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ALTERNATIVES OUTPUT SCHEMA
@@ -144,18 +144,22 @@ function buildAlternativesContext(
  * @param input - The original pipeline input
  * @param dimensions - All dimension analyses
  * @param verdict - The calculated verdict
+ * @param options - Analyzer options (model override, abort signal)
  * @returns Array of alternative approaches
  */
 export async function analyzeAlternatives(
   input: PipelineInput,
   dimensions: Record<string, DimensionAnalysis>,
-  verdict: VerdictResult
+  verdict: VerdictResult,
+  options: AnalyzerOptions = {}
 ): Promise<Alternative[]> {
   const alternativesContext = buildAlternativesContext(input, dimensions, verdict);
 
   const result = await generateObject({
-    model,
+    model: resolveAnalyzerModel('secondary', options),
+    abortSignal: options.abortSignal,
     schema: AlternativesOutputSchema,
+    schemaName: 'alternatives',
     system: ALTERNATIVES_SYSTEM_PROMPT,
     prompt: `${alternativesContext}
 
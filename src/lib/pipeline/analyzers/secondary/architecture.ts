@@ -9,7 +9,6 @@
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
 import type {
   PipelineInput,
   DimensionAnalysis,
@@ -17,6 +16,8 @@ import type {
   RecommendedArchitecture,
   PreBuildQuestion
 } from '../../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from '../options';
+import { architectureToMermaid } from '../../diagram';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ARCHITECTURE OUTPUT SCHEMA
@@ -184,12 +185,14 @@ export interface ArchitectureResult {
  * @param input - The original pipeline input
  * @param dimensions - All dimension analyses
  * @param verdict - The calculated verdict
+ * @param options - Analyzer options (model override, abort signal)
  * @returns Architecture recommendation and pre-build questions
  */
 export async function recommendArchitecture(
   input: PipelineInput,
   dimensions: Record<string, DimensionAnalysis>,
-  verdict: VerdictResult
+  verdict: VerdictResult,
+  options: AnalyzerOptions = {}
 ): Promise<ArchitectureResult> {
   const architectureContext = buildArchitectureContext(input, dimensions, verdict);
 
@@ -197,8 +200,10 @@ export async function recommendArchitecture(
     verdict.verdict === 'STRONG_FIT' || verdict.verdict === 'CONDITIONAL';
 
   const result = await generateObject({
-    model,
+    model: resolveAnalyzerModel('secondary', options),
+    abortSignal: options.abortSignal,
     schema: ArchitectureOutputSchema,
+    schemaName: 'architecture',
     system: ARCHITECTURE_SYSTEM_PROMPT,
     prompt: `${architectureContext}
 
@@ -222,20 +227,26 @@ Also provide 3-5 critical questions to answer before building. These should:
 - Address the highest-uncertainty areas`.trim()
   });
 
-  // Transform to our types
-  const architecture: RecommendedArchitecture | null = result.object.architecture
+  // Transform to our types; the diagram is derived, not generated by the model
+  const recommended = result.object.architecture;
+  const architecture: RecommendedArchitecture | null = recommended
     ? {
-        description: result.object.architecture.description,
-        components: result.object.architecture.components,
-        humanInLoop: result.object.architecture.humanInLoop,
-        confidenceThreshold: result.object.architecture.confidenceThreshold
+        description: recommended.description,
+        components: recommended.components,
+        humanInLoop: recommended.humanInLoop,
+        confidenceThreshold: recommended.confidenceThreshold,
+        dataFlow: recommended.dataFlow,
+        guardrails: recommended.guardrails,
+        monitoringNeeds: recommended.monitoringNeeds,
+        diagram: architectureToMermaid(recommended)
       }
     : null;
 
   const questionsBeforeBuilding: PreBuildQuestion[] =
     result.object.questionsBeforeBuilding.map((q) => ({
       question: q.question,
-      whyItMatters: q.whyItMatters
+      whyItMatters: q.whyItMatters,
+      category: q.category
     }));
 
   return { architecture, questionsBeforeBuilding };
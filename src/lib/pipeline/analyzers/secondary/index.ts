@@ -25,6 +25,7 @@ import type {
   RecommendedArchitecture,
   PreBuildQuestion
 } from '../../types';
+import type { AnalyzerOptions } from '../options';
 
 /**
  * Combined result from all secondary analyses.
@@ -42,18 +43,20 @@ export interface SecondaryAnalysisResult {
  * @param input - The original pipeline input
  * @param dimensions - All dimension analyses
  * @param verdict - The calculated verdict
+ * @param options - Analyzer options (model override, abort signal)
  * @returns Combined results from all secondary analyzers
  */
 export async function runSecondaryAnalyses(
   input: PipelineInput,
   dimensions: Record<string, DimensionAnalysis>,
-  verdict: VerdictResult
+  verdict: VerdictResult,
+  options: AnalyzerOptions = {}
 ): Promise<SecondaryAnalysisResult> {
   // Run all three analyses in parallel
   const [risks, alternatives, architectureResult] = await Promise.all([
-    analyzeRisks(input, dimensions, verdict),
-    analyzeAlternatives(input, dimensions, verdict),
-    recommendArchitecture(input, dimensions, verdict)
+    analyzeRisks(input, dimensions, verdict, options),
+    analyzeAlternatives(input, dimensions, verdict, options),
+    recommendArchitecture(input, dimensions, verdict, options)
   ]);
 
   return {
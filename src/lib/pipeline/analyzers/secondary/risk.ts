@@ -9,14 +9,14 @@
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
 import {
-  DimensionIdSchema,
+  BuiltInDimensionIdSchema,
   type PipelineInput,
   type DimensionAnalysis,
   type VerdictResult,
   type RiskFactor
 } from '../../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from '../options';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // RISK OUTPUT SCHEMA
@@ -40,7 +40,7 @@ const RiskOutputSchema = z.object({
         .optional()
         .describe('How to address or mitigate this risk'),
       relatedDimensions: z
-        .array(DimensionIdSchema)
+        .array(BuiltInDimensionIdSchema)
         .describe('Which evaluation dimensions this risk relates to')
     })
   ).describe('List of identified risks, ordered by priority (severity * likelihood)')
@@ -151,18 +151,22 @@ function buildRiskContext(
  * @param input - The original pipeline input
  * @param dimensions - All dimension analyses
  * @param verdict - The calculated verdict
+ * @param options - Analyzer options (model override, abort signal)
  * @returns Array of identified risk factors
  */
 export async function analyzeRisks(
   input: PipelineInput,
   dimensions: Record<string, DimensionAnalysis>,
-  verdict: VerdictResult
+  verdict: VerdictResult,
+  options: AnalyzerOptions = {}
 ): Promise<RiskFactor[]> {
   const riskContext = buildRiskContext(input, dimensions, verdict);
 
   const result = await generateObject({
-    model,
+    model: resolveAnalyzerModel('secondary', options),
+    abortSignal: options.abortSignal,
     schema: RiskOutputSchema,
+    schemaName: 'risks',
     system: RISK_SYSTEM_PROMPT,
     prompt: `${riskContext}
 
@@ -182,7 +186,7 @@ Each risk should be specific to THIS problem, not generic AI concerns.
 Include practical mitigations for each risk.`.trim()
   });
 
-  // Transform to RiskFactor array - types now properly aligned via DimensionIdSchema
+  // Transform to RiskFactor array - types now properly aligned via BuiltInDimensionIdSchema
   return result.object.risks.map((r) => ({
     risk: r.risk,
     severity: r.severity,
@@ -0,0 +1,83 @@
+/**
+ * Streaming Structured Output
+ *
+ * Generates a structured object with `streamText` and reports one of its
+ * string fields as text deltas while the model writes it, so a long
+ * narrative (the verdict or synthesis reasoning) can be shown as it is
+ * generated instead of after the whole object is done.
+ *
+ * @module pipeline/analyzers/streaming
+ */
+
+import { Output, streamText, type LanguageModel } from 'ai';
+import type { z } from 'zod';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Options for {@link streamObjectField}.
+ */
+export interface StreamObjectFieldOptions<T> {
+  model: LanguageModel;
+  schema: z.ZodType<T>;
+  schemaName: string;
+  system: string;
+  prompt: string;
+  /** Top-level string field to stream */
+  field: keyof T & string;
+  /** Receives each new piece of the field's text */
+  onChunk: (chunk: string) => void;
+  /** Stops the stream; no chunks are reported once it is aborted */
+  abortSignal?: AbortSignal;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STREAMING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Generates an object, streaming one string field as it is written.
+ *
+ * Chunks are only reported while each partial value extends the text already
+ * sent; the complete value is always on the returned object.
+ *
+ * @param options - Model call and the field to stream
+ * @returns The complete, schema-validated object
+ * @throws The model's error if the stream fails
+ */
+export async function streamObjectField<T>(options: StreamObjectFieldOptions<T>): Promise<T> {
+  let streamError: unknown;
+
+  const result = streamText({
+    model: options.model,
+    system: options.system,
+    prompt: options.prompt,
+    abortSignal: options.abortSignal,
+    output: Output.object({ schema: options.schema, name: options.schemaName }),
+    onError: ({ error }) => {
+      streamError ??= error;
+    }
+  });
+
+  let sent = '';
+  const report = (text: unknown) => {
+    if (options.abortSignal?.aborted) return;
+    if (typeof text === 'string' && text.length > sent.length && text.startsWith(sent)) {
+      options.onChunk(text.slice(sent.length));
+      sent = text;
+    }
+  };
+
+  for await (const partial of result.partialOutputStream) {
+    report((partial as Record<string, unknown>)[options.field]);
+  }
+  if (streamError !== undefined) {
+    throw streamError;
+  }
+
+  const output = await result.output;
+  report(output[options.field]);
+  return output;
+}
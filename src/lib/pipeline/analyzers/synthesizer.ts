@@ -3,13 +3,13 @@
  *
  * Final analyzer that generates the user-facing narrative from all prior analyses.
  * Produces executive summary, detailed reasoning, action items, and key takeaways.
+ * With `onReasoningChunk`, the reasoning is streamed as it is written.
  *
  * @module pipeline/analyzers/synthesizer
  */
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
 import type {
   PipelineInput,
   ScreeningOutput,
@@ -19,8 +19,11 @@ import type {
   Alternative,
   RecommendedArchitecture,
   PreBuildQuestion,
+  SynthesisSummary,
   UserAnswer
 } from '../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from './options';
+import { streamObjectField } from './streaming';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SYNTHESIS OUTPUT SCHEMA
@@ -116,18 +119,19 @@ export interface SynthesisInput {
   questionsBeforeBuilding: PreBuildQuestion[];
 }
 
+/**
+ * Options for the synthesizer.
+ */
+export interface SynthesisOptions extends AnalyzerOptions {
+  /** Receives the reasoning narrative as it is generated */
+  onReasoningChunk?: (chunk: string) => void;
+}
+
 /**
  * Output from the synthesizer.
  */
-export interface SynthesisOutput {
-  executiveSummary: string;
+export interface SynthesisOutput extends SynthesisSummary {
   reasoning: string;
-  actionItems: Array<{
-    action: string;
-    priority: 'critical' | 'important' | 'optional';
-    rationale: string;
-  }>;
-  keyTakeaways: string[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -165,7 +169,7 @@ function buildSynthesisContext(state: SynthesisInput): string {
   context += `\n\n## Dimension Scores`;
   const dimensionList = Object.values(state.dimensions);
   for (const dim of dimensionList) {
-    context += `\n- ${dim.name}: ${dim.score} (confidence: ${(dim.confidence * 100).toFixed(0)}%, weight: ${(dim.weight * 100).toFixed(0)}%)`;
+    context += `\n- ${dim.name}${dim.custom ? ' (custom dimension)' : ''}: ${dim.score} (confidence: ${(dim.confidence * 100).toFixed(0)}%, weight: ${(dim.weight * 100).toFixed(0)}%)`;
   }
 
   // Add risks
@@ -197,13 +201,16 @@ function buildSynthesisContext(state: SynthesisInput): string {
       context += `\nConfidence threshold: ${(state.architecture.confidenceThreshold * 100).toFixed(0)}%`;
     }
     context += `\nComponents: ${state.architecture.components.join(', ')}`;
+    if (state.architecture.guardrails?.length) {
+      context += `\nGuardrails: ${state.architecture.guardrails.join(', ')}`;
+    }
   }
 
   // Add pre-build questions
   if (state.questionsBeforeBuilding.length > 0) {
     context += `\n\n## Questions Before Building`;
     for (const q of state.questionsBeforeBuilding) {
-      context += `\n- ${q.question}`;
+      context += `\n- ${q.category ? `[${q.category}] ` : ''}${q.question}`;
       context += `\n  Why: ${q.whyItMatters}`;
     }
   }
@@ -219,14 +226,20 @@ function buildSynthesisContext(state: SynthesisInput): string {
  * Synthesizes the final narrative from all prior analyses.
  *
  * @param state - Complete analysis state
+ * @param options - Analyzer options (model override, abort signal, reasoning stream)
  * @returns Executive summary, reasoning, action items, and key takeaways
  */
-export async function synthesizeReasoning(state: SynthesisInput): Promise<SynthesisOutput> {
+export async function synthesizeReasoning(
+  state: SynthesisInput,
+  options: SynthesisOptions = {}
+): Promise<SynthesisOutput> {
   const synthesisContext = buildSynthesisContext(state);
 
-  const result = await generateObject({
-    model,
+  const request = {
+    model: resolveAnalyzerModel('synthesis', options),
+    abortSignal: options.abortSignal,
     schema: SynthesisOutputSchema,
+    schemaName: 'synthesis',
     system: SYNTHESIS_SYSTEM_PROMPT,
     prompt: `${synthesisContext}
 
@@ -254,7 +267,9 @@ ${state.verdict.verdict === 'NOT_RECOMMENDED'
 - Takeaways should highlight success factors`}
 
 Remember: Your audience is skeptical executives. Be direct, specific, and actionable.`.trim()
-  });
+  };
 
-  return result.object;
+  return options.onReasoningChunk
+    ? streamObjectField({ ...request, field: 'reasoning', onChunk: options.onReasoningChunk })
+    : (await generateObject(request)).object;
 }
@@ -5,57 +5,93 @@
  * This is intentionally NOT a weighted formula - the AI makes a judgment call
  * accounting for interactions between dimensions that a formula can't capture.
  *
+ * For auditability the verdict mode can add (`compare`) or substitute
+ * (`rules`) the deterministic weighted verdict from ./weighted-verdict.
+ * With `onReasoningChunk`, the reasoning is streamed as it is written.
+ *
  * @module pipeline/analyzers/verdict
  */
 
 import { generateObject } from 'ai';
 import { z } from 'zod';
-import { model } from '@/lib/ai';
-import { EVALUATION_DIMENSIONS } from '@/lib/dimensions';
 import {
-  DimensionIdSchema,
   type PipelineInput,
   type ScreeningOutput,
   type DimensionAnalysis,
+  type VerdictMode,
   type VerdictResult,
   type VerdictKeyFactor
 } from '../types';
+import { resolveAnalyzerModel, type AnalyzerOptions } from './options';
+import { streamObjectField } from './streaming';
+import { getIndustryPreset } from '../presets';
+import { getDimensionRegistry, type DimensionRegistry } from './dimensions/registry';
+import {
+  buildWeightedVerdictResult,
+  compareWithAiVerdict,
+  computeWeightedVerdict,
+  type WeightedVerdictConfig
+} from './weighted-verdict';
+
+/**
+ * Options for the verdict calculator.
+ */
+export interface VerdictOptions extends AnalyzerOptions {
+  /** Verdict mode (default: input.verdictMode, then 'ai') */
+  mode?: VerdictMode;
+  /** Weighted verdict config, merged over the defaults */
+  rules?: Partial<WeightedVerdictConfig>;
+  /** Registry describing the analyzed dimensions (default: process-wide registry) */
+  dimensions?: DimensionRegistry;
+  /** Receives the verdict reasoning as it is generated (AI verdicts only) */
+  onReasoningChunk?: (chunk: string) => void;
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
 // VERDICT OUTPUT SCHEMA
 // ═══════════════════════════════════════════════════════════════════════════
 
-const VerdictOutputSchema = z.object({
-  verdict: z
-    .enum(['STRONG_FIT', 'CONDITIONAL', 'WEAK_FIT', 'NOT_RECOMMENDED'])
-    .describe('The final verdict on AI suitability'),
-
-  confidence: z
-    .number()
-    .min(0)
-    .max(1)
-    .describe('Confidence in this verdict (0-1). Lower if dimensions have low confidence.'),
-
-  summary: z
-    .string()
-    .describe('One-sentence verdict explanation that a busy executive would read'),
-
-  reasoning: z
-    .string()
-    .describe('Full chain-of-thought reasoning explaining how you reached this verdict'),
-
-  keyFactors: z
-    .array(
-      z.object({
-        dimensionId: DimensionIdSchema.describe('Which dimension this factor relates to'),
-        influence: z
-          .enum(['strongly_positive', 'positive', 'neutral', 'negative', 'strongly_negative'])
-          .describe('How this factor influenced the verdict'),
-        note: z.string().describe('Brief explanation of this factor\'s impact')
-      })
-    )
-    .describe('The 3-5 most important factors that determined the verdict')
-});
+/**
+ * Builds the verdict schema. Key factors must name one of the analyzed
+ * dimensions, which may include custom dimensions.
+ */
+function createVerdictOutputSchema(dimensionIds: string[]) {
+  return z.object({
+    verdict: z
+      .enum(['STRONG_FIT', 'CONDITIONAL', 'WEAK_FIT', 'NOT_RECOMMENDED'])
+      .describe('The final verdict on AI suitability'),
+
+    confidence: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe('Confidence in this verdict (0-1). Lower if dimensions have low confidence.'),
+
+    summary: z
+      .string()
+      .describe('One-sentence verdict explanation that a busy executive would read'),
+
+    reasoning: z
+      .string()
+      .describe('Full chain-of-thought reasoning explaining how you reached this verdict'),
+
+    keyFactors: z
+      .array(
+        z.object({
+          dimensionId: z
+            .enum(dimensionIds as [string, ...string[]])
+            .describe('Which dimension this factor relates to'),
+          influence: z
+            .enum(['strongly_positive', 'positive', 'neutral', 'negative', 'strongly_negative'])
+            .describe('How this factor influenced the verdict'),
+          note: z.string().describe('Brief explanation of this factor\'s impact')
+        })
+      )
+      .describe('The 3-5 most important factors that determined the verdict')
+  });
+}
+
+type VerdictOutput = z.infer<ReturnType<typeof createVerdictOutputSchema>>;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SYSTEM PROMPT
@@ -129,7 +165,8 @@ const VERDICT_SYSTEM_PROMPT = `You are an AI implementation advisor synthesizing
 function buildVerdictContext(
   input: PipelineInput,
   screening: ScreeningOutput | null,
-  dimensions: Record<string, DimensionAnalysis>
+  dimensions: Record<string, DimensionAnalysis>,
+  registry: DimensionRegistry
 ): string {
   let context = `## Original Problem\n${input.problem}`;
 
@@ -137,6 +174,11 @@ function buildVerdictContext(
     context += `\n\n## Additional Context\n${input.context}`;
   }
 
+  const preset = getIndustryPreset(input.industry);
+  if (preset) {
+    context += `\n\n## Industry\n${preset.verdictGuidance}`;
+  }
+
   // Add screening signal
   if (screening) {
     context += `\n\n## Preliminary Signal\n${screening.preliminarySignal}`;
@@ -148,10 +190,13 @@ function buildVerdictContext(
   // Add dimension analyses
   context += `\n\n## Dimension Analyses`;
 
-  for (const dim of EVALUATION_DIMENSIONS) {
+  for (const dim of registry.list()) {
     const analysis = dimensions[dim.id];
     if (analysis) {
       context += `\n\n### ${analysis.name} (${analysis.id})`;
+      if (dim.custom) {
+        context += `\n- **Custom dimension**: ${dim.description} Favorable: ${dim.favorable}. Unfavorable: ${dim.unfavorable}.`;
+      }
       context += `\n- **Score**: ${analysis.score}`;
       context += `\n- **Confidence**: ${(analysis.confidence * 100).toFixed(0)}%`;
       context += `\n- **Weight** (importance for this problem): ${(analysis.weight * 100).toFixed(0)}%`;
@@ -196,6 +241,24 @@ function buildVerdictContext(
   return context;
 }
 
+/**
+ * Applies the industry preset's weight multipliers under any explicit
+ * multipliers from the rules.
+ */
+function withIndustryWeights(
+  rules: Partial<WeightedVerdictConfig> | undefined,
+  input: PipelineInput
+): Partial<WeightedVerdictConfig> | undefined {
+  const preset = getIndustryPreset(input.industry);
+  if (!preset) {
+    return rules;
+  }
+  return {
+    ...rules,
+    weightMultipliers: { ...preset.weightMultipliers, ...rules?.weightMultipliers }
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // MAIN ANALYZER FUNCTION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -203,25 +266,41 @@ function buildVerdictContext(
 /**
  * Calculates the final verdict from all dimension analyses.
  *
- * This is AI-powered synthesis, not a weighted formula. The AI considers
- * all dimensions holistically and makes a judgment call, accounting for
- * interactions between dimensions.
+ * By default this is AI-powered synthesis, not a weighted formula. The AI
+ * considers all dimensions holistically and makes a judgment call,
+ * accounting for interactions between dimensions.
+ *
+ * - `compare` mode also computes the weighted verdict and attaches it as
+ *   `weighted`, including where it diverges from the AI verdict
+ * - `rules` mode skips the model call and returns the weighted verdict
  *
  * @param input - The original pipeline input
  * @param screening - The screening output (may be null)
  * @param dimensions - All dimension analyses
+ * @param options - Analyzer options (model override, abort signal, verdict mode, rules)
  * @returns The verdict result with reasoning and key factors
  */
 export async function calculateVerdict(
   input: PipelineInput,
   screening: ScreeningOutput | null,
-  dimensions: Record<string, DimensionAnalysis>
+  dimensions: Record<string, DimensionAnalysis>,
+  options: VerdictOptions = {}
 ): Promise<VerdictResult> {
-  const verdictContext = buildVerdictContext(input, screening, dimensions);
+  const mode = options.mode ?? input.verdictMode ?? 'ai';
+  const rules = withIndustryWeights(options.rules, input);
+
+  if (mode === 'rules') {
+    return buildWeightedVerdictResult(computeWeightedVerdict(dimensions, rules));
+  }
 
-  const result = await generateObject({
-    model,
-    schema: VerdictOutputSchema,
+  const registry = options.dimensions ?? getDimensionRegistry();
+  const verdictContext = buildVerdictContext(input, screening, dimensions, registry);
+
+  const request = {
+    model: resolveAnalyzerModel('verdict', options),
+    abortSignal: options.abortSignal,
+    schema: createVerdictOutputSchema([...new Set([...registry.ids(), ...Object.keys(dimensions)])]),
+    schemaName: 'verdict',
     system: VERDICT_SYSTEM_PROMPT,
     prompt: `${verdictContext}
 
@@ -237,16 +316,29 @@ Provide a clear verdict with honest reasoning. If this is a borderline case, say
 The summary should be one sentence a busy executive would read.
 The reasoning should be a full chain-of-thought explanation.
 Include the 3-5 key factors that most influenced your decision.`.trim()
-  });
+  };
+
+  const output = options.onReasoningChunk
+    ? await streamObjectField({ ...request, field: 'reasoning', onChunk: options.onReasoningChunk })
+    : (await generateObject(request)).object;
+
+  const verdict = transformToVerdictResult(output);
+
+  if (mode === 'compare') {
+    verdict.weighted = compareWithAiVerdict(
+      computeWeightedVerdict(dimensions, rules),
+      verdict.verdict
+    );
+  }
 
-  return transformToVerdictResult(result.object);
+  return verdict;
 }
 
 /**
  * Transforms AI output to our VerdictResult type.
  */
 function transformToVerdictResult(
-  aiOutput: z.infer<typeof VerdictOutputSchema>
+  aiOutput: VerdictOutput
 ): VerdictResult {
   const keyFactors: VerdictKeyFactor[] = aiOutput.keyFactors.map((f) => ({
     dimensionId: f.dimensionId,
@@ -0,0 +1,295 @@
+/**
+ * Weighted Verdict Calculator
+ *
+ * Deterministic counterpart to the AI verdict. Each dimension contributes
+ * `value(score) × weight × confidence`; the normalized total is mapped to a
+ * verdict through fixed thresholds, then must-pass rules can downgrade it
+ * (e.g. STRONG_FIT requires error_tolerance to be at least neutral).
+ *
+ * Same dimensions in, same verdict out, which makes the result auditable.
+ * In compare mode it is reported next to the AI verdict so reviewers can
+ * see where the two diverge.
+ *
+ * @module pipeline/analyzers/weighted-verdict
+ */
+
+import { getDimensionRegistry } from './dimensions/registry';
+import type {
+  DimensionAnalysis,
+  DimensionContribution,
+  DimensionId,
+  DimensionScore,
+  MustPassCheck,
+  Verdict,
+  VerdictKeyFactor,
+  VerdictResult,
+  WeightedVerdict
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A must-pass rule: to reach `verdict` (or anything more favorable),
+ * `dimensionId` must score at least `minimumScore`.
+ */
+export interface MustPassRule {
+  verdict: Exclude<Verdict, 'NOT_RECOMMENDED'>;
+  dimensionId: DimensionId;
+  minimumScore: DimensionScore;
+}
+
+/**
+ * Configuration for the weighted verdict.
+ */
+export interface WeightedVerdictConfig {
+  /** Numeric value of each dimension score */
+  scoreValues: Record<DimensionScore, number>;
+  /** Minimum normalized score (in [-1, 1]) for each verdict */
+  thresholds: Record<Exclude<Verdict, 'NOT_RECOMMENDED'>, number>;
+  /** Rules that cap the verdict regardless of score */
+  mustPass: MustPassRule[];
+  /** Multipliers applied to each dimension's weight (1 = unchanged), e.g. from an industry preset */
+  weightMultipliers: Partial<Record<DimensionId, number>>;
+}
+
+/**
+ * Default configuration, mirroring the thresholds the AI verdict prompt
+ * describes in prose.
+ */
+export const DEFAULT_WEIGHTED_VERDICT_CONFIG: WeightedVerdictConfig = {
+  scoreValues: {
+    favorable: 1,
+    neutral: 0,
+    unfavorable: -1
+  },
+  thresholds: {
+    STRONG_FIT: 0.5,
+    CONDITIONAL: 0.1,
+    WEAK_FIT: -0.3
+  },
+  mustPass: [
+    { verdict: 'STRONG_FIT', dimensionId: 'error_tolerance', minimumScore: 'neutral' },
+    { verdict: 'STRONG_FIT', dimensionId: 'evaluation_clarity', minimumScore: 'neutral' }
+  ],
+  weightMultipliers: {}
+};
+
+/** Verdicts from most to least favorable */
+const VERDICT_ORDER: readonly Verdict[] = ['STRONG_FIT', 'CONDITIONAL', 'WEAK_FIT', 'NOT_RECOMMENDED'];
+
+/** Scores from least to most favorable */
+const SCORE_ORDER: readonly DimensionScore[] = ['unfavorable', 'neutral', 'favorable'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Merges a partial config over the defaults.
+ */
+export function resolveWeightedVerdictConfig(
+  config: Partial<WeightedVerdictConfig> = {}
+): WeightedVerdictConfig {
+  return {
+    scoreValues: { ...DEFAULT_WEIGHTED_VERDICT_CONFIG.scoreValues, ...config.scoreValues },
+    thresholds: { ...DEFAULT_WEIGHTED_VERDICT_CONFIG.thresholds, ...config.thresholds },
+    mustPass: config.mustPass ?? DEFAULT_WEIGHTED_VERDICT_CONFIG.mustPass,
+    weightMultipliers: { ...DEFAULT_WEIGHTED_VERDICT_CONFIG.weightMultipliers, ...config.weightMultipliers }
+  };
+}
+
+/**
+ * Position of a verdict in VERDICT_ORDER (0 = most favorable).
+ */
+export function verdictRank(verdict: Verdict): number {
+  return VERDICT_ORDER.indexOf(verdict);
+}
+
+/**
+ * Maps a normalized score to a verdict using the thresholds.
+ */
+function verdictForScore(score: number, thresholds: WeightedVerdictConfig['thresholds']): Verdict {
+  if (score >= thresholds.STRONG_FIT) return 'STRONG_FIT';
+  if (score >= thresholds.CONDITIONAL) return 'CONDITIONAL';
+  if (score >= thresholds.WEAK_FIT) return 'WEAK_FIT';
+  return 'NOT_RECOMMENDED';
+}
+
+/**
+ * Evaluates a must-pass rule against the analyzed dimensions.
+ */
+function checkRule(
+  rule: MustPassRule,
+  dimensions: Record<string, DimensionAnalysis>
+): MustPassCheck {
+  const actual = dimensions[rule.dimensionId]?.score ?? null;
+  return {
+    verdict: rule.verdict,
+    dimensionId: rule.dimensionId,
+    minimumScore: rule.minimumScore,
+    actual,
+    // A dimension that was never analyzed cannot satisfy a must-pass rule
+    passed: actual !== null && SCORE_ORDER.indexOf(actual) >= SCORE_ORDER.indexOf(rule.minimumScore)
+  };
+}
+
+/**
+ * Describes a failed must-pass check in one line.
+ */
+function describeCheck(check: MustPassCheck): string {
+  return `${check.verdict} requires ${check.dimensionId} to be at least ${check.minimumScore} (was ${check.actual ?? 'not analyzed'})`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MAIN CALCULATOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Computes the deterministic weighted verdict.
+ *
+ * @param dimensions - All dimension analyses, keyed by dimension ID
+ * @param config - Partial config merged over DEFAULT_WEIGHTED_VERDICT_CONFIG
+ * @returns Verdict, score, per-dimension contributions and failed rules
+ */
+export function computeWeightedVerdict(
+  dimensions: Record<string, DimensionAnalysis>,
+  config: Partial<WeightedVerdictConfig> = {}
+): WeightedVerdict {
+  const resolved = resolveWeightedVerdictConfig(config);
+  const analyses = Object.values(dimensions).map((d) => ({
+    ...d,
+    weight: d.weight * (resolved.weightMultipliers[d.id] ?? 1)
+  }));
+
+  // Confidence scales weight so uncertain dimensions move the score less
+  const totalInfluence = analyses.reduce((sum, d) => sum + d.weight * d.confidence, 0);
+  const totalWeight = analyses.reduce((sum, d) => sum + d.weight, 0);
+
+  const contributions: DimensionContribution[] = analyses.map((d) => ({
+    dimensionId: d.id,
+    score: d.score,
+    weight: d.weight,
+    confidence: d.confidence,
+    contribution:
+      totalInfluence > 0 ? (resolved.scoreValues[d.score] * d.weight * d.confidence) / totalInfluence : 0
+  }));
+
+  const score = Math.max(-1, Math.min(1, contributions.reduce((sum, c) => sum + c.contribution, 0)));
+  const thresholdVerdict = verdictForScore(score, resolved.thresholds);
+
+  // A rule applies when it guards the threshold verdict or a less favorable one;
+  // each failing rule caps the verdict just below the verdict it guards
+  const failedChecks = resolved.mustPass
+    .map((rule) => checkRule(rule, dimensions))
+    .filter((check) => !check.passed && verdictRank(check.verdict) >= verdictRank(thresholdVerdict));
+
+  let verdict = thresholdVerdict;
+  for (const check of failedChecks) {
+    const capped = VERDICT_ORDER[verdictRank(check.verdict) + 1];
+    if (verdictRank(capped) > verdictRank(verdict)) {
+      verdict = capped;
+    }
+  }
+
+  return {
+    verdict,
+    score,
+    confidence: totalWeight > 0 ? totalInfluence / totalWeight : 0,
+    thresholdVerdict,
+    contributions,
+    failedChecks
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPARISON
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Annotates a weighted verdict with how it compares to the AI verdict.
+ *
+ * @param weighted - The deterministic verdict
+ * @param aiVerdict - The AI's verdict for the same dimensions
+ * @returns The weighted verdict with aiVerdict, divergence and divergenceNote
+ */
+export function compareWithAiVerdict(weighted: WeightedVerdict, aiVerdict: Verdict): WeightedVerdict {
+  const divergence = verdictRank(weighted.verdict) - verdictRank(aiVerdict);
+
+  let divergenceNote: string;
+  if (divergence === 0) {
+    divergenceNote = `Weighted score agrees with the AI verdict (${aiVerdict}).`;
+  } else {
+    const steps = Math.abs(divergence);
+    const direction = divergence > 0 ? 'less' : 'more';
+    divergenceNote =
+      `Weighted score gives ${weighted.verdict}, ${steps} step${steps === 1 ? '' : 's'} ${direction} favorable than the AI verdict (${aiVerdict}); ` +
+      `score ${weighted.score.toFixed(2)}`;
+    if (weighted.failedChecks.length > 0) {
+      divergenceNote += `; failed must-pass: ${weighted.failedChecks.map(describeCheck).join('; ')}`;
+    }
+    divergenceNote += '.';
+  }
+
+  return { ...weighted, aiVerdict, divergence, divergenceNote };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RULES-ONLY RESULT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Maps a contribution to a key-factor influence level.
+ */
+function contributionToInfluence(contribution: number): VerdictKeyFactor['influence'] {
+  if (contribution >= 0.2) return 'strongly_positive';
+  if (contribution > 0) return 'positive';
+  if (contribution <= -0.2) return 'strongly_negative';
+  if (contribution < 0) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Builds a complete VerdictResult from the weighted verdict alone
+ * (rules mode), with templated summary and reasoning.
+ *
+ * @param weighted - The deterministic verdict
+ * @returns VerdictResult whose verdict and confidence come from the rules
+ */
+export function buildWeightedVerdictResult(weighted: WeightedVerdict): VerdictResult {
+  const names = new Map(getDimensionRegistry().list().map((d) => [d.id, d.name]));
+  const nameOf = (id: string) => names.get(id) ?? id;
+
+  const ranked = [...weighted.contributions].sort(
+    (a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)
+  );
+
+  const keyFactors: VerdictKeyFactor[] = ranked.slice(0, 5).map((c) => ({
+    dimensionId: c.dimensionId,
+    influence: contributionToInfluence(c.contribution),
+    note: `${nameOf(c.dimensionId)} is ${c.score} (weight ${c.weight.toFixed(2)}, confidence ${c.confidence.toFixed(2)})`
+  }));
+
+  const lines = [
+    `Weighted score: ${weighted.score.toFixed(2)} (range -1 to 1), which maps to ${weighted.thresholdVerdict}.`,
+    ...ranked.map(
+      (c) => `- ${nameOf(c.dimensionId)}: ${c.score} × weight ${c.weight.toFixed(2)} × confidence ${c.confidence.toFixed(2)} → ${c.contribution >= 0 ? '+' : ''}${c.contribution.toFixed(2)}`
+    )
+  ];
+  for (const check of weighted.failedChecks) {
+    lines.push(`Must-pass rule failed: ${describeCheck(check)}.`);
+  }
+  if (weighted.failedChecks.length > 0) {
+    lines.push(`Final verdict after must-pass rules: ${weighted.verdict}.`);
+  }
+
+  return {
+    verdict: weighted.verdict,
+    confidence: weighted.confidence,
+    summary: `Rule-based verdict ${weighted.verdict} from a weighted dimension score of ${weighted.score.toFixed(2)}.`,
+    reasoning: lines.join('\n'),
+    keyFactors,
+    weighted
+  };
+}
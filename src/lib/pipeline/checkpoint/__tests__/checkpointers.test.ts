@@ -0,0 +1,144 @@
+/**
+ * Tests for the checkpointer implementations.
+ *
+ * Every backend runs the same contract; the SQLite backend uses a real
+ * libSQL database file in a temp directory.
+ *
+ * @module pipeline/checkpoint/__tests__/checkpointers.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryStore } from '@mastra/core/storage';
+import { LibSQLStore } from '@mastra/libsql';
+import { createMemoryCheckpointer } from '../memory-checkpointer';
+import { createFileCheckpointer } from '../file-checkpointer';
+import { createStorageCheckpointer } from '../storage-checkpointer';
+import { CheckpointedInMemoryStore, workflowCheckpointScope } from '../checkpointed-storage';
+import type { Checkpointer } from '../types';
+
+type SnapshotArgs = Parameters<InMemoryStore['persistWorkflowSnapshot']>[0];
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'checkpoints-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const backends: [string, () => Checkpointer][] = [
+  ['memory', () => createMemoryCheckpointer()],
+  ['file', () => createFileCheckpointer({ directory: dir })],
+  ['storage (in-memory)', () => createStorageCheckpointer(new InMemoryStore(), 'memory')],
+  ['storage (sqlite)', () => createStorageCheckpointer(new LibSQLStore({ url: `file:${join(dir, 'checkpoints.db')}` }), 'sqlite')]
+];
+
+describe.each(backends)('%s checkpointer', (_name, create) => {
+  let checkpointer: Checkpointer;
+
+  beforeEach(() => {
+    checkpointer = create();
+  });
+
+  it('should round-trip a snapshot as a copy', async () => {
+    const snapshot = { stage: 'screening', answers: { q1: 'yes' } };
+    await checkpointer.save('executor', 'run-1', snapshot);
+    snapshot.stage = 'verdict';
+
+    const checkpoint = await checkpointer.load('executor', 'run-1');
+
+    expect(checkpoint).toMatchObject({
+      scope: 'executor',
+      runId: 'run-1',
+      snapshot: { stage: 'screening', answers: { q1: 'yes' } }
+    });
+    expect(checkpoint?.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('should return null for unknown runs', async () => {
+    expect(await checkpointer.load('executor', 'missing')).toBeNull();
+  });
+
+  it('should replace snapshots on save', async () => {
+    await checkpointer.save('executor', 'run-1', { status: 'running' });
+    await checkpointer.save('executor', 'run-1', { status: 'suspended' });
+
+    expect((await checkpointer.load('executor', 'run-1'))?.snapshot).toEqual({ status: 'suspended' });
+    expect(await checkpointer.list('executor')).toHaveLength(1);
+  });
+
+  it('should list and remove snapshots per scope', async () => {
+    await checkpointer.save('executor', 'run-1', { n: 1 });
+    await checkpointer.save('executor', 'run-2', { n: 2 });
+    await checkpointer.save('workflow:other', 'run-1', { n: 3 });
+
+    expect((await checkpointer.list('executor')).map((c) => c.runId).sort()).toEqual(['run-1', 'run-2']);
+
+    expect(await checkpointer.remove('executor', 'run-1')).toBe(true);
+    expect(await checkpointer.remove('executor', 'run-1')).toBe(false);
+    expect(await checkpointer.load('executor', 'run-1')).toBeNull();
+    expect(await checkpointer.load('workflow:other', 'run-1')).not.toBeNull();
+  });
+});
+
+describe('file checkpointer', () => {
+  it('should keep snapshots across instances and encode run IDs', async () => {
+    await createFileCheckpointer({ directory: dir }).save('executor', '../escape', { ok: true });
+
+    const checkpoint = await createFileCheckpointer({ directory: dir }).load('executor', '../escape');
+
+    expect(checkpoint?.snapshot).toEqual({ ok: true });
+    expect(await createFileCheckpointer({ directory: join(dir, 'empty') }).list('executor')).toEqual([]);
+  });
+});
+
+describe('CheckpointedInMemoryStore', () => {
+  const workflowName = 'ai-suitability-analysis';
+  const snapshot = {
+    runId: 'run-1',
+    status: 'suspended',
+    value: {},
+    context: { input: { problem: 'Triage tickets' } },
+    activePaths: [],
+    serializedStepGraph: [],
+    activeStepsPath: {},
+    suspendedPaths: { screener: [0] },
+    resumeLabels: {},
+    waitingPaths: {},
+    timestamp: 1
+  } as unknown as SnapshotArgs['snapshot'];
+
+  it('should write snapshots through and load them in another process', async () => {
+    const checkpointer = createFileCheckpointer({ directory: dir });
+    await new CheckpointedInMemoryStore(checkpointer).persistWorkflowSnapshot({
+      workflowName,
+      runId: 'run-1',
+      snapshot
+    });
+
+    // A fresh store stands in for a new process with empty memory
+    const store = new CheckpointedInMemoryStore(createFileCheckpointer({ directory: dir }));
+
+    expect(await store.loadWorkflowSnapshot({ workflowName, runId: 'run-1' })).toMatchObject({
+      status: 'suspended',
+      suspendedPaths: { screener: [0] }
+    });
+    expect(await store.getWorkflowRunById({ workflowName, runId: 'run-1' })).not.toBeNull();
+  });
+
+  it('should persist state updates', async () => {
+    const checkpointer = createMemoryCheckpointer();
+    const store = new CheckpointedInMemoryStore(checkpointer);
+    await store.persistWorkflowSnapshot({ workflowName, runId: 'run-1', snapshot });
+
+    await store.updateWorkflowState({ workflowName, runId: 'run-1', opts: { status: 'success' } });
+
+    const checkpoint = await checkpointer.load<{ status: string }>(workflowCheckpointScope(workflowName), 'run-1');
+    expect(checkpoint?.snapshot.status).toBe('success');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for checkpoint store selection.
+ *
+ * @module pipeline/checkpoint/__tests__/config.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InMemoryStore } from '@mastra/core/storage';
+import { LibSQLStore } from '@mastra/libsql';
+import { resolveCheckpointConfig, createCheckpointStorage, DEFAULT_SQLITE_URL } from '../config';
+import { CheckpointedInMemoryStore } from '../checkpointed-storage';
+import { DEFAULT_CHECKPOINT_DIR } from '../file-checkpointer';
+
+describe('resolveCheckpointConfig', () => {
+  it('should default to memory without a database', () => {
+    expect(resolveCheckpointConfig({})).toEqual({
+      kind: 'memory',
+      connectionString: undefined,
+      sqliteUrl: DEFAULT_SQLITE_URL,
+      directory: DEFAULT_CHECKPOINT_DIR
+    });
+  });
+
+  it('should default to postgres when DATABASE_URL is set', () => {
+    expect(resolveCheckpointConfig({ DATABASE_URL: 'postgres://db' })).toMatchObject({
+      kind: 'postgres',
+      connectionString: 'postgres://db'
+    });
+  });
+
+  it('should honour CHECKPOINT_STORE over DATABASE_URL', () => {
+    const config = resolveCheckpointConfig({
+      DATABASE_URL: 'postgres://db',
+      CHECKPOINT_STORE: ' File ',
+      CHECKPOINT_DIR: '/tmp/runs'
+    });
+
+    expect(config).toMatchObject({ kind: 'file', directory: '/tmp/runs' });
+  });
+
+  it('should reject unknown stores', () => {
+    expect(() => resolveCheckpointConfig({ CHECKPOINT_STORE: 'redis' })).toThrow(
+      'Unknown CHECKPOINT_STORE "redis"'
+    );
+  });
+});
+
+describe('createCheckpointStorage', () => {
+  it('should build matching storage and checkpointer per backend', async () => {
+    const memory = await createCheckpointStorage({ kind: 'memory' });
+    const file = await createCheckpointStorage({ kind: 'file', directory: '/tmp/unused' });
+    const sqlite = await createCheckpointStorage({ kind: 'sqlite', sqliteUrl: ':memory:' });
+
+    expect(memory.storage).toBeInstanceOf(InMemoryStore);
+    expect(memory.checkpointer.kind).toBe('memory');
+    expect(file.storage).toBeInstanceOf(CheckpointedInMemoryStore);
+    expect(file.checkpointer.kind).toBe('file');
+    expect(sqlite.storage).toBeInstanceOf(LibSQLStore);
+    expect(sqlite.checkpointer.kind).toBe('sqlite');
+  });
+
+  it('should require a connection string for postgres', async () => {
+    await expect(createCheckpointStorage({ kind: 'postgres' })).rejects.toThrow('requires DATABASE_URL');
+  });
+});
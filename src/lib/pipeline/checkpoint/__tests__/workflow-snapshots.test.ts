@@ -0,0 +1,106 @@
+/**
+ * Tests for listing and deleting Mastra workflow snapshots.
+ *
+ * @module pipeline/checkpoint/__tests__/workflow-snapshots.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryStore, TABLE_WORKFLOW_SNAPSHOT, type MastraStorage } from '@mastra/core/storage';
+import { LibSQLStore } from '@mastra/libsql';
+import { createFileCheckpointer } from '../file-checkpointer';
+import { CheckpointedInMemoryStore } from '../checkpointed-storage';
+import { deleteWorkflowSnapshots, listWorkflowSnapshots } from '../workflow-snapshots';
+
+type SnapshotArgs = Parameters<InMemoryStore['persistWorkflowSnapshot']>[0];
+
+const WORKFLOW = 'analysis';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'snapshots-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function snapshot(runId: string, status: string): SnapshotArgs['snapshot'] {
+  return { runId, status, context: {}, value: {} } as unknown as SnapshotArgs['snapshot'];
+}
+
+const backends: [string, () => MastraStorage][] = [
+  ['in-memory', () => new InMemoryStore()],
+  ['file', () => new CheckpointedInMemoryStore(createFileCheckpointer({ directory: dir }))],
+  ['sqlite', () => new LibSQLStore({ url: `file:${join(dir, 'snapshots.db')}` })]
+];
+
+describe.each(backends)('%s storage', (_name, create) => {
+  let storage: MastraStorage;
+
+  beforeEach(async () => {
+    storage = create();
+    await storage.init();
+    await storage.persistWorkflowSnapshot({ workflowName: WORKFLOW, runId: 'run-1', snapshot: snapshot('run-1', 'suspended') });
+    await storage.persistWorkflowSnapshot({ workflowName: WORKFLOW, runId: 'run-2', snapshot: snapshot('run-2', 'success') });
+    await storage.persistWorkflowSnapshot({ workflowName: 'other', runId: 'run-1', snapshot: snapshot('run-1', 'success') });
+  });
+
+  it('should list the runs of one workflow', async () => {
+    const runs = await listWorkflowSnapshots(storage, WORKFLOW);
+
+    expect(runs.map((run) => run.runId).sort()).toEqual(['run-1', 'run-2']);
+  });
+
+  it('should delete only the given runs of the workflow', async () => {
+    await deleteWorkflowSnapshots(storage, WORKFLOW, ['run-1', 'unknown']);
+
+    expect((await listWorkflowSnapshots(storage, WORKFLOW)).map((run) => run.runId)).toEqual(['run-2']);
+    expect(await storage.loadWorkflowSnapshot({ workflowName: WORKFLOW, runId: 'run-1' })).toBeNull();
+    expect(await storage.loadWorkflowSnapshot({ workflowName: 'other', runId: 'run-1' })).not.toBeNull();
+  });
+});
+
+describe('file storage', () => {
+  it('should list and delete snapshots persisted by another process', async () => {
+    const checkpointer = createFileCheckpointer({ directory: dir });
+    await new CheckpointedInMemoryStore(checkpointer).persistWorkflowSnapshot({
+      workflowName: WORKFLOW,
+      runId: 'run-1',
+      snapshot: snapshot('run-1', 'suspended')
+    });
+
+    const storage = new CheckpointedInMemoryStore(checkpointer);
+    expect((await listWorkflowSnapshots(storage, WORKFLOW)).map((run) => run.runId)).toEqual(['run-1']);
+
+    await deleteWorkflowSnapshots(storage, WORKFLOW, ['run-1']);
+
+    const restarted = new CheckpointedInMemoryStore(checkpointer);
+    expect(await restarted.loadWorkflowSnapshot({ workflowName: WORKFLOW, runId: 'run-1' })).toBeNull();
+  });
+});
+
+describe('postgres storage', () => {
+  it('should delete from the workflow table in the store schema', async () => {
+    const none = vi.fn().mockResolvedValue(null);
+    // Stand-in with the parts of PostgresStore the delete uses
+    const storage = {
+      name: 'PostgresStore',
+      init: vi.fn().mockResolvedValue(undefined),
+      db: { none },
+      stores: { operations: { schemaName: 'tenant_a' } }
+    } as unknown as MastraStorage;
+
+    await deleteWorkflowSnapshots(storage, WORKFLOW, ['run-1', 'run-2']);
+
+    expect(none).toHaveBeenCalledWith(expect.stringContaining('DELETE FROM $1:name.$2:name'), [
+      'tenant_a',
+      TABLE_WORKFLOW_SNAPSHOT,
+      WORKFLOW,
+      ['run-1', 'run-2']
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Checkpointed Mastra storage.
+ *
+ * An `InMemoryStore` whose workflow snapshots are written through to a
+ * checkpointer, so Mastra workflow runs can suspend in one process and
+ * resume in another without a database. Snapshots missing from memory are
+ * loaded from the checkpointer on first access, and listing runs loads
+ * them all. Threads (assessment history) stay in memory.
+ *
+ * @module pipeline/checkpoint/checkpointed-storage
+ */
+
+import { InMemoryStore, type WorkflowsInMemory } from '@mastra/core/storage';
+import type { Checkpointer } from './types';
+
+type SnapshotArgs = Parameters<InMemoryStore['persistWorkflowSnapshot']>[0];
+type WorkflowRunState = SnapshotArgs['snapshot'];
+type RunKey = { workflowName: string; runId: string };
+
+/**
+ * Checkpoint scope for the snapshots of a Mastra workflow.
+ */
+export function workflowCheckpointScope(workflowName: string): string {
+  return `workflow:${workflowName}`;
+}
+
+/**
+ * Deletes workflow snapshots from an `InMemoryStore`, which has no API for it.
+ */
+export function deleteInMemorySnapshots(
+  storage: InMemoryStore,
+  workflowName: string,
+  runIds: string[]
+): void {
+  const { collection } = storage.stores.workflows as WorkflowsInMemory;
+  const targets = new Set(runIds);
+  for (const [key, run] of collection) {
+    if (run.workflow_name === workflowName && targets.has(run.run_id)) {
+      collection.delete(key);
+    }
+  }
+}
+
+/**
+ * In-memory Mastra storage with workflow snapshots persisted by a checkpointer.
+ */
+export class CheckpointedInMemoryStore extends InMemoryStore {
+  constructor(private readonly checkpointer: Checkpointer) {
+    super();
+  }
+
+  override async persistWorkflowSnapshot(args: SnapshotArgs): Promise<void> {
+    await super.persistWorkflowSnapshot(args);
+    await this.checkpointer.save(workflowCheckpointScope(args.workflowName), args.runId, args.snapshot);
+  }
+
+  override async loadWorkflowSnapshot(args: RunKey): Promise<WorkflowRunState | null> {
+    await this.hydrate(args);
+    return super.loadWorkflowSnapshot(args);
+  }
+
+  override async getWorkflowRunById(
+    args: Parameters<InMemoryStore['getWorkflowRunById']>[0]
+  ): ReturnType<InMemoryStore['getWorkflowRunById']> {
+    if (args.workflowName) {
+      await this.hydrate({ workflowName: args.workflowName, runId: args.runId });
+    }
+    return super.getWorkflowRunById(args);
+  }
+
+  override async getWorkflowRuns(
+    args?: Parameters<InMemoryStore['getWorkflowRuns']>[0]
+  ): ReturnType<InMemoryStore['getWorkflowRuns']> {
+    if (args?.workflowName) {
+      const checkpoints = await this.checkpointer.list<WorkflowRunState>(
+        workflowCheckpointScope(args.workflowName)
+      );
+      for (const { runId } of checkpoints) {
+        await this.hydrate({ workflowName: args.workflowName, runId });
+      }
+    }
+    return super.getWorkflowRuns(args);
+  }
+
+  override async updateWorkflowResults(
+    args: Parameters<InMemoryStore['updateWorkflowResults']>[0]
+  ): ReturnType<InMemoryStore['updateWorkflowResults']> {
+    await this.hydrate(args);
+    const context = await super.updateWorkflowResults(args);
+    await this.writeThrough(args);
+    return context;
+  }
+
+  override async updateWorkflowState(
+    args: Parameters<InMemoryStore['updateWorkflowState']>[0]
+  ): ReturnType<InMemoryStore['updateWorkflowState']> {
+    await this.hydrate(args);
+    const snapshot = await super.updateWorkflowState(args);
+    await this.writeThrough(args);
+    return snapshot;
+  }
+
+  /**
+   * Deletes workflow snapshots from memory and from the checkpointer.
+   */
+  async deleteWorkflowSnapshots(workflowName: string, runIds: string[]): Promise<void> {
+    deleteInMemorySnapshots(this, workflowName, runIds);
+    for (const runId of runIds) {
+      await this.checkpointer.remove(workflowCheckpointScope(workflowName), runId);
+    }
+  }
+
+  /**
+   * Loads a snapshot from the checkpointer into memory if it is not there yet.
+   */
+  private async hydrate({ workflowName, runId }: RunKey): Promise<void> {
+    if (await super.loadWorkflowSnapshot({ workflowName, runId })) {
+      return;
+    }
+    const checkpoint = await this.checkpointer.load<WorkflowRunState>(
+      workflowCheckpointScope(workflowName),
+      runId
+    );
+    if (checkpoint) {
+      await super.persistWorkflowSnapshot({ workflowName, runId, snapshot: checkpoint.snapshot });
+    }
+  }
+
+  /**
+   * Saves the in-memory snapshot of a run to the checkpointer.
+   */
+  private async writeThrough({ workflowName, runId }: RunKey): Promise<void> {
+    const snapshot = await super.loadWorkflowSnapshot({ workflowName, runId });
+    if (snapshot) {
+      await this.checkpointer.save(workflowCheckpointScope(workflowName), runId, snapshot);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Checkpoint store selection.
+ *
+ * Builds the Mastra storage and the checkpointer for the configured
+ * backend, so the Mastra workflow and the legacy executor persist
+ * suspended runs in the same place:
+ *
+ * | `CHECKPOINT_STORE` | Mastra storage                 | Checkpointer            |
+ * |--------------------|--------------------------------|-------------------------|
+ * | `postgres`         | PostgresStore (`DATABASE_URL`) | threads in that store   |
+ * | `sqlite`           | LibSQLStore (`CHECKPOINT_SQLITE_URL`) | threads in that store |
+ * | `file`             | in-memory, snapshots on disk   | JSON files (`CHECKPOINT_DIR`) |
+ * | `memory`           | InMemoryStore                  | Map                     |
+ *
+ * Without `CHECKPOINT_STORE`, Postgres is used when `DATABASE_URL` is set
+ * and memory otherwise. The Postgres and LibSQL adapters are imported only
+ * when their backend is selected.
+ *
+ * @module pipeline/checkpoint/config
+ */
+
+import { InMemoryStore, type MastraStorage } from '@mastra/core/storage';
+import { CheckpointedInMemoryStore } from './checkpointed-storage';
+import { createFileCheckpointer, DEFAULT_CHECKPOINT_DIR } from './file-checkpointer';
+import { createMemoryCheckpointer } from './memory-checkpointer';
+import { createStorageCheckpointer } from './storage-checkpointer';
+import {
+  CHECKPOINT_STORE_KINDS,
+  type CheckpointConfig,
+  type Checkpointer,
+  type CheckpointStoreKind
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Default SQLite database when `CHECKPOINT_SQLITE_URL` is unset */
+export const DEFAULT_SQLITE_URL = 'file:.data/checkpoints.db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Mastra storage and checkpointer for one backend.
+ */
+export interface CheckpointStorage {
+  /** Storage for the Mastra instance (workflow snapshots, assessment history) */
+  storage: MastraStorage;
+  /** Checkpointer for the legacy executor */
+  checkpointer: Checkpointer;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function isCheckpointStoreKind(value: string): value is CheckpointStoreKind {
+  return (CHECKPOINT_STORE_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the checkpoint store configuration from environment variables.
+ *
+ * @param env - Environment (default: process.env)
+ * @returns Checkpoint configuration
+ * @throws If `CHECKPOINT_STORE` names an unknown backend
+ */
+export function resolveCheckpointConfig(
+  env: Record<string, string | undefined> = process.env
+): CheckpointConfig {
+  const requested = env.CHECKPOINT_STORE?.trim().toLowerCase() || (env.DATABASE_URL ? 'postgres' : 'memory');
+
+  if (!isCheckpointStoreKind(requested)) {
+    throw new Error(
+      `Unknown CHECKPOINT_STORE "${env.CHECKPOINT_STORE}" (expected one of: ${CHECKPOINT_STORE_KINDS.join(', ')})`
+    );
+  }
+
+  return {
+    kind: requested,
+    connectionString: env.DATABASE_URL,
+    sqliteUrl: env.CHECKPOINT_SQLITE_URL || DEFAULT_SQLITE_URL,
+    directory: env.CHECKPOINT_DIR || DEFAULT_CHECKPOINT_DIR
+  };
+}
+
+/**
+ * Creates the Mastra storage and checkpointer for a configuration.
+ *
+ * @param config - Checkpoint configuration
+ * @returns Storage and checkpointer sharing one backend
+ * @throws If the postgres backend is selected without a connection string
+ */
+export async function createCheckpointStorage(config: CheckpointConfig): Promise<CheckpointStorage> {
+  switch (config.kind) {
+    case 'postgres': {
+      if (!config.connectionString) {
+        throw new Error('CHECKPOINT_STORE=postgres requires DATABASE_URL');
+      }
+      const { PostgresStore } = await import('@mastra/pg');
+      const storage = new PostgresStore({ connectionString: config.connectionString });
+      return { storage, checkpointer: createStorageCheckpointer(storage, 'postgres') };
+    }
+
+    case 'sqlite': {
+      const { LibSQLStore } = await import('@mastra/libsql');
+      const storage = new LibSQLStore({ url: config.sqliteUrl ?? DEFAULT_SQLITE_URL });
+      return { storage, checkpointer: createStorageCheckpointer(storage, 'sqlite') };
+    }
+
+    case 'file': {
+      const checkpointer = createFileCheckpointer({ directory: config.directory });
+      return { storage: new CheckpointedInMemoryStore(checkpointer), checkpointer };
+    }
+
+    case 'memory':
+      return { storage: new InMemoryStore(), checkpointer: createMemoryCheckpointer() };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT STORAGE
+// ═══════════════════════════════════════════════════════════════════════════
+
+let defaultStorage: Promise<CheckpointStorage> | null = null;
+
+/**
+ * Get the checkpoint storage configured by environment variables.
+ */
+export function getCheckpointStorage(): Promise<CheckpointStorage> {
+  if (!defaultStorage) {
+    defaultStorage = createCheckpointStorage(resolveCheckpointConfig());
+  }
+  return defaultStorage;
+}
+
+/**
+ * Reset the checkpoint storage (useful for testing).
+ */
+export function resetCheckpointStorage(): void {
+  defaultStorage = null;
+}
@@ -0,0 +1,90 @@
+/**
+ * Filesystem checkpointer (Node.js only).
+ *
+ * Writes one JSON file per run under `<directory>/<scope>/<runId>.json`.
+ * Writes go to a temporary file that is then renamed into place, so a
+ * crash mid-write never leaves a truncated snapshot behind.
+ *
+ * @module pipeline/checkpoint/file-checkpointer
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Checkpoint, Checkpointer } from './types';
+
+/** Default snapshot directory when `CHECKPOINT_DIR` is unset */
+export const DEFAULT_CHECKPOINT_DIR = '.data/checkpoints';
+
+const EXTENSION = '.json';
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Creates a checkpointer that stores snapshots as JSON files.
+ *
+ * @param options - Directory to write snapshots to
+ * @returns Checkpointer backed by the filesystem
+ */
+export function createFileCheckpointer(
+  options: { directory?: string } = {}
+): Checkpointer {
+  const directory = options.directory ?? DEFAULT_CHECKPOINT_DIR;
+
+  // Scopes and run IDs are encoded so they can never escape the directory
+  const scopeDir = (scope: string) => join(directory, encodeURIComponent(scope));
+  const filePath = (scope: string, runId: string) =>
+    join(scopeDir(scope), `${encodeURIComponent(runId)}${EXTENSION}`);
+
+  const readCheckpoint = async <T>(path: string): Promise<Checkpoint<T> | null> => {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as Checkpoint<T>;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  };
+
+  return {
+    kind: 'file',
+
+    save: async (scope, runId, snapshot) => {
+      const path = filePath(scope, runId);
+      const checkpoint: Checkpoint = { scope, runId, snapshot, updatedAt: Date.now() };
+      const tmpPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+
+      await mkdir(scopeDir(scope), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify(checkpoint), 'utf8');
+      await rename(tmpPath, path);
+    },
+
+    load: (scope, runId) => readCheckpoint(filePath(scope, runId)),
+
+    remove: async (scope, runId) => {
+      const path = filePath(scope, runId);
+      if (!(await readCheckpoint(path))) {
+        return false;
+      }
+      await rm(path, { force: true });
+      return true;
+    },
+
+    list: async <T>(scope: string) => {
+      let files: string[];
+      try {
+        files = await readdir(scopeDir(scope));
+      } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+      }
+
+      const checkpoints = await Promise.all(
+        files
+          .filter((file) => file.endsWith(EXTENSION))
+          .map((file) => readCheckpoint<T>(join(scopeDir(scope), file)))
+      );
+      return checkpoints.filter((c): c is Checkpoint<T> => c !== null);
+    }
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Checkpoint store exports (Node.js only).
+ *
+ * Not re-exported from the pipeline barrel, which is also imported by
+ * client components where the storage adapters and `fs` are unavailable.
+ *
+ * @module pipeline/checkpoint
+ */
+
+export {
+  CHECKPOINT_STORE_KINDS,
+  type CheckpointStoreKind,
+  type Checkpoint,
+  type Checkpointer,
+  type CheckpointConfig
+} from './types';
+
+export { createMemoryCheckpointer } from './memory-checkpointer';
+export { createFileCheckpointer, DEFAULT_CHECKPOINT_DIR } from './file-checkpointer';
+export { createStorageCheckpointer, CHECKPOINT_RESOURCE_ID } from './storage-checkpointer';
+export {
+  CheckpointedInMemoryStore,
+  workflowCheckpointScope,
+  deleteInMemorySnapshots
+} from './checkpointed-storage';
+export { listWorkflowSnapshots, deleteWorkflowSnapshots } from './workflow-snapshots';
+
+export {
+  resolveCheckpointConfig,
+  createCheckpointStorage,
+  getCheckpointStorage,
+  resetCheckpointStorage,
+  DEFAULT_SQLITE_URL,
+  type CheckpointStorage
+} from './config';
@@ -0,0 +1,54 @@
+/**
+ * In-memory checkpointer.
+ *
+ * Keeps snapshots in a Map for the lifetime of the process. Suspended runs
+ * survive between requests to the same server, but not restarts or
+ * serverless cold starts.
+ *
+ * @module pipeline/checkpoint/memory-checkpointer
+ */
+
+import type { Checkpoint, Checkpointer } from './types';
+
+/**
+ * Copies a value through JSON, matching what durable stores round-trip.
+ */
+function cloneSnapshot<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Creates an in-memory checkpointer.
+ *
+ * @returns Checkpointer backed by a Map
+ */
+export function createMemoryCheckpointer(): Checkpointer {
+  const scopes = new Map<string, Map<string, Checkpoint>>();
+
+  const scopeOf = (scope: string) => {
+    let checkpoints = scopes.get(scope);
+    if (!checkpoints) {
+      checkpoints = new Map();
+      scopes.set(scope, checkpoints);
+    }
+    return checkpoints;
+  };
+
+  return {
+    kind: 'memory',
+
+    save: async (scope, runId, snapshot) => {
+      scopeOf(scope).set(runId, { scope, runId, snapshot: cloneSnapshot(snapshot), updatedAt: Date.now() });
+    },
+
+    load: async <T>(scope: string, runId: string) => {
+      const checkpoint = scopes.get(scope)?.get(runId);
+      return checkpoint ? (cloneSnapshot(checkpoint) as Checkpoint<T>) : null;
+    },
+
+    remove: async (scope, runId) => scopes.get(scope)?.delete(runId) ?? false,
+
+    list: async <T>(scope: string) =>
+      [...(scopes.get(scope)?.values() ?? [])].map((c) => cloneSnapshot(c) as Checkpoint<T>)
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Mastra storage checkpointer.
+ *
+ * Stores snapshots as threads in a Mastra storage adapter (PostgresStore,
+ * LibSQLStore, ...), the same way assessment history is stored, so the
+ * Postgres and SQLite backends need no tables of their own. Each snapshot
+ * is a thread under a dedicated resource ID with the snapshot kept in the
+ * thread metadata.
+ *
+ * @module pipeline/checkpoint/storage-checkpointer
+ */
+
+import type { StorageThreadType } from '@mastra/core/memory';
+import type { MastraStorage } from '@mastra/core/storage';
+import type { Checkpoint, Checkpointer, CheckpointStoreKind } from './types';
+
+/**
+ * Resource ID all checkpoint threads are stored under.
+ */
+export const CHECKPOINT_RESOURCE_ID = 'pipeline-checkpoints';
+
+/**
+ * Shape of the thread metadata for a checkpoint.
+ */
+type CheckpointMetadata = {
+  kind: 'checkpoint';
+  scope: string;
+  runId: string;
+  snapshot: unknown;
+  updatedAt: number;
+};
+
+function threadId(scope: string, runId: string): string {
+  return `${scope}:${runId}`;
+}
+
+function isCheckpointThread(
+  thread: StorageThreadType | null
+): thread is StorageThreadType & { metadata: CheckpointMetadata } {
+  return thread?.resourceId === CHECKPOINT_RESOURCE_ID && thread.metadata?.kind === 'checkpoint';
+}
+
+function toCheckpoint<T>(metadata: CheckpointMetadata): Checkpoint<T> {
+  const { scope, runId, snapshot, updatedAt } = metadata;
+  return { scope, runId, snapshot: snapshot as T, updatedAt };
+}
+
+/**
+ * Creates a checkpointer backed by Mastra storage.
+ *
+ * @param storage - Mastra storage adapter
+ * @param kind - Backend the adapter writes to (reported by `kind`)
+ * @returns Checkpointer
+ */
+export function createStorageCheckpointer(
+  storage: MastraStorage,
+  kind: CheckpointStoreKind
+): Checkpointer {
+  // Creates the tables on first use; Mastra does the same for its own calls
+  let ready: Promise<void> | null = null;
+  const init = () =>
+    (ready ??= storage.init().catch((error) => {
+      ready = null;
+      throw error;
+    }));
+
+  const load = async (scope: string, runId: string) => {
+    await init();
+    const thread = await storage.getThreadById({ threadId: threadId(scope, runId) });
+    return isCheckpointThread(thread) ? thread : null;
+  };
+
+  return {
+    kind,
+
+    save: async (scope, runId, snapshot) => {
+      const existing = await load(scope, runId);
+      const now = new Date();
+      const metadata: CheckpointMetadata = {
+        kind: 'checkpoint',
+        scope,
+        runId,
+        // Stored adapters serialize metadata; copy so in-memory adapters match
+        snapshot: JSON.parse(JSON.stringify(snapshot)),
+        updatedAt: now.getTime()
+      };
+
+      await storage.saveThread({
+        thread: {
+          id: threadId(scope, runId),
+          resourceId: CHECKPOINT_RESOURCE_ID,
+          title: `${scope} ${runId}`,
+          createdAt: existing ? new Date(existing.createdAt) : now,
+          updatedAt: now,
+          metadata
+        }
+      });
+    },
+
+    load: async <T>(scope: string, runId: string) => {
+      const thread = await load(scope, runId);
+      return thread ? toCheckpoint<T>(thread.metadata) : null;
+    },
+
+    remove: async (scope, runId) => {
+      if (!(await load(scope, runId))) {
+        return false;
+      }
+      await storage.deleteThread({ threadId: threadId(scope, runId) });
+      return true;
+    },
+
+    list: async <T>(scope: string) => {
+      await init();
+      const threads = await storage.getThreadsByResourceId({ resourceId: CHECKPOINT_RESOURCE_ID });
+      return threads
+        .filter(isCheckpointThread)
+        .filter((thread) => thread.metadata.scope === scope)
+        .map((thread) => toCheckpoint<T>(thread.metadata));
+    }
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Checkpoint store types.
+ *
+ * A checkpointer persists run snapshots so suspended runs can be resumed
+ * by a later request, process or serverless invocation. Snapshots are
+ * grouped by scope (e.g. the legacy executor or a Mastra workflow) and
+ * keyed by run ID.
+ *
+ * @module pipeline/checkpoint/types
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORE KINDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Available checkpoint backends.
+ */
+export const CHECKPOINT_STORE_KINDS = ['postgres', 'sqlite', 'file', 'memory'] as const;
+
+/**
+ * Checkpoint backend.
+ */
+export type CheckpointStoreKind = (typeof CHECKPOINT_STORE_KINDS)[number];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHECKPOINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A stored run snapshot.
+ */
+export interface Checkpoint<T = unknown> {
+  /** Snapshot group (e.g. 'pipeline-executor') */
+  scope: string;
+  /** Run identifier */
+  runId: string;
+  /** JSON-serializable run state */
+  snapshot: T;
+  /** When the snapshot was last saved (ms since epoch) */
+  updatedAt: number;
+}
+
+/**
+ * Persists run snapshots.
+ *
+ * Snapshots must be JSON-serializable; every implementation returns a copy,
+ * so callers never share state with the store.
+ */
+export interface Checkpointer {
+  /** Backend this checkpointer writes to */
+  readonly kind: CheckpointStoreKind;
+  /** Saves (or replaces) the snapshot of a run */
+  save<T>(scope: string, runId: string, snapshot: T): Promise<void>;
+  /** Loads the snapshot of a run, or null if there is none */
+  load<T>(scope: string, runId: string): Promise<Checkpoint<T> | null>;
+  /** Deletes the snapshot of a run; false if there was none */
+  remove(scope: string, runId: string): Promise<boolean>;
+  /** Lists all snapshots in a scope */
+  list<T>(scope: string): Promise<Checkpoint<T>[]>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Checkpoint store configuration.
+ */
+export interface CheckpointConfig {
+  kind: CheckpointStoreKind;
+  /** Postgres connection string (postgres) */
+  connectionString?: string;
+  /** libSQL database URL, e.g. `file:.data/checkpoints.db` (sqlite) */
+  sqliteUrl?: string;
+  /** Directory for snapshot files (file) */
+  directory?: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * Workflow snapshot cleanup.
+ *
+ * Mastra storage can list workflow runs but has no API to delete them, so
+ * snapshots of abandoned runs would stay in the checkpoint store forever.
+ * These helpers list the snapshots of a workflow and delete them with the
+ * backend's own client.
+ *
+ * @module pipeline/checkpoint/workflow-snapshots
+ */
+
+import {
+  InMemoryStore,
+  TABLE_WORKFLOW_SNAPSHOT,
+  type MastraStorage,
+  type WorkflowRun
+} from '@mastra/core/storage';
+import type { LibSQLStore } from '@mastra/libsql';
+import type { PostgresStore } from '@mastra/pg';
+import { CheckpointedInMemoryStore, deleteInMemorySnapshots } from './checkpointed-storage';
+
+/**
+ * The `batchDelete` operation of the LibSQL store (not part of the base type).
+ */
+type BatchDeleteOperations = {
+  batchDelete(args: {
+    tableName: typeof TABLE_WORKFLOW_SNAPSHOT;
+    keys: Record<string, string>[];
+  }): Promise<void>;
+};
+
+/**
+ * The schema the Postgres store's tables live in (not part of the base type).
+ */
+type PostgresOperations = {
+  schemaName?: string;
+};
+
+/**
+ * Checks a storage adapter by name, so the database adapters are only
+ * loaded by the backend that uses them (see `createCheckpointStorage`).
+ */
+function isStore<T extends MastraStorage>(storage: MastraStorage, name: string): storage is T {
+  return storage.name === name;
+}
+
+/**
+ * Lists all stored runs of a workflow.
+ *
+ * @param storage - Mastra storage
+ * @param workflowName - Workflow name
+ * @returns Stored runs, most recent first
+ */
+export async function listWorkflowSnapshots(
+  storage: MastraStorage,
+  workflowName: string
+): Promise<WorkflowRun[]> {
+  const { runs } = await storage.getWorkflowRuns({ workflowName });
+  return runs;
+}
+
+/**
+ * Deletes the snapshots of workflow runs.
+ *
+ * @param storage - Mastra storage created by `createCheckpointStorage`
+ * @param workflowName - Workflow name
+ * @param runIds - Runs to delete; unknown ids are ignored
+ * @throws If the storage backend is not supported
+ */
+export async function deleteWorkflowSnapshots(
+  storage: MastraStorage,
+  workflowName: string,
+  runIds: string[]
+): Promise<void> {
+  if (runIds.length === 0) {
+    return;
+  }
+
+  if (storage instanceof CheckpointedInMemoryStore) {
+    await storage.deleteWorkflowSnapshots(workflowName, runIds);
+  } else if (storage instanceof InMemoryStore) {
+    deleteInMemorySnapshots(storage, workflowName, runIds);
+  } else if (isStore<PostgresStore>(storage, 'PostgresStore')) {
+    await storage.init();
+    const { schemaName = 'public' } = storage.stores.operations as unknown as PostgresOperations;
+    await storage.db.none('DELETE FROM $1:name.$2:name WHERE workflow_name = $3 AND run_id IN ($4:csv)', [
+      schemaName,
+      TABLE_WORKFLOW_SNAPSHOT,
+      workflowName,
+      runIds
+    ]);
+  } else if (isStore<LibSQLStore>(storage, 'LibSQLStore')) {
+    await storage.init();
+    // LibSQL operations support batch deletes by composite key
+    const operations = storage.stores.operations as unknown as BatchDeleteOperations;
+    await operations.batchDelete({
+      tableName: TABLE_WORKFLOW_SNAPSHOT,
+      keys: runIds.map((runId) => ({ workflow_name: workflowName, run_id: runId }))
+    });
+  } else {
+    throw new Error(`Deleting workflow snapshots is not supported for ${storage.constructor.name}`);
+  }
+}
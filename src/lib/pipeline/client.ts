@@ -11,7 +11,8 @@
 
 import type {
   PipelineStage,
-  FollowUpQuestion
+  FollowUpQuestion,
+  PipelineInput
 } from './types';
 import type { Answer } from '@/app/api/pipeline/_lib/validation';
 import type { PipelineEvent } from './events';
@@ -45,6 +46,14 @@ export interface PipelineClientOptions {
   useMastraNative?: boolean;
 }
 
+/**
+ * Input for a new pipeline run, as sent to the start endpoint.
+ */
+export type RunInput = Pick<
+  PipelineInput,
+  'problem' | 'context' | 'verdictMode' | 'usage' | 'industry' | 'parentThreadId' | 'sampling'
+>;
+
 /**
  * Chunk structure aligned with Mastra's ChunkType.
  * Provides a unified envelope for all pipeline events.
@@ -60,6 +69,8 @@ export interface PipelineChunk {
   payload: PipelineEvent;
   /** Unix timestamp when event was received client-side */
   timestamp: number;
+  /** Server-assigned event id (sent back as `Last-Event-ID` on reconnect) */
+  id?: number;
 }
 
 /**
@@ -153,8 +164,13 @@ function _stageToStepId(stage: PipelineStage): string {
 interface ParsedSSE {
   parsed: PipelineChunk[];
   remainder: string;
+  /** Whether a terminal `done` or `error` frame was received */
+  terminated: boolean;
 }
 
+/** Frames the server ends a stream with */
+const TERMINAL_EVENTS = new Set(['done', 'error']);
+
 /**
  * Parse SSE buffer into PipelineChunks.
  * Handles partial messages at buffer boundaries.
@@ -163,6 +179,8 @@ function parseSSEBuffer(buffer: string, runId: string): ParsedSSE {
   const chunks: PipelineChunk[] = [];
   const lines = buffer.split('\n');
   let remainder = '';
+  let terminated = false;
+  let currentId: string | null = null;
   let currentEvent: string | null = null;
   let currentData: string | null = null;
 
@@ -180,6 +198,12 @@ function parseSSEBuffer(buffer: string, runId: string): ParsedSSE {
       continue;
     }
 
+    // Parse event id
+    if (line.startsWith('id: ')) {
+      currentId = line.slice(4);
+      continue;
+    }
+
     // Parse event type
     if (line.startsWith('event: ')) {
       currentEvent = line.slice(7);
@@ -194,6 +218,9 @@ function parseSSEBuffer(buffer: string, runId: string): ParsedSSE {
 
     // Empty line marks end of event
     if (line === '' && currentData !== null) {
+      if (currentEvent !== null && TERMINAL_EVENTS.has(currentEvent)) {
+        terminated = true;
+      }
       try {
         const payload = JSON.parse(currentData);
         if (isPipelineEvent(payload)) {
@@ -202,29 +229,34 @@ function parseSSEBuffer(buffer: string, runId: string): ParsedSSE {
             runId,
             from: 'PIPELINE',
             payload,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            ...(currentId !== null && { id: Number(currentId) })
           });
         }
       } catch {
         // Invalid JSON, skip this event
         console.warn('[PipelineClient] Failed to parse SSE data:', currentData);
       }
+      currentId = null;
       currentEvent = null;
       currentData = null;
     }
   }
 
   // If we have an incomplete event at the end, add it to remainder
-  if (currentEvent !== null || currentData !== null) {
+  if (currentId !== null || currentEvent !== null || currentData !== null) {
+    if (currentData !== null) {
+      remainder = `data: ${currentData}\n${remainder}`;
+    }
     if (currentEvent !== null) {
       remainder = `event: ${currentEvent}\n${remainder}`;
     }
-    if (currentData !== null) {
-      remainder = `data: ${currentData}\n${remainder}`;
+    if (currentId !== null) {
+      remainder = `id: ${currentId}\n${remainder}`;
     }
   }
 
-  return { parsed: chunks, remainder };
+  return { parsed: chunks, remainder, terminated };
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -236,14 +268,30 @@ function parseSSEBuffer(buffer: string, runId: string): ParsedSSE {
  * Provides processDataStream method following Mastra's pattern.
  */
 export class PipelineStreamResponse {
-  private response: Response;
+  protected response: Response;
   private runId: string;
+  private lastId: number | undefined;
+  private terminated = false;
 
   constructor(response: Response, runId: string) {
     this.response = response;
     this.runId = runId;
   }
 
+  /**
+   * Id of the last event received, if the server assigns ids.
+   */
+  get lastEventId(): number | undefined {
+    return this.lastId;
+  }
+
+  /**
+   * Whether the server ended the stream (rather than the connection dropping).
+   */
+  get isTerminated(): boolean {
+    return this.terminated;
+  }
+
   /**
    * Process the stream with a callback for each chunk.
    * Follows Mastra's processDataStream pattern.
@@ -263,19 +311,21 @@ export class PipelineStreamResponse {
         if (done) break;
 
         buffer += decoder.decode(value, { stream: true });
-        const { parsed, remainder } = parseSSEBuffer(buffer, this.runId);
+        const { parsed, remainder, terminated } = parseSSEBuffer(buffer, this.runId);
         buffer = remainder;
+        this.terminated ||= terminated;
 
         for (const chunk of parsed) {
-          await options.onChunk(chunk);
+          await this.deliver(chunk, options);
         }
       }
 
       // Process any remaining buffer content
       if (buffer.trim()) {
-        const { parsed } = parseSSEBuffer(buffer + '\n\n', this.runId);
+        const { parsed, terminated } = parseSSEBuffer(buffer + '\n\n', this.runId);
+        this.terminated ||= terminated;
         for (const chunk of parsed) {
-          await options.onChunk(chunk);
+          await this.deliver(chunk, options);
         }
       }
     } finally {
@@ -283,6 +333,13 @@ export class PipelineStreamResponse {
     }
   }
 
+  private async deliver(chunk: PipelineChunk, options: ProcessDataStreamOptions): Promise<void> {
+    if (chunk.id !== undefined) {
+      this.lastId = chunk.id;
+    }
+    await options.onChunk(chunk);
+  }
+
   /**
    * Direct access to the response body stream.
    */
@@ -304,6 +361,7 @@ export class PipelineRun {
   private client: PipelineClient;
   private state: RunInternalState;
   private streamPromise: Promise<PipelineStreamResponse> | null = null;
+  private lastEventId: number | undefined;
 
   constructor(runId: string, client: PipelineClient) {
     this.runId = runId;
@@ -340,7 +398,7 @@ export class PipelineRun {
     this.streamPromise = this.client._startStream(
       this.runId,
       this.state.abortController.signal,
-      (event) => this.handleEvent(event)
+      (event, id) => this.handleEvent(event, id)
     );
 
     return this.streamPromise;
@@ -372,7 +430,8 @@ export class PipelineRun {
       stepId,
       answers,
       this.state.abortController.signal,
-      (event) => this.handleEvent(event)
+      (event, id) => this.handleEvent(event, id),
+      this.lastEventId
     );
 
     return response;
@@ -446,8 +505,11 @@ export class PipelineRun {
     this.notifyWatchers();
   }
 
-  private handleEvent(event: PipelineEvent): void {
+  private handleEvent(event: PipelineEvent, id?: number): void {
     this.state.lastEvent = event;
+    if (id !== undefined) {
+      this.lastEventId = id;
+    }
 
     switch (event.type) {
       case 'pipeline:start':
@@ -497,7 +559,8 @@ export class PipelineRun {
         break;
 
       case 'answer:received':
-        // Remove answered question from pending
+      case 'answer:assumed':
+        // Remove answered (or assumed) question from pending
         this.state.pendingQuestions = this.state.pendingQuestions.filter(
           q => q.id !== event.questionId
         );
@@ -598,10 +661,11 @@ export class PipelineClient {
    * Create a new pipeline run.
    * Does not start execution until stream() is called.
    *
-   * @param input - Problem description and optional context
+   * @param input - Problem description plus optional context, verdict mode, usage, industry,
+   *   the assessment it re-runs and dimension sampling
    * @returns PipelineRun instance for managing the execution
    */
-  createRun(input: { problem: string; context?: string }): PipelineRun {
+  createRun(input: RunInput): PipelineRun {
     // Generate client-side run ID (server will create the actual run)
     const runId = crypto.randomUUID();
     const run = new PipelineRun(runId, this);
@@ -690,14 +754,14 @@ export class PipelineClient {
   async _startStream(
     runId: string,
     signal: AbortSignal,
-    onEvent: (event: PipelineEvent) => void
+    onEvent: (event: PipelineEvent, id?: number) => void
   ): Promise<PipelineStreamResponse> {
     const run = this.runs.get(runId) as PipelineRunWithInput | undefined;
     if (!run || !run._input) {
       throw new Error(`Run ${runId} not found or missing input`);
     }
 
-    const { problem, context } = run._input;
+    const input = run._input;
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= this.retries; attempt++) {
@@ -705,7 +769,7 @@ export class PipelineClient {
         const response = await fetch(`${this.baseUrl}/api/pipeline/start`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ problem, context }),
+          body: JSON.stringify(input),
           signal
         });
 
@@ -720,7 +784,8 @@ export class PipelineClient {
         return new PipelineStreamResponseWithCallback(
           response,
           runId,
-          onEvent
+          onEvent,
+          (serverRunId, lastEventId) => this._reconnectStream(serverRunId, lastEventId, signal)
         );
       } catch (error) {
         if (signal.aborted) {
@@ -752,7 +817,8 @@ export class PipelineClient {
     stepId: string,
     answers: Answer[],
     signal: AbortSignal,
-    onEvent: (event: PipelineEvent) => void
+    onEvent: (event: PipelineEvent, id?: number) => void,
+    lastEventId?: number
   ): Promise<PipelineStreamResponse> {
     let lastError: Error | null = null;
 
@@ -760,7 +826,7 @@ export class PipelineClient {
     let requestBody: unknown;
 
     if (this.useMastraNative) {
-      // Mastra native mode: simplified API (state is in PostgreSQL)
+      // Mastra native mode: simplified API (state is in the checkpoint store)
       requestBody = { runId, stepId, answers };
     } else {
       // Legacy mode: stateless restart (requires problem/context)
@@ -768,15 +834,18 @@ export class PipelineClient {
       if (!run || !run._input) {
         throw new Error(`Run ${runId} not found or missing input`);
       }
-      const { problem, context } = run._input;
-      requestBody = { runId, problem, context, answers };
+      requestBody = { runId, ...run._input, answers };
     }
 
     for (let attempt = 0; attempt <= this.retries; attempt++) {
       try {
         const response = await fetch(`${this.baseUrl}/api/pipeline/resume`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            // Event ids continue from the suspended stream
+            ...(lastEventId !== undefined && { 'Last-Event-ID': String(lastEventId) })
+          },
           body: JSON.stringify(requestBody),
           signal
         });
@@ -791,7 +860,8 @@ export class PipelineClient {
         return new PipelineStreamResponseWithCallback(
           response,
           runId,
-          onEvent
+          onEvent,
+          (serverRunId, lastId) => this._reconnectStream(serverRunId, lastId, signal)
         );
       } catch (error) {
         if (signal.aborted) {
@@ -816,6 +886,58 @@ export class PipelineClient {
     throw lastError || new Error('Pipeline resume failed');
   }
 
+  /**
+   * Reconnects to a run's stream after the connection dropped, replaying
+   * the events after `lastEventId`.
+   *
+   * @internal
+   * @returns The reconnected stream, or null if the server no longer has it
+   */
+  async _reconnectStream(
+    serverRunId: string,
+    lastEventId: number,
+    signal: AbortSignal
+  ): Promise<Response | null> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await this.sleep(Math.min(this.backoffMs * Math.pow(2, attempt - 1), this.maxBackoffMs));
+      }
+      if (signal.aborted) {
+        throw new Error('Pipeline cancelled');
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(
+          `${this.baseUrl}/api/pipeline/stream?runId=${encodeURIComponent(serverRunId)}`,
+          { headers: { 'Last-Event-ID': String(lastEventId) }, signal }
+        );
+      } catch (error) {
+        if (signal.aborted) {
+          throw new Error('Pipeline cancelled');
+        }
+        lastError = error as Error;
+        continue;
+      }
+
+      if (response.status === 404) {
+        return null;
+      }
+      // The server dropped events we missed; retrying cannot close the gap
+      if (response.status === 410) {
+        throw new Error('Pipeline reconnect failed: missed events are no longer available');
+      }
+      if (response.ok) {
+        return response;
+      }
+      lastError = new Error(`Pipeline reconnect failed: ${response.status}`);
+    }
+
+    throw lastError || new Error('Pipeline reconnect failed');
+  }
+
   private isRetryableError(error: unknown): boolean {
     if (error instanceof Error) {
       const message = error.message.toLowerCase();
@@ -842,34 +964,73 @@ export class PipelineClient {
 // ═══════════════════════════════════════════════════════════════════════════
 
 interface PipelineRunWithInput extends PipelineRun {
-  _input: { problem: string; context?: string };
+  _input: RunInput;
 }
 
+/**
+ * Reopens a dropped stream after an event id; null if it is gone.
+ */
+type StreamReconnector = (serverRunId: string, lastEventId: number) => Promise<Response | null>;
+
 /**
  * Extended PipelineStreamResponse that intercepts events.
  * Used internally to feed events to PipelineRun's state tracking.
+ *
+ * If the connection drops before the server ends the stream, it reconnects
+ * with the last event id and continues with the replayed events.
  */
 class PipelineStreamResponseWithCallback extends PipelineStreamResponse {
-  private eventCallback: (event: PipelineEvent) => void;
+  private eventCallback: (event: PipelineEvent, id?: number) => void;
+  private reconnect: StreamReconnector;
+  /** Server run id, from `pipeline:start` (or `pipeline:resumed`) */
+  private serverRunId: string | null = null;
 
   constructor(
     response: Response,
     runId: string,
-    eventCallback: (event: PipelineEvent) => void
+    eventCallback: (event: PipelineEvent, id?: number) => void,
+    reconnect: StreamReconnector
   ) {
     super(response, runId);
     this.eventCallback = eventCallback;
+    this.reconnect = reconnect;
   }
 
   async processDataStream(options: ProcessDataStreamOptions): Promise<void> {
-    return super.processDataStream({
+    const handlers: ProcessDataStreamOptions = {
       onChunk: async (chunk) => {
+        const { payload } = chunk;
+        if (payload.type === 'pipeline:start' || payload.type === 'pipeline:resumed') {
+          this.serverRunId = payload.runId;
+        }
         // Feed to run's internal state tracking
-        this.eventCallback(chunk.payload);
+        this.eventCallback(chunk.payload, chunk.id);
         // Then invoke user's callback
         await options.onChunk(chunk);
       }
-    });
+    };
+
+    while (true) {
+      let dropped: unknown = null;
+      try {
+        await super.processDataStream(handlers);
+      } catch (error) {
+        dropped = error;
+      }
+
+      // Only streams with event ids can be resumed
+      const lastEventId = this.lastEventId;
+      if (this.isTerminated || lastEventId === undefined || !this.serverRunId) {
+        if (dropped) throw dropped;
+        return;
+      }
+
+      const response = await this.reconnect(this.serverRunId, lastEventId);
+      if (!response) {
+        throw dropped ?? new Error('Pipeline stream ended before the run finished');
+      }
+      this.response = response;
+    }
   }
 }
 
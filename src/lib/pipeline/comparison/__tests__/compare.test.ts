@@ -0,0 +1,143 @@
+/**
+ * Tests for ranking analyses side by side.
+ *
+ * @module pipeline/comparison/__tests__/compare.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareAssessments, type ComparisonItem } from '../compare';
+import type { AnalysisResult, DimensionAnalysis, DimensionScore, RiskFactor, Verdict } from '../../types';
+
+function dimension(id: string, score: DimensionScore, confidence = 0.8): DimensionAnalysis {
+  return {
+    id,
+    name: id.replace(/_/g, ' '),
+    score,
+    confidence,
+    weight: 0.8,
+    reasoning: '',
+    evidence: [],
+    infoGaps: [],
+    status: 'complete'
+  };
+}
+
+function risk(text: string, severity: RiskFactor['severity']): RiskFactor {
+  return { risk: text, severity, likelihood: 'medium', relatedDimensions: [] };
+}
+
+function item(
+  label: string,
+  verdict: Verdict,
+  overrides: Partial<AnalysisResult> = {}
+): ComparisonItem {
+  return {
+    label,
+    result: {
+      threadId: `run-${label}`,
+      problem: `Problem ${label}`,
+      verdict,
+      confidence: 0.8,
+      summary: '',
+      reasoning: '',
+      dimensions: [dimension('error_tolerance', 'neutral'), dimension('data_availability', 'neutral')],
+      keyFactors: [],
+      risks: [],
+      alternatives: [],
+      architecture: null,
+      questionsBeforeBuilding: [],
+      answeredQuestions: [],
+      durationMs: 1000,
+      ...overrides
+    }
+  };
+}
+
+describe('compareAssessments', () => {
+  it('should rank by verdict first', () => {
+    const comparison = compareAssessments([
+      item('A', 'WEAK_FIT'),
+      item('B', 'STRONG_FIT'),
+      item('C', 'CONDITIONAL')
+    ]);
+
+    expect(comparison.entries.map((e) => [e.rank, e.label])).toEqual([
+      [1, 'B'],
+      [2, 'C'],
+      [3, 'A']
+    ]);
+    expect(comparison.recommendation).toMatchObject({ threadId: 'run-B', closeCall: false });
+    expect(comparison.recommendation.rationale).toContain('more favorable verdict than C (CONDITIONAL)');
+  });
+
+  it('should break verdict ties on the weighted dimension score', () => {
+    const comparison = compareAssessments([
+      item('A', 'CONDITIONAL'),
+      item('B', 'CONDITIONAL', {
+        dimensions: [dimension('error_tolerance', 'favorable'), dimension('data_availability', 'favorable')]
+      })
+    ]);
+
+    expect(comparison.entries[0].label).toBe('B');
+    expect(comparison.entries[0].weightedScore).toBeGreaterThan(comparison.entries[1].weightedScore);
+    expect(comparison.recommendation.rationale).toContain('higher weighted dimension score');
+  });
+
+  it('should prefer fewer high-severity risks and flag close calls', () => {
+    const comparison = compareAssessments([
+      item('A', 'CONDITIONAL', { risks: [risk('Hallucinated prices', 'high'), risk('Drift', 'low')] }),
+      item('B', 'CONDITIONAL', { risks: [risk('Drift', 'medium')] })
+    ]);
+
+    expect(comparison.entries[0].label).toBe('B');
+    expect(comparison.recommendation.closeCall).toBe(true);
+    expect(comparison.entries[1].topRisks.map((r) => r.severity)).toEqual(['high', 'low']);
+  });
+
+  it('should line up dimensions across analyses, custom dimensions last', () => {
+    const comparison = compareAssessments([
+      item('A', 'CONDITIONAL', {
+        dimensions: [dimension('data_residency', 'unfavorable'), dimension('error_tolerance', 'favorable')]
+      }),
+      item('B', 'STRONG_FIT', { dimensions: [dimension('error_tolerance', 'neutral', 0.6)] })
+    ]);
+
+    expect(comparison.dimensions.map((d) => d.id)).toEqual(['error_tolerance', 'data_residency']);
+    expect(comparison.dimensions[0].cells).toEqual([
+      { score: 'neutral', confidence: 0.6 },
+      { score: 'favorable', confidence: 0.8 }
+    ]);
+    expect(comparison.dimensions[1]).toMatchObject({ custom: true, cells: [null, { score: 'unfavorable' }] });
+  });
+
+  it('should list alternatives lowest effort first', () => {
+    const alternative = (name: string, estimatedEffort: 'low' | 'medium' | 'high') => ({
+      name,
+      type: 'rule_based' as const,
+      description: '',
+      advantages: [],
+      disadvantages: [],
+      estimatedEffort,
+      whenToChoose: ''
+    });
+    const comparison = compareAssessments([
+      item('A', 'CONDITIONAL', { alternatives: [alternative('Rewrite', 'high'), alternative('Rules', 'low')] }),
+      item('B', 'WEAK_FIT')
+    ]);
+
+    expect(comparison.entries[0].alternatives.map((a) => a.name)).toEqual(['Rules', 'Rewrite']);
+  });
+
+  it('should warn when no candidate is a good fit', () => {
+    const comparison = compareAssessments([item('A', 'NOT_RECOMMENDED'), item('B', 'WEAK_FIT')]);
+
+    expect(comparison.recommendation.rationale).toContain('None of the candidates is a good AI fit');
+  });
+
+  it('should require between 2 and 4 analyses', () => {
+    expect(() => compareAssessments([item('A', 'STRONG_FIT')])).toThrow('between 2 and 4');
+    expect(() =>
+      compareAssessments(['A', 'B', 'C', 'D', 'E'].map((label) => item(label, 'CONDITIONAL')))
+    ).toThrow('got 5');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for diffing two analyses.
+ *
+ * @module pipeline/comparison/__tests__/diff.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAnalysisResults } from '../diff';
+import type { AnalysisResult, Alternative, DimensionAnalysis, DimensionScore, RiskFactor } from '../../types';
+
+function dimension(id: string, score: DimensionScore, confidence = 0.8, weight = 0.8): DimensionAnalysis {
+  return {
+    id,
+    name: id.replace(/_/g, ' '),
+    score,
+    confidence,
+    weight,
+    reasoning: '',
+    evidence: [],
+    infoGaps: [],
+    status: 'complete'
+  };
+}
+
+function risk(text: string): RiskFactor {
+  return { risk: text, severity: 'medium', likelihood: 'medium', relatedDimensions: [] };
+}
+
+function alternative(name: string): Alternative {
+  return {
+    name,
+    type: 'rule_based',
+    description: '',
+    advantages: [],
+    disadvantages: [],
+    estimatedEffort: 'low',
+    whenToChoose: ''
+  };
+}
+
+function result(overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return {
+    threadId: 'run-1',
+    problem: 'Problem',
+    verdict: 'CONDITIONAL',
+    confidence: 0.7,
+    summary: '',
+    reasoning: '',
+    dimensions: [dimension('error_tolerance', 'neutral'), dimension('data_availability', 'neutral')],
+    keyFactors: [],
+    risks: [risk('Hallucinated answers')],
+    alternatives: [alternative('Keyword rules')],
+    architecture: null,
+    questionsBeforeBuilding: [],
+    answeredQuestions: [],
+    durationMs: 1000,
+    ...overrides
+  };
+}
+
+describe('diffAnalysisResults', () => {
+  it('should report verdict and score changes', () => {
+    const diff = diffAnalysisResults(
+      result(),
+      result({
+        verdict: 'STRONG_FIT',
+        confidence: 0.85,
+        dimensions: [dimension('error_tolerance', 'favorable'), dimension('data_availability', 'neutral')]
+      })
+    );
+
+    expect(diff.changed).toBe(true);
+    expect(diff.verdict).toEqual({ before: 'CONDITIONAL', after: 'STRONG_FIT', changed: true });
+    expect(diff.confidence).toEqual({ before: 0.7, after: 0.85 });
+    expect(diff.dimensions.filter((d) => d.changed)).toEqual([
+      expect.objectContaining({ id: 'error_tolerance', before: 'neutral', after: 'favorable', scoreChanged: true })
+    ]);
+  });
+
+  it('should report confidence and weight changes with the same score', () => {
+    const diff = diffAnalysisResults(
+      result(),
+      result({ dimensions: [dimension('error_tolerance', 'neutral', 0.6, 1), dimension('data_availability', 'neutral')] })
+    );
+
+    expect(diff.changed).toBe(true);
+    expect(diff.dimensions[0]).toMatchObject({
+      scoreChanged: false,
+      changed: true,
+      confidenceBefore: 0.8,
+      confidenceAfter: 0.6,
+      weightBefore: 0.8,
+      weightAfter: 1
+    });
+  });
+
+  it('should list added and removed dimensions, risks and alternatives', () => {
+    const diff = diffAnalysisResults(
+      result(),
+      result({
+        dimensions: [dimension('error_tolerance', 'neutral'), dimension('rate_of_change', 'favorable')],
+        risks: [risk('  hallucinated answers '), risk('Stale training data')],
+        alternatives: [alternative('Human triage')]
+      })
+    );
+
+    expect(diff.dimensions.map((d) => [d.id, d.before, d.after])).toEqual([
+      ['error_tolerance', 'neutral', 'neutral'],
+      ['rate_of_change', null, 'favorable'],
+      ['data_availability', 'neutral', null]
+    ]);
+    expect(diff.risks.added.map((r) => r.risk)).toEqual(['Stale training data']);
+    expect(diff.risks.removed).toEqual([]);
+    expect(diff.alternatives.added.map((a) => a.name)).toEqual(['Human triage']);
+    expect(diff.alternatives.removed.map((a) => a.name)).toEqual(['Keyword rules']);
+  });
+
+  it('should report no change for identical results', () => {
+    const diff = diffAnalysisResults(result(), result());
+
+    expect(diff.changed).toBe(false);
+    expect(diff.dimensions.every((d) => !d.changed)).toBe(true);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Assessment Comparison
+ *
+ * Ranks several completed analyses of candidate problems so a team can
+ * pick one. Ranking is deterministic and lexicographic:
+ *
+ * 1. Verdict (STRONG_FIT first)
+ * 2. Weighted dimension score (the stored weighted verdict, or computed
+ *    from the dimensions with the result's industry weights)
+ * 3. Fewer high-severity risks
+ * 4. Higher verdict confidence
+ *
+ * The comparison also lines up per-dimension scores, the most severe
+ * risks and the effort of each alternative, and explains the top pick.
+ *
+ * @module pipeline/comparison/compare
+ */
+
+import { computeWeightedVerdict, verdictRank } from '../analyzers/weighted-verdict';
+import { getIndustryPreset } from '../presets';
+import { isBuiltInDimension } from '@/lib/dimensions';
+import type {
+  Alternative,
+  AnalysisResult,
+  DimensionId,
+  DimensionScore,
+  RiskFactor,
+  Verdict
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Maximum number of analyses compared at once */
+export const MAX_COMPARISON_ITEMS = 4;
+
+/** Number of risks listed per analysis */
+const TOP_RISK_COUNT = 3;
+
+/** Weighted scores closer than this are reported as a close call */
+const CLOSE_CALL_MARGIN = 0.1;
+
+/**
+ * A completed analysis to compare.
+ */
+export interface ComparisonItem {
+  /** Display label (e.g. the assessment title) */
+  label: string;
+  result: AnalysisResult;
+}
+
+/**
+ * One analysis in the ranked comparison.
+ */
+export interface ComparisonEntry {
+  /** 1-based rank */
+  rank: number;
+  label: string;
+  threadId: string;
+  problem: string;
+  verdict: Verdict;
+  confidence: number;
+  /** Weighted dimension score in [-1, 1] */
+  weightedScore: number;
+  highSeverityRisks: number;
+  /** Most severe risks first */
+  topRisks: RiskFactor[];
+  /** Alternatives, lowest effort first */
+  alternatives: Pick<Alternative, 'name' | 'type' | 'estimatedEffort'>[];
+  result: AnalysisResult;
+}
+
+/**
+ * Score of one dimension for one analysis.
+ */
+export interface ComparisonCell {
+  score: DimensionScore;
+  confidence: number;
+}
+
+/**
+ * One dimension across all compared analyses.
+ */
+export interface ComparisonDimensionRow {
+  id: DimensionId;
+  name: string;
+  custom: boolean;
+  /** One cell per entry, in rank order (null if that analysis lacks the dimension) */
+  cells: (ComparisonCell | null)[];
+}
+
+/**
+ * The recommended analysis and why.
+ */
+export interface ComparisonRecommendation {
+  threadId: string;
+  label: string;
+  rationale: string;
+  /** True when the runner-up has the same verdict and a similar score */
+  closeCall: boolean;
+}
+
+/**
+ * Side-by-side comparison of several analyses.
+ */
+export interface ComparisonResult {
+  /** Entries in rank order */
+  entries: ComparisonEntry[];
+  dimensions: ComparisonDimensionRow[];
+  recommendation: ComparisonRecommendation;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+const LEVEL_ORDER = { high: 0, medium: 1, low: 2 } as const;
+
+function weightedScoreOf(result: AnalysisResult): number {
+  if (result.weightedVerdict) {
+    return result.weightedVerdict.score;
+  }
+  const dimensions = Object.fromEntries(result.dimensions.map((d) => [d.id, d]));
+  return computeWeightedVerdict(dimensions, {
+    weightMultipliers: getIndustryPreset(result.industry)?.weightMultipliers ?? {}
+  }).score;
+}
+
+function toEntry(item: ComparisonItem): Omit<ComparisonEntry, 'rank'> {
+  const { result } = item;
+  const risks = [...result.risks].sort(
+    (a, b) =>
+      LEVEL_ORDER[a.severity] - LEVEL_ORDER[b.severity] ||
+      LEVEL_ORDER[a.likelihood] - LEVEL_ORDER[b.likelihood]
+  );
+
+  return {
+    label: item.label,
+    threadId: result.threadId,
+    problem: result.problem,
+    verdict: result.verdict,
+    confidence: result.confidence,
+    weightedScore: weightedScoreOf(result),
+    highSeverityRisks: risks.filter((r) => r.severity === 'high').length,
+    topRisks: risks.slice(0, TOP_RISK_COUNT),
+    alternatives: [...result.alternatives]
+      .sort((a, b) => LEVEL_ORDER[b.estimatedEffort] - LEVEL_ORDER[a.estimatedEffort])
+      .map(({ name, type, estimatedEffort }) => ({ name, type, estimatedEffort })),
+    result
+  };
+}
+
+function compareEntries(a: Omit<ComparisonEntry, 'rank'>, b: Omit<ComparisonEntry, 'rank'>): number {
+  return (
+    verdictRank(a.verdict) - verdictRank(b.verdict) ||
+    b.weightedScore - a.weightedScore ||
+    a.highSeverityRisks - b.highSeverityRisks ||
+    b.confidence - a.confidence
+  );
+}
+
+function buildDimensionRows(entries: ComparisonEntry[]): ComparisonDimensionRow[] {
+  const rows = new Map<DimensionId, ComparisonDimensionRow>();
+
+  entries.forEach((entry, column) => {
+    for (const dimension of entry.result.dimensions) {
+      let row = rows.get(dimension.id);
+      if (!row) {
+        row = {
+          id: dimension.id,
+          name: dimension.name,
+          custom: !isBuiltInDimension(dimension.id),
+          cells: entries.map(() => null)
+        };
+        rows.set(dimension.id, row);
+      }
+      row.cells[column] = { score: dimension.score, confidence: dimension.confidence };
+    }
+  });
+
+  // Built-in dimensions first, custom dimensions after
+  return [...rows.values()].sort((a, b) => Number(a.custom) - Number(b.custom));
+}
+
+function buildRecommendation(entries: ComparisonEntry[]): ComparisonRecommendation {
+  const [first, second] = entries;
+  const sentences = [
+    `${first.label} ranks first with a ${first.verdict} verdict (${Math.round(first.confidence * 100)}% confidence).`
+  ];
+
+  let closeCall = false;
+  if (verdictRank(first.verdict) < verdictRank(second.verdict)) {
+    sentences.push(`It has a more favorable verdict than ${second.label} (${second.verdict}).`);
+  } else {
+    const margin = first.weightedScore - second.weightedScore;
+    closeCall = margin < CLOSE_CALL_MARGIN;
+    if (margin > 0) {
+      sentences.push(
+        `It shares the ${first.verdict} verdict with ${second.label} but has a higher weighted dimension score (${first.weightedScore.toFixed(2)} vs ${second.weightedScore.toFixed(2)}).`
+      );
+    } else if (first.highSeverityRisks < second.highSeverityRisks) {
+      sentences.push(
+        `It ties ${second.label} on verdict and score but has fewer high-severity risks (${first.highSeverityRisks} vs ${second.highSeverityRisks}).`
+      );
+    } else {
+      sentences.push(`It ties ${second.label} on verdict, score and risks; confidence decides.`);
+    }
+    if (closeCall) {
+      sentences.push(`This is a close call: weigh effort and strategic fit between the two.`);
+    }
+  }
+
+  if (verdictRank(first.verdict) >= verdictRank('WEAK_FIT')) {
+    sentences.push('None of the candidates is a good AI fit; review the alternatives before committing.');
+  }
+
+  return {
+    threadId: first.threadId,
+    label: first.label,
+    rationale: sentences.join(' '),
+    closeCall
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPARISON
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Compares completed analyses and recommends one.
+ *
+ * @param items - Between 2 and MAX_COMPARISON_ITEMS analyses
+ * @returns Ranked entries, the dimension matrix and the recommendation
+ */
+export function compareAssessments(items: ComparisonItem[]): ComparisonResult {
+  if (items.length < 2 || items.length > MAX_COMPARISON_ITEMS) {
+    throw new Error(`Comparison needs between 2 and ${MAX_COMPARISON_ITEMS} analyses, got ${items.length}`);
+  }
+
+  // Array.prototype.sort is stable, so full ties keep their input order
+  const entries: ComparisonEntry[] = items
+    .map(toEntry)
+    .sort(compareEntries)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  return {
+    entries,
+    dimensions: buildDimensionRows(entries),
+    recommendation: buildRecommendation(entries)
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Assessment Diff
+ *
+ * Lines up two analyses of the same problem (an answer revision, or two
+ * versions of a re-run problem) and reports what changed: the verdict and
+ * confidence, each dimension's score, confidence and weight, and the risks
+ * and alternatives that were added or removed. Risks are matched by their
+ * text and alternatives by their name, ignoring case and surrounding space.
+ *
+ * @module pipeline/comparison/diff
+ */
+
+import type {
+  AnalysisResult,
+  Alternative,
+  DimensionId,
+  DimensionScore,
+  RiskFactor,
+  Verdict
+} from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * One dimension before and after. Values are null when the dimension is
+ * missing from that result.
+ */
+export interface DimensionChange {
+  id: DimensionId;
+  name: string;
+  before: DimensionScore | null;
+  after: DimensionScore | null;
+  confidenceBefore: number | null;
+  confidenceAfter: number | null;
+  weightBefore: number | null;
+  weightAfter: number | null;
+  /** True when the score differs */
+  scoreChanged: boolean;
+  /** True when the score, confidence or weight differs */
+  changed: boolean;
+}
+
+/**
+ * Items present in only one of the two results.
+ */
+export interface ListChange<T> {
+  added: T[];
+  removed: T[];
+}
+
+/**
+ * Differences between two analyses.
+ */
+export interface AnalysisDiff {
+  verdict: { before: Verdict; after: Verdict; changed: boolean };
+  confidence: { before: number; after: number };
+  /** Every dimension of either result, in the later result's order */
+  dimensions: DimensionChange[];
+  risks: ListChange<RiskFactor>;
+  alternatives: ListChange<Alternative>;
+  /** True when anything above changed */
+  changed: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function diffList<T>(before: T[], after: T[], key: (item: T) => string): ListChange<T> {
+  const beforeKeys = new Set(before.map((item) => normalize(key(item))));
+  const afterKeys = new Set(after.map((item) => normalize(key(item))));
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalize(key(item)))),
+    removed: before.filter((item) => !afterKeys.has(normalize(key(item))))
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIFF
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Compares two analyses.
+ *
+ * @param original - The earlier result
+ * @param revised - The later result
+ * @returns The differences
+ */
+export function diffAnalysisResults(original: AnalysisResult, revised: AnalysisResult): AnalysisDiff {
+  const before = new Map(original.dimensions.map((d) => [d.id, d]));
+  const after = new Map(revised.dimensions.map((d) => [d.id, d]));
+  const ids = [...new Set([...after.keys(), ...before.keys()])];
+
+  const dimensions = ids.map((id): DimensionChange => {
+    const b = before.get(id);
+    const a = after.get(id);
+    const scoreChanged = b?.score !== a?.score;
+    return {
+      id,
+      name: a?.name ?? b?.name ?? id,
+      before: b?.score ?? null,
+      after: a?.score ?? null,
+      confidenceBefore: b?.confidence ?? null,
+      confidenceAfter: a?.confidence ?? null,
+      weightBefore: b?.weight ?? null,
+      weightAfter: a?.weight ?? null,
+      scoreChanged,
+      changed: scoreChanged || b?.confidence !== a?.confidence || b?.weight !== a?.weight
+    };
+  });
+
+  const risks = diffList(original.risks, revised.risks, (r) => r.risk);
+  const alternatives = diffList(original.alternatives, revised.alternatives, (a) => a.name);
+  const verdictChanged = original.verdict !== revised.verdict;
+
+  return {
+    verdict: { before: original.verdict, after: revised.verdict, changed: verdictChanged },
+    confidence: { before: original.confidence, after: revised.confidence },
+    dimensions,
+    risks,
+    alternatives,
+    changed:
+      verdictChanged ||
+      original.confidence !== revised.confidence ||
+      dimensions.some((d) => d.changed) ||
+      [risks, alternatives].some((list) => list.added.length > 0 || list.removed.length > 0)
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Assessment comparison exports.
+ *
+ * @module pipeline/comparison
+ */
+
+export {
+  compareAssessments,
+  MAX_COMPARISON_ITEMS,
+  type ComparisonItem,
+  type ComparisonEntry,
+  type ComparisonCell,
+  type ComparisonDimensionRow,
+  type ComparisonRecommendation,
+  type ComparisonResult
+} from './compare';
+
+export {
+  diffAnalysisResults,
+  type AnalysisDiff,
+  type DimensionChange,
+  type ListChange
+} from './diff';
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the operating cost estimator.
+ *
+ * @module pipeline/cost/__tests__/estimator.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateCost, formatUsd } from '../estimator';
+import { MODEL_PRICING, PRICING_UPDATED, getModelPricing, requireModelPricing } from '../pricing';
+import { createInitialState, assembleResult } from '../../state';
+import { CostEstimateSchema } from '../../types';
+
+describe('Cost Estimator', () => {
+  describe('pricing table', () => {
+    it('should have unique ids and positive prices', () => {
+      const ids = MODEL_PRICING.map((entry) => entry.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      for (const entry of MODEL_PRICING) {
+        expect(entry.inputPerMillion).toBeGreaterThan(0);
+        expect(entry.outputPerMillion).toBeGreaterThan(0);
+      }
+    });
+
+    it('should look up models by id', () => {
+      expect(getModelPricing('openai/gpt-5-mini')?.label).toBe('GPT-5 mini');
+      expect(getModelPricing('acme/unknown')).toBeUndefined();
+      expect(() => requireModelPricing('acme/unknown')).toThrow('No pricing for model: acme/unknown');
+    });
+  });
+
+  describe('estimateCost', () => {
+    it('should split monthly cost into model spend and human review', () => {
+      const estimate = estimateCost({
+        requestsPerDay: 1000,
+        inputTokensPerRequest: 1000,
+        outputTokensPerRequest: 500,
+        reviewRate: 0.1,
+        model: 'anthropic/claude-sonnet-4.5'
+      });
+
+      // Per request: 1000 × $3/M + 500 × $15/M = $0.0105
+      expect(estimate.perRequestCost).toBe(0.0105);
+      expect(estimate.monthly).toEqual({
+        requests: 30000,
+        inputTokenCost: 90,
+        outputTokenCost: 225,
+        llmCost: 315,
+        reviewedItems: 3000,
+        // 3000 items × 2 min = 100 hours at $50
+        reviewHours: 100,
+        reviewCost: 5000,
+        total: 5315
+      });
+      expect(estimate.yearlyTotal).toBe(63780);
+      expect(estimate.pricingUpdated).toBe(PRICING_UPDATED);
+      expect(CostEstimateSchema.safeParse(estimate).success).toBe(true);
+    });
+
+    it('should apply defaults and reviewer overrides', () => {
+      const defaults = estimateCost({
+        requestsPerDay: 100,
+        inputTokensPerRequest: 100,
+        outputTokensPerRequest: 100,
+        reviewRate: 1
+      });
+      expect(defaults.model).toBe('anthropic/claude-sonnet-4.5');
+      expect(defaults.usage.reviewMinutesPerItem).toBe(2);
+      expect(defaults.usage.reviewerHourlyRate).toBe(50);
+
+      const custom = estimateCost({
+        requestsPerDay: 100,
+        inputTokensPerRequest: 100,
+        outputTokensPerRequest: 100,
+        reviewRate: 1,
+        reviewMinutesPerItem: 6,
+        reviewerHourlyRate: 20
+      });
+      // 3000 items × 6 min = 300 hours at $20
+      expect(custom.monthly.reviewCost).toBe(6000);
+    });
+
+    it('should price unknown models as the default and say so', () => {
+      const estimate = estimateCost({
+        requestsPerDay: 10,
+        inputTokensPerRequest: 100,
+        outputTokensPerRequest: 100,
+        reviewRate: 0,
+        model: 'acme/llm-9000'
+      });
+
+      expect(estimate.model).toBe('anthropic/claude-sonnet-4.5');
+      expect(estimate.assumptions[1]).toContain('No list price for acme/llm-9000');
+      expect(estimate.monthly.reviewCost).toBe(0);
+    });
+  });
+
+  describe('assembleResult', () => {
+    it('should attach a cost estimate only when usage was provided', () => {
+      const withoutUsage = assembleResult(createInitialState({ problem: 'Route tickets' }), 'run-1');
+      expect(withoutUsage.costEstimate).toBeUndefined();
+
+      const usage = {
+        requestsPerDay: 200,
+        inputTokensPerRequest: 800,
+        outputTokensPerRequest: 200,
+        reviewRate: 0.05
+      };
+      const withUsage = assembleResult(createInitialState({ problem: 'Route tickets', usage }), 'run-2');
+      expect(withUsage.costEstimate).toEqual(estimateCost(usage));
+    });
+  });
+
+  describe('formatUsd', () => {
+    it('should keep sub-dollar precision and drop cents on large amounts', () => {
+      expect(formatUsd(0.0105)).toBe('$0.0105');
+      expect(formatUsd(315)).toBe('$315.00');
+      expect(formatUsd(63780)).toBe('$63,780');
+      expect(formatUsd(0)).toBe('$0.00');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Operating cost estimator.
+ *
+ * Turns a usage profile (volume, tokens per request, review rate) into a
+ * monthly and yearly cost breakdown: model spend from the pricing table
+ * plus the human review the solution needs.
+ *
+ * @module pipeline/cost/estimator
+ */
+
+import type { CostEstimate, UsageProfile } from '../types';
+import {
+  DEFAULT_PRICED_MODEL,
+  PRICING_UPDATED,
+  getModelPricing,
+  requireModelPricing
+} from './pricing';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Minutes a reviewer spends per output when not specified */
+export const DEFAULT_REVIEW_MINUTES_PER_ITEM = 2;
+
+/** Reviewer cost in USD per hour when not specified */
+export const DEFAULT_REVIEWER_HOURLY_RATE = 50;
+
+const DAYS_PER_MONTH = 30;
+const MONTHS_PER_YEAR = 12;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ESTIMATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rounds to whole cents.
+ */
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Estimates the monthly and yearly operating cost of a usage profile.
+ *
+ * Models missing from the pricing table are priced as the default model,
+ * and the substitution is listed in the assumptions.
+ *
+ * @param profile - Expected usage
+ * @returns Cost breakdown with the assumptions behind it
+ *
+ * @example
+ * ```ts
+ * const estimate = estimateCost({
+ *   requestsPerDay: 500,
+ *   inputTokensPerRequest: 800,
+ *   outputTokensPerRequest: 200,
+ *   reviewRate: 0.1
+ * });
+ * estimate.monthly.total; // model spend + review cost in USD
+ * ```
+ */
+export function estimateCost(profile: UsageProfile): CostEstimate {
+  const requestedModel = profile.model ?? DEFAULT_PRICED_MODEL;
+  const pricing = getModelPricing(requestedModel) ?? requireModelPricing(DEFAULT_PRICED_MODEL);
+
+  const usage: Required<UsageProfile> = {
+    requestsPerDay: profile.requestsPerDay,
+    inputTokensPerRequest: profile.inputTokensPerRequest,
+    outputTokensPerRequest: profile.outputTokensPerRequest,
+    reviewRate: profile.reviewRate,
+    model: pricing.id,
+    reviewMinutesPerItem: profile.reviewMinutesPerItem ?? DEFAULT_REVIEW_MINUTES_PER_ITEM,
+    reviewerHourlyRate: profile.reviewerHourlyRate ?? DEFAULT_REVIEWER_HOURLY_RATE
+  };
+
+  const inputCostPerRequest = (usage.inputTokensPerRequest * pricing.inputPerMillion) / 1_000_000;
+  const outputCostPerRequest = (usage.outputTokensPerRequest * pricing.outputPerMillion) / 1_000_000;
+
+  const requests = usage.requestsPerDay * DAYS_PER_MONTH;
+  const inputTokenCost = requests * inputCostPerRequest;
+  const outputTokenCost = requests * outputCostPerRequest;
+  const reviewedItems = requests * usage.reviewRate;
+  const reviewHours = (reviewedItems * usage.reviewMinutesPerItem) / 60;
+  const reviewCost = reviewHours * usage.reviewerHourlyRate;
+  const total = inputTokenCost + outputTokenCost + reviewCost;
+
+  const assumptions = [
+    `${usage.requestsPerDay} requests/day at ${usage.inputTokensPerRequest} input and ${usage.outputTokensPerRequest} output tokens each`,
+    `${pricing.label} list prices: $${pricing.inputPerMillion}/M input, $${pricing.outputPerMillion}/M output tokens (as of ${PRICING_UPDATED})`,
+    `${Math.round(usage.reviewRate * 100)}% of outputs reviewed at ${usage.reviewMinutesPerItem} min each, $${usage.reviewerHourlyRate}/hour`,
+    `${DAYS_PER_MONTH}-day months; no caching, batch or volume discounts; retries not included`
+  ];
+  if (pricing.id !== requestedModel) {
+    assumptions.splice(1, 0, `No list price for ${requestedModel}; priced as ${pricing.label}`);
+  }
+
+  return {
+    model: pricing.id,
+    modelLabel: pricing.label,
+    pricing: {
+      inputPerMillion: pricing.inputPerMillion,
+      outputPerMillion: pricing.outputPerMillion
+    },
+    usage,
+    perRequestCost: Math.round((inputCostPerRequest + outputCostPerRequest) * 1_000_000) / 1_000_000,
+    monthly: {
+      requests,
+      inputTokenCost: toCents(inputTokenCost),
+      outputTokenCost: toCents(outputTokenCost),
+      llmCost: toCents(inputTokenCost + outputTokenCost),
+      reviewedItems: Math.round(reviewedItems),
+      reviewHours: Math.round(reviewHours * 10) / 10,
+      reviewCost: toCents(reviewCost),
+      total: toCents(total)
+    },
+    yearlyTotal: toCents(total * MONTHS_PER_YEAR),
+    assumptions,
+    pricingUpdated: PRICING_UPDATED
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Formats a USD amount for reports: sub-dollar amounts keep up to four
+ * decimals (per-request costs), large amounts drop the cents.
+ */
+export function formatUsd(value: number): string {
+  const digits = value !== 0 && Math.abs(value) < 1 ? 4 : Math.abs(value) >= 10_000 ? 0 : 2;
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: Math.min(digits, 2),
+    maximumFractionDigits: digits
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Cost estimation exports.
+ *
+ * @module pipeline/cost
+ */
+
+export {
+  MODEL_PRICING,
+  PRICING_UPDATED,
+  DEFAULT_PRICED_MODEL,
+  getModelPricing,
+  requireModelPricing,
+  type ModelPricing
+} from './pricing';
+
+export {
+  estimateCost,
+  formatUsd,
+  DEFAULT_REVIEW_MINUTES_PER_ITEM,
+  DEFAULT_REVIEWER_HOURLY_RATE
+} from './estimator';
@@ -0,0 +1,81 @@
+/**
+ * Model pricing table.
+ *
+ * List prices for common hosted models, keyed by the same
+ * `provider/model` ids the model registry accepts. Used by the cost
+ * estimator and the `estimate_llm_cost` tool.
+ *
+ * @module pipeline/cost/pricing
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * List price of a model in USD per million tokens.
+ */
+export interface ModelPricing {
+  /** Gateway model id (e.g. 'anthropic/claude-sonnet-4.5') */
+  id: string;
+  /** Display name */
+  label: string;
+  /** USD per million input tokens */
+  inputPerMillion: number;
+  /** USD per million output tokens */
+  outputPerMillion: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRICING TABLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Date the prices below were last checked (ISO) */
+export const PRICING_UPDATED = '2026-01-15';
+
+/**
+ * List prices of common models. Update together with PRICING_UPDATED when
+ * provider prices change.
+ */
+export const MODEL_PRICING: readonly ModelPricing[] = [
+  { id: 'anthropic/claude-haiku-4.5', label: 'Claude Haiku 4.5', inputPerMillion: 1.0, outputPerMillion: 5.0 },
+  { id: 'anthropic/claude-sonnet-4.5', label: 'Claude Sonnet 4.5', inputPerMillion: 3.0, outputPerMillion: 15.0 },
+  { id: 'anthropic/claude-opus-4.5', label: 'Claude Opus 4.5', inputPerMillion: 5.0, outputPerMillion: 25.0 },
+  { id: 'openai/gpt-5', label: 'GPT-5', inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  { id: 'openai/gpt-5-mini', label: 'GPT-5 mini', inputPerMillion: 0.25, outputPerMillion: 2.0 },
+  { id: 'openai/gpt-4o', label: 'GPT-4o', inputPerMillion: 2.5, outputPerMillion: 10.0 },
+  { id: 'google/gemini-2.5-pro', label: 'Gemini 2.5 Pro', inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  { id: 'google/gemini-2.5-flash', label: 'Gemini 2.5 Flash', inputPerMillion: 0.3, outputPerMillion: 2.5 }
+];
+
+/** Model priced when the usage profile does not name one */
+export const DEFAULT_PRICED_MODEL = 'anthropic/claude-sonnet-4.5';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOOKUP
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Look up the list price of a model.
+ *
+ * @param modelId - Gateway model id
+ * @returns Pricing entry, or undefined if the model is not in the table
+ */
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  return MODEL_PRICING.find((entry) => entry.id === modelId);
+}
+
+/**
+ * Look up the list price of a model that must be in the table.
+ *
+ * @param modelId - Gateway model id
+ * @returns Pricing entry
+ * @throws Error if the model is not in the table
+ */
+export function requireModelPricing(modelId: string): ModelPricing {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) {
+    throw new Error(`No pricing for model: ${modelId}`);
+  }
+  return pricing;
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for architecture diagram generation and layout.
+ *
+ * @module pipeline/diagram/__tests__/architecture-diagram.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildArchitectureDiagram,
+  toMermaid,
+  layoutDiagram,
+  wrapLabel,
+  type DiagramSource
+} from '../index';
+
+const architecture: DiagramSource = {
+  components: ['Prompt template', 'Confidence scoring'],
+  humanInLoop: true,
+  confidenceThreshold: 0.85,
+  dataFlow: 'Ticket → classifier → queue or review',
+  guardrails: ['Route low-confidence tickets to a human'],
+  monitoringNeeds: ['Misroute rate per queue']
+};
+
+function edgeList(source: DiagramSource): string[] {
+  return buildArchitectureDiagram(source).edges.map(
+    (e) => `${e.from}->${e.to}${e.label ? ` (${e.label})` : ''}`
+  );
+}
+
+describe('buildArchitectureDiagram', () => {
+  it('should route low-confidence output through human review', () => {
+    expect(edgeList(architecture)).toEqual([
+      'input->component1',
+      'component1->component2',
+      'component2->guardrails',
+      'guardrails->gate',
+      'gate->output (yes)',
+      'gate->review (no)',
+      'review->output (approved)',
+      'output->monitoring'
+    ]);
+  });
+
+  it('should send rejected output to a fallback without human review', () => {
+    expect(edgeList({ ...architecture, humanInLoop: false })).toContain('gate->fallback (no)');
+  });
+
+  it('should review every output when there is no threshold', () => {
+    expect(edgeList({ components: ['Classifier'], humanInLoop: true })).toEqual([
+      'input->component1',
+      'component1->review',
+      'review->output'
+    ]);
+  });
+
+  it('should connect input to output when there are no components', () => {
+    expect(edgeList({ components: [], humanInLoop: false })).toEqual(['input->output']);
+  });
+
+  it('should list at most four guardrails on the node', () => {
+    const diagram = buildArchitectureDiagram({
+      ...architecture,
+      guardrails: ['a', 'b', 'c', 'd', 'e']
+    });
+
+    expect(diagram.nodes.find((n) => n.id === 'guardrails')?.details).toEqual(['a', 'b', 'c', '+2 more']);
+  });
+});
+
+describe('toMermaid', () => {
+  it('should serialize nodes, edges and node styles', () => {
+    const mermaid = toMermaid(buildArchitectureDiagram(architecture));
+
+    expect(mermaid.split('\n')[0]).toBe('flowchart TD');
+    expect(mermaid).toContain('  accDescr: Ticket → classifier → queue or review');
+    expect(mermaid).toContain('  input(["Input"])');
+    expect(mermaid).toContain('  gate{"Confidence >= 85%?"}');
+    expect(mermaid).toContain('  review[/"Human review"\\]');
+    expect(mermaid).toContain('  guardrails{{"Guardrails<br/>Route low-confidence tickets to a human"}}');
+    expect(mermaid).toContain('  gate -->|no| review');
+    expect(mermaid).toContain('  output -.-> monitoring');
+    expect(mermaid).toContain('  class input,output terminal');
+  });
+
+  it('should escape quotes and line breaks in labels', () => {
+    const mermaid = toMermaid(
+      buildArchitectureDiagram({ components: ['The "router"\nstep'], humanInLoop: false })
+    );
+
+    expect(mermaid).toContain('  component1["The #quot;router#quot; step"]');
+  });
+});
+
+describe('layoutDiagram', () => {
+  const layout = layoutDiagram(buildArchitectureDiagram(architecture));
+  const node = (id: string) => layout.nodes.find((n) => n.id === id)!;
+
+  it('should place each node below its predecessors', () => {
+    for (const edge of layout.edges) {
+      expect(node(edge.to).y).toBeGreaterThan(node(edge.from).y);
+    }
+  });
+
+  it('should route arrows that skip a row beside the nodes in between', () => {
+    const yes = layout.edges.find((e) => e.from === 'gate' && e.to === 'output')!;
+    const review = node('review');
+
+    const [, enter, leave] = yes.points;
+    expect(yes.points).toHaveLength(4);
+    expect(enter.x).toBe(leave.x);
+    expect(enter.y).toBeLessThanOrEqual(review.y);
+    expect(leave.y).toBeGreaterThanOrEqual(review.y + review.height);
+    expect(enter.x < review.x || enter.x > review.x + review.width).toBe(true);
+  });
+
+  it('should keep nodes in the same row from overlapping', () => {
+    for (const a of layout.nodes) {
+      for (const b of layout.nodes) {
+        if (a === b || a.y + a.height <= b.y || b.y + b.height <= a.y) continue;
+        expect(a.x + a.width <= b.x || b.x + b.width <= a.x).toBe(true);
+      }
+    }
+  });
+
+  it('should fit every node inside the diagram', () => {
+    for (const n of layout.nodes) {
+      expect(n.x).toBeGreaterThanOrEqual(0);
+      expect(n.x + n.width).toBeLessThanOrEqual(layout.width);
+      expect(n.y + n.height).toBeLessThanOrEqual(layout.height);
+    }
+  });
+});
+
+describe('wrapLabel', () => {
+  it('should wrap at word boundaries', () => {
+    expect(wrapLabel('Retrieval augmented generation over the ticket archive', 20)).toEqual([
+      'Retrieval augmented',
+      'generation over the',
+      'ticket archive'
+    ]);
+  });
+
+  it('should truncate text beyond the line limit', () => {
+    expect(wrapLabel('one two three four five six', 9, 2)).toEqual(['one two', 'three fo…']);
+  });
+});
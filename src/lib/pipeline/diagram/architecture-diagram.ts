@@ -0,0 +1,251 @@
+/**
+ * Architecture diagram builder.
+ *
+ * Turns a recommended architecture into a flowchart graph: the input passes
+ * through each component and the guardrails, a confidence gate decides
+ * whether the output ships automatically, and low-confidence results go to
+ * human review (or a fallback). The same graph is serialized to Mermaid and
+ * laid out for the results view and the PDF, so all three always match.
+ *
+ * @module pipeline/diagram/architecture-diagram
+ */
+
+import type { RecommendedArchitecture } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * What a node represents, which also decides its shape.
+ * - terminal: where data enters or leaves the system
+ * - component: a processing step
+ * - guardrail: the safety checks applied to every request
+ * - gate: the confidence threshold decision
+ * - human: a human-in-the-loop checkpoint
+ * - fallback: what happens to rejected output without human review
+ * - monitor: what is tracked once the system is live
+ */
+export type DiagramNodeKind =
+  | 'terminal'
+  | 'component'
+  | 'guardrail'
+  | 'gate'
+  | 'human'
+  | 'fallback'
+  | 'monitor';
+
+/**
+ * A box in the diagram.
+ */
+export interface DiagramNode {
+  /** Stable identifier, also used as the Mermaid node id */
+  id: string;
+  /** Shape and color */
+  kind: DiagramNodeKind;
+  /** Main label */
+  title: string;
+  /** Extra lines shown under the title (guardrails, metrics) */
+  details: string[];
+}
+
+/**
+ * An arrow between two nodes.
+ */
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  /** Short label such as the gate outcome */
+  label?: string;
+  /** Drawn dashed for relationships that are not part of the request path */
+  dashed?: boolean;
+}
+
+/**
+ * Flowchart of a recommended architecture.
+ */
+export interface ArchitectureDiagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  /** How data flows through the system, in the analyzer's words */
+  description?: string;
+}
+
+/** The architecture fields the diagram is built from */
+export type DiagramSource = Pick<
+  RecommendedArchitecture,
+  'components' | 'humanInLoop' | 'confidenceThreshold' | 'dataFlow' | 'guardrails' | 'monitoringNeeds'
+>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GRAPH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Most guardrails or metrics listed on a node before the rest are counted */
+const MAX_DETAILS = 4;
+
+function listDetails(items: string[]): string[] {
+  if (items.length <= MAX_DETAILS) return items;
+  return [...items.slice(0, MAX_DETAILS - 1), `+${items.length - MAX_DETAILS + 1} more`];
+}
+
+/**
+ * Builds the flowchart graph for an architecture.
+ *
+ * Components are chained in the order the analyzer listed them. The gate only
+ * appears with a confidence threshold, the review checkpoint only with
+ * human-in-the-loop, and the monitoring node only with monitoring needs.
+ *
+ * @param architecture - The recommended architecture
+ * @returns Nodes and edges, in request-path order
+ */
+export function buildArchitectureDiagram(architecture: DiagramSource): ArchitectureDiagram {
+  const nodes: DiagramNode[] = [];
+  const edges: DiagramEdge[] = [];
+
+  const add = (node: Omit<DiagramNode, 'details'> & { details?: string[] }): string => {
+    nodes.push({ details: [], ...node });
+    return node.id;
+  };
+
+  let previous = add({ id: 'input', kind: 'terminal', title: 'Input' });
+  const next = (id: string) => {
+    edges.push({ from: previous, to: id });
+    previous = id;
+  };
+
+  architecture.components.forEach((component, i) => {
+    next(add({ id: `component${i + 1}`, kind: 'component', title: component }));
+  });
+
+  const guardrails = architecture.guardrails ?? [];
+  if (guardrails.length > 0) {
+    next(add({ id: 'guardrails', kind: 'guardrail', title: 'Guardrails', details: listDetails(guardrails) }));
+  }
+
+  const output = 'output';
+  const addReview = () => add({ id: 'review', kind: 'human', title: 'Human review' });
+
+  if (architecture.confidenceThreshold !== undefined) {
+    const percent = Math.round(architecture.confidenceThreshold * 100);
+    next(add({ id: 'gate', kind: 'gate', title: `Confidence >= ${percent}%?` }));
+
+    const rejected = architecture.humanInLoop
+      ? addReview()
+      : add({ id: 'fallback', kind: 'fallback', title: 'Fallback' });
+    edges.push({ from: previous, to: output, label: 'yes' });
+    edges.push({ from: previous, to: rejected, label: 'no' });
+    if (architecture.humanInLoop) edges.push({ from: rejected, to: output, label: 'approved' });
+  } else {
+    // Without a threshold every output is reviewed
+    if (architecture.humanInLoop) next(addReview());
+    edges.push({ from: previous, to: output });
+  }
+
+  add({ id: output, kind: 'terminal', title: 'Output' });
+
+  const monitoringNeeds = architecture.monitoringNeeds ?? [];
+  if (monitoringNeeds.length > 0) {
+    add({ id: 'monitoring', kind: 'monitor', title: 'Monitoring', details: listDetails(monitoringNeeds) });
+    edges.push({ from: output, to: 'monitoring', dashed: true });
+  }
+
+  return {
+    nodes,
+    edges,
+    ...(architecture.dataFlow && { description: architecture.dataFlow })
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MERMAID
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Mermaid shape brackets per node kind */
+const MERMAID_SHAPES: Record<DiagramNodeKind, [string, string]> = {
+  terminal: ['([', '])'],
+  component: ['[', ']'],
+  guardrail: ['{{', '}}'],
+  gate: ['{', '}'],
+  human: ['[/', '\\]'],
+  fallback: ['[', ']'],
+  monitor: ['[/', '/]']
+};
+
+/**
+ * Fill, border and text colors per node kind.
+ *
+ * Shared by the Mermaid class definitions, the results view and the PDF so
+ * an exported diagram looks the same everywhere.
+ */
+export const DIAGRAM_COLORS: Record<DiagramNodeKind, { fill: string; stroke: string; text: string }> = {
+  terminal: { fill: '#f1f5f9', stroke: '#64748b', text: '#0f172a' },
+  component: { fill: '#eef2ff', stroke: '#6366f1', text: '#1e1b4b' },
+  guardrail: { fill: '#ecfeff', stroke: '#0891b2', text: '#164e63' },
+  gate: { fill: '#fffbeb', stroke: '#d97706', text: '#78350f' },
+  human: { fill: '#fef3c7', stroke: '#b45309', text: '#78350f' },
+  fallback: { fill: '#fef2f2', stroke: '#dc2626', text: '#7f1d1d' },
+  monitor: { fill: '#ecfdf5', stroke: '#059669', text: '#064e3b' }
+};
+
+/**
+ * Escapes text for a quoted Mermaid label.
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Serializes a diagram as a Mermaid flowchart.
+ *
+ * @param diagram - The diagram graph
+ * @returns Mermaid source, top to bottom
+ *
+ * @example
+ * ```ts
+ * toMermaid(buildArchitectureDiagram(architecture));
+ * // flowchart TD
+ * //   input(["Input"])
+ * //   component1["Prompt template"]
+ * //   ...
+ * ```
+ */
+export function toMermaid(diagram: ArchitectureDiagram): string {
+  const lines = ['flowchart TD'];
+
+  if (diagram.description) {
+    lines.push(`  accDescr: ${escapeMermaid(diagram.description)}`);
+  }
+
+  for (const node of diagram.nodes) {
+    const [open, close] = MERMAID_SHAPES[node.kind];
+    const label = [node.title, ...node.details].map(escapeMermaid).join('<br/>');
+    lines.push(`  ${node.id}${open}"${label}"${close}`);
+  }
+
+  for (const edge of diagram.edges) {
+    const arrow = edge.dashed ? '-.->' : '-->';
+    const label = edge.label ? `|${escapeMermaid(edge.label)}|` : '';
+    lines.push(`  ${edge.from} ${arrow}${label} ${edge.to}`);
+  }
+
+  const kinds = [...new Set(diagram.nodes.map((n) => n.kind))];
+  for (const kind of kinds) {
+    const { fill, stroke, text } = DIAGRAM_COLORS[kind];
+    lines.push(`  classDef ${kind} fill:${fill},stroke:${stroke},color:${text}`);
+    const ids = diagram.nodes.filter((n) => n.kind === kind).map((n) => n.id);
+    lines.push(`  class ${ids.join(',')} ${kind}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Builds the Mermaid flowchart for an architecture.
+ *
+ * @param architecture - The recommended architecture
+ * @returns Mermaid source
+ */
+export function architectureToMermaid(architecture: DiagramSource): string {
+  return toMermaid(buildArchitectureDiagram(architecture));
+}
@@ -0,0 +1,32 @@
+/**
+ * Architecture diagram exports.
+ *
+ * @module pipeline/diagram
+ */
+
+export {
+  buildArchitectureDiagram,
+  toMermaid,
+  architectureToMermaid,
+  DIAGRAM_COLORS,
+  type DiagramNodeKind,
+  type DiagramNode,
+  type DiagramEdge,
+  type ArchitectureDiagram,
+  type DiagramSource
+} from './architecture-diagram';
+
+export {
+  layoutDiagram,
+  wrapLabel,
+  nodeOutline,
+  nodeCornerRadius,
+  arrowHead,
+  edgeLabelPosition,
+  DIAGRAM_NODE_WIDTH,
+  DIAGRAM_LINE_HEIGHT,
+  type Point,
+  type PositionedNode,
+  type PositionedEdge,
+  type DiagramLayout
+} from './layout';
@@ -0,0 +1,280 @@
+/**
+ * Architecture diagram layout.
+ *
+ * Places diagram nodes in top-to-bottom rows so the results view and the PDF
+ * can draw the flowchart without a Mermaid runtime. Each node sits one row
+ * below its furthest predecessor; arrows that skip rows run through a lane
+ * beside the nodes in between.
+ *
+ * @module pipeline/diagram/layout
+ */
+
+import type { ArchitectureDiagram, DiagramEdge, DiagramNode } from './architecture-diagram';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A node with its box. `x` and `y` are the top-left corner.
+ */
+export interface PositionedNode extends DiagramNode {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Title wrapped to the node width, followed by the details */
+  lines: string[];
+  /** How many of `lines` belong to the title */
+  titleLines: number;
+}
+
+/**
+ * An edge with the polyline it is drawn along, from the source's bottom
+ * edge to the target's top edge.
+ */
+export interface PositionedEdge extends DiagramEdge {
+  points: Point[];
+}
+
+/**
+ * A diagram ready to draw.
+ */
+export interface DiagramLayout {
+  width: number;
+  height: number;
+  nodes: PositionedNode[];
+  edges: PositionedEdge[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIMENSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DIAGRAM_NODE_WIDTH = 200;
+export const DIAGRAM_LINE_HEIGHT = 14;
+const NODE_PADDING = 10;
+/** Extra height a gate needs so its label fits inside the diamond */
+const GATE_EXTRA_HEIGHT = 28;
+const MAX_TITLE_LINES = 3;
+const CHARS_PER_LINE = 28;
+const ROW_GAP = 36;
+const COLUMN_GAP = 32;
+/** Width reserved for an arrow passing through a row */
+const PASS_THROUGH_WIDTH = 16;
+const MARGIN = 16;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TEXT
+// ═══════════════════════════════════════════════════════════════════════════
+
+function truncate(text: string, length: number): string {
+  return text.length <= length ? text : `${text.slice(0, length - 1)}…`;
+}
+
+/**
+ * Wraps text at word boundaries, truncating the last line when it runs long.
+ */
+export function wrapLabel(text: string, charsPerLine = CHARS_PER_LINE, maxLines = MAX_TITLE_LINES): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= charsPerLine || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = truncate(`${kept[maxLines - 1]} ${lines[maxLines]}`, charsPerLine);
+    return kept.map((line) => truncate(line, charsPerLine));
+  }
+  return lines.map((line) => truncate(line, charsPerLine));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LAYOUT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Assigns each node the row below its furthest predecessor.
+ */
+function assignRows(diagram: ArchitectureDiagram): Map<string, number> {
+  const rows = new Map(diagram.nodes.map((n) => [n.id, 0]));
+  const incoming = new Map(diagram.nodes.map((n) => [n.id, 0]));
+  for (const edge of diagram.edges) incoming.set(edge.to, (incoming.get(edge.to) ?? 0) + 1);
+
+  const ready = diagram.nodes.filter((n) => incoming.get(n.id) === 0).map((n) => n.id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    for (const edge of diagram.edges.filter((e) => e.from === id)) {
+      rows.set(edge.to, Math.max(rows.get(edge.to) ?? 0, (rows.get(id) ?? 0) + 1));
+      const remaining = (incoming.get(edge.to) ?? 0) - 1;
+      incoming.set(edge.to, remaining);
+      if (remaining === 0) ready.push(edge.to);
+    }
+  }
+
+  return rows;
+}
+
+/** A slot in a row: a node, or a lane an arrow passes through */
+type Slot = { node: PositionedNode } | { edge: number; width: number; x: number; top: number; bottom: number };
+
+/**
+ * Lays out a diagram top to bottom.
+ *
+ * @param diagram - The diagram graph
+ * @returns Node boxes, edge polylines and the overall size
+ */
+export function layoutDiagram(diagram: ArchitectureDiagram): DiagramLayout {
+  const rowOf = assignRows(diagram);
+  const rowCount = Math.max(0, ...rowOf.values()) + 1;
+  const rows: Slot[][] = Array.from({ length: rowCount }, () => []);
+
+  const nodes = new Map<string, PositionedNode>();
+  for (const node of diagram.nodes) {
+    const title = wrapLabel(node.title);
+    const details = node.details.map((d) => truncate(d, CHARS_PER_LINE + 4));
+    const lines = [...title, ...details];
+    const height =
+      lines.length * DIAGRAM_LINE_HEIGHT + NODE_PADDING * 2 + (node.kind === 'gate' ? GATE_EXTRA_HEIGHT : 0);
+
+    const positioned = { ...node, x: 0, y: 0, width: DIAGRAM_NODE_WIDTH, height, lines, titleLines: title.length };
+    nodes.set(node.id, positioned);
+    rows[rowOf.get(node.id) ?? 0].push({ node: positioned });
+  }
+
+  // Arrows that skip rows reserve a slot in each row they cross, placed
+  // before the nodes so the main path stays on the left
+  diagram.edges.forEach((edge, index) => {
+    const from = rowOf.get(edge.from) ?? 0;
+    const to = rowOf.get(edge.to) ?? 0;
+    for (let row = from + 1; row < to; row++) {
+      rows[row].unshift({ edge: index, width: PASS_THROUGH_WIDTH, x: 0, top: 0, bottom: 0 });
+    }
+  });
+
+  const slotWidth = (slot: Slot) => ('node' in slot ? slot.node.width : slot.width);
+  const rowWidths = rows.map(
+    (row) => row.reduce((sum, slot) => sum + slotWidth(slot), 0) + COLUMN_GAP * Math.max(0, row.length - 1)
+  );
+  const width = Math.max(DIAGRAM_NODE_WIDTH, ...rowWidths) + MARGIN * 2;
+
+  let y = MARGIN;
+  rows.forEach((row, i) => {
+    const rowHeight = Math.max(
+      DIAGRAM_LINE_HEIGHT,
+      ...row.map((slot) => ('node' in slot ? slot.node.height : 0))
+    );
+    let x = (width - rowWidths[i]) / 2;
+
+    for (const slot of row) {
+      if ('node' in slot) {
+        slot.node.x = x;
+        slot.node.y = y + (rowHeight - slot.node.height) / 2;
+      } else {
+        slot.x = x + slot.width / 2;
+        slot.top = y;
+        slot.bottom = y + rowHeight;
+      }
+      x += slotWidth(slot) + COLUMN_GAP;
+    }
+    y += rowHeight + ROW_GAP;
+  });
+  const height = y - ROW_GAP + MARGIN;
+
+  const edges: PositionedEdge[] = diagram.edges.map((edge, index) => {
+    const source = nodes.get(edge.from)!;
+    const target = nodes.get(edge.to)!;
+    const passThrough = rows
+      .flat()
+      .filter((slot): slot is Extract<Slot, { edge: number }> => 'edge' in slot && slot.edge === index)
+      .flatMap(({ x, top, bottom }) => [
+        { x, y: top },
+        { x, y: bottom }
+      ]);
+
+    return {
+      ...edge,
+      points: [
+        { x: source.x + source.width / 2, y: source.y + source.height },
+        ...passThrough,
+        { x: target.x + target.width / 2, y: target.y }
+      ]
+    };
+  });
+
+  return { width, height, nodes: [...nodes.values()], edges };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DRAWING HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Outline of a node's shape as SVG polygon points, or null for a rectangle.
+ */
+export function nodeOutline(node: PositionedNode): string | null {
+  const { x, y, width, height } = node;
+  const inset = 12;
+
+  switch (node.kind) {
+    case 'gate':
+      return `${x + width / 2},${y} ${x + width},${y + height / 2} ${x + width / 2},${y + height} ${x},${y + height / 2}`;
+    case 'guardrail':
+      return `${x + inset},${y} ${x + width - inset},${y} ${x + width},${y + height / 2} ${x + width - inset},${y + height} ${x + inset},${y + height} ${x},${y + height / 2}`;
+    case 'human':
+      return `${x + inset},${y} ${x + width - inset},${y} ${x + width},${y + height} ${x},${y + height}`;
+    case 'monitor':
+      return `${x + inset},${y} ${x + width},${y} ${x + width - inset},${y + height} ${x},${y + height}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Corner radius of rectangular nodes: terminals are drawn as pills.
+ */
+export function nodeCornerRadius(node: PositionedNode): number {
+  return node.kind === 'terminal' ? node.height / 2 : 6;
+}
+
+/**
+ * Arrowhead at the end of an edge as SVG polygon points.
+ */
+export function arrowHead(points: Point[], size = 7): string {
+  const tip = points[points.length - 1];
+  const before = points[points.length - 2];
+  const angle = Math.atan2(tip.y - before.y, tip.x - before.x);
+  const left = {
+    x: tip.x - size * Math.cos(angle - Math.PI / 6),
+    y: tip.y - size * Math.sin(angle - Math.PI / 6)
+  };
+  const right = {
+    x: tip.x - size * Math.cos(angle + Math.PI / 6),
+    y: tip.y - size * Math.sin(angle + Math.PI / 6)
+  };
+  return `${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+/**
+ * Where to draw an edge label: the middle of its first segment.
+ */
+export function edgeLabelPosition(points: Point[]): Point {
+  return {
+    x: (points[0].x + points[1].x) / 2,
+    y: (points[0].y + points[1].y) / 2
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for evaluation metrics.
+ *
+ * @module pipeline/evaluation/__tests__/metrics.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createConfusionMatrix,
+  computeCalibration,
+  computeCaseConsistency,
+  buildEvaluationReport
+} from '../metrics';
+import { GoldenDatasetSchema, type CaseRunResult, type GoldenDataset } from '../types';
+import { GOLDEN_SET } from '../golden-set';
+
+const dataset: GoldenDataset = {
+  name: 'test',
+  version: 1,
+  cases: [
+    {
+      id: 'a',
+      problem: 'Problem A',
+      expectedVerdict: 'STRONG_FIT',
+      expectedDimensions: { task_determinism: 'favorable' },
+      rationale: 'A'
+    },
+    {
+      id: 'b',
+      problem: 'Problem B',
+      expectedVerdict: 'NOT_RECOMMENDED',
+      rationale: 'B'
+    }
+  ]
+};
+
+function run(caseId: string, runIndex: number, overrides: Partial<CaseRunResult> = {}): CaseRunResult {
+  return { caseId, run: runIndex, status: 'success', suspensions: 0, durationMs: 1, ...overrides };
+}
+
+describe('Evaluation Metrics', () => {
+  describe('createConfusionMatrix', () => {
+    it('should tally expected vs actual and compute accuracy', () => {
+      const matrix = createConfusionMatrix(['x', 'y'] as const, [
+        { expected: 'x', actual: 'x' },
+        { expected: 'x', actual: 'y' },
+        { expected: 'y', actual: 'y' }
+      ]);
+
+      expect(matrix.counts.x).toEqual({ x: 1, y: 1 });
+      expect(matrix.counts.y).toEqual({ x: 0, y: 1 });
+      expect(matrix.correct).toBe(2);
+      expect(matrix.accuracy).toBeCloseTo(2 / 3);
+    });
+
+    it('should report zero accuracy when empty', () => {
+      expect(createConfusionMatrix(['x'] as const, []).accuracy).toBe(0);
+    });
+  });
+
+  describe('computeCalibration', () => {
+    it('should be perfectly calibrated when confidence matches accuracy', () => {
+      const calibration = computeCalibration([
+        { confidence: 1, correct: true },
+        { confidence: 0, correct: false }
+      ]);
+
+      expect(calibration.expectedCalibrationError).toBe(0);
+      expect(calibration.brierScore).toBe(0);
+    });
+
+    it('should measure overconfidence', () => {
+      const calibration = computeCalibration([
+        { confidence: 0.9, correct: false },
+        { confidence: 0.9, correct: true }
+      ]);
+
+      const bin = calibration.bins[4];
+      expect(bin.count).toBe(2);
+      expect(bin.accuracy).toBe(0.5);
+      expect(calibration.expectedCalibrationError).toBeCloseTo(0.4);
+      expect(calibration.brierScore).toBeCloseTo((0.81 + 0.01) / 2);
+    });
+  });
+
+  describe('computeCaseConsistency', () => {
+    it('should find the modal verdict across runs', () => {
+      const consistency = computeCaseConsistency(dataset.cases[0], [
+        run('a', 0, { verdict: 'STRONG_FIT' }),
+        run('a', 1, { verdict: 'CONDITIONAL' }),
+        run('a', 2, { verdict: 'STRONG_FIT' })
+      ]);
+
+      expect(consistency.modalVerdict).toBe('STRONG_FIT');
+      expect(consistency.consistency).toBeCloseTo(2 / 3);
+      expect(consistency.accuracy).toBeCloseTo(2 / 3);
+    });
+  });
+
+  describe('buildEvaluationReport', () => {
+    it('should exclude incomplete runs from metrics', () => {
+      const report = buildEvaluationReport(
+        dataset,
+        [
+          run('a', 0, {
+            verdict: 'STRONG_FIT',
+            confidence: 0.8,
+            dimensions: { task_determinism: { score: 'neutral', confidence: 0.6 } }
+          }),
+          run('b', 0, { verdict: 'NOT_RECOMMENDED', confidence: 0.9 }),
+          run('b', 1, { status: 'failed', error: 'boom' })
+        ],
+        2
+      );
+
+      expect(report.totalRuns).toBe(3);
+      expect(report.completedRuns).toBe(2);
+      expect(report.verdictConfusion.accuracy).toBe(1);
+      expect(report.dimensionAgreement.task_determinism?.agreement).toBe(0);
+      expect(report.dimensionAgreement.error_tolerance).toBeUndefined();
+      expect(report.calibration.verdict.samples).toBe(2);
+      expect(report.calibration.dimensions.samples).toBe(1);
+    });
+  });
+
+  describe('GOLDEN_SET', () => {
+    it('should be a valid dataset covering every verdict', () => {
+      expect(GoldenDatasetSchema.safeParse(GOLDEN_SET).success).toBe(true);
+
+      const verdicts = new Set(GOLDEN_SET.cases.map((c) => c.expectedVerdict));
+      expect([...verdicts].sort()).toEqual(['CONDITIONAL', 'NOT_RECOMMENDED', 'STRONG_FIT', 'WEAK_FIT']);
+    });
+  });
+});
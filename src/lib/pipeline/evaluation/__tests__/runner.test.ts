@@ -0,0 +1,89 @@
+/**
+ * Tests for the golden-set runner.
+ *
+ * The runner tests use the offline mock model. The live evaluation at the
+ * bottom only runs with RUN_GOLDEN_EVAL=1 (see `npm run test:eval`) and uses
+ * whatever models the environment configures, including
+ * AI_MODEL_PROVIDER=replay with recorded fixtures.
+ *
+ * @module pipeline/evaluation/__tests__/runner.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockModel } from '../../models/mock-provider';
+import { loadOfflineModelConfigFromEnv } from '../../models/fixture-file';
+import { runGoldenCase, runGoldenSet } from '../runner';
+import { formatEvaluationReport } from '../format';
+import { GOLDEN_SET } from '../golden-set';
+import type { GoldenDataset } from '../types';
+
+const models = { default: createMockModel() };
+
+const dataset: GoldenDataset = {
+  name: 'runner-test',
+  version: 1,
+  cases: GOLDEN_SET.cases.slice(0, 2)
+};
+
+describe('Golden-set Runner', () => {
+  it('should answer questions until the run completes', async () => {
+    const answered: string[] = [];
+
+    const result = await runGoldenCase(dataset.cases[0], 0, {
+      models,
+      answerQuestion: (question) => {
+        answered.push(question.id);
+        return 'Yes';
+      }
+    });
+
+    expect(result.status).toBe('success');
+    expect(result.verdict).toBeDefined();
+    expect(Object.keys(result.dimensions ?? {})).toHaveLength(7);
+    expect(answered.length).toBeGreaterThan(0);
+    expect(result.suspensions).toBeGreaterThan(0);
+  });
+
+  it('should stop after the suspension limit', async () => {
+    const result = await runGoldenCase(dataset.cases[0], 0, { models, maxSuspensions: 0 });
+
+    expect(result.status).toBe('suspended');
+    expect(result.error).toMatch(/Still suspended/);
+  });
+
+  it('should build a report over repeated runs', async () => {
+    const completed: string[] = [];
+
+    const report = await runGoldenSet(dataset, {
+      models,
+      runs: 2,
+      onRunComplete: (r) => completed.push(`${r.caseId}#${r.run}`)
+    });
+
+    expect(completed).toEqual([
+      'support-ticket-routing#0',
+      'support-ticket-routing#1',
+      'product-description-drafts#0',
+      'product-description-drafts#1'
+    ]);
+    expect(report.totalRuns).toBe(4);
+    expect(report.completedRuns).toBe(4);
+    expect(report.verdictConfusion.total).toBe(4);
+    // The mock model is deterministic, so every case is perfectly consistent
+    expect(report.cases.every((c) => c.consistency === 1)).toBe(true);
+    expect(formatEvaluationReport(report)).toContain('## Verdict confusion matrix');
+  });
+});
+
+describe.runIf(process.env.RUN_GOLDEN_EVAL === '1')('Golden-set Evaluation (live)', () => {
+  it('should report verdict accuracy for the built-in golden set', async () => {
+    const report = await runGoldenSet(GOLDEN_SET, {
+      runs: Number(process.env.GOLDEN_EVAL_RUNS ?? 1),
+      models: (await loadOfflineModelConfigFromEnv()) ?? undefined
+    });
+
+    console.log(formatEvaluationReport(report));
+
+    expect(report.completedRuns).toBeGreaterThan(0);
+  }, 30 * 60 * 1000);
+});
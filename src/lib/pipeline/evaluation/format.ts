@@ -0,0 +1,94 @@
+/**
+ * Plain-text rendering of evaluation reports.
+ *
+ * @module pipeline/evaluation/format
+ */
+
+import type { CalibrationReport, ConfusionMatrix, EvaluationReport } from './types';
+
+/**
+ * Formats a ratio as a percentage with no decimals.
+ */
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Renders a confusion matrix as a Markdown table (rows: expected).
+ */
+export function formatConfusionMatrix<L extends string>(matrix: ConfusionMatrix<L>): string {
+  const header = `| expected \\ actual | ${matrix.labels.join(' | ')} |`;
+  const divider = `|${' --- |'.repeat(matrix.labels.length + 1)}`;
+  const rows = matrix.labels.map(
+    (row) => `| ${row} | ${matrix.labels.map((col) => matrix.counts[row][col]).join(' | ')} |`
+  );
+  return [header, divider, ...rows].join('\n');
+}
+
+/**
+ * Renders a calibration report as a Markdown table plus summary line.
+ */
+function formatCalibration(title: string, calibration: CalibrationReport): string {
+  const rows = calibration.bins
+    .filter((bin) => bin.count > 0)
+    .map(
+      (bin) =>
+        `| ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)} | ${bin.count} | ${bin.meanConfidence.toFixed(2)} | ${percent(bin.accuracy)} |`
+    );
+
+  return [
+    `### ${title}`,
+    `Samples: ${calibration.samples} · ECE: ${calibration.expectedCalibrationError.toFixed(3)} · Brier: ${calibration.brierScore.toFixed(3)}`,
+    '',
+    '| confidence | n | mean confidence | accuracy |',
+    '| --- | --- | --- | --- |',
+    ...rows
+  ].join('\n');
+}
+
+/**
+ * Renders a full evaluation report as Markdown.
+ *
+ * @param report - Report from `runGoldenSet` or `buildEvaluationReport`
+ * @returns Markdown suitable for a terminal or CI summary
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const dimensionRows = Object.entries(report.dimensionAgreement).map(
+    ([id, stats]) => `| ${id} | ${stats!.matched}/${stats!.total} | ${percent(stats!.agreement)} |`
+  );
+
+  const caseRows = report.cases.map(
+    (c) =>
+      `| ${c.caseId} | ${c.expectedVerdict} | ${c.modalVerdict ?? '-'} | ${percent(c.accuracy)} | ${percent(c.consistency)} |`
+  );
+
+  const failures = report.runs
+    .filter((r) => r.status !== 'success')
+    .map((r) => `- ${r.caseId} (run ${r.run + 1}): ${r.status}${r.error ? ` - ${r.error}` : ''}`);
+
+  return [
+    `# Golden-set evaluation: ${report.dataset.name} v${report.dataset.version}`,
+    '',
+    `Cases: ${report.dataset.cases} · Runs per case: ${report.runsPerCase} · Completed: ${report.completedRuns}/${report.totalRuns}`,
+    `Verdict accuracy: ${percent(report.verdictConfusion.accuracy)} (${report.verdictConfusion.correct}/${report.verdictConfusion.total})`,
+    '',
+    '## Verdict confusion matrix',
+    formatConfusionMatrix(report.verdictConfusion),
+    '',
+    '## Dimension agreement',
+    '| dimension | matched | agreement |',
+    '| --- | --- | --- |',
+    ...dimensionRows,
+    '',
+    '## Calibration',
+    formatCalibration('Verdict confidence', report.calibration.verdict),
+    '',
+    formatCalibration('Dimension confidence', report.calibration.dimensions),
+    '',
+    '## Cases',
+    '| case | expected | modal | accuracy | consistency |',
+    '| --- | --- | --- | --- | --- |',
+    ...caseRows,
+    ...(failures.length > 0 ? ['', '## Incomplete runs', ...failures] : [])
+  ].join('\n');
+}
@@ -0,0 +1,148 @@
+/**
+ * Built-in golden set.
+ *
+ * Two cases per verdict, written so that a careful reviewer would agree on
+ * the expected verdict without further questions. Expected dimension scores
+ * are only listed where the description makes them unambiguous.
+ *
+ * @module pipeline/evaluation/golden-set
+ */
+
+import type { GoldenDataset } from './types';
+
+export const GOLDEN_SET: GoldenDataset = {
+  name: 'core',
+  version: 1,
+  cases: [
+    // ─────────────────────────────────────────────────────────────────────────
+    // STRONG_FIT
+    // ─────────────────────────────────────────────────────────────────────────
+    {
+      id: 'support-ticket-routing',
+      problem:
+        'We receive about 2,000 customer support emails a day and want to route each one to one of 12 queues (billing, shipping, returns, etc.). We have three years of tickets that agents already routed by hand. Misrouted tickets are simply forwarded to the right queue by the agent who picks them up.',
+      clarifications:
+        'Agents review every ticket anyway. Misroutes cost a few minutes. The 12 queues have been stable for two years and we can measure routing accuracy daily from agent re-routes.',
+      expectedVerdict: 'STRONG_FIT',
+      expectedDimensions: {
+        task_determinism: 'favorable',
+        error_tolerance: 'favorable',
+        data_availability: 'favorable',
+        evaluation_clarity: 'favorable'
+      },
+      rationale:
+        'Closed label set, abundant labelled history, cheap and self-correcting errors, and a daily accuracy signal from re-routes.'
+    },
+    {
+      id: 'product-description-drafts',
+      problem:
+        'Our e-commerce team writes short product descriptions for 500 new catalogue items a week from a spec sheet (materials, dimensions, colour). A copywriter reviews every description before it goes live. We want AI to produce the first draft.',
+      clarifications:
+        'Every draft is reviewed by a copywriter before publishing. Review takes under a minute per item. We have 20,000 existing descriptions written in our house style.',
+      expectedVerdict: 'STRONG_FIT',
+      expectedDimensions: {
+        error_tolerance: 'favorable',
+        data_availability: 'favorable',
+        human_oversight_cost: 'favorable'
+      },
+      rationale:
+        'Drafting from structured specs with mandatory fast human review: errors are caught before impact and review is cheap.'
+    },
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // CONDITIONAL
+    // ─────────────────────────────────────────────────────────────────────────
+    {
+      id: 'contract-clause-flagging',
+      problem:
+        'Our legal team reviews vendor contracts and wants AI to highlight clauses that deviate from our standard terms (liability caps, auto-renewal, indemnity) so lawyers can focus on them. Lawyers still sign off on every contract.',
+      clarifications:
+        'A lawyer reads every flagged clause and signs off. Missing a deviation could expose us to liability, so recall matters more than precision. We have a playbook of standard terms but only ~300 annotated past contracts.',
+      expectedVerdict: 'CONDITIONAL',
+      expectedDimensions: {
+        error_tolerance: 'unfavorable',
+        human_oversight_cost: 'neutral'
+      },
+      rationale:
+        'Useful as a reviewer aid, but missed deviations are costly and labelled data is thin; it works only with lawyer sign-off and recall-focused evaluation.'
+    },
+    {
+      id: 'sales-call-summaries',
+      problem:
+        'Sales reps spend 15 minutes after each call writing CRM notes. We want AI to summarize call transcripts into next steps, objections and budget signals, which the rep then edits.',
+      clarifications:
+        'Reps edit the summary before saving. There is no agreed definition of a good summary yet, and transcripts sometimes mix two languages.',
+      expectedVerdict: 'CONDITIONAL',
+      expectedDimensions: {
+        error_tolerance: 'favorable',
+        evaluation_clarity: 'unfavorable'
+      },
+      rationale:
+        'Low-stakes with rep review, but success is subjective until the team defines what a good summary contains.'
+    },
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // WEAK_FIT
+    // ─────────────────────────────────────────────────────────────────────────
+    {
+      id: 'novel-strategy-memos',
+      problem:
+        'Our executives want AI to write the quarterly strategy memo that sets company priorities, based on board discussions that are not recorded anywhere.',
+      clarifications:
+        'There is no written record of the board discussions. The memo is judged by whether the executives like it; there are only eight past memos.',
+      expectedVerdict: 'WEAK_FIT',
+      expectedDimensions: {
+        task_determinism: 'unfavorable',
+        data_availability: 'unfavorable',
+        evaluation_clarity: 'unfavorable'
+      },
+      rationale:
+        'Open-ended, subjective output with almost no input data; AI can help polish prose but not produce the substance.'
+    },
+    {
+      id: 'tax-rule-lookup',
+      problem:
+        'We want a chatbot that tells our small-business customers exactly which state sales-tax rules apply to their transactions, replacing our current lookup table maintained by an accountant.',
+      clarifications:
+        'The lookup table is already accurate and updated monthly by the accountant. Rules change several times a year across states. Customers rely on the answer for filings.',
+      expectedVerdict: 'WEAK_FIT',
+      expectedDimensions: {
+        rate_of_change: 'unfavorable',
+        error_tolerance: 'unfavorable'
+      },
+      rationale:
+        'A deterministic lookup already solves the problem; an LLM adds hallucination risk on frequently changing, filing-critical rules.'
+    },
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // NOT_RECOMMENDED
+    // ─────────────────────────────────────────────────────────────────────────
+    {
+      id: 'autonomous-insulin-dosing',
+      problem:
+        'We want an AI system that reads patient glucose monitor data and automatically adjusts insulin pump doses without clinician review.',
+      clarifications:
+        'Doses would be applied immediately with no human in the loop. Errors can cause severe hypoglycaemia. This is a regulated medical device.',
+      expectedVerdict: 'NOT_RECOMMENDED',
+      expectedDimensions: {
+        error_tolerance: 'unfavorable',
+        edge_case_risk: 'unfavorable'
+      },
+      rationale:
+        'Safety-critical, irreversible, regulated decisions with no human oversight; deterministic, validated control algorithms are the appropriate tool.'
+    },
+    {
+      id: 'invoice-total-arithmetic',
+      problem:
+        'We want AI to add up line items on our structured invoices (JSON from our billing system) and compute the tax and grand total.',
+      clarifications:
+        'The invoices are already structured JSON. The totals feed directly into accounting. Tax rates are fixed per region in a config table.',
+      expectedVerdict: 'NOT_RECOMMENDED',
+      expectedDimensions: {
+        task_determinism: 'favorable'
+      },
+      rationale:
+        'Exact arithmetic over structured data is solved by plain code; an LLM adds cost and error risk with no benefit.'
+    }
+  ]
+};
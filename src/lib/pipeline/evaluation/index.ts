@@ -0,0 +1,54 @@
+/**
+ * Golden-set Evaluation Module
+ *
+ * Measures how often the pipeline reaches the verdict a careful reviewer
+ * expects:
+ * - Dataset format with expected verdicts and dimension scores
+ * - Runner that drives the executor against any model configuration
+ * - Confusion matrices, per-dimension agreement, confidence calibration
+ *   and cross-run consistency
+ *
+ * @module pipeline/evaluation
+ *
+ * @example
+ * ```ts
+ * import { GOLDEN_SET, runGoldenSet, formatEvaluationReport } from '@/lib/pipeline/evaluation';
+ *
+ * const report = await runGoldenSet(GOLDEN_SET, { runs: 3 });
+ * console.log(formatEvaluationReport(report));
+ * ```
+ */
+
+// Types and schemas
+export {
+  GoldenCaseSchema,
+  GoldenDatasetSchema,
+  type GoldenCase,
+  type GoldenDataset,
+  type ObservedDimension,
+  type CaseRunResult,
+  type ConfusionMatrix,
+  type DimensionAgreement,
+  type CalibrationBin,
+  type CalibrationReport,
+  type CaseConsistency,
+  type EvaluationReport
+} from './types';
+
+// Metrics
+export {
+  createConfusionMatrix,
+  computeCalibration,
+  computeDimensionAgreement,
+  computeCaseConsistency,
+  buildEvaluationReport
+} from './metrics';
+
+// Runner
+export { runGoldenCase, runGoldenSet, type GoldenSetRunOptions } from './runner';
+
+// Reporting
+export { formatConfusionMatrix, formatEvaluationReport } from './format';
+
+// Built-in dataset
+export { GOLDEN_SET } from './golden-set';
@@ -0,0 +1,266 @@
+/**
+ * Evaluation metrics.
+ *
+ * Pure functions that turn run observations into confusion matrices,
+ * per-dimension agreement, calibration and cross-run consistency.
+ *
+ * @module pipeline/evaluation/metrics
+ */
+
+import {
+  DimensionScoreSchema,
+  VerdictSchema,
+  type DimensionId,
+  type DimensionScore,
+  type Verdict
+} from '../types';
+import type {
+  CalibrationBin,
+  CalibrationReport,
+  CaseConsistency,
+  CaseRunResult,
+  ConfusionMatrix,
+  DimensionAgreement,
+  EvaluationReport,
+  GoldenCase,
+  GoldenDataset
+} from './types';
+
+/** Labels in severity order, used for matrix rows/columns */
+const VERDICT_LABELS = VerdictSchema.options;
+const SCORE_LABELS = DimensionScoreSchema.options;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFUSION MATRIX
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Builds a confusion matrix from expected/actual pairs.
+ *
+ * @param labels - Full label set (rows and columns, in display order)
+ * @param pairs - Observations to tally
+ * @returns Confusion matrix with accuracy
+ */
+export function createConfusionMatrix<L extends string>(
+  labels: readonly L[],
+  pairs: Array<{ expected: L; actual: L }>
+): ConfusionMatrix<L> {
+  const counts = {} as Record<L, Record<L, number>>;
+  for (const row of labels) {
+    counts[row] = {} as Record<L, number>;
+    for (const col of labels) {
+      counts[row][col] = 0;
+    }
+  }
+
+  let correct = 0;
+  for (const { expected, actual } of pairs) {
+    counts[expected][actual]++;
+    if (expected === actual) correct++;
+  }
+
+  return {
+    labels,
+    counts,
+    total: pairs.length,
+    correct,
+    accuracy: pairs.length > 0 ? correct / pairs.length : 0
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALIBRATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Computes calibration of stated confidence against correctness.
+ *
+ * Confidence is bucketed into equal-width bins over [0, 1]. A
+ * well-calibrated model is right ~70% of the time when it says 0.7.
+ *
+ * @param samples - Confidence and correctness for each prediction
+ * @param binCount - Number of equal-width bins (default: 5)
+ * @returns Per-bin accuracy, expected calibration error and Brier score
+ */
+export function computeCalibration(
+  samples: Array<{ confidence: number; correct: boolean }>,
+  binCount: number = 5
+): CalibrationReport {
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0
+  }));
+
+  let squaredError = 0;
+
+  for (const { confidence, correct } of samples) {
+    const clamped = Math.min(Math.max(confidence, 0), 1);
+    const bin = bins[Math.min(Math.floor(clamped * binCount), binCount - 1)];
+    bin.count++;
+    bin.meanConfidence += clamped;
+    bin.accuracy += correct ? 1 : 0;
+    squaredError += (clamped - (correct ? 1 : 0)) ** 2;
+  }
+
+  let calibrationError = 0;
+  for (const bin of bins) {
+    if (bin.count === 0) continue;
+    bin.meanConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    calibrationError += (bin.count / samples.length) * Math.abs(bin.accuracy - bin.meanConfidence);
+  }
+
+  return {
+    samples: samples.length,
+    bins,
+    expectedCalibrationError: calibrationError,
+    brierScore: samples.length > 0 ? squaredError / samples.length : 0
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIMENSION AGREEMENT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Computes agreement with expected scores for every labelled dimension.
+ *
+ * Only dimensions that at least one case labels appear in the result.
+ *
+ * @param cases - Golden cases, keyed by id
+ * @param runs - Completed run observations
+ */
+export function computeDimensionAgreement(
+  cases: Map<string, GoldenCase>,
+  runs: CaseRunResult[]
+): Partial<Record<DimensionId, DimensionAgreement>> {
+  const pairs = new Map<DimensionId, Array<{ expected: DimensionScore; actual: DimensionScore }>>();
+
+  for (const run of runs) {
+    const expected = cases.get(run.caseId)?.expectedDimensions;
+    if (!expected || !run.dimensions) continue;
+
+    for (const [id, score] of Object.entries(expected) as [DimensionId, DimensionScore][]) {
+      const observed = run.dimensions[id];
+      if (!observed) continue;
+      if (!pairs.has(id)) pairs.set(id, []);
+      pairs.get(id)!.push({ expected: score, actual: observed.score });
+    }
+  }
+
+  const result: Partial<Record<DimensionId, DimensionAgreement>> = {};
+  for (const [id, observations] of pairs) {
+    const confusion = createConfusionMatrix(SCORE_LABELS, observations);
+    result[id] = {
+      matched: confusion.correct,
+      total: confusion.total,
+      agreement: confusion.accuracy,
+      confusion
+    };
+  }
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSISTENCY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Summarizes how stable each case's verdict is across repeated runs.
+ */
+export function computeCaseConsistency(
+  goldenCase: GoldenCase,
+  runs: CaseRunResult[]
+): CaseConsistency {
+  const verdicts = runs
+    .filter((r) => r.caseId === goldenCase.id && r.verdict)
+    .map((r) => r.verdict as Verdict);
+
+  const tally = new Map<Verdict, number>();
+  for (const verdict of verdicts) {
+    tally.set(verdict, (tally.get(verdict) ?? 0) + 1);
+  }
+
+  let modalVerdict: Verdict | null = null;
+  let modalCount = 0;
+  for (const verdict of VERDICT_LABELS) {
+    const count = tally.get(verdict) ?? 0;
+    if (count > modalCount) {
+      modalVerdict = verdict;
+      modalCount = count;
+    }
+  }
+
+  const correct = verdicts.filter((v) => v === goldenCase.expectedVerdict).length;
+
+  return {
+    caseId: goldenCase.id,
+    expectedVerdict: goldenCase.expectedVerdict,
+    verdicts,
+    modalVerdict,
+    consistency: verdicts.length > 0 ? modalCount / verdicts.length : 0,
+    accuracy: verdicts.length > 0 ? correct / verdicts.length : 0
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPORT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Builds the full evaluation report from run observations.
+ *
+ * Runs that did not complete are counted in `totalRuns` but excluded
+ * from every metric.
+ *
+ * @param dataset - The golden set that was run
+ * @param runs - One observation per case per repetition
+ * @param runsPerCase - Repetitions per case
+ */
+export function buildEvaluationReport(
+  dataset: GoldenDataset,
+  runs: CaseRunResult[],
+  runsPerCase: number
+): EvaluationReport {
+  const cases = new Map(dataset.cases.map((c) => [c.id, c]));
+  const completed = runs.filter((r) => r.status === 'success' && r.verdict);
+
+  const verdictConfusion = createConfusionMatrix(
+    VERDICT_LABELS,
+    completed.map((r) => ({ expected: cases.get(r.caseId)!.expectedVerdict, actual: r.verdict! }))
+  );
+
+  const verdictSamples = completed.map((r) => ({
+    confidence: r.confidence ?? 0,
+    correct: r.verdict === cases.get(r.caseId)!.expectedVerdict
+  }));
+
+  const dimensionSamples: Array<{ confidence: number; correct: boolean }> = [];
+  for (const run of completed) {
+    const expected = cases.get(run.caseId)!.expectedDimensions ?? {};
+    for (const [id, score] of Object.entries(expected) as [DimensionId, DimensionScore][]) {
+      const observed = run.dimensions?.[id];
+      if (observed) {
+        dimensionSamples.push({ confidence: observed.confidence, correct: observed.score === score });
+      }
+    }
+  }
+
+  return {
+    dataset: { name: dataset.name, version: dataset.version, cases: dataset.cases.length },
+    runsPerCase,
+    completedRuns: completed.length,
+    totalRuns: runs.length,
+    verdictConfusion,
+    dimensionAgreement: computeDimensionAgreement(cases, completed),
+    calibration: {
+      verdict: computeCalibration(verdictSamples),
+      dimensions: computeCalibration(dimensionSamples)
+    },
+    cases: dataset.cases.map((c) => computeCaseConsistency(c, completed)),
+    runs
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Golden-set runner.
+ *
+ * Drives the pipeline executor over every case in a dataset (optionally
+ * several times each), answering follow-up questions from the case's
+ * clarifications, and builds an evaluation report.
+ *
+ * Works with any model configuration: the real gateway models, the mock
+ * model, or recorded fixtures via `createReplayModels()`.
+ *
+ * @module pipeline/evaluation/runner
+ */
+
+import { createPipelineExecutor } from '../executor';
+import type { ExecutorOptions, ExecutorResult } from '../executor/types';
+import { isQuestionEvent } from '../events';
+import type { StageModelConfig } from '../models';
+import type { DimensionId, FollowUpQuestion, UserAnswer } from '../types';
+import { buildEvaluationReport } from './metrics';
+import type {
+  CaseRunResult,
+  EvaluationReport,
+  GoldenCase,
+  GoldenDataset,
+  ObservedDimension
+} from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// OPTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Answer used when a case has no clarifications and the question has no assumption */
+const FALLBACK_ANSWER = 'No additional information is available; use your best assumption.';
+
+/**
+ * Options for running a golden set.
+ */
+export interface GoldenSetRunOptions {
+  /** Repetitions per case, for consistency and calibration (default: 1) */
+  runs?: number;
+  /** Models to evaluate (default: the environment/application models) */
+  models?: StageModelConfig;
+  /** Maximum suspend/resume cycles per run before giving up (default: 3) */
+  maxSuspensions?: number;
+  /** Custom answer policy (default: case clarifications, then the question's assumption) */
+  answerQuestion?: (question: FollowUpQuestion, goldenCase: GoldenCase) => string;
+  /** Extra executor options (timeouts, retries) */
+  executorOptions?: Omit<ExecutorOptions, 'onEvent' | 'models'>;
+  /** Called after each run completes */
+  onRunComplete?: (result: CaseRunResult) => void;
+}
+
+/**
+ * Default answer policy.
+ */
+function defaultAnswer(question: FollowUpQuestion, goldenCase: GoldenCase): string {
+  return goldenCase.clarifications ?? question.currentAssumption ?? FALLBACK_ANSWER;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SINGLE RUN
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs the pipeline once on a golden case, answering questions until it
+ * completes or exceeds the suspension limit.
+ *
+ * @param goldenCase - The case to run
+ * @param run - Zero-based repetition index
+ * @param options - Run options
+ * @returns Observation for the report
+ */
+export async function runGoldenCase(
+  goldenCase: GoldenCase,
+  run: number,
+  options: GoldenSetRunOptions = {}
+): Promise<CaseRunResult> {
+  const answerQuestion = options.answerQuestion ?? defaultAnswer;
+  const maxSuspensions = options.maxSuspensions ?? 3;
+  const startedAt = Date.now();
+
+  // Question text arrives via events; suspended results only carry IDs
+  const questions = new Map<string, FollowUpQuestion>();
+  const executor = createPipelineExecutor({
+    ...options.executorOptions,
+    models: options.models,
+    onEvent: (event) => {
+      if (isQuestionEvent(event)) {
+        questions.set(event.question.id, event.question);
+      }
+    }
+  });
+
+  let suspensions = 0;
+  let result: ExecutorResult;
+
+  try {
+    result = await executor.startPipeline({
+      problem: goldenCase.problem,
+      context: goldenCase.context
+    }).result;
+
+    while (result.status === 'suspended' && suspensions < maxSuspensions) {
+      suspensions++;
+      const answers: UserAnswer[] = result.pendingQuestions.map((questionId) => {
+        const question = questions.get(questionId);
+        return {
+          questionId,
+          answer: question ? answerQuestion(question, goldenCase) : goldenCase.clarifications ?? FALLBACK_ANSWER,
+          source: question?.source.stage ?? 'screening',
+          timestamp: Date.now()
+        };
+      });
+
+      result = await executor.resumePipeline({ runId: result.runId, answers }).result;
+    }
+  } catch (error) {
+    return {
+      caseId: goldenCase.id,
+      run,
+      status: 'failed',
+      suspensions,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  const base = {
+    caseId: goldenCase.id,
+    run,
+    status: result.status,
+    suspensions,
+    durationMs: Date.now() - startedAt
+  };
+
+  switch (result.status) {
+    case 'success': {
+      const dimensions: Partial<Record<DimensionId, ObservedDimension>> = {};
+      for (const dimension of result.result.dimensions) {
+        dimensions[dimension.id] = { score: dimension.score, confidence: dimension.confidence };
+      }
+      return {
+        ...base,
+        verdict: result.result.verdict,
+        confidence: result.result.confidence,
+        dimensions
+      };
+    }
+    case 'failed':
+      return { ...base, error: result.error.message };
+    case 'suspended':
+      return { ...base, error: `Still suspended after ${suspensions} answer rounds` };
+    default:
+      return base;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DATASET RUN
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs every case in a golden set and builds the evaluation report.
+ *
+ * Cases run sequentially to stay within provider rate limits.
+ *
+ * @param dataset - Golden set to evaluate
+ * @param options - Repetitions, models and answer policy
+ * @returns Confusion matrix, dimension agreement, calibration and consistency
+ *
+ * @example
+ * ```ts
+ * const report = await runGoldenSet(GOLDEN_SET, { runs: 3 });
+ * console.log(formatEvaluationReport(report));
+ * ```
+ */
+export async function runGoldenSet(
+  dataset: GoldenDataset,
+  options: GoldenSetRunOptions = {}
+): Promise<EvaluationReport> {
+  const runsPerCase = Math.max(1, options.runs ?? 1);
+  const runs: CaseRunResult[] = [];
+
+  for (const goldenCase of dataset.cases) {
+    for (let run = 0; run < runsPerCase; run++) {
+      const result = await runGoldenCase(goldenCase, run, options);
+      runs.push(result);
+      options.onRunComplete?.(result);
+    }
+  }
+
+  return buildEvaluationReport(dataset, runs, runsPerCase);
+}
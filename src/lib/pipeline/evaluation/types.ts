@@ -0,0 +1,195 @@
+/**
+ * Golden-set evaluation type definitions.
+ *
+ * A golden set is a list of problem descriptions with the verdict (and,
+ * optionally, the per-dimension scores) a careful human reviewer expects.
+ * The runner drives the pipeline over every case and compares.
+ *
+ * @module pipeline/evaluation/types
+ */
+
+import { z } from 'zod';
+import {
+  DimensionIdSchema,
+  DimensionScoreSchema,
+  VerdictSchema,
+  type DimensionId,
+  type DimensionScore,
+  type Verdict
+} from '../types';
+import type { ExecutorResult } from '../executor/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DATASET
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A single labelled problem.
+ */
+export interface GoldenCase {
+  /** Stable identifier (used in reports) */
+  id: string;
+  /** Problem description fed to the pipeline */
+  problem: string;
+  /** Optional additional context */
+  context?: string;
+  /**
+   * Facts used to answer any follow-up question the pipeline asks.
+   * Without it, questions are answered with their current assumption.
+   */
+  clarifications?: string;
+  /** Verdict a careful reviewer expects */
+  expectedVerdict: Verdict;
+  /** Expected scores for the dimensions the reviewer is sure about */
+  expectedDimensions?: Partial<Record<DimensionId, DimensionScore>>;
+  /** Why the expected verdict is correct */
+  rationale: string;
+}
+
+/** Zod schema for GoldenCase validation */
+export const GoldenCaseSchema = z.object({
+  id: z.string().min(1),
+  problem: z.string().min(1),
+  context: z.string().optional(),
+  clarifications: z.string().optional(),
+  expectedVerdict: VerdictSchema,
+  expectedDimensions: z.partialRecord(DimensionIdSchema, DimensionScoreSchema).optional(),
+  rationale: z.string().min(1)
+});
+
+/**
+ * A named, versioned collection of golden cases.
+ */
+export interface GoldenDataset {
+  name: string;
+  version: number;
+  cases: GoldenCase[];
+}
+
+/** Zod schema for GoldenDataset validation (e.g. when loaded from JSON) */
+export const GoldenDatasetSchema = z.object({
+  name: z.string().min(1),
+  version: z.number().int().positive(),
+  cases: z.array(GoldenCaseSchema).min(1)
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RUN OBSERVATIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Score and confidence observed for one dimension in one run.
+ */
+export interface ObservedDimension {
+  score: DimensionScore;
+  confidence: number;
+}
+
+/**
+ * Outcome of running the pipeline once on a golden case.
+ */
+export interface CaseRunResult {
+  caseId: string;
+  /** Zero-based repetition index */
+  run: number;
+  /** Final status after answering questions */
+  status: ExecutorResult['status'];
+  verdict?: Verdict;
+  confidence?: number;
+  dimensions?: Partial<Record<DimensionId, ObservedDimension>>;
+  /** Number of times the run suspended for questions */
+  suspensions: number;
+  durationMs: number;
+  /** Error message for failed runs */
+  error?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METRICS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Confusion matrix over a fixed label set (rows: expected, columns: actual).
+ */
+export interface ConfusionMatrix<L extends string> {
+  labels: readonly L[];
+  counts: Record<L, Record<L, number>>;
+  total: number;
+  correct: number;
+  /** correct / total (0 when empty) */
+  accuracy: number;
+}
+
+/**
+ * Agreement between expected and observed scores for one dimension.
+ */
+export interface DimensionAgreement {
+  matched: number;
+  total: number;
+  /** matched / total (0 when empty) */
+  agreement: number;
+  confusion: ConfusionMatrix<DimensionScore>;
+}
+
+/**
+ * One confidence bucket in a reliability diagram.
+ */
+export interface CalibrationBin {
+  /** Inclusive lower bound */
+  lower: number;
+  /** Exclusive upper bound (inclusive for the last bin) */
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  /** Fraction of samples in the bin that were correct */
+  accuracy: number;
+}
+
+/**
+ * How well stated confidence matches observed accuracy.
+ */
+export interface CalibrationReport {
+  samples: number;
+  bins: CalibrationBin[];
+  /** Sample-weighted mean |accuracy - confidence| across bins */
+  expectedCalibrationError: number;
+  /** Mean squared error of confidence against correctness */
+  brierScore: number;
+}
+
+/**
+ * Cross-run stability of one case.
+ */
+export interface CaseConsistency {
+  caseId: string;
+  expectedVerdict: Verdict;
+  /** Verdict observed in each completed run */
+  verdicts: Verdict[];
+  /** Most common observed verdict (null if no run completed) */
+  modalVerdict: Verdict | null;
+  /** Fraction of completed runs that returned the modal verdict */
+  consistency: number;
+  /** Fraction of completed runs that returned the expected verdict */
+  accuracy: number;
+}
+
+/**
+ * Full report for one evaluation.
+ */
+export interface EvaluationReport {
+  dataset: { name: string; version: number; cases: number };
+  runsPerCase: number;
+  /** Runs that completed successfully / attempted */
+  completedRuns: number;
+  totalRuns: number;
+  verdictConfusion: ConfusionMatrix<Verdict>;
+  dimensionAgreement: Partial<Record<DimensionId, DimensionAgreement>>;
+  calibration: {
+    /** Verdict confidence vs. verdict correctness */
+    verdict: CalibrationReport;
+    /** Dimension confidence vs. dimension score correctness */
+    dimensions: CalibrationReport;
+  };
+  cases: CaseConsistency[];
+  runs: CaseRunResult[];
+}
@@ -18,10 +18,13 @@ import type {
   Alternative,
   RecommendedArchitecture,
   PreBuildQuestion,
+  ActionItem,
+  SynthesisSummary,
   AnalysisResult,
   DimensionPriority,
   PartialInsight,
-  PreliminarySignal
+  PreliminarySignal,
+  WeightedVerdict
 } from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -60,7 +63,8 @@ export const EVENT_TYPES = [
   'reasoning:start',
   'reasoning:chunk',
   'reasoning:complete',
-  'answer:received'
+  'answer:received',
+  'answer:assumed'
 ] as const;
 
 export type EventType = (typeof EVENT_TYPES)[number];
@@ -164,6 +168,8 @@ export interface DimensionToolCallEvent {
   id: DimensionId;
   tool: string;
   input: unknown;
+  /** Index of the sample that made the call, when the dimension is sampled several times */
+  sample?: number;
 }
 
 export interface DimensionToolResultEvent {
@@ -171,6 +177,8 @@ export interface DimensionToolResultEvent {
   id: DimensionId;
   tool: string;
   result: unknown;
+  /** Index of the sample that made the call, when the dimension is sampled several times */
+  sample?: number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -188,6 +196,8 @@ export interface VerdictResultEvent {
   verdict: Verdict;
   confidence: number;
   summary: string;
+  /** Deterministic weighted verdict (compare and rules modes) */
+  weighted?: WeightedVerdict;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -234,14 +244,27 @@ export interface ReasoningStartEvent {
   type: 'reasoning:start';
 }
 
+/** Stage whose reasoning a chunk belongs to */
+export type ReasoningStage = 'verdict' | 'synthesis';
+
+/**
+ * A piece of reasoning text as the model writes it. Synthesis chunks follow
+ * `reasoning:start`, which is re-sent when synthesis is retried; verdict
+ * chunks follow `verdict:computing` in the same way.
+ */
 export interface ReasoningChunkEvent {
   type: 'reasoning:chunk';
   chunk: string;
+  /** Reasoning being streamed (default: synthesis) */
+  stage?: ReasoningStage;
 }
 
 export interface ReasoningCompleteEvent {
   type: 'reasoning:complete';
   reasoning: string;
+  executiveSummary?: string;
+  actionItems?: ActionItem[];
+  keyTakeaways?: string[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -254,6 +277,13 @@ export interface AnswerReceivedEvent {
   answer: string;
 }
 
+/** A blocking question was answered with its current assumption */
+export interface AnswerAssumedEvent {
+  type: 'answer:assumed';
+  questionId: string;
+  assumption: string;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // UNION TYPE
 // ═══════════════════════════════════════════════════════════════════════════
@@ -290,7 +320,8 @@ export type PipelineEvent =
   | ReasoningStartEvent
   | ReasoningChunkEvent
   | ReasoningCompleteEvent
-  | AnswerReceivedEvent;
+  | AnswerReceivedEvent
+  | AnswerAssumedEvent;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // EVENT CREATORS
@@ -403,23 +434,27 @@ export const events = {
   dimensionToolCall: (
     id: DimensionId,
     tool: string,
-    input: unknown
+    input: unknown,
+    sample?: number
   ): DimensionToolCallEvent => ({
     type: 'dimension:tool_call',
     id,
     tool,
-    input
+    input,
+    ...(sample !== undefined && { sample })
   }),
 
   dimensionToolResult: (
     id: DimensionId,
     tool: string,
-    result: unknown
+    result: unknown,
+    sample?: number
   ): DimensionToolResultEvent => ({
     type: 'dimension:tool_result',
     id,
     tool,
-    result
+    result,
+    ...(sample !== undefined && { sample })
   }),
 
   // Verdict
@@ -435,12 +470,14 @@ export const events = {
   verdictResult: (
     verdict: Verdict,
     confidence: number,
-    summary: string
+    summary: string,
+    weighted?: WeightedVerdict
   ): VerdictResultEvent => ({
     type: 'verdict:result',
     verdict,
     confidence,
-    summary
+    summary,
+    ...(weighted && { weighted })
   }),
 
   // Secondary
@@ -483,14 +520,16 @@ export const events = {
     type: 'reasoning:start'
   }),
 
-  reasoningChunk: (chunk: string): ReasoningChunkEvent => ({
+  reasoningChunk: (chunk: string, stage: ReasoningStage = 'synthesis'): ReasoningChunkEvent => ({
     type: 'reasoning:chunk',
-    chunk
+    chunk,
+    stage
   }),
 
-  reasoningComplete: (reasoning: string): ReasoningCompleteEvent => ({
+  reasoningComplete: (reasoning: string, summary?: SynthesisSummary): ReasoningCompleteEvent => ({
     type: 'reasoning:complete',
-    reasoning
+    reasoning,
+    ...summary
   }),
 
   // Answers
@@ -498,6 +537,12 @@ export const events = {
     type: 'answer:received',
     questionId,
     answer
+  }),
+
+  answerAssumed: (questionId: string, assumption: string): AnswerAssumedEvent => ({
+    type: 'answer:assumed',
+    questionId,
+    assumption
   })
 };
 
@@ -8,11 +8,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createPipelineExecutor } from '../pipeline-executor';
+import { createPipelineExecutor, EXECUTOR_CHECKPOINT_SCOPE } from '../pipeline-executor';
+import { DEFAULT_RUN_TTLS } from '../defaults';
+import { createMemoryCheckpointer } from '../../checkpoint/memory-checkpointer';
 import type { PipelineEvent } from '../../events';
 import type {
   ScreeningOutput,
   DimensionAnalysis,
+  FollowUpQuestion,
   VerdictResult,
   RiskFactor,
   Alternative,
@@ -154,6 +157,25 @@ describe('PipelineExecutor', () => {
       expect(synthesizeReasoning).toHaveBeenCalled();
     });
 
+    it('should keep the synthesis summary on reasoning:complete and in the result', async () => {
+      const summary = {
+        executiveSummary: 'Pilot it with review',
+        actionItems: [{ action: 'Label 500 tickets', priority: 'critical' as const, rationale: 'Baseline' }],
+        keyTakeaways: ['Review is required']
+      };
+      vi.mocked(synthesizeReasoning).mockResolvedValue({ ...summary, reasoning: 'Test reasoning' });
+
+      const events: PipelineEvent[] = [];
+      const executor = createPipelineExecutor({ onEvent: (event) => events.push(event) });
+      const result = await executor.startPipeline({ problem: 'Test problem' }).result;
+
+      expect(events.find((e) => e.type === 'reasoning:complete')).toMatchObject(summary);
+      expect(result.status).toBe('success');
+      if (result.status === 'success') {
+        expect(result.result).toMatchObject(summary);
+      }
+    });
+
     it('should emit events during execution', async () => {
       const events: PipelineEvent[] = [];
       const executor = createPipelineExecutor({
@@ -173,6 +195,51 @@ describe('PipelineExecutor', () => {
       expect(eventTypes).toContain('pipeline:complete');
     });
 
+    it('should stream verdict and synthesis reasoning as reasoning:chunk events', async () => {
+      vi.mocked(calculateVerdict).mockImplementation(async (_input, _screening, _dimensions, options) => {
+        options?.onReasoningChunk?.('Weighing ');
+        return mockVerdict;
+      });
+      vi.mocked(synthesizeReasoning).mockImplementation(async (_state, options) => {
+        options?.onReasoningChunk?.('I evaluated ');
+        options?.onReasoningChunk?.('the problem');
+        return mockSynthesisOutput;
+      });
+      const events: PipelineEvent[] = [];
+      const executor = createPipelineExecutor({ onEvent: (event) => events.push(event) });
+
+      await executor.startPipeline({ problem: 'Test problem' }).result;
+
+      expect(events.filter((e) => e.type === 'reasoning:chunk')).toEqual([
+        { type: 'reasoning:chunk', chunk: 'Weighing ', stage: 'verdict' },
+        { type: 'reasoning:chunk', chunk: 'I evaluated ', stage: 'synthesis' },
+        { type: 'reasoning:chunk', chunk: 'the problem', stage: 'synthesis' }
+      ]);
+    });
+
+    it('should restart the reasoning stream when synthesis is retried', async () => {
+      vi.mocked(synthesizeReasoning)
+        .mockImplementationOnce(async (_state, options) => {
+          options?.onReasoningChunk?.('Half a');
+          throw new Error('Rate limit');
+        })
+        .mockResolvedValueOnce(mockSynthesisOutput);
+      const events: PipelineEvent[] = [];
+      const executor = createPipelineExecutor({
+        onEvent: (event) => events.push(event),
+        retryConfig: { synthesis: { maxAttempts: 2, initialDelay: 1, maxDelay: 10, backoffMultiplier: 1 } }
+      });
+
+      const result = await executor.startPipeline({ problem: 'Test problem' }).result;
+
+      expect(result.status).toBe('success');
+      expect(
+        events
+          .filter((e) => e.type.startsWith('reasoning:'))
+          .map((e) => e.type)
+      ).toEqual(['reasoning:start', 'reasoning:chunk', 'reasoning:start', 'reasoning:complete']);
+    });
+
     it('should provide accurate status during execution', async () => {
       const executor = createPipelineExecutor();
       const handle = executor.startPipeline({ problem: 'Test problem' });
@@ -266,6 +333,107 @@ describe('PipelineExecutor', () => {
       expect(result2.status).toBe('success');
     });
 
+    it('should emit each dimension as soon as its analyzer resolves', async () => {
+      const events: PipelineEvent[] = [];
+      vi.mocked(analyzeAllDimensions).mockImplementation(async (_input, _screening, _answers, options) => {
+        options?.onPreliminary?.({ type: 'dimension:preliminary', id: 'error_tolerance', score: 'neutral', confidence: 0.5 });
+        options?.onDimensionComplete?.(mockDimensions.error_tolerance);
+        // Nothing else is done yet when the first dimension is reported
+        expect(events.filter((e) => e.type === 'dimension:complete')).toHaveLength(1);
+        return mockDimensions;
+      });
+      const executor = createPipelineExecutor({ onEvent: (event) => events.push(event) });
+
+      await executor.startPipeline({ problem: 'Test problem' }).result;
+
+      const dimensionEvents = events.filter((e) => e.type.startsWith('dimension:'));
+      expect(dimensionEvents.filter((e) => e.type === 'dimension:start')).toHaveLength(7);
+      expect(dimensionEvents.slice(7, 9)).toEqual([
+        { type: 'dimension:preliminary', id: 'error_tolerance', score: 'neutral', confidence: 0.5 },
+        { type: 'dimension:complete', id: 'error_tolerance', analysis: mockDimensions.error_tolerance }
+      ]);
+      expect(dimensionEvents.filter((e) => e.type === 'dimension:complete')).toHaveLength(7);
+    });
+
+    it('should suspend as soon as a dimension raises a blocking question', async () => {
+      const blocking: FollowUpQuestion = {
+        id: 'dq1',
+        question: 'Who reviews the output?',
+        rationale: 'Oversight cost',
+        priority: 'blocking',
+        source: { stage: 'dimension', dimensionId: 'error_tolerance' }
+      };
+      vi.mocked(analyzeAllDimensions)
+        .mockImplementationOnce(async (_input, _screening, _answers, options) => {
+          options?.onDimensionComplete?.({ ...mockDimensions.error_tolerance, infoGaps: [blocking] });
+          // The other analyzers run until they are stopped
+          expect(options?.abortSignal?.aborted).toBe(true);
+          throw new Error('aborted');
+        })
+        .mockResolvedValue(mockDimensions);
+      const executor = createPipelineExecutor();
+
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      const suspended = await handle.result;
+
+      expect(suspended).toMatchObject({ status: 'suspended', stage: 'dimensions', pendingQuestions: ['dq1'] });
+      expect(calculateVerdict).not.toHaveBeenCalled();
+
+      const resumed = await executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'dq1', answer: 'A support lead', source: 'dimension', timestamp: Date.now() }]
+      }).result;
+
+      // Only the dimensions that were stopped are analyzed after the answer
+      expect(resumed.status).toBe('success');
+      expect(vi.mocked(analyzeAllDimensions).mock.calls[1][3]?.dimensionIds).not.toContain('error_tolerance');
+      expect(vi.mocked(analyzeAllDimensions).mock.calls[1][3]?.dimensionIds).toHaveLength(6);
+      if (resumed.status === 'success') {
+        expect(resumed.result.dimensions).toHaveLength(7);
+      }
+    });
+
+    it('should resume a checkpointed run in a new executor', async () => {
+      vi.mocked(analyzeScreening)
+        .mockResolvedValueOnce({
+          ...mockScreeningOutput,
+          clarifyingQuestions: [
+            {
+              id: 'q1',
+              question: 'What is the expected error rate?',
+              rationale: 'Critical for assessment',
+              priority: 'blocking',
+              source: { stage: 'screening' }
+            }
+          ]
+        })
+        .mockResolvedValue(mockScreeningOutput);
+
+      const checkpointer = createMemoryCheckpointer();
+      const handle1 = createPipelineExecutor({ checkpointer }).startPipeline({ problem: 'Test problem' });
+      expect((await handle1.result).status).toBe('suspended');
+
+      const checkpoint = await checkpointer.load(EXECUTOR_CHECKPOINT_SCOPE, handle1.runId);
+      expect(checkpoint?.snapshot).toMatchObject({ status: 'suspended', stage: 'screening' });
+
+      // A second executor stands in for another process
+      const executor = createPipelineExecutor({ checkpointer });
+      expect(await executor.restoreRun('unknown')).toBe(false);
+      expect(await executor.restoreRun(handle1.runId)).toBe(true);
+      expect(executor.getRunStatus(handle1.runId)?.pendingQuestions).toEqual(['q1']);
+      expect(executor.getPendingQuestions(handle1.runId)?.map((q) => q.id)).toEqual(['q1']);
+
+      const handle2 = executor.resumePipeline({
+        runId: handle1.runId,
+        answers: [{ questionId: 'q1', answer: 'Low', source: 'screening', timestamp: Date.now() }]
+      });
+
+      expect((await handle2.result).status).toBe('success');
+      expect((await checkpointer.load(EXECUTOR_CHECKPOINT_SCOPE, handle1.runId))?.snapshot).toMatchObject({
+        status: 'completed'
+      });
+    });
+
     it('should throw when resuming non-existent run', () => {
       const executor = createPipelineExecutor();
 
@@ -278,6 +446,198 @@ describe('PipelineExecutor', () => {
     });
   });
 
+  describe('Question policy', () => {
+    const blockingQuestion = {
+      id: 'q1',
+      question: 'What is the expected error rate?',
+      rationale: 'Critical for assessment',
+      priority: 'blocking' as const,
+      source: { stage: 'screening' as const },
+      currentAssumption: 'Around 5%'
+    };
+
+    const screeningWithBlockingQuestion: ScreeningOutput = {
+      ...mockScreeningOutput,
+      clarifyingQuestions: [blockingQuestion]
+    };
+
+    it('should continue with current assumptions under the assume policy', async () => {
+      vi.mocked(analyzeScreening).mockResolvedValue(screeningWithBlockingQuestion);
+      const events: PipelineEvent[] = [];
+
+      const executor = createPipelineExecutor({ onEvent: (event) => events.push(event) });
+      const result = await executor.startPipeline({ problem: 'Test problem', questionPolicy: 'assume' }).result;
+
+      expect(result.status).toBe('success');
+      if (result.status === 'success') {
+        expect(result.result.appliedAssumptions).toEqual([
+          expect.objectContaining({ questionId: 'q1', assumption: 'Around 5%', source: { stage: 'screening' } })
+        ]);
+        expect(result.result.answeredQuestions).toEqual([]);
+      }
+      expect(events).toContainEqual({ type: 'answer:assumed', questionId: 'q1', assumption: 'Around 5%' });
+
+      // Later stages see the assumption as an unconfirmed answer
+      const answers = vi.mocked(analyzeAllDimensions).mock.calls[0][2];
+      expect(answers.q1.answer).toBe('Around 5% (assumed; not confirmed by the user)');
+    });
+
+    it('should record when an ask-with-timeout run continues with assumptions', async () => {
+      vi.mocked(analyzeScreening).mockResolvedValue(screeningWithBlockingQuestion);
+
+      const executor = createPipelineExecutor();
+      const before = Date.now();
+      const handle = executor.startPipeline({
+        problem: 'Test problem',
+        questionPolicy: 'ask-with-timeout',
+        questionTimeoutMs: 60_000
+      });
+
+      const suspended = await handle.result;
+      expect(suspended.status).toBe('suspended');
+      const assumeAt = executor.getRunStatus(handle.runId)?.assumeAt;
+      expect(assumeAt).toBeGreaterThanOrEqual(before + 60_000);
+      expect(suspended).toMatchObject({ assumeAt });
+
+      const resumed = await executor.resumePipeline({ runId: handle.runId, answers: [], assume: true }).result;
+
+      expect(resumed.status).toBe('success');
+      if (resumed.status === 'success') {
+        expect(resumed.result.appliedAssumptions?.map((a) => a.questionId)).toEqual(['q1']);
+      }
+      expect(executor.getRunStatus(handle.runId)?.assumeAt).toBeUndefined();
+    });
+
+    it('should not set a deadline under the ask policy', async () => {
+      vi.mocked(analyzeScreening).mockResolvedValue(screeningWithBlockingQuestion);
+
+      const executor = createPipelineExecutor();
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+
+      expect(await handle.result).not.toHaveProperty('assumeAt');
+      expect(executor.getRunStatus(handle.runId)?.assumeAt).toBeUndefined();
+    });
+
+    it('should re-run only the dimension that raised an assumption once it is answered', async () => {
+      const dimensionQuestion: FollowUpQuestion = {
+        ...blockingQuestion,
+        id: 'q-dim',
+        source: { stage: 'dimension', dimensionId: 'error_tolerance' }
+      };
+      const dimensionsWithQuestion: Record<string, DimensionAnalysis> = {
+        ...mockDimensions,
+        error_tolerance: { ...mockDimensions.error_tolerance, infoGaps: [dimensionQuestion] }
+      };
+      vi.mocked(analyzeAllDimensions).mockResolvedValue(dimensionsWithQuestion);
+
+      const executor = createPipelineExecutor();
+      const handle = executor.startPipeline({ problem: 'Test problem', questionPolicy: 'assume' });
+      expect((await handle.result).status).toBe('success');
+
+      vi.mocked(analyzeAllDimensions).mockResolvedValue(mockDimensions);
+      const revised = await executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'q-dim', answer: 'Under 1%', source: 'dimension', timestamp: Date.now() }]
+      }).result;
+
+      expect(revised.status).toBe('success');
+      if (revised.status === 'success') {
+        expect(revised.result.appliedAssumptions).toBeUndefined();
+        expect(revised.result.answeredQuestions).toEqual([
+          { questionId: 'q-dim', answer: 'Under 1%', question: 'What is the expected error rate?' }
+        ]);
+        expect(revised.previousResult?.appliedAssumptions?.map((a) => a.questionId)).toEqual(['q-dim']);
+        expect(revised.result.dimensions).toHaveLength(Object.keys(mockDimensions).length);
+      }
+      // Screening is kept; only the related dimension re-runs, then verdict onwards
+      expect(analyzeScreening).toHaveBeenCalledTimes(1);
+      expect(analyzeAllDimensions).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(analyzeAllDimensions).mock.calls[1][3]).toMatchObject({ dimensionIds: ['error_tolerance'] });
+      expect(calculateVerdict).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revise an answered screening question by re-running every dimension', async () => {
+      vi.mocked(analyzeScreening).mockResolvedValue(screeningWithBlockingQuestion);
+
+      const executor = createPipelineExecutor();
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      expect((await handle.result).status).toBe('suspended');
+      await executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'q1', answer: 'Low', source: 'screening', timestamp: Date.now() }]
+      }).result;
+
+      expect(executor.getRevisableQuestions(handle.runId)).toEqual([
+        {
+          questionId: 'q1',
+          question: 'What is the expected error rate?',
+          answer: 'Low',
+          assumed: false,
+          source: { stage: 'screening' }
+        }
+      ]);
+
+      const revised = await executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'q1', answer: 'High', source: 'screening', timestamp: Date.now() }]
+      }).result;
+
+      expect(revised.status).toBe('success');
+      if (revised.status === 'success') {
+        expect(revised.previousResult?.answeredQuestions?.[0]?.answer).toBe('Low');
+        expect(revised.result.answeredQuestions?.[0]?.answer).toBe('High');
+      }
+      expect(analyzeScreening).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(analyzeAllDimensions).mock.calls[1][3]?.dimensionIds).toEqual(
+        Object.keys(mockDimensions)
+      );
+    });
+
+    it('should revise under a new run id, leaving the completed run as it was', async () => {
+      vi.mocked(analyzeScreening).mockResolvedValue(screeningWithBlockingQuestion);
+
+      const executor = createPipelineExecutor();
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      await handle.result;
+      await executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'q1', answer: 'Low', source: 'screening', timestamp: Date.now() }]
+      }).result;
+
+      const revision = executor.resumePipeline({
+        runId: handle.runId,
+        answers: [{ questionId: 'q1', answer: 'High', source: 'screening', timestamp: Date.now() }],
+        revisionId: 'revision-1'
+      });
+      const revised = await revision.result;
+
+      expect(revision.runId).toBe('revision-1');
+      expect(revised.status).toBe('success');
+      if (revised.status === 'success') {
+        expect(revised.result).toMatchObject({ threadId: 'revision-1', parentThreadId: handle.runId });
+        expect(revised.previousResult?.threadId).toBe(handle.runId);
+      }
+      expect(executor.getRevisableQuestions(handle.runId)?.[0]?.answer).toBe('Low');
+      expect(executor.getRevisableQuestions('revision-1')?.[0]?.answer).toBe('High');
+    });
+
+    it('should only revise completed runs with answered or assumed questions', async () => {
+      const executor = createPipelineExecutor();
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      await handle.result;
+
+      expect(() => executor.resumePipeline({ runId: handle.runId, answers: [] })).toThrow(
+        'is not suspended (status: completed)'
+      );
+      expect(() =>
+        executor.resumePipeline({
+          runId: handle.runId,
+          answers: [{ questionId: 'q1', answer: 'Low', source: 'screening', timestamp: Date.now() }]
+        })
+      ).toThrow(`Run ${handle.runId} has no answered or assumed question q1`);
+    });
+  });
+
   describe('Cancellation', () => {
     it('should cancel running pipeline', async () => {
       // Make screening take a long time and check abort signal
@@ -385,6 +745,65 @@ describe('PipelineExecutor', () => {
     });
   });
 
+  describe('Run expiry', () => {
+    const suspendingScreening = () =>
+      vi.mocked(analyzeScreening).mockResolvedValue({
+        ...mockScreeningOutput,
+        clarifyingQuestions: [
+          {
+            id: 'q1',
+            question: 'What is the expected error rate?',
+            rationale: 'Critical for assessment',
+            priority: 'blocking',
+            source: { stage: 'screening' }
+          }
+        ]
+      });
+
+    it('should remove suspended runs past their TTL from memory and checkpoints', async () => {
+      suspendingScreening();
+      const checkpointer = createMemoryCheckpointer();
+      const executor = createPipelineExecutor({ checkpointer, runTtls: { suspended: 60_000 } });
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      expect((await handle.result).status).toBe('suspended');
+
+      expect(await executor.sweepExpiredRuns(Date.now() + 30_000)).toEqual([]);
+
+      const expired = await executor.sweepExpiredRuns(Date.now() + 61_000);
+
+      expect(expired).toEqual([
+        expect.objectContaining({ runId: handle.runId, status: 'suspended', stage: 'screening' })
+      ]);
+      expect(executor.getRunStatus(handle.runId)).toBeUndefined();
+      expect(await checkpointer.load(EXECUTOR_CHECKPOINT_SCOPE, handle.runId)).toBeNull();
+      expect(await executor.restoreRun(handle.runId)).toBe(false);
+    });
+
+    it('should remove expired checkpoints of runs from other processes', async () => {
+      suspendingScreening();
+      const checkpointer = createMemoryCheckpointer();
+      const handle = createPipelineExecutor({ checkpointer }).startPipeline({ problem: 'Test problem' });
+      await handle.result;
+
+      // A second executor never loaded the run
+      const executor = createPipelineExecutor({ checkpointer });
+      const expired = await executor.sweepExpiredRuns(Date.now() + DEFAULT_RUN_TTLS.suspended + 1);
+
+      expect(expired.map((run) => run.runId)).toEqual([handle.runId]);
+      expect(await checkpointer.list(EXECUTOR_CHECKPOINT_SCOPE)).toEqual([]);
+    });
+
+    it('should use the TTL of the current status', async () => {
+      const executor = createPipelineExecutor({ runTtls: { completed: 1_000 } });
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      expect((await handle.result).status).toBe('success');
+
+      const expired = await executor.sweepExpiredRuns(Date.now() + 2_000);
+
+      expect(expired).toEqual([expect.objectContaining({ runId: handle.runId, status: 'completed' })]);
+    });
+  });
+
   describe('Progress Tracking', () => {
     it('should report progress through stages', async () => {
       const executor = createPipelineExecutor();
@@ -397,4 +816,27 @@ describe('PipelineExecutor', () => {
       expect(finalStatus.progress).toBe(100);
     });
   });
+
+  describe('Model Configuration', () => {
+    it('should pass per-stage models to the analyzers', async () => {
+      const executor = createPipelineExecutor({
+        models: {
+          default: 'anthropic/claude-haiku-4.5',
+          verdict: 'anthropic/claude-opus-4'
+        }
+      });
+      const handle = executor.startPipeline({ problem: 'Test problem' });
+      await handle.result;
+
+      expect(vi.mocked(analyzeScreening).mock.calls[0][2]).toEqual({
+        model: 'anthropic/claude-haiku-4.5',
+        abortSignal: expect.any(AbortSignal)
+      });
+      expect(vi.mocked(calculateVerdict).mock.calls[0].at(-1)).toEqual({
+        model: 'anthropic/claude-opus-4',
+        abortSignal: expect.any(AbortSignal),
+        onReasoningChunk: expect.any(Function)
+      });
+    });
+  });
 });
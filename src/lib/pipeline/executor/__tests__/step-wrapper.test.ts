@@ -157,6 +157,61 @@ describe('Step Wrapper', () => {
       expect(result).toBe('fast');
       expect(fn).toHaveBeenCalledTimes(2);
     });
+
+    it('should abort a timed-out attempt before retrying', async () => {
+      const signals: AbortSignal[] = [];
+      const fn = vi
+        .fn()
+        .mockImplementationOnce(async (signal: AbortSignal) => {
+          signals.push(signal);
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          return 'slow';
+        })
+        .mockImplementation(async (signal: AbortSignal) => {
+          signals.push(signal);
+          expect(signals[0].aborted).toBe(true);
+          return 'fast';
+        });
+
+      const result = await executeWithResilience(fn, createContext({ timeout: 50 }));
+
+      expect(result).toBe('fast');
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it('should abort the running attempt when the run is cancelled', async () => {
+      const controller = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+      const fn = vi.fn().mockImplementation(async (signal: AbortSignal) => {
+        attemptSignal = signal;
+        controller.abort();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 'success';
+      });
+
+      await expect(
+        executeWithResilience(fn, createContext({ abortSignal: controller.signal }))
+      ).rejects.toMatchObject({ code: 'CANCELLED' });
+      expect(attemptSignal?.aborted).toBe(true);
+    });
+
+    it('should unlink each attempt from the run signal once it settles', async () => {
+      const controller = new AbortController();
+      const add = vi.spyOn(controller.signal, 'addEventListener');
+      const remove = vi.spyOn(controller.signal, 'removeEventListener');
+      const fn = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Rate limit exceeded'))
+        .mockResolvedValue('success');
+
+      await executeWithResilience(fn, createContext({ abortSignal: controller.signal }));
+
+      // One listener per attempt, each removed again
+      expect(remove).toHaveBeenCalledTimes(2);
+      for (const [type, listener] of remove.mock.calls) {
+        expect(add).toHaveBeenCalledWith(type, listener, { once: true });
+      }
+    });
   });
 
   describe('executeParallelWithResilience', () => {
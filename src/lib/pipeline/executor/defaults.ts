@@ -13,6 +13,7 @@
 
 import type { PipelineStage } from '../types';
 import type {
+  ExecutionStatus,
   ExecutorOptions,
   RetryOptions,
   StageRetryConfig,
@@ -98,6 +99,33 @@ export const DEFAULT_STAGE_RETRY_CONFIG: StageRetryConfig = {
   synthesis: DEFAULT_RETRY_OPTIONS
 };
 
+// ═══════════════════════════════════════════════════════════════════════════
+// RUN TTL DEFAULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Default time to live per execution status (in milliseconds).
+ *
+ * Suspended runs wait for a person to answer questions, so they are kept
+ * longest. A run still "running" well past the pipeline timeout is stuck.
+ */
+export const DEFAULT_RUN_TTLS: Record<ExecutionStatus, number> = {
+  /** Running: far beyond the 3 minute pipeline timeout */
+  running: 3_600_000,     // 1 hour
+
+  /** Suspended: waiting for answers to questions */
+  suspended: 86_400_000,  // 24 hours
+
+  /** Completed: long enough for status polling after the stream ends */
+  completed: 3_600_000,   // 1 hour
+
+  /** Failed: same as completed */
+  failed: 3_600_000,      // 1 hour
+
+  /** Cancelled: nothing left to do */
+  cancelled: 900_000      // 15 minutes
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // FULL DEFAULTS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -105,11 +133,12 @@ export const DEFAULT_STAGE_RETRY_CONFIG: StageRetryConfig = {
 /**
  * Complete default executor options.
  */
-export const DEFAULT_EXECUTOR_OPTIONS: Required<Omit<ExecutorOptions, 'onEvent'>> = {
+export const DEFAULT_EXECUTOR_OPTIONS: Required<Omit<ExecutorOptions, 'onEvent' | 'models' | 'verdictRules' | 'tools' | 'checkpointer'>> = {
   pipelineTimeout: DEFAULT_PIPELINE_TIMEOUT,
   stageTimeouts: DEFAULT_STAGE_TIMEOUTS,
   retryConfig: DEFAULT_STAGE_RETRY_CONFIG,
-  errorStrategy: 'fail-fast'
+  errorStrategy: 'fail-fast',
+  runTtls: DEFAULT_RUN_TTLS
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -164,7 +193,7 @@ export function getStageRetryOptions(
  */
 export function mergeWithDefaults(
   userOptions?: ExecutorOptions
-): Required<Omit<ExecutorOptions, 'onEvent'>> & Pick<ExecutorOptions, 'onEvent'> {
+): Required<Omit<ExecutorOptions, 'onEvent' | 'models' | 'verdictRules' | 'tools' | 'checkpointer'>> & Pick<ExecutorOptions, 'onEvent' | 'models' | 'verdictRules' | 'tools' | 'checkpointer'> {
   return {
     pipelineTimeout: userOptions?.pipelineTimeout ?? DEFAULT_PIPELINE_TIMEOUT,
     stageTimeouts: {
@@ -176,7 +205,15 @@ export function mergeWithDefaults(
       ...userOptions?.retryConfig
     },
     errorStrategy: userOptions?.errorStrategy ?? 'fail-fast',
-    onEvent: userOptions?.onEvent
+    runTtls: {
+      ...DEFAULT_RUN_TTLS,
+      ...userOptions?.runTtls
+    },
+    onEvent: userOptions?.onEvent,
+    models: userOptions?.models,
+    verdictRules: userOptions?.verdictRules,
+    tools: userOptions?.tools,
+    checkpointer: userOptions?.checkpointer
   };
 }
 
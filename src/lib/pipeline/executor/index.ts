@@ -62,6 +62,7 @@ export type {
   StageRetryConfig,
   ErrorStrategy,
   ExecutorOptions,
+  RunTtlConfig,
 
   // Status types
   ExecutionStatus,
@@ -80,6 +81,9 @@ export type {
   // Context types
   StepExecutionContext,
   ResumeInput,
+  RunCheckpoint,
+  RunRevision,
+  ExpiredRun,
 
   // Interface
   PipelineExecutor
@@ -118,6 +122,7 @@ export {
   DEFAULT_STAGE_TIMEOUTS,
   DEFAULT_RETRY_OPTIONS,
   DEFAULT_STAGE_RETRY_CONFIG,
+  DEFAULT_RUN_TTLS,
   DEFAULT_EXECUTOR_OPTIONS,
 
   // Helpers
@@ -144,5 +149,6 @@ export {
 
 export {
   PipelineExecutorImpl,
-  createPipelineExecutor
+  createPipelineExecutor,
+  EXECUTOR_CHECKPOINT_SCOPE
 } from './pipeline-executor';
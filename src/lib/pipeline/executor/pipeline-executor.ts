@@ -10,25 +10,33 @@
 
 import type { PipelineEvent } from '../events';
 import { events } from '../events';
-import type { WorkflowState } from '../state';
 import {
   createInitialState,
   hasBlockingQuestions,
+  applyAssumptions,
   assembleResult,
+  getAnalysisAnswers,
   getCompletedDimensionCount,
-  getDimensionsArray
+  getDimensionsArray,
+  getUnansweredQuestions,
+  type WorkflowState
 } from '../state';
+import { getRevisableQuestions, getRevisedDimensionIds, type RevisableQuestion } from '../revision';
+import { DEFAULT_QUESTION_TIMEOUT_MS, PIPELINE_STAGES } from '../types';
 import type {
   PipelineInput,
   PipelineStage,
   ScreeningOutput,
   DimensionAnalysis,
+  FollowUpQuestion,
   VerdictResult,
   RiskFactor,
   Alternative,
   RecommendedArchitecture,
   PreBuildQuestion,
-  DimensionId
+  DimensionId,
+  UserAnswer,
+  AnalysisResult
 } from '../types';
 
 // Analyzers
@@ -40,16 +48,19 @@ import {
   analyzeAlternatives,
   recommendArchitecture,
   synthesizeReasoning,
-  ALL_DIMENSION_IDS,
+  type AnalyzerOptions,
   type SynthesisOutput
 } from '../analyzers';
+import { getDimensionRegistry } from '../analyzers/dimensions/registry';
+import { createModelRegistry, type ModelRegistry } from '../models';
 
 // Executor modules
 import {
   mergeWithDefaults,
   getStageTimeout,
   getStageRetryOptions,
-  calculateProgress
+  calculateProgress,
+  DEFAULT_RUN_TTLS
 } from './defaults';
 import { classifyError, createCancellationError, formatError, isFatalError } from './errors';
 import {
@@ -65,26 +76,24 @@ import type {
   PipelineExecutor,
   ResumeInput,
   StepExecutionContext,
-  ExecutionStatus
+  RunCheckpoint,
+  ExpiredRun
 } from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // RUN STATE
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Checkpoint scope for runs of the legacy executor.
+ */
+export const EXECUTOR_CHECKPOINT_SCOPE = 'pipeline-executor';
+
 /**
  * Internal state for a pipeline run.
  */
-interface RunState {
-  runId: string;
-  state: WorkflowState;
-  status: ExecutionStatus;
-  stage: PipelineStage;
-  errors: ExecutorError[];
+interface RunState extends RunCheckpoint {
   abortController: AbortController;
-  startedAt: number;
-  completedAt?: number;
-  completedStages: PipelineStage[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -95,7 +104,7 @@ interface RunState {
  * Implementation of the PipelineExecutor interface.
  *
  * Orchestrates the analysis pipeline by:
- * 1. Managing run state in memory
+ * 1. Managing run state in memory, checkpointed when a checkpointer is set
  * 2. Wrapping each analyzer call with resilience patterns
  * 3. Emitting events at stage boundaries
  * 4. Handling suspension/resumption for questions
@@ -104,9 +113,13 @@ interface RunState {
 export class PipelineExecutorImpl implements PipelineExecutor {
   private readonly options: ReturnType<typeof mergeWithDefaults>;
   private readonly runs: Map<string, RunState> = new Map();
+  private readonly models: ModelRegistry;
+  /** Serializes checkpoint writes so a later snapshot never lands first */
+  private checkpointQueue: Promise<void> = Promise.resolve();
 
   constructor(options?: ExecutorOptions) {
     this.options = mergeWithDefaults(options);
+    this.models = createModelRegistry(this.options.models);
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -137,10 +150,12 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       errors: [],
       abortController: new AbortController(),
       startedAt: Date.now(),
-      completedStages: []
+      completedStages: [],
+      updatedAt: Date.now()
     };
 
     this.runs.set(runId, runState);
+    void this.checkpoint(runState);
 
     // Emit pipeline start event
     this.emitEvent(events.pipelineStart(runId));
@@ -157,42 +172,154 @@ export class PipelineExecutorImpl implements PipelineExecutor {
   }
 
   /**
-   * Resume a suspended pipeline with answers.
+   * Resume a suspended pipeline with answers, or re-analyze a completed one
+   * with answers to its applied assumptions.
    */
   resumePipeline(resumeInput: ResumeInput): ExecutorHandle {
-    const { runId, answers } = resumeInput;
-    const runState = this.runs.get(runId);
+    const { runId, answers, assume, revisionId } = resumeInput;
+    const original = this.runs.get(runId);
 
-    if (!runState) {
+    if (!original) {
       throw new Error(`Run ${runId} not found`);
     }
 
-    if (runState.status !== 'suspended') {
-      throw new Error(`Run ${runId} is not suspended (status: ${runState.status})`);
+    let runState = original;
+    let applied = answers;
+    if (original.status === 'completed') {
+      const previousResult = assembleResult(original.state, runId);
+      runState = revisionId ? this.branchRun(original, revisionId) : original;
+      applied = this.prepareRevision(runState, answers, previousResult);
+      this.runs.set(runState.runId, runState);
+    } else if (original.status !== 'suspended' || revisionId) {
+      throw new Error(`Run ${runId} is not suspended (status: ${original.status})`);
+    } else {
+      runState.revision = undefined;
     }
 
     // Apply answers to state
-    for (const answer of answers) {
+    for (const answer of applied) {
       runState.state.answers[answer.questionId] = answer;
       this.emitEvent(events.answerReceived(answer.questionId, answer.answer));
     }
 
+    if (assume) {
+      this.assumeUnanswered(runState);
+    }
+
     // Update status
     runState.status = 'running';
+    runState.updatedAt = Date.now();
+    runState.assumeAt = undefined;
     runState.abortController = new AbortController();
 
     // Emit resume event
-    this.emitEvent(events.pipelineResumed(runId, runState.stage));
+    const resumedId = runState.runId;
+    this.emitEvent(events.pipelineResumed(resumedId, runState.stage));
 
     // Continue execution from current stage
     const resultPromise = this.executePipeline(runState);
 
     return {
-      runId,
+      runId: resumedId,
       result: resultPromise,
-      cancel: () => this.cancelRun(runId),
-      getStatus: () => this.getRunStatus(runId)!
+      cancel: () => this.cancelRun(resumedId),
+      getStatus: () => this.getRunStatus(resumedId)!
+    };
+  }
+
+  /**
+   * Load a checkpointed run into memory.
+   */
+  async restoreRun(runId: string): Promise<boolean> {
+    if (this.runs.has(runId)) {
+      return true;
+    }
+
+    const checkpoint = await this.options.checkpointer?.load<RunCheckpoint>(
+      EXECUTOR_CHECKPOINT_SCOPE,
+      runId
+    );
+    if (!checkpoint) {
+      return false;
+    }
+
+    // A run that was still running when its process died cannot continue
+    const { snapshot } = checkpoint;
+    this.runs.set(runId, {
+      ...snapshot,
+      // Checkpoints written before assumptions existed
+      state: { ...snapshot.state, assumptions: snapshot.state.assumptions ?? {} },
+      status: snapshot.status === 'running' ? 'failed' : snapshot.status,
+      updatedAt: snapshot.updatedAt ?? checkpoint.updatedAt,
+      abortController: new AbortController()
+    });
+    return true;
+  }
+
+  /**
+   * Track a completed run rebuilt from its result.
+   */
+  restoreCompletedRun(runId: string, state: WorkflowState): void {
+    if (this.runs.has(runId)) {
+      return;
+    }
+
+    const runState: RunState = {
+      runId,
+      state,
+      status: 'completed',
+      stage: 'synthesis',
+      errors: [],
+      abortController: new AbortController(),
+      startedAt: state.startedAt,
+      completedAt: state.completedAt ?? Date.now(),
+      completedStages: [...PIPELINE_STAGES],
+      updatedAt: Date.now()
     };
+    this.runs.set(runId, runState);
+    void this.checkpoint(runState);
+  }
+
+  /**
+   * Remove runs idle for longer than the TTL of their status.
+   */
+  async sweepExpiredRuns(now: number = Date.now()): Promise<ExpiredRun[]> {
+    const expired = new Map<string, ExpiredRun>();
+
+    for (const [runId, runState] of this.runs) {
+      if (!this.isExpired(runState, now)) continue;
+
+      // Stop a stuck run; its final checkpoint is skipped once it is untracked
+      if (runState.status === 'running') {
+        runState.abortController.abort();
+      }
+      this.runs.delete(runId);
+      expired.set(runId, this.toExpiredRun(runState));
+    }
+
+    const { checkpointer } = this.options;
+    if (!checkpointer) {
+      return [...expired.values()];
+    }
+
+    // Let queued writes land so a removed checkpoint is not written back
+    await this.checkpointQueue;
+
+    const checkpoints = await checkpointer.list<RunCheckpoint>(EXECUTOR_CHECKPOINT_SCOPE);
+    for (const { runId, snapshot, updatedAt } of checkpoints) {
+      // Checkpoints of live runs follow their in-memory state
+      if (this.runs.has(runId)) continue;
+
+      const run = { ...snapshot, updatedAt: snapshot.updatedAt ?? updatedAt };
+      if (expired.has(runId) || this.isExpired(run, now)) {
+        await checkpointer.remove(EXECUTOR_CHECKPOINT_SCOPE, runId);
+        if (!expired.has(runId)) {
+          expired.set(runId, this.toExpiredRun(run));
+        }
+      }
+    }
+
+    return [...expired.values()];
   }
 
   /**
@@ -206,16 +333,33 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       runId: runState.runId,
       stage: runState.stage,
       status: runState.status,
-      pendingQuestions: runState.state.pendingQuestions
-        .filter(q => !runState.state.answers[q.id])
-        .map(q => q.id),
+      pendingQuestions: getUnansweredQuestions(runState.state).map(q => q.id),
       errors: [...runState.errors],
       startedAt: runState.startedAt,
       completedAt: runState.completedAt,
-      progress: calculateProgress(runState.completedStages, runState.stage)
+      assumeAt: runState.assumeAt,
+      progress: calculateProgress(runState.completedStages, runState.stage),
+      ...(runState.state.input.ownerId && { ownerId: runState.state.input.ownerId })
     };
   }
 
+  /**
+   * Get the unanswered questions of a run.
+   */
+  getPendingQuestions(runId: string): FollowUpQuestion[] | undefined {
+    const runState = this.runs.get(runId);
+    return runState ? getUnansweredQuestions(runState.state) : undefined;
+  }
+
+  /**
+   * Get the answered and assumed questions of a completed run.
+   */
+  getRevisableQuestions(runId: string): RevisableQuestion[] | undefined {
+    const runState = this.runs.get(runId);
+    if (!runState || runState.status !== 'completed') return undefined;
+    return getRevisableQuestions(runState.state);
+  }
+
   /**
    * Cancel an active run.
    */
@@ -228,6 +372,7 @@ export class PipelineExecutorImpl implements PipelineExecutor {
     runState.abortController.abort();
     runState.status = 'cancelled';
     runState.completedAt = Date.now();
+    runState.updatedAt = runState.completedAt;
 
     const cancelError = createCancellationError(runState.stage);
     runState.errors.push(cancelError);
@@ -237,6 +382,7 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       cancelError.message,
       cancelError.recoverable
     ));
+    void this.checkpoint(runState);
 
     return true;
   }
@@ -256,8 +402,8 @@ export class PipelineExecutorImpl implements PipelineExecutor {
         await this.executeScreeningStage(runState);
 
         // Check for blocking questions after screening
-        if (hasBlockingQuestions(runState.state)) {
-          return this.suspendForQuestions(runState);
+        if (this.shouldSuspend(runState)) {
+          return await this.suspendForQuestions(runState);
         }
       }
 
@@ -265,8 +411,8 @@ export class PipelineExecutorImpl implements PipelineExecutor {
         await this.executeDimensionsStage(runState);
 
         // Check for blocking questions after dimensions
-        if (hasBlockingQuestions(runState.state)) {
-          return this.suspendForQuestions(runState);
+        if (this.shouldSuspend(runState)) {
+          return await this.suspendForQuestions(runState);
         }
       }
 
@@ -285,20 +431,23 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       // Pipeline complete
       runState.status = 'completed';
       runState.completedAt = Date.now();
+      runState.updatedAt = runState.completedAt;
       runState.state.completedAt = runState.completedAt;
 
       const result = assembleResult(runState.state, runState.runId);
 
+      await this.checkpoint(runState);
       this.emitEvent(events.pipelineComplete(result));
 
       return {
         status: 'success',
         result,
         errors: runState.errors,
-        durationMs: runState.completedAt - runState.startedAt
+        durationMs: runState.completedAt - runState.startedAt,
+        ...(runState.revision && { previousResult: runState.revision.previousResult })
       };
     } catch (error) {
-      return this.handleFatalError(runState, error);
+      return await this.handleFatalError(runState, error);
     }
   }
 
@@ -313,7 +462,11 @@ export class PipelineExecutorImpl implements PipelineExecutor {
     const context = this.createStepContext('screening', runState);
 
     const result = await executeWithResilience<ScreeningOutput>(
-      () => analyzeScreening(runState.state.input, runState.state.answers),
+      (signal) => analyzeScreening(
+        runState.state.input,
+        getAnalysisAnswers(runState.state),
+        this.createAnalyzerOptions('screening', signal)
+      ),
       context
     );
 
@@ -346,41 +499,87 @@ export class PipelineExecutorImpl implements PipelineExecutor {
 
   /**
    * Execute the dimensions stage.
+   *
+   * Each dimension is reported the moment its analyzer resolves. When one
+   * raises a blocking question the run would suspend for, the remaining
+   * analyzers are stopped and the stage is left unfinished; after the
+   * answers arrive only the dimensions still missing are analyzed.
    */
   private async executeDimensionsStage(runState: RunState): Promise<void> {
     runState.stage = 'dimensions';
     this.emitEvent(events.pipelineStage('dimensions'));
 
     const context = this.createStepContext('dimensions', runState);
+    const registry = getDimensionRegistry();
+    // A revision only re-runs the dimensions related to the revised answers
+    const dimensionIds = runState.revision?.dimensionIds
+      ?? registry.ids().filter((id) => !runState.state.dimensions[id]);
+
+    for (const dimensionId of dimensionIds) {
+      const priority = runState.state.screening?.dimensionPriorities.find((p) => p.dimensionId === dimensionId);
+      this.emitEvent(events.dimensionStart(
+        dimensionId,
+        registry.get(dimensionId)?.name ?? dimensionId,
+        priority?.priority ?? 'medium'
+      ));
+    }
 
-    // Use the parallel analyzer with resilience wrapper
-    const results = await executeWithResilience<Record<DimensionId, DimensionAnalysis>>(
-      () => analyzeAllDimensions(
-        runState.state.input,
-        runState.state.screening,
-        runState.state.answers
-      ),
-      context
-    );
-
-    // Update state with all dimension results
-    runState.state.dimensions = results;
+    const stop = new AbortController();
+    const finished = new Set<string>();
+    const complete = (analysis: DimensionAnalysis) => {
+      if (finished.has(analysis.id) || !dimensionIds.includes(analysis.id)) return;
+      finished.add(analysis.id);
+      runState.state.dimensions[analysis.id] = analysis;
 
-    // Emit dimension complete events for each dimension
-    for (const [dimId, analysis] of Object.entries(results)) {
-      this.emitEvent(events.dimensionComplete(dimId as DimensionId, analysis));
+      this.emitEvent(events.dimensionComplete(analysis.id, analysis));
 
       // Add any info gaps to pending questions
       for (const question of analysis.infoGaps) {
         runState.state.pendingQuestions.push(question);
         this.emitEvent(events.dimensionQuestion(question));
       }
+
+      if (this.canSuspendEarly(runState)) {
+        stop.abort();
+      }
+    };
+
+    // Use the parallel analyzer with resilience wrapper; a retry only
+    // re-runs the dimensions that have not finished yet
+    await executeWithResilience<Record<DimensionId, DimensionAnalysis>>(
+      async (signal) => {
+        const analyzed = await analyzeAllDimensions(
+          runState.state.input,
+          runState.state.screening,
+          getAnalysisAnswers(runState.state),
+          {
+            ...this.createAnalyzerOptions('dimensions'),
+            tools: this.options.tools,
+            onToolEvent: (event) => this.emitEvent(event),
+            onPreliminary: (event) => this.emitEvent(event),
+            onDimensionComplete: complete,
+            abortSignal: AbortSignal.any([stop.signal, signal]),
+            dimensionIds: dimensionIds.filter((id) => !finished.has(id))
+          }
+        ).catch((error: unknown) => {
+          if (stop.signal.aborted) return {} as Record<DimensionId, DimensionAnalysis>;
+          throw error;
+        });
+        Object.values(analyzed).forEach(complete);
+        return analyzed;
+      },
+      context
+    );
+
+    if (stop.signal.aborted && dimensionIds.some((id) => !finished.has(id))) {
+      // Stopped for a blocking question; the rest run once it is answered
+      return;
     }
 
     // Emit verdict computing progress
     this.emitEvent(events.verdictComputing(
       getCompletedDimensionCount(runState.state),
-      ALL_DIMENSION_IDS.length
+      Object.keys(runState.state.dimensions).length
     ));
 
     runState.completedStages.push('dimensions');
@@ -395,12 +594,27 @@ export class PipelineExecutorImpl implements PipelineExecutor {
 
     const context = this.createStepContext('verdict', runState);
 
+    // A retry re-sends verdict:computing so clients drop the streamed reasoning
+    let attempts = 0;
     const result = await executeWithResilience<VerdictResult>(
-      () => calculateVerdict(
-        runState.state.input,
-        runState.state.screening,
-        runState.state.dimensions
-      ),
+      (signal) => {
+        if (attempts++ > 0) {
+          this.emitEvent(events.verdictComputing(
+            getCompletedDimensionCount(runState.state),
+            Object.keys(runState.state.dimensions).length
+          ));
+        }
+        return calculateVerdict(
+          runState.state.input,
+          runState.state.screening,
+          runState.state.dimensions,
+          {
+            ...this.createAnalyzerOptions('verdict', signal),
+            rules: this.options.verdictRules,
+            onReasoningChunk: (chunk) => this.emitEvent(events.reasoningChunk(chunk, 'verdict'))
+          }
+        );
+      },
       context
     );
 
@@ -411,7 +625,8 @@ export class PipelineExecutorImpl implements PipelineExecutor {
     this.emitEvent(events.verdictResult(
       result.verdict,
       result.confidence,
-      result.summary
+      result.summary,
+      result.weighted
     ));
 
     runState.completedStages.push('verdict');
@@ -427,6 +642,7 @@ export class PipelineExecutorImpl implements PipelineExecutor {
     const context = this.createStepContext('secondary', runState);
     const dimensions = runState.state.dimensions;
     const verdict = runState.state.verdict!;
+    const analyzerOptions = (signal: AbortSignal) => this.createAnalyzerOptions('secondary', signal);
 
     // Run risk, alternatives, and architecture in parallel
     this.emitEvent(events.risksStart());
@@ -437,9 +653,9 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       RiskFactor[] | Alternative[] | { architecture: RecommendedArchitecture | null; questionsBeforeBuilding: PreBuildQuestion[] }
     >(
       [
-        () => analyzeRisks(runState.state.input, dimensions, verdict),
-        () => analyzeAlternatives(runState.state.input, dimensions, verdict),
-        () => recommendArchitecture(runState.state.input, dimensions, verdict)
+        (signal) => analyzeRisks(runState.state.input, dimensions, verdict, analyzerOptions(signal)),
+        (signal) => analyzeAlternatives(runState.state.input, dimensions, verdict, analyzerOptions(signal)),
+        (signal) => recommendArchitecture(runState.state.input, dimensions, verdict, analyzerOptions(signal))
       ],
       context
     );
@@ -500,30 +716,40 @@ export class PipelineExecutorImpl implements PipelineExecutor {
   private async executeSynthesisStage(runState: RunState): Promise<void> {
     runState.stage = 'synthesis';
     this.emitEvent(events.pipelineStage('synthesis'));
-    this.emitEvent(events.reasoningStart());
 
     const context = this.createStepContext('synthesis', runState);
 
+    // reasoning:start is sent per attempt so clients drop text streamed by a failed one
     const result = await executeWithResilience<SynthesisOutput>(
-      () => synthesizeReasoning({
-        input: runState.state.input,
-        screening: runState.state.screening,
-        dimensions: runState.state.dimensions,
-        answers: runState.state.answers,
-        verdict: runState.state.verdict!,
-        risks: runState.state.risks ?? [],
-        alternatives: runState.state.alternatives ?? [],
-        architecture: runState.state.architecture,
-        questionsBeforeBuilding: runState.state.questionsBeforeBuilding ?? []
-      }),
+      (signal) => {
+        this.emitEvent(events.reasoningStart());
+        return synthesizeReasoning({
+          input: runState.state.input,
+          screening: runState.state.screening,
+          dimensions: runState.state.dimensions,
+          answers: getAnalysisAnswers(runState.state),
+          verdict: runState.state.verdict!,
+          risks: runState.state.risks ?? [],
+          alternatives: runState.state.alternatives ?? [],
+          architecture: runState.state.architecture,
+          questionsBeforeBuilding: runState.state.questionsBeforeBuilding ?? []
+        }, {
+          ...this.createAnalyzerOptions('synthesis', signal),
+          onReasoningChunk: (chunk) => this.emitEvent(events.reasoningChunk(chunk))
+        });
+      },
       context
     );
 
-    // Update state with the reasoning narrative
-    runState.state.finalReasoning = result.reasoning;
+    // Update state with the reasoning narrative and its summary
+    const { reasoning, executiveSummary, actionItems, keyTakeaways } = result;
+    runState.state.finalReasoning = reasoning;
+    runState.state.executiveSummary = executiveSummary;
+    runState.state.actionItems = actionItems;
+    runState.state.keyTakeaways = keyTakeaways;
 
     // Emit reasoning complete
-    this.emitEvent(events.reasoningComplete(result.reasoning));
+    this.emitEvent(events.reasoningComplete(reasoning, { executiveSummary, actionItems, keyTakeaways }));
 
     runState.completedStages.push('synthesis');
   }
@@ -553,30 +779,155 @@ export class PipelineExecutorImpl implements PipelineExecutor {
   }
 
   /**
-   * Suspends the pipeline for user input.
+   * Creates analyzer options for a stage using the executor's model registry.
+   */
+  private createAnalyzerOptions(stage: PipelineStage, abortSignal?: AbortSignal): AnalyzerOptions {
+    return { model: this.models.resolve(stage), abortSignal };
+  }
+
+  /**
+   * Whether the run should suspend for its blocking questions. Under the
+   * 'assume' question policy, and while revising a completed run, they are
+   * answered with their current assumptions instead.
+   */
+  private shouldSuspend(runState: RunState): boolean {
+    if (!hasBlockingQuestions(runState.state)) {
+      return false;
+    }
+    if (runState.state.input.questionPolicy === 'assume' || runState.revision) {
+      this.assumeUnanswered(runState);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Whether the run will suspend for a blocking question raised so far, so
+   * the dimensions still being analyzed can be stopped.
+   */
+  private canSuspendEarly(runState: RunState): boolean {
+    return (
+      runState.state.input.questionPolicy !== 'assume' &&
+      !runState.revision &&
+      hasBlockingQuestions(runState.state)
+    );
+  }
+
+  /**
+   * Answers the unanswered blocking questions with their current assumptions.
    */
-  private suspendForQuestions(runState: RunState): ExecutorResult {
+  private assumeUnanswered(runState: RunState): void {
+    for (const assumption of applyAssumptions(runState.state)) {
+      this.emitEvent(events.answerAssumed(assumption.questionId, assumption.assumption));
+    }
+  }
+
+  /**
+   * Prepares a completed run for a revision: keeps the current result for
+   * the diff, drops what the revised answers invalidate (their assumptions,
+   * and the questions and assumptions raised by the dimensions that will
+   * re-run) and resumes at the dimensions stage.
+   *
+   * @param previousResult - The result before the revision
+   * @returns The answers to apply, with the question text filled in
+   */
+  private prepareRevision(
+    runState: RunState,
+    answers: UserAnswer[],
+    previousResult: AnalysisResult
+  ): UserAnswer[] {
+    const { state } = runState;
+    if (answers.length === 0) {
+      throw new Error(`Run ${runState.runId} is not suspended (status: completed)`);
+    }
+    const revisable = new Map(getRevisableQuestions(state).map((q) => [q.questionId, q]));
+    const revised = answers.map((a) => {
+      const question = revisable.get(a.questionId);
+      if (!question) {
+        throw new Error(`Run ${runState.runId} has no answered or assumed question ${a.questionId}`);
+      }
+      return question;
+    });
+
+    const dimensionIds = getRevisedDimensionIds(revised, state.dimensions);
+    const rerun = (source: FollowUpQuestion['source']) =>
+      source.stage === 'dimension' && dimensionIds.includes(source.dimensionId ?? '');
+
+    runState.revision = { dimensionIds, previousResult };
+
+    const answered = new Set(answers.map((a) => a.questionId));
+    for (const [questionId, assumption] of Object.entries(state.assumptions)) {
+      if (answered.has(questionId) || rerun(assumption.source)) {
+        delete state.assumptions[questionId];
+      }
+    }
+    state.pendingQuestions = state.pendingQuestions.filter((q) => !rerun(q.source));
+    state.completedAt = null;
+
+    runState.stage = 'dimensions';
+    runState.completedStages = ['screening'];
+    runState.completedAt = undefined;
+
+    return answers.map((a, i) => ({ ...a, question: a.question ?? revised[i].question }));
+  }
+
+  /**
+   * Copies a completed run under a new id, recording the run as the copy's
+   * parent. The copy is tracked once its revision has been prepared.
+   */
+  private branchRun(runState: RunState, revisionId: string): RunState {
+    const state = structuredClone(runState.state);
+    state.input = { ...state.input, parentThreadId: runState.runId };
+
+    return {
+      runId: revisionId,
+      state,
+      status: runState.status,
+      stage: runState.stage,
+      errors: [...runState.errors],
+      abortController: new AbortController(),
+      startedAt: runState.startedAt,
+      completedAt: runState.completedAt,
+      completedStages: [...runState.completedStages],
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * Suspends the pipeline for user input. Under the 'ask-with-timeout'
+   * question policy the run records when it should continue with
+   * assumptions; the caller schedules that (see ResumeInput.assume).
+   */
+  private async suspendForQuestions(runState: RunState): Promise<ExecutorResult> {
+    const { questionPolicy, questionTimeoutMs } = runState.state.input;
+
     runState.status = 'suspended';
+    runState.updatedAt = Date.now();
+    runState.assumeAt =
+      questionPolicy === 'ask-with-timeout'
+        ? runState.updatedAt + (questionTimeoutMs ?? DEFAULT_QUESTION_TIMEOUT_MS)
+        : undefined;
+    await this.checkpoint(runState);
 
-    const pendingQuestions = runState.state.pendingQuestions
-      .filter(q => !runState.state.answers[q.id])
-      .map(q => q.id);
+    const pendingQuestions = getUnansweredQuestions(runState.state).map(q => q.id);
 
     return {
       status: 'suspended',
       runId: runState.runId,
       pendingQuestions,
       stage: runState.stage,
-      errors: runState.errors
+      errors: runState.errors,
+      ...(runState.assumeAt !== undefined && { assumeAt: runState.assumeAt })
     };
   }
 
   /**
    * Handles a fatal error during execution.
    */
-  private handleFatalError(runState: RunState, error: unknown): ExecutorResult {
+  private async handleFatalError(runState: RunState, error: unknown): Promise<ExecutorResult> {
     runState.status = 'failed';
     runState.completedAt = Date.now();
+    runState.updatedAt = runState.completedAt;
 
     // Classify error if not already an ExecutorError
     const executorError = this.isExecutorError(error)
@@ -610,6 +961,8 @@ export class PipelineExecutorImpl implements PipelineExecutor {
       // Ignore errors assembling partial result
     }
 
+    await this.checkpoint(runState);
+
     return {
       status: 'failed',
       error: executorError,
@@ -618,6 +971,47 @@ export class PipelineExecutorImpl implements PipelineExecutor {
     };
   }
 
+  /**
+   * Saves the run to the checkpointer, if configured.
+   * Failures are logged rather than thrown so storage outages never fail a run.
+   */
+  private async checkpoint(runState: RunState): Promise<void> {
+    const { checkpointer } = this.options;
+    if (!checkpointer) return;
+
+    // Swept runs stay deleted
+    if (this.runs.get(runState.runId) !== runState) return;
+
+    // Snapshot now; the write may wait behind earlier ones
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { abortController, ...run } = runState;
+    const snapshot: RunCheckpoint = JSON.parse(JSON.stringify(run));
+
+    this.checkpointQueue = this.checkpointQueue.then(async () => {
+      try {
+        await checkpointer.save(EXECUTOR_CHECKPOINT_SCOPE, snapshot.runId, snapshot);
+      } catch (error) {
+        console.error(`[executor] Failed to checkpoint run ${snapshot.runId}:`, error);
+      }
+    });
+    await this.checkpointQueue;
+  }
+
+  /**
+   * Whether a run has been idle for longer than the TTL of its status.
+   */
+  private isExpired(run: Pick<RunCheckpoint, 'status' | 'updatedAt'>, now: number): boolean {
+    const ttl = this.options.runTtls[run.status] ?? DEFAULT_RUN_TTLS[run.status];
+    return now - run.updatedAt > ttl;
+  }
+
+  /**
+   * Summarizes a removed run.
+   */
+  private toExpiredRun(run: RunCheckpoint): ExpiredRun {
+    return { runId: run.runId, status: run.status, stage: run.stage, updatedAt: run.updatedAt };
+  }
+
   /**
    * Emits a pipeline event.
    */
@@ -80,14 +80,18 @@ function createTimeoutPromise(ms: number, signal?: AbortSignal): Promise<never>
  * - Cancellation via AbortSignal
  * - Error classification and event emission
  *
- * @param fn - The async function to execute
+ * Each attempt receives its own abort signal, aborted when the attempt times
+ * out or fails and when the run is cancelled. Pass it on to the analyzer so
+ * a timed-out attempt stops streaming before the retry starts.
+ *
+ * @param fn - The async function to execute, given the attempt's abort signal
  * @param context - Execution context with stage info, timeout, and retry options
  * @returns The result of the function or throws on failure
  *
  * @example
  * ```ts
  * const result = await executeWithResilience(
- *   () => analyzeScreening(input, answers),
+ *   (signal) => analyzeScreening(input, answers, { abortSignal: signal }),
  *   {
  *     stage: 'screening',
  *     timeout: 30000,
@@ -100,7 +104,7 @@ function createTimeoutPromise(ms: number, signal?: AbortSignal): Promise<never>
  * ```
  */
 export async function executeWithResilience<T>(
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   context: StepExecutionContext
 ): Promise<T> {
   const {
@@ -126,15 +130,25 @@ export async function executeWithResilience<T>(
       throw cancelError;
     }
 
+    // Each attempt gets its own signal so a timed-out attempt can be stopped
+    // without cancelling the run. It is unlinked from the run's signal once
+    // the attempt settles, so listeners do not pile up across attempts.
+    const attempt = new AbortController();
+    const cancelAttempt = () => attempt.abort();
+    abortSignal?.addEventListener('abort', cancelAttempt, { once: true });
+
     try {
       // Race between execution and timeout
       const result = await Promise.race([
-        fn(),
-        createTimeoutPromise(timeout, abortSignal)
+        fn(attempt.signal),
+        createTimeoutPromise(timeout, attempt.signal)
       ]);
 
       return result;
     } catch (error) {
+      // Stop whatever the failed attempt still has in flight
+      attempt.abort();
+
       // Check if this was a cancellation
       if (abortSignal?.aborted) {
         const cancelError = createCancellationError(stage);
@@ -182,6 +196,8 @@ export async function executeWithResilience<T>(
         onError?.(cancelError);
         throw cancelError;
       }
+    } finally {
+      abortSignal?.removeEventListener('abort', cancelAttempt);
     }
   }
 
@@ -222,7 +238,7 @@ export interface ParallelResult<T> {
  * Unlike Promise.all, this continues executing remaining operations even if
  * some fail. Returns results for all operations with their success/failure status.
  *
- * @param operations - Array of functions to execute
+ * @param operations - Array of functions to execute, each given its attempt's abort signal
  * @param context - Base execution context (will be shared across all operations)
  * @returns Array of results in the same order as operations
  *
@@ -242,7 +258,7 @@ export interface ParallelResult<T> {
  * ```
  */
 export async function executeParallelWithResilience<T>(
-  operations: Array<() => Promise<T>>,
+  operations: Array<(signal: AbortSignal) => Promise<T>>,
   context: StepExecutionContext
 ): Promise<ParallelResult<T>[]> {
   const promises = operations.map(async (fn, index): Promise<ParallelResult<T>> => {
@@ -7,8 +7,20 @@
  * @module pipeline/executor/types
  */
 
+import type { WeightedVerdictConfig } from '../analyzers/weighted-verdict';
+import type { Checkpointer } from '../checkpoint/types';
 import type { PipelineEvent } from '../events';
-import type { AnalysisResult, PipelineInput, PipelineStage, UserAnswer } from '../types';
+import type { StageModelConfig } from '../models';
+import type { RevisableQuestion } from '../revision';
+import type { ToolRegistry } from '../tools';
+import type { WorkflowState } from '../state';
+import type {
+  AnalysisResult,
+  FollowUpQuestion,
+  PipelineInput,
+  PipelineStage,
+  UserAnswer
+} from '../types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // ERROR CODES
@@ -109,10 +121,26 @@ export interface ExecutorOptions {
   retryConfig?: StageRetryConfig;
   /** How to handle errors (default: 'fail-fast') */
   errorStrategy?: ErrorStrategy;
+  /** Model assignment per stage (default: environment config, then `@/lib/ai`) */
+  models?: StageModelConfig;
+  /** Overrides for the weighted verdict used in compare and rules modes */
+  verdictRules?: Partial<WeightedVerdictConfig>;
+  /** Tools offered to dimension analyzers (default: built-in tools) */
+  tools?: ToolRegistry;
+  /** Persists run snapshots so suspended runs survive restarts (default: memory only) */
+  checkpointer?: Checkpointer;
+  /** How long idle runs are kept per status before sweepExpiredRuns() removes them */
+  runTtls?: RunTtlConfig;
   /** Callback for pipeline events */
   onEvent?: (event: PipelineEvent) => void;
 }
 
+/**
+ * Time to live per execution status (in milliseconds), measured from the
+ * run's last status change.
+ */
+export type RunTtlConfig = Partial<Record<ExecutionStatus, number>>;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE STATUS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -145,8 +173,54 @@ export interface PipelineStatus {
   startedAt: number;
   /** When the pipeline completed (if applicable) */
   completedAt?: number;
+  /** When a suspended ask-with-timeout run continues with assumptions */
+  assumeAt?: number;
   /** Progress percentage (0-100) */
   progress: number;
+  /** Who the run belongs to, from `PipelineInput.ownerId` */
+  ownerId?: string;
+}
+
+/**
+ * The latest revision of a completed run.
+ */
+export interface RunRevision {
+  /** Dimensions analyzed again */
+  dimensionIds: string[];
+  /** Result before the revision */
+  previousResult: AnalysisResult;
+}
+
+/**
+ * Serializable snapshot of a run, saved to the checkpointer whenever the
+ * run starts, suspends or finishes.
+ */
+export interface RunCheckpoint {
+  runId: string;
+  state: WorkflowState;
+  status: ExecutionStatus;
+  stage: PipelineStage;
+  errors: ExecutorError[];
+  startedAt: number;
+  completedAt?: number;
+  completedStages: PipelineStage[];
+  /** When the run last changed status */
+  updatedAt: number;
+  /** When a suspended ask-with-timeout run continues with assumptions */
+  assumeAt?: number;
+  /** Set once a completed run has been revised */
+  revision?: RunRevision;
+}
+
+/**
+ * A run removed by sweepExpiredRuns().
+ */
+export interface ExpiredRun {
+  runId: string;
+  status: ExecutionStatus;
+  stage: PipelineStage;
+  /** When the run last changed status */
+  updatedAt: number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -161,6 +235,8 @@ export interface ExecutorSuccessResult {
   result: AnalysisResult;
   errors: ExecutorError[]; // Non-fatal errors that occurred
   durationMs: number;
+  /** Result before the revision, when a completed run was revised */
+  previousResult?: AnalysisResult;
 }
 
 /**
@@ -172,6 +248,8 @@ export interface ExecutorSuspendedResult {
   pendingQuestions: string[];
   stage: PipelineStage;
   errors: ExecutorError[];
+  /** When the run continues with assumptions (question policy 'ask-with-timeout') */
+  assumeAt?: number;
 }
 
 /**
@@ -247,13 +325,21 @@ export interface StepExecutionContext {
 // ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Input for resuming a suspended pipeline.
+ * Input for resuming a suspended pipeline, or revising a completed one with
+ * new answers to questions it answered or assumed.
  */
 export interface ResumeInput {
-  /** Run ID of the suspended pipeline */
+  /** Run ID of the suspended or completed pipeline */
   runId: string;
-  /** Answers to pending questions */
+  /** Answers to pending questions (or revised answers) */
   answers: UserAnswer[];
+  /** Answer the remaining blocking questions with their current assumptions */
+  assume?: boolean;
+  /**
+   * Revise a completed run as a new run with this id, whose parent is the
+   * completed one; the completed run keeps its result
+   */
+  revisionId?: string;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -281,12 +367,34 @@ export interface PipelineExecutor {
   startPipelineWithId(runId: string, input: PipelineInput): ExecutorHandle;
 
   /**
-   * Resume a suspended pipeline with answers.
+   * Resume a suspended pipeline with answers. A completed run can be resumed
+   * with new answers to questions it answered or assumed (a revision): the
+   * related dimensions are analyzed again, then verdict, secondary analyses
+   * and synthesis; blocking questions raised on the way are assumed. With
+   * a `revisionId` the revision runs under that id instead.
+   * The run must be in memory; call restoreRun() first for runs that were
+   * suspended by another process.
    * @param resumeInput - Run ID and answers to questions
    * @returns Handle for managing the resumed execution
    */
   resumePipeline(resumeInput: ResumeInput): ExecutorHandle;
 
+  /**
+   * Load a run from the checkpointer into memory.
+   * @param runId - Run identifier
+   * @returns True if the run is in memory afterwards
+   */
+  restoreRun(runId: string): Promise<boolean>;
+
+  /**
+   * Track a completed run whose state was rebuilt elsewhere (for example
+   * from the assessment history), so it can be revised. A run already in
+   * memory is kept.
+   * @param runId - Run identifier
+   * @param state - Completed workflow state of the run
+   */
+  restoreCompletedRun(runId: string, state: WorkflowState): void;
+
   /**
    * Get the status of an active or recent run.
    * @param runId - Run identifier
@@ -294,10 +402,33 @@ export interface PipelineExecutor {
    */
   getRunStatus(runId: string): PipelineStatus | undefined;
 
+  /**
+   * Get the questions of a run that have not been answered yet.
+   * @param runId - Run identifier
+   * @returns The questions, or undefined if the run is not found
+   */
+  getPendingQuestions(runId: string): FollowUpQuestion[] | undefined;
+
+  /**
+   * Get the questions of a completed run that can be revised.
+   * @param runId - Run identifier
+   * @returns The answered and assumed questions, or undefined if the run is
+   *   not found or not completed
+   */
+  getRevisableQuestions(runId: string): RevisableQuestion[] | undefined;
+
   /**
    * Cancel an active pipeline execution.
    * @param runId - Run identifier to cancel
    * @returns True if cancellation was initiated
    */
   cancelRun(runId: string): boolean;
+
+  /**
+   * Remove runs idle for longer than the TTL of their status, from memory
+   * and from the checkpointer. Running runs past their TTL are aborted.
+   * @param now - Reference time in ms (default: Date.now())
+   * @returns The removed runs
+   */
+  sweepExpiredRuns(now?: number): Promise<ExpiredRun[]>;
 }
@@ -34,6 +34,7 @@ export type {
   // Core types
   PipelineStage,
   DimensionId,
+  BuiltInDimensionId,
   DimensionScore,
   Verdict,
   QuestionPriority,
@@ -47,8 +48,20 @@ export type {
   QuestionOption,
   FollowUpQuestion,
   DimensionAnalysis,
+  DimensionSamples,
+  SamplingConfig,
   VerdictKeyFactor,
   VerdictResult,
+  VerdictMode,
+  IndustryPresetId,
+  QuestionPolicy,
+  AppliedAssumption,
+  DimensionContribution,
+  MustPassCheck,
+  WeightedVerdict,
+  UsageProfile,
+  MonthlyCost,
+  CostEstimate,
   PartialInsight,
   DimensionPriority,
   ScreeningOutput,
@@ -56,6 +69,11 @@ export type {
   Alternative,
   RecommendedArchitecture,
   PreBuildQuestion,
+  PreBuildQuestionCategory,
+  PreBuildQuestionGroup,
+  ActionItemPriority,
+  ActionItem,
+  SynthesisSummary,
   PipelineError,
   PipelineState,
   AnalysisResult
@@ -68,6 +86,8 @@ export type {
 export {
   // Type schemas
   DimensionIdSchema,
+  BuiltInDimensionIdSchema,
+  DIMENSION_ID_PATTERN,
   DimensionScoreSchema,
   VerdictSchema,
   PipelineInputSchema,
@@ -75,8 +95,20 @@ export {
   QuestionOptionSchema,
   FollowUpQuestionSchema,
   DimensionAnalysisSchema,
+  DimensionSamplesSchema,
+  SamplingConfigSchema,
   VerdictKeyFactorSchema,
   VerdictResultSchema,
+  VerdictModeSchema,
+  IndustryPresetIdSchema,
+  QuestionPolicySchema,
+  AppliedAssumptionSchema,
+  DimensionContributionSchema,
+  MustPassCheckSchema,
+  WeightedVerdictSchema,
+  UsageProfileSchema,
+  MonthlyCostSchema,
+  CostEstimateSchema,
   PartialInsightSchema,
   DimensionPrioritySchema,
   ScreeningOutputSchema,
@@ -84,6 +116,9 @@ export {
   AlternativeSchema,
   RecommendedArchitectureSchema,
   PreBuildQuestionSchema,
+  PreBuildQuestionCategorySchema,
+  ActionItemPrioritySchema,
+  ActionItemSchema,
   PipelineErrorSchema,
   AnalysisResultSchema,
 
@@ -93,8 +128,15 @@ export {
   isVerdict,
   isQuestionPriority,
 
+  // Helpers
+  groupPreBuildQuestions,
+
   // Constants
-  PIPELINE_STAGES
+  PIPELINE_STAGES,
+  DEFAULT_QUESTION_TIMEOUT_MS,
+  MAX_DIMENSION_SAMPLES,
+  PRE_BUILD_QUESTION_CATEGORIES,
+  ACTION_ITEM_PRIORITIES
 } from './types';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -133,9 +175,11 @@ export type {
   ArchitectureCompleteEvent,
   PreBuildCompleteEvent,
   ReasoningStartEvent,
+  ReasoningStage,
   ReasoningChunkEvent,
   ReasoningCompleteEvent,
-  AnswerReceivedEvent
+  AnswerReceivedEvent,
+  AnswerAssumedEvent
 } from './events';
 
 export {
@@ -163,12 +207,20 @@ export {
   // Queries
   hasBlockingQuestions,
   getUnansweredQuestions,
+  getAskedQuestions,
   getCompletedDimensionCount,
   getDimensionsArray,
+  getAnalysisAnswers,
   getAnswersArray,
 
+  // Assumptions
+  assumedAnswer,
+  createAssumption,
+  applyAssumptions,
+
   // Result assembly
-  assembleResult
+  assembleResult,
+  restoreStateFromResult
 } from './state';
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -197,6 +249,10 @@ export {
 // ═══════════════════════════════════════════════════════════════════════════
 
 export {
+  // Shared options
+  resolveAnalyzerModel,
+  type AnalyzerOptions,
+
   // Screener (10.2.1)
   analyzeScreening,
 
@@ -205,11 +261,31 @@ export {
   analyzeAllDimensions,
   ALL_DIMENSION_IDS,
   type DimensionAnalyzer,
+  type DimensionAnalyzerOptions,
+  aggregateDimensionSamples,
   DIMENSION_PROMPTS,
   getDimensionPrompt,
+  buildCustomDimensionPrompt,
+  createDimensionRegistry,
+  getDimensionRegistry,
+  resetDimensionRegistry,
+  BUILT_IN_DIMENSIONS,
+  CustomDimensionSchema,
+  type CustomDimension,
+  type DimensionDefinition,
+  type DimensionRegistry,
 
   // Verdict (10.2.3)
   calculateVerdict,
+  type VerdictOptions,
+  computeWeightedVerdict,
+  compareWithAiVerdict,
+  buildWeightedVerdictResult,
+  resolveWeightedVerdictConfig,
+  verdictRank,
+  DEFAULT_WEIGHTED_VERDICT_CONFIG,
+  type WeightedVerdictConfig,
+  type MustPassRule,
 
   // Secondary (10.2.4)
   analyzeRisks,
@@ -222,9 +298,133 @@ export {
   // Synthesizer (10.2.5)
   synthesizeReasoning,
   type SynthesisInput,
+  type SynthesisOptions,
   type SynthesisOutput
 } from './analyzers';
 
+// ═══════════════════════════════════════════════════════════════════════════
+// MODELS (Per-stage model registry, offline mock and replay)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  createModelRegistry,
+  loadModelConfigFromEnv,
+  getDefaultModelRegistry,
+  resetDefaultModelRegistry,
+  setBaseModelConfig,
+  loadMockConfigFromEnv,
+  applyMockConfigFromEnv,
+  REPLAY_FIXTURE_VERSION,
+  type StageModelConfig,
+  type ModelRegistry,
+  type MockModelOptions,
+  type ReplayFixture,
+  type ReplayFixtureSet,
+  type ReplayToolCall,
+  type ReplayModelOptions,
+  type RecordingModelOptions
+} from './models';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOLS (Deterministic tools the model can call during analysis)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  createToolRegistry,
+  getDefaultToolRegistry,
+  resetDefaultToolRegistry,
+  BUILT_IN_TOOLS,
+  weightedScoreTool,
+  calculateWeightedScore,
+  costEstimatorTool,
+  estimateApiCost,
+  domainClassifierTool,
+  classifyDomain,
+  type PipelineTool,
+  type AnyPipelineTool,
+  type ToolDescription,
+  type ToolInvocationHooks,
+  type ToolRegistry,
+  type Domain
+} from './tools';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COST (Pricing table and operating cost estimation)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  MODEL_PRICING,
+  PRICING_UPDATED,
+  DEFAULT_PRICED_MODEL,
+  getModelPricing,
+  requireModelPricing,
+  estimateCost,
+  formatUsd,
+  DEFAULT_REVIEW_MINUTES_PER_ITEM,
+  DEFAULT_REVIEWER_HOURLY_RATE,
+  type ModelPricing
+} from './cost';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRESETS (Industry-specific rubrics and weights)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  INDUSTRY_PRESETS,
+  getIndustryPreset,
+  buildIndustryRubric,
+  type IndustryPreset
+} from './presets';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIAGRAM (Architecture flowcharts as Mermaid and drawable layouts)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  buildArchitectureDiagram,
+  toMermaid,
+  architectureToMermaid,
+  layoutDiagram,
+  DIAGRAM_COLORS,
+  type DiagramNodeKind,
+  type DiagramNode,
+  type DiagramEdge,
+  type ArchitectureDiagram,
+  type DiagramLayout,
+  type PositionedNode,
+  type PositionedEdge
+} from './diagram';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMPARISON (Ranking several analyses side by side, diffing two)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  compareAssessments,
+  MAX_COMPARISON_ITEMS,
+  type ComparisonItem,
+  type ComparisonEntry,
+  type ComparisonCell,
+  type ComparisonDimensionRow,
+  type ComparisonRecommendation,
+  type ComparisonResult,
+  diffAnalysisResults,
+  type AnalysisDiff,
+  type DimensionChange,
+  type ListChange
+} from './comparison';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REVISION (Revising answers of a completed analysis)
+// ═══════════════════════════════════════════════════════════════════════════
+
+export {
+  getRevisableQuestions,
+  getRelatedDimensionIds,
+  getRevisedDimensionIds,
+  type RevisableQuestion
+} from './revision';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // EXECUTOR (Pipeline orchestration with resilience)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -233,6 +433,7 @@ export {
   // Factory
   createPipelineExecutor,
   PipelineExecutorImpl,
+  EXECUTOR_CHECKPOINT_SCOPE,
 
   // Types
   type ExecutorErrorCode,
@@ -248,6 +449,10 @@ export {
   type ExecutionStatus,
   type PipelineExecutor,
   type ResumeInput,
+  type RunCheckpoint,
+  type RunRevision,
+  type RunTtlConfig,
+  type ExpiredRun,
   type RetryOptions,
   type StageTimeoutConfig,
   type StageRetryConfig,
@@ -271,6 +476,7 @@ export {
   DEFAULT_STAGE_TIMEOUTS,
   DEFAULT_RETRY_OPTIONS,
   DEFAULT_STAGE_RETRY_CONFIG,
+  DEFAULT_RUN_TTLS,
   DEFAULT_EXECUTOR_OPTIONS,
   getStageTimeout,
   getStageRetryOptions,
@@ -298,6 +504,7 @@ export {
 
   // Types
   type PipelineClientOptions,
+  type RunInput,
   type PipelineChunk,
   type PipelineWatchState,
   type ProcessDataStreamOptions,
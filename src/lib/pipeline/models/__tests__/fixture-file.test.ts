@@ -0,0 +1,92 @@
+/**
+ * Unit tests for replay fixture persistence.
+ *
+ * @module pipeline/models/__tests__/fixture-file.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  loadFixtureFile,
+  saveFixtureFile,
+  loadReplayConfigFromEnv,
+  loadOfflineModelConfigFromEnv
+} from '../fixture-file';
+import { createFixtureSet } from '../replay-provider';
+
+describe('Fixture File', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'replay-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty set for a missing file', () => {
+    expect(loadFixtureFile(join(dir, 'missing.json'))).toEqual(createFixtureSet());
+  });
+
+  it('should round-trip a fixture set with sorted keys', () => {
+    const path = join(dir, 'nested', 'replay.json');
+    const set = createFixtureSet();
+    const fixture = {
+      stage: 'verdict' as const,
+      label: 'verdict',
+      promptHash: '0000000b',
+      output: { verdict: 'STRONG_FIT' },
+      recordedAt: '2026-01-01T00:00:00.000Z'
+    };
+    set.fixtures['verdict/verdict/0000000b'] = fixture;
+    set.fixtures['screening/screening/0000000a'] = { ...fixture, stage: 'screening', label: 'screening' };
+
+    saveFixtureFile(path, set);
+
+    expect(loadFixtureFile(path)).toEqual(set);
+    expect(Object.keys(JSON.parse(readFileSync(path, 'utf8')).fixtures)).toEqual([
+      'screening/screening/0000000a',
+      'verdict/verdict/0000000b'
+    ]);
+  });
+
+  it('should reject unsupported versions', () => {
+    const path = join(dir, 'old.json');
+    writeFileSync(path, JSON.stringify({ version: 0, fixtures: {} }));
+
+    expect(() => loadFixtureFile(path)).toThrow(/Unsupported replay fixture version/);
+  });
+
+  describe('loadReplayConfigFromEnv', () => {
+    it('should return null unless record or replay is selected', async () => {
+      expect(await loadReplayConfigFromEnv({})).toBeNull();
+      expect(await loadReplayConfigFromEnv({ AI_MODEL_PROVIDER: 'mock' })).toBeNull();
+    });
+
+    it('should build a model for every stage in replay mode', async () => {
+      const config = await loadReplayConfigFromEnv({
+        AI_MODEL_PROVIDER: 'replay',
+        AI_REPLAY_FIXTURES: join(dir, 'replay.json')
+      });
+
+      expect(Object.keys(config ?? {}).sort()).toEqual(
+        ['dimensions', 'screening', 'secondary', 'synthesis', 'verdict']
+      );
+    });
+  });
+
+  describe('loadOfflineModelConfigFromEnv', () => {
+    it('should return null when the real models are used', async () => {
+      expect(await loadOfflineModelConfigFromEnv({})).toBeNull();
+    });
+
+    it('should build the mock config when the provider is mock', async () => {
+      expect(Object.keys((await loadOfflineModelConfigFromEnv({ AI_MODEL_PROVIDER: 'mock' })) ?? {})).toEqual([
+        'default'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the deterministic mock model.
+ *
+ * @module pipeline/models/__tests__/mock-provider.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { createMockModel, generateFromSchema } from '../mock-provider';
+import { analyzeScreening } from '../../analyzers/screener';
+import { ScreeningOutputSchema } from '../../types';
+
+describe('Mock Provider', () => {
+  describe('generateFromSchema', () => {
+    it('should be deterministic for the same seed and path', () => {
+      const schema = { type: 'object', properties: { score: { type: 'number' } } };
+
+      expect(generateFromSchema(schema, '', 'a')).toEqual(generateFromSchema(schema, '', 'a'));
+    });
+
+    it('should pick enum values and respect numeric bounds', () => {
+      const value = generateFromSchema(
+        {
+          type: 'object',
+          properties: {
+            level: { enum: ['low', 'medium', 'high'] },
+            confidence: { type: 'number', minimum: 0, maximum: 1 }
+          }
+        },
+        '',
+        'seed'
+      ) as { level: string; confidence: number };
+
+      expect(['low', 'medium', 'high']).toContain(value.level);
+      expect(value.confidence).toBeGreaterThanOrEqual(0);
+      expect(value.confidence).toBeLessThanOrEqual(1);
+    });
+
+    it('should use the non-null branch of nullable unions', () => {
+      const value = generateFromSchema(
+        { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        'note',
+        'seed'
+      );
+
+      expect(typeof value).toBe('string');
+    });
+
+    it('should honour minItems for arrays', () => {
+      const value = generateFromSchema(
+        { type: 'array', items: { type: 'string' }, minItems: 3 },
+        'items',
+        'seed'
+      );
+
+      expect(value).toHaveLength(3);
+    });
+  });
+
+  describe('createMockModel', () => {
+    it('should satisfy generateObject schemas', async () => {
+      const schema = z.object({
+        name: z.string(),
+        count: z.number().min(1).max(5),
+        tags: z.array(z.string())
+      });
+
+      const { object } = await generateObject({
+        model: createMockModel(),
+        schema,
+        prompt: 'anything'
+      });
+
+      expect(schema.safeParse(object).success).toBe(true);
+    });
+
+    it('should run an analyzer fully offline', async () => {
+      const model = createMockModel();
+
+      const first = await analyzeScreening({ problem: 'Test problem' }, {}, { model });
+      const second = await analyzeScreening({ problem: 'Other problem' }, {}, { model });
+
+      expect(ScreeningOutputSchema.safeParse(first).success).toBe(true);
+      expect(second).toEqual(first);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the model registry.
+ *
+ * @module pipeline/models/__tests__/registry.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createModelRegistry,
+  loadModelConfigFromEnv,
+  loadMockConfigFromEnv,
+  getDefaultModelRegistry,
+  resetDefaultModelRegistry
+} from '../registry';
+import { createMockModel } from '../mock-provider';
+
+describe('Model Registry', () => {
+  afterEach(() => {
+    resetDefaultModelRegistry();
+  });
+
+  describe('createModelRegistry', () => {
+    it('should fall back to the application model', () => {
+      const registry = createModelRegistry();
+
+      expect(registry.resolve('screening')).toBe('anthropic/claude-sonnet-4');
+      expect(registry.resolve('synthesis')).toBe('anthropic/claude-sonnet-4');
+    });
+
+    it('should prefer a stage assignment over the default', () => {
+      const registry = createModelRegistry({
+        default: 'anthropic/claude-haiku-4.5',
+        verdict: 'anthropic/claude-opus-4'
+      });
+
+      expect(registry.resolve('verdict')).toBe('anthropic/claude-opus-4');
+      expect(registry.resolve('dimensions')).toBe('anthropic/claude-haiku-4.5');
+    });
+
+    it('should describe model instances by provider and id', () => {
+      const registry = createModelRegistry({
+        screening: createMockModel({ modelId: 'fixed' })
+      });
+
+      expect(registry.describe('screening')).toBe('mock/fixed');
+      expect(registry.describe('verdict')).toBe('anthropic/claude-sonnet-4');
+    });
+  });
+
+  describe('loadModelConfigFromEnv', () => {
+    it('should return an empty config when nothing is set', () => {
+      expect(loadModelConfigFromEnv({})).toEqual({});
+    });
+
+    it('should read the default and per-stage variables', () => {
+      const config = loadModelConfigFromEnv({
+        AI_MODEL_DEFAULT: 'openai/gpt-5',
+        AI_MODEL_SCREENING: 'anthropic/claude-haiku-4.5'
+      });
+
+      expect(config).toEqual({
+        default: 'openai/gpt-5',
+        screening: 'anthropic/claude-haiku-4.5'
+      });
+    });
+
+    it('should leave the stages to the mock config when the provider is mock', () => {
+      expect(
+        loadModelConfigFromEnv({ AI_MODEL_PROVIDER: 'mock', AI_MODEL_SCREENING: 'openai/gpt-5' })
+      ).toEqual({});
+    });
+  });
+
+  describe('loadMockConfigFromEnv', () => {
+    it('should return null unless the provider is mock', async () => {
+      expect(await loadMockConfigFromEnv({})).toBeNull();
+      expect(await loadMockConfigFromEnv({ AI_MODEL_PROVIDER: 'replay' })).toBeNull();
+    });
+
+    it('should route every stage to the mock model', async () => {
+      const config = await loadMockConfigFromEnv({ AI_MODEL_PROVIDER: 'mock', AI_MOCK_SEED: 'seed' });
+
+      expect(Object.keys(config ?? {})).toEqual(['default']);
+      expect(createModelRegistry(config ?? {}).describe('verdict')).toMatch(/^mock\//);
+    });
+  });
+
+  describe('getDefaultModelRegistry', () => {
+    it('should return the same instance until reset', () => {
+      const first = getDefaultModelRegistry();
+
+      expect(getDefaultModelRegistry()).toBe(first);
+
+      resetDefaultModelRegistry();
+      expect(getDefaultModelRegistry()).not.toBe(first);
+    });
+  });
+});
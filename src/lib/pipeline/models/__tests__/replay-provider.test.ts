@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the record/replay model provider.
+ *
+ * Records a full pipeline run against the mock model, then replays it
+ * through the executor with no other model available.
+ *
+ * @module pipeline/models/__tests__/replay-provider.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { streamObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { createMockModel } from '../mock-provider';
+import {
+  createFixtureSet,
+  createRecordingModels,
+  createReplayModels,
+  type ReplayFixture
+} from '../replay-provider';
+import { analyzeScreening } from '../../analyzers/screener';
+import { createPipelineExecutor } from '../../executor';
+import type { StageModelConfig } from '../types';
+
+const source = { default: createMockModel({ seed: 'recorded' }) };
+
+describe('Replay Provider', () => {
+  describe('createRecordingModels', () => {
+    it('should capture each analyzer response keyed by stage, label and prompt hash', async () => {
+      const fixtures = createFixtureSet();
+      const recorded: string[] = [];
+      const models = createRecordingModels(fixtures, {
+        source,
+        onRecord: (key) => recorded.push(key)
+      });
+
+      const output = await analyzeScreening({ problem: 'Test problem' }, {}, { model: models.screening });
+
+      expect(recorded).toHaveLength(1);
+      expect(recorded[0]).toMatch(/^screening\/screening\/[0-9a-f]{8}$/);
+
+      const fixture = fixtures.fixtures[recorded[0]] as ReplayFixture;
+      expect(fixture.stage).toBe('screening');
+      expect(fixture.label).toBe('screening');
+      expect(fixture.model).toBe('mock/deterministic');
+      expect(fixture.output).toMatchObject({
+        canEvaluate: output.canEvaluate,
+        preliminarySignal: output.preliminarySignal
+      });
+    });
+  });
+
+  describe('createReplayModels', () => {
+    it('should replay a recorded response', async () => {
+      const fixtures = createFixtureSet();
+      const recording = createRecordingModels(fixtures, { source });
+      const input = { problem: 'Test problem' };
+
+      const recorded = await analyzeScreening(input, {}, { model: recording.screening });
+      const replayed = await analyzeScreening(input, {}, { model: createReplayModels(fixtures).screening });
+
+      expect(replayed).toEqual(recorded);
+    });
+
+    it('should throw on prompts that were never recorded', async () => {
+      const models = createReplayModels(createFixtureSet());
+
+      await expect(
+        analyzeScreening({ problem: 'Unrecorded' }, {}, { model: models.screening })
+      ).rejects.toThrow(/No replay fixture for screening\/screening\//);
+    });
+
+    it('should use the fallback model on a miss when configured', async () => {
+      const models = createReplayModels(createFixtureSet(), { fallback: createMockModel() });
+
+      const output = await analyzeScreening({ problem: 'Unrecorded' }, {}, { model: models.screening });
+
+      expect(output.canEvaluate).toBeTypeOf('boolean');
+    });
+
+    it('should replay streamed responses', async () => {
+      const schema = z.object({ summary: z.string() });
+      const fixtures = createFixtureSet();
+      const recording = createRecordingModels(fixtures, { source });
+
+      const collect = async (model: LanguageModel) => {
+        const partials: unknown[] = [];
+        const stream = streamObject({ model, schema, schemaName: 'synthesis', prompt: 'Summarize' });
+        for await (const partial of stream.partialObjectStream) {
+          partials.push(partial);
+        }
+        return partials;
+      };
+
+      const recorded = await collect(recording.synthesis!);
+      const replayed = await collect(createReplayModels(fixtures, { chunkSize: 4 }).synthesis!);
+
+      expect(Object.keys(fixtures.fixtures)[0]).toMatch(/^synthesis\/synthesis\//);
+      expect(replayed.length).toBeGreaterThan(recorded.length);
+      expect(replayed.at(-1)).toEqual(recorded.at(-1));
+    });
+  });
+
+  describe('end-to-end', () => {
+    /**
+     * Runs the executor to completion, answering every pending question.
+     */
+    const runAnsweringQuestions = async (models: StageModelConfig) => {
+      const executor = createPipelineExecutor({ models });
+      let result = await executor.startPipeline({ problem: 'Classify support tickets by urgency' }).result;
+      const suspensions: string[][] = [];
+
+      while (result.status === 'suspended' && suspensions.length < 5) {
+        suspensions.push(result.pendingQuestions);
+        result = await executor.resumePipeline({
+          runId: result.runId,
+          answers: result.pendingQuestions.map((questionId) => ({
+            questionId,
+            answer: 'Yes',
+            source: 'screening' as const,
+            timestamp: 0
+          }))
+        }).result;
+      }
+
+      return { result, suspensions };
+    };
+
+    it('should replay a full run including suspend/resume', async () => {
+      const fixtures = createFixtureSet();
+
+      const recorded = await runAnsweringQuestions(createRecordingModels(fixtures, { source }));
+      const replayed = await runAnsweringQuestions(createReplayModels(fixtures));
+
+      expect(recorded.result.status).toBe('success');
+      expect(recorded.suspensions.length).toBeGreaterThan(0);
+      expect(replayed.suspensions).toEqual(recorded.suspensions);
+      expect(replayed.result.status).toBe('success');
+      if (recorded.result.status === 'success' && replayed.result.status === 'success') {
+        // Only the per-run thread id and timing differ
+        expect(replayed.result.result).toEqual({
+          ...recorded.result.result,
+          threadId: replayed.result.result.threadId,
+          durationMs: replayed.result.result.durationMs
+        });
+      }
+    });
+  });
+});
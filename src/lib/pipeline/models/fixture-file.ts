@@ -0,0 +1,159 @@
+/**
+ * Replay fixture persistence (Node.js only).
+ *
+ * Reads and writes fixture sets as JSON files and builds the record/replay
+ * model config from environment variables:
+ * - `AI_MODEL_PROVIDER=replay` serves responses from `AI_REPLAY_FIXTURES`
+ * - `AI_MODEL_PROVIDER=record` calls the real models and appends every
+ *   response to `AI_REPLAY_FIXTURES`
+ *
+ * The replay and mock providers are imported only when one of these modes
+ * is selected, since they depend on the AI SDK test models.
+ *
+ * Not re-exported from the models barrel, which is also imported by edge
+ * routes where `fs` is unavailable.
+ *
+ * @module pipeline/models/fixture-file
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { loadMockConfigFromEnv, setBaseModelConfig } from './registry';
+import {
+  REPLAY_FIXTURE_VERSION,
+  type ReplayFixture,
+  type ReplayFixtureSet,
+  type StageModelConfig
+} from './types';
+
+/** Default fixture path when `AI_REPLAY_FIXTURES` is unset */
+export const DEFAULT_FIXTURE_PATH = 'fixtures/replay.json';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FILE I/O
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Load a fixture set from disk.
+ *
+ * @param path - JSON file path
+ * @returns The fixture set, or an empty set if the file does not exist
+ * @throws If the file exists but has an unsupported version
+ */
+export function loadFixtureFile(path: string): ReplayFixtureSet {
+  if (!existsSync(path)) {
+    return { version: REPLAY_FIXTURE_VERSION, fixtures: {} };
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as Partial<ReplayFixtureSet>;
+  if (parsed.version !== REPLAY_FIXTURE_VERSION) {
+    throw new Error(
+      `Unsupported replay fixture version ${parsed.version} in ${path} (expected ${REPLAY_FIXTURE_VERSION})`
+    );
+  }
+
+  return { version: REPLAY_FIXTURE_VERSION, fixtures: parsed.fixtures ?? {} };
+}
+
+/**
+ * Write a fixture set to disk, creating parent directories as needed.
+ *
+ * Keys are written in sorted order so recordings diff cleanly.
+ *
+ * @param path - JSON file path
+ * @param fixtureSet - Set to write
+ */
+export function saveFixtureFile(path: string, fixtureSet: ReplayFixtureSet): void {
+  const fixtures: Record<string, ReplayFixture> = {};
+  for (const key of Object.keys(fixtureSet.fixtures).sort()) {
+    fixtures[key] = fixtureSet.fixtures[key];
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify({ version: fixtureSet.version, fixtures }, null, 2)}\n`);
+}
+
+/**
+ * Add one fixture to the file on disk.
+ *
+ * Re-reads the file first so separate processes (or route bundles)
+ * recording into the same path don't overwrite each other's captures.
+ */
+function appendFixture(path: string, key: string, fixture: ReplayFixture): void {
+  const current = loadFixtureFile(path);
+  current.fixtures[key] = fixture;
+  saveFixtureFile(path, current);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENVIRONMENT CONFIG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build the record/replay model config from environment variables.
+ *
+ * In replay mode, `AI_REPLAY_FALLBACK=mock` serves the deterministic mock
+ * model for prompts that were never recorded instead of failing.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Per-stage model config, or null when neither mode is enabled
+ */
+export async function loadReplayConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Promise<StageModelConfig | null> {
+  const path = env.AI_REPLAY_FIXTURES || DEFAULT_FIXTURE_PATH;
+
+  switch (env.AI_MODEL_PROVIDER) {
+    case 'replay': {
+      const { createReplayModels } = await import('./replay-provider');
+      const fallback =
+        env.AI_REPLAY_FALLBACK === 'mock'
+          ? (await import('./mock-provider')).createMockModel({ seed: env.AI_MOCK_SEED })
+          : undefined;
+      return createReplayModels(loadFixtureFile(path), { fallback });
+    }
+
+    case 'record': {
+      const { createRecordingModels } = await import('./replay-provider');
+      return createRecordingModels(loadFixtureFile(path), {
+        onRecord: (key, fixture) => appendFixture(path, key, fixture)
+      });
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the offline model config selected by `AI_MODEL_PROVIDER`: the mock
+ * model, or the record/replay models.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Per-stage model config, or null when the real models are used
+ */
+export async function loadOfflineModelConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Promise<StageModelConfig | null> {
+  return (await loadMockConfigFromEnv(env)) ?? (await loadReplayConfigFromEnv(env));
+}
+
+/** Pending or finished applyOfflineModelConfigFromEnv call */
+let offlineConfigApplied: Promise<void> | null = null;
+
+/**
+ * Install the offline model config selected by `AI_MODEL_PROVIDER`
+ * (mock, replay or record) as the base model config, so both the executor
+ * and the Mastra workflow steps use it.
+ *
+ * Safe to call repeatedly; only the first call has an effect.
+ */
+export function applyOfflineModelConfigFromEnv(): Promise<void> {
+  offlineConfigApplied ??= (async () => {
+    const config = await loadOfflineModelConfigFromEnv();
+    if (config) {
+      setBaseModelConfig(config);
+    }
+  })();
+  return offlineConfigApplied;
+}
@@ -0,0 +1,54 @@
+/**
+ * Model Registry Module
+ *
+ * Assigns language models to pipeline stages and provides offline models
+ * so the full pipeline can run without the AI Gateway in tests and dev:
+ * - Mock: schema-valid synthetic output, no setup required
+ * - Replay: recorded real responses, keyed by stage/label/prompt hash
+ *
+ * The mock and replay providers are built on the AI SDK test models, so they
+ * are not re-exported here; import them from `./mock-provider` and
+ * `./replay-provider` (tests and scripts) or let `applyMockConfigFromEnv()`
+ * load them on demand. File-backed fixtures and the
+ * `AI_MODEL_PROVIDER=record|replay` switch live in `./fixture-file`
+ * (Node.js only).
+ *
+ * @module pipeline/models
+ *
+ * @example
+ * ```ts
+ * import { createModelRegistry } from '@/lib/pipeline/models';
+ * import { createMockModel } from '@/lib/pipeline/models/mock-provider';
+ *
+ * // Cheap model for screening, strong model for the verdict
+ * const registry = createModelRegistry({
+ *   screening: 'anthropic/claude-haiku-4.5',
+ *   verdict: 'anthropic/claude-opus-4'
+ * });
+ *
+ * // Everything offline
+ * const offline = createModelRegistry({ default: createMockModel() });
+ * ```
+ */
+
+export {
+  REPLAY_FIXTURE_VERSION,
+  type StageModelConfig,
+  type ModelRegistry,
+  type ReplayFixture,
+  type ReplayFixtureSet,
+  type ReplayToolCall
+} from './types';
+
+export {
+  createModelRegistry,
+  loadModelConfigFromEnv,
+  getDefaultModelRegistry,
+  resetDefaultModelRegistry,
+  setBaseModelConfig,
+  loadMockConfigFromEnv,
+  applyMockConfigFromEnv
+} from './registry';
+
+export type { MockModelOptions } from './mock-provider';
+export type { ReplayModelOptions, RecordingModelOptions } from './replay-provider';
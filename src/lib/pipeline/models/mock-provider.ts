@@ -0,0 +1,207 @@
+/**
+ * Deterministic mock language model for offline runs.
+ *
+ * Produces schema-valid structured output for any `generateObject` or
+ * `streamObject` call by walking the JSON schema the AI SDK sends with the
+ * request. Values are derived from a hash of the seed, the system prompt and
+ * the field path, so:
+ * - The same analyzer always returns the same output
+ * - Different analyzers (e.g. each dimension) return different outputs
+ * - Question IDs are stable, so answering them lets a run resume cleanly
+ *
+ * The user prompt is intentionally NOT part of the hash. Output does not
+ * depend on the problem description or on answers; this keeps suspend/resume
+ * predictable at the cost of realism.
+ *
+ * @module pipeline/models/mock-provider
+ */
+
+import { MockLanguageModelV3 } from 'ai/test';
+import {
+  hashString,
+  getSystemText,
+  createTextGenerateResult,
+  createTextStreamResult,
+  type CallOptions
+} from './model-utils';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Subset of JSON Schema produced by the AI SDK's Zod conversion.
+ */
+interface JsonSchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchemaNode[];
+  oneOf?: JsonSchemaNode[];
+  properties?: Record<string, JsonSchemaNode>;
+  required?: string[];
+  items?: JsonSchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  description?: string;
+}
+
+/**
+ * Options for the mock model.
+ */
+export interface MockModelOptions {
+  /** Extra seed mixed into every hash (default: 'mock') */
+  seed?: string;
+  /** Model id reported to the AI SDK (default: 'deterministic') */
+  modelId?: string;
+  /** Number of items generated for arrays without minItems (default: 1) */
+  arrayLength?: number;
+  /** Size of each text delta when streaming (default: 32 characters) */
+  chunkSize?: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALUE GENERATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Generates a deterministic value that satisfies a JSON schema node.
+ *
+ * @param node - JSON schema for the value
+ * @param path - Dotted path of the value (used for hashing and labels)
+ * @param seed - Seed string for this call
+ * @param arrayLength - Default number of array items
+ */
+export function generateFromSchema(
+  node: JsonSchemaNode,
+  path: string,
+  seed: string,
+  arrayLength: number = 1
+): unknown {
+  const hash = hashString(`${seed}:${path}`);
+
+  if (node.const !== undefined) {
+    return node.const;
+  }
+
+  if (node.enum && node.enum.length > 0) {
+    return node.enum[hash % node.enum.length];
+  }
+
+  // Nullable / union: prefer the first non-null branch
+  const union = node.anyOf ?? node.oneOf;
+  if (union && union.length > 0) {
+    const branch = union.find((b) => b.type !== 'null') ?? union[0];
+    return generateFromSchema(branch, path, seed, arrayLength);
+  }
+
+  const type = Array.isArray(node.type)
+    ? node.type.find((t) => t !== 'null') ?? node.type[0]
+    : node.type;
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node.properties ?? {})) {
+        result[key] = generateFromSchema(child, path ? `${path}.${key}` : key, seed, arrayLength);
+      }
+      return result;
+    }
+
+    case 'array': {
+      let length = Math.max(node.minItems ?? arrayLength, 0);
+      if (node.maxItems !== undefined) {
+        length = Math.min(length, node.maxItems);
+      }
+      return Array.from({ length }, (_, i) =>
+        generateFromSchema(node.items ?? {}, `${path}[${i}]`, seed, arrayLength)
+      );
+    }
+
+    case 'number':
+    case 'integer': {
+      const min = node.minimum ?? 0;
+      const max = node.maximum ?? min + 1;
+      const fraction = (hash % 1000) / 1000;
+      const value = min + fraction * (max - min);
+      return type === 'integer' ? Math.floor(value) : Math.round(value * 100) / 100;
+    }
+
+    case 'boolean':
+      return hash % 2 === 0;
+
+    case 'null':
+      return null;
+
+    case 'string':
+    default: {
+      const key = path.split('.').pop()?.replace(/\[\d+\]$/, '') ?? 'value';
+      if (key === 'id' || key.endsWith('Id')) {
+        return `mock_${hash.toString(36)}`;
+      }
+      const text = `[mock] ${node.description ?? key}`;
+      return node.minLength && text.length < node.minLength
+        ? text.padEnd(node.minLength, '.')
+        : text;
+    }
+  }
+}
+
+/**
+ * Builds the JSON text the mock model responds with.
+ */
+function buildResponseText(options: CallOptions, settings: Required<MockModelOptions>): string {
+  const seed = `${settings.seed}:${hashString(getSystemText(options))}`;
+
+  if (options.responseFormat?.type === 'json' && options.responseFormat.schema) {
+    const value = generateFromSchema(
+      options.responseFormat.schema as JsonSchemaNode,
+      '',
+      seed,
+      settings.arrayLength
+    );
+    return JSON.stringify(value);
+  }
+
+  return `[mock] response ${hashString(seed).toString(36)}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a deterministic mock model that runs fully offline.
+ *
+ * @param options - Seed and generation settings
+ * @returns A language model usable anywhere the AI SDK accepts a model
+ *
+ * @example
+ * ```ts
+ * const executor = createPipelineExecutor({
+ *   models: { default: createMockModel() }
+ * });
+ * ```
+ */
+export function createMockModel(options: MockModelOptions = {}): MockLanguageModelV3 {
+  const settings: Required<MockModelOptions> = {
+    seed: options.seed ?? 'mock',
+    modelId: options.modelId ?? 'deterministic',
+    arrayLength: options.arrayLength ?? 1,
+    chunkSize: options.chunkSize ?? 32
+  };
+
+  return new MockLanguageModelV3({
+    provider: 'mock',
+    modelId: settings.modelId,
+
+    doGenerate: async (callOptions) =>
+      createTextGenerateResult(callOptions, buildResponseText(callOptions, settings)),
+
+    doStream: async (callOptions) =>
+      createTextStreamResult(callOptions, buildResponseText(callOptions, settings), settings.chunkSize)
+  });
+}
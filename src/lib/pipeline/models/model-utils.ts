@@ -0,0 +1,151 @@
+/**
+ * Shared helpers for the offline model providers.
+ *
+ * The mock and replay providers both speak the AI SDK's LanguageModelV3
+ * protocol directly; these helpers cover the parts they have in common:
+ * stable hashing, usage estimates and turning a response text into a
+ * stream of parts.
+ *
+ * @module pipeline/models/model-utils
+ */
+
+import type { MockLanguageModelV3 } from 'ai/test';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROTOCOL TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Options the AI SDK passes to doGenerate/doStream */
+export type CallOptions = Parameters<MockLanguageModelV3['doGenerate']>[0];
+
+/** Result returned from doGenerate */
+export type GenerateResult = Awaited<ReturnType<MockLanguageModelV3['doGenerate']>>;
+
+/** Result returned from doStream */
+export type StreamResult = Awaited<ReturnType<MockLanguageModelV3['doStream']>>;
+
+/** A single part of a doStream stream */
+export type StreamPart = StreamResult['stream'] extends ReadableStream<infer T> ? T : never;
+
+/** A tool call requested by the model */
+export type ToolCallPart = Extract<GenerateResult['content'][number], { type: 'tool-call' }>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HASHING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * FNV-1a 32-bit hash. Stable across runtimes (Node, edge, browser).
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashes the full prompt of a call (system, user and any prior messages).
+ *
+ * @returns 8-character hex digest
+ */
+export function hashPrompt(options: CallOptions): string {
+  return hashString(JSON.stringify(options.prompt)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Extracts the system prompt text from a call's prompt messages.
+ */
+export function getSystemText(options: CallOptions): string {
+  return options.prompt
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESPONSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Finish reason for a response: `tool-calls` when the model requested tools.
+ */
+function finishReasonFor(toolCalls: ToolCallPart[]): GenerateResult['finishReason'] {
+  return toolCalls.length > 0
+    ? { unified: 'tool-calls', raw: 'tool_use' }
+    : { unified: 'stop', raw: 'stop' };
+}
+
+/**
+ * Approximates token usage (~4 characters per token).
+ */
+export function estimateUsage(options: CallOptions, text: string): GenerateResult['usage'] {
+  const inputTokens = Math.ceil(JSON.stringify(options.prompt).length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+  return {
+    inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: 0, cacheWrite: 0 },
+    outputTokens: { total: outputTokens, text: outputTokens, reasoning: 0 }
+  };
+}
+
+/**
+ * Builds a doGenerate result containing a single text part, followed by
+ * any tool calls (which end the step with `tool-calls`).
+ */
+export function createTextGenerateResult(
+  options: CallOptions,
+  text: string,
+  toolCalls: ToolCallPart[] = []
+): GenerateResult {
+  return {
+    content: [...(text ? [{ type: 'text' as const, text }] : []), ...toolCalls],
+    finishReason: finishReasonFor(toolCalls),
+    usage: estimateUsage(options, text),
+    warnings: []
+  };
+}
+
+/**
+ * Builds a doStream result that emits the text in fixed-size deltas.
+ *
+ * @param options - The call options (for usage estimation)
+ * @param text - Full response text
+ * @param chunkSize - Characters per text delta
+ * @param toolCalls - Tool calls emitted after the text
+ */
+export function createTextStreamResult(
+  options: CallOptions,
+  text: string,
+  chunkSize: number,
+  toolCalls: ToolCallPart[] = []
+): StreamResult {
+  const parts: StreamPart[] = [
+    { type: 'stream-start', warnings: [] },
+    { type: 'text-start', id: 'text' }
+  ];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parts.push({ type: 'text-delta', id: 'text', delta: text.slice(i, i + chunkSize) });
+  }
+  parts.push(
+    { type: 'text-end', id: 'text' },
+    ...toolCalls,
+    {
+      type: 'finish',
+      finishReason: finishReasonFor(toolCalls),
+      usage: estimateUsage(options, text)
+    }
+  );
+
+  return {
+    stream: new ReadableStream<StreamPart>({
+      start(controller) {
+        for (const part of parts) {
+          controller.enqueue(part);
+        }
+        controller.close();
+      }
+    })
+  };
+}
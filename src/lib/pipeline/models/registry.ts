@@ -0,0 +1,192 @@
+/**
+ * Model registry implementation.
+ *
+ * Resolves which language model each pipeline stage uses. Resolution order:
+ * 1. Explicit per-stage assignment in the config
+ * 2. `default` in the config
+ * 3. Application-wide model from `@/lib/ai`
+ *
+ * The config itself is layered: environment < base config (see
+ * `setBaseModelConfig`) < the config passed to `createModelRegistry`.
+ *
+ * The default registry is built from environment variables so deployments
+ * can re-assign models without code changes:
+ * - `AI_MODEL_DEFAULT=<provider/model>` overrides the fallback model
+ * - `AI_MODEL_<STAGE>=<provider/model>` overrides a single stage
+ *   (e.g. `AI_MODEL_SCREENING=anthropic/claude-haiku-4.5`)
+ *
+ * `AI_MODEL_PROVIDER=mock` routes every stage to the offline mock model once
+ * `applyMockConfigFromEnv()` has run. The mock is built on the AI SDK test
+ * models, so it is imported on demand and stays out of the default bundle.
+ *
+ * @module pipeline/models/registry
+ */
+
+import type { LanguageModel } from 'ai';
+import { model as applicationModel } from '@/lib/ai';
+import { PIPELINE_STAGES, type PipelineStage } from '../types';
+import type { ModelRegistry, StageModelConfig } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Describes a model for logs: gateway strings as-is, instances by provider/id.
+ */
+function describeModel(model: LanguageModel): string {
+  return typeof model === 'string' ? model : `${model.provider}/${model.modelId}`;
+}
+
+/**
+ * Creates a model registry from a per-stage configuration.
+ *
+ * @param config - Per-stage model assignments (merged over the environment and base config)
+ * @returns ModelRegistry resolving a model for every stage
+ *
+ * @example
+ * ```ts
+ * const registry = createModelRegistry({
+ *   screening: 'anthropic/claude-haiku-4.5',
+ *   verdict: 'anthropic/claude-opus-4'
+ * });
+ * registry.resolve('dimensions'); // falls back to the default model
+ * ```
+ */
+export function createModelRegistry(config: StageModelConfig = {}): ModelRegistry {
+  const merged: StageModelConfig = {
+    ...loadModelConfigFromEnv(),
+    ...baseConfig,
+    ...config
+  };
+
+  const resolve = (stage: PipelineStage): LanguageModel =>
+    merged[stage] ?? merged.default ?? applicationModel;
+
+  return {
+    resolve,
+    describe: (stage) => describeModel(resolve(stage))
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BASE CONFIG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Process-wide assignments layered over the environment config, for
+ * setups that cannot be expressed as env strings (e.g. replay fixtures
+ * loaded from disk at server start).
+ */
+let baseConfig: StageModelConfig = {};
+
+/**
+ * Set the process-wide base config and rebuild the default registry.
+ *
+ * Registries created afterwards (including executors' registries) pick up
+ * the base config unless their own config overrides a stage.
+ *
+ * @param config - Per-stage model assignments
+ */
+export function setBaseModelConfig(config: StageModelConfig): void {
+  baseConfig = config;
+  defaultRegistry = null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENVIRONMENT CONFIG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads model assignments from environment variables.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Config containing only the stages the environment sets
+ */
+export function loadModelConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): StageModelConfig {
+  const config: StageModelConfig = {};
+
+  // The mock replaces every stage; see applyMockConfigFromEnv
+  if (env.AI_MODEL_PROVIDER === 'mock') {
+    return config;
+  }
+
+  if (env.AI_MODEL_DEFAULT) {
+    config.default = env.AI_MODEL_DEFAULT;
+  }
+
+  for (const stage of PIPELINE_STAGES) {
+    const value = env[`AI_MODEL_${stage.toUpperCase()}`];
+    if (value) {
+      config[stage] = value;
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Builds the mock model config when `AI_MODEL_PROVIDER=mock`.
+ *
+ * @param env - Environment to read (defaults to process.env)
+ * @returns Config routing every stage to the mock, or null for other providers
+ */
+export async function loadMockConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Promise<StageModelConfig | null> {
+  if (env.AI_MODEL_PROVIDER !== 'mock') {
+    return null;
+  }
+
+  const { createMockModel } = await import('./mock-provider');
+  return { default: createMockModel({ seed: env.AI_MOCK_SEED }) };
+}
+
+/** Pending or finished applyMockConfigFromEnv call */
+let mockConfigApplied: Promise<void> | null = null;
+
+/**
+ * Install the mock model as the base config when the environment selects it.
+ *
+ * Safe to call repeatedly; only the first call has an effect.
+ */
+export function applyMockConfigFromEnv(): Promise<void> {
+  mockConfigApplied ??= loadMockConfigFromEnv().then((config) => {
+    if (config) {
+      setBaseModelConfig(config);
+    }
+  });
+  return mockConfigApplied;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Module-level default registry, used by analyzers when the caller does
+ * not pass a model (Mastra workflow steps, legacy routes).
+ */
+let defaultRegistry: ModelRegistry | null = null;
+
+/**
+ * Get the default registry (built lazily from the environment).
+ *
+ * @returns The shared ModelRegistry
+ */
+export function getDefaultModelRegistry(): ModelRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createModelRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Reset the default registry and base config (for testing or after changing env vars).
+ */
+export function resetDefaultModelRegistry(): void {
+  baseConfig = {};
+  defaultRegistry = null;
+}
@@ -0,0 +1,306 @@
+/**
+ * Record/replay model provider for deterministic offline runs.
+ *
+ * Recording wraps the real models and captures every analyzer's structured
+ * output; replaying serves those captures back without network access.
+ * Each capture is keyed by `stage/label/promptHash`:
+ * - `stage` - the pipeline stage the model was resolved for
+ * - `label` - the analyzer's schema name (`screening`, a dimension id,
+ *   `risks`, `alternatives`, `architecture`, `verdict`, `synthesis`)
+ * - `promptHash` - hash of the full prompt, so answering a question or
+ *   changing the problem produces a different key
+ *
+ * Because the key covers the whole prompt, a replayed run follows exactly
+ * the path that was recorded, including suspend/resume with the same answers.
+ * Tool calls are recorded alongside the output; the tools themselves run
+ * again on replay, and since they are deterministic the follow-up prompt
+ * (and therefore its key) matches the recording.
+ *
+ * @module pipeline/models/replay-provider
+ */
+
+import { gateway, type LanguageModel } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { PIPELINE_STAGES, type PipelineStage } from '../types';
+import { createModelRegistry } from './registry';
+import {
+  hashPrompt,
+  createTextGenerateResult,
+  createTextStreamResult,
+  type CallOptions,
+  type StreamPart,
+  type ToolCallPart
+} from './model-utils';
+import {
+  REPLAY_FIXTURE_VERSION,
+  type ReplayFixture,
+  type ReplayFixtureSet,
+  type ReplayToolCall,
+  type StageModelConfig
+} from './types';
+
+export { REPLAY_FIXTURE_VERSION };
+export type { ReplayFixture, ReplayFixtureSet, ReplayToolCall } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Options for replaying fixtures.
+ */
+export interface ReplayModelOptions {
+  /**
+   * Model used when no fixture matches (e.g. `createMockModel()`).
+   * Without a fallback, a miss throws.
+   */
+  fallback?: LanguageModel;
+  /** Size of each text delta when streaming (default: 32 characters) */
+  chunkSize?: number;
+}
+
+/**
+ * Options for recording fixtures.
+ */
+export interface RecordingModelOptions {
+  /** Models to record from (default: the environment/application models) */
+  source?: StageModelConfig;
+  /** Called after each capture, e.g. to persist the set */
+  onRecord?: (key: string, fixture: ReplayFixture) => void;
+}
+
+/** A model instance that implements the v3 specification */
+type ModelInstance = Extract<LanguageModel, { specificationVersion: 'v3' }>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// KEYS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates an empty fixture set.
+ */
+export function createFixtureSet(): ReplayFixtureSet {
+  return { version: REPLAY_FIXTURE_VERSION, fixtures: {} };
+}
+
+/**
+ * Computes the fixture key for a model call.
+ *
+ * @param stage - The stage the model was resolved for
+ * @param options - The call options passed to the model
+ * @returns Key in the form `stage/label/promptHash`
+ */
+export function getFixtureKey(stage: PipelineStage, options: CallOptions): string {
+  const label =
+    options.responseFormat?.type === 'json' && options.responseFormat.name
+      ? options.responseFormat.name
+      : 'text';
+  return `${stage}/${label}/${hashPrompt(options)}`;
+}
+
+/**
+ * Parses a fixture key back into its parts.
+ */
+function parseFixtureKey(key: string): Pick<ReplayFixture, 'label' | 'promptHash'> {
+  const [, label = 'text', promptHash = ''] = key.split('/');
+  return { label, promptHash };
+}
+
+/**
+ * Serializes a fixture output back into response text.
+ */
+function toResponseText(fixture: ReplayFixture): string {
+  return typeof fixture.output === 'string' ? fixture.output : JSON.stringify(fixture.output);
+}
+
+/**
+ * Parses response text into a fixture output (JSON when possible).
+ */
+function fromResponseText(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Converts recorded tool calls back into protocol parts.
+ */
+function toToolCallParts(fixture: ReplayFixture): ToolCallPart[] {
+  return (fixture.toolCalls ?? []).map((call) => ({
+    type: 'tool-call',
+    toolCallId: call.toolCallId,
+    toolName: call.toolName,
+    input: JSON.stringify(call.input)
+  }));
+}
+
+/**
+ * Converts protocol tool-call parts into fixture entries.
+ */
+function fromToolCallParts(parts: ToolCallPart[]): ReplayToolCall[] | undefined {
+  if (parts.length === 0) return undefined;
+  return parts.map((part) => ({
+    toolCallId: part.toolCallId,
+    toolName: part.toolName,
+    input: fromResponseText(part.input)
+  }));
+}
+
+/**
+ * Resolves a model reference to a v3 model instance.
+ */
+function toModelInstance(model: LanguageModel): ModelInstance {
+  if (typeof model === 'string') {
+    return gateway(model);
+  }
+  if (model.specificationVersion !== 'v3') {
+    throw new Error(`Model ${model.provider}/${model.modelId} does not implement the v3 specification`);
+  }
+  return model;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPLAY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a replay model for every stage.
+ *
+ * @param fixtureSet - Recorded responses to serve
+ * @param options - Fallback and streaming settings
+ * @returns Per-stage model config, usable as `ExecutorOptions.models`
+ *
+ * @example
+ * ```ts
+ * const executor = createPipelineExecutor({
+ *   models: createReplayModels(fixtures)
+ * });
+ * ```
+ */
+export function createReplayModels(
+  fixtureSet: ReplayFixtureSet,
+  options: ReplayModelOptions = {}
+): StageModelConfig {
+  const chunkSize = options.chunkSize ?? 32;
+  const fallback = options.fallback ? toModelInstance(options.fallback) : null;
+
+  const lookup = (stage: PipelineStage, callOptions: CallOptions): ReplayFixture | null => {
+    const key = getFixtureKey(stage, callOptions);
+    const fixture = fixtureSet.fixtures[key];
+    if (!fixture && !fallback) {
+      throw new Error(`No replay fixture for ${key}. Record one with AI_MODEL_PROVIDER=record.`);
+    }
+    return fixture ?? null;
+  };
+
+  const config: StageModelConfig = {};
+
+  for (const stage of PIPELINE_STAGES) {
+    config[stage] = new MockLanguageModelV3({
+      provider: 'replay',
+      modelId: stage,
+
+      doGenerate: async (callOptions) => {
+        const fixture = lookup(stage, callOptions);
+        return fixture
+          ? createTextGenerateResult(callOptions, toResponseText(fixture), toToolCallParts(fixture))
+          : fallback!.doGenerate(callOptions);
+      },
+
+      doStream: async (callOptions) => {
+        const fixture = lookup(stage, callOptions);
+        return fixture
+          ? createTextStreamResult(callOptions, toResponseText(fixture), chunkSize, toToolCallParts(fixture))
+          : fallback!.doStream(callOptions);
+      }
+    });
+  }
+
+  return config;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RECORDING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates recording models that delegate to real models and capture
+ * every response into the fixture set.
+ *
+ * @param fixtureSet - Set to record into (mutated in place)
+ * @param options - Source models and a persistence callback
+ * @returns Per-stage model config, usable as `ExecutorOptions.models`
+ */
+export function createRecordingModels(
+  fixtureSet: ReplayFixtureSet,
+  options: RecordingModelOptions = {}
+): StageModelConfig {
+  const sources = createModelRegistry(options.source);
+
+  const record = (
+    stage: PipelineStage,
+    callOptions: CallOptions,
+    model: ModelInstance,
+    text: string,
+    toolCalls: ToolCallPart[]
+  ) => {
+    const key = getFixtureKey(stage, callOptions);
+    const fixture: ReplayFixture = {
+      stage,
+      ...parseFixtureKey(key),
+      output: fromResponseText(text),
+      toolCalls: fromToolCallParts(toolCalls),
+      model: `${model.provider}/${model.modelId}`,
+      recordedAt: new Date().toISOString()
+    };
+    fixtureSet.fixtures[key] = fixture;
+    options.onRecord?.(key, fixture);
+  };
+
+  const config: StageModelConfig = {};
+
+  for (const stage of PIPELINE_STAGES) {
+    config[stage] = new MockLanguageModelV3({
+      provider: 'recording',
+      modelId: stage,
+
+      doGenerate: async (callOptions) => {
+        const model = toModelInstance(sources.resolve(stage));
+        const result = await model.doGenerate(callOptions);
+        const text = result.content
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('');
+        const toolCalls = result.content.filter((part) => part.type === 'tool-call');
+        record(stage, callOptions, model, text, toolCalls);
+        return result;
+      },
+
+      doStream: async (callOptions) => {
+        const model = toModelInstance(sources.resolve(stage));
+        const result = await model.doStream(callOptions);
+        let text = '';
+        const toolCalls: ToolCallPart[] = [];
+
+        const capture = new TransformStream<StreamPart, StreamPart>({
+          transform(part, controller) {
+            if (part.type === 'text-delta') {
+              text += part.delta;
+            } else if (part.type === 'tool-call') {
+              toolCalls.push(part);
+            }
+            controller.enqueue(part);
+          },
+          flush() {
+            record(stage, callOptions, model, text, toolCalls);
+          }
+        });
+
+        return { ...result, stream: result.stream.pipeThrough(capture) };
+      }
+    });
+  }
+
+  return config;
+}
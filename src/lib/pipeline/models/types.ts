@@ -0,0 +1,102 @@
+/**
+ * Model registry type definitions.
+ *
+ * Defines how language models are assigned to pipeline stages so that,
+ * for example, screening can use a cheap model while the verdict uses
+ * a stronger one.
+ *
+ * @module pipeline/models/types
+ */
+
+import type { LanguageModel } from 'ai';
+import type { PipelineStage } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Model assignment per pipeline stage.
+ *
+ * Each entry accepts anything the AI SDK accepts as a model: a gateway
+ * string like `'anthropic/claude-sonnet-4'` or a provider model instance
+ * (including the offline mock from `createMockModel()`).
+ *
+ * Stages without an entry fall back to `default`, then to the
+ * application-wide model in `@/lib/ai`.
+ */
+export interface StageModelConfig {
+  /** Fallback model for any stage without an explicit assignment */
+  default?: LanguageModel;
+  screening?: LanguageModel;
+  dimensions?: LanguageModel;
+  verdict?: LanguageModel;
+  secondary?: LanguageModel;
+  synthesis?: LanguageModel;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REPLAY FIXTURES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Current fixture format version */
+export const REPLAY_FIXTURE_VERSION = 1;
+
+/**
+ * A single recorded model response.
+ */
+export interface ReplayFixture {
+  stage: PipelineStage;
+  /** Analyzer schema name (dimension id for dimension analyzers) */
+  label: string;
+  promptHash: string;
+  /** Parsed JSON output, or the raw text for non-JSON responses */
+  output: unknown;
+  /** Tool calls the model requested in this response */
+  toolCalls?: ReplayToolCall[];
+  /** Model that produced the output */
+  model?: string;
+  /** ISO timestamp of the recording */
+  recordedAt: string;
+}
+
+/**
+ * A recorded tool call.
+ */
+export interface ReplayToolCall {
+  toolCallId: string;
+  toolName: string;
+  /** Parsed tool input */
+  input: unknown;
+}
+
+/**
+ * A collection of recorded responses, keyed by `stage/label/promptHash`.
+ */
+export interface ReplayFixtureSet {
+  version: typeof REPLAY_FIXTURE_VERSION;
+  fixtures: Record<string, ReplayFixture>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resolves the model to use for each pipeline stage.
+ */
+export interface ModelRegistry {
+  /**
+   * Get the model assigned to a stage.
+   * @param stage - The pipeline stage about to call an analyzer
+   * @returns The model for that stage
+   */
+  resolve(stage: PipelineStage): LanguageModel;
+
+  /**
+   * Describe the model assigned to a stage (for logging and diagnostics).
+   * @param stage - The pipeline stage
+   * @returns Gateway id for string models, `provider/modelId` otherwise
+   */
+  describe(stage: PipelineStage): string;
+}
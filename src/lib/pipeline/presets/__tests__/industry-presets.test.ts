@@ -0,0 +1,59 @@
+/**
+ * Unit tests for industry evaluation presets.
+ *
+ * @module pipeline/presets/__tests__/industry-presets.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INDUSTRY_PRESETS, getIndustryPreset, buildIndustryRubric } from '../industry-presets';
+import { getDimensionPrompt } from '../../analyzers/dimensions/prompts';
+import { ALL_DIMENSION_IDS } from '../../analyzers/dimensions';
+import { IndustryPresetIdSchema } from '../../types';
+
+describe('Industry Presets', () => {
+  it('should define a preset for every industry id', () => {
+    for (const id of IndustryPresetIdSchema.options) {
+      expect(INDUSTRY_PRESETS[id].id).toBe(id);
+      for (const multiplier of Object.values(INDUSTRY_PRESETS[id].weightMultipliers)) {
+        expect(multiplier).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('should return undefined without a preset id', () => {
+    expect(getIndustryPreset(undefined)).toBeUndefined();
+    expect(getIndustryPreset('legal')?.label).toBe('Legal');
+  });
+
+  describe('buildIndustryRubric', () => {
+    it('should list the guidance and weight emphasis for adjusted dimensions', () => {
+      const rubric = buildIndustryRubric('error_tolerance', INDUSTRY_PRESETS.healthcare);
+
+      expect(rubric).toMatch(/^## Industry Rubric: Healthcare/);
+      expect(rubric).toContain('patient harm');
+      expect(rubric).toContain('matters more than usual in healthcare (weight ×2)');
+    });
+
+    it('should return an empty string for dimensions the preset leaves alone', () => {
+      expect(buildIndustryRubric('task_determinism', INDUSTRY_PRESETS.healthcare)).toBe('');
+    });
+  });
+
+  describe('getDimensionPrompt', () => {
+    it('should leave the generic prompt unchanged without a preset', () => {
+      for (const id of ALL_DIMENSION_IDS) {
+        expect(getDimensionPrompt(id)).not.toContain('## Industry Rubric');
+      }
+    });
+
+    it('should insert the rubric before the task instructions', () => {
+      const generic = getDimensionPrompt('error_tolerance');
+      const prompt = getDimensionPrompt('error_tolerance', 'healthcare');
+      const rubricAt = prompt.indexOf('## Industry Rubric: Healthcare');
+
+      expect(rubricAt).toBeGreaterThan(0);
+      expect(rubricAt).toBeLessThan(prompt.indexOf('## Your Task'));
+      expect(prompt.length).toBeGreaterThan(generic.length);
+    });
+  });
+});
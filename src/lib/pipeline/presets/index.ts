@@ -0,0 +1,12 @@
+/**
+ * Industry preset exports.
+ *
+ * @module pipeline/presets
+ */
+
+export {
+  INDUSTRY_PRESETS,
+  getIndustryPreset,
+  buildIndustryRubric,
+  type IndustryPreset
+} from './industry-presets';
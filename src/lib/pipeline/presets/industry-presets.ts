@@ -0,0 +1,209 @@
+/**
+ * Industry evaluation presets.
+ *
+ * The dimension rubrics are written for a generic business problem. A
+ * preset adds industry-specific rubric text to individual dimensions
+ * (e.g. judging error tolerance against regulatory expectations in
+ * healthcare) and scales the dimension weights used by the weighted
+ * verdict.
+ *
+ * @module pipeline/presets/industry-presets
+ */
+
+import type { DimensionId, IndustryPresetId } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Industry-specific adjustments to the evaluation.
+ */
+export interface IndustryPreset {
+  id: IndustryPresetId;
+  /** Display name */
+  label: string;
+  /** One-line description shown in the intake form */
+  description: string;
+  /** Extra rubric guidance per dimension, added to its prompt */
+  rubric: Partial<Record<DimensionId, string[]>>;
+  /** Multipliers applied to dimension weights in the weighted verdict (1 = unchanged) */
+  weightMultipliers: Partial<Record<DimensionId, number>>;
+  /** Guidance for the verdict stage */
+  verdictGuidance: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRESETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const INDUSTRY_PRESETS: Record<IndustryPresetId, IndustryPreset> = {
+  healthcare: {
+    id: 'healthcare',
+    label: 'Healthcare',
+    description: 'Clinical, patient-facing and health data workflows',
+    rubric: {
+      error_tolerance: [
+        'Judge errors by potential patient harm, not by how easily staff can correct them',
+        'Anything that informs diagnosis, treatment or medication is UNFAVORABLE unless a clinician reviews every output before it is acted on',
+        'Software that influences clinical decisions may be regulated as a medical device (FDA SaMD, EU MDR)'
+      ],
+      data_availability: [
+        'Patient data is PHI: HIPAA (or GDPR health data rules) constrains training, retention and third-party model use',
+        'Require a business associate agreement with any model provider before counting PHI as available'
+      ],
+      rate_of_change: [
+        'Clinical guidelines, formularies and payer rules change; outputs must track the current version',
+        'Score UNFAVORABLE if there is no process to revalidate outputs when guidelines change'
+      ],
+      human_oversight_cost: [
+        'Clinician review time is expensive and scarce; oversight that needs a clinician per output is a significant cost'
+      ]
+    },
+    weightMultipliers: { error_tolerance: 2.0, human_oversight_cost: 1.5, edge_case_risk: 1.5, rate_of_change: 1.3 },
+    verdictGuidance:
+      'Healthcare: patient safety outweighs efficiency. Do not give STRONG_FIT to anything that influences clinical decisions without clinician review.'
+  },
+
+  'financial-services': {
+    id: 'financial-services',
+    label: 'Financial Services',
+    description: 'Banking, lending, insurance, payments and trading',
+    rubric: {
+      error_tolerance: [
+        'Judge errors against regulatory exposure: fair lending (ECOA, Reg B), consumer protection (UDAAP) and model risk management (SR 11-7)',
+        'Credit, underwriting and fraud decisions that affect customers need explainable, adverse-action-ready reasons; opaque outputs are UNFAVORABLE',
+        'Numerical errors in amounts, rates or balances are high-impact even when rare'
+      ],
+      rate_of_change: [
+        'Regulations, rates and product terms change frequently; models need documented revalidation when they do',
+        'Fraud patterns are adversarial and drift quickly'
+      ],
+      evaluation_clarity: [
+        'Model risk management expects documented validation, ongoing monitoring and outcome testing; score lower if these cannot be produced'
+      ]
+    },
+    weightMultipliers: { error_tolerance: 1.8, evaluation_clarity: 1.5, rate_of_change: 1.3, edge_case_risk: 1.3 },
+    verdictGuidance:
+      'Financial services: regulatory and model-risk requirements apply. Customer-affecting decisions need explainability and documented validation.'
+  },
+
+  legal: {
+    id: 'legal',
+    label: 'Legal',
+    description: 'Contracts, compliance, litigation and legal research',
+    rubric: {
+      error_tolerance: [
+        'Outputs relied on as legal advice carry liability; fabricated citations or misstated terms are UNFAVORABLE unless a lawyer reviews every output',
+        'Privilege and confidentiality obligations apply to the inputs as well as the outputs'
+      ],
+      rate_of_change: [
+        'Case law, statutes and regulations change; outputs must reflect the law in force for the relevant jurisdiction'
+      ],
+      task_determinism: [
+        'Clause extraction and classification are bounded; drafting and legal judgment are open-ended'
+      ]
+    },
+    weightMultipliers: { error_tolerance: 1.8, human_oversight_cost: 1.5, rate_of_change: 1.3 },
+    verdictGuidance:
+      'Legal: treat the system as an assistant to lawyers. Unreviewed legal advice should not receive a favorable verdict.'
+  },
+
+  'e-commerce': {
+    id: 'e-commerce',
+    label: 'E-commerce',
+    description: 'Catalogues, search, merchandising and customer orders',
+    rubric: {
+      error_tolerance: [
+        'Most errors are recoverable (edit a listing, refund an order) but pricing and product-safety claims carry consumer-protection risk'
+      ],
+      rate_of_change: [
+        'Catalogue, pricing and inventory change daily; ground outputs in live data rather than training data'
+      ],
+      data_availability: [
+        'Product data, reviews and order history usually provide rich examples; check catalogue quality before counting on it'
+      ]
+    },
+    weightMultipliers: { rate_of_change: 1.3, data_availability: 1.2, human_oversight_cost: 1.2 },
+    verdictGuidance:
+      'E-commerce: volume makes per-item review and per-request cost decisive; weigh whether errors reach customers before review.'
+  },
+
+  'internal-tooling': {
+    id: 'internal-tooling',
+    label: 'Internal Tooling',
+    description: 'Employee-facing productivity and operations tools',
+    rubric: {
+      error_tolerance: [
+        'Users are employees who can be trained to verify outputs; errors are usually FAVORABLE to NEUTRAL unless they flow into customer-facing or financial systems'
+      ],
+      human_oversight_cost: [
+        'The user is often the reviewer; oversight is cheap when checking an output is faster than producing it'
+      ],
+      evaluation_clarity: [
+        'Adoption and time saved are measurable; favor problems with a clear before/after baseline'
+      ]
+    },
+    weightMultipliers: { error_tolerance: 0.8, evaluation_clarity: 1.2 },
+    verdictGuidance:
+      'Internal tooling: employees can verify outputs, so moderate error rates are acceptable if the tool saves time overall.'
+  },
+
+  'customer-support': {
+    id: 'customer-support',
+    label: 'Customer Support',
+    description: 'Ticket triage, agent assistance and self-service',
+    rubric: {
+      error_tolerance: [
+        'Agent-assist drafts reviewed by a human are low risk; fully automated customer replies are visible errors that affect trust'
+      ],
+      edge_case_risk: [
+        'Angry, ambiguous or multi-issue messages are common; require an escalation path to a human'
+      ],
+      data_availability: [
+        'Historical tickets with resolutions are usually a rich labelled dataset'
+      ]
+    },
+    weightMultipliers: { edge_case_risk: 1.3, data_availability: 1.2 },
+    verdictGuidance:
+      'Customer support: distinguish agent-assist (reviewed) from customer-facing automation (unreviewed) when judging risk.'
+  }
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOOKUP
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get an industry preset.
+ *
+ * @param id - Preset id (undefined for the generic rubric)
+ * @returns The preset, or undefined when no preset is selected
+ */
+export function getIndustryPreset(id: IndustryPresetId | undefined): IndustryPreset | undefined {
+  return id ? INDUSTRY_PRESETS[id] : undefined;
+}
+
+/**
+ * Builds the rubric section a preset adds to a dimension prompt.
+ *
+ * @param dimensionId - Dimension being prompted
+ * @param preset - Selected preset
+ * @returns Markdown section, or an empty string if the preset does not
+ *   adjust this dimension
+ */
+export function buildIndustryRubric(dimensionId: DimensionId, preset: IndustryPreset): string {
+  const guidance = preset.rubric[dimensionId] ?? [];
+  const multiplier = preset.weightMultipliers[dimensionId];
+  if (guidance.length === 0 && multiplier === undefined) {
+    return '';
+  }
+
+  const lines = [`## Industry Rubric: ${preset.label}`, ...guidance.map((g) => `- ${g}`)];
+  if (multiplier !== undefined && multiplier !== 1) {
+    lines.push(
+      `- This dimension matters ${multiplier > 1 ? 'more' : 'less'} than usual in ${preset.label.toLowerCase()} (weight ×${multiplier}); reflect that in the weight you report`
+    );
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for revising answers of completed runs.
+ *
+ * @module pipeline/revision/__tests__/revise.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRelatedDimensionIds, getRevisableQuestions, getRevisedDimensionIds } from '../revise';
+import { createAssumption, createInitialState } from '../../state';
+import type { DimensionAnalysis, DimensionScore, FollowUpQuestion } from '../../types';
+
+function question(id: string, source: FollowUpQuestion['source']): FollowUpQuestion {
+  return {
+    id,
+    question: `Question ${id}?`,
+    rationale: '',
+    priority: 'blocking',
+    source,
+    currentAssumption: `Assumed ${id}`
+  };
+}
+
+function dimension(id: string, score: DimensionScore, infoGaps: FollowUpQuestion[] = []): DimensionAnalysis {
+  return {
+    id,
+    name: id.replace(/_/g, ' '),
+    score,
+    confidence: 0.8,
+    weight: 0.8,
+    reasoning: '',
+    evidence: [],
+    infoGaps,
+    status: 'complete'
+  };
+}
+
+describe('getRelatedDimensionIds', () => {
+  const dimensions = {
+    error_tolerance: dimension('error_tolerance', 'neutral', [
+      question('q-gap', { stage: 'dimension', dimensionId: 'error_tolerance' })
+    ]),
+    data_availability: dimension('data_availability', 'neutral', [
+      question('q-gap', { stage: 'dimension', dimensionId: 'error_tolerance' })
+    ]),
+    rate_of_change: dimension('rate_of_change', 'neutral')
+  };
+
+  it('should include the raising dimension and those listing it as an info gap', () => {
+    expect(
+      getRelatedDimensionIds(
+        { questionId: 'q-gap', source: { stage: 'dimension', dimensionId: 'error_tolerance' } },
+        dimensions
+      )
+    ).toEqual(['error_tolerance', 'data_availability']);
+  });
+
+  it('should re-run every dimension for a question no dimension relates to', () => {
+    const screening = { questionId: 'q-screen', source: { stage: 'screening' as const } };
+
+    expect(getRelatedDimensionIds(screening, dimensions)).toEqual([]);
+    expect(getRevisedDimensionIds([screening], dimensions)).toEqual(Object.keys(dimensions));
+  });
+
+  it('should union the related dimensions of several questions', () => {
+    expect(
+      getRevisedDimensionIds(
+        [
+          { questionId: 'q-a', source: { stage: 'dimension', dimensionId: 'rate_of_change' } },
+          { questionId: 'q-gap', source: { stage: 'dimension', dimensionId: 'error_tolerance' } }
+        ],
+        dimensions
+      )
+    ).toEqual(['rate_of_change', 'error_tolerance', 'data_availability']);
+  });
+});
+
+describe('getRevisableQuestions', () => {
+  it('should list answered questions, then assumed ones', () => {
+    const state = createInitialState({ problem: 'Problem' });
+    state.screening = {
+      canEvaluate: true,
+      clarifyingQuestions: [question('q1', { stage: 'screening' }), question('q2', { stage: 'screening' })],
+      partialInsights: [],
+      preliminarySignal: 'uncertain',
+      dimensionPriorities: []
+    };
+    state.answers.q1 = { questionId: 'q1', answer: 'Yes', source: 'screening', timestamp: 1 };
+    state.assumptions.q2 = createAssumption(question('q2', { stage: 'screening' }), 2);
+
+    expect(getRevisableQuestions(state)).toEqual([
+      { questionId: 'q1', question: 'Question q1?', answer: 'Yes', assumed: false, source: { stage: 'screening' } },
+      { questionId: 'q2', question: 'Question q2?', answer: 'Assumed q2', assumed: true, source: { stage: 'screening' } }
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Browser client for the revise API.
+ *
+ * The revision panel imports `./client` directly, like the batch panel.
+ *
+ * @module pipeline/revision/client
+ */
+
+import type { Answer } from '@/app/api/pipeline/_lib/validation';
+import type { AnalysisResult } from '../types';
+import type { AnalysisDiff } from '../comparison/diff';
+import type { RevisableQuestion } from './revise';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Response of POST /api/pipeline/revise.
+ */
+export interface RevisionResponse {
+  result: AnalysisResult;
+  previousResult: AnalysisResult;
+  diff: AnalysisDiff;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function request<T>(url: string, init: RequestInit | undefined, action: string): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || `${action} failed: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// API
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Fetches the answered and assumed questions of a completed run.
+ */
+export async function fetchRevisableQuestions(runId: string, baseUrl = ''): Promise<RevisableQuestion[]> {
+  const { questions } = await request<{ questions: RevisableQuestion[] }>(
+    `${baseUrl}/api/pipeline/revise?runId=${encodeURIComponent(runId)}`,
+    undefined,
+    'Loading answers'
+  );
+  return questions;
+}
+
+/**
+ * Revises answers of a completed run and waits for the re-analysis.
+ */
+export function reviseAnswers(runId: string, answers: Answer[], baseUrl = ''): Promise<RevisionResponse> {
+  return request<RevisionResponse>(
+    `${baseUrl}/api/pipeline/revise`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ runId, answers })
+    },
+    'Revising answer'
+  );
+}
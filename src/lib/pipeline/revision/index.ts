@@ -0,0 +1,12 @@
+/**
+ * Answer revision exports.
+ *
+ * @module pipeline/revision
+ */
+
+export {
+  getRevisableQuestions,
+  getRelatedDimensionIds,
+  getRevisedDimensionIds,
+  type RevisableQuestion
+} from './revise';
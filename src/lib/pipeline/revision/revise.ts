@@ -0,0 +1,122 @@
+/**
+ * Answer Revision
+ *
+ * Helpers for revising an answer after a run has completed. Only the
+ * dimensions related to a revised question are analyzed again:
+ *
+ * - the dimension that raised it (`source.dimensionId`), and
+ * - every dimension listing it among its `infoGaps`.
+ *
+ * A question no dimension relates to (typically a screening question, whose
+ * answer feeds every dimension prompt) re-runs all dimensions. Verdict,
+ * secondary analyses and synthesis always re-run.
+ *
+ * @module pipeline/revision/revise
+ */
+
+import { getAskedQuestions, type WorkflowState } from '../state';
+import type { DimensionAnalysis, DimensionId, FollowUpQuestion } from '../types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A question of a completed run that can be revised: one the user answered,
+ * or one answered with an assumption.
+ */
+export interface RevisableQuestion {
+  questionId: string;
+  question: string;
+  /** Current answer (the assumption, for assumed questions) */
+  answer: string;
+  /** True when the current answer is an applied assumption */
+  assumed: boolean;
+  source: FollowUpQuestion['source'];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REVISABLE QUESTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lists the questions of a run that have an answer or an assumption.
+ *
+ * @param state - The workflow state of the run
+ * @returns Answered questions first, then assumed ones
+ */
+export function getRevisableQuestions(state: WorkflowState): RevisableQuestion[] {
+  const asked = new Map(getAskedQuestions(state).map((q) => [q.id, q]));
+
+  const answered = Object.values(state.answers).map((a): RevisableQuestion => {
+    const question = asked.get(a.questionId);
+    return {
+      questionId: a.questionId,
+      question: question?.question ?? a.question ?? a.questionId,
+      answer: a.answer,
+      assumed: false,
+      source: question?.source ?? { stage: a.source }
+    };
+  });
+
+  const assumed = Object.values(state.assumptions)
+    .filter((a) => !state.answers[a.questionId])
+    .map((a): RevisableQuestion => ({
+      questionId: a.questionId,
+      question: a.question,
+      answer: a.assumption,
+      assumed: true,
+      source: a.source
+    }));
+
+  return [...answered, ...assumed];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RELATED DIMENSIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Finds the dimensions related to a question: the one that raised it and
+ * those listing it among their info gaps.
+ *
+ * @param question - The revised question
+ * @param dimensions - Dimension analyses of the run
+ * @returns Related dimension ids, possibly empty
+ */
+export function getRelatedDimensionIds(
+  question: Pick<RevisableQuestion, 'questionId' | 'source'>,
+  dimensions: Record<string, DimensionAnalysis>
+): DimensionId[] {
+  return Object.values(dimensions)
+    .filter(
+      (d) =>
+        question.source.dimensionId === d.id ||
+        d.infoGaps.some((gap) => gap.id === question.questionId)
+    )
+    .map((d) => d.id);
+}
+
+/**
+ * Chooses the dimensions to analyze again for a set of revised questions:
+ * the union of their related dimensions, or every dimension when one of
+ * them relates to none.
+ *
+ * @param questions - The revised questions
+ * @param dimensions - Dimension analyses of the run
+ * @returns Dimension ids to re-run
+ */
+export function getRevisedDimensionIds(
+  questions: Pick<RevisableQuestion, 'questionId' | 'source'>[],
+  dimensions: Record<string, DimensionAnalysis>
+): DimensionId[] {
+  const ids = new Set<DimensionId>();
+  for (const question of questions) {
+    const related = getRelatedDimensionIds(question, dimensions);
+    if (related.length === 0) {
+      return Object.keys(dimensions);
+    }
+    related.forEach((id) => ids.add(id));
+  }
+  return [...ids];
+}
@@ -10,6 +10,7 @@
 
 import type {
   PipelineInput,
+  AppliedAssumption,
   DimensionAnalysis,
   FollowUpQuestion,
   AnalysisResult,
@@ -20,8 +21,10 @@ import type {
   RiskFactor,
   Alternative,
   RecommendedArchitecture,
-  PreBuildQuestion
+  PreBuildQuestion,
+  ActionItem
 } from './types';
+import { estimateCost } from './cost';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // WORKFLOW STATE SCHEMA
@@ -40,6 +43,9 @@ export interface WorkflowState {
   // Accumulated user answers (questionId -> answer)
   answers: Record<string, UserAnswer>;
 
+  // Blocking questions answered with an assumption (questionId -> assumption)
+  assumptions: Record<string, AppliedAssumption>;
+
   // Screening result
   screening: ScreeningOutput | null;
 
@@ -60,6 +66,9 @@ export interface WorkflowState {
 
   // Final synthesis
   finalReasoning: string | null;
+  executiveSummary: string | null;
+  actionItems: ActionItem[] | null;
+  keyTakeaways: string[] | null;
 
   // Timing
   startedAt: number;
@@ -95,6 +104,7 @@ export function createInitialState(input: PipelineInput): WorkflowState {
   return {
     input,
     answers,
+    assumptions: {},
     screening: null,
     dimensions: {},
     pendingQuestions: [],
@@ -104,6 +114,9 @@ export function createInitialState(input: PipelineInput): WorkflowState {
     architecture: null,
     questionsBeforeBuilding: null,
     finalReasoning: null,
+    executiveSummary: null,
+    actionItems: null,
+    keyTakeaways: null,
     startedAt: Date.now(),
     completedAt: null,
     errors: []
@@ -116,13 +129,14 @@ export function createInitialState(input: PipelineInput): WorkflowState {
 
 /**
  * Checks if there are blocking questions that need answers.
+ * Questions answered with an assumption no longer block.
  *
  * @param state - The current workflow state
  * @returns True if there are unanswered blocking questions
  */
 export function hasBlockingQuestions(state: WorkflowState): boolean {
   return state.pendingQuestions.some(
-    (q) => q.priority === 'blocking' && !state.answers[q.id]
+    (q) => q.priority === 'blocking' && !state.answers[q.id] && !state.assumptions[q.id]
   );
 }
 
@@ -138,12 +152,34 @@ export function getUnansweredQuestions(
   priority?: FollowUpQuestion['priority']
 ): FollowUpQuestion[] {
   return state.pendingQuestions.filter((q) => {
-    const isUnanswered = !state.answers[q.id];
+    const isUnanswered = !state.answers[q.id] && !state.assumptions[q.id];
     const matchesPriority = priority === undefined || q.priority === priority;
     return isUnanswered && matchesPriority;
   });
 }
 
+/**
+ * Gets every question raised so far: screening questions, dimension info
+ * gaps and pending questions, first occurrence of each id.
+ *
+ * @param state - The current workflow state
+ * @returns Array of questions
+ */
+export function getAskedQuestions(state: WorkflowState): FollowUpQuestion[] {
+  const questions = new Map<string, FollowUpQuestion>();
+  const raised = [
+    ...(state.screening?.clarifyingQuestions ?? []),
+    ...Object.values(state.dimensions).flatMap((d) => d.infoGaps),
+    ...state.pendingQuestions
+  ];
+  for (const question of raised) {
+    if (!questions.has(question.id)) {
+      questions.set(question.id, question);
+    }
+  }
+  return [...questions.values()];
+}
+
 /**
  * Gets the count of completed dimensions.
  *
@@ -164,6 +200,26 @@ export function getDimensionsArray(state: WorkflowState): DimensionAnalysis[] {
   return Object.values(state.dimensions).sort((a, b) => a.id.localeCompare(b.id));
 }
 
+/**
+ * Gets the answers analyzers should see: the user's answers plus each
+ * applied assumption, marked as assumed.
+ *
+ * @param state - The current workflow state
+ * @returns Answers by question id
+ */
+export function getAnalysisAnswers(state: WorkflowState): Record<string, UserAnswer> {
+  const answers: Record<string, UserAnswer> = {};
+  for (const assumption of Object.values(state.assumptions)) {
+    answers[assumption.questionId] = {
+      questionId: assumption.questionId,
+      answer: `${assumption.assumption} (assumed; not confirmed by the user)`,
+      source: assumption.source.stage,
+      timestamp: assumption.appliedAt
+    };
+  }
+  return { ...answers, ...state.answers };
+}
+
 /**
  * Gets answers as an array for easy iteration.
  *
@@ -174,6 +230,57 @@ export function getAnswersArray(state: WorkflowState): UserAnswer[] {
   return Object.values(state.answers);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// ASSUMPTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Assumed answer for a question without a current assumption or options */
+const FALLBACK_ASSUMPTION = 'Unknown; assume the most common case';
+
+/**
+ * The answer assumed for a question: its current assumption, else its first
+ * suggested option.
+ *
+ * @param question - The unanswered question
+ * @returns The assumed answer
+ */
+export function assumedAnswer(question: FollowUpQuestion): string {
+  return question.currentAssumption || question.suggestedOptions?.[0]?.label || FALLBACK_ASSUMPTION;
+}
+
+/**
+ * Records a question as answered with its assumed answer.
+ *
+ * @param question - The unanswered question
+ * @param now - When the assumption was applied
+ * @returns The applied assumption
+ */
+export function createAssumption(question: FollowUpQuestion, now: number = Date.now()): AppliedAssumption {
+  return {
+    questionId: question.id,
+    question: question.question,
+    assumption: assumedAnswer(question),
+    source: question.source,
+    appliedAt: now
+  };
+}
+
+/**
+ * Answers every unanswered blocking question with its assumed answer.
+ *
+ * @param state - The current workflow state (updated in place)
+ * @param now - Timestamp recorded on the assumptions
+ * @returns The assumptions applied
+ */
+export function applyAssumptions(state: WorkflowState, now: number = Date.now()): AppliedAssumption[] {
+  const applied = getUnansweredQuestions(state, 'blocking').map((q) => createAssumption(q, now));
+
+  for (const assumption of applied) {
+    state.assumptions[assumption.questionId] = assumption;
+  }
+  return applied;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // RESULT ASSEMBLY
 // ═══════════════════════════════════════════════════════════════════════════
@@ -198,14 +305,24 @@ export function assembleResult(state: WorkflowState, runId: string): AnalysisRes
     }));
 
   // Convert answers to summary format
-  const answeredQuestions = Object.values(state.answers).map((a) => ({
-    questionId: a.questionId,
-    answer: a.answer
-  }));
+  const asked = new Map(getAskedQuestions(state).map((q) => [q.id, q.question]));
+  const answeredQuestions = Object.values(state.answers).map((a) => {
+    const question = a.question ?? asked.get(a.questionId);
+    return {
+      questionId: a.questionId,
+      answer: a.answer,
+      ...(question && { question })
+    };
+  });
+
+  const appliedAssumptions = Object.values(state.assumptions);
 
   return {
     threadId: runId,
     problem: state.input.problem,
+    ...(state.input.parentThreadId && { parentThreadId: state.input.parentThreadId }),
+    ...(state.input.ownerId && { ownerId: state.input.ownerId }),
+    industry: state.input.industry,
     verdict: state.verdict?.verdict || 'NOT_RECOMMENDED',
     confidence: state.verdict?.confidence || 0,
     summary: state.verdict?.summary || 'Analysis incomplete',
@@ -216,11 +333,79 @@ export function assembleResult(state: WorkflowState, runId: string): AnalysisRes
     alternatives: state.alternatives || [],
     architecture: state.architecture,
     questionsBeforeBuilding: state.questionsBeforeBuilding || [],
+    // Absent from checkpoints written before the synthesis summary was kept
+    ...(state.executiveSummary && { executiveSummary: state.executiveSummary }),
+    ...(state.actionItems && { actionItems: state.actionItems }),
+    ...(state.keyTakeaways && { keyTakeaways: state.keyTakeaways }),
     answeredQuestions,
+    ...(appliedAssumptions.length > 0 && { appliedAssumptions }),
+    weightedVerdict: state.verdict?.weighted,
+    costEstimate: state.input.usage ? estimateCost(state.input.usage) : undefined,
     durationMs: (state.completedAt || Date.now()) - state.startedAt
   };
 }
 
+/**
+ * Rebuilds the workflow state of a completed run from its result, so a run
+ * that is no longer tracked (a workflow run, or an expired executor run) can
+ * be revised.
+ *
+ * The result does not keep the screening output, so its insights and
+ * priorities are missing from the dimensions that re-run. Without the run's
+ * input, context, usage and verdict mode fall back to their defaults.
+ *
+ * @param result - The completed analysis result
+ * @param input - The input the run was started with, when known
+ * @returns Completed WorkflowState
+ */
+export function restoreStateFromResult(result: AnalysisResult, input?: PipelineInput): WorkflowState {
+  const completedAt = Date.now();
+  const dimensions = Object.fromEntries(result.dimensions.map((d) => [d.id, d]));
+  const infoGapIds = new Set(result.dimensions.flatMap((d) => d.infoGaps.map((gap) => gap.id)));
+
+  const answers: Record<string, UserAnswer> = {};
+  for (const a of result.answeredQuestions) {
+    answers[a.questionId] = {
+      ...a,
+      source: infoGapIds.has(a.questionId) ? 'dimension' : 'screening',
+      timestamp: completedAt
+    };
+  }
+
+  return {
+    input: input ?? {
+      problem: result.problem,
+      ...(result.industry && { industry: result.industry }),
+      ...(result.parentThreadId && { parentThreadId: result.parentThreadId }),
+      ...(result.ownerId && { ownerId: result.ownerId })
+    },
+    answers,
+    assumptions: Object.fromEntries((result.appliedAssumptions ?? []).map((a) => [a.questionId, a])),
+    screening: null,
+    dimensions,
+    pendingQuestions: [],
+    verdict: {
+      verdict: result.verdict,
+      confidence: result.confidence,
+      summary: result.summary,
+      reasoning: result.reasoning,
+      keyFactors: result.keyFactors,
+      ...(result.weightedVerdict && { weighted: result.weightedVerdict })
+    },
+    risks: result.risks,
+    alternatives: result.alternatives,
+    architecture: result.architecture,
+    questionsBeforeBuilding: result.questionsBeforeBuilding,
+    finalReasoning: result.reasoning,
+    executiveSummary: result.executiveSummary ?? null,
+    actionItems: result.actionItems ?? null,
+    keyTakeaways: result.keyTakeaways ?? null,
+    startedAt: completedAt - result.durationMs,
+    completedAt,
+    errors: []
+  };
+}
+
 /**
  * Converts a dimension score and weight to an influence level.
  */
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the built-in tools.
+ *
+ * @module pipeline/tools/__tests__/built-in-tools.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDefaultToolRegistry } from '../registry';
+import type { WeightedScoreOutput } from '../weighted-score';
+import type { CostEstimatorOutput } from '../cost-estimator';
+import type { DomainClassifierOutput } from '../domain-classifier';
+
+const tools = getDefaultToolRegistry();
+
+describe('Built-in Tools', () => {
+  describe('weighted_score', () => {
+    it('should combine scores using default weights and confidence', async () => {
+      const result = await tools.invoke<WeightedScoreOutput>('weighted_score', {
+        dimensions: [
+          { dimensionId: 'task_determinism', score: 'favorable' },
+          { dimensionId: 'error_tolerance', score: 'unfavorable', confidence: 0.5 }
+        ]
+      });
+
+      // Influences: 2.0 × 1 and 1.5 × 0.5 → (2 - 0.75) / 2.75
+      expect(result.rawScore).toBeCloseTo(1.25 / 2.75);
+      expect(result.normalizedScore).toBe(72.7);
+      expect(result.breakdown.map((b) => b.weight)).toEqual([2, 1.5]);
+      expect(result.missingDimensions).toHaveLength(5);
+    });
+
+    it('should apply weight overrides and a custom score mapping', async () => {
+      const result = await tools.invoke<WeightedScoreOutput>('weighted_score', {
+        dimensions: [
+          { dimensionId: 'task_determinism', score: 'favorable' },
+          { dimensionId: 'rate_of_change', score: 'neutral' }
+        ],
+        weights: { rate_of_change: 2 },
+        scoreMapping: { favorable: 10, neutral: 5, unfavorable: 0 }
+      });
+
+      expect(result.rawScore).toBeCloseTo(7.5);
+      expect(result.normalizedScore).toBe(75);
+    });
+  });
+
+  describe('estimate_llm_cost', () => {
+    it('should project daily, monthly and yearly cost ranges', async () => {
+      const result = await tools.invoke<CostEstimatorOutput>('estimate_llm_cost', {
+        estimatedQueriesPerDay: 1000
+      });
+
+      // Sonnet defaults: 1000 × (500 × $3 + 1000 × $15) / 1M
+      expect(result.daily.mid).toBe(16.5);
+      expect(result.daily.breakdown).toEqual({ inputTokenCost: 1.5, outputTokenCost: 15, embeddingCost: 0 });
+      expect(result.monthly.mid).toBe(495);
+      expect(result.yearly.mid).toBe(6022.5);
+      expect(result.daily.low).toBeLessThan(result.daily.mid);
+      expect(result.daily.high).toBeGreaterThan(result.daily.mid);
+      expect(result.assumptions.length).toBeGreaterThan(0);
+    });
+
+    it('should include embedding cost when requested', async () => {
+      const result = await tools.invoke<CostEstimatorOutput>('estimate_llm_cost', {
+        estimatedQueriesPerDay: 1000,
+        modelTier: 'haiku',
+        includeEmbeddings: true,
+        embeddingsPerQuery: 2
+      });
+
+      expect(result.daily.breakdown.embeddingCost).toBe(0.1);
+      expect(result.assumptions.some((a) => a.includes('embedding'))).toBe(true);
+    });
+  });
+
+  describe('classify_domain', () => {
+    it('should classify by keywords and surface considerations', async () => {
+      const result = await tools.invoke<DomainClassifierOutput>('classify_domain', {
+        problemDescription: 'Read patient glucose data and adjust insulin doses without clinician review.'
+      });
+
+      expect(result.primaryDomain).toBe('healthcare');
+      expect(result.matchedKeywords.healthcare).toEqual(['patient', 'clinician', 'insulin']);
+      expect(result.confidence).toBeGreaterThan(0.5);
+      expect(result.suggestedWeightAdjustments?.error_tolerance).toBe(2);
+      expect(result.considerations.length).toBeGreaterThan(0);
+    });
+
+    it('should report secondary domains and use extra keywords', async () => {
+      const result = await tools.invoke<DomainClassifierOutput>('classify_domain', {
+        problemDescription: 'Route customer support tickets to the right queue.',
+        keywords: ['helpdesk']
+      });
+
+      expect(result.primaryDomain).toBe('customer-support');
+      expect(result.secondaryDomains).toContain('automation');
+    });
+
+    it('should fall back to other when nothing matches', async () => {
+      const result = await tools.invoke<DomainClassifierOutput>('classify_domain', {
+        problemDescription: 'Something entirely unspecific.'
+      });
+
+      expect(result.primaryDomain).toBe('other');
+      expect(result.secondaryDomains).toEqual([]);
+      expect(result.suggestedWeightAdjustments).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the tool registry.
+ *
+ * @module pipeline/tools/__tests__/registry.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createToolRegistry, getDefaultToolRegistry } from '../registry';
+import type { PipelineTool } from '../types';
+
+const doubleTool: PipelineTool<{ value: number }, { doubled: number }> = {
+  name: 'double',
+  description: 'Doubles a number',
+  inputSchema: z.object({ value: z.number() }),
+  outputSchema: z.object({ doubled: z.number() }),
+  execute: ({ value }) => ({ doubled: value * 2 })
+};
+
+describe('Tool Registry', () => {
+  it('should register and invoke tools with validated input and output', async () => {
+    const registry = createToolRegistry([doubleTool]);
+
+    expect(registry.has('double')).toBe(true);
+    expect(registry.list()).toEqual(['double']);
+    await expect(registry.invoke('double', { value: 21 })).resolves.toEqual({ doubled: 42 });
+    await expect(registry.invoke('double', { value: 'x' })).rejects.toThrow();
+  });
+
+  it('should reject output that does not match the output schema', async () => {
+    const registry = createToolRegistry([
+      { ...doubleTool, execute: () => ({ doubled: 'oops' }) as unknown as { doubled: number } }
+    ]);
+
+    await expect(registry.invoke('double', { value: 1 })).rejects.toThrow();
+  });
+
+  it('should throw clear errors for duplicate, invalid and unknown tools', async () => {
+    const registry = createToolRegistry([doubleTool]);
+
+    expect(() => registry.register(doubleTool)).toThrow('Tool double is already registered');
+    expect(() => registry.register({ ...doubleTool, name: 'has spaces' })).toThrow('Invalid tool name');
+    await expect(registry.invoke('missing', {})).rejects.toThrow('Unknown tool: missing. Registered tools: double');
+  });
+
+  it('should describe tools with a JSON Schema of their input', () => {
+    const [description] = createToolRegistry([doubleTool]).describe();
+
+    expect(description).toMatchObject({
+      name: 'double',
+      description: 'Doubles a number',
+      inputSchema: { type: 'object', properties: { value: { type: 'number' } } }
+    });
+  });
+
+  it('should report calls and results through the tool set hooks', async () => {
+    const onCall = vi.fn();
+    const onResult = vi.fn();
+    const toolSet = createToolRegistry([doubleTool]).toToolSet({ onCall, onResult });
+
+    const options = { toolCallId: 'call-1', messages: [] };
+    await expect(toolSet.double.execute!({ value: 2 }, options)).resolves.toEqual({ doubled: 4 });
+    await expect(toolSet.double.execute!({ value: 'x' }, options)).rejects.toThrow();
+
+    expect(onCall).toHaveBeenCalledWith('double', { value: 2 });
+    expect(onResult).toHaveBeenNthCalledWith(1, 'double', { doubled: 4 });
+    expect(onResult).toHaveBeenNthCalledWith(2, 'double', { error: expect.any(String) });
+  });
+
+  it('should include the built-in tools in the default registry', () => {
+    expect(getDefaultToolRegistry().list()).toEqual([
+      'weighted_score',
+      'estimate_llm_cost',
+      'classify_domain'
+    ]);
+  });
+});
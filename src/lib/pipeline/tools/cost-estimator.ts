@@ -0,0 +1,174 @@
+/**
+ * Cost Estimator Tool
+ *
+ * Projects LLM API spend from expected volume and token sizes, so the model
+ * can ground statements about operating cost in numbers instead of guesses.
+ *
+ * @module pipeline/tools/cost-estimator
+ */
+
+import { z } from 'zod';
+import { PRICING_UPDATED, requireModelPricing } from '../cost/pricing';
+import type { PipelineTool } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PRICING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Pricing table entry behind each model tier */
+const TIER_MODELS = {
+  haiku: 'anthropic/claude-haiku-4.5',
+  sonnet: 'anthropic/claude-sonnet-4.5',
+  opus: 'anthropic/claude-opus-4.5'
+} as const;
+
+type ModelTier = keyof typeof TIER_MODELS;
+
+/**
+ * USD per million tokens for each model tier, from the shared pricing table.
+ */
+export const TIER_PRICING = Object.fromEntries(
+  (Object.entries(TIER_MODELS) as [ModelTier, string][]).map(([tier, modelId]) => {
+    const pricing = requireModelPricing(modelId);
+    return [tier, { input: pricing.inputPerMillion, output: pricing.outputPerMillion }];
+  })
+) as Record<ModelTier, { input: number; output: number }>;
+
+/** USD per million embedding tokens */
+export const EMBEDDING_PRICE_PER_MILLION = 0.1;
+
+/** Date the prices above were last checked (ISO) */
+export const TIER_PRICING_UPDATED = PRICING_UPDATED;
+
+/** Multipliers applied to the mid estimate for the low and high ends */
+const RANGE_MULTIPLIERS = { low: 0.7, high: 1.5 } as const;
+
+const DAYS_PER_MONTH = 30;
+const DAYS_PER_YEAR = 365;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const CostEstimatorInputSchema = z.object({
+  estimatedQueriesPerDay: z.number().min(0).describe('Expected model requests per day'),
+  averageInputTokens: z.number().min(0).default(500).describe('Prompt tokens per request'),
+  averageOutputTokens: z.number().min(0).default(1000).describe('Completion tokens per request'),
+  modelTier: z.enum(['haiku', 'sonnet', 'opus']).default('sonnet').describe('Model price tier'),
+  includeEmbeddings: z.boolean().default(false).describe('Whether requests also embed text (e.g. retrieval)'),
+  embeddingsPerQuery: z.number().min(0).default(0).describe('Embedding calls per request')
+});
+
+const CostBreakdownSchema = z.object({
+  low: z.number(),
+  mid: z.number(),
+  high: z.number(),
+  breakdown: z.object({
+    inputTokenCost: z.number(),
+    outputTokenCost: z.number(),
+    embeddingCost: z.number()
+  })
+});
+
+export const CostEstimatorOutputSchema = z.object({
+  daily: CostBreakdownSchema,
+  monthly: CostBreakdownSchema,
+  yearly: CostBreakdownSchema,
+  assumptions: z.array(z.string()),
+  /** ISO date the pricing table was last updated */
+  pricingUpdated: z.string()
+});
+
+export type CostEstimatorInput = z.infer<typeof CostEstimatorInputSchema>;
+export type CostEstimatorOutput = z.infer<typeof CostEstimatorOutputSchema>;
+type CostBreakdown = z.infer<typeof CostBreakdownSchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALCULATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rounds to whole cents.
+ */
+function toCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Scales a daily mid estimate to a period and adds the range.
+ */
+function buildBreakdown(
+  daily: CostBreakdown['breakdown'],
+  days: number
+): CostBreakdown {
+  const breakdown = {
+    inputTokenCost: toCents(daily.inputTokenCost * days),
+    outputTokenCost: toCents(daily.outputTokenCost * days),
+    embeddingCost: toCents(daily.embeddingCost * days)
+  };
+  const mid = (daily.inputTokenCost + daily.outputTokenCost + daily.embeddingCost) * days;
+
+  return {
+    low: toCents(mid * RANGE_MULTIPLIERS.low),
+    mid: toCents(mid),
+    high: toCents(mid * RANGE_MULTIPLIERS.high),
+    breakdown
+  };
+}
+
+/**
+ * Projects daily, monthly and yearly API cost.
+ *
+ * @param input - Validated tool input
+ * @returns Low/mid/high cost per period with the assumptions behind them
+ */
+export function estimateApiCost(input: CostEstimatorInput): CostEstimatorOutput {
+  const pricing = TIER_PRICING[input.modelTier];
+  const queries = input.estimatedQueriesPerDay;
+
+  const embeddingTokens = input.includeEmbeddings
+    ? queries * input.embeddingsPerQuery * input.averageInputTokens
+    : 0;
+
+  const daily = {
+    inputTokenCost: (queries * input.averageInputTokens * pricing.input) / 1_000_000,
+    outputTokenCost: (queries * input.averageOutputTokens * pricing.output) / 1_000_000,
+    embeddingCost: (embeddingTokens * EMBEDDING_PRICE_PER_MILLION) / 1_000_000
+  };
+
+  const assumptions = [
+    `${queries} requests/day at ${input.averageInputTokens} input and ${input.averageOutputTokens} output tokens each`,
+    `${input.modelTier} tier list prices: $${pricing.input}/M input, $${pricing.output}/M output tokens (as of ${TIER_PRICING_UPDATED})`,
+    `Low/high range is ${RANGE_MULTIPLIERS.low}×-${RANGE_MULTIPLIERS.high}× the mid estimate to cover token-size variance and retries`,
+    `${DAYS_PER_MONTH}-day months; no caching, batch or volume discounts`,
+    'Estimates only; actual spend depends on prompt design and provider pricing'
+  ];
+  if (input.includeEmbeddings) {
+    assumptions.splice(
+      2,
+      0,
+      `${input.embeddingsPerQuery} embedding call(s)/request of ~${input.averageInputTokens} tokens at $${EMBEDDING_PRICE_PER_MILLION}/M`
+    );
+  }
+
+  return {
+    daily: buildBreakdown(daily, 1),
+    monthly: buildBreakdown(daily, DAYS_PER_MONTH),
+    yearly: buildBreakdown(daily, DAYS_PER_YEAR),
+    assumptions,
+    pricingUpdated: TIER_PRICING_UPDATED
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const costEstimatorTool: PipelineTool<CostEstimatorInput, CostEstimatorOutput> = {
+  name: 'estimate_llm_cost',
+  description:
+    'Project daily, monthly and yearly LLM API cost (low/mid/high, USD) from request volume, tokens per request and model tier. Use it instead of estimating costs by hand.',
+  inputSchema: CostEstimatorInputSchema,
+  outputSchema: CostEstimatorOutputSchema,
+  execute: estimateApiCost
+};
@@ -0,0 +1,226 @@
+/**
+ * Domain Classifier Tool
+ *
+ * Keyword-based classification of the problem's domain. Domains carry
+ * different risk profiles (regulation, cost of errors), so the result lists
+ * domain-specific considerations and suggested dimension weight multipliers.
+ *
+ * @module pipeline/tools/domain-classifier
+ */
+
+import { z } from 'zod';
+import { BuiltInDimensionIdSchema, type DimensionId } from '../types';
+import type { PipelineTool } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DOMAINS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DomainSchema = z.enum([
+  'healthcare',
+  'finance',
+  'legal',
+  'customer-support',
+  'content-generation',
+  'data-analysis',
+  'automation',
+  'education',
+  'e-commerce',
+  'security',
+  'other'
+]);
+
+export type Domain = z.infer<typeof DomainSchema>;
+
+type ClassifiedDomain = Exclude<Domain, 'other'>;
+
+/**
+ * Keywords that signal each domain (matched as whole words or phrases).
+ */
+export const DOMAIN_KEYWORDS: Record<ClassifiedDomain, string[]> = {
+  healthcare: ['patient', 'clinical', 'clinician', 'diagnosis', 'medical', 'hospital', 'doctor', 'nurse', 'hipaa', 'medication', 'insulin', 'health'],
+  finance: ['bank', 'loan', 'credit', 'invoice', 'accounting', 'payment', 'tax', 'fraud', 'trading', 'audit', 'financial', 'billing'],
+  legal: ['contract', 'clause', 'legal', 'lawyer', 'attorney', 'compliance', 'litigation', 'regulatory', 'court', 'indemnity'],
+  'customer-support': ['support', 'ticket', 'customer service', 'helpdesk', 'agent', 'chatbot', 'faq', 'complaint', 'inquiry'],
+  'content-generation': ['write', 'writing', 'draft', 'copy', 'blog', 'marketing', 'description', 'summary', 'summarize', 'memo', 'newsletter'],
+  'data-analysis': ['analyze', 'analysis', 'report', 'dashboard', 'metrics', 'forecast', 'trend', 'insight', 'spreadsheet', 'data'],
+  automation: ['automate', 'automation', 'workflow', 'route', 'routing', 'extract', 'extraction', 'classify', 'triage', 'pipeline'],
+  education: ['student', 'teacher', 'course', 'grading', 'curriculum', 'tutor', 'learning', 'exam', 'school'],
+  'e-commerce': ['product', 'catalogue', 'catalog', 'shop', 'store', 'order', 'shipping', 'checkout', 'inventory', 'e-commerce', 'ecommerce'],
+  security: ['security', 'threat', 'vulnerability', 'malware', 'phishing', 'intrusion', 'access control', 'incident', 'soc']
+};
+
+/**
+ * What to keep in mind when assessing AI for each domain.
+ */
+export const DOMAIN_CONSIDERATIONS: Record<Domain, string[]> = {
+  healthcare: [
+    'HIPAA and medical-device regulation may apply',
+    'Incorrect outputs can cause patient harm',
+    'Clinical decisions need a qualified human in the loop'
+  ],
+  finance: [
+    'Regulatory compliance (SOX, PCI DSS) and audit trails',
+    'Low tolerance for numerical errors',
+    'Explainability may be required for credit or fraud decisions'
+  ],
+  legal: [
+    'Outputs may carry liability; lawyer review is usually mandatory',
+    'Hallucinated citations or terms are high-impact',
+    'Confidentiality and privilege constraints on data'
+  ],
+  'customer-support': [
+    'Errors are visible to customers and affect brand trust',
+    'Escalation paths to human agents are needed',
+    'Historical tickets are usually a rich labelled dataset'
+  ],
+  'content-generation': [
+    'Quality is subjective; define review criteria up front',
+    'Brand voice and factual accuracy need human review',
+    'Copyright and disclosure policies may apply'
+  ],
+  'data-analysis': [
+    'Numerical claims must be verified against source data',
+    'Deterministic queries or BI tools may be a better fit',
+    'Data access and privacy controls apply'
+  ],
+  automation: [
+    'Measure accuracy against the current manual process',
+    'Define fallbacks for low-confidence cases',
+    'Rule-based automation may cover the deterministic part'
+  ],
+  education: [
+    'Student data privacy (FERPA, COPPA) may apply',
+    'Assessment fairness and bias need monitoring',
+    'Incorrect explanations can mislead learners'
+  ],
+  'e-commerce': [
+    'High volume makes per-request cost significant',
+    'Catalogue and pricing data change frequently',
+    'Errors in product data affect returns and trust'
+  ],
+  security: [
+    'Adversarial inputs and prompt injection are likely',
+    'False negatives can be costly; false positives cause alert fatigue',
+    'Outputs should inform, not replace, analyst decisions'
+  ],
+  other: ['No domain-specific considerations identified; rely on the general rubric']
+};
+
+/**
+ * Suggested weight multipliers per domain (1 = unchanged).
+ */
+export const DOMAIN_WEIGHT_ADJUSTMENTS: Record<Domain, Partial<Record<DimensionId, number>>> = {
+  healthcare: { error_tolerance: 2.0, human_oversight_cost: 2.0, edge_case_risk: 1.5 },
+  finance: { error_tolerance: 1.8, evaluation_clarity: 1.5, rate_of_change: 1.3 },
+  legal: { error_tolerance: 1.8, human_oversight_cost: 1.5, rate_of_change: 1.3 },
+  'customer-support': { edge_case_risk: 1.3, data_availability: 1.2 },
+  'content-generation': { evaluation_clarity: 1.5, human_oversight_cost: 1.2 },
+  'data-analysis': { task_determinism: 1.5, evaluation_clarity: 1.3 },
+  automation: { task_determinism: 1.3, edge_case_risk: 1.3 },
+  education: { error_tolerance: 1.3, evaluation_clarity: 1.3 },
+  'e-commerce': { rate_of_change: 1.3, data_availability: 1.2 },
+  security: { edge_case_risk: 1.8, error_tolerance: 1.5 },
+  other: {}
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DomainClassifierInputSchema = z.object({
+  problemDescription: z.string().min(1).describe('The problem description to classify'),
+  keywords: z.array(z.string()).optional().describe('Extra keywords you noticed (e.g. "HIPAA", "invoices")')
+});
+
+export const DomainClassifierOutputSchema = z.object({
+  primaryDomain: DomainSchema,
+  secondaryDomains: z.array(DomainSchema),
+  confidence: z.number().min(0).max(1),
+  /** Keywords that matched, by domain */
+  matchedKeywords: z.partialRecord(DomainSchema, z.array(z.string())),
+  considerations: z.array(z.string()),
+  suggestedWeightAdjustments: z.partialRecord(BuiltInDimensionIdSchema, z.number()).optional()
+});
+
+export type DomainClassifierInput = z.infer<typeof DomainClassifierInputSchema>;
+export type DomainClassifierOutput = z.infer<typeof DomainClassifierOutputSchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLASSIFICATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Maximum number of secondary domains reported */
+const MAX_SECONDARY_DOMAINS = 2;
+
+/**
+ * Escapes a keyword for use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the keywords of a domain that occur in the text.
+ */
+function findKeywords(text: string, keywords: string[]): string[] {
+  return keywords.filter((keyword) =>
+    new RegExp(`\\b${escapeRegExp(keyword)}s?\\b`, 'i').test(text)
+  );
+}
+
+/**
+ * Classifies a problem into a primary domain and up to two secondary ones.
+ *
+ * Confidence grows with the share of matches the primary domain holds and
+ * with the number of distinct keywords behind it.
+ *
+ * @param input - Validated tool input
+ * @returns Domains, confidence, considerations and weight suggestions
+ */
+export function classifyDomain(input: DomainClassifierInput): DomainClassifierOutput {
+  const text = [input.problemDescription, ...(input.keywords ?? [])].join('\n');
+
+  const matches = (Object.entries(DOMAIN_KEYWORDS) as [ClassifiedDomain, string[]][])
+    .map(([domain, keywords]) => ({ domain, keywords: findKeywords(text, keywords) }))
+    .filter((m) => m.keywords.length > 0)
+    .sort((a, b) => b.keywords.length - a.keywords.length);
+
+  if (matches.length === 0) {
+    return {
+      primaryDomain: 'other',
+      secondaryDomains: [],
+      confidence: 0.2,
+      matchedKeywords: {},
+      considerations: DOMAIN_CONSIDERATIONS.other
+    };
+  }
+
+  const [primary, ...rest] = matches;
+  const totalHits = matches.reduce((sum, m) => sum + m.keywords.length, 0);
+  const share = primary.keywords.length / totalHits;
+  const strength = Math.min(1, primary.keywords.length / 3);
+  const adjustments = DOMAIN_WEIGHT_ADJUSTMENTS[primary.domain];
+
+  return {
+    primaryDomain: primary.domain,
+    secondaryDomains: rest.slice(0, MAX_SECONDARY_DOMAINS).map((m) => m.domain),
+    confidence: Math.round((0.3 + 0.65 * share * strength) * 100) / 100,
+    matchedKeywords: Object.fromEntries(matches.map((m) => [m.domain, m.keywords])),
+    considerations: DOMAIN_CONSIDERATIONS[primary.domain],
+    ...(Object.keys(adjustments).length > 0 && { suggestedWeightAdjustments: adjustments })
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const domainClassifierTool: PipelineTool<DomainClassifierInput, DomainClassifierOutput> = {
+  name: 'classify_domain',
+  description:
+    'Classify the problem domain (healthcare, finance, legal, customer-support, ...) from its description and return domain-specific risk considerations and suggested dimension weight multipliers.',
+  inputSchema: DomainClassifierInputSchema,
+  outputSchema: DomainClassifierOutputSchema,
+  execute: classifyDomain
+};
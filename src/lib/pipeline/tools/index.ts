@@ -0,0 +1,77 @@
+/**
+ * Tool System Module
+ *
+ * Deterministic tools the model can call during dimension analysis:
+ * - `weighted_score` - composite 0-100 score from dimension scores
+ * - `estimate_llm_cost` - daily/monthly/yearly API cost projections
+ * - `classify_domain` - problem domain with considerations and weight hints
+ *
+ * Every call and result is reported as `dimension:tool_call` and
+ * `dimension:tool_result` events.
+ *
+ * @module pipeline/tools
+ *
+ * @example
+ * ```ts
+ * import { getDefaultToolRegistry } from '@/lib/pipeline/tools';
+ *
+ * const cost = await getDefaultToolRegistry().invoke('estimate_llm_cost', {
+ *   estimatedQueriesPerDay: 2000
+ * });
+ * ```
+ */
+
+export type {
+  PipelineTool,
+  AnyPipelineTool,
+  ToolDescription,
+  ToolInvocationHooks,
+  ToolRegistry
+} from './types';
+
+// Registry
+export {
+  createToolRegistry,
+  getDefaultToolRegistry,
+  resetDefaultToolRegistry,
+  BUILT_IN_TOOLS
+} from './registry';
+
+// Weighted score
+export {
+  weightedScoreTool,
+  calculateWeightedScore,
+  DEFAULT_DIMENSION_WEIGHTS,
+  WeightedScoreInputSchema,
+  WeightedScoreOutputSchema,
+  type WeightedScoreInput,
+  type WeightedScoreOutput
+} from './weighted-score';
+
+// Cost estimator
+export {
+  costEstimatorTool,
+  estimateApiCost,
+  TIER_PRICING,
+  TIER_PRICING_UPDATED,
+  EMBEDDING_PRICE_PER_MILLION,
+  CostEstimatorInputSchema,
+  CostEstimatorOutputSchema,
+  type CostEstimatorInput,
+  type CostEstimatorOutput
+} from './cost-estimator';
+
+// Domain classifier
+export {
+  domainClassifierTool,
+  classifyDomain,
+  DomainSchema,
+  DOMAIN_KEYWORDS,
+  DOMAIN_CONSIDERATIONS,
+  DOMAIN_WEIGHT_ADJUSTMENTS,
+  DomainClassifierInputSchema,
+  DomainClassifierOutputSchema,
+  type Domain,
+  type DomainClassifierInput,
+  type DomainClassifierOutput
+} from './domain-classifier';
@@ -0,0 +1,145 @@
+/**
+ * Tool registry implementation.
+ *
+ * Holds the tools analyzers may offer the model, validates every invocation
+ * against the tool's schemas, and adapts the tools to the AI SDK so the
+ * model can call them during `generateText`.
+ *
+ * @module pipeline/tools/registry
+ */
+
+import { tool, type ToolSet } from 'ai';
+import { z } from 'zod';
+import { costEstimatorTool } from './cost-estimator';
+import { domainClassifierTool } from './domain-classifier';
+import { weightedScoreTool } from './weighted-score';
+import type { AnyPipelineTool, PipelineTool, ToolDescription, ToolInvocationHooks, ToolRegistry } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONSTANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Tool names must be valid function names for every provider */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Tools registered in the default registry.
+ */
+export const BUILT_IN_TOOLS: readonly AnyPipelineTool[] = [
+  weightedScoreTool,
+  costEstimatorTool,
+  domainClassifierTool
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY FACTORY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Creates a tool registry.
+ *
+ * @param tools - Tools to register up front
+ * @returns ToolRegistry with register/invoke and AI SDK adapters
+ *
+ * @example
+ * ```ts
+ * const registry = createToolRegistry([weightedScoreTool]);
+ * const score = await registry.invoke('weighted_score', { dimensions: [...] });
+ * ```
+ */
+export function createToolRegistry(
+  tools: readonly AnyPipelineTool[] = []
+): ToolRegistry {
+  const registered = new Map<string, PipelineTool<unknown, unknown>>();
+
+  const register = <TInput, TOutput>(definition: PipelineTool<TInput, TOutput>): void => {
+    if (!TOOL_NAME_PATTERN.test(definition.name)) {
+      throw new Error(`Invalid tool name: ${definition.name}`);
+    }
+    if (registered.has(definition.name)) {
+      throw new Error(`Tool ${definition.name} is already registered`);
+    }
+    registered.set(definition.name, definition as PipelineTool<unknown, unknown>);
+  };
+
+  const invoke = async <TOutput = unknown>(name: string, input: unknown): Promise<TOutput> => {
+    const definition = registered.get(name);
+    if (!definition) {
+      throw new Error(`Unknown tool: ${name}. Registered tools: ${[...registered.keys()].join(', ') || 'none'}`);
+    }
+
+    const validatedInput = definition.inputSchema.parse(input);
+    const output = await definition.execute(validatedInput);
+    return definition.outputSchema.parse(output) as TOutput;
+  };
+
+  const registry: ToolRegistry = {
+    register,
+    invoke,
+    has: (name) => registered.has(name),
+    list: () => [...registered.keys()],
+
+    describe: (): ToolDescription[] =>
+      [...registered.values()].map((definition) => ({
+        name: definition.name,
+        description: definition.description,
+        inputSchema: z.toJSONSchema(definition.inputSchema, { io: 'input' }) as Record<string, unknown>
+      })),
+
+    toToolSet: (hooks: ToolInvocationHooks = {}): ToolSet => {
+      const toolSet: ToolSet = {};
+
+      for (const definition of registered.values()) {
+        toolSet[definition.name] = tool({
+          description: definition.description,
+          inputSchema: definition.inputSchema,
+          execute: async (input: unknown) => {
+            hooks.onCall?.(definition.name, input);
+            try {
+              const result = await invoke(definition.name, input);
+              hooks.onResult?.(definition.name, result);
+              return result;
+            } catch (error) {
+              // Report the failure, then let the SDK hand the error back to the model
+              hooks.onResult?.(definition.name, {
+                error: error instanceof Error ? error.message : String(error)
+              });
+              throw error;
+            }
+          }
+        });
+      }
+
+      return toolSet;
+    }
+  };
+
+  for (const definition of tools) {
+    register(definition);
+  }
+
+  return registry;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULT REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+let defaultRegistry: ToolRegistry | null = null;
+
+/**
+ * Get the process-wide registry containing the built-in tools.
+ */
+export function getDefaultToolRegistry(): ToolRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createToolRegistry(BUILT_IN_TOOLS);
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Reset the default registry (useful for testing).
+ */
+export function resetDefaultToolRegistry(): void {
+  defaultRegistry = null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Tool system type definitions.
+ *
+ * Tools are deterministic functions analyzers can hand to the model during
+ * analysis. They separate judgment (the model) from computation (the tool):
+ * composite scores, cost projections and domain lookups always come out the
+ * same for the same input.
+ *
+ * @module pipeline/tools/types
+ */
+
+import type { ToolSet } from 'ai';
+import type { z } from 'zod';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOL DEFINITION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A deterministic tool with validated input and output.
+ */
+export interface PipelineTool<TInput = unknown, TOutput = unknown> {
+  /** Unique name the model calls the tool by (letters, digits, `_`, `-`) */
+  name: string;
+  /** What the tool does and when to use it (shown to the model) */
+  description: string;
+  /** Validates (and defaults) the input before execution */
+  inputSchema: z.ZodType<TInput>;
+  /** Validates the output after execution */
+  outputSchema: z.ZodType<TOutput>;
+  /** Computes the output */
+  execute: (input: TInput) => TOutput | Promise<TOutput>;
+}
+
+/**
+ * A tool of any input/output type, for heterogeneous tool lists.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type AnyPipelineTool = PipelineTool<any, any>;
+
+/**
+ * Tool metadata for prompts and documentation.
+ */
+export interface ToolDescription {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool input */
+  inputSchema: Record<string, unknown>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Callbacks fired around each tool invocation made by the model.
+ */
+export interface ToolInvocationHooks {
+  /** Called with the raw input before validation and execution */
+  onCall?: (tool: string, input: unknown) => void;
+  /** Called with the validated output, or `{ error }` when the tool failed */
+  onResult?: (tool: string, result: unknown) => void;
+}
+
+/**
+ * Registry of tools available to analyzers.
+ */
+export interface ToolRegistry {
+  /** Adds a tool; throws if the name is already taken */
+  register<TInput, TOutput>(tool: PipelineTool<TInput, TOutput>): void;
+  /** Whether a tool with this name is registered */
+  has(name: string): boolean;
+  /** Names of all registered tools, in registration order */
+  list(): string[];
+  /** Validates the input, executes the tool and validates the output */
+  invoke<TOutput = unknown>(name: string, input: unknown): Promise<TOutput>;
+  /** Descriptions of all registered tools */
+  describe(): ToolDescription[];
+  /** AI SDK tool set for `generateText({ tools })`, reporting through the hooks */
+  toToolSet(hooks?: ToolInvocationHooks): ToolSet;
+}
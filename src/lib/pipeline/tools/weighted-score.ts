@@ -0,0 +1,144 @@
+/**
+ * Weighted Score Tool
+ *
+ * Turns categorical dimension scores into a composite number. The model
+ * supplies the scores it has in mind (including estimates for dimensions
+ * analyzed elsewhere) and gets back a transparent breakdown instead of
+ * doing the arithmetic itself.
+ *
+ * @module pipeline/tools/weighted-score
+ */
+
+import { z } from 'zod';
+import { BuiltInDimensionIdSchema, DimensionScoreSchema, type BuiltInDimensionId } from '../types';
+import type { PipelineTool } from './types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DEFAULTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Default importance of each dimension in the composite score.
+ */
+export const DEFAULT_DIMENSION_WEIGHTS: Record<BuiltInDimensionId, number> = {
+  task_determinism: 2.0,
+  error_tolerance: 1.5,
+  data_availability: 1.5,
+  evaluation_clarity: 1.0,
+  edge_case_risk: 1.5,
+  human_oversight_cost: 1.0,
+  rate_of_change: 1.0
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const WeightedScoreInputSchema = z.object({
+  dimensions: z
+    .array(
+      z.object({
+        dimensionId: BuiltInDimensionIdSchema,
+        score: DimensionScoreSchema,
+        confidence: z.number().min(0).max(1).default(1).describe('Confidence in this score (0-1)')
+      })
+    )
+    .min(1)
+    .describe('Dimension scores to combine'),
+  weights: z
+    .partialRecord(BuiltInDimensionIdSchema, z.number().min(0))
+    .optional()
+    .describe('Per-dimension weight overrides'),
+  scoreMapping: z
+    .object({
+      favorable: z.number().default(1),
+      neutral: z.number().default(0),
+      unfavorable: z.number().default(-1)
+    })
+    .optional()
+    .describe('Numeric value of each score (default 1 / 0 / -1)')
+});
+
+export const WeightedScoreOutputSchema = z.object({
+  /** Confidence-weighted mean of the score values */
+  rawScore: z.number(),
+  /** rawScore rescaled from the score mapping's range to 0-100 */
+  normalizedScore: z.number().min(0).max(100),
+  breakdown: z.array(
+    z.object({
+      dimensionId: BuiltInDimensionIdSchema,
+      score: z.number(),
+      weight: z.number(),
+      confidence: z.number(),
+      contribution: z.number()
+    })
+  ),
+  /** Dimensions that were not supplied and did not contribute */
+  missingDimensions: z.array(BuiltInDimensionIdSchema)
+});
+
+export type WeightedScoreInput = z.infer<typeof WeightedScoreInputSchema>;
+export type WeightedScoreOutput = z.infer<typeof WeightedScoreOutputSchema>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CALCULATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Computes the composite score.
+ *
+ * Each dimension contributes `value × weight × confidence`, divided by the
+ * total `weight × confidence`, so low-confidence scores move the result less.
+ *
+ * @param input - Validated tool input
+ * @returns Raw and normalized score with a per-dimension breakdown
+ */
+export function calculateWeightedScore(input: WeightedScoreInput): WeightedScoreOutput {
+  const mapping = input.scoreMapping ?? { favorable: 1, neutral: 0, unfavorable: -1 };
+  const weights = { ...DEFAULT_DIMENSION_WEIGHTS, ...input.weights };
+
+  const totalInfluence = input.dimensions.reduce(
+    (sum, d) => sum + weights[d.dimensionId] * d.confidence,
+    0
+  );
+
+  const breakdown = input.dimensions.map((d) => {
+    const value = mapping[d.score];
+    const weight = weights[d.dimensionId];
+    return {
+      dimensionId: d.dimensionId,
+      score: value,
+      weight,
+      confidence: d.confidence,
+      contribution: totalInfluence > 0 ? (value * weight * d.confidence) / totalInfluence : 0
+    };
+  });
+
+  const rawScore = breakdown.reduce((sum, b) => sum + b.contribution, 0);
+
+  const min = Math.min(mapping.favorable, mapping.neutral, mapping.unfavorable);
+  const max = Math.max(mapping.favorable, mapping.neutral, mapping.unfavorable);
+  const normalized = max > min ? ((rawScore - min) / (max - min)) * 100 : 50;
+
+  const supplied = new Set(input.dimensions.map((d) => d.dimensionId));
+
+  return {
+    rawScore,
+    normalizedScore: Math.round(Math.max(0, Math.min(100, normalized)) * 10) / 10,
+    breakdown,
+    missingDimensions: BuiltInDimensionIdSchema.options.filter((id) => !supplied.has(id))
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TOOL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const weightedScoreTool: PipelineTool<WeightedScoreInput, WeightedScoreOutput> = {
+  name: 'weighted_score',
+  description:
+    'Combine dimension scores (favorable/neutral/unfavorable) into a composite 0-100 score using importance weights and confidence. Use it to check how much a dimension moves the overall assessment.',
+  inputSchema: WeightedScoreInputSchema,
+  outputSchema: WeightedScoreOutputSchema,
+  execute: calculateWeightedScore
+};
@@ -8,28 +8,31 @@
  */
 
 import { z } from 'zod';
-import type { DimensionId as ExistingDimensionId } from '../dimensions';
+import { DIMENSION_IDS, type DimensionId as ExistingDimensionId } from '../dimensions';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // RE-EXPORTS FROM EXISTING SCHEMAS
 // ═══════════════════════════════════════════════════════════════════════════
 
-// Re-export the DimensionId type from dimensions.ts for consistency
-export type DimensionId = ExistingDimensionId;
+// Re-export the built-in dimension IDs from dimensions.ts for consistency
+export type BuiltInDimensionId = ExistingDimensionId;
 
-/** All valid dimension IDs as a tuple for Zod enum */
-const DIMENSION_IDS = [
-  'task_determinism',
-  'error_tolerance',
-  'data_availability',
-  'evaluation_clarity',
-  'edge_case_risk',
-  'human_oversight_cost',
-  'rate_of_change'
-] as const;
+/**
+ * Dimension identifier: one of the built-in dimensions or the id of a
+ * custom dimension registered at runtime.
+ */
+export type DimensionId = BuiltInDimensionId | (string & {});
+
+/** Custom dimension IDs must be lowercase snake_case */
+export const DIMENSION_ID_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+/** Zod schema for the built-in dimension IDs (used where the model must pick one) */
+export const BuiltInDimensionIdSchema = z.enum(DIMENSION_IDS);
 
-/** Zod schema for DimensionId validation */
-export const DimensionIdSchema = z.enum(DIMENSION_IDS);
+/** Zod schema for DimensionId validation (built-in or custom) */
+export const DimensionIdSchema = z
+  .string()
+  .regex(DIMENSION_ID_PATTERN, 'Dimension IDs must be lowercase snake_case');
 
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE STAGES
@@ -91,6 +94,185 @@ export const VerdictSchema = z.enum([
   'NOT_RECOMMENDED'
 ]);
 
+/**
+ * How the final verdict is produced.
+ * - ai: AI judgment only (default)
+ * - compare: AI judgment, plus a deterministic weighted score reported alongside
+ * - rules: deterministic weighted score only (no model call, fully reproducible)
+ */
+export type VerdictMode = 'ai' | 'compare' | 'rules';
+
+/** Verdict mode Zod schema for validation */
+export const VerdictModeSchema = z.enum(['ai', 'compare', 'rules']);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INDUSTRY PRESETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Industry whose regulatory and operational expectations adjust the
+ * dimension rubrics and weights. Omit for the generic rubric.
+ */
+export type IndustryPresetId =
+  | 'healthcare'
+  | 'financial-services'
+  | 'legal'
+  | 'e-commerce'
+  | 'internal-tooling'
+  | 'customer-support';
+
+/** Industry preset Zod schema for validation */
+export const IndustryPresetIdSchema = z.enum([
+  'healthcare',
+  'financial-services',
+  'legal',
+  'e-commerce',
+  'internal-tooling',
+  'customer-support'
+]);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// USAGE & COST
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Expected production usage of the AI solution, used to estimate its
+ * operating cost.
+ */
+export interface UsageProfile {
+  /** Expected model requests per day */
+  requestsPerDay: number;
+  /** Prompt tokens per request */
+  inputTokensPerRequest: number;
+  /** Completion tokens per request */
+  outputTokensPerRequest: number;
+  /** Share of outputs a human reviews (0-1) */
+  reviewRate: number;
+  /** Model to price, as a pricing table id (default: Claude Sonnet) */
+  model?: string;
+  /** Minutes a reviewer spends per reviewed output (default: 2) */
+  reviewMinutesPerItem?: number;
+  /** Fully loaded reviewer cost in USD per hour (default: 50) */
+  reviewerHourlyRate?: number;
+}
+
+/** Zod schema for UsageProfile validation */
+export const UsageProfileSchema = z.object({
+  requestsPerDay: z.number().min(0).max(100_000_000),
+  inputTokensPerRequest: z.number().int().min(0).max(2_000_000),
+  outputTokensPerRequest: z.number().int().min(0).max(200_000),
+  reviewRate: z.number().min(0).max(1),
+  model: z.string().min(1).optional(),
+  reviewMinutesPerItem: z.number().min(0).max(480).optional(),
+  reviewerHourlyRate: z.number().min(0).max(10_000).optional()
+});
+
+/**
+ * Monthly operating cost, split into model spend and human review.
+ */
+export interface MonthlyCost {
+  requests: number;
+  inputTokenCost: number;
+  outputTokenCost: number;
+  /** inputTokenCost + outputTokenCost */
+  llmCost: number;
+  reviewedItems: number;
+  reviewHours: number;
+  reviewCost: number;
+  /** llmCost + reviewCost */
+  total: number;
+}
+
+/**
+ * Structured operating cost estimate (USD) for a usage profile.
+ */
+export interface CostEstimate {
+  /** Pricing table id of the model that was priced */
+  model: string;
+  /** Display name of the priced model */
+  modelLabel: string;
+  /** USD per million input / output tokens used */
+  pricing: { inputPerMillion: number; outputPerMillion: number };
+  /** Usage profile with defaults applied */
+  usage: Required<UsageProfile>;
+  /** Model cost of a single request */
+  perRequestCost: number;
+  monthly: MonthlyCost;
+  /** monthly.total × 12 */
+  yearlyTotal: number;
+  assumptions: string[];
+  /** ISO date the pricing table was last updated */
+  pricingUpdated: string;
+}
+
+/** Zod schema for MonthlyCost */
+export const MonthlyCostSchema = z.object({
+  requests: z.number(),
+  inputTokenCost: z.number(),
+  outputTokenCost: z.number(),
+  llmCost: z.number(),
+  reviewedItems: z.number(),
+  reviewHours: z.number(),
+  reviewCost: z.number(),
+  total: z.number()
+});
+
+/** Zod schema for CostEstimate */
+export const CostEstimateSchema = z.object({
+  model: z.string(),
+  modelLabel: z.string(),
+  pricing: z.object({ inputPerMillion: z.number(), outputPerMillion: z.number() }),
+  usage: UsageProfileSchema.required(),
+  perRequestCost: z.number(),
+  monthly: MonthlyCostSchema,
+  yearlyTotal: z.number(),
+  assumptions: z.array(z.string()),
+  pricingUpdated: z.string()
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUESTION POLICY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * What a run does with unanswered blocking questions.
+ * - ask: suspend until they are answered (default)
+ * - assume: continue with each question's current assumption
+ * - ask-with-timeout: suspend, then continue with the current assumptions
+ *   if no answers arrive within `questionTimeoutMs`
+ */
+export type QuestionPolicy = 'ask' | 'assume' | 'ask-with-timeout';
+
+/** Question policy Zod schema for validation */
+export const QuestionPolicySchema = z.enum(['ask', 'assume', 'ask-with-timeout']);
+
+/** How long an ask-with-timeout run waits for answers (5 minutes) */
+export const DEFAULT_QUESTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DIMENSION SAMPLING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Most samples a dimension may be scored with */
+export const MAX_DIMENSION_SAMPLES = 9;
+
+/**
+ * Self-consistency sampling for dimension scoring: each dimension is
+ * analyzed `samples` times and the scores are put to a majority vote.
+ */
+export interface SamplingConfig {
+  /** Analyses per dimension (1 disables sampling) */
+  samples: number;
+  /** Temperature of each sample, reused in turn (default: the model's) */
+  temperatures?: number[];
+}
+
+/** Sampling config Zod schema for validation */
+export const SamplingConfigSchema = z.object({
+  samples: z.number().int().min(1).max(MAX_DIMENSION_SAMPLES),
+  temperatures: z.array(z.number().min(0).max(2)).min(1).optional()
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE INPUT
 // ═══════════════════════════════════════════════════════════════════════════
@@ -109,6 +291,22 @@ export interface PipelineInput {
    * The pipeline will use these answers instead of asking the questions.
    */
   preAppliedAnswers?: UserAnswer[];
+  /** How the verdict is produced (default: 'ai') */
+  verdictMode?: VerdictMode;
+  /** Expected usage; when set, the result includes a cost estimate */
+  usage?: UsageProfile;
+  /** Industry preset applied to the dimension rubrics and weights */
+  industry?: IndustryPresetId;
+  /** What to do with unanswered blocking questions (default: 'ask') */
+  questionPolicy?: QuestionPolicy;
+  /** Wait for answers under 'ask-with-timeout' (default: DEFAULT_QUESTION_TIMEOUT_MS) */
+  questionTimeoutMs?: number;
+  /** Assessment this run re-runs; the result is stored as its next version */
+  parentThreadId?: string;
+  /** Score each dimension by majority vote over several samples (default: one sample) */
+  sampling?: SamplingConfig;
+  /** Who the run belongs to (the API key that started it); the stored result is only visible to them */
+  ownerId?: string;
 }
 
 /** Zod schema for PipelineInput validation */
@@ -118,9 +316,18 @@ export const PipelineInputSchema = z.object({
   preAppliedAnswers: z.array(z.object({
     questionId: z.string(),
     answer: z.string(),
+    question: z.string().optional(),
     source: z.enum(['screening', 'dimension']),
     timestamp: z.number()
-  })).optional()
+  })).optional(),
+  verdictMode: VerdictModeSchema.optional(),
+  usage: UsageProfileSchema.optional(),
+  industry: IndustryPresetIdSchema.optional(),
+  questionPolicy: QuestionPolicySchema.optional(),
+  questionTimeoutMs: z.number().int().positive().optional(),
+  parentThreadId: z.string().optional(),
+  sampling: SamplingConfigSchema.optional(),
+  ownerId: z.string().optional()
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -135,6 +342,8 @@ export interface UserAnswer {
   questionId: string;
   /** The user's answer text */
   answer: string;
+  /** Question text, kept so the answer can be listed and revised later */
+  question?: string;
   /** Which stage emitted this question */
   source: 'screening' | 'dimension';
   /** Unix timestamp when answer was received */
@@ -145,6 +354,7 @@ export interface UserAnswer {
 export const UserAnswerSchema = z.object({
   questionId: z.string(),
   answer: z.string(),
+  question: z.string().optional(),
   source: z.enum(['screening', 'dimension']),
   timestamp: z.number()
 });
@@ -218,6 +428,35 @@ export const FollowUpQuestionSchema = z.object({
   suggestedOptions: z.array(QuestionOptionSchema).optional()
 });
 
+/**
+ * A blocking question the run continued past with an assumed answer
+ * (question policy 'assume' or 'ask-with-timeout').
+ */
+export interface AppliedAssumption {
+  /** ID of the question */
+  questionId: string;
+  /** The question text */
+  question: string;
+  /** The answer assumed in its place */
+  assumption: string;
+  /** Where the question came from */
+  source: FollowUpQuestion['source'];
+  /** Unix timestamp when the assumption was applied */
+  appliedAt: number;
+}
+
+/** Zod schema for AppliedAssumption validation */
+export const AppliedAssumptionSchema = z.object({
+  questionId: z.string(),
+  question: z.string(),
+  assumption: z.string(),
+  source: z.object({
+    stage: z.enum(['screening', 'dimension']),
+    dimensionId: DimensionIdSchema.optional()
+  }),
+  appliedAt: z.number()
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // DIMENSION ANALYSIS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -249,8 +488,41 @@ export interface DimensionAnalysis {
   infoGaps: FollowUpQuestion[];
   /** Current status of this dimension's analysis */
   status: DimensionStatus;
+  /** True for custom dimensions registered at runtime */
+  custom?: boolean;
+  /** Per-sample spread when the dimension was scored by several samples */
+  samples?: DimensionSamples;
+}
+
+/**
+ * How the samples of a multi-sample dimension analysis voted.
+ */
+export interface DimensionSamples {
+  /** Score of each sample, in order */
+  scores: DimensionScore[];
+  /** Confidence each sample reported, in order */
+  confidences: number[];
+  /** Temperature of each sample, when set */
+  temperatures?: number[];
+  /** Samples per score */
+  votes: Record<DimensionScore, number>;
+  /** Share of samples that voted for the final score (0-1) */
+  agreement: number;
 }
 
+/** Zod schema for DimensionSamples validation */
+export const DimensionSamplesSchema = z.object({
+  scores: z.array(DimensionScoreSchema),
+  confidences: z.array(z.number().min(0).max(1)),
+  temperatures: z.array(z.number()).optional(),
+  votes: z.object({
+    favorable: z.number().int().min(0),
+    neutral: z.number().int().min(0),
+    unfavorable: z.number().int().min(0)
+  }),
+  agreement: z.number().min(0).max(1)
+});
+
 /** Zod schema for DimensionAnalysis validation */
 export const DimensionAnalysisSchema = z.object({
   id: DimensionIdSchema,
@@ -261,7 +533,9 @@ export const DimensionAnalysisSchema = z.object({
   reasoning: z.string(),
   evidence: z.array(z.string()),
   infoGaps: z.array(FollowUpQuestionSchema),
-  status: z.enum(['pending', 'running', 'preliminary', 'complete'])
+  status: z.enum(['pending', 'running', 'preliminary', 'complete']),
+  custom: z.boolean().optional(),
+  samples: DimensionSamplesSchema.optional()
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -290,6 +564,58 @@ export interface VerdictKeyFactor {
   note: string;
 }
 
+/**
+ * One dimension's contribution to the weighted verdict score.
+ */
+export interface DimensionContribution {
+  dimensionId: DimensionId;
+  score: DimensionScore;
+  weight: number;
+  confidence: number;
+  /** Signed share of the normalized total (sums to the verdict score) */
+  contribution: number;
+}
+
+/**
+ * Outcome of a must-pass rule, e.g. "STRONG_FIT requires error_tolerance
+ * to be at least neutral".
+ */
+export interface MustPassCheck {
+  /** Least favorable verdict the rule guards (more favorable ones are guarded too) */
+  verdict: Verdict;
+  dimensionId: DimensionId;
+  minimumScore: DimensionScore;
+  /** Observed score (null if the dimension was not analyzed) */
+  actual: DimensionScore | null;
+  passed: boolean;
+}
+
+/**
+ * Deterministic verdict computed from dimension scores, weights and
+ * confidence, so the verdict can be audited and reproduced.
+ */
+export interface WeightedVerdict {
+  verdict: Verdict;
+  /** Normalized score in [-1, 1] */
+  score: number;
+  /** Weight-averaged dimension confidence */
+  confidence: number;
+  /** Verdict from the score thresholds before must-pass rules */
+  thresholdVerdict: Verdict;
+  contributions: DimensionContribution[];
+  /** Must-pass rules that failed and downgraded the verdict */
+  failedChecks: MustPassCheck[];
+  /** AI verdict being compared against (compare mode only) */
+  aiVerdict?: Verdict;
+  /**
+   * Steps between the verdicts (compare mode only): positive when the
+   * weighted verdict is less favorable than the AI verdict, 0 when they agree
+   */
+  divergence?: number;
+  /** Human-readable explanation of any disagreement (compare mode only) */
+  divergenceNote?: string;
+}
+
 /**
  * Result of the verdict calculation stage.
  */
@@ -304,6 +630,8 @@ export interface VerdictResult {
   reasoning: string;
   /** Most important dimension factors */
   keyFactors: VerdictKeyFactor[];
+  /** Deterministic weighted verdict (compare and rules modes) */
+  weighted?: WeightedVerdict;
 }
 
 /** Zod schema for VerdictKeyFactor */
@@ -313,13 +641,45 @@ export const VerdictKeyFactorSchema = z.object({
   note: z.string()
 });
 
+/** Zod schema for DimensionContribution */
+export const DimensionContributionSchema = z.object({
+  dimensionId: DimensionIdSchema,
+  score: DimensionScoreSchema,
+  weight: z.number(),
+  confidence: z.number(),
+  contribution: z.number()
+});
+
+/** Zod schema for MustPassCheck */
+export const MustPassCheckSchema = z.object({
+  verdict: VerdictSchema,
+  dimensionId: DimensionIdSchema,
+  minimumScore: DimensionScoreSchema,
+  actual: DimensionScoreSchema.nullable(),
+  passed: z.boolean()
+});
+
+/** Zod schema for WeightedVerdict */
+export const WeightedVerdictSchema = z.object({
+  verdict: VerdictSchema,
+  score: z.number().min(-1).max(1),
+  confidence: z.number().min(0).max(1),
+  thresholdVerdict: VerdictSchema,
+  contributions: z.array(DimensionContributionSchema),
+  failedChecks: z.array(MustPassCheckSchema),
+  aiVerdict: VerdictSchema.optional(),
+  divergence: z.number().int().optional(),
+  divergenceNote: z.string().optional()
+});
+
 /** Zod schema for VerdictResult validation */
 export const VerdictResultSchema = z.object({
   verdict: VerdictSchema,
   confidence: z.number().min(0).max(1),
   summary: z.string(),
   reasoning: z.string(),
-  keyFactors: z.array(VerdictKeyFactorSchema)
+  keyFactors: z.array(VerdictKeyFactorSchema),
+  weighted: WeightedVerdictSchema.optional()
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -470,6 +830,14 @@ export interface RecommendedArchitecture {
   humanInLoop: boolean;
   /** Suggested confidence threshold for automation */
   confidenceThreshold?: number;
+  /** How data flows through the system */
+  dataFlow?: string;
+  /** Safety guardrails needed */
+  guardrails?: string[];
+  /** What to monitor for success */
+  monitoringNeeds?: string[];
+  /** Mermaid flowchart of the architecture, generated from the fields above */
+  diagram?: string;
 }
 
 /** Zod schema for RecommendedArchitecture */
@@ -477,9 +845,29 @@ export const RecommendedArchitectureSchema = z.object({
   description: z.string(),
   components: z.array(z.string()),
   humanInLoop: z.boolean(),
-  confidenceThreshold: z.number().optional()
+  confidenceThreshold: z.number().optional(),
+  dataFlow: z.string().optional(),
+  guardrails: z.array(z.string()).optional(),
+  monitoringNeeds: z.array(z.string()).optional(),
+  diagram: z.string().optional()
 });
 
+/**
+ * Area a pre-build question belongs to.
+ */
+export type PreBuildQuestionCategory = 'technical' | 'business' | 'operational' | 'data';
+
+/** Pre-build question category Zod schema for validation */
+export const PreBuildQuestionCategorySchema = z.enum(['technical', 'business', 'operational', 'data']);
+
+/** Pre-build question categories in display order */
+export const PRE_BUILD_QUESTION_CATEGORIES: readonly PreBuildQuestionCategory[] = [
+  'business',
+  'data',
+  'technical',
+  'operational'
+];
+
 /**
  * A question to answer before building.
  */
@@ -488,14 +876,88 @@ export interface PreBuildQuestion {
   question: string;
   /** Why it matters */
   whyItMatters: string;
+  /** Area the question belongs to */
+  category?: PreBuildQuestionCategory;
 }
 
 /** Zod schema for PreBuildQuestion */
 export const PreBuildQuestionSchema = z.object({
   question: z.string(),
-  whyItMatters: z.string()
+  whyItMatters: z.string(),
+  category: PreBuildQuestionCategorySchema.optional()
+});
+
+/**
+ * Pre-build questions of one category (`null` for uncategorized questions).
+ */
+export interface PreBuildQuestionGroup<T extends Pick<PreBuildQuestion, 'category'> = PreBuildQuestion> {
+  category: PreBuildQuestionCategory | null;
+  questions: T[];
+}
+
+/**
+ * Groups pre-build questions by category in display order, with
+ * uncategorized questions last. Empty groups are left out.
+ */
+export function groupPreBuildQuestions<T extends Pick<PreBuildQuestion, 'category'>>(
+  questions: T[]
+): PreBuildQuestionGroup<T>[] {
+  const groups: PreBuildQuestionGroup<T>[] = [...PRE_BUILD_QUESTION_CATEGORIES, null].map((category) => ({
+    category,
+    questions: questions.filter((q) => (q.category ?? null) === category)
+  }));
+  return groups.filter((group) => group.questions.length > 0);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNTHESIS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * How urgent an action item is.
+ * - critical: do this first or the project will fail
+ * - important: significantly affects success
+ * - optional: worth doing, but not blocking
+ */
+export type ActionItemPriority = 'critical' | 'important' | 'optional';
+
+/** Action item priority Zod schema for validation */
+export const ActionItemPrioritySchema = z.enum(['critical', 'important', 'optional']);
+
+/** Action item priorities, most urgent first */
+export const ACTION_ITEM_PRIORITIES: readonly ActionItemPriority[] = ['critical', 'important', 'optional'];
+
+/**
+ * A next step recommended by the synthesis.
+ */
+export interface ActionItem {
+  /** What to do */
+  action: string;
+  /** How urgent it is */
+  priority: ActionItemPriority;
+  /** Why it matters */
+  rationale: string;
+}
+
+/** Zod schema for ActionItem */
+export const ActionItemSchema = z.object({
+  action: z.string(),
+  priority: ActionItemPrioritySchema,
+  rationale: z.string()
 });
 
+/**
+ * The structured part of the synthesis, alongside its reasoning narrative.
+ */
+export interface SynthesisSummary {
+  /** 2-3 sentence summary for decision-makers */
+  executiveSummary: string;
+  /** Prioritized next steps */
+  actionItems: ActionItem[];
+  /** Points the reader should remember */
+  keyTakeaways: string[];
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // PIPELINE ERROR
 // ═══════════════════════════════════════════════════════════════════════════
@@ -622,6 +1084,12 @@ export interface AnalysisResult {
   threadId: string;
   /** Original problem analyzed */
   problem: string;
+  /** Assessment this one is a new version of */
+  parentThreadId?: string;
+  /** Who the run belongs to, from `PipelineInput.ownerId` */
+  ownerId?: string;
+  /** Industry preset the analysis was evaluated against */
+  industry?: IndustryPresetId;
   /** Final verdict */
   verdict: Verdict;
   /** Confidence in the verdict */
@@ -634,6 +1102,8 @@ export interface AnalysisResult {
   dimensions: DimensionAnalysis[];
   /** Key factors that influenced the verdict */
   keyFactors: VerdictKeyFactor[];
+  /** Deterministic weighted verdict (compare and rules modes) */
+  weightedVerdict?: WeightedVerdict;
   /** Identified risks */
   risks: RiskFactor[];
   /** Alternative approaches */
@@ -642,8 +1112,18 @@ export interface AnalysisResult {
   architecture: RecommendedArchitecture | null;
   /** Questions to answer before building */
   questionsBeforeBuilding: PreBuildQuestion[];
-  /** Answers provided during analysis */
-  answeredQuestions: { questionId: string; answer: string }[];
+  /** Summary for decision-makers (from the synthesis) */
+  executiveSummary?: string;
+  /** Prioritized next steps (from the synthesis) */
+  actionItems?: ActionItem[];
+  /** Points the reader should remember (from the synthesis) */
+  keyTakeaways?: string[];
+  /** Answers provided during analysis (with the question text when known) */
+  answeredQuestions: { questionId: string; answer: string; question?: string }[];
+  /** Blocking questions answered with an assumption instead of the user */
+  appliedAssumptions?: AppliedAssumption[];
+  /** Operating cost estimate (when a usage profile was provided) */
+  costEstimate?: CostEstimate;
   /** Total analysis duration in ms */
   durationMs: number;
 }
@@ -652,20 +1132,30 @@ export interface AnalysisResult {
 export const AnalysisResultSchema = z.object({
   threadId: z.string(),
   problem: z.string(),
+  parentThreadId: z.string().optional(),
+  ownerId: z.string().optional(),
+  industry: IndustryPresetIdSchema.optional(),
   verdict: VerdictSchema,
   confidence: z.number().min(0).max(1),
   summary: z.string(),
   reasoning: z.string(),
   dimensions: z.array(DimensionAnalysisSchema),
   keyFactors: z.array(VerdictKeyFactorSchema),
+  weightedVerdict: WeightedVerdictSchema.optional(),
   risks: z.array(RiskFactorSchema),
   alternatives: z.array(AlternativeSchema),
   architecture: RecommendedArchitectureSchema.nullable(),
   questionsBeforeBuilding: z.array(PreBuildQuestionSchema),
+  executiveSummary: z.string().optional(),
+  actionItems: z.array(ActionItemSchema).optional(),
+  keyTakeaways: z.array(z.string()).optional(),
   answeredQuestions: z.array(z.object({
     questionId: z.string(),
-    answer: z.string()
+    answer: z.string(),
+    question: z.string().optional()
   })),
+  appliedAssumptions: z.array(AppliedAssumptionSchema).optional(),
+  costEstimate: CostEstimateSchema.optional(),
   durationMs: z.number()
 });
 
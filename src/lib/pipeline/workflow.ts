@@ -24,9 +24,12 @@ import {
   AlternativeSchema,
   RecommendedArchitectureSchema,
   PreBuildQuestionSchema,
+  ActionItemSchema,
   FollowUpQuestionSchema,
   UserAnswerSchema,
+  AppliedAssumptionSchema,
   AnalysisResultSchema,
+  type AppliedAssumption,
   type PipelineInput,
   type ScreeningOutput,
   type DimensionAnalysis,
@@ -41,7 +44,7 @@ import {
   type DimensionId
 } from './types';
 
-import { type WorkflowState, createInitialState, assembleResult } from './state';
+import { type WorkflowState, createInitialState, createAssumption, assembleResult } from './state';
 
 // Import analyzers
 import {
@@ -50,7 +53,7 @@ import {
   calculateVerdict,
   runSecondaryAnalyses,
   synthesizeReasoning,
-  ALL_DIMENSION_IDS
+  getDimensionRegistry
 } from './analyzers';
 
 // Import event emission and resilience utilities
@@ -69,6 +72,7 @@ import { executeAnalyzerWithResilience } from './workflow/resilience';
 export const WorkflowStateSchema = z.object({
   input: PipelineInputSchema,
   answers: z.record(z.string(), UserAnswerSchema),
+  assumptions: z.record(z.string(), AppliedAssumptionSchema),
   screening: ScreeningOutputSchema.nullable(),
   dimensions: z.record(z.string(), DimensionAnalysisSchema),
   pendingQuestions: z.array(FollowUpQuestionSchema),
@@ -78,6 +82,9 @@ export const WorkflowStateSchema = z.object({
   architecture: RecommendedArchitectureSchema.nullable(),
   questionsBeforeBuilding: z.array(PreBuildQuestionSchema).nullable(),
   finalReasoning: z.string().nullable(),
+  executiveSummary: z.string().nullable(),
+  actionItems: z.array(ActionItemSchema).nullable(),
+  keyTakeaways: z.array(z.string()).nullable(),
   startedAt: z.number(),
   completedAt: z.number().nullable(),
   errors: z.array(
@@ -164,6 +171,32 @@ function debugStep(step: string, message: string, data?: unknown): void {
   }
 }
 
+/**
+ * Answers unanswered blocking questions with their current assumptions when
+ * the run's question policy is 'assume'. Otherwise the step suspends: the
+ * workflow has no timer, so /api/pipeline/start refuses 'ask-with-timeout'
+ * on this path.
+ *
+ * @returns The applied assumptions, or null if the step should suspend
+ */
+async function assumeIfAllowed(
+  input: PipelineInput,
+  questions: FollowUpQuestion[],
+  writer: StepWriter | undefined
+): Promise<Record<string, AppliedAssumption> | null> {
+  if (input.questionPolicy !== 'assume') {
+    return null;
+  }
+
+  const assumptions: Record<string, AppliedAssumption> = {};
+  for (const question of questions) {
+    const assumption = createAssumption(question);
+    assumptions[question.id] = assumption;
+    await emitPipelineEvent(writer, events.answerAssumed(question.id, assumption.assumption));
+  }
+  return assumptions;
+}
+
 export const screenerStep = createStep({
   id: 'screener',
   description: 'Analyzes problem for evaluability and surfaces clarifying questions',
@@ -211,7 +244,7 @@ export const screenerStep = createStep({
 
     // Call the AI-powered screening analyzer with resilience
     const screening = await executeAnalyzerWithResilience(
-      () => analyzeScreening(inputData, currentAnswers),
+      (signal) => analyzeScreening(inputData, currentAnswers, { abortSignal: signal }),
       'screening',
       { maxAttempts: 3, timeout: 30000 }
     );
@@ -239,15 +272,20 @@ export const screenerStep = createStep({
       (q) => !currentAnswers[q.id]
     );
 
+    let assumptions = state?.assumptions || {};
     if (unansweredBlockingQuestions.length > 0) {
-      // Suspend and wait for answers
-      await suspend({
-        questions: unansweredBlockingQuestions,
-        stage: 'screening' as const
-      });
-
-      // When resumed, the workflow will re-execute this step with resumeData
-      return { screening, suspended: true };
+      const assumed = await assumeIfAllowed(inputData, unansweredBlockingQuestions, stepWriter);
+      if (!assumed) {
+        // Suspend and wait for answers
+        await suspend({
+          questions: unansweredBlockingQuestions,
+          stage: 'screening' as const
+        });
+
+        // When resumed, the workflow will re-execute this step with resumeData
+        return { screening, suspended: true };
+      }
+      assumptions = { ...assumptions, ...assumed };
     }
 
     // Emit screening complete event
@@ -264,6 +302,8 @@ export const screenerStep = createStep({
     if (state) {
       setState({
         ...state,
+        answers: currentAnswers,
+        assumptions,
         screening,
         pendingQuestions: screening.clarifyingQuestions
       });
@@ -280,8 +320,9 @@ export const screenerStep = createStep({
  * 1. Analyzes each of the 7 evaluation dimensions
  * 2. Uses tool-calling for specialized calculations
  * 3. May emit questions for specific dimensions
- * 4. Can suspend to collect answers
- * 5. Emits events for real-time progress updates
+ * 4. Can suspend to collect answers, stopping the remaining analyzers as
+ *    soon as a blocking question is raised
+ * 5. Emits events for each dimension as soon as it finishes
  */
 export const dimensionsStep = createStep({
   id: 'dimensions',
@@ -319,74 +360,98 @@ export const dimensionsStep = createStep({
     const input = state?.input || { problem: '' };
     const screening = inputData.screening;
 
-    // Emit dimension start events for all dimensions
-    const dimensionNames: Record<DimensionId, string> = {
-      task_determinism: 'Task Determinism',
-      error_tolerance: 'Error Tolerance',
-      data_availability: 'Data Availability',
-      evaluation_clarity: 'Evaluation Clarity',
-      edge_case_risk: 'Edge Case Risk',
-      human_oversight_cost: 'Human Oversight Cost',
-      rate_of_change: 'Rate of Change'
-    };
+    // Dimensions finished before a suspend are kept, except those whose
+    // questions were just answered: they are analyzed again with the answers
+    const answered = new Set(resumeData?.answers?.map((answer) => answer.questionId));
+    const finished: Record<string, DimensionAnalysis> = Object.fromEntries(
+      Object.values(state?.dimensions ?? {})
+        .filter((analysis) => !analysis.infoGaps.some((q) => answered.has(q.id)))
+        .map((analysis) => [analysis.id, analysis])
+    );
 
-    for (const dimId of ALL_DIMENSION_IDS) {
-      const priority = screening.dimensionPriorities.find((p) => p.dimensionId === dimId);
+    // Emit dimension start events for the dimensions about to run
+    for (const dimension of getDimensionRegistry().list().filter((d) => !finished[d.id])) {
+      const priority = screening.dimensionPriorities.find((p) => p.dimensionId === dimension.id);
       await emitPipelineEvent(
         stepWriter,
-        events.dimensionStart(dimId, dimensionNames[dimId], priority?.priority || 'medium')
+        events.dimensionStart(dimension.id, dimension.name, priority?.priority || 'medium')
       );
     }
 
-    // Call the AI-powered dimension analyzers with resilience
-    const dimensions = await executeAnalyzerWithResilience(
-      () => analyzeAllDimensions(input, screening, currentAnswers),
-      'dimensions',
-      { maxAttempts: 3, timeout: 90000 }
-    );
-
-    // Emit completion events for each dimension
-    for (const [dimId, analysis] of Object.entries(dimensions)) {
-      // Emit preliminary score first
-      await emitPipelineEvent(
-        stepWriter,
-        events.dimensionPreliminary(dimId as DimensionId, analysis.score, analysis.confidence)
-      );
+    // Report each dimension the moment its analyzer resolves, and stop the
+    // rest as soon as a blocking question would suspend the run
+    const isUnanswered = (q: FollowUpQuestion) => !currentAnswers[q.id] && !state?.assumptions?.[q.id];
+    const stop = new AbortController();
+    const complete = (analysis: DimensionAnalysis) => {
+      // Analyses resolving after the stop are dropped and run again on resume
+      if (stop.signal.aborted || finished[analysis.id]) return;
+      finished[analysis.id] = analysis;
 
-      // Emit any dimension-specific questions
+      // Emit any dimension-specific questions, then the dimension complete
       for (const question of analysis.infoGaps) {
-        await emitPipelineEvent(stepWriter, events.dimensionQuestion(question));
+        void emitPipelineEvent(stepWriter, events.dimensionQuestion(question));
       }
+      void emitPipelineEvent(stepWriter, events.dimensionComplete(analysis.id, analysis));
 
-      // Emit dimension complete
-      await emitPipelineEvent(
-        stepWriter,
-        events.dimensionComplete(dimId as DimensionId, analysis)
-      );
-    }
+      const blocking = analysis.infoGaps.some((q) => q.priority === 'blocking' && isUnanswered(q));
+      if (blocking && input.questionPolicy !== 'assume') {
+        stop.abort();
+      }
+    };
+
+    // Call the AI-powered dimension analyzers with resilience; a retry only
+    // re-runs the dimensions that have not finished yet
+    await executeAnalyzerWithResilience(
+      async (signal) => {
+        const analyzed = await analyzeAllDimensions(input, screening, currentAnswers, {
+          onToolEvent: (event) => void emitPipelineEvent(stepWriter, event),
+          onPreliminary: (event) => void emitPipelineEvent(stepWriter, event),
+          onDimensionComplete: complete,
+          abortSignal: AbortSignal.any([stop.signal, signal]),
+          dimensionIds: getDimensionRegistry().ids().filter((id) => !finished[id])
+        }).catch((error: unknown) => {
+          if (stop.signal.aborted) return {};
+          throw error;
+        });
+        Object.values(analyzed).forEach(complete);
+        return analyzed;
+      },
+      'dimensions',
+      { maxAttempts: 3, timeout: 90000 }
+    );
+    const dimensions = finished as Record<DimensionId, DimensionAnalysis>;
 
     // Check if we need to suspend for blocking questions
     const allQuestions = Object.values(dimensions).flatMap((d) => d.infoGaps);
     const blockingQuestions = allQuestions.filter((q) => q.priority === 'blocking');
 
     // Only suspend if we have blocking questions that haven't been answered yet
-    const unansweredBlockingQuestions = blockingQuestions.filter(
-      (q) => !currentAnswers[q.id]
-    );
+    const unansweredBlockingQuestions = blockingQuestions.filter(isUnanswered);
 
+    let assumptions = state?.assumptions || {};
     if (unansweredBlockingQuestions.length > 0) {
-      await suspend({
-        questions: unansweredBlockingQuestions,
-        stage: 'dimensions' as const
-      });
-
-      return { dimensions, suspended: true };
+      const assumed = await assumeIfAllowed(input, unansweredBlockingQuestions, stepWriter);
+      if (!assumed) {
+        // Dimensions stopped early are analyzed again, with the answers, on resume
+        if (state) {
+          setState({ ...state, answers: currentAnswers, dimensions });
+        }
+        await suspend({
+          questions: unansweredBlockingQuestions,
+          stage: 'dimensions' as const
+        });
+
+        return { dimensions, suspended: true };
+      }
+      assumptions = { ...assumptions, ...assumed };
     }
 
     // Update state with dimension results
     if (state) {
       setState({
         ...state,
+        answers: currentAnswers,
+        assumptions,
         dimensions
       });
     }
@@ -419,9 +484,10 @@ export const verdictStep = createStep({
 
     // Emit computing event with dimension counts
     const completedDimensions = Object.keys(inputData.dimensions).length;
+    const totalDimensions = getDimensionRegistry().ids().length;
     await emitPipelineEvent(
       stepWriter,
-      events.verdictComputing(completedDimensions, 7)
+      events.verdictComputing(completedDimensions, totalDimensions)
     );
 
     // Get input and screening from state
@@ -429,9 +495,19 @@ export const verdictStep = createStep({
     const screening = state?.screening || null;
     const dimensions = inputData.dimensions;
 
-    // Call the AI-powered verdict calculator with resilience
+    // Call the AI-powered verdict calculator with resilience, streaming its
+    // reasoning; a retry re-sends verdict:computing so clients drop the text
+    let attempts = 0;
     const verdict = await executeAnalyzerWithResilience(
-      () => calculateVerdict(input, screening, dimensions),
+      async (signal) => {
+        if (attempts++ > 0) {
+          await emitPipelineEvent(stepWriter, events.verdictComputing(completedDimensions, totalDimensions));
+        }
+        return calculateVerdict(input, screening, dimensions, {
+          abortSignal: signal,
+          onReasoningChunk: (chunk) => void emitPipelineEvent(stepWriter, events.reasoningChunk(chunk, 'verdict'))
+        });
+      },
       'verdict',
       { maxAttempts: 3, timeout: 30000 }
     );
@@ -439,7 +515,7 @@ export const verdictStep = createStep({
     // Emit verdict result event
     await emitPipelineEvent(
       stepWriter,
-      events.verdictResult(verdict.verdict, verdict.confidence, verdict.summary)
+      events.verdictResult(verdict.verdict, verdict.confidence, verdict.summary, verdict.weighted)
     );
 
     // Update state with verdict
@@ -489,7 +565,7 @@ export const secondaryStep = createStep({
 
     // Run all secondary analyses in parallel with resilience
     const secondaryResult = await executeAnalyzerWithResilience(
-      () => runSecondaryAnalyses(input, dimensions, verdict),
+      (signal) => runSecondaryAnalyses(input, dimensions, verdict, { abortSignal: signal }),
       'secondary',
       { maxAttempts: 3, timeout: 60000 }
     );
@@ -570,7 +646,6 @@ export const synthesisStep = createStep({
 
     // Emit stage transition event
     await emitPipelineEvent(stepWriter, events.pipelineStage('synthesis'));
-    await emitPipelineEvent(stepWriter, events.reasoningStart());
 
     // Build synthesis input from accumulated state
     const synthesisInput = {
@@ -591,32 +666,47 @@ export const synthesisStep = createStep({
       questionsBeforeBuilding: inputData.questionsBeforeBuilding
     };
 
-    // Call the AI-powered synthesizer with resilience
+    // Call the AI-powered synthesizer with resilience, streaming its
+    // reasoning; reasoning:start is sent per attempt so clients drop the text
+    // streamed by a failed one
     const synthesisOutput = await executeAnalyzerWithResilience(
-      () => synthesizeReasoning(synthesisInput),
+      async (signal) => {
+        await emitPipelineEvent(stepWriter, events.reasoningStart());
+        return synthesizeReasoning(synthesisInput, {
+          abortSignal: signal,
+          onReasoningChunk: (chunk) => void emitPipelineEvent(stepWriter, events.reasoningChunk(chunk))
+        });
+      },
       'synthesis',
       { maxAttempts: 3, timeout: 30000 }
     );
 
-    const reasoning = synthesisOutput.reasoning;
+    const { reasoning, executiveSummary, actionItems, keyTakeaways } = synthesisOutput;
 
     // Emit reasoning complete event
-    await emitPipelineEvent(stepWriter, events.reasoningComplete(reasoning));
+    await emitPipelineEvent(
+      stepWriter,
+      events.reasoningComplete(reasoning, { executiveSummary, actionItems, keyTakeaways })
+    );
 
     // Mark completion time and update state with synthesis output
-    if (state) {
-      setState({
-        ...state,
-        finalReasoning: reasoning,
-        completedAt: Date.now()
-      });
+    const finalState = state && {
+      ...state,
+      finalReasoning: reasoning,
+      executiveSummary,
+      actionItems,
+      keyTakeaways,
+      completedAt: Date.now()
+    };
+    if (finalState) {
+      setState(finalState);
     }
 
-    // Assemble final result from state
+    // Assemble final result from the updated state
     // Note: state should always exist when stateSchema is defined
     // Cast state to WorkflowState since Zod infers looser types than our interfaces
-    const result: AnalysisResult = state
-      ? assembleResult(state as unknown as WorkflowState, runId || 'unknown')
+    const result: AnalysisResult = finalState
+      ? assembleResult(finalState as unknown as WorkflowState, runId || 'unknown')
       : createFallbackResult(inputData, reasoning, runId || 'unknown');
 
     // Emit pipeline complete event with the full result
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for workflow step resilience.
+ *
+ * @module pipeline/workflow/__tests__/resilience.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeAnalyzerWithResilience } from '../resilience';
+
+describe('executeAnalyzerWithResilience', () => {
+  const retryOptions = { initialDelay: 10, maxDelay: 20 };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  it('should retry on timeout if attempts remain', async () => {
+    const fn = vi
+      .fn()
+      .mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return 'slow';
+      })
+      .mockResolvedValue('fast');
+
+    const result = await executeAnalyzerWithResilience(fn, 'verdict', { timeout: 50, retryOptions });
+
+    expect(result).toBe('fast');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort a timed-out attempt before retrying', async () => {
+    const signals: AbortSignal[] = [];
+    const fn = vi
+      .fn()
+      .mockImplementationOnce(async (signal: AbortSignal) => {
+        signals.push(signal);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return 'slow';
+      })
+      .mockImplementation(async (signal: AbortSignal) => {
+        signals.push(signal);
+        expect(signals[0].aborted).toBe(true);
+        return 'fast';
+      });
+
+    const result = await executeAnalyzerWithResilience(fn, 'synthesis', { timeout: 50, retryOptions });
+
+    expect(result).toBe('fast');
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should not retry on non-retryable errors', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('401 Unauthorized'));
+
+    await expect(executeAnalyzerWithResilience(fn, 'verdict', { retryOptions })).rejects.toMatchObject({
+      code: 'AUTHENTICATION'
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
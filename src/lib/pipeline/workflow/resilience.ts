@@ -3,7 +3,8 @@
  *
  * Provides simplified retry logic for analyzer calls within workflow steps.
  * Unlike the full step-wrapper.ts, this is designed to work inside Mastra's
- * execute function without requiring an abort signal or callbacks.
+ * execute function without requiring a run abort signal or callbacks. Each
+ * attempt still gets its own signal, aborted when the attempt times out.
  *
  * @module pipeline/workflow/resilience
  */
@@ -84,7 +85,11 @@ function createTimeoutPromise<T>(ms: number): Promise<T> {
  * - Timeout enforcement via Promise.race
  * - Error classification for appropriate retry decisions
  *
- * @param fn - The analyzer function to execute
+ * The attempt's abort signal is aborted when the attempt times out or fails.
+ * Pass it on to the analyzer so a timed-out attempt stops streaming before
+ * the retry starts.
+ *
+ * @param fn - The analyzer function to execute, given the attempt's abort signal
  * @param stage - The pipeline stage (for error classification)
  * @param config - Optional configuration for retries and timeout
  * @returns The result of the function
@@ -94,14 +99,14 @@ function createTimeoutPromise<T>(ms: number): Promise<T> {
  * ```ts
  * // In a workflow step:
  * const screening = await executeAnalyzerWithResilience(
- *   () => analyzeScreening(inputData, currentAnswers),
+ *   (signal) => analyzeScreening(inputData, currentAnswers, { abortSignal: signal }),
  *   'screening',
  *   { maxAttempts: 3, timeout: 30000 }
  * );
  * ```
  */
 export async function executeAnalyzerWithResilience<T>(
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   stage: PipelineStage,
   config: AnalyzerResilienceConfig = {}
 ): Promise<T> {
@@ -122,16 +127,20 @@ export async function executeAnalyzerWithResilience<T>(
 
   while (attemptCount < maxAttempts) {
     attemptCount++;
+    const attempt = new AbortController();
 
     try {
       // Race between execution and timeout
       const result = await Promise.race([
-        fn(),
+        fn(attempt.signal),
         createTimeoutPromise<T>(timeout)
       ]);
 
       return result;
     } catch (error) {
+      // Stop whatever the failed attempt still has in flight
+      attempt.abort();
+
       // Check if this was a timeout
       const errorMessage = error instanceof Error ? error.message : String(error);
       const isTimeout = errorMessage.includes('Timeout after');
@@ -209,7 +218,7 @@ export async function executeAnalyzerWithResilience<T>(
  * ```
  */
 export async function executeAnalyzerSafe<T>(
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   stage: PipelineStage,
   config: AnalyzerResilienceConfig = {}
 ): Promise<ResilientResult<T>> {
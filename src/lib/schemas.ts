@@ -79,14 +79,28 @@ export const EvaluationResultSchema = z.object({
     description: z.string(),
     components: z.array(z.string()),
     humanInLoop: z.boolean(),
-    confidenceThreshold: z.number().optional()
+    confidenceThreshold: z.number().optional(),
+    dataFlow: z.string().optional(),
+    guardrails: z.array(z.string()).optional(),
+    monitoringNeeds: z.array(z.string()).optional()
   }).optional(),
 
   questionsBeforeBuilding: z.array(z.object({
     question: z.string(),
-    whyItMatters: z.string()
+    whyItMatters: z.string(),
+    category: z.enum(['technical', 'business', 'operational', 'data']).optional()
   })),
 
+  executiveSummary: z.string().optional(),
+
+  actionItems: z.array(z.object({
+    action: z.string(),
+    priority: z.enum(['critical', 'important', 'optional']),
+    rationale: z.string()
+  })).optional(),
+
+  keyTakeaways: z.array(z.string()).optional(),
+
   reasoning: z.string().describe('Full chain-of-thought reasoning for the verdict')
 });
 
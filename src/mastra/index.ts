@@ -1,32 +1,32 @@
 /**
  * Mastra Configuration
  *
- * Configures the Mastra instance with PostgreSQL storage for
- * workflow snapshot persistence in serverless environments.
+ * Configures the Mastra instance with the checkpoint store selected by
+ * `CHECKPOINT_STORE` for workflow snapshot persistence in serverless
+ * environments and the assessment history.
  *
  * @module mastra
  */
 
 import { Mastra } from '@mastra/core/mastra';
-import { PostgresStore } from '@mastra/pg';
 
 import { analysisPipeline } from '@/lib/pipeline';
+import { getCheckpointStorage } from '@/lib/pipeline/checkpoint';
 
 /**
- * PostgreSQL storage for workflow snapshots.
+ * Storage for workflow snapshots and assessment history.
  *
- * Uses Neon PostgreSQL (configured via DATABASE_URL env var).
- * This enables suspend/resume to work across serverless invocations.
+ * Postgres (`DATABASE_URL`), SQLite, snapshot files or memory, shared with
+ * the legacy executor's checkpointer. See `@/lib/pipeline/checkpoint`.
+ * With the in-memory backend everything is lost when the server restarts.
  */
-const storage = new PostgresStore({
-  connectionString: process.env.DATABASE_URL!
-});
+const { storage } = await getCheckpointStorage();
 
 /**
  * Main Mastra instance.
  *
  * Configured with:
- * - PostgreSQL storage for workflow snapshots
+ * - Checkpoint storage for workflow snapshots and assessments
  * - Analysis pipeline workflow
  */
 export const mastra = new Mastra({